@@ -1,13 +1,14 @@
 // Service Worker for Auto Vital Solution
-const CACHE_NAME = 'auto-vital-v1.0.0';
-const STATIC_CACHE = 'auto-vital-static-v1.0.0';
-const DYNAMIC_CACHE = 'auto-vital-dynamic-v1.0.0';
+const CACHE_NAME = 'auto-vital-v1.2.0';
+const STATIC_CACHE = 'auto-vital-static-v1.2.0';
+const DYNAMIC_CACHE = 'auto-vital-dynamic-v1.2.0';
 
 // Assets to cache immediately
 const STATIC_ASSETS = [
   '/',
   '/trips/new',
   '/trips',
+  '/mobile/trips/new',
   '/vehicles',
   '/drivers',
   '/maintenance',
@@ -17,6 +18,16 @@ const STATIC_ASSETS = [
   '/assets/AVS-LOGO-512x512.png'
 ];
 
+// Supabase endpoints, in case they are ever proxied through the app's origin.
+// Data and auth responses must always come from the network.
+const BYPASS_PATH_PATTERNS = [
+  /^\/rest\/v1\//,
+  /^\/auth\/v1\//,
+  /^\/storage\/v1\//,
+  /^\/functions\/v1\//,
+  /^\/realtime\/v1\//
+];
+
 // API endpoints to cache
 const API_CACHE_PATTERNS = [
   /\/api\/vehicles/,
@@ -83,9 +94,16 @@ self.addEventListener('fetch', (event) => {
   if (!url.protocol.startsWith('http')) {
     return;
   }
+
+  // Leave other origins (Supabase, CDNs) and Supabase paths to the browser
+  if (url.origin !== self.location.origin || BYPASS_PATH_PATTERNS.some(pattern => pattern.test(url.pathname))) {
+    return;
+  }
   
   // Handle different types of requests
-  if (isStaticAsset(request)) {
+  if (request.mode === 'navigate') {
+    event.respondWith(handlePageRequest(request));
+  } else if (isStaticAsset(request)) {
     event.respondWith(handleStaticAsset(request));
   } else if (isAPIRequest(request)) {
     event.respondWith(handleAPIRequest(request));
@@ -113,6 +131,7 @@ function isPageRequest(request) {
   const url = new URL(request.url);
   return url.pathname === '/' || 
          url.pathname.startsWith('/trips') ||
+         url.pathname.startsWith('/mobile') ||
          url.pathname.startsWith('/vehicles') ||
          url.pathname.startsWith('/drivers') ||
          url.pathname.startsWith('/maintenance');
@@ -180,6 +199,12 @@ async function handlePageRequest(request) {
     if (cachedResponse) {
       return cachedResponse;
     }
+
+    // Client-side routes are all served by the app shell
+    const appShell = await caches.match('/');
+    if (appShell) {
+      return appShell;
+    }
     
     // Return offline page
     const offlineResponse = await caches.match('/offline.html');
@@ -233,14 +258,9 @@ async function handlePageRequest(request) {
   }
 }
 
-// Handle other requests - cache first
+// Handle other requests - network first with cache fallback
 async function handleOtherRequest(request) {
   try {
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
-    
     const networkResponse = await fetch(request);
     if (networkResponse.ok) {
       const cache = await caches.open(DYNAMIC_CACHE);
@@ -248,6 +268,11 @@ async function handleOtherRequest(request) {
     }
     return networkResponse;
   } catch (error) {
+    const cachedResponse = await caches.match(request);
+    if (cachedResponse) {
+      return cachedResponse;
+    }
+
     console.error('Service Worker: Failed to handle request', error);
     return new Response('Resource not available offline', { status: 503 });
   }
@@ -262,26 +287,13 @@ self.addEventListener('sync', (event) => {
   }
 });
 
-// Sync trip data when back online
+// Trips captured offline are queued in IndexedDB by the app, which uploads
+// them with the user's session. Wake any open window to run the sync.
 async function syncTripData() {
   try {
-    const cache = await caches.open(DYNAMIC_CACHE);
-    const requests = await cache.keys();
-    const tripRequests = requests.filter(request => 
-      request.url.includes('/api/trips') && request.method === 'POST'
-    );
-    
-    for (const request of tripRequests) {
-      try {
-        const response = await fetch(request);
-        if (response.ok) {
-          await cache.delete(request);
-          console.log('Service Worker: Synced trip data');
-        }
-      } catch (error) {
-        console.error('Service Worker: Failed to sync trip data', error);
-      }
-    }
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    windows.forEach((client) => client.postMessage({ type: 'SYNC_OFFLINE_TRIPS' }));
+    console.log('Service Worker: Requested trip sync from', windows.length, 'window(s)');
   } catch (error) {
     console.error('Service Worker: Background sync failed', error);
   }
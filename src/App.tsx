@@ -27,6 +27,8 @@ import DriversPage from "./pages/DriversPage";
 import DriverPage from "./pages/DriverPage";
 import TripsPage from "./pages/TripsPage";
 import TripDetailsPage from "./pages/TripDetailsPage";
+import DispatchBoardPage from "./pages/DispatchBoardPage";
+import AvailabilityPage from "./pages/AvailabilityPage";
 import TripPnlReportsPage from "./pages/TripPnlReportsPage.archived";
 import MobileTripPage from "./pages/MobileTripPage";
 import MaintenancePage from "./pages/MaintenancePage";
@@ -49,6 +51,15 @@ import MessageTemplatesPage from "./pages/admin/MessageTemplatesPage";
 import CompanySettings from "./pages/admin/CompanySettings";
 import CompleteFixedReportingDashboard from "./pages/admin/CompleteFixedReportingDashboard";
 import TripSerialValidationPage from "./pages/admin/TripSerialValidationPage";
+import CustomersPage from "./pages/admin/CustomersPage";
+import InvoicesPage from "./pages/admin/InvoicesPage";
+import FuelReconciliationPage from "./pages/admin/FuelReconciliationPage";
+import PartsInventoryPage from "./pages/admin/PartsInventoryPage";
+import FreightRatesPage from "./pages/admin/FreightRatesPage";
+import DocumentVerificationPage from "./pages/admin/DocumentVerificationPage";
+import TeamManagementPage from "./pages/admin/TeamManagementPage";
+import RolePermissionsPage from "./pages/admin/RolePermissionsPage";
+import TripApprovalsPage from "./pages/admin/TripApprovalsPage";
 import DocumentRedirect from "./pages/DocumentRedirect";
 import UploadPhotos from "./pages/UploadPhotos";
 import TermsAndConditionsPage from "./pages/TermsAndConditionsPage";
@@ -129,6 +140,7 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+
   if (loading) {
     return <LoadingScreen isLoading={true} />;
   }
@@ -149,6 +161,8 @@ const App: React.FC = () => {
             <Route path="/drivers" element={<ProtectedRoute session={session} loading={loading}><DriversPage /></ProtectedRoute>} />
             <Route path="/drivers/:id" element={<ProtectedRoute session={session} loading={loading}><DriverPage /></ProtectedRoute>} />
             <Route path="/trips" element={<ProtectedRoute session={session} loading={loading}><TripsPage /></ProtectedRoute>} />
+            <Route path="/trips/dispatch" element={<ProtectedRoute session={session} loading={loading}><DispatchBoardPage /></ProtectedRoute>} />
+            <Route path="/trips/availability" element={<ProtectedRoute session={session} loading={loading}><AvailabilityPage /></ProtectedRoute>} />
             <Route path="/trips/:id" element={<ProtectedRoute session={session} loading={loading}><TripDetailsPage /></ProtectedRoute>} />
             <Route path="/mobile/trips/new" element={<ProtectedRoute session={session} loading={loading}><MobileTripPage /></ProtectedRoute>} />
             <Route path="/trip-pnl-reports" element={<ProtectedRoute session={session} loading={loading}><TripPnlReportsPage /></ProtectedRoute>} />
@@ -172,6 +186,15 @@ const App: React.FC = () => {
             <Route path="/admin/company-settings" element={<ProtectedRoute session={session} loading={loading}><CompanySettings /></ProtectedRoute>} />
             <Route path="/admin/reports" element={<ProtectedRoute session={session} loading={loading}><CompleteFixedReportingDashboard /></ProtectedRoute>} />
             <Route path="/admin/trip-serial-validation" element={<ProtectedRoute session={session} loading={loading}><TripSerialValidationPage /></ProtectedRoute>} />
+            <Route path="/admin/customers" element={<ProtectedRoute session={session} loading={loading}><CustomersPage /></ProtectedRoute>} />
+            <Route path="/admin/invoices" element={<ProtectedRoute session={session} loading={loading}><InvoicesPage /></ProtectedRoute>} />
+            <Route path="/admin/fuel-reconciliation" element={<ProtectedRoute session={session} loading={loading}><FuelReconciliationPage /></ProtectedRoute>} />
+            <Route path="/admin/parts-inventory" element={<ProtectedRoute session={session} loading={loading}><PartsInventoryPage /></ProtectedRoute>} />
+            <Route path="/admin/freight-rates" element={<ProtectedRoute session={session} loading={loading}><FreightRatesPage /></ProtectedRoute>} />
+            <Route path="/admin/document-verification" element={<ProtectedRoute session={session} loading={loading}><DocumentVerificationPage /></ProtectedRoute>} />
+            <Route path="/admin/team" element={<ProtectedRoute session={session} loading={loading}><TeamManagementPage /></ProtectedRoute>} />
+            <Route path="/admin/roles" element={<ProtectedRoute session={session} loading={loading}><RolePermissionsPage /></ProtectedRoute>} />
+            <Route path="/admin/trip-approvals" element={<ProtectedRoute session={session} loading={loading}><TripApprovalsPage /></ProtectedRoute>} />
             <Route path="/terms-and-conditions" element={<TermsAndConditionsPage />} />
             <Route path="/doc/:shortId" element={<DocumentRedirect />} />
             {/* Public route for photo uploads - no authentication required */}
@@ -0,0 +1,183 @@
+import React from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { Building2, FileText, MapPin, Plus, Trash2, User } from 'lucide-react';
+import Input from '../ui/Input';
+import Button from '../ui/Button';
+import { CustomerFormData } from '../../types';
+import { validateGSTIN, validatePAN, validateIndianMobile } from '../../utils/indianValidation';
+
+interface CustomerFormProps {
+  initialData?: Partial<CustomerFormData>;
+  onSubmit: (data: CustomerFormData) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+const CustomerForm: React.FC<CustomerFormProps> = ({
+  initialData,
+  onSubmit,
+  onCancel,
+  isSubmitting = false
+}) => {
+  const { register, handleSubmit, control, formState: { errors } } = useForm<CustomerFormData>({
+    defaultValues: {
+      name: '',
+      gstin: '',
+      pan: '',
+      billing_address: '',
+      city: '',
+      state: '',
+      pincode: '',
+      credit_days: 30,
+      credit_limit: undefined,
+      contacts: [],
+      notes: '',
+      ...initialData
+    }
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'contacts' });
+
+  const submit = (data: CustomerFormData) => {
+    onSubmit({
+      ...data,
+      credit_days: Number(data.credit_days) || 0,
+      credit_limit: data.credit_limit ? Number(data.credit_limit) : null,
+      contacts: (data.contacts || []).filter(c => c.name?.trim())
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-6 bg-gray-50 dark:bg-gray-800 rounded-lg p-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Customer Name"
+          required
+          icon={<Building2 className="h-4 w-4" />}
+          error={errors.name?.message}
+          {...register('name', { required: 'Customer name is required' })}
+        />
+        <Input
+          label="GSTIN"
+          icon={<FileText className="h-4 w-4" />}
+          placeholder="22AAAAA0000A1Z5"
+          error={errors.gstin?.message}
+          {...register('gstin', {
+            validate: value => !value || validateGSTIN(value) || 'Invalid GSTIN format'
+          })}
+        />
+        <Input
+          label="PAN"
+          error={errors.pan?.message}
+          {...register('pan', {
+            validate: value => !value || validatePAN(value) || 'Invalid PAN format'
+          })}
+        />
+        <Input
+          label="Pincode"
+          {...register('pincode')}
+        />
+        <div className="md:col-span-2">
+          <Input
+            label="Billing Address"
+            icon={<MapPin className="h-4 w-4" />}
+            {...register('billing_address')}
+          />
+        </div>
+        <Input label="City" {...register('city')} />
+        <Input label="State" {...register('state')} />
+        <Input
+          label="Credit Days"
+          type="number"
+          min={0}
+          helperText="Payment due this many days after invoice"
+          {...register('credit_days', { min: { value: 0, message: 'Cannot be negative' } })}
+        />
+        <Input
+          label="Credit Limit (₹)"
+          type="number"
+          min={0}
+          {...register('credit_limit')}
+        />
+      </div>
+
+      {/* Contacts */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Contacts</h4>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ name: '', role: '', phone: '', email: '', is_primary: fields.length === 0 })}
+            icon={<Plus className="h-3 w-3" />}
+          >
+            Add Contact
+          </Button>
+        </div>
+
+        {fields.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No contacts added</p>
+        )}
+
+        <div className="space-y-3">
+          {fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-start">
+              <Input
+                placeholder="Name"
+                icon={<User className="h-4 w-4" />}
+                {...register(`contacts.${index}.name` as const)}
+              />
+              <Input placeholder="Role" {...register(`contacts.${index}.role` as const)} />
+              <Input
+                placeholder="Phone"
+                error={errors.contacts?.[index]?.phone?.message}
+                {...register(`contacts.${index}.phone` as const, {
+                  validate: value => !value || validateIndianMobile(value) || 'Invalid mobile number'
+                })}
+              />
+              <Input placeholder="Email" type="email" {...register(`contacts.${index}.email` as const)} />
+              <div className="flex items-center gap-2 pt-2">
+                <label className="flex items-center text-xs text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300 text-primary-600 mr-1"
+                    {...register(`contacts.${index}.is_primary` as const)}
+                  />
+                  Primary
+                </label>
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+        <textarea
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-gray-800 dark:text-gray-100"
+          {...register('notes')}
+        />
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" isLoading={isSubmitting}>
+          {initialData?.name ? 'Update Customer' : 'Add Customer'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CustomerForm;
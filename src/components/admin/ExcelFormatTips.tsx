@@ -11,12 +11,12 @@ const TIPS = [
     icon: FileSpreadsheet,
     title: 'Keep headers intact',
     description:
-      'Use the exact header row from the exported template: Trip ID, Vehicle, Driver, Start Date, End Date, Distance, Fuel (L), Expenses.'
+      'Include a header row with Vehicle, Driver, Source Warehouse, Destinations, Start Date, End Date, Start KM and End KM. Other columns can be mapped before import.'
   },
   {
     icon: CalendarDays,
-    title: 'Dates in YYYY-MM-DD',
-    description: 'Format every date cell as YYYY-MM-DD. Mixed date formats or text like "14th Nov" will be rejected.'
+    title: 'Dates as DD-MM-YYYY',
+    description: 'Use DD-MM-YYYY, DD/MM/YYYY or YYYY-MM-DD date cells. Text like "14th Nov" will be rejected.'
   },
   {
     icon: Hash,
@@ -31,7 +31,7 @@ const TIPS = [
   {
     icon: Database,
     title: 'Match master data',
-    description: 'Driver and vehicle IDs must match what you see in exports to avoid orphaned trips.'
+    description: 'Vehicle numbers and driver, warehouse and destination names must match your records. Separate multiple destinations with commas.'
   }
 ];
 
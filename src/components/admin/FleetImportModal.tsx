@@ -0,0 +1,310 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, CheckCircle, Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import {
+  Driver,
+  DriverImportDraft,
+  FleetImportEntity,
+  FleetImportResult,
+  FleetImportRow,
+  Vehicle,
+  VehicleImportDraft
+} from '@/types';
+import { Tag } from '@/types/tags';
+import { getTags } from '../../utils/api/tags';
+import { getVehicles } from '../../utils/api/vehicles';
+import { getAllDriversIncludingInactive } from '../../utils/api/drivers';
+import { fetchFleetImportDetails, importDrivers, importVehicles } from '../../utils/api/fleetImport';
+import {
+  buildDriverImportRows,
+  buildVehicleImportRows,
+  getFleetImportColumns,
+  getFleetImportTemplateRows,
+  readFleetImportSheet
+} from '../../utils/fleetImport';
+import { parseSpreadsheet } from '../../utils/csvParser';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('FleetImportModal');
+
+interface FleetImportModalProps {
+  entity: FleetImportEntity;
+  onClose: () => void;
+  onImported: (result: FleetImportResult) => void;
+}
+
+type ImportRow = FleetImportRow<VehicleImportDraft> | FleetImportRow<DriverImportDraft>;
+
+const describeRecord = (entity: FleetImportEntity, row: ImportRow) => {
+  if (!row.record) return '—';
+  if (entity === 'vehicle') {
+    const vehicle = row.record as VehicleImportDraft;
+    return `${vehicle.make} ${vehicle.model} (${vehicle.year})`;
+  }
+  const driver = row.record as DriverImportDraft;
+  return driver.name;
+};
+
+const FleetImportModal: React.FC<FleetImportModalProps> = ({ entity, onClose, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [defaultTagIds, setDefaultTagIds] = useState<string[]>([]);
+  const [autoFetch, setAutoFetch] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const label = entity === 'vehicle' ? 'vehicle' : 'driver';
+  const lookupName = entity === 'vehicle' ? 'RC' : 'DL';
+
+  // Duplicates are checked against every record, including inactive ones
+  useEffect(() => {
+    Promise.all([
+      getVehicles(),
+      entity === 'driver' ? getAllDriversIncludingInactive() : Promise.resolve([]),
+      entity === 'vehicle' ? getTags() : Promise.resolve([])
+    ])
+      .then(([vehiclesData, driversData, tagsData]) => {
+        setVehicles(vehiclesData);
+        setDrivers(driversData);
+        setTags(tagsData);
+      })
+      .catch(error => logger.error('Error loading import reference data:', error))
+      .finally(() => setLoading(false));
+  }, [entity]);
+
+  const handleDownloadTemplate = async () => {
+    const XLSX = await import('xlsx');
+    const worksheet = XLSX.utils.json_to_sheet(getFleetImportTemplateRows(entity));
+    worksheet['!cols'] = getFleetImportColumns(entity).map(column => ({ wch: Math.max(column.header.length, 14) }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, entity === 'vehicle' ? 'Vehicles' : 'Drivers');
+    XLSX.writeFile(workbook, `${label}-import-template.xlsx`);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      let inputs = readFleetImportSheet(await parseSpreadsheet(file), getFleetImportColumns(entity));
+      if (inputs.length === 0) {
+        toast.error('No rows found in the file');
+        return;
+      }
+
+      setFileName(file.name);
+      if (autoFetch) {
+        setProgress({ done: 0, total: inputs.length });
+        inputs = await fetchFleetImportDetails(entity, inputs, done => setProgress({ done, total: inputs.length }));
+      }
+
+      setRows(entity === 'vehicle'
+        ? buildVehicleImportRows(inputs, { existingVehicles: vehicles, tags, defaultTagIds })
+        : buildDriverImportRows(inputs, { existingDrivers: drivers, vehicles }));
+    } catch (error) {
+      logger.error('Error reading import file:', error);
+      toast.error('Failed to read the import file');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    setImporting(true);
+    try {
+      const result = entity === 'vehicle'
+        ? await importVehicles(rows as FleetImportRow<VehicleImportDraft>[], fileName)
+        : await importDrivers(rows as FleetImportRow<DriverImportDraft>[], fileName);
+      onImported(result);
+    } catch (error) {
+      logger.error(`Error importing ${label}s:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to import ${label}s; nothing was saved`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggleTag = (tagId: string) =>
+    setDefaultTagIds(prev => (prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId]));
+
+  const errorRows = rows?.filter(row => row.errors.length > 0).length || 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="fleet-import-title" role="dialog" aria-modal="true">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-gray-500 dark:bg-gray-900 bg-opacity-75 dark:bg-opacity-75" aria-hidden="true" onClick={onClose}></div>
+
+        <div className="relative w-full max-w-4xl bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 id="fleet-import-title" className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                Import {label}s
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {rows ? `${fileName} · ${rows.length} row${rows.length === 1 ? '' : 's'}` : 'Add many records at once from an Excel or CSV sheet'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-md text-gray-400 dark:text-gray-500 hover:text-gray-500 dark:hover:text-gray-400 focus:outline-none"
+              aria-label="Close import"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {!rows ? (
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+                <FileSpreadsheet className="h-6 w-6 text-primary-500 flex-shrink-0" />
+                <div className="flex-1 text-sm text-gray-600 dark:text-gray-300">
+                  <p>
+                    Columns: {getFleetImportColumns(entity).map(column => `${column.header}${column.required ? ' *' : ''}`).join(', ')}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Dates as DD-MM-YYYY. One {label} per row.</p>
+                </div>
+                <Button variant="outline" size="sm" icon={<Download className="h-4 w-4" />} onClick={handleDownloadTemplate}>
+                  Template
+                </Button>
+              </div>
+
+              <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  checked={autoFetch}
+                  onChange={e => setAutoFetch(e.target.checked)}
+                />
+                <span>
+                  Fetch {lookupName} details for each row and fill in blank cells
+                  {entity === 'driver' && ' (needs the date of birth)'}
+                </span>
+              </label>
+
+              {entity === 'vehicle' && tags.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Tag every imported vehicle</p>
+                  <div className="flex flex-wrap gap-2">
+                    {tags.map(tag => (
+                      <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => toggleTag(tag.id)}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition ${
+                          defaultTagIds.includes(tag.id) ? 'text-white border-transparent' : 'text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+                        }`}
+                        style={defaultTagIds.includes(tag.id) ? { backgroundColor: tag.color_hex } : undefined}
+                      >
+                        {tag.name}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Tags named in the Tags column are added too.</p>
+                </div>
+              )}
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                aria-label={`Import ${label}s file`}
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={onClose}>Cancel</Button>
+                <Button
+                  icon={<Upload className="h-4 w-4" />}
+                  isLoading={!!progress || loading}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {progress ? `Fetching ${progress.done}/${progress.total}` : 'Choose file'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="max-h-[55vh] overflow-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+                    <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">{entity === 'vehicle' ? 'Registration' : 'Licence'}</th>
+                      <th className="px-3 py-2">{entity === 'vehicle' ? 'Vehicle' : 'Name'}</th>
+                      {entity === 'vehicle' && <th className="px-3 py-2">Tags</th>}
+                      <th className="px-3 py-2">Checks</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {rows.map(row => (
+                      <tr key={row.row} className={row.errors.length > 0 ? 'bg-error-50/50 dark:bg-error-900/10' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                          {row.key || '—'}
+                          {row.fetched && (
+                            <span className="ml-2 text-[10px] uppercase font-semibold text-primary-600 dark:text-primary-400">{lookupName}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{describeRecord(entity, row)}</td>
+                        {entity === 'vehicle' && (
+                          <td className="px-3 py-2 text-gray-600 dark:text-gray-300">
+                            {row.tag_ids.map(id => tags.find(tag => tag.id === id)?.name).filter(Boolean).join(', ') || '—'}
+                          </td>
+                        )}
+                        <td className="px-3 py-2">
+                          {row.errors.length === 0 && row.warnings.length === 0 ? (
+                            <CheckCircle className="h-4 w-4 text-success-600" />
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {row.errors.map((message, i) => (
+                                <li key={`e${i}`} className="text-error-600 dark:text-error-400">{message}</li>
+                              ))}
+                              {row.warnings.map((message, i) => (
+                                <li key={`w${i}`} className="text-warning-700 dark:text-warning-400">{message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {errorRows > 0 && (
+                <p className="mt-3 text-sm text-error-600 dark:text-error-400">
+                  {errorRows} row{errorRows === 1 ? ' has' : 's have'} errors. All rows are imported together, so fix the sheet and upload it again.
+                </p>
+              )}
+
+              <div className="mt-6 flex justify-between gap-2">
+                <Button variant="ghost" icon={<ArrowLeft className="h-4 w-4" />} onClick={() => setRows(null)}>
+                  Back
+                </Button>
+                <Button
+                  icon={<Upload className="h-4 w-4" />}
+                  onClick={handleImport}
+                  isLoading={importing}
+                  disabled={rows.length === 0 || errorRows > 0}
+                >
+                  Import {rows.length} {label}{rows.length === 1 ? '' : 's'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FleetImportModal;
@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Copy, KeyRound, Plus, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { GpsIngestToken, Vehicle } from '../../types';
+import { createGpsIngestToken, getGpsIngestTokens, revokeGpsIngestToken } from '../../utils/api/gpsTracks';
+import { getVehicles } from '../../utils/storage';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('GpsIngestTokensManager');
+
+const formatDateTime = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM yyyy, HH:mm') : 'never');
+
+/**
+ * Tokens trackers and telematics integrations use to push GPS tracks. A new
+ * token is shown once, right after it is issued.
+ */
+const GpsIngestTokensManager: React.FC = () => {
+  const [tokens, setTokens] = useState<GpsIngestToken[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [name, setName] = useState('');
+  const [vehicleId, setVehicleId] = useState('');
+  const [issuing, setIssuing] = useState(false);
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const vehicleNames = useMemo(() => new Map(vehicles.map(v => [v.id, v.registration_number])), [vehicles]);
+  const vehicleOptions = [
+    { value: '', label: 'Any vehicle' },
+    ...vehicles.filter(v => v.status !== 'archived').map(v => ({ value: v.id, label: v.registration_number }))
+  ];
+
+  const loadTokens = async () => setTokens(await getGpsIngestTokens());
+
+  useEffect(() => {
+    Promise.all([loadTokens(), getVehicles().then(setVehicles)])
+      .catch(error => logger.error('Error loading GPS ingest tokens:', error));
+  }, []);
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIssuing(true);
+    try {
+      setIssuedToken(await createGpsIngestToken(name, vehicleId || null));
+      setName('');
+      setVehicleId('');
+      await loadTokens();
+    } catch (error) {
+      logger.error('Error issuing GPS ingest token:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to issue the token');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!issuedToken) return;
+    try {
+      await navigator.clipboard.writeText(issuedToken);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Copy the token manually');
+    }
+  };
+
+  const handleRevoke = async (token: GpsIngestToken) => {
+    if (!window.confirm(`Revoke the token for ${token.name}? Tracks it pushes will be rejected.`)) return;
+    setRevokingId(token.id);
+    try {
+      await revokeGpsIngestToken(token.id);
+      toast.success('Token revoked');
+      await loadTokens();
+    } catch (error) {
+      logger.error('Error revoking GPS ingest token:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke the token');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm mt-6">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">GPS Tracker Tokens</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Trackers send their token in the x-ingest-token header when pushing tracks
+        </p>
+      </div>
+
+      <form onSubmit={handleIssue} className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end border-b border-gray-200 dark:border-gray-700">
+        <Input
+          label="Device or integration"
+          required
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="e.g. Tracker on MH12AB1234"
+        />
+        <Select
+          label="Vehicle"
+          value={vehicleId}
+          onChange={e => setVehicleId(e.target.value)}
+          options={vehicleOptions}
+        />
+        <Button type="submit" isLoading={issuing} icon={<Plus className="h-4 w-4" />}>
+          Issue Token
+        </Button>
+      </form>
+
+      {issuedToken && (
+        <div className="m-4 p-3 rounded-md bg-warning-50 dark:bg-warning-900/20 border border-warning-200 dark:border-warning-800 text-sm">
+          <p className="text-warning-800 dark:text-warning-300 mb-2">
+            Copy this token now; it will not be shown again.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <code className="px-2 py-1 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 break-all">
+              {issuedToken}
+            </code>
+            <Button size="sm" variant="outline" onClick={handleCopy} icon={<Copy className="h-4 w-4" />}>
+              Copy
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setIssuedToken(null)} icon={<X className="h-4 w-4" />}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No tokens issued</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tokens.map(token => (
+            <li key={token.id} className="px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm">
+                <p className="font-medium text-gray-900 dark:text-gray-100 flex items-center">
+                  <KeyRound className="h-4 w-4 mr-1 text-gray-400" />
+                  {token.name}
+                  {token.revoked_at && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                      Revoked
+                    </span>
+                  )}
+                </p>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {token.token_prefix}… · {token.vehicle_id ? vehicleNames.get(token.vehicle_id) || 'One vehicle' : 'Any vehicle'} · last used {formatDateTime(token.last_used_at)}
+                </p>
+              </div>
+              {!token.revoked_at && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRevoke(token)}
+                  isLoading={revokingId === token.id}
+                  icon={<X className="h-4 w-4" />}
+                >
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GpsIngestTokensManager;
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowLeft, CheckCircle, Download, Upload, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import { Destination, Driver, TripImportMapping, TripImportResult, TripImportRow, Vehicle, Warehouse } from '@/types';
+import {
+  TRIP_IMPORT_FIELDS,
+  buildTripImportErrorReport,
+  buildTripImportRows,
+  getMissingImportFields,
+  guessTripImportMapping,
+  hasTripImportErrors
+} from '../../utils/tripImport';
+import { commitTripImport, validateTripImportRows } from '../../utils/api/tripImport';
+import { downloadCSV, generateCSV } from '../../utils/csvParser';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TripImportModal');
+
+interface TripImportModalProps {
+  fileName: string;
+  rawRows: Record<string, unknown>[];
+  vehicles: Vehicle[];
+  drivers: Driver[];
+  warehouses: Warehouse[];
+  destinations: Destination[];
+  onClose: () => void;
+  onImported: (result: TripImportResult) => void;
+}
+
+const TripImportModal: React.FC<TripImportModalProps> = ({
+  fileName,
+  rawRows,
+  vehicles,
+  drivers,
+  warehouses,
+  destinations,
+  onClose,
+  onImported
+}) => {
+  const headers = useMemo(
+    () => [...new Set(rawRows.flatMap(row => Object.keys(row)))],
+    [rawRows]
+  );
+  const [mapping, setMapping] = useState<TripImportMapping>(() => guessTripImportMapping(headers));
+  const [rows, setRows] = useState<TripImportRow[] | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const missingFields = getMissingImportFields(mapping);
+  const columnOptions = [
+    { value: '', label: 'Not in file' },
+    ...headers.map(header => ({ value: header, label: header }))
+  ];
+
+  const errorRows = rows?.filter(row => !row.trip || row.errors.length > 0).length || 0;
+  const warningRows = rows?.filter(row => row.trip && row.errors.length === 0 && row.warnings.length > 0).length || 0;
+
+  const handleValidate = async () => {
+    setValidating(true);
+    try {
+      const built = buildTripImportRows(rawRows, mapping, { vehicles, drivers, warehouses, destinations });
+      setRows(await validateTripImportRows(built, vehicles, drivers));
+    } catch (error) {
+      logger.error('Error validating trip import:', error);
+      toast.error('Failed to validate the rows');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    if (!rows) return;
+    const csv = await generateCSV(buildTripImportErrorReport(rows), {
+      row: 'Row',
+      vehicle: 'Vehicle',
+      start_date: 'Start Date',
+      errors: 'Errors',
+      warnings: 'Warnings'
+    });
+    downloadCSV(`${fileName.replace(/\.[^.]+$/, '')}-errors.csv`, csv);
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    setImporting(true);
+    try {
+      onImported(await commitTripImport(rows, fileName));
+    } catch (error) {
+      logger.error('Error importing trips:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import trips; nothing was saved');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="trip-import-title" role="dialog" aria-modal="true">
+      <div className="flex items-center justify-center min-h-screen px-4 py-8">
+        <div className="fixed inset-0 bg-gray-500 dark:bg-gray-900 bg-opacity-75 dark:bg-opacity-75" aria-hidden="true" onClick={onClose}></div>
+
+        <div className="relative w-full max-w-5xl bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 id="trip-import-title" className="text-lg font-medium text-gray-900 dark:text-gray-100">Import trips</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {fileName} · {rawRows.length} row{rawRows.length === 1 ? '' : 's'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-md text-gray-400 dark:text-gray-500 hover:text-gray-500 dark:hover:text-gray-400 focus:outline-none"
+              aria-label="Close import"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {!rows ? (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                Match the columns of your sheet to trip fields. Vehicles, drivers, warehouses and destinations are looked up by name.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 max-h-[55vh] overflow-y-auto pr-1">
+                {TRIP_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <Select
+                    key={field}
+                    label={`${label}${required ? ' *' : ''}`}
+                    size="sm"
+                    options={columnOptions}
+                    value={mapping[field] || ''}
+                    onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value || null }))}
+                  />
+                ))}
+              </div>
+
+              {missingFields.length > 0 && (
+                <div className="flex items-start mt-4 text-sm text-warning-700 dark:text-warning-400 bg-warning-50 dark:bg-warning-900/20 rounded-md p-3">
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>Choose a column for: {missingFields.map(f => f.label).join(', ')}</span>
+                </div>
+              )}
+
+              <div className="mt-6 flex justify-end gap-2">
+                <Button variant="outline" onClick={onClose}>Cancel</Button>
+                <Button onClick={handleValidate} isLoading={validating} disabled={missingFields.length > 0}>
+                  Check rows
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 mb-3 text-sm">
+                <span className="px-2 py-1 rounded-full bg-success-50 text-success-700 dark:bg-success-900/20 dark:text-success-400">
+                  {rows.length - errorRows} ready
+                </span>
+                {warningRows > 0 && (
+                  <span className="px-2 py-1 rounded-full bg-warning-50 text-warning-700 dark:bg-warning-900/20 dark:text-warning-400">
+                    {warningRows} with warnings
+                  </span>
+                )}
+                {errorRows > 0 && (
+                  <span className="px-2 py-1 rounded-full bg-error-50 text-error-700 dark:bg-error-900/20 dark:text-error-400">
+                    {errorRows} with errors
+                  </span>
+                )}
+              </div>
+
+              <div className="max-h-[55vh] overflow-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+                    <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Vehicle</th>
+                      <th className="px-3 py-2">Dates</th>
+                      <th className="px-3 py-2">Route</th>
+                      <th className="px-3 py-2 text-right">KM</th>
+                      <th className="px-3 py-2">Checks</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {rows.map(row => (
+                      <tr key={row.row} className={row.errors.length > 0 || !row.trip ? 'bg-error-50/50 dark:bg-error-900/10' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 font-medium text-gray-900 dark:text-gray-100">{row.vehicle_registration || '—'}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-600 dark:text-gray-300">
+                          {row.trip ? `${row.trip.trip_start_date} → ${row.trip.trip_end_date}` : '—'}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{row.trip?.destination_display || '—'}</td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap text-gray-600 dark:text-gray-300">
+                          {row.trip ? `${row.trip.start_km}–${row.trip.end_km}` : '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.errors.length === 0 && row.warnings.length === 0 ? (
+                            <CheckCircle className="h-4 w-4 text-success-600" />
+                          ) : (
+                            <ul className="space-y-0.5">
+                              {row.errors.map((issue, i) => (
+                                <li key={`e${i}`} className="text-error-600 dark:text-error-400">{issue.message}</li>
+                              ))}
+                              {row.warnings.map((issue, i) => (
+                                <li key={`w${i}`} className="text-warning-700 dark:text-warning-400">{issue.message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {errorRows > 0 && (
+                <p className="mt-3 text-sm text-error-600 dark:text-error-400">
+                  Trips are imported all together. Fix the rows with errors in the sheet and upload it again.
+                </p>
+              )}
+
+              <div className="mt-6 flex flex-wrap justify-between gap-2">
+                <Button variant="ghost" icon={<ArrowLeft className="h-4 w-4" />} onClick={() => setRows(null)}>
+                  Column mapping
+                </Button>
+                <div className="flex gap-2">
+                  {(errorRows > 0 || warningRows > 0) && (
+                    <Button variant="outline" icon={<Download className="h-4 w-4" />} onClick={handleDownloadReport}>
+                      Error report
+                    </Button>
+                  )}
+                  <Button
+                    icon={<Upload className="h-4 w-4" />}
+                    onClick={handleImport}
+                    isLoading={importing}
+                    disabled={rows.length === 0 || hasTripImportErrors(rows)}
+                  >
+                    Import {rows.length} trip{rows.length === 1 ? '' : 's'}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TripImportModal;
@@ -34,6 +34,7 @@ const ContactForm: React.FC<ContactFormProps> = ({
       phone_number: '',
       email: '',
       preferred_contact_mode: ReminderContactMode.SMS,
+      language: 'en',
       is_active: true,
       assigned_types: [],
       is_global: false, // Default value for is_global
@@ -186,7 +187,8 @@ const ContactForm: React.FC<ContactFormProps> = ({
               options={[
                 { value: ReminderContactMode.SMS, label: 'SMS' },
                 { value: ReminderContactMode.Email, label: 'Email' },
-                { value: ReminderContactMode.Both, label: 'Both SMS & Email' }
+                { value: ReminderContactMode.Both, label: 'Both SMS & Email' },
+                { value: ReminderContactMode.WhatsApp, label: 'WhatsApp' }
               ]}
               error={errors.preferred_contact_mode?.message}
               required
@@ -195,6 +197,22 @@ const ContactForm: React.FC<ContactFormProps> = ({
           )}
         />
 
+        <Controller
+          control={control}
+          name="language"
+          render={({ field }) => (
+            <Select
+              label="Message Language"
+              options={[
+                { value: 'en', label: 'English' },
+                { value: 'hi', label: 'हिन्दी' }
+              ]}
+              helperText="Reminders are sent to this contact in this language"
+              {...field}
+            />
+          )}
+        />
+
         <Controller
           control={control}
           name="is_active"
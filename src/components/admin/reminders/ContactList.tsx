@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { User, Edit, Trash2, Mail, Phone, Check, X, Globe } from 'lucide-react';
 import { ReminderContact, ReminderContactMode } from '@/types/reminders';
+import WhatsAppIcon from '../../ui/WhatsAppIcon';
 import { toast } from 'react-toastify';
 import { createLogger } from '../../../utils/logger';
 
@@ -41,6 +42,8 @@ const ContactList: React.FC<ContactListProps> = ({ contacts, onEdit, onDelete })
             <Mail className="h-4 w-4 text-blue-500" />
           </div>
         );
+      case ReminderContactMode.WhatsApp:
+        return <WhatsAppIcon size={16} />;
     }
   };
 
@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader, Mail, Phone, RefreshCw, Send } from 'lucide-react';
+import { NotificationChannel, NotificationDelivery, NotificationDeliveryStatus } from '@/types';
+import { ReminderContact } from '@/types/reminders';
+import Button from '../../ui/Button';
+import Select from '../../ui/Select';
+import WhatsAppIcon from '../../ui/WhatsAppIcon';
+import { dispatchRemindersNow, getNotificationDeliveries } from '../../../utils/api/notifications';
+import { MAX_DELIVERY_ATTEMPTS } from '../../../utils/reminderNotifications';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../../utils/logger';
+
+const logger = createLogger('DeliveryLog');
+
+interface DeliveryLogProps {
+  contacts: ReminderContact[];
+}
+
+const STATUS_STYLES: Record<NotificationDeliveryStatus, string> = {
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  pending: 'bg-yellow-100 text-yellow-800'
+};
+
+const CHANNEL_ICONS: Record<NotificationChannel, React.ReactNode> = {
+  email: <Mail className="h-4 w-4 text-blue-500" />,
+  sms: <Phone className="h-4 w-4 text-green-500" />,
+  whatsapp: <WhatsAppIcon size={16} />
+};
+
+const DeliveryLog: React.FC<DeliveryLogProps> = ({ contacts }) => {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dispatching, setDispatching] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<'' | NotificationDeliveryStatus>('');
+
+  const contactNames = useMemo(() => new Map(contacts.map(c => [c.id, c.full_name])), [contacts]);
+
+  const loadDeliveries = async () => {
+    setLoading(true);
+    setDeliveries(await getNotificationDeliveries());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadDeliveries();
+  }, []);
+
+  const handleDispatch = async () => {
+    setDispatching(true);
+    try {
+      const summary = await dispatchRemindersNow();
+      if (summary.sent + summary.failed === 0) {
+        toast.info('No reminders are due right now');
+      } else if (summary.failed > 0) {
+        toast.warning(`${summary.sent} sent, ${summary.failed} failed – failures will be retried`);
+      } else {
+        toast.success(`${summary.sent} reminder${summary.sent === 1 ? '' : 's'} sent`);
+      }
+      loadDeliveries();
+    } catch (error) {
+      logger.error('Error dispatching reminders:', error);
+      toast.error('Failed to send reminders');
+    } finally {
+      setDispatching(false);
+    }
+  };
+
+  const filtered = statusFilter ? deliveries.filter(d => d.status === statusFilter) : deliveries;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Delivery Log</h2>
+          <p className="text-sm text-gray-500">
+            Due reminders are sent to contacts every 30 minutes. Each expiry is sent once per contact and channel; failures are retried up to {MAX_DELIVERY_ATTEMPTS} times.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <Select
+            size="sm"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as '' | NotificationDeliveryStatus)}
+            options={[
+              { value: '', label: 'All statuses' },
+              { value: 'sent', label: 'Sent' },
+              { value: 'failed', label: 'Failed' },
+              { value: 'pending', label: 'Pending' }
+            ]}
+          />
+          <Button variant="outline" size="sm" onClick={loadDeliveries} icon={<RefreshCw className="h-4 w-4" />}>
+            Refresh
+          </Button>
+          <Button size="sm" onClick={handleDispatch} isLoading={dispatching} icon={<Send className="h-4 w-4" />}>
+            Send Due Reminders
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader className="h-8 w-8 text-primary-500 animate-spin" />
+          <span className="ml-2 text-gray-600">Loading...</span>
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-sm text-gray-500">
+          No reminders have been sent yet
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Contact</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reminder</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Channel</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Attempts</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filtered.map(delivery => (
+                <tr key={delivery.id}>
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                    {delivery.created_at ? format(parseISO(delivery.created_at), 'dd MMM yyyy, HH:mm') : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">
+                    {contactNames.get(delivery.contact_id) || 'Removed contact'}
+                    <div className="text-xs text-gray-500">{delivery.recipient}</div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">
+                    {delivery.reminder_type}
+                    <div className="text-xs text-gray-500 truncate max-w-xs" title={delivery.body}>
+                      {delivery.subject || delivery.body}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">{CHANNEL_ICONS[delivery.channel]}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[delivery.status]}`}>
+                      {delivery.status}
+                    </span>
+                    {delivery.last_error && (
+                      <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={delivery.last_error}>
+                        {delivery.last_error}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {delivery.attempts}
+                    {delivery.status === 'failed' && delivery.next_attempt_at && (
+                      <div className="text-xs text-gray-500">
+                        Retry {format(parseISO(delivery.next_attempt_at), 'dd MMM, HH:mm')}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryLog;
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, User, Plus, Loader } from 'lucide-react';
+import { Bell, User, Plus, Loader, Send } from 'lucide-react';
 import Button from '../../ui/Button';
 import ContactForm from './ContactForm';
 import ContactList from './ContactList';
 import TemplateTable from './TemplateTable';
 import AddTemplateForm from './AddTemplateForm';
+import DeliveryLog from './DeliveryLog';
 import { 
   getReminderContacts, 
   createReminderContact, 
@@ -22,7 +23,7 @@ import { createLogger } from '../../../utils/logger';
 const logger = createLogger('ReminderManager');
 
 const ReminderManager: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'contacts' | 'templates'>('contacts');
+  const [activeTab, setActiveTab] = useState<'contacts' | 'templates' | 'deliveries'>('contacts');
   const [contacts, setContacts] = useState<ReminderContact[]>([]);
   const [templates, setTemplates] = useState<ReminderTemplate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -73,6 +74,7 @@ const ReminderManager: React.FC = () => {
         phone_number: data.phone_number,
         email: data.email,
         preferred_contact_mode: data.preferred_contact_mode,
+        language: data.language,
         is_active: data.is_active,
         photo_url: photoUrl,
         assigned_types: data.assigned_types,
@@ -128,6 +130,7 @@ const ReminderManager: React.FC = () => {
         phone_number: data.phone_number,
         email: data.email,
         preferred_contact_mode: data.preferred_contact_mode,
+        language: data.language,
         is_active: data.is_active,
         photo_url: photoUrl,
         assigned_types: data.assigned_types,
@@ -215,6 +218,19 @@ const ReminderManager: React.FC = () => {
             <span>Reminder Templates</span>
           </div>
         </button>
+        <button
+          className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${
+            activeTab === 'deliveries'
+              ? 'border-primary-500 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+          }`}
+          onClick={() => setActiveTab('deliveries')}
+        >
+          <div className="flex items-center">
+            <Send className="h-5 w-5 mr-2" />
+            <span>Delivery Log</span>
+          </div>
+        </button>
       </div>
 
       {loading ? (
@@ -292,6 +308,8 @@ const ReminderManager: React.FC = () => {
               </div>
             </div>
           )}
+
+          {activeTab === 'deliveries' && <DeliveryLog contacts={contacts} />}
         </>
       )}
     </div>
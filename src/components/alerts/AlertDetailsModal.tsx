@@ -1,5 +1,5 @@
 import React from 'react';
-import { X, AlertTriangle, Info, CheckCircle, Truck, User, PenTool as Tool, TrendingDown, Fuel, Clipboard } from 'lucide-react';
+import { X, AlertTriangle, Info, CheckCircle, Truck, User, PenTool as Tool, TrendingDown, Fuel, Clipboard, Package } from 'lucide-react';
 import Button from '../ui/Button';
 import { AIAlert, Vehicle, Driver } from '@/types';
 import { getVehicle, getDriver } from '../../utils/storage';
@@ -65,6 +65,10 @@ const AlertDetailsModal: React.FC<AlertDetailsModalProps> = ({ alert, onClose })
     switch (alertType) {
       case 'fuel_anomaly':
         return <Fuel className="h-5 w-5 text-amber-500" />;
+      case 'fuel_reconciliation':
+        return <Fuel className="h-5 w-5 text-teal-500" />;
+      case 'low_stock':
+        return <Package className="h-5 w-5 text-orange-500" />;
       case 'route_deviation':
         return <TrendingDown className="h-5 w-5 text-blue-500" />;
       case 'frequent_maintenance':
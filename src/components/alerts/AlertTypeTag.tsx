@@ -1,5 +1,5 @@
 import React from 'react';
-import { BarChart2, TrendingDown, Fuel, FileX, PenTool as Tool } from 'lucide-react';
+import { BarChart2, TrendingDown, Fuel, FileX, Package, PenTool as Tool } from 'lucide-react';
 import { cn } from '../../utils/cn';
 
 interface AlertTypeTagProps {
@@ -26,6 +26,18 @@ const AlertTypeTag: React.FC<AlertTypeTagProps> = ({ type, className }) => {
           icon: <Fuel className="h-3 w-3" />,
           colorClass: 'bg-amber-100 text-amber-800',
         };
+      case 'fuel_reconciliation':
+        return {
+          label: 'Fuel Reconciliation',
+          icon: <Fuel className="h-3 w-3" />,
+          colorClass: 'bg-teal-100 text-teal-800',
+        };
+      case 'low_stock':
+        return {
+          label: 'Low Stock',
+          icon: <Package className="h-3 w-3" />,
+          colorClass: 'bg-orange-100 text-orange-800',
+        };
       case 'documentation':
         return {
           label: 'Documentation',
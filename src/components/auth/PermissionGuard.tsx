@@ -2,10 +2,18 @@ import React, { useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { usePermissions } from '../../hooks/usePermissions';
 import LoadingScreen from '../LoadingScreen';
+import { PermissionAction, PermissionModule } from '@/types/permissions';
+import { hasPermission } from '../../utils/permissionMatrix';
 
 interface PermissionGuardProps {
   children: React.ReactNode;
-  requiredPermission?: keyof Omit<import('@/types/permissions').Permissions, 'role' | 'organizationId' | 'organizationName'>;
+  requiredPermission?: keyof Omit<
+    import('@/types/permissions').Permissions,
+    'role' | 'organizationId' | 'organizationName' | 'customRoleId' | 'customRoleName' | 'matrix' | 'hiddenFields'
+  >;
+  /** Module and action from the permission matrix, checked on top of requiredPermission */
+  module?: PermissionModule;
+  action?: PermissionAction;
   redirectTo?: string;
   fallback?: React.ReactNode;
   /**
@@ -18,11 +26,13 @@ interface PermissionGuardProps {
 const PermissionGuard: React.FC<PermissionGuardProps> = ({
   children,
   requiredPermission,
+  module,
+  action = 'view',
   redirectTo = '/trips',
   fallback,
   preventFlicker = true
 }) => {
-  const { permissions, loading } = usePermissions();
+  const { permissions, loading, can } = usePermissions();
   const [isContentReady, setIsContentReady] = useState(false);
   const [hasStartedInitialRender, setHasStartedInitialRender] = useState(false);
 
@@ -36,8 +46,8 @@ const PermissionGuard: React.FC<PermissionGuardProps> = ({
   // Second effect: Wait appropriate time based on user role
   useEffect(() => {
     if (hasStartedInitialRender && !loading && permissions) {
-      const isRestrictedUser = permissions.role === 'data_entry' || permissions.role === 'manager';
-      const isAdminUser = permissions.role === 'admin' || permissions.role === 'owner';
+      const isAdminUser = hasPermission(permissions.matrix || {}, 'admin');
+      const isRestrictedUser = !isAdminUser;
       
       if (preventFlicker && isRestrictedUser) {
         // For restricted users: longer wait to ensure all hiding is applied
@@ -79,7 +89,7 @@ const PermissionGuard: React.FC<PermissionGuardProps> = ({
   }
 
   // Check if user has required permission
-  if (requiredPermission && !permissions[requiredPermission]) {
+  if ((requiredPermission && !permissions[requiredPermission]) || (module && !can(module, action))) {
     if (fallback) {
       return <>{fallback}</>;
     }
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from "react";
+import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday, addMonths, subMonths } from "date-fns";
+import { ChevronLeft, ChevronRight, CalendarRange } from "lucide-react";
+import Button from "../ui/Button";
+import { AvailabilityBlock, AvailabilityResourceType } from "@/types";
+import { BLOCK_KIND_LABELS, BLOCK_KIND_ORDER, getBlockKindStyle, getResourceBlocks } from "../../utils/availability";
+
+export interface AvailabilityResource {
+  id: string;
+  name: string;
+}
+
+interface AvailabilityCalendarProps {
+  resourceType: AvailabilityResourceType;
+  resources: AvailabilityResource[];
+  blocks: AvailabilityBlock[];
+  currentDate: Date;
+  onMonthChange: (date: Date) => void;
+}
+
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  resourceType,
+  resources,
+  blocks,
+  currentDate,
+  onMonthChange
+}) => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+
+  const calendarDays = useMemo(
+    () => eachDayOfInterval({ start: startOfMonth(currentDate), end: endOfMonth(currentDate) }),
+    [currentDate]
+  );
+
+  const blocksOn = (resourceId: string, date: Date) => {
+    const dayKey = format(date, 'yyyy-MM-dd');
+    return getResourceBlocks(blocks, resourceType, resourceId, dayKey);
+  };
+
+  const primaryKind = (dayBlocks: AvailabilityBlock[]) =>
+    BLOCK_KIND_ORDER.find(kind => dayBlocks.some(block => block.kind === kind));
+
+  const selectedDayBlocks = selectedDate
+    ? resources
+      .map(resource => ({ resource, blocks: blocksOn(resource.id, selectedDate) }))
+      .filter(entry => entry.blocks.length > 0)
+    : [];
+  const freeOnSelectedDay = selectedDate ? resources.length - selectedDayBlocks.length : 0;
+
+  const goToToday = () => {
+    onMonthChange(new Date());
+    setSelectedDate(new Date());
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      {/* Calendar Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center space-x-4">
+          <CalendarRange className="h-6 w-6 text-primary-500" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            {format(currentDate, 'MMMM yyyy')}
+          </h2>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onMonthChange(subMonths(currentDate, 1))}
+            icon={<ChevronLeft className="h-4 w-4" />}
+          >
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={goToToday}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onMonthChange(addMonths(currentDate, 1))}
+            icon={<ChevronRight className="h-4 w-4" />}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {BLOCK_KIND_ORDER.map(kind => (
+          <span key={kind} className={`text-xs px-2 py-1 rounded border ${getBlockKindStyle(kind)}`}>
+            {BLOCK_KIND_LABELS[kind]}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+        {/* Timeline Grid */}
+        <div className="xl:col-span-3 overflow-x-auto">
+          {resources.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              No {resourceType === 'vehicle' ? 'vehicles' : 'drivers'} to show
+            </div>
+          ) : (
+            <table className="min-w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-white dark:bg-gray-800 p-2 text-left font-medium text-gray-500 min-w-[140px]">
+                    {resourceType === 'vehicle' ? 'Vehicle' : 'Driver'}
+                  </th>
+                  {calendarDays.map(day => {
+                    const isSelected = selectedDate && isSameDay(day, selectedDate);
+                    return (
+                      <th
+                        key={day.toISOString()}
+                        className={`
+                          p-1 text-center font-medium cursor-pointer min-w-[28px]
+                          ${isToday(day) ? 'text-primary-600' : 'text-gray-500'}
+                          ${isSelected ? 'bg-primary-100 dark:bg-primary-900/30' : ''}
+                        `}
+                        onClick={() => setSelectedDate(day)}
+                      >
+                        <div>{format(day, 'EEEEE')}</div>
+                        <div>{format(day, 'd')}</div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {resources.map(resource => (
+                  <tr key={resource.id} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="sticky left-0 bg-white dark:bg-gray-800 p-2 text-sm text-gray-900 dark:text-gray-100 truncate max-w-[180px]">
+                      {resource.name}
+                    </td>
+                    {calendarDays.map(day => {
+                      const dayBlocks = blocksOn(resource.id, day);
+                      const kind = primaryKind(dayBlocks);
+                      const isSelected = selectedDate && isSameDay(day, selectedDate);
+                      return (
+                        <td
+                          key={day.toISOString()}
+                          className={`p-0.5 cursor-pointer ${isSelected ? 'bg-primary-50 dark:bg-primary-900/20' : ''}`}
+                          onClick={() => setSelectedDate(day)}
+                          title={dayBlocks.map(block => block.label).join('\n')}
+                        >
+                          <div
+                            className={`h-6 rounded border ${kind ? getBlockKindStyle(kind) : 'border-gray-100 dark:border-gray-700'}`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Selected Date Details */}
+        <div className="xl:col-span-1">
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-1">
+              {selectedDate ? format(selectedDate, 'EEEE, MMMM d, yyyy') : 'Select a date'}
+            </h4>
+            {selectedDate && (
+              <p className="text-sm text-success-700 dark:text-success-400 mb-4">
+                {freeOnSelectedDay} of {resources.length} free
+              </p>
+            )}
+
+            {selectedDayBlocks.length > 0 ? (
+              <div className="space-y-3">
+                {selectedDayBlocks.map(({ resource, blocks: dayBlocks }) => (
+                  <div key={resource.id} className="bg-white dark:bg-gray-800 rounded-lg p-3 border border-gray-200 dark:border-gray-700">
+                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+                      {resource.name}
+                    </div>
+                    <div className="space-y-1">
+                      {dayBlocks.map((block, index) => (
+                        <div
+                          key={`${block.kind}-${block.reference_id || index}`}
+                          className={`text-xs p-1 rounded border ${getBlockKindStyle(block.kind)}`}
+                        >
+                          <div className="truncate">{block.label}</div>
+                          <div className="opacity-75">
+                            {format(parseISO(block.start), 'dd MMM')}
+                            {' – '}
+                            {block.end ? format(parseISO(block.end), 'dd MMM') : 'until further notice'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center text-gray-500 py-8">
+                {selectedDate ? 'Everyone is free on this date' : 'Click on a date to see who is busy'}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
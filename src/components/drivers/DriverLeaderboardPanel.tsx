@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Medal, RefreshCw } from 'lucide-react';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import { DriverLeaderboard, DriverRankingPeriod } from '../../types';
+import {
+  DRIVER_RANKING_METRICS,
+  DRIVER_RANKING_METRIC_LABELS,
+  DRIVER_RANKING_PERIOD_LABELS,
+  formatDistance,
+  formatMileage
+} from '../../utils/driverRating';
+import {
+  getCurrentDriverLeaderboard,
+  getDriverRankingSettings,
+  refreshDriverLeaderboard
+} from '../../utils/api/driverRanking';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('DriverLeaderboardPanel');
+
+interface DriverLeaderboardPanelProps {
+  onDriverClick?: (driverId: string) => void;
+}
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-success-600' : score >= 60 ? 'text-warning-600' : 'text-error-600';
+
+const DriverLeaderboardPanel: React.FC<DriverLeaderboardPanelProps> = ({ onDriverClick }) => {
+  const [periods, setPeriods] = useState<DriverRankingPeriod[]>([]);
+  const [period, setPeriod] = useState<DriverRankingPeriod>('monthly');
+  const [leaderboard, setLeaderboard] = useState<DriverLeaderboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    getDriverRankingSettings().then(settings => {
+      setPeriods(settings.periods);
+      if (!settings.periods.includes('monthly') && settings.periods.length > 0) {
+        setPeriod(settings.periods[0]);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    getCurrentDriverLeaderboard(period)
+      .then(setLeaderboard)
+      .finally(() => setLoading(false));
+  }, [period]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      setLeaderboard(await refreshDriverLeaderboard(period));
+    } catch (error) {
+      logger.error('Error refreshing leaderboard:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const entries = leaderboard?.entries || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="px-4 py-5 border-b border-gray-200 sm:px-6 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+            <Medal className="h-5 w-5 text-yellow-500 mr-2" />
+            Driver Leaderboard
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {leaderboard
+              ? `${format(parseISO(leaderboard.period_start), 'dd MMM')} – ${format(parseISO(leaderboard.period_end), 'dd MMM yyyy')} · updated ${format(parseISO(leaderboard.computed_at), 'dd MMM HH:mm')}`
+              : 'Ranked on the weights set in Driver Ranking Settings'}
+          </p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          {periods.length > 1 && (
+            <Select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as DriverRankingPeriod)}
+              options={periods.map(p => ({ value: p, label: DRIVER_RANKING_PERIOD_LABELS[p] }))}
+            />
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRefresh}
+            isLoading={refreshing}
+            icon={<RefreshCw className="h-4 w-4" />}
+          >
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="p-6 text-sm text-gray-500">Loading leaderboard…</p>
+      ) : entries.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No trips recorded for this period yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Driver</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Score</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Trips</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Distance</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Mileage</th>
+                {DRIVER_RANKING_METRICS.map(metric => (
+                  <th key={metric} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase whitespace-nowrap">
+                    {DRIVER_RANKING_METRIC_LABELS[metric]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.driver_id} className={entry.rank === null ? 'text-gray-400' : undefined}>
+                  <td className="px-4 py-3 text-sm font-bold text-gray-500">{entry.rank ?? '—'}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => onDriverClick?.(entry.driver_id)}
+                      className="font-medium text-gray-900 hover:text-primary-600"
+                    >
+                      {entry.driver_name}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                    {entry.score === null ? (
+                      <span className="text-gray-400">New</span>
+                    ) : (
+                      <span className={`font-medium ${scoreColor(entry.score)}`}>
+                        {entry.score.toFixed(0)} <span className="text-xs text-gray-500">⭐ {entry.rating}</span>
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">{entry.trips}</td>
+                  <td className="px-4 py-3 text-sm text-right whitespace-nowrap">{formatDistance(entry.distance)}</td>
+                  <td className="px-4 py-3 text-sm text-right whitespace-nowrap">{formatMileage(entry.avg_mileage)}</td>
+                  {DRIVER_RANKING_METRICS.map(metric => {
+                    const result = entry.metrics[metric];
+                    return (
+                      <td key={metric} className="px-4 py-3 text-sm text-right">
+                        {result ? <span className={scoreColor(result.score)}>{result.score.toFixed(0)}</span> : '—'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DriverLeaderboardPanel;
@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { BookOpen, CheckCircle, Plus, Printer, RotateCcw } from 'lucide-react';
+import { Driver, DriverLedgerEntry, DriverLedgerEntryType, Trip } from '@/types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { getDriverLedgerEntries, createDriverLedgerEntry, reverseDriverLedgerEntry } from '../../utils/api/driverLedger';
+import { buildDriverLedger } from '../../utils/driverLedger';
+import { toggleExpenseVerification } from '../../utils/tripVerification';
+import { downloadDriverSettlementStatement } from '../../reports/driverSettlementPdf';
+import { supabase } from '../../utils/supabaseClient';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('DriverLedgerPanel');
+
+interface DriverLedgerPanelProps {
+  driver: Driver;
+  trips: Trip[];
+  onTripUpdate?: (trip: Trip) => void;
+}
+
+const ENTRY_TYPE_OPTIONS: { value: DriverLedgerEntryType; label: string }[] = [
+  { value: 'advance', label: 'Advance given' },
+  { value: 'settlement_paid', label: 'Settlement paid to driver' },
+  { value: 'settlement_received', label: 'Cash returned by driver' },
+  { value: 'adjustment', label: 'Adjustment (+ owed to driver)' }
+];
+
+const formatCurrency = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const DriverLedgerPanel: React.FC<DriverLedgerPanelProps> = ({ driver, trips, onTripUpdate }) => {
+  const [entries, setEntries] = useState<DriverLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [verifyingTripId, setVerifyingTripId] = useState<string | null>(null);
+  const [periodFrom, setPeriodFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [periodTo, setPeriodTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [form, setForm] = useState({
+    entry_type: 'advance' as DriverLedgerEntryType,
+    amount: '',
+    entry_date: format(new Date(), 'yyyy-MM-dd'),
+    trip_id: '',
+    payment_mode: 'cash',
+    reference: '',
+    notes: ''
+  });
+
+  useEffect(() => {
+    if (!driver.id) return;
+
+    setLoading(true);
+    getDriverLedgerEntries(driver.id)
+      .then(setEntries)
+      .finally(() => setLoading(false));
+  }, [driver.id]);
+
+  const { lines, summary } = useMemo(
+    () => buildDriverLedger(trips, entries, { from: periodFrom, to: periodTo }),
+    [trips, entries, periodFrom, periodTo]
+  );
+
+  const handleAddEntry = async () => {
+    const amount = Number(form.amount);
+    if (!driver.id) return;
+    if (!amount || (form.entry_type !== 'adjustment' && amount <= 0)) {
+      toast.error('Enter a valid amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const entry = await createDriverLedgerEntry({
+        driver_id: driver.id,
+        entry_type: form.entry_type,
+        amount,
+        entry_date: form.entry_date,
+        trip_id: form.trip_id || null,
+        payment_mode: form.payment_mode,
+        reference: form.reference || null,
+        notes: form.notes || null
+      });
+      setEntries(prev => [...prev, entry]);
+      setForm(prev => ({ ...prev, amount: '', reference: '', notes: '', trip_id: '' }));
+      setShowForm(false);
+      toast.success('Ledger entry recorded');
+    } catch (error) {
+      logger.error('Error recording ledger entry:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Entries that are reversals or have been reversed cannot be reversed again
+  const settledEntryIds = useMemo(() => new Set(
+    entries.flatMap(e => (e.reverses_entry_id ? [e.id, e.reverses_entry_id] : []))
+  ), [entries]);
+
+  const handleReverseEntry = async (entryId: string) => {
+    const reason = window.prompt('Reverse this ledger entry? Enter a reason:');
+    if (reason === null) return;
+
+    try {
+      const reversal = await reverseDriverLedgerEntry(entryId, reason.trim());
+      setEntries(prev => [...prev, reversal]);
+      toast.success('Ledger entry reversed');
+    } catch (error) {
+      logger.error('Error reversing ledger entry:', error);
+    }
+  };
+
+  const handleVerify = async (tripId: string) => {
+    const trip = trips.find(t => t.id === tripId);
+    if (!trip || verifyingTripId) return;
+
+    setVerifyingTripId(tripId);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const result = await toggleExpenseVerification(trip.id, trip.expense_verified || false, user?.email);
+
+      if (result.success) {
+        toast.success('✓ Expense verified successfully');
+        onTripUpdate?.({
+          ...trip,
+          expense_verified: true,
+          expense_verified_by: user?.email,
+          expense_verified_at: new Date().toISOString()
+        });
+      } else {
+        toast.error(result.error || 'Failed to verify expense');
+      }
+    } finally {
+      setVerifyingTripId(null);
+    }
+  };
+
+  const handlePrint = async () => {
+    try {
+      await downloadDriverSettlementStatement(driver, lines, summary, { from: periodFrom, to: periodTo });
+    } catch (error) {
+      logger.error('Error generating settlement statement:', error);
+      toast.error('Failed to generate statement');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+          <BookOpen className="h-5 w-5 mr-2 text-primary-600 dark:text-primary-400" />
+          Advance & Settlement Ledger
+        </h3>
+        <div className="flex flex-wrap items-end gap-2">
+          <Input type="date" inputSize="sm" label="From" value={periodFrom} onChange={(e) => setPeriodFrom(e.target.value)} />
+          <Input type="date" inputSize="sm" label="To" value={periodTo} onChange={(e) => setPeriodTo(e.target.value)} />
+          <Button variant="outline" size="sm" onClick={handlePrint} icon={<Printer className="h-4 w-4" />}>
+            Statement
+          </Button>
+          <Button size="sm" onClick={() => setShowForm(!showForm)} icon={<Plus className="h-4 w-4" />}>
+            Add Entry
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {[
+          { label: 'Opening', value: summary.openingBalance },
+          { label: 'Advances', value: summary.totalAdvances },
+          { label: 'Verified Expenses', value: summary.totalVerified },
+          { label: 'Pending Verification', value: summary.pendingVerification },
+          { label: summary.closingBalance >= 0 ? 'Payable to Driver' : 'Held by Driver', value: Math.abs(summary.closingBalance) }
+        ].map(card => (
+          <div key={card.label} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(card.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {showForm && (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select
+            label="Type"
+            value={form.entry_type}
+            onChange={(e) => setForm({ ...form, entry_type: e.target.value as DriverLedgerEntryType })}
+            options={ENTRY_TYPE_OPTIONS}
+          />
+          <Input
+            label="Amount (₹)"
+            type="number"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          />
+          <Input
+            label="Date"
+            type="date"
+            value={form.entry_date}
+            onChange={(e) => setForm({ ...form, entry_date: e.target.value })}
+          />
+          <Select
+            label="Trip (optional)"
+            value={form.trip_id}
+            onChange={(e) => setForm({ ...form, trip_id: e.target.value })}
+            options={[
+              { value: '', label: 'Not linked to a trip' },
+              ...trips.map(t => ({ value: t.id, label: `${t.trip_serial_number} (${format(parseISO(t.trip_start_date), 'dd MMM')})` }))
+            ]}
+          />
+          <Select
+            label="Payment Mode"
+            value={form.payment_mode}
+            onChange={(e) => setForm({ ...form, payment_mode: e.target.value })}
+            options={[
+              { value: 'cash', label: 'Cash' },
+              { value: 'bank_transfer', label: 'Bank Transfer' },
+              { value: 'upi', label: 'UPI' }
+            ]}
+          />
+          <Input
+            label="Reference"
+            value={form.reference}
+            onChange={(e) => setForm({ ...form, reference: e.target.value })}
+          />
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button size="sm" onClick={handleAddEntry} isLoading={saving}>Save Entry</Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading ledger...</p>
+      ) : lines.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No ledger activity in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Particulars</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Given</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Owed</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Pending</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Balance</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {lines.map(line => (
+                <tr key={line.id}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600 dark:text-gray-400">
+                    {format(parseISO(line.date), 'dd MMM yyyy')}
+                  </td>
+                  <td className="px-3 py-2 text-gray-900 dark:text-gray-100">{line.description}</td>
+                  <td className="px-3 py-2 text-right text-gray-900 dark:text-gray-100">{line.debit ? formatCurrency(line.debit) : ''}</td>
+                  <td className="px-3 py-2 text-right text-gray-900 dark:text-gray-100">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                  <td className="px-3 py-2 text-right text-warning-600 dark:text-warning-400">{line.pending ? formatCurrency(line.pending) : ''}</td>
+                  <td className={`px-3 py-2 text-right font-medium ${line.balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {formatCurrency(line.balance)}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {line.pending > 0 && line.tripId && (
+                      <button
+                        type="button"
+                        onClick={() => handleVerify(line.tripId!)}
+                        disabled={verifyingTripId === line.tripId}
+                        className="text-xs text-primary-600 dark:text-primary-400 hover:underline inline-flex items-center"
+                      >
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        Verify
+                      </button>
+                    )}
+                    {line.entryId && !settledEntryIds.has(line.entryId) && (
+                      <button
+                        type="button"
+                        onClick={() => handleReverseEntry(line.entryId!)}
+                        className="text-red-500 hover:text-red-700"
+                        title="Reverse entry"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DriverLedgerPanel;
@@ -1,8 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, FileText, Link as LinkIcon } from 'lucide-react';
 import Button from '../ui/Button';
-import { Driver } from '@/types';
+import { useTranslation } from 'react-i18next';
+import { Driver, MessageTemplate, MessageTemplateKey, MessageVariables } from '@/types';
 import WhatsAppIcon from '../ui/WhatsAppIcon';
+import { getMessageTemplates } from '../../utils/api/messageTemplates';
+import { formatTemplateDate, resolveMessage, toMessageLanguage } from '../../utils/messageTemplates';
 
 interface DriverWhatsAppShareModalProps {
   isOpen: boolean;
@@ -25,60 +28,53 @@ const DriverWhatsAppShareModal: React.FC<DriverWhatsAppShareModalProps> = ({
 }) => {
   // Add state for showing document files section // ⚠️ Confirm field refactor here
   const [showDocumentFiles, setShowDocumentFiles] = useState(false);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const { i18n } = useTranslation();
+
+  useEffect(() => {
+    if (isOpen) {
+      getMessageTemplates().then(setTemplates);
+    }
+  }, [isOpen]);
 
   if (!isOpen) return null;
-  // ⚠️ Confirm field refactor here
-  // Generate Driver Details message
-  const generateDriverDetailsMessage = () => {
-    return encodeURIComponent(
-      `👨‍✈️ *Driver Profile (Auto Vital Solution)*\n\n` +
-      `📌 *Name:* ${driver.name}\n` +
-      `🪪 *License:* ${driver.license_number || 'N/A'}\n` +
-      `📞 *Contact:* ${driver.contact_number || 'N/A'}\n` +
-      `📧 *Email:* ${driver.email || 'N/A'}\n` +
-      `⏱️ *Experience:* ${driver.experience_years} years\n` +
-      `📅 *Join Date:* ${new Date(driver.join_date).toLocaleDateString() || 'N/A'}\n` +
-      `🚦 *Status:* ${driver.status || 'N/A'}\n\n` +
-      `✅ Track & manage your fleet on: www.autovitalsolution.com`
-    );
-  };
-  
-  // Generate Document Expiry message
-  const generateDocumentExpiryMessage = () => {
-    return encodeURIComponent(
-      `📄 *Driver Document Validity (Auto Vital Solution)*\n\n` +
-      `👨‍✈️ ${driver.name} - ${driver.license_number || 'N/A'}\n\n` +
-      `🪪 *License Expiry:* ${driver.license_expiry_date ? new Date(driver.license_expiry_date).toLocaleDateString() : 'N/A'}\n\n` +
-      `✅ Track & manage your fleet on: www.autovitalsolution.com`
-    );
-  };
+  const language = toMessageLanguage(i18n.language);
 
-  // Generate Document File message
-  const generateDocumentFileMessage = (docType: string, url: string) => {
-    return encodeURIComponent(
-      `📄 *Document: ${docType} for ${driver.name}*\n\n` +
-      `View Document: ${url}\n\n` +
-      `✅ Shared via Auto Vital Solution`
-    );
+  const shareOnWhatsApp = (key: MessageTemplateKey, variables: MessageVariables) => {
+    const { body } = resolveMessage(key, variables, language, templates);
+    window.open(`https://wa.me/?text=${encodeURIComponent(body)}`, '_blank');
   };
-  
+
   // Handle share on WhatsApp
   const handleShareDriverDetails = () => {
-    const message = generateDriverDetailsMessage();
-    window.open(`https://wa.me/?text=${message}`, '_blank');
+    shareOnWhatsApp('driver_details', {
+      driver_name: driver.name,
+      license_number: driver.license_number,
+      contact_number: driver.contact_number,
+      email: driver.email,
+      experience_years: driver.experience_years,
+      join_date: formatTemplateDate(driver.join_date),
+      status: driver.status
+    });
     onClose();
   };
   
   const handleShareDocumentDates = () => {
-    const message = generateDocumentExpiryMessage();
-    window.open(`https://wa.me/?text=${message}`, '_blank');
+    shareOnWhatsApp('driver_document_dates', {
+      driver_name: driver.name,
+      license_number: driver.license_number,
+      expiry_date: formatTemplateDate(driver.license_expiry_date)
+    });
     onClose();
   };
 
   // Handle share document file
   const handleShareDocumentFile = (docType: string, url: string) => {
-    const message = generateDocumentFileMessage(docType, url);
-    window.open(`https://wa.me/?text=${message}`, '_blank');
+    shareOnWhatsApp('document_share', {
+      document_type: docType,
+      document_owner: driver.name,
+      document_url: url
+    });
   };
   
   // Check if any document URLs exist
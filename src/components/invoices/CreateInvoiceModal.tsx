@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FileText, X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Checkbox from '../ui/Checkbox';
+import { Customer, Invoice, Trip, Warehouse } from '../../types';
+import { createDraftInvoice, getInvoiceSupplier, getUninvoicedTrips, InvoiceSupplier } from '../../utils/api/invoices';
+import { getGSTINStateCode } from '../../utils/indianValidation';
+import {
+  GTA_GST_RATES,
+  buildInvoiceItemFromTrip,
+  calculateGstBreakup,
+  getGSTStateCodeByName
+} from '../../utils/gstInvoice';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('CreateInvoiceModal');
+
+interface CreateInvoiceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customers: Customer[];
+  warehouses: Warehouse[];
+  onCreated: (invoice: Invoice) => void;
+}
+
+const CreateInvoiceModal: React.FC<CreateInvoiceModalProps> = ({
+  isOpen,
+  onClose,
+  customers,
+  warehouses,
+  onCreated
+}) => {
+  const [customerId, setCustomerId] = useState('');
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [selectedTripIds, setSelectedTripIds] = useState<Set<string>>(new Set());
+  const [loadingTrips, setLoadingTrips] = useState(false);
+  const [supplier, setSupplier] = useState<InvoiceSupplier | null>(null);
+  const [invoiceDate, setInvoiceDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [gstRate, setGstRate] = useState(GTA_GST_RATES[0]);
+  const [reverseCharge, setReverseCharge] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      getInvoiceSupplier().then(setSupplier);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setSelectedTripIds(new Set());
+    if (!customerId) {
+      setTrips([]);
+      return;
+    }
+
+    setLoadingTrips(true);
+    getUninvoicedTrips(customerId)
+      .then(setTrips)
+      .finally(() => setLoadingTrips(false));
+  }, [customerId]);
+
+  const customer = customers.find(c => c.id === customerId);
+
+  const getRouteLabel = (trip: Trip) => {
+    const warehouse = warehouses.find(w => w.id === trip.warehouse_id)?.name;
+    return [warehouse, trip.destination_display].filter(Boolean).join(' → ');
+  };
+
+  const selectedTrips = trips.filter(t => selectedTripIds.has(t.id));
+  const taxableAmount = selectedTrips.reduce((sum, t) => sum + (t.income_amount || 0), 0);
+
+  const breakup = useMemo(() => {
+    const supplierStateCode = getGSTINStateCode(supplier?.gst_number) || getGSTStateCodeByName(supplier?.state);
+    const placeOfSupply = getGSTINStateCode(customer?.gstin) || getGSTStateCodeByName(customer?.state) || supplierStateCode;
+    return calculateGstBreakup(taxableAmount, gstRate, supplierStateCode, placeOfSupply, reverseCharge);
+  }, [supplier, customer, taxableAmount, gstRate, reverseCharge]);
+
+  const toggleTrip = (tripId: string) => {
+    setSelectedTripIds(prev => {
+      const next = new Set(prev);
+      if (next.has(tripId)) {
+        next.delete(tripId);
+      } else {
+        next.add(tripId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedTripIds(
+      selectedTripIds.size === trips.length ? new Set() : new Set(trips.map(t => t.id))
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!customer || selectedTrips.length === 0) {
+      toast.error('Select a customer and at least one trip');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const items = selectedTrips.map(trip => buildInvoiceItemFromTrip(trip, getRouteLabel(trip)));
+      const invoice = await createDraftInvoice(customer, items, {
+        invoiceDate,
+        gstRate,
+        reverseCharge,
+        notes
+      });
+      toast.success('Draft invoice created');
+      onCreated(invoice);
+      setCustomerId('');
+      setNotes('');
+    } catch (error) {
+      logger.error('Error creating invoice:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <FileText className="h-6 w-6 text-primary-600 dark:text-primary-400 mr-3" />
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">New Invoice</h2>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClose}
+              icon={<X className="h-4 w-4" />}
+            />
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-160px)] space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Customer"
+              required
+              value={customerId}
+              onChange={(e) => setCustomerId(e.target.value)}
+              options={[
+                { value: '', label: 'Select customer' },
+                ...customers.map(c => ({ value: c.id, label: c.name }))
+              ]}
+            />
+            <Input
+              label="Invoice Date"
+              type="date"
+              value={invoiceDate}
+              onChange={(e) => setInvoiceDate(e.target.value)}
+            />
+            <Select
+              label="GST Rate"
+              value={String(gstRate)}
+              onChange={(e) => setGstRate(Number(e.target.value))}
+              options={GTA_GST_RATES.map(rate => ({ value: String(rate), label: `${rate}%` }))}
+            />
+            <div className="flex items-end pb-2">
+              <Checkbox
+                label="Tax payable on reverse charge"
+                checked={reverseCharge}
+                onChange={(e) => setReverseCharge(e.target.checked)}
+              />
+            </div>
+          </div>
+
+          {customer && !customer.gstin && (
+            <p className="text-xs text-warning-600 dark:text-warning-400">
+              {customer.name} has no GSTIN on file; the invoice will be treated as a B2C supply.
+            </p>
+          )}
+
+          {/* Trips */}
+          {customerId && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Unbilled Trips ({trips.length})
+                </h3>
+                {trips.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={toggleAll}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    {selectedTripIds.size === trips.length ? 'Clear selection' : 'Select all'}
+                  </button>
+                )}
+              </div>
+
+              {loadingTrips ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading trips...</p>
+              ) : trips.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No unbilled trips with income for this customer
+                </p>
+              ) : (
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700 max-h-72 overflow-y-auto">
+                  {trips.map(trip => (
+                    <label
+                      key={trip.id}
+                      className="flex items-center justify-between px-4 py-2 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+                    >
+                      <span className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          className="rounded border-gray-300 text-primary-600"
+                          checked={selectedTripIds.has(trip.id)}
+                          onChange={() => toggleTrip(trip.id)}
+                        />
+                        <span className="font-medium text-gray-900 dark:text-gray-100">{trip.trip_serial_number}</span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {format(parseISO(trip.trip_start_date), 'dd MMM yyyy')}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400 hidden md:inline">{getRouteLabel(trip)}</span>
+                      </span>
+                      <span className="text-gray-900 dark:text-gray-100">
+                        ₹{(trip.income_amount || 0).toLocaleString('en-IN')}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Totals */}
+          {selectedTrips.length > 0 && (
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Taxable value</span>
+                <span>₹{taxableAmount.toLocaleString('en-IN')}</span>
+              </div>
+              {breakup.igst > 0 ? (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">IGST @ {gstRate}%</span>
+                  <span>₹{breakup.igst.toLocaleString('en-IN')}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">CGST @ {gstRate / 2}%</span>
+                    <span>₹{breakup.cgst.toLocaleString('en-IN')}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">SGST @ {gstRate / 2}%</span>
+                    <span>₹{breakup.sgst.toLocaleString('en-IN')}</span>
+                  </div>
+                </>
+              )}
+              <div className="flex justify-between font-semibold border-t border-gray-200 dark:border-gray-700 pt-1">
+                <span>Invoice total{reverseCharge ? ' (tax under reverse charge)' : ''}</span>
+                <span>₹{breakup.total.toLocaleString('en-IN')}</span>
+              </div>
+            </div>
+          )}
+
+          <Input
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} isLoading={saving} disabled={selectedTrips.length === 0}>
+            Create Draft ({selectedTrips.length} trip{selectedTrips.length === 1 ? '' : 's'})
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreateInvoiceModal;
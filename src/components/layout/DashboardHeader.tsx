@@ -107,19 +107,19 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({ className = '' }) =>
         .eq('organization_id', organizationId);
 
       const { count: driverCount } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('*', { count: 'exact', head: true })
         .eq('organization_id', organizationId);
 
       // Get trip count using count query (no row limit)
       const { count: totalTrips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .eq('organization_id', organizationId);
 
       // Get earliest trip date separately
       const { data: earliestTrip } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('created_at')
         .eq('organization_id', organizationId)
         .order('created_at', { ascending: true })
@@ -130,7 +130,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({ className = '' }) =>
 
       const today = new Date().toISOString().split('T')[0];
       const { count: todayTrips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .eq('organization_id', organizationId)
         .gte('created_at', today);
@@ -6,6 +6,7 @@ import { clearPermissionsCache } from '../../hooks/usePermissions';
 import { useQueryClient } from '@tanstack/react-query';
 import Header from './Header';
 import MobileNavigation from './MobileNavigation';
+import TeamInvitationsBanner from '../shared/TeamInvitationsBanner';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -43,6 +44,8 @@ const Layout: React.FC<LayoutProps> = ({
       <MobileNavigation onLogout={handleLogout} />
 
       <main className="mx-auto max-w-7xl px-0 sm:px-6 lg:px-8 py-2 sm:py-6 lg:py-8">
+        <TeamInvitationsBanner />
+
         {/* Page Header with Title and Actions */}
         {(title || actions) && (
           <div className="mb-6">
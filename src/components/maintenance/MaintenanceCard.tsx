@@ -49,6 +49,7 @@ const MaintenanceCard: React.FC<MaintenanceCardProps> = ({
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'draft': return 'bg-purple-100 text-purple-800 border-purple-300';
       case 'open': return 'bg-gray-100 text-gray-800 border-gray-300';
       case 'in_progress': return 'bg-blue-100 text-blue-800 border-blue-300';
       case 'resolved': return 'bg-green-100 text-green-800 border-green-300';
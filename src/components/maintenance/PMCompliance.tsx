@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ClipboardCheck, Edit2, Plus, Settings, Trash2, Wrench } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import PMScheduleModal from './PMScheduleModal';
+import { MaintenanceSchedule, MaintenanceTask, PMDueItem, Vehicle } from '@/types';
+import { deleteMaintenanceSchedule, getMaintenanceSchedules } from '../../utils/api/maintenanceSchedules';
+import { getTags } from '../../utils/api/tags';
+import { getVendors } from '../../utils/vendorStorage';
+import { computePMDueItems, getPMItemsNeedingTasks, summarizePMCompliance } from '../../utils/pmSchedules';
+import { createPMTasks } from '../../utils/pmTaskGenerator';
+
+interface PMComplianceProps {
+  tasks: MaintenanceTask[];
+  vehicles: Vehicle[];
+}
+
+const STATUS_STYLES: Record<PMDueItem['status'], { label: string; className: string }> = {
+  overdue: { label: 'Overdue', className: 'bg-error-100 text-error-700' },
+  due_soon: { label: 'Due soon', className: 'bg-warning-100 text-warning-700' },
+  no_history: { label: 'No history', className: 'bg-gray-100 text-gray-600' },
+  ok: { label: 'OK', className: 'bg-success-100 text-success-700' }
+};
+
+const STATUS_ORDER: PMDueItem['status'][] = ['overdue', 'due_soon', 'no_history', 'ok'];
+
+const formatDue = (item: PMDueItem) => {
+  const parts: string[] = [];
+  if (item.km_to_due !== undefined) {
+    parts.push(item.km_to_due < 0
+      ? `${Math.abs(item.km_to_due).toLocaleString()} km over`
+      : `${item.km_to_due.toLocaleString()} km left`);
+  }
+  if (item.days_to_due !== undefined) {
+    parts.push(item.days_to_due < 0 ? `${Math.abs(item.days_to_due)} days late` : `${item.days_to_due} days left`);
+  }
+  return parts.join(' · ') || '—';
+};
+
+const PMCompliance: React.FC<PMComplianceProps> = ({ tasks, vehicles }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [editing, setEditing] = useState<MaintenanceSchedule | null | undefined>(undefined);
+  const [creating, setCreating] = useState(false);
+
+  const { data: schedules = [] } = useQuery({
+    queryKey: ['maintenanceSchedules'],
+    queryFn: getMaintenanceSchedules
+  });
+  const { data: tags = [] } = useQuery({ queryKey: ['tags'], queryFn: getTags, enabled: editing !== undefined });
+  const { data: vendors = [] } = useQuery({ queryKey: ['vendors'], queryFn: () => getVendors(), enabled: editing !== undefined });
+
+  const items = useMemo(
+    () => computePMDueItems(schedules, vehicles, tasks)
+      .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)),
+    [schedules, vehicles, tasks]
+  );
+  const summary = useMemo(() => summarizePMCompliance(items), [items]);
+  const pendingTasks = useMemo(() => getPMItemsNeedingTasks(items), [items]);
+  const attention = items.filter(i => i.status !== 'ok');
+
+  const handleCreateTasks = async () => {
+    setCreating(true);
+    try {
+      const created = await createPMTasks(pendingTasks);
+      toast.success(`${created} maintenance task${created === 1 ? '' : 's'} created`);
+      queryClient.invalidateQueries({ queryKey: ['maintenanceTasks'] });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (schedule: MaintenanceSchedule) => {
+    if (!window.confirm(`Delete schedule "${schedule.name}"?`)) return;
+    if (await deleteMaintenanceSchedule(schedule.id)) {
+      toast.success('Schedule deleted');
+      queryClient.invalidateQueries({ queryKey: ['maintenanceSchedules'] });
+    }
+  };
+
+  const handleSaved = () => {
+    setEditing(undefined);
+    queryClient.invalidateQueries({ queryKey: ['maintenanceSchedules'] });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-primary-500" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">PM Compliance</h2>
+        </div>
+        <div className="flex gap-2">
+          {pendingTasks.length > 0 && (
+            <Button size="sm" icon={<Wrench className="h-4 w-4" />} isLoading={creating} onClick={handleCreateTasks}>
+              Create {pendingTasks.length} Due Task{pendingTasks.length === 1 ? '' : 's'}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            icon={<Settings className="h-4 w-4" />}
+            onClick={() => setShowSchedules(!showSchedules)}
+          >
+            Schedules ({schedules.length})
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+          <p className="text-xs text-gray-500">Compliance</p>
+          <p className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            {summary.compliance_percent !== null ? `${summary.compliance_percent}%` : '—'}
+          </p>
+        </div>
+        {(['ok', 'due_soon', 'overdue', 'no_history'] as const).map(status => (
+          <div key={status} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+            <p className="text-xs text-gray-500">{STATUS_STYLES[status].label}</p>
+            <p className="text-xl font-bold text-gray-900 dark:text-gray-100">{summary[status]}</p>
+          </div>
+        ))}
+      </div>
+
+      {showSchedules && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Schedule templates</p>
+            <Button size="sm" variant="outline" icon={<Plus className="h-4 w-4" />} onClick={() => setEditing(null)}>
+              New Schedule
+            </Button>
+          </div>
+          {schedules.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">No schedules yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {schedules.map(schedule => (
+                <li key={schedule.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div>
+                    <p className={`font-medium ${schedule.is_active ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 line-through'}`}>
+                      {schedule.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[
+                        schedule.interval_km ? `${schedule.interval_km.toLocaleString()} km` : null,
+                        schedule.interval_days ? `${schedule.interval_days} days` : null
+                      ].filter(Boolean).join(' or ')}
+                      {schedule.auto_create_task && ' · auto task'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button onClick={() => setEditing(schedule)} className="p-1 text-gray-400 hover:text-primary-600" title="Edit">
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleDelete(schedule)} className="p-1 text-gray-400 hover:text-error-600" title="Delete">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {schedules.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Add a schedule to start tracking preventive maintenance across the fleet.
+        </p>
+      ) : attention.length === 0 ? (
+        <p className="text-sm text-success-700">All vehicles are within their PM intervals.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-3">Vehicle</th>
+                <th className="py-2 pr-3">Service</th>
+                <th className="py-2 pr-3">Last Done</th>
+                <th className="py-2 pr-3">Due</th>
+                <th className="py-2 pr-3">Status</th>
+                <th className="py-2">Task</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {attention.map(item => (
+                <tr key={`${item.schedule.id}-${item.vehicle.id}`}>
+                  <td className="py-2 pr-3 font-medium text-gray-900 dark:text-gray-100">{item.vehicle.registration_number}</td>
+                  <td className="py-2 pr-3 text-gray-700 dark:text-gray-300">{item.schedule.name}</td>
+                  <td className="py-2 pr-3 text-gray-500">
+                    {item.last_service_date
+                      ? `${item.last_service_date} @ ${item.last_service_odometer?.toLocaleString()} km`
+                      : '—'}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-500">{formatDue(item)}</td>
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[item.status].className}`}>
+                      {STATUS_STYLES[item.status].label}
+                    </span>
+                  </td>
+                  <td className="py-2">
+                    {item.open_task_id ? (
+                      <button
+                        onClick={() => navigate(`/maintenance/${item.open_task_id}`)}
+                        className="text-primary-600 hover:underline"
+                      >
+                        View task
+                      </button>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing !== undefined && (
+        <PMScheduleModal
+          schedule={editing || undefined}
+          vehicles={vehicles}
+          tags={tags}
+          vendors={vendors}
+          onClose={() => setEditing(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PMCompliance;
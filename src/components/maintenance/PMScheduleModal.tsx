@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Checkbox from '../ui/Checkbox';
+import { MAINTENANCE_ITEMS, MaintenanceSchedule, MaintenanceScheduleFormData, Tag, Vehicle } from '@/types';
+import { Vendor } from '../../utils/vendorStorage';
+import { createMaintenanceSchedule, updateMaintenanceSchedule } from '../../utils/api/maintenanceSchedules';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('PMScheduleModal');
+
+const VEHICLE_TYPES: Vehicle['type'][] = ['truck', 'tempo', 'trailer', 'pickup', 'van'];
+
+const TASK_TYPES: { value: MaintenanceSchedule['task_type']; label: string }[] = [
+  { value: 'general_scheduled_service', label: 'General Scheduled Service' },
+  { value: 'wear_and_tear_replacement_repairs', label: 'Wear & Tear Replacement' },
+  { value: 'others', label: 'Others' }
+];
+
+interface PMScheduleModalProps {
+  schedule?: MaintenanceSchedule;
+  vehicles: Vehicle[];
+  tags: Tag[];
+  vendors: Vendor[];
+  onClose: () => void;
+  onSaved: (schedule: MaintenanceSchedule) => void;
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const PMScheduleModal: React.FC<PMScheduleModalProps> = ({ schedule, vehicles, tags, vendors, onClose, onSaved }) => {
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    name: schedule?.name || '',
+    task_title: schedule?.task_title || '',
+    task_type: schedule?.task_type || 'general_scheduled_service',
+    interval_km: schedule?.interval_km?.toString() || '',
+    interval_days: schedule?.interval_days?.toString() || '',
+    warn_km: (schedule?.warn_km ?? 1000).toString(),
+    warn_days: (schedule?.warn_days ?? 7).toString(),
+    vehicle_types: schedule?.vehicle_types || [],
+    vehicle_ids: schedule?.vehicle_ids || [],
+    tag_ids: schedule?.tag_ids || [],
+    vendor_id: schedule?.vendor_id || '',
+    auto_create_task: schedule?.auto_create_task ?? false,
+    is_active: schedule?.is_active ?? true
+  });
+
+  // Prefill intervals from the standard life of a known maintenance item
+  const handleTaskTitleChange = (title: string) => {
+    const item = MAINTENANCE_ITEMS.find(i => i.name === title);
+    setForm(prev => ({
+      ...prev,
+      task_title: title,
+      name: prev.name || title,
+      interval_km: prev.interval_km || item?.standardLifeKm?.toString() || '',
+      interval_days: prev.interval_days || item?.standardLifeDays?.toString() || ''
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim() || !form.task_title.trim()) {
+      toast.error('Name and service are required');
+      return;
+    }
+    if (!form.interval_km && !form.interval_days) {
+      toast.error('Set a km interval, a day interval, or both');
+      return;
+    }
+    if (form.auto_create_task && !form.vendor_id) {
+      toast.error('Select a garage for automatically created tasks');
+      return;
+    }
+
+    const payload: MaintenanceScheduleFormData = {
+      name: form.name,
+      task_title: form.task_title.trim(),
+      task_type: form.task_type,
+      interval_km: form.interval_km ? Number(form.interval_km) : null,
+      interval_days: form.interval_days ? Number(form.interval_days) : null,
+      warn_km: Number(form.warn_km) || 0,
+      warn_days: Number(form.warn_days) || 0,
+      vehicle_types: form.vehicle_types,
+      vehicle_ids: form.vehicle_ids,
+      tag_ids: form.tag_ids,
+      vendor_id: form.vendor_id || null,
+      auto_create_task: form.auto_create_task,
+      is_active: form.is_active
+    };
+
+    setSaving(true);
+    try {
+      const saved = schedule
+        ? await updateMaintenanceSchedule(schedule.id, payload)
+        : await createMaintenanceSchedule(payload);
+      toast.success('Schedule saved');
+      onSaved(saved);
+    } catch (error) {
+      logger.error('Error saving maintenance schedule:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const coversWholeFleet = form.vehicle_types.length === 0 && form.vehicle_ids.length === 0 && form.tag_ids.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {schedule ? 'Edit PM Schedule' : 'New PM Schedule'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Service"
+              list="pm-service-items"
+              placeholder="e.g. Engine Oil Change"
+              value={form.task_title}
+              onChange={(e) => handleTaskTitleChange(e.target.value)}
+              helperText="Matched against task titles to find the last service"
+              required
+            />
+            <datalist id="pm-service-items">
+              {MAINTENANCE_ITEMS.map(item => <option key={item.id} value={item.name} />)}
+            </datalist>
+            <Input
+              label="Schedule name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <Input
+              type="number"
+              label="Every (km)"
+              min={1}
+              value={form.interval_km}
+              onChange={(e) => setForm({ ...form, interval_km: e.target.value })}
+            />
+            <Input
+              type="number"
+              label="Or every (days)"
+              min={1}
+              value={form.interval_days}
+              onChange={(e) => setForm({ ...form, interval_days: e.target.value })}
+            />
+            <Input
+              type="number"
+              label="Warn before (km)"
+              min={0}
+              value={form.warn_km}
+              onChange={(e) => setForm({ ...form, warn_km: e.target.value })}
+            />
+            <Input
+              type="number"
+              label="Warn before (days)"
+              min={0}
+              value={form.warn_days}
+              onChange={(e) => setForm({ ...form, warn_days: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Applies to</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              {coversWholeFleet ? 'Whole fleet — pick types, tags or vehicles to narrow it down' : 'Vehicles matching any selection below'}
+            </p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {VEHICLE_TYPES.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setForm({ ...form, vehicle_types: toggle(form.vehicle_types, type) })}
+                  className={`px-3 py-1 rounded-full text-xs capitalize border ${
+                    form.vehicle_types.includes(type)
+                      ? 'bg-primary-600 text-white border-primary-600'
+                      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {tags.map(tag => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => setForm({ ...form, tag_ids: toggle(form.tag_ids, tag.id) })}
+                    className={`px-3 py-1 rounded-full text-xs border ${
+                      form.tag_ids.includes(tag.id) ? 'text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+                    }`}
+                    style={form.tag_ids.includes(tag.id)
+                      ? { backgroundColor: tag.color_hex, borderColor: tag.color_hex }
+                      : { borderColor: tag.color_hex }}
+                  >
+                    {tag.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="max-h-32 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md p-2 grid grid-cols-2 sm:grid-cols-3 gap-1">
+              {vehicles.filter(v => v.status !== 'archived').map(vehicle => (
+                <Checkbox
+                  key={vehicle.id}
+                  label={vehicle.registration_number}
+                  checked={form.vehicle_ids.includes(vehicle.id)}
+                  onChange={() => setForm({ ...form, vehicle_ids: toggle(form.vehicle_ids, vehicle.id) })}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Select
+              label="Task type"
+              value={form.task_type}
+              onChange={(e) => setForm({ ...form, task_type: e.target.value as MaintenanceSchedule['task_type'] })}
+              options={TASK_TYPES}
+            />
+            <Select
+              label="Garage"
+              value={form.vendor_id}
+              onChange={(e) => setForm({ ...form, vendor_id: e.target.value })}
+              options={[
+                { value: '', label: 'None' },
+                ...vendors.map(v => ({ value: v.id, label: v.vendor_name }))
+              ]}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <Checkbox
+              label="Create a task automatically when due"
+              checked={form.auto_create_task}
+              onChange={(e) => setForm({ ...form, auto_create_task: e.target.checked })}
+            />
+            <Checkbox
+              label="Active"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={saving}>
+              Save Schedule
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PMScheduleModal;
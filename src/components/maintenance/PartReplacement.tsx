@@ -1,7 +1,11 @@
 import React, { useState, useMemo } from 'react';
 import { Plus, Trash2, Package, X, Check } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
 import { createLogger } from '../../utils/logger';
 import FileUploadWithProgress from '../ui/FileUploadWithProgress';
+import { getPartStockItems, getStockMovements } from '../../utils/api/partsInventory';
+import { computeStockLevels } from '../../utils/partsInventory';
+import { getWarehouses } from '../../utils/storage';
 
 const logger = createLogger('PartReplacement');
 
@@ -423,6 +427,9 @@ interface PartData {
   warrantyDocument?: File;
   warrantyDocumentUrl?: string; // For existing warranty documents in edit mode
   tyrePositions?: string[];
+  // Set when the part is taken from the parts inventory; issued when the task is saved
+  stockItemId?: string;
+  warehouseId?: string;
 }
 
 interface PartReplacementProps {
@@ -477,6 +484,33 @@ const PartReplacement: React.FC<PartReplacementProps> = ({
     ? mapTyreCountToDiagramConfig(numberOfTyres)
     : mapVehicleTypeToDiagramConfig(vehicleType);
 
+  const { data: stockItems = [] } = useQuery({ queryKey: ['partStockItems'], queryFn: getPartStockItems });
+  const { data: movements = [] } = useQuery({ queryKey: ['stockMovements'], queryFn: () => getStockMovements() });
+  const { data: warehouses = [] } = useQuery({ queryKey: ['warehouses'], queryFn: () => getWarehouses() });
+
+  const stockSource = partData.stockItemId && partData.warehouseId
+    ? `${partData.stockItemId}|${partData.warehouseId}`
+    : '';
+  // Locations holding the part, plus the one already chosen for this part
+  const stockLevels = useMemo(
+    () => computeStockLevels(movements).filter(level =>
+      level.quantity > 0 || `${level.item_id}|${level.warehouse_id}` === stockSource
+    ),
+    [movements, stockSource]
+  );
+
+  const handleStockSourceChange = (value: string) => {
+    const [stockItemId, warehouseId] = value ? value.split('|') : [undefined, undefined];
+    const item = stockItems.find(i => i.id === stockItemId);
+    onChange({
+      ...partData,
+      stockItemId,
+      warehouseId,
+      partName: partData.partName || item?.name || '',
+      brand: partData.brand || item?.brand || ''
+    });
+  };
+
   // Memoize existing warranty document URL to prevent infinite re-renders
   const existingWarrantyUrls = useMemo(() => {
     return partData.warrantyDocumentUrl ? [partData.warrantyDocumentUrl] : [];
@@ -592,6 +626,34 @@ const PartReplacement: React.FC<PartReplacementProps> = ({
           </div>
         </div>
 
+        {stockItems.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Taken from Stock?
+            </label>
+            <select
+              value={stockSource}
+              onChange={(e) => handleStockSourceChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="">No, bought outside</option>
+              {stockLevels.map(level => {
+                const item = stockItems.find(i => i.id === level.item_id);
+                if (!item) return null;
+                const warehouse = warehouses.find(w => w.id === level.warehouse_id);
+                return (
+                  <option key={`${level.item_id}|${level.warehouse_id}`} value={`${level.item_id}|${level.warehouse_id}`}>
+                    {item.sku} · {item.name} @ {warehouse?.name || 'Unknown location'} ({level.quantity} {item.unit})
+                  </option>
+                );
+              })}
+            </select>
+            {stockSource && (
+              <p className="text-xs text-gray-500 mt-1">Issued from stock when the task is saved</p>
+            )}
+          </div>
+        )}
+
         <WarrantyQuickSelect
           value={partData.warrantyPeriod}
           onChange={(val) => onChange({ ...partData, warrantyPeriod: val })}
@@ -121,6 +121,7 @@ const TaskBreakdownModal: React.FC<TaskBreakdownModalProps> = ({
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'draft': return 'bg-purple-100 text-purple-700';
       case 'open': return 'bg-blue-100 text-blue-700';
       case 'in_progress': return 'bg-yellow-100 text-yellow-700';
       case 'resolved': return 'bg-green-100 text-green-700';
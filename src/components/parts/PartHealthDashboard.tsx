@@ -15,6 +15,7 @@ import {
   getLastFourDigits
 } from '@/utils/partsAnalytics';
 import VehicleTagBadges from '../vehicles/VehicleTagBadges';
+import TyreLifecycle from './TyreLifecycle';
 
 interface PartHealthDashboardProps {
   tasks: MaintenanceTask[];
@@ -358,6 +359,9 @@ const PartHealthDashboard: React.FC<PartHealthDashboardProps> = ({
           )}
         </div>
       </div>
+
+      {/* Per-tyre tracking by serial number */}
+      <TyreLifecycle vehicles={vehicles} />
     </div>
   );
 };
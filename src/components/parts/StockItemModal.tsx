@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Checkbox from '../ui/Checkbox';
+import { PartStockItem, PartStockItemFormData } from '@/types';
+import { createPartStockItems, updatePartStockItem } from '../../utils/api/partsInventory';
+import { getAllCategories } from '../../constants/fleetParts';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('StockItemModal');
+
+interface StockItemModalProps {
+  item?: PartStockItem;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const StockItemModal: React.FC<StockItemModalProps> = ({ item, onClose, onSaved }) => {
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    sku: item?.sku || '',
+    name: item?.name || '',
+    category: item?.category || '',
+    brand: item?.brand || '',
+    unit: item?.unit || 'pcs',
+    reorder_level: (item?.reorder_level ?? 2).toString(),
+    is_active: item?.is_active ?? true
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.sku.trim() || !form.name.trim() || !form.category.trim()) {
+      toast.error('SKU, name and category are required');
+      return;
+    }
+
+    const data: PartStockItemFormData = {
+      sku: form.sku,
+      fleet_part_id: item?.fleet_part_id || null,
+      name: form.name.trim(),
+      category: form.category.trim(),
+      brand: form.brand.trim() || null,
+      unit: form.unit.trim() || 'pcs',
+      reorder_level: Number(form.reorder_level) || 0,
+      is_active: form.is_active
+    };
+
+    setSaving(true);
+    try {
+      if (item) {
+        await updatePartStockItem(item.id, data);
+      } else {
+        await createPartStockItems([data]);
+      }
+      toast.success(`${data.name} saved`);
+      onSaved();
+    } catch (error) {
+      logger.error('Error saving stock item:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{item ? 'Edit Part' : 'Add Part'}</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="SKU"
+              value={form.sku}
+              onChange={(e) => setForm({ ...form, sku: e.target.value })}
+              disabled={!!item}
+              required
+            />
+            <Input
+              label="Brand"
+              value={form.brand}
+              onChange={(e) => setForm({ ...form, brand: e.target.value })}
+            />
+          </div>
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            required
+          />
+          <Input
+            label="Category"
+            list="stock-item-categories"
+            value={form.category}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+            required
+          />
+          <datalist id="stock-item-categories">
+            {getAllCategories().map(category => <option key={category} value={category} />)}
+          </datalist>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Unit"
+              placeholder="pcs, litres, sets"
+              value={form.unit}
+              onChange={(e) => setForm({ ...form, unit: e.target.value })}
+            />
+            <Input
+              type="number"
+              label="Reorder level"
+              min={0}
+              value={form.reorder_level}
+              onChange={(e) => setForm({ ...form, reorder_level: e.target.value })}
+              helperText="Alert when total stock falls to this"
+            />
+          </div>
+          <Checkbox
+            label="Active"
+            checked={form.is_active}
+            onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+          />
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={saving}>
+              Save Part
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockItemModal;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { PartStockItem, StockLevel, StockMovement, StockMovementInput, Warehouse } from '@/types';
+import { Vendor } from '../../utils/vendorStorage';
+import { recordStockMovement } from '../../utils/api/partsInventory';
+import { getAvailableQuantity, validateStockMovement } from '../../utils/partsInventory';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('StockMovementModal');
+
+interface StockMovementModalProps {
+  // Purchase receipt, or a stock count correction
+  type: 'receipt' | 'adjustment';
+  items: PartStockItem[];
+  warehouses: Warehouse[];
+  vendors: Vendor[];
+  levels: StockLevel[];
+  defaultItemId?: string;
+  onClose: () => void;
+  onSaved: (movement: StockMovement) => void;
+}
+
+const StockMovementModal: React.FC<StockMovementModalProps> = ({
+  type,
+  items,
+  warehouses,
+  vendors,
+  levels,
+  defaultItemId,
+  onClose,
+  onSaved
+}) => {
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    item_id: defaultItemId || '',
+    warehouse_id: warehouses.length === 1 ? warehouses[0].id : '',
+    quantity: '',
+    unit_cost: '',
+    vendor_id: '',
+    reference: '',
+    movement_date: new Date().toISOString().split('T')[0],
+    notes: ''
+  });
+
+  const available = form.item_id && form.warehouse_id
+    ? getAvailableQuantity(levels, form.item_id, form.warehouse_id)
+    : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const movement: StockMovementInput = {
+      item_id: form.item_id,
+      warehouse_id: form.warehouse_id,
+      movement_type: type,
+      quantity: Number(form.quantity),
+      unit_cost: form.unit_cost === '' ? null : Number(form.unit_cost),
+      movement_date: form.movement_date,
+      reference: form.reference.trim() || null,
+      vendor_id: form.vendor_id || null,
+      notes: form.notes.trim() || null
+    };
+
+    const validationError = validateStockMovement(movement, available);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const recorded = await recordStockMovement(movement);
+      toast.success(type === 'receipt' ? 'Stock received' : 'Stock adjusted');
+      onSaved(recorded);
+    } catch (error) {
+      logger.error('Error recording stock movement:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {type === 'receipt' ? 'Receive Stock' : 'Adjust Stock'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <Select
+            label="Part"
+            value={form.item_id}
+            onChange={(e) => setForm({ ...form, item_id: e.target.value })}
+            options={[
+              { value: '', label: 'Select part' },
+              ...items.filter(i => i.is_active).map(i => ({ value: i.id, label: `${i.sku} · ${i.name}` }))
+            ]}
+          />
+          <Select
+            label="Location"
+            value={form.warehouse_id}
+            onChange={(e) => setForm({ ...form, warehouse_id: e.target.value })}
+            options={[
+              { value: '', label: 'Select location' },
+              ...warehouses.map(w => ({ value: w.id, label: w.name }))
+            ]}
+          />
+          {form.item_id && form.warehouse_id && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{available} currently in stock here</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="number"
+              label={type === 'receipt' ? 'Quantity' : 'Change (+/-)'}
+              step="any"
+              min={type === 'receipt' ? 0 : undefined}
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              required
+            />
+            <Input
+              type="number"
+              label="Unit cost (₹)"
+              min={0}
+              step="0.01"
+              value={form.unit_cost}
+              onChange={(e) => setForm({ ...form, unit_cost: e.target.value })}
+              helperText={type === 'adjustment' ? 'Only for stock found' : undefined}
+              required={type === 'receipt'}
+            />
+          </div>
+
+          {type === 'receipt' && (
+            <div className="grid grid-cols-2 gap-3">
+              <Select
+                label="Vendor"
+                value={form.vendor_id}
+                onChange={(e) => setForm({ ...form, vendor_id: e.target.value })}
+                options={[
+                  { value: '', label: 'None' },
+                  ...vendors.map(v => ({ value: v.id, label: v.vendor_name }))
+                ]}
+              />
+              <Input
+                label="Bill number"
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+              />
+            </div>
+          )}
+
+          <Input
+            type="date"
+            label="Date"
+            value={form.movement_date}
+            onChange={(e) => setForm({ ...form, movement_date: e.target.value })}
+            required
+          />
+          <Input
+            label={type === 'adjustment' ? 'Reason' : 'Notes'}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            required={type === 'adjustment'}
+          />
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={saving}>
+              {type === 'receipt' ? 'Receive' : 'Adjust'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockMovementModal;
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { Tyre, TyreEventType, Vehicle } from '@/types';
+import { recordTyreEvent, rotateTyre } from '../../utils/api/tyres';
+import {
+  SPARE_POSITION,
+  TYRE_SCRAP_REASONS,
+  getTyrePositionLabel,
+  getVehicleTyrePositions,
+  validateTyreEvent
+} from '../../utils/tyreLifecycle';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TyreEventModal');
+
+const EVENT_TITLES: Record<TyreEventType, string> = {
+  fitted: 'Fit Tyre',
+  removed: 'Remove Tyre',
+  rotated: 'Rotate Tyre',
+  retreaded: 'Record Retread',
+  scrapped: 'Scrap Tyre'
+};
+
+interface TyreEventModalProps {
+  tyre: Tyre;
+  eventType: TyreEventType;
+  vehicles: Vehicle[];
+  tyres: Tyre[];
+  // Preselected when fitting from an empty position on the vehicle map
+  vehicleId?: string;
+  position?: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const TyreEventModal: React.FC<TyreEventModalProps> = ({
+  tyre,
+  eventType,
+  vehicles,
+  tyres,
+  vehicleId: initialVehicleId,
+  position: initialPosition,
+  onClose,
+  onSaved
+}) => {
+  const initialVehicle = vehicles.find(v => v.id === (initialVehicleId || tyre.vehicle_id));
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    event_date: format(new Date(), 'yyyy-MM-dd'),
+    vehicle_id: initialVehicle?.id || '',
+    to_position: initialPosition || '',
+    odometer: initialVehicle?.current_odometer?.toString() || '',
+    cost: '',
+    reason: eventType === 'scrapped' ? TYRE_SCRAP_REASONS[0] : '',
+    notes: ''
+  });
+
+  const vehicle = vehicles.find(v => v.id === form.vehicle_id);
+  const positions = vehicle ? [...getVehicleTyrePositions(vehicle.number_of_tyres), SPARE_POSITION] : [];
+  const occupant = tyres.find(t =>
+    t.id !== tyre.id && t.status === 'fitted' && t.vehicle_id === form.vehicle_id && t.position === form.to_position
+  );
+  const sizeMismatch = eventType === 'fitted' && vehicle?.tyre_size && tyre.size &&
+    vehicle.tyre_size.replace(/\s/g, '').toUpperCase() !== tyre.size.replace(/\s/g, '').toUpperCase();
+
+  const handleVehicleChange = (id: string) => {
+    const selected = vehicles.find(v => v.id === id);
+    setForm({ ...form, vehicle_id: id, to_position: '', odometer: selected?.current_odometer?.toString() || '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const event = {
+      event_type: eventType,
+      event_date: form.event_date,
+      vehicle_id: eventType === 'fitted' ? form.vehicle_id : tyre.vehicle_id,
+      to_position: form.to_position || null,
+      odometer: form.odometer ? Number(form.odometer) : null,
+      cost: form.cost ? Number(form.cost) : null,
+      reason: form.reason || null,
+      notes: form.notes || null
+    };
+
+    const validationError = validateTyreEvent(tyre, event, eventType === 'fitted' ? occupant : null);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (eventType === 'rotated') {
+        await rotateTyre(tyre, form.to_position, event);
+      } else {
+        await recordTyreEvent(tyre, event, occupant);
+      }
+      toast.success(`${EVENT_TITLES[eventType]}: ${tyre.serial_number} saved`);
+      onSaved();
+    } catch (error) {
+      logger.error('Error recording tyre event:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{EVENT_TITLES[eventType]}</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {tyre.serial_number} · {tyre.brand}{tyre.size ? ` · ${tyre.size}` : ''}
+              {tyre.position && ` · ${getTyrePositionLabel(tyre.position)}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <Input
+            type="date"
+            label="Date"
+            value={form.event_date}
+            onChange={(e) => setForm({ ...form, event_date: e.target.value })}
+            required
+          />
+
+          {eventType === 'fitted' && (
+            <Select
+              label="Vehicle"
+              value={form.vehicle_id}
+              onChange={(e) => handleVehicleChange(e.target.value)}
+              options={[
+                { value: '', label: 'Select vehicle' },
+                ...vehicles
+                  .filter(v => v.status !== 'archived')
+                  .map(v => ({ value: v.id, label: v.registration_number }))
+              ]}
+              required
+            />
+          )}
+
+          {(eventType === 'fitted' || eventType === 'rotated') && vehicle && (
+            <Select
+              label={eventType === 'rotated' ? 'Move to position' : 'Position'}
+              value={form.to_position}
+              onChange={(e) => setForm({ ...form, to_position: e.target.value })}
+              options={[
+                { value: '', label: 'Select position' },
+                ...positions
+                  .filter(p => p !== tyre.position)
+                  .map(p => {
+                    const fitted = tyres.find(t => t.status === 'fitted' && t.vehicle_id === vehicle.id && t.position === p);
+                    return { value: p, label: fitted ? `${getTyrePositionLabel(p)} (${fitted.serial_number})` : getTyrePositionLabel(p) };
+                  })
+              ]}
+              required
+            />
+          )}
+
+          {eventType === 'rotated' && occupant && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {occupant.serial_number} will move to {getTyrePositionLabel(tyre.position)}
+            </p>
+          )}
+
+          {sizeMismatch && (
+            <div className="flex items-start text-sm text-warning-700 bg-warning-50 rounded-md p-3">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>Vehicle takes {vehicle?.tyre_size}; this tyre is {tyre.size}</span>
+            </div>
+          )}
+
+          {eventType !== 'retreaded' && (eventType !== 'scrapped' || tyre.status === 'fitted') && (
+            <Input
+              type="number"
+              label="Odometer (km)"
+              min={0}
+              value={form.odometer}
+              onChange={(e) => setForm({ ...form, odometer: e.target.value })}
+              required={eventType !== 'rotated'}
+            />
+          )}
+
+          {eventType === 'retreaded' && (
+            <Input
+              type="number"
+              label="Retread cost (₹)"
+              min={0}
+              value={form.cost}
+              onChange={(e) => setForm({ ...form, cost: e.target.value })}
+            />
+          )}
+
+          {eventType === 'scrapped' && (
+            <Select
+              label="Scrap reason"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              options={TYRE_SCRAP_REASONS.map(reason => ({ value: reason, label: reason }))}
+            />
+          )}
+
+          {eventType === 'removed' && (
+            <Input
+              label="Reason"
+              placeholder="e.g. puncture, for retreading"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            />
+          )}
+
+          <Input
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={saving}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TyreEventModal;
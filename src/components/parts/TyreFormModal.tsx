@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { TYRE_BRANDS, TyreFormData } from '@/types';
+import { createTyre } from '../../utils/api/tyres';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TyreFormModal');
+
+interface TyreFormModalProps {
+  // Prefilled from the fleet's most common tyre size
+  defaultSize?: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const TyreFormModal: React.FC<TyreFormModalProps> = ({ defaultSize, onClose, onSaved }) => {
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    serial_number: '',
+    brand: TYRE_BRANDS[0],
+    model: '',
+    size: defaultSize || '',
+    purchase_date: '',
+    purchase_cost: '',
+    notes: ''
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.serial_number.trim()) {
+      toast.error('Serial number is required');
+      return;
+    }
+
+    const tyre: TyreFormData = {
+      serial_number: form.serial_number,
+      brand: form.brand,
+      model: form.model || null,
+      size: form.size || null,
+      purchase_date: form.purchase_date || null,
+      purchase_cost: Number(form.purchase_cost) || 0,
+      notes: form.notes || null
+    };
+
+    setSaving(true);
+    try {
+      await createTyre(tyre);
+      toast.success(`Tyre ${tyre.serial_number.toUpperCase()} added to stock`);
+      onSaved();
+    } catch (error) {
+      logger.error('Error creating tyre:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Add Tyre</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <Input
+            label="Serial number"
+            value={form.serial_number}
+            onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+            required
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Select
+              label="Brand"
+              value={form.brand}
+              onChange={(e) => setForm({ ...form, brand: e.target.value })}
+              options={TYRE_BRANDS.map(brand => ({ value: brand, label: brand }))}
+            />
+            <Input
+              label="Model"
+              value={form.model}
+              onChange={(e) => setForm({ ...form, model: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Size"
+              placeholder="e.g. 295/80 R22.5"
+              value={form.size}
+              onChange={(e) => setForm({ ...form, size: e.target.value })}
+            />
+            <Input
+              type="number"
+              label="Cost (₹)"
+              min={0}
+              value={form.purchase_cost}
+              onChange={(e) => setForm({ ...form, purchase_cost: e.target.value })}
+            />
+          </div>
+          <Input
+            type="date"
+            label="Purchase date"
+            value={form.purchase_date}
+            onChange={(e) => setForm({ ...form, purchase_date: e.target.value })}
+          />
+          <Input
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={saving}>
+              Add Tyre
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TyreFormModal;
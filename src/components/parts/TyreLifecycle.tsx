@@ -0,0 +1,374 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftRight, CircleDot, Loader, PlusCircle, RotateCcw, Trash2, Wrench } from 'lucide-react';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import TyreEventModal from './TyreEventModal';
+import TyreFormModal from './TyreFormModal';
+import { Tyre, TyreEvent, TyreEventType, Vehicle } from '@/types';
+import { getTyreEvents, getTyres } from '../../utils/api/tyres';
+import {
+  SPARE_POSITION,
+  compareTyreBrands,
+  getTyrePositionLabel,
+  getVehicleTyrePositions,
+  parseTyrePosition,
+  summarizeTyreLife
+} from '../../utils/tyreLifecycle';
+
+interface TyreLifecycleProps {
+  vehicles: Vehicle[];
+}
+
+interface EventModalState {
+  tyre: Tyre;
+  eventType: TyreEventType;
+  vehicleId?: string;
+  position?: string;
+}
+
+const EVENT_LABELS: Record<TyreEventType, string> = {
+  fitted: 'Fitted',
+  removed: 'Removed',
+  rotated: 'Rotated',
+  retreaded: 'Retreaded',
+  scrapped: 'Scrapped'
+};
+
+const formatCostPerKm = (value: number | null) => (value === null ? '—' : `₹${value.toFixed(2)}/km`);
+
+const TyreLifecycle: React.FC<TyreLifecycleProps> = ({ vehicles }) => {
+  const [tyres, setTyres] = useState<Tyre[]>([]);
+  const [events, setEvents] = useState<TyreEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedVehicleId, setSelectedVehicleId] = useState('');
+  const [selectedTyreId, setSelectedTyreId] = useState<string | null>(null);
+  const [showAddTyre, setShowAddTyre] = useState(false);
+  const [eventModal, setEventModal] = useState<EventModalState | null>(null);
+  const [fitPosition, setFitPosition] = useState<string | null>(null);
+
+  const loadTyres = async () => {
+    const [tyreData, eventData] = await Promise.all([getTyres(), getTyreEvents()]);
+    setTyres(tyreData);
+    setEvents(eventData);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadTyres();
+  }, []);
+
+  const odometers = useMemo(
+    () => Object.fromEntries(vehicles.map(v => [v.id, v.current_odometer || 0])),
+    [vehicles]
+  );
+
+  const lifeByTyre = useMemo(() => {
+    const eventsByTyre = new Map<string, TyreEvent[]>();
+    events.forEach(e => eventsByTyre.set(e.tyre_id, [...(eventsByTyre.get(e.tyre_id) || []), e]));
+    return new Map(tyres.map(t => [t.id, summarizeTyreLife(t, eventsByTyre.get(t.id) || [], odometers)]));
+  }, [tyres, events, odometers]);
+
+  const brandComparison = useMemo(() => compareTyreBrands(tyres, events, odometers), [tyres, events, odometers]);
+
+  const commonSize = useMemo(() => {
+    const counts = new Map<string, number>();
+    vehicles.forEach(v => v.tyre_size && counts.set(v.tyre_size, (counts.get(v.tyre_size) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  }, [vehicles]);
+
+  const selectedVehicle = vehicles.find(v => v.id === selectedVehicleId);
+  const stockTyres = tyres.filter(t => t.status === 'in_stock');
+  const selectedTyre = tyres.find(t => t.id === selectedTyreId);
+  const selectedTyreHistory = events.filter(e => e.tyre_id === selectedTyreId);
+
+  // Group a vehicle's positions by axle for the wheel map
+  const axles = useMemo(() => {
+    if (!selectedVehicle) return [];
+    const grouped = new Map<number, string[]>();
+    getVehicleTyrePositions(selectedVehicle.number_of_tyres).forEach(code => {
+      const axle = parseTyrePosition(code)!.axle;
+      grouped.set(axle, [...(grouped.get(axle) || []), code]);
+    });
+    return [...grouped.entries()];
+  }, [selectedVehicle]);
+
+  const fittedAt = (position: string) =>
+    tyres.find(t => t.status === 'fitted' && t.vehicle_id === selectedVehicleId && t.position === position);
+
+  const handleSaved = () => {
+    setEventModal(null);
+    setShowAddTyre(false);
+    loadTyres();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <Loader className="h-6 w-6 text-primary-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const renderPosition = (position: string) => {
+    const tyre = fittedAt(position);
+    const life = tyre ? lifeByTyre.get(tyre.id) : undefined;
+
+    return (
+      <div
+        key={position}
+        className={`rounded-lg border-2 p-2 text-xs min-w-[7rem] ${
+          tyre ? 'border-blue-200 bg-blue-50/50' : 'border-dashed border-gray-300'
+        }`}
+      >
+        <div className="text-gray-500 mb-1">{getTyrePositionLabel(position)}</div>
+        {tyre ? (
+          <>
+            <button
+              type="button"
+              onClick={() => setSelectedTyreId(tyre.id)}
+              className="font-mono font-semibold text-gray-900 hover:text-primary-600"
+            >
+              {tyre.serial_number}
+            </button>
+            <div className="text-gray-600">{tyre.brand}{tyre.retread_count > 0 && ` · R${tyre.retread_count}`}</div>
+            <div className="text-gray-600">{(life?.total_km || 0).toLocaleString()} km</div>
+            <div className="flex gap-1 mt-1">
+              <button
+                type="button"
+                title="Rotate"
+                onClick={() => setEventModal({ tyre, eventType: 'rotated' })}
+                className="p-1 rounded hover:bg-white text-gray-500 hover:text-primary-600"
+              >
+                <ArrowLeftRight className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                title="Remove"
+                onClick={() => setEventModal({ tyre, eventType: 'removed' })}
+                className="p-1 rounded hover:bg-white text-gray-500 hover:text-primary-600"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                title="Scrap"
+                onClick={() => setEventModal({ tyre, eventType: 'scrapped' })}
+                className="p-1 rounded hover:bg-white text-gray-500 hover:text-red-600"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </>
+        ) : fitPosition === position ? (
+          <select
+            autoFocus
+            className="w-full text-xs border border-gray-300 rounded px-1 py-1"
+            defaultValue=""
+            onBlur={() => setFitPosition(null)}
+            onChange={(e) => {
+              const stockTyre = stockTyres.find(t => t.id === e.target.value);
+              if (stockTyre) setEventModal({ tyre: stockTyre, eventType: 'fitted', vehicleId: selectedVehicleId, position });
+              setFitPosition(null);
+            }}
+          >
+            <option value="">Select tyre</option>
+            {stockTyres.map(t => (
+              <option key={t.id} value={t.id}>{t.serial_number} · {t.brand}</option>
+            ))}
+          </select>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setFitPosition(position)}
+            disabled={stockTyres.length === 0}
+            className="text-primary-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+          >
+            {stockTyres.length === 0 ? 'No tyres in stock' : 'Fit tyre'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-slate-50 to-gray-50 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <CircleDot className="h-5 w-5 text-gray-700" />
+            <h2 className="text-base font-semibold text-gray-900">Tyre Lifecycle</h2>
+          </div>
+          <p className="text-xs text-gray-600 mt-1">
+            {tyres.filter(t => t.status === 'fitted').length} fitted · {stockTyres.length} in stock · {tyres.filter(t => t.status === 'scrapped').length} scrapped
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setShowAddTyre(true)} icon={<PlusCircle className="h-4 w-4" />}>
+          Add Tyre
+        </Button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Brand comparison */}
+        {brandComparison.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Brand Comparison</h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Brand</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Tyres</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Avg km</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Avg km at Scrap</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Retreads</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500 uppercase">Cost / km</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {brandComparison.map((brand, index) => (
+                    <tr key={brand.brand}>
+                      <td className="px-3 py-2 font-medium text-gray-900">
+                        {brand.brand}
+                        {index === 0 && brand.cost_per_km !== null && brandComparison.length > 1 && (
+                          <span className="ml-2 px-1.5 py-0.5 bg-green-100 text-green-700 rounded">Best value</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">{brand.tyres}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">{brand.average_km.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {brand.average_scrapped_km === null ? '—' : `${brand.average_scrapped_km.toLocaleString()} (${brand.scrapped})`}
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-600">{brand.retreads}</td>
+                      <td className="px-3 py-2 text-right font-medium text-gray-900">{formatCostPerKm(brand.cost_per_km)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Wheel map */}
+        <div>
+          <div className="max-w-xs mb-3">
+            <Select
+              size="sm"
+              value={selectedVehicleId}
+              onChange={(e) => setSelectedVehicleId(e.target.value)}
+              options={[
+                { value: '', label: 'Select vehicle for wheel map' },
+                ...vehicles.map(v => ({ value: v.id, label: `${v.registration_number}${v.number_of_tyres ? ` (${v.number_of_tyres} tyres)` : ''}` }))
+              ]}
+            />
+          </div>
+
+          {selectedVehicle && (
+            <div className="space-y-3">
+              {axles.map(([axle, positions]) => (
+                <div key={axle} className="flex flex-wrap items-center gap-2">
+                  <span className="w-14 text-xs font-medium text-gray-500">Axle {axle}</span>
+                  {positions.map(renderPosition)}
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="w-14 text-xs font-medium text-gray-500">Spare</span>
+                {renderPosition(SPARE_POSITION)}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Stock */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">In Stock</h3>
+          {stockTyres.length === 0 ? (
+            <p className="text-xs text-gray-500">No tyres in stock</p>
+          ) : (
+            <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {stockTyres.map(tyre => (
+                <div key={tyre.id} className="flex flex-wrap items-center justify-between gap-2 p-3 text-xs">
+                  <button type="button" onClick={() => setSelectedTyreId(tyre.id)} className="text-left">
+                    <span className="font-mono font-semibold text-gray-900">{tyre.serial_number}</span>
+                    <span className="text-gray-600"> · {tyre.brand}{tyre.size ? ` · ${tyre.size}` : ''}</span>
+                    <span className="text-gray-500"> · {(lifeByTyre.get(tyre.id)?.total_km || 0).toLocaleString()} km</span>
+                    {tyre.retread_count > 0 && <span className="text-gray-500"> · retreaded {tyre.retread_count}×</span>}
+                  </button>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setEventModal({ tyre, eventType: 'fitted' })}>
+                      Fit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setEventModal({ tyre, eventType: 'retreaded' })}
+                      icon={<Wrench className="h-3.5 w-3.5" />}
+                    >
+                      Retread
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEventModal({ tyre, eventType: 'scrapped' })}>
+                      Scrap
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Selected tyre history */}
+        {selectedTyre && (
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h3 className="text-sm font-semibold text-gray-900">
+                {selectedTyre.serial_number} · {selectedTyre.brand}
+              </h3>
+              <span className="text-xs text-gray-600">
+                {(lifeByTyre.get(selectedTyre.id)?.total_km || 0).toLocaleString()} km ·{' '}
+                {formatCostPerKm(lifeByTyre.get(selectedTyre.id)?.cost_per_km ?? null)}
+              </span>
+            </div>
+            {selectedTyre.status === 'scrapped' && selectedTyre.scrap_reason && (
+              <p className="text-xs text-red-700 mb-2">Scrapped: {selectedTyre.scrap_reason}</p>
+            )}
+            {selectedTyreHistory.length === 0 ? (
+              <p className="text-xs text-gray-500">No history yet</p>
+            ) : (
+              <ul className="space-y-1 text-xs text-gray-700">
+                {selectedTyreHistory.map(event => (
+                  <li key={event.id}>
+                    <span className="text-gray-500">{format(parseISO(event.event_date), 'dd MMM yyyy')}</span>
+                    {' · '}{EVENT_LABELS[event.event_type]}
+                    {event.vehicle_id && ` · ${vehicles.find(v => v.id === event.vehicle_id)?.registration_number || 'Vehicle'}`}
+                    {event.event_type === 'rotated'
+                      ? ` · ${getTyrePositionLabel(event.from_position)} → ${getTyrePositionLabel(event.to_position)}`
+                      : event.to_position && ` · ${getTyrePositionLabel(event.to_position)}`}
+                    {event.odometer !== null && event.odometer !== undefined && ` · ${event.odometer.toLocaleString()} km`}
+                    {event.cost ? ` · ₹${event.cost.toLocaleString('en-IN')}` : ''}
+                    {event.reason && ` · ${event.reason}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showAddTyre && (
+        <TyreFormModal defaultSize={commonSize} onClose={() => setShowAddTyre(false)} onSaved={handleSaved} />
+      )}
+
+      {eventModal && (
+        <TyreEventModal
+          {...eventModal}
+          vehicles={vehicles}
+          tyres={tyres}
+          onClose={() => setEventModal(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TyreLifecycle;
@@ -5,42 +5,46 @@ import Input from '../ui/Input';
 import Select from '../ui/Select';
 import { format } from 'date-fns';
 import { toast } from 'react-toastify';
-import { supabase } from '../../utils/supabaseClient';
+import { ContractRate, Warehouse, Destination } from '../../types';
+import {
+  getContractRates,
+  createContractRate,
+  updateContractRate,
+  deleteContractRate,
+  getLegacyContractRates,
+  importLegacyContractRates,
+  discardLegacyContractRates
+} from '../../utils/api/contractRates';
+import { getWarehouses, getDestinations } from '../../utils/storage';
 import { createLogger } from '../../utils/logger';
 
 const logger = createLogger('ContractRatesManager');
 
-interface ContractRate {
-  id?: string;
-  customer_id: string;
-  customer_name?: string;
-  route?: string;
-  vehicle_type?: string;
-  rate_type: 'per_km' | 'per_ton' | 'per_trip';
-  rate: number;
-  valid_from: string;
-  valid_to?: string;
-  min_guarantee?: number;
-  fuel_adjustment?: boolean;
-  notes?: string;
-  created_at?: string;
-  updated_at?: string;
-}
+const VEHICLE_TYPE_OPTIONS = [
+  { value: '', label: 'Any Vehicle Type' },
+  { value: 'truck', label: 'Truck' },
+  { value: 'tempo', label: 'Tempo' },
+  { value: 'trailer', label: 'Trailer' },
+  { value: 'pickup', label: 'Pickup' },
+  { value: 'van', label: 'Van' }
+];
 
 interface ContractRatesManagerProps {
   isOpen: boolean;
   onClose: () => void;
-  customers: Array<{ id: string; name: string }>;
+  customers?: Array<{ id: string; name: string }>;
   onRateCreated?: (rate: ContractRate) => void;
 }
 
 const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
   isOpen,
   onClose,
-  customers,
+  customers = [],
   onRateCreated
 }) => {
   const [contracts, setContracts] = useState<ContractRate[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [destinations, setDestinations] = useState<Destination[]>([]);
   const [loading, setLoading] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState<Partial<ContractRate>>({
@@ -48,16 +52,21 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
     fuel_adjustment: false
   });
   const [showForm, setShowForm] = useState(false);
+  const [legacyCount, setLegacyCount] = useState(0);
+  const [importingLegacy, setImportingLegacy] = useState(false);
 
-  // Fetch existing contracts
+  // Fetch existing contracts along with the locations used for route matching
   const fetchContracts = async () => {
     try {
       setLoading(true);
-      // For now, store in local storage as contract_rates table doesn't exist yet
-      const stored = localStorage.getItem('contract_rates');
-      if (stored) {
-        setContracts(JSON.parse(stored));
-      }
+      const [contractsData, warehousesData, destinationsData] = await Promise.all([
+        getContractRates(),
+        getWarehouses(),
+        getDestinations()
+      ]);
+      setContracts(contractsData);
+      setWarehouses(warehousesData || []);
+      setDestinations(destinationsData || []);
     } catch (error) {
       logger.error('Error fetching contracts:', error);
       toast.error('Failed to load contract rates');
@@ -69,35 +78,59 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
   useEffect(() => {
     if (isOpen) {
       fetchContracts();
+      setLegacyCount(getLegacyContractRates().length);
     }
   }, [isOpen]);
 
+  // Contracts saved in this browser before contract rates moved to the database
+  const handleImportLegacy = async () => {
+    setImportingLegacy(true);
+    try {
+      const imported = await importLegacyContractRates();
+      const remaining = getLegacyContractRates().length;
+      setContracts(prev => [...imported, ...prev]);
+      setLegacyCount(remaining);
+      if (remaining > 0) {
+        toast.warning(`Imported ${imported.length} contracts; ${remaining} could not be saved`);
+      } else {
+        toast.success(`Imported ${imported.length} contracts`);
+      }
+    } finally {
+      setImportingLegacy(false);
+    }
+  };
+
+  const handleDiscardLegacy = () => {
+    if (!confirm('Discard the contracts saved in this browser? They will not be imported.')) return;
+    discardLegacyContractRates();
+    setLegacyCount(0);
+  };
+
   const handleSave = async () => {
     try {
-      if (!formData.customer_id || !formData.rate || !formData.valid_from) {
+      const customer = customers.find(c => c.id === formData.customer_id);
+      const customerName = customer?.name || formData.customer_name?.trim();
+
+      if (!customerName || !formData.rate || !formData.valid_from) {
         toast.error('Please fill all required fields');
         return;
       }
 
-      const customer = customers.find(c => c.id === formData.customer_id);
-      const newContract: ContractRate = {
-        ...formData as ContractRate,
-        id: editingId || `contract_${Date.now()}`,
-        customer_name: customer?.name,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-
-      let updatedContracts: ContractRate[];
-      if (editingId) {
-        updatedContracts = contracts.map(c => c.id === editingId ? newContract : c);
-      } else {
-        updatedContracts = [...contracts, newContract];
+      if (formData.fuel_adjustment && (!formData.base_fuel_price || !formData.fuel_cost_share)) {
+        toast.error('Enter the base diesel price and fuel share for the adjustment clause');
+        return;
       }
 
-      // Save to local storage for now
-      localStorage.setItem('contract_rates', JSON.stringify(updatedContracts));
-      setContracts(updatedContracts);
+      const { id, organization_id, created_by, created_at, updated_at, ...rateData } = formData as ContractRate;
+      const payload = { ...rateData, customer_name: customerName };
+
+      const newContract = editingId
+        ? await updateContractRate(editingId, payload)
+        : await createContractRate(payload);
+
+      setContracts(editingId
+        ? contracts.map(c => c.id === editingId ? newContract : c)
+        : [newContract, ...contracts]);
 
       if (onRateCreated) {
         onRateCreated(newContract);
@@ -125,9 +158,9 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
     if (!confirm('Are you sure you want to delete this contract?')) return;
 
     try {
-      const updatedContracts = contracts.filter(c => c.id !== id);
-      localStorage.setItem('contract_rates', JSON.stringify(updatedContracts));
-      setContracts(updatedContracts);
+      const deleted = await deleteContractRate(id);
+      if (!deleted) return;
+      setContracts(contracts.filter(c => c.id !== id));
       toast.success('Contract deleted successfully');
     } catch (error) {
       logger.error('Error deleting contract:', error);
@@ -158,6 +191,23 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-80px)]">
+          {legacyCount > 0 && (
+            <div className="mb-6 rounded-lg border border-warning-200 dark:border-warning-800 bg-warning-50 dark:bg-warning-900/20 p-4">
+              <p className="text-sm text-warning-800 dark:text-warning-300">
+                {legacyCount} contract{legacyCount === 1 ? ' was' : 's were'} saved in this browser before contracts
+                moved to your organization's records and will not be used for trip pricing until imported.
+              </p>
+              <div className="mt-3 flex gap-2">
+                <Button size="sm" onClick={handleImportLegacy} isLoading={importingLegacy}>
+                  Import {legacyCount} Saved Contract{legacyCount === 1 ? '' : 's'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleDiscardLegacy} disabled={importingLegacy}>
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Add New Contract Button */}
           {!showForm && (
             <div className="mb-6">
@@ -182,14 +232,23 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Customer *
                   </label>
-                  <Select
-                    value={formData.customer_id || ''}
-                    onChange={(e) => setFormData({ ...formData, customer_id: e.target.value })}
-                    options={[
-                      { value: '', label: 'Select Customer' },
-                      ...customers.map(c => ({ value: c.id, label: c.name }))
-                    ]}
-                  />
+                  {customers.length > 0 ? (
+                    <Select
+                      value={formData.customer_id || ''}
+                      onChange={(e) => setFormData({ ...formData, customer_id: e.target.value })}
+                      options={[
+                        { value: '', label: 'Select Customer' },
+                        ...customers.map(c => ({ value: c.id, label: c.name }))
+                      ]}
+                    />
+                  ) : (
+                    <Input
+                      type="text"
+                      value={formData.customer_name || ''}
+                      onChange={(e) => setFormData({ ...formData, customer_name: e.target.value })}
+                      placeholder="Customer name"
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -221,7 +280,7 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Route (Optional)
+                    Route Label (Optional)
                   </label>
                   <Input
                     type="text"
@@ -231,6 +290,34 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Loading Warehouse
+                  </label>
+                  <Select
+                    value={formData.warehouse_id || ''}
+                    onChange={(e) => setFormData({ ...formData, warehouse_id: e.target.value })}
+                    options={[
+                      { value: '', label: 'Any Warehouse' },
+                      ...warehouses.map(w => ({ value: w.id, label: w.name }))
+                    ]}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Destination
+                  </label>
+                  <Select
+                    value={formData.destination_id || ''}
+                    onChange={(e) => setFormData({ ...formData, destination_id: e.target.value })}
+                    options={[
+                      { value: '', label: 'Any Destination' },
+                      ...destinations.map(d => ({ value: d.id, label: d.name }))
+                    ]}
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Valid From *
@@ -269,11 +356,10 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Vehicle Type
                   </label>
-                  <Input
-                    type="text"
+                  <Select
                     value={formData.vehicle_type || ''}
                     onChange={(e) => setFormData({ ...formData, vehicle_type: e.target.value })}
-                    placeholder="e.g., 32 Feet, 20 Ton"
+                    options={VEHICLE_TYPE_OPTIONS}
                   />
                 </div>
 
@@ -291,6 +377,34 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
                   </label>
                 </div>
 
+                {formData.fuel_adjustment && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Base Diesel Price (₹/L) *
+                      </label>
+                      <Input
+                        type="number"
+                        value={formData.base_fuel_price || ''}
+                        onChange={(e) => setFormData({ ...formData, base_fuel_price: parseFloat(e.target.value) || undefined })}
+                        placeholder="Price the rate was agreed at"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Fuel Share of Rate (%) *
+                      </label>
+                      <Input
+                        type="number"
+                        value={formData.fuel_cost_share || ''}
+                        onChange={(e) => setFormData({ ...formData, fuel_cost_share: parseFloat(e.target.value) || undefined })}
+                        placeholder="e.g., 40"
+                      />
+                    </div>
+                  </>
+                )}
+
                 <div className="md:col-span-2">
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Notes
@@ -332,7 +446,11 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
               Active Contracts ({contracts.length})
             </h3>
             
-            {contracts.length === 0 ? (
+            {loading ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                Loading contracts...
+              </div>
+            ) : contracts.length === 0 ? (
               <div className="text-center py-8 text-gray-500 dark:text-gray-400">
                 No contracts found. Create your first contract to get started.
               </div>
@@ -369,6 +487,22 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
                               ₹{contract.rate}
                             </span>
                           </div>
+                          {contract.vehicle_type && (
+                            <div>
+                              <span className="text-gray-500 dark:text-gray-400">Vehicle:</span>
+                              <span className="ml-1 font-medium text-gray-900 dark:text-gray-100 capitalize">
+                                {contract.vehicle_type}
+                              </span>
+                            </div>
+                          )}
+                          {contract.min_guarantee && (
+                            <div>
+                              <span className="text-gray-500 dark:text-gray-400">Min:</span>
+                              <span className="ml-1 font-medium text-gray-900 dark:text-gray-100">
+                                ₹{contract.min_guarantee}
+                              </span>
+                            </div>
+                          )}
                           {contract.route && (
                             <div>
                               <span className="text-gray-500 dark:text-gray-400">Route:</span>
@@ -403,7 +537,7 @@ const ContractRatesManager: React.FC<ContractRatesManagerProps> = ({
                         <Button
                           variant="outline"
                           inputSize="sm"
-                          onClick={() => handleDelete(contract.id!)}
+                          onClick={() => handleDelete(contract.id)}
                           icon={<Trash2 className="h-3 w-3" />}
                           className="text-red-600 hover:text-red-700"
                         />
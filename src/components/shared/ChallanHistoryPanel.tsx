@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, FileWarning, IndianRupee, RefreshCw } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Checkbox from '../ui/Checkbox';
+import { Vehicle, VehicleChallan } from '@/types';
+import { getDriverChallans, getVehicleChallans, recordChallanPayment } from '../../utils/api/challans';
+import {
+  CHALLAN_PAYMENT_STATUS_LABELS,
+  REPEAT_OFFENDER_WINDOW_MONTHS,
+  getChallanOutstanding,
+  getRepeatOffenders
+} from '../../utils/challans';
+import { useChallanInfo } from '../../hooks/useChallanInfo';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('ChallanHistoryPanel');
+
+interface ChallanHistoryPanelProps {
+  vehicle?: Vehicle; // Vehicle page: challans on this vehicle, with a live lookup
+  driverId?: string; // Driver page: challans attributed to this driver
+}
+
+const formatCurrency = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const STATUS_CLASSES: Record<VehicleChallan['payment_status'], string> = {
+  unpaid: 'bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300',
+  partially_paid: 'bg-warning-100 text-warning-800 dark:bg-warning-900/30 dark:text-warning-300',
+  paid: 'bg-success-100 text-success-800 dark:bg-success-900/30 dark:text-success-300'
+};
+
+const ChallanHistoryPanel: React.FC<ChallanHistoryPanelProps> = ({ vehicle, driverId }) => {
+  const [challans, setChallans] = useState<VehicleChallan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unpaidOnly, setUnpaidOnly] = useState(false);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [savingPayment, setSavingPayment] = useState(false);
+  const { fetchChallanInfo, loading: checking } = useChallanInfo();
+
+  const vehicleId = vehicle?.id;
+
+  const loadChallans = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (vehicleId) {
+        setChallans(await getVehicleChallans(vehicleId));
+      } else if (driverId) {
+        setChallans(await getDriverChallans(driverId));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId, driverId]);
+
+  useEffect(() => {
+    loadChallans();
+  }, [loadChallans]);
+
+  const unpaid = challans.filter(c => c.payment_status !== 'paid');
+  const outstanding = unpaid.reduce((sum, c) => sum + getChallanOutstanding(c), 0);
+  const offenders = useMemo(() => getRepeatOffenders(challans), [challans]);
+  const visible = unpaidOnly ? unpaid : challans;
+
+  const handleCheckNow = async () => {
+    if (!vehicle) return;
+    const result = await fetchChallanInfo(
+      vehicle.registration_number,
+      vehicle.chassis_number || '',
+      vehicle.engine_number || ''
+    );
+    if (result) {
+      loadChallans();
+    }
+  };
+
+  const startPayment = (challan: VehicleChallan) => {
+    setPayingId(challan.id);
+    setPaymentAmount(String(getChallanOutstanding(challan) || ''));
+    setPaymentReference('');
+  };
+
+  const handleRecordPayment = async (challan: VehicleChallan) => {
+    const amount = Number(paymentAmount);
+    if (!amount || amount <= 0) {
+      toast.error('Enter a valid amount');
+      return;
+    }
+    if (amount > getChallanOutstanding(challan)) {
+      toast.error(`Only ${formatCurrency(getChallanOutstanding(challan))} is outstanding on ${challan.challan_no}`);
+      return;
+    }
+
+    setSavingPayment(true);
+    try {
+      const updated = await recordChallanPayment(challan, amount, paymentReference);
+      setChallans(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+      setPayingId(null);
+      toast.success(`Payment recorded for ${challan.challan_no}`);
+    } catch (error) {
+      logger.error('Error recording challan payment:', error);
+      toast.error('Failed to record payment');
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  const driverOffender = driverId ? offenders.find(o => o.driver_id === driverId) : undefined;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 flex items-center">
+          <FileWarning className="h-5 w-5 mr-2 text-primary-500" />
+          Traffic Challans
+        </h3>
+        <div className="flex items-center gap-3">
+          <Checkbox
+            label="Unpaid only"
+            checked={unpaidOnly}
+            onChange={(e) => setUnpaidOnly(e.target.checked)}
+          />
+          {vehicle && (
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<RefreshCw className="h-4 w-4" />}
+              onClick={handleCheckNow}
+              isLoading={checking}
+            >
+              Check Now
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Total</p>
+          <p className="text-xl font-semibold text-gray-900 dark:text-gray-100">{challans.length}</p>
+        </div>
+        <div className="bg-error-50 dark:bg-error-900/20 rounded-lg p-3">
+          <p className="text-xs text-error-600 dark:text-error-400">Unpaid</p>
+          <p className="text-xl font-semibold text-error-700 dark:text-error-300">{unpaid.length}</p>
+        </div>
+        <div className="bg-error-50 dark:bg-error-900/20 rounded-lg p-3">
+          <p className="text-xs text-error-600 dark:text-error-400">Outstanding</p>
+          <p className="text-xl font-semibold text-error-700 dark:text-error-300">{formatCurrency(outstanding)}</p>
+        </div>
+      </div>
+
+      {driverOffender && (
+        <div className="mb-4 flex items-start gap-2 rounded-lg bg-warning-50 dark:bg-warning-900/20 p-3 text-sm text-warning-800 dark:text-warning-300">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            Repeat offender: {driverOffender.challan_count} challans in the last {REPEAT_OFFENDER_WINDOW_MONTHS} months
+            {driverOffender.top_offence && <>, most often “{driverOffender.top_offence}”</>}
+          </span>
+        </div>
+      )}
+
+      {vehicle && offenders.length > 0 && (
+        <div className="mb-4 rounded-lg border border-warning-200 dark:border-warning-800 p-3">
+          <p className="text-sm font-medium text-warning-800 dark:text-warning-300 mb-2 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Repeat offenders on this vehicle
+          </p>
+          <ul className="space-y-1 text-sm">
+            {offenders.map(offender => {
+              const name = challans.find(c => c.driver_id === offender.driver_id)?.driver?.name || 'Unknown driver';
+              return (
+                <li key={offender.driver_id} className="flex justify-between text-gray-700 dark:text-gray-300">
+                  <span>{name} · {offender.challan_count} challans{offender.top_offence ? ` · ${offender.top_offence}` : ''}</span>
+                  {offender.unpaid_amount > 0 && (
+                    <span className="text-error-600 dark:text-error-400">{formatCurrency(offender.unpaid_amount)} unpaid</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading challans...</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {challans.length === 0 ? 'No challans recorded' : 'No unpaid challans'}
+        </p>
+      ) : (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+          {visible.map(challan => (
+            <div key={challan.id} className="px-4 py-3 text-sm">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">
+                    {challan.challan_no}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[challan.payment_status]}`}>
+                      {CHALLAN_PAYMENT_STATUS_LABELS[challan.payment_status]}
+                    </span>
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">{challan.offence || 'Offence not reported'}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {[
+                      challan.challan_date ? format(parseISO(challan.challan_date), 'dd MMM yyyy, HH:mm') : 'Date unknown',
+                      [challan.area, challan.state].filter(Boolean).join(', '),
+                      vehicle
+                        ? (challan.driver?.name
+                          ? `${challan.driver.name}${challan.attribution === 'primary_driver' ? ' (assigned driver)' : ''}`
+                          : 'Driver not identified')
+                        : challan.registration_number,
+                      challan.trip?.trip_serial_number ? `Trip ${challan.trip.trip_serial_number}` : ''
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-gray-900 dark:text-gray-100 flex items-center justify-end">
+                    <IndianRupee className="h-3.5 w-3.5" />
+                    {challan.amount.toLocaleString('en-IN')}
+                  </p>
+                  {challan.payment_status === 'partially_paid' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatCurrency(challan.amount_paid)} paid
+                    </p>
+                  )}
+                  {challan.payment_status !== 'paid' && payingId !== challan.id && (
+                    <button
+                      type="button"
+                      onClick={() => startPayment(challan)}
+                      className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                    >
+                      Record payment
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {payingId === challan.id && (
+                <div className="mt-3 flex flex-wrap items-end gap-3">
+                  <div className="w-32">
+                    <Input
+                      label="Amount"
+                      type="number"
+                      min={0}
+                      inputSize="sm"
+                      value={paymentAmount}
+                      onChange={(e) => setPaymentAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex-1 min-w-[10rem]">
+                    <Input
+                      label="Reference"
+                      inputSize="sm"
+                      value={paymentReference}
+                      onChange={(e) => setPaymentReference(e.target.value)}
+                    />
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setPayingId(null)} disabled={savingPayment}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={() => handleRecordPayment(challan)} isLoading={savingPayment}>
+                    Save
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChallanHistoryPanel;
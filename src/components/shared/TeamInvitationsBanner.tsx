@@ -0,0 +1,70 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { Check, Mail } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import { OrganizationContext } from '@/contexts/OrganizationContext';
+import { PendingTeamInvitation } from '../../types';
+import { acceptTeamInvitation, getMyInvitations } from '../../utils/api/team';
+import { getRoleLabel } from '../../utils/teamAccess';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TeamInvitationsBanner');
+
+/**
+ * Invitations to another organization for someone who already had an
+ * account. They only join once they accept here.
+ */
+const TeamInvitationsBanner: React.FC = () => {
+  const organizationContext = useContext(OrganizationContext);
+  const [invitations, setInvitations] = useState<PendingTeamInvitation[]>([]);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMyInvitations()
+      .then(setInvitations)
+      .catch(error => logger.error('Error loading invitations:', error));
+  }, []);
+
+  const handleAccept = async (invitation: PendingTeamInvitation) => {
+    setAcceptingId(invitation.id);
+    try {
+      const organizationId = await acceptTeamInvitation(invitation.id);
+      toast.success(`You joined ${invitation.organization_name}`);
+      await organizationContext?.setCurrentOrganization(organizationId);
+      // Organizations and permissions are loaded once per page load
+      window.location.reload();
+    } catch (error) {
+      logger.error('Error accepting invitation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to accept the invitation');
+      setAcceptingId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      {invitations.map(invitation => (
+        <div
+          key={invitation.id}
+          className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-primary-900/20 px-4 py-3 text-sm"
+        >
+          <p className="flex items-center text-primary-800 dark:text-primary-300">
+            <Mail className="h-4 w-4 mr-2" />
+            You have been invited to {invitation.organization_name} as {getRoleLabel(invitation.role)}
+          </p>
+          <Button
+            size="sm"
+            onClick={() => handleAccept(invitation)}
+            isLoading={acceptingId === invitation.id}
+            icon={<Check className="h-4 w-4" />}
+          >
+            Accept
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TeamInvitationsBanner;
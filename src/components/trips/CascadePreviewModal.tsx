@@ -12,6 +12,7 @@ interface CascadePreviewModalProps {
     new_start_km: number;
   }>;
   loading: boolean;
+  applyLabel?: string;
 }
 
 export const CascadePreviewModal: React.FC<CascadePreviewModalProps> = ({
@@ -19,7 +20,8 @@ export const CascadePreviewModal: React.FC<CascadePreviewModalProps> = ({
   onClose,
   onApply,
   affectedTrips,
-  loading
+  loading,
+  applyLabel = 'Apply Corrections'
 }) => {
   if (!isOpen) return null;
 
@@ -94,7 +96,7 @@ export const CascadePreviewModal: React.FC<CascadePreviewModalProps> = ({
             disabled={loading || affectedTrips.length === 0}
             className="bg-blue-600 hover:bg-blue-700 text-white"
           >
-            {loading ? 'Applying...' : 'Apply Corrections'}
+            {loading ? 'Applying...' : applyLabel}
           </Button>
         </div>
       </div>
@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { ConsignmentNote, ConsignmentNoteFormData, Customer, Trip, Warehouse } from '../../types';
+import { createConsignmentNote } from '../../utils/api/consignmentNotes';
+import { GST_STATE_CODES, getGSTINStateCode, validateGSTIN } from '../../utils/indianValidation';
+import { getGSTStateCodeByName } from '../../utils/gstInvoice';
+import { CONSIGNMENT_FREIGHT_BASIS_LABELS, CONSIGNMENT_PACKAGE_TYPES } from '../../utils/ewayBill';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('ConsignmentNoteModal');
+
+interface ConsignmentNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trip: Trip;
+  warehouse: Warehouse | null;
+  materialNames: string[];
+  customers: Customer[];
+  onCreated: (note: ConsignmentNote) => void;
+}
+
+const STATE_OPTIONS = [
+  { value: '', label: 'Select state' },
+  ...Object.entries(GST_STATE_CODES).map(([code, name]) => ({ value: code, label: `${name} (${code})` }))
+];
+
+const getCustomerStateCode = (customer?: Customer) =>
+  getGSTINStateCode(customer?.gstin) || getGSTStateCodeByName(customer?.state) || '';
+
+const getCustomerAddress = (customer?: Customer) =>
+  [customer?.billing_address, customer?.city].filter(Boolean).join(', ');
+
+const buildInitialForm = (
+  trip: Trip,
+  warehouse: Warehouse | null,
+  materialNames: string[],
+  customers: Customer[]
+): ConsignmentNoteFormData => {
+  // The billed customer usually books the load from our warehouse
+  const customer = customers.find(c => c.id === trip.customer_id);
+
+  return {
+    trip_id: trip.id,
+    lr_date: (trip.trip_start_date || '').slice(0, 10),
+    consignor_name: customer?.name || '',
+    consignor_gstin: customer?.gstin || '',
+    consignor_address: getCustomerAddress(customer),
+    consignor_pincode: warehouse?.pincode || customer?.pincode || '',
+    consignor_state_code: getCustomerStateCode(customer),
+    consignee_name: '',
+    consignee_gstin: '',
+    consignee_address: '',
+    consignee_pincode: '',
+    consignee_state_code: '',
+    invoice_number: '',
+    invoice_date: (trip.trip_start_date || '').slice(0, 10),
+    invoice_value: 0,
+    package_count: 1,
+    package_type: 'Loose',
+    material_description: materialNames.join(', '),
+    hsn_code: '',
+    actual_weight: trip.gross_weight || null,
+    freight_amount: trip.income_amount ?? null,
+    freight_basis: 'to_be_billed',
+    remarks: ''
+  };
+};
+
+const ConsignmentNoteModal: React.FC<ConsignmentNoteModalProps> = ({
+  isOpen,
+  onClose,
+  trip,
+  warehouse,
+  materialNames,
+  customers,
+  onCreated
+}) => {
+  const [form, setForm] = useState<ConsignmentNoteFormData>(() =>
+    buildInitialForm(trip, warehouse, materialNames, customers)
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(buildInitialForm(trip, warehouse, materialNames, customers));
+    }
+  }, [isOpen, trip, warehouse, materialNames, customers]);
+
+  const update = <K extends keyof ConsignmentNoteFormData>(field: K, value: ConsignmentNoteFormData[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const fillParty = (party: 'consignor' | 'consignee', customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) return;
+    setForm(prev => ({
+      ...prev,
+      [`${party}_name`]: customer.name,
+      [`${party}_gstin`]: customer.gstin || '',
+      [`${party}_address`]: getCustomerAddress(customer),
+      [`${party}_pincode`]: party === 'consignor' ? prev.consignor_pincode || customer.pincode || '' : customer.pincode || '',
+      [`${party}_state_code`]: getCustomerStateCode(customer)
+    }));
+  };
+
+  const handleGstinChange = (party: 'consignor' | 'consignee', gstin: string) => {
+    const stateCode = getGSTINStateCode(gstin);
+    setForm(prev => ({
+      ...prev,
+      [`${party}_gstin`]: gstin.toUpperCase(),
+      ...(stateCode ? { [`${party}_state_code`]: stateCode } : {})
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.consignor_name.trim() || !form.consignee_name.trim()) {
+      toast.error('Enter consignor and consignee');
+      return;
+    }
+    if (!form.material_description.trim()) {
+      toast.error('Describe the goods carried');
+      return;
+    }
+    for (const gstin of [form.consignor_gstin, form.consignee_gstin]) {
+      if (gstin && !validateGSTIN(gstin)) {
+        toast.error(`Invalid GSTIN: ${gstin}`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const note = await createConsignmentNote({
+        ...form,
+        invoice_number: form.invoice_number || null,
+        invoice_date: form.invoice_date || null,
+        hsn_code: form.hsn_code || null,
+        remarks: form.remarks || null
+      });
+      toast.success(`Consignment note ${note.lr_number} created`);
+      onCreated(note);
+    } catch (error) {
+      logger.error('Error creating consignment note:', error);
+      toast.error('Failed to create consignment note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const customerOptions = [
+    { value: '', label: 'Fill from customer…' },
+    ...customers.map(c => ({ value: c.id, label: c.name }))
+  ];
+
+  const renderParty = (party: 'consignor' | 'consignee', title: string) => (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{title}</h3>
+        {customers.length > 0 && (
+          <div className="w-48">
+            <Select
+              value=""
+              onChange={(e) => fillParty(party, e.target.value)}
+              options={customerOptions}
+            />
+          </div>
+        )}
+      </div>
+      <Input
+        label="Name"
+        required
+        value={form[`${party}_name`] || ''}
+        onChange={(e) => update(`${party}_name`, e.target.value)}
+      />
+      <Input
+        label="GSTIN"
+        value={form[`${party}_gstin`] || ''}
+        onChange={(e) => handleGstinChange(party, e.target.value)}
+      />
+      <Input
+        label="Address"
+        value={form[`${party}_address`] || ''}
+        onChange={(e) => update(`${party}_address`, e.target.value)}
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          label="Pincode"
+          maxLength={6}
+          value={form[`${party}_pincode`] || ''}
+          onChange={(e) => update(`${party}_pincode`, e.target.value.replace(/\D/g, ''))}
+        />
+        <Select
+          label="State"
+          value={form[`${party}_state_code`] || ''}
+          onChange={(e) => update(`${party}_state_code`, e.target.value)}
+          options={STATE_OPTIONS}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <FileText className="h-6 w-6 text-primary-600 dark:text-primary-400 mr-3" />
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">New Consignment Note</h2>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClose}
+              icon={<X className="h-4 w-4" />}
+            />
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-160px)] space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="LR Date"
+              type="date"
+              value={form.lr_date}
+              onChange={(e) => update('lr_date', e.target.value)}
+            />
+            <Select
+              label="Freight"
+              value={form.freight_basis}
+              onChange={(e) => update('freight_basis', e.target.value as ConsignmentNoteFormData['freight_basis'])}
+              options={Object.entries(CONSIGNMENT_FREIGHT_BASIS_LABELS).map(([value, label]) => ({ value, label }))}
+            />
+            <Input
+              label="Freight Amount (₹)"
+              type="number"
+              min={0}
+              value={form.freight_amount ?? ''}
+              onChange={(e) => update('freight_amount', e.target.value === '' ? null : Number(e.target.value))}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderParty('consignor', 'Consignor')}
+            {renderParty('consignee', 'Consignee')}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Goods</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="Invoice No."
+                value={form.invoice_number || ''}
+                onChange={(e) => update('invoice_number', e.target.value)}
+              />
+              <Input
+                label="Invoice Date"
+                type="date"
+                value={form.invoice_date || ''}
+                onChange={(e) => update('invoice_date', e.target.value)}
+              />
+              <Input
+                label="Invoice Value (₹)"
+                type="number"
+                min={0}
+                value={form.invoice_value || ''}
+                onChange={(e) => update('invoice_value', Number(e.target.value) || 0)}
+              />
+              <Input
+                label="Material"
+                required
+                value={form.material_description}
+                onChange={(e) => update('material_description', e.target.value)}
+              />
+              <Input
+                label="HSN Code"
+                maxLength={8}
+                value={form.hsn_code || ''}
+                onChange={(e) => update('hsn_code', e.target.value.replace(/\D/g, ''))}
+              />
+              <Input
+                label="Actual Weight (kg)"
+                type="number"
+                min={0}
+                value={form.actual_weight ?? ''}
+                onChange={(e) => update('actual_weight', e.target.value === '' ? null : Number(e.target.value))}
+              />
+              <Input
+                label="Packages"
+                type="number"
+                min={0}
+                value={form.package_count}
+                onChange={(e) => update('package_count', Number(e.target.value) || 0)}
+              />
+              <Select
+                label="Packing"
+                value={form.package_type}
+                onChange={(e) => update('package_type', e.target.value)}
+                options={CONSIGNMENT_PACKAGE_TYPES.map(type => ({ value: type, label: type }))}
+              />
+              <Input
+                label="Remarks"
+                value={form.remarks || ''}
+                onChange={(e) => update('remarks', e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} isLoading={saving}>
+            Create LR
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsignmentNoteModal;
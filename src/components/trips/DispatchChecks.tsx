@@ -0,0 +1,39 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { DispatchCheck } from '@/types';
+
+interface DispatchChecksProps {
+  checks: DispatchCheck[];
+  compact?: boolean; // Board cards: one line per check, no "all clear" banner
+}
+
+const DispatchChecks: React.FC<DispatchChecksProps> = ({ checks, compact = false }) => {
+  if (checks.length === 0) {
+    return compact ? null : (
+      <p className="flex items-center gap-2 rounded-lg bg-success-50 dark:bg-success-900/20 p-3 text-sm text-success-700 dark:text-success-300">
+        <CheckCircle className="h-4 w-4" />
+        Vehicle and driver are clear for these dates
+      </p>
+    );
+  }
+
+  return (
+    <ul className={compact ? 'space-y-0.5' : 'space-y-1 rounded-lg border border-gray-200 dark:border-gray-700 p-3'}>
+      {checks.map((check, index) => (
+        <li
+          key={`${check.type}-${index}`}
+          className={`flex items-start gap-1.5 ${compact ? 'text-xs' : 'text-sm'} ${
+            check.severity === 'blocker' ? 'text-error-700 dark:text-error-300' : 'text-warning-700 dark:text-warning-300'
+          }`}
+        >
+          {check.severity === 'blocker'
+            ? <XCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+            : <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />}
+          <span>{check.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default DispatchChecks;
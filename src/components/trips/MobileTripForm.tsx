@@ -13,6 +13,7 @@ import {
   AlertTriangle, Check, Hash, Upload
 } from 'lucide-react';
 import { toast } from 'react-toastify';
+import GPSScreenshotUpload, { GPSScreenshot } from './GPSScreenshotUpload';
 import '../../styles/mobile.css';
 
 // Import the new warehouse rules system
@@ -32,6 +33,8 @@ interface MobileTripFormProps {
   allDestinations?: Destination[];
   allWarehouses?: Warehouse[];
   allMaterialTypes?: MaterialType[];
+  // Trips are queued on the device and get their serial when they sync
+  isOffline?: boolean;
 }
 
 const MobileTripForm: React.FC<MobileTripFormProps> = ({
@@ -45,6 +48,7 @@ const MobileTripForm: React.FC<MobileTripFormProps> = ({
   allDestinations,
   allWarehouses,
   allMaterialTypes,
+  isOffline = false,
 }) => {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
@@ -60,6 +64,7 @@ const MobileTripForm: React.FC<MobileTripFormProps> = ({
   const [isRefuelingTrip, setIsRefuelingTrip] = useState<boolean>(false);
   const [showRefuelingDetails, setShowRefuelingDetails] = useState<boolean>(false);
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const [gpsScreenshots, setGpsScreenshots] = useState<GPSScreenshot[]>([]);
   const [autoCompleteOpen, setAutoCompleteOpen] = useState<{
     vehicles: boolean;
     drivers: boolean;
@@ -315,6 +320,7 @@ const MobileTripForm: React.FC<MobileTripFormProps> = ({
         ...data,
         start_km: startKmValue,
         end_km: endKmValue,
+        gps_screenshots: gpsScreenshots,
       });
     } catch (error) {
       logger.error('Error submitting form:', error);
@@ -342,7 +348,7 @@ const MobileTripForm: React.FC<MobileTripFormProps> = ({
             {initialData ? 'Edit Trip' : 'New Trip'}
           </h1>
           <span className="text-sm text-gray-500">
-            #{watchedValues.trip_serial_number || 'Generating...'}
+            #{watchedValues.trip_serial_number || (isOffline ? 'Assigned on sync' : 'Generating...')}
           </span>
         </div>
       </div>
@@ -909,6 +915,15 @@ const MobileTripForm: React.FC<MobileTripFormProps> = ({
                     placeholder="Any additional notes about this trip..."
                   />
                 </div>
+
+                <div className="form-group">
+                  <label className="form-label">GPS Screenshots</label>
+                  <GPSScreenshotUpload
+                    screenshots={gpsScreenshots}
+                    onChange={setGpsScreenshots}
+                    disabled={isSubmitting}
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -938,7 +953,7 @@ const MobileTripForm: React.FC<MobileTripFormProps> = ({
           ) : (
             <>
               <FileText className="h-4 w-4" />
-              {initialData ? 'Update Trip' : 'Save Trip'}
+              {initialData ? 'Update Trip' : isOffline ? 'Save Offline' : 'Save Trip'}
             </>
           )}
         </button>
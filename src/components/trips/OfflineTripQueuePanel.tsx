@@ -0,0 +1,89 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import { OfflineTripEntry } from '@/types';
+
+interface OfflineTripQueuePanelProps {
+  entries: OfflineTripEntry[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onSync: () => void;
+  onResolveConflict: (entry: OfflineTripEntry, resolution: 'keep' | 'discard') => void;
+}
+
+const OfflineTripQueuePanel: React.FC<OfflineTripQueuePanelProps> = ({
+  entries,
+  isOnline,
+  isSyncing,
+  onSync,
+  onResolveConflict
+}) => {
+  if (entries.length === 0) return null;
+
+  const conflicts = entries.filter(e => e.status === 'conflict');
+  const waiting = entries.length - conflicts.length;
+
+  return (
+    <div className="form-section border border-amber-200 bg-amber-50">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+          <CloudOff className="h-4 w-4" />
+          {waiting > 0 && <span>{waiting} trip{waiting === 1 ? '' : 's'} waiting to sync</span>}
+          {waiting === 0 && <span>Offline trips need attention</span>}
+        </div>
+        <button
+          type="button"
+          onClick={onSync}
+          disabled={!isOnline || isSyncing || waiting === 0}
+          className="flex items-center gap-1 text-sm font-medium text-primary-600 disabled:text-gray-400"
+        >
+          <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+          {isSyncing ? 'Syncing' : 'Sync now'}
+        </button>
+      </div>
+
+      {entries.filter(e => e.status === 'failed').map(entry => (
+        <p key={entry.local_id} className="mt-2 text-xs text-red-600">
+          {entry.trip.trip_serial_number}: {entry.last_error}
+        </p>
+      ))}
+
+      {conflicts.map(entry => (
+        <div key={entry.local_id} className="mt-3 rounded-lg bg-white p-3 text-sm">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-medium text-gray-900">
+                {entry.vehicle_registration} · {entry.trip.start_km}–{entry.trip.end_km} km
+              </p>
+              {entry.conflict && (
+                <p className="text-gray-600">
+                  Overlaps {entry.conflict.trip_serial_number || 'a saved trip'} ({entry.conflict.start_km}–{entry.conflict.end_km} km,
+                  {' '}{format(parseISO(entry.conflict.trip_start_date), 'dd MMM')})
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="mt-2 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => onResolveConflict(entry, 'discard')}
+              className="text-gray-600"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolveConflict(entry, 'keep')}
+              className="font-medium text-primary-600"
+            >
+              Save anyway
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OfflineTripQueuePanel;
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { CalendarClock, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import MultiSelect from '../ui/MultiSelect';
+import DispatchChecks from './DispatchChecks';
+import { Customer, Destination, Driver, PlannedTrip, PlannedTripFormData, Vehicle, Warehouse } from '@/types';
+import { MaterialType } from '../../utils/materialTypes';
+import { createPlannedTrip, updatePlannedTrip } from '../../utils/api/plannedTrips';
+import { DispatchMaintenanceTask, checkPlannedTrip, hasDispatchBlockers } from '../../utils/dispatchPlanning';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('PlannedTripModal');
+
+interface PlannedTripModalProps {
+  plan?: PlannedTrip | null; // Edit when given, otherwise plan a new trip
+  vehicles: Vehicle[];
+  drivers: Driver[];
+  warehouses: Warehouse[];
+  destinations: Destination[];
+  materialTypes: MaterialType[];
+  customers: Customer[];
+  maintenanceTasks: DispatchMaintenanceTask[];
+  plannedTrips: PlannedTrip[];
+  onClose: () => void;
+  onSaved: (plan: PlannedTrip) => void;
+}
+
+const emptyForm = (): PlannedTripFormData => {
+  const tomorrow = addDays(new Date(), 1);
+  return {
+    vehicle_id: '',
+    driver_id: '',
+    warehouse_id: '',
+    destinations: [],
+    material_type_ids: [],
+    customer_id: '',
+    expected_load: null,
+    planned_start_date: format(tomorrow, 'yyyy-MM-dd'),
+    planned_end_date: format(tomorrow, 'yyyy-MM-dd'),
+    notes: ''
+  };
+};
+
+const PlannedTripModal: React.FC<PlannedTripModalProps> = ({
+  plan,
+  vehicles,
+  drivers,
+  warehouses,
+  destinations,
+  materialTypes,
+  customers,
+  maintenanceTasks,
+  plannedTrips,
+  onClose,
+  onSaved
+}) => {
+  const [form, setForm] = useState<PlannedTripFormData>(() => (plan
+    ? {
+      vehicle_id: plan.vehicle_id,
+      driver_id: plan.driver_id,
+      warehouse_id: plan.warehouse_id,
+      destinations: plan.destinations || [],
+      material_type_ids: plan.material_type_ids || [],
+      customer_id: plan.customer_id || '',
+      expected_load: plan.expected_load ?? null,
+      planned_start_date: plan.planned_start_date,
+      planned_end_date: plan.planned_end_date,
+      notes: plan.notes || ''
+    }
+    : emptyForm()));
+  const [saving, setSaving] = useState(false);
+
+  const update = <K extends keyof PlannedTripFormData>(key: K, value: PlannedTripFormData[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const vehicle = vehicles.find(v => v.id === form.vehicle_id);
+  const driver = drivers.find(d => d.id === form.driver_id);
+
+  const checks = useMemo(() => (
+    form.vehicle_id && form.driver_id && form.planned_start_date && form.planned_end_date
+      ? checkPlannedTrip({ ...form, id: plan?.id }, { vehicle, driver, maintenanceTasks, plannedTrips })
+      : []
+  ), [form, plan?.id, vehicle, driver, maintenanceTasks, plannedTrips]);
+
+  const handleSave = async () => {
+    if (!form.vehicle_id || !form.driver_id || !form.warehouse_id || form.destinations.length === 0) {
+      toast.error('Vehicle, driver, warehouse and at least one destination are required');
+      return;
+    }
+    if (form.planned_end_date < form.planned_start_date) {
+      toast.error('End date must be on or after the start date');
+      return;
+    }
+    if (hasDispatchBlockers(checks) &&
+      !window.confirm('This plan has blockers and cannot be dispatched until they are cleared. Save it anyway?')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = plan ? await updatePlannedTrip(plan.id, form) : await createPlannedTrip(form);
+      toast.success(plan ? 'Planned trip updated' : 'Trip planned');
+      onSaved(saved);
+    } catch (error) {
+      logger.error('Error saving planned trip:', error);
+      toast.error('Failed to save planned trip');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <CalendarClock className="h-6 w-6 text-primary-600 dark:text-primary-400 mr-3" />
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                {plan ? 'Edit Planned Trip' : 'Plan Trip'}
+              </h2>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onClose}
+              icon={<X className="h-4 w-4" />}
+            />
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-160px)] space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Start date"
+              type="date"
+              value={form.planned_start_date}
+              onChange={(e) => update('planned_start_date', e.target.value)}
+            />
+            <Input
+              label="End date"
+              type="date"
+              value={form.planned_end_date}
+              onChange={(e) => update('planned_end_date', e.target.value)}
+            />
+            <Select
+              label="Vehicle"
+              value={form.vehicle_id}
+              onChange={(e) => update('vehicle_id', e.target.value)}
+              options={[
+                { value: '', label: 'Select vehicle' },
+                ...vehicles
+                  .filter(v => v.status !== 'archived')
+                  .map(v => ({ value: v.id, label: `${v.registration_number} (${v.type})` }))
+              ]}
+            />
+            <Select
+              label="Driver"
+              value={form.driver_id}
+              onChange={(e) => update('driver_id', e.target.value)}
+              options={[
+                { value: '', label: 'Select driver' },
+                ...drivers.map(d => ({ value: d.id!, label: d.name }))
+              ]}
+            />
+            <Select
+              label="Loading warehouse"
+              value={form.warehouse_id}
+              onChange={(e) => update('warehouse_id', e.target.value)}
+              options={[
+                { value: '', label: 'Select warehouse' },
+                ...warehouses.map(w => ({ value: w.id, label: w.name }))
+              ]}
+            />
+            <Select
+              label="Customer"
+              value={form.customer_id || ''}
+              onChange={(e) => update('customer_id', e.target.value)}
+              options={[
+                { value: '', label: 'No customer' },
+                ...customers.map(c => ({ value: c.id, label: c.name }))
+              ]}
+            />
+            <MultiSelect
+              label="Destinations"
+              value={form.destinations}
+              onChange={(value) => update('destinations', value)}
+              options={destinations.map(d => ({ value: d.id, label: d.name }))}
+            />
+            <MultiSelect
+              label="Materials"
+              value={form.material_type_ids || []}
+              onChange={(value) => update('material_type_ids', value)}
+              options={materialTypes.map(m => ({ value: m.id, label: m.name }))}
+            />
+            <Input
+              label="Expected load (kg)"
+              type="number"
+              min={0}
+              value={form.expected_load ?? ''}
+              onChange={(e) => update('expected_load', e.target.value ? Number(e.target.value) : null)}
+            />
+            <Input
+              label="Notes"
+              value={form.notes || ''}
+              onChange={(e) => update('notes', e.target.value)}
+            />
+          </div>
+
+          {form.vehicle_id && form.driver_id && <DispatchChecks checks={checks} />}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} isLoading={saving}>
+            {plan ? 'Save Changes' : 'Plan Trip'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlannedTripModal;
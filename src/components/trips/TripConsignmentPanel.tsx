@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { saveAs } from 'file-saver';
+import { AlertTriangle, Download, FileJson, FileText, Plus, Truck } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Checkbox from '../ui/Checkbox';
+import ConsignmentNoteModal from './ConsignmentNoteModal';
+import { ConsignmentNote, Customer, Destination, Trip, Vehicle, Warehouse } from '../../types';
+import {
+  cancelConsignmentNote,
+  getTripConsignmentNotes,
+  updateTripEwayBill
+} from '../../utils/api/consignmentNotes';
+import { getCustomers } from '../../utils/api/customers';
+import { getInvoiceSupplier, InvoiceSupplier } from '../../utils/api/invoices';
+import {
+  CONSIGNMENT_FREIGHT_BASIS_LABELS,
+  buildEwayBillBulkUpload,
+  calculateEwayBillValidUntil,
+  getEwayBillDistance,
+  getEwayBillExpiryWarning,
+  validateEwayBillSource
+} from '../../utils/ewayBill';
+import { downloadConsignmentNotePdf } from '../../reports/consignmentNotePdf';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TripConsignmentPanel');
+
+const EWAY_BILL_NUMBER_PATTERN = /^\d{12}$/;
+
+const toInputDateTime = (value?: string | null) =>
+  value ? format(parseISO(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+interface TripConsignmentPanelProps {
+  trip: Trip;
+  vehicle?: Vehicle;
+  warehouse: Warehouse | null;
+  destinations: Destination[];
+  materialNames: string[];
+  onTripUpdated: (trip: Trip) => void;
+}
+
+const TripConsignmentPanel: React.FC<TripConsignmentPanelProps> = ({
+  trip,
+  vehicle,
+  warehouse,
+  destinations,
+  materialNames,
+  onTripUpdated
+}) => {
+  const [notes, setNotes] = useState<ConsignmentNote[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [supplier, setSupplier] = useState<InvoiceSupplier | null>(null);
+  const [showNoteModal, setShowNoteModal] = useState(false);
+  const [editingEwayBill, setEditingEwayBill] = useState(false);
+  const [savingEwayBill, setSavingEwayBill] = useState(false);
+  const [ewayBillNumber, setEwayBillNumber] = useState('');
+  const [ewayBillDate, setEwayBillDate] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [distanceKm, setDistanceKm] = useState(() => getEwayBillDistance(trip, destinations));
+  const [overDimensional, setOverDimensional] = useState(false);
+
+  useEffect(() => {
+    getTripConsignmentNotes(trip.id).then(setNotes);
+  }, [trip.id]);
+
+  useEffect(() => {
+    getCustomers().then(setCustomers);
+    getInvoiceSupplier().then(setSupplier).catch(error => {
+      logger.error('Error loading transporter details:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    setDistanceKm(getEwayBillDistance(trip, destinations));
+  }, [trip, destinations]);
+
+  const route = useMemo(
+    () => [warehouse?.name, ...destinations.map(d => d.name)].filter(Boolean).join(' → '),
+    [warehouse, destinations]
+  );
+  const activeNotes = notes.filter(n => n.status === 'active');
+  const expiryWarning = getEwayBillExpiryWarning(trip);
+
+  const startEditingEwayBill = () => {
+    const generatedAt = trip.eway_bill_date || new Date().toISOString();
+    setEwayBillNumber(trip.eway_bill_number || '');
+    setEwayBillDate(toInputDateTime(generatedAt));
+    setValidUntil(toInputDateTime(
+      trip.eway_bill_valid_until ||
+      calculateEwayBillValidUntil(parseISO(generatedAt), distanceKm, overDimensional).toISOString()
+    ));
+    setEditingEwayBill(true);
+  };
+
+  const recalculateValidity = (generatedAt: string, distance: number, odc: boolean) => {
+    if (!generatedAt) return;
+    setValidUntil(toInputDateTime(calculateEwayBillValidUntil(parseISO(generatedAt), distance, odc).toISOString()));
+  };
+
+  const handleSaveEwayBill = async () => {
+    if (ewayBillNumber && !EWAY_BILL_NUMBER_PATTERN.test(ewayBillNumber)) {
+      toast.error('E-way bill number must be 12 digits');
+      return;
+    }
+
+    setSavingEwayBill(true);
+    try {
+      const updated = await updateTripEwayBill(trip.id, {
+        eway_bill_number: ewayBillNumber || null,
+        eway_bill_date: ewayBillNumber && ewayBillDate ? new Date(ewayBillDate).toISOString() : null,
+        eway_bill_valid_until: ewayBillNumber && validUntil ? new Date(validUntil).toISOString() : null
+      });
+      onTripUpdated(updated);
+      setEditingEwayBill(false);
+
+      const warning = getEwayBillExpiryWarning(updated);
+      if (warning) {
+        toast.warning(warning.message);
+      } else {
+        toast.success('E-way bill saved');
+      }
+    } catch (error) {
+      logger.error('Error saving e-way bill:', error);
+      toast.error('Failed to save e-way bill');
+    } finally {
+      setSavingEwayBill(false);
+    }
+  };
+
+  const handleDownloadJson = () => {
+    const sources = activeNotes.map(note => ({
+      note,
+      vehicleNumber: vehicle?.registration_number || '',
+      distanceKm,
+      transporterName: supplier?.name || '',
+      transporterGstin: supplier?.gst_number,
+      overDimensional
+    }));
+
+    const errors = sources.flatMap(source =>
+      validateEwayBillSource(source).map(message => `${source.note.lr_number}: ${message}`)
+    );
+    if (errors.length > 0) {
+      errors.slice(0, 3).forEach(message => toast.error(message));
+      return;
+    }
+
+    const payload = buildEwayBillBulkUpload(sources);
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    saveAs(blob, `EWB-${trip.trip_serial_number || trip.id}.json`);
+  };
+
+  const handleDownloadPdf = async (note: ConsignmentNote) => {
+    try {
+      await downloadConsignmentNotePdf(note, {
+        trip,
+        vehicleNumber: vehicle?.registration_number || '',
+        route,
+        supplier
+      });
+    } catch (error) {
+      logger.error('Error generating consignment note PDF:', error);
+      toast.error('Failed to generate PDF');
+    }
+  };
+
+  const handleCancelNote = async (note: ConsignmentNote) => {
+    if (!window.confirm(`Cancel consignment note ${note.lr_number}? The number will not be reused.`)) return;
+    try {
+      const cancelled = await cancelConsignmentNote(note.id);
+      setNotes(prev => prev.map(n => (n.id === cancelled.id ? cancelled : n)));
+    } catch (error) {
+      logger.error('Error cancelling consignment note:', error);
+      toast.error('Failed to cancel consignment note');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-6 mt-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 flex items-center">
+          <FileText className="h-5 w-5 mr-2 text-primary-500" />
+          Consignment &amp; E-way Bill
+        </h3>
+        <Button
+          size="sm"
+          icon={<Plus className="h-4 w-4" />}
+          onClick={() => setShowNoteModal(true)}
+        >
+          New LR
+        </Button>
+      </div>
+
+      {expiryWarning && (
+        <div className={`mb-4 flex items-start gap-2 rounded-lg p-3 text-sm ${
+          expiryWarning.level === 'expiring_soon'
+            ? 'bg-warning-50 text-warning-800 dark:bg-warning-900/20 dark:text-warning-300'
+            : 'bg-error-50 text-error-800 dark:bg-error-900/20 dark:text-error-300'
+        }`}>
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{expiryWarning.message}</span>
+        </div>
+      )}
+
+      {/* Consignment notes */}
+      {notes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No consignment notes for this trip yet</p>
+      ) : (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+          {notes.map(note => (
+            <div key={note.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-900 dark:text-gray-100">
+                  {note.lr_number}
+                  {note.status === 'cancelled' && (
+                    <span className="ml-2 text-xs font-normal text-error-600 dark:text-error-400">Cancelled</span>
+                  )}
+                </p>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {note.consignor_name} → {note.consignee_name} · {note.package_count} {note.package_type} {note.material_description}
+                  {' '}· ₹{note.invoice_value.toLocaleString('en-IN')} · {CONSIGNMENT_FREIGHT_BASIS_LABELS[note.freight_basis]}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={<Download className="h-4 w-4" />}
+                  onClick={() => handleDownloadPdf(note)}
+                >
+                  PDF
+                </Button>
+                {note.status === 'active' && (
+                  <Button variant="outline" size="sm" onClick={() => handleCancelNote(note)}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* E-way bill */}
+      <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+            <Truck className="h-4 w-4 mr-2" />
+            E-way Bill
+          </h4>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              icon={<FileJson className="h-4 w-4" />}
+              onClick={handleDownloadJson}
+              disabled={activeNotes.length === 0}
+            >
+              Bulk Upload JSON
+            </Button>
+            {!editingEwayBill && (
+              <Button variant="outline" size="sm" onClick={startEditingEwayBill}>
+                {trip.eway_bill_number ? 'Update' : 'Record EWB'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {!editingEwayBill && (
+          trip.eway_bill_number ? (
+            <dl className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">EWB No.</dt>
+                <dd className="font-medium text-gray-900 dark:text-gray-100">{trip.eway_bill_number}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Generated</dt>
+                <dd className="text-gray-900 dark:text-gray-100">
+                  {trip.eway_bill_date ? format(parseISO(trip.eway_bill_date), 'dd MMM yyyy, HH:mm') : '—'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">Valid Until</dt>
+                <dd className="text-gray-900 dark:text-gray-100">
+                  {trip.eway_bill_valid_until ? format(parseISO(trip.eway_bill_valid_until), 'dd MMM yyyy, HH:mm') : '—'}
+                </dd>
+              </div>
+            </dl>
+          ) : (
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              Download the JSON, upload it on the e-way bill portal, then record the generated number here.
+            </p>
+          )
+        )}
+
+        {editingEwayBill && (
+          <div className="mt-3 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="EWB Number"
+                maxLength={12}
+                value={ewayBillNumber}
+                onChange={(e) => setEwayBillNumber(e.target.value.replace(/\D/g, ''))}
+              />
+              <Input
+                label="Distance (km)"
+                type="number"
+                min={1}
+                value={distanceKm || ''}
+                onChange={(e) => {
+                  const distance = Number(e.target.value) || 0;
+                  setDistanceKm(distance);
+                  recalculateValidity(ewayBillDate, distance, overDimensional);
+                }}
+              />
+              <Input
+                label="Generated At"
+                type="datetime-local"
+                value={ewayBillDate}
+                onChange={(e) => {
+                  setEwayBillDate(e.target.value);
+                  recalculateValidity(e.target.value, distanceKm, overDimensional);
+                }}
+              />
+              <Input
+                label="Valid Until"
+                type="datetime-local"
+                value={validUntil}
+                onChange={(e) => setValidUntil(e.target.value)}
+                helperText="Calculated from distance; adjust to match the portal"
+              />
+            </div>
+            <Checkbox
+              label="Over-dimensional cargo"
+              checked={overDimensional}
+              onChange={(e) => {
+                setOverDimensional(e.target.checked);
+                recalculateValidity(ewayBillDate, distanceKm, e.target.checked);
+              }}
+            />
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" size="sm" onClick={() => setEditingEwayBill(false)} disabled={savingEwayBill}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSaveEwayBill} isLoading={savingEwayBill}>
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConsignmentNoteModal
+        isOpen={showNoteModal}
+        onClose={() => setShowNoteModal(false)}
+        trip={trip}
+        warehouse={warehouse}
+        materialNames={materialNames}
+        customers={customers}
+        onCreated={(note) => {
+          setNotes(prev => [...prev, note]);
+          setShowNoteModal(false);
+        }}
+      />
+    </div>
+  );
+};
+
+export default TripConsignmentPanel;
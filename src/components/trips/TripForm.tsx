@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { Combobox } from '@headlessui/react';
-import { Trip, TripFormData, Vehicle, Driver, Destination, Warehouse, Refueling } from '@/types';
+import { Trip, TripFormData, Vehicle, Driver, Destination, Warehouse, Refueling, ContractRate, Customer } from '@/types';
 import { getVehicles, getDestinations, getWarehouses, analyzeRoute, getLatestOdometer } from '../../utils/storage';
+import { getContractRates } from '../../utils/api/contractRates';
+import { getCustomers } from '../../utils/api/customers';
+import { resolveContractRate, getFuelAdjustedRate, getAverageFuelPrice } from '../../utils/contractRateResolver';
+import { calculateIncome } from '../../utils/billingSettings';
 import { getDrivers } from '../../utils/api/drivers';
 import { supabase } from '../../utils/supabaseClient';
 import { getUserActiveOrganization } from '../../utils/supaHelpers';
@@ -11,9 +15,11 @@ import { ensureUniqueTripSerial } from '../../utils/tripSerialGenerator';
 import { subDays, format, parseISO } from 'date-fns';
 import { analyzeTripAndGenerateAlerts } from '../../utils/aiAnalytics';
 import { CorrectionCascadeManager } from '../../utils/correctionCascadeManager';
+import { needsTripChangeApproval, requestOdometerCascade } from '../../utils/api/tripChangeRequests';
 import { recalculateMileageForRefuelingTrip } from '../../utils/mileageRecalculation';
 import Input from '../ui/Input';
 import Button from '../ui/Button';
+import Select from '../ui/Select';
 import EnhancedInput from '../ui/EnhancedInput';
 import WarehouseSelector from './WarehouseSelector';
 import SearchableDestinationInput from './SearchableDestinationInput';
@@ -51,6 +57,26 @@ import { calculateTripTotalExpense } from '../../utils/tripCalculations';
 
 const logger = createLogger('TripForm');
 
+// The inputs a contract price depends on, compared so an existing trip is only re-priced when one changes
+const getPricingKey = (data: Partial<TripFormData>) => JSON.stringify([
+  data.trip_start_date?.slice(0, 10) || null,
+  data.customer_id || null,
+  data.warehouse_id || null,
+  data.destinations || [],
+  data.vehicle_id || null,
+  Number(data.start_km) || 0,
+  Number(data.end_km) || 0,
+  Number(data.gross_weight) || 0
+]);
+
+// The fields that decide which contract applies to a trip
+const getContractKey = (data: Partial<TripFormData>) => JSON.stringify([
+  data.customer_id || null,
+  data.warehouse_id || null,
+  data.destinations || [],
+  data.vehicle_id || null
+]);
+
 interface TripFormProps {
   onSubmit: (data: TripFormData) => void;
   onCancel?: () => void;
@@ -105,6 +131,8 @@ const TripForm: React.FC<TripFormProps> = ({
     newEndKm: 0,
     loading: false
   });
+  // Makers send the cascade for approval instead of applying it
+  const [cascadeNeedsApproval, setCascadeNeedsApproval] = useState(false);
   const [selectedDestinationObjects, setSelectedDestinationObjects] = useState<Destination[]>([]);
   const destinationsInitializedRef = useRef(false);
   const initialDestinationsKey = useMemo(
@@ -140,6 +168,8 @@ const TripForm: React.FC<TripFormProps> = ({
   const [hasFuelWarning, setHasFuelWarning] = useState(false);
   const [hasGrossWeightWarning, setHasGrossWeightWarning] = useState(false);
   const [hasExpensesWarning, setHasExpensesWarning] = useState(false);
+  const [contractRates, setContractRates] = useState<ContractRate[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   
   // Get yesterday's date for auto-defaulting
   const yesterdayDate = format(subDays(new Date(), 1), 'yyyy-MM-dd');
@@ -206,6 +236,7 @@ const TripForm: React.FC<TripFormProps> = ({
       setValue('vehicle_id', initialData.vehicle_id || '');
       setValue('driver_id', initialData.driver_id || '');
       setValue('warehouse_id', initialData.warehouse_id || '');
+      setValue('customer_id', initialData.customer_id || '');
       setValue('destinations', initialData.destinations || []);
       setValue('start_km', initialData.start_km || 0);
       setValue('end_km', initialData.end_km || 0);
@@ -271,6 +302,7 @@ const TripForm: React.FC<TripFormProps> = ({
   const selectedVehicleId = watch('vehicle_id');
   const selectedDriverId = watch('driver_id');
   const selectedWarehouseId = watch('warehouse_id');
+  const selectedCustomerId = watch('customer_id');
   const startKm = watch('start_km');
   const endKm = watch('end_km');
   const safeStartKm = typeof startKm === 'number' ? startKm : Number(startKm) || 0;
@@ -314,6 +346,70 @@ const TripForm: React.FC<TripFormProps> = ({
       setDriverInputValue('');
     }
   }, [selectedDriverId, drivers]);
+  // Load contract rates and customers once so the applicable contract can be resolved as the form changes
+  useEffect(() => {
+    getContractRates().then(setContractRates);
+    getCustomers().then(setCustomers);
+  }, []);
+
+  const tripStartDate = watch('trip_start_date');
+  const applicableContract = useMemo(() => {
+    if (!tripStartDate || contractRates.length === 0) return null;
+    return resolveContractRate(contractRates, {
+      tripDate: tripStartDate,
+      customerId: selectedCustomerId || undefined,
+      warehouseId: selectedWarehouseId,
+      destinationIds: selectedDestinationObjects.map(d => d.id),
+      vehicleType: selectedVehicle?.type
+    });
+  }, [contractRates, tripStartDate, selectedCustomerId, selectedWarehouseId, selectedDestinationObjects, selectedVehicle]);
+
+  // Price a new trip from the applicable contract unless income was entered manually. An existing
+  // trip keeps its price until its route, vehicle, date or readings change. A trip priced from a
+  // contract keeps the rate it was priced at, even if the contract has been revised since, while its
+  // customer, warehouse, destinations and vehicle stay the same; otherwise the contract is resolved again.
+  const applyContractPricing = useCallback((submitData: Partial<TripFormData>) => {
+    if (initialData?.billing_type === 'manual') return;
+    if (initialData?.id && getPricingKey(submitData) === getPricingKey(initialData)) return;
+
+    const distance = Math.max(0, (Number(submitData.end_km) || 0) - (Number(submitData.start_km) || 0));
+
+    if (
+      initialData?.id && initialData.contract_rate_id && initialData.billing_type && initialData.freight_rate &&
+      getContractKey(submitData) === getContractKey(initialData)
+    ) {
+      const storedContract = contractRates.find(contract => contract.id === initialData.contract_rate_id);
+      const income = calculateIncome(
+        initialData.billing_type,
+        initialData.freight_rate,
+        distance,
+        Number(submitData.gross_weight) || 0
+      );
+      submitData.income_amount = Math.round(Math.max(income, storedContract?.min_guarantee || 0) * 100) / 100;
+      return;
+    }
+
+    if (!applicableContract) {
+      // The stored contract no longer applies; price from the freight rate table on save
+      if (initialData?.contract_rate_id) submitData.contract_rate_id = null;
+      return;
+    }
+
+    const currentFuelPrice = getAverageFuelPrice(submitData.refuelings, submitData.fuel_rate_per_liter);
+
+    submitData.contract_rate_id = applicableContract.id;
+    submitData.billing_type = applicableContract.rate_type;
+    submitData.freight_rate = getFuelAdjustedRate(applicableContract, currentFuelPrice);
+    submitData.income_amount = calculateIncome(
+      applicableContract.rate_type,
+      submitData.freight_rate,
+      distance,
+      Number(submitData.gross_weight) || 0,
+      undefined,
+      { contract: applicableContract, currentFuelPrice }
+    );
+  }, [applicableContract, contractRates, initialData]);
+
   // Fetch form data - only if not provided as props
   useEffect(() => {
     // If data is provided as props (editing mode), use it instead of fetching
@@ -766,7 +862,7 @@ const TripForm: React.FC<TripFormProps> = ({
       // Get trips from ALL users in the organization (not just current user)
       // This matches the database validation trigger behavior
       const { data: lastTrip, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('end_km, trip_end_date, created_at')
         .eq('vehicle_id', vehicleId)
         .eq('organization_id', organizationId)
@@ -787,7 +883,7 @@ const TripForm: React.FC<TripFormProps> = ({
         // Get previous refueling trip for mileage window calculation
         // Also query from ALL org users to match validation behavior
         const { data: prevRefuelTrip } = await supabase
-          .from('trips')
+          .from('trips_visible')
           .select('end_km, trip_end_date, created_at')
           .eq('vehicle_id', vehicleId)
           .eq('organization_id', organizationId)
@@ -1076,6 +1172,8 @@ const TripForm: React.FC<TripFormProps> = ({
     delete submitData.destination_display;
     delete submitData.toll_expense; // Database uses breakdown_expense instead
 
+    applyContractPricing(submitData);
+
     // Check for gross weight warning
     const grossWeight = data.gross_weight || 0;
     const grossWeightWarning = (grossWeight === 0 || grossWeight < 100);
@@ -1126,6 +1224,7 @@ const TripForm: React.FC<TripFormProps> = ({
       );
 
       if (affectedTrips.length > 0) {
+        setCascadeNeedsApproval(await needsTripChangeApproval());
         setCascadePreview({
           isOpen: true,
           affectedTrips,
@@ -1144,6 +1243,26 @@ const TripForm: React.FC<TripFormProps> = ({
 
     setCascadePreview(prev => ({ ...prev, loading: true }));
 
+    if (cascadeNeedsApproval) {
+      try {
+        await requestOdometerCascade(
+          { id: initialData.id, trip_serial_number: initialData.trip_serial_number, end_km: initialData.end_km ?? 0 },
+          cascadePreview.newEndKm,
+          cascadePreview.affectedTrips,
+          'Odometer correction from trip edit'
+        );
+        // The trip keeps its End KM until an admin approves the cascade
+        setValue('end_km', initialData.end_km ?? 0);
+        toast.success('Odometer correction sent to an admin for approval');
+        handleCloseCascadePreview();
+      } catch (error) {
+        logger.error('Error requesting cascade approval:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to request approval');
+        setCascadePreview(prev => ({ ...prev, loading: false }));
+      }
+      return;
+    }
+
     try {
       const result = await CorrectionCascadeManager.cascadeOdometerCorrection(
         initialData.id,
@@ -1265,6 +1384,8 @@ const TripForm: React.FC<TripFormProps> = ({
       delete submitData.destination_display;
       delete submitData.toll_expense;
 
+      applyContractPricing(submitData);
+
       await onSubmit(submitData);
       
       // Show appropriate success message
@@ -1277,7 +1398,7 @@ const TripForm: React.FC<TripFormProps> = ({
       logger.error('Error saving trip:', error);
       toast.error('Failed to save trip');
     }
-  }, [onSubmit, selectedDestinationObjects, hasFuelWarning]);
+  }, [onSubmit, selectedDestinationObjects, hasFuelWarning, applyContractPricing]);
 
   const handleDismissFuelPrompt = useCallback(() => {
     setShowFuelPrompt(false);
@@ -1347,6 +1468,8 @@ const TripForm: React.FC<TripFormProps> = ({
       delete submitData.destination_display;
       delete submitData.toll_expense;
 
+      applyContractPricing(submitData);
+
       await onSubmit(submitData);
       
       // Show appropriate success message
@@ -1359,7 +1482,7 @@ const TripForm: React.FC<TripFormProps> = ({
       logger.error('Error saving trip:', error);
       toast.error('Failed to save trip');
     }
-  }, [onSubmit, selectedDestinationObjects, hasFuelWarning]);
+  }, [onSubmit, selectedDestinationObjects, hasFuelWarning, applyContractPricing]);
 
 
   if (loading) {
@@ -1654,6 +1777,17 @@ const TripForm: React.FC<TripFormProps> = ({
           </h3>
         
         <div className="space-y-3">
+          {customers.length > 0 && (
+            <Select
+              label="Customer"
+              options={[
+                { value: '', label: 'No customer' },
+                ...customers.map(c => ({ value: c.id, label: c.name }))
+              ]}
+              {...register('customer_id')}
+            />
+          )}
+
           <WarehouseSelector
             warehouses={warehouses}
             selectedWarehouse={selectedWarehouseId}
@@ -1989,6 +2123,18 @@ const TripForm: React.FC<TripFormProps> = ({
                 )}
               </div>
 
+              {applicableContract && initialData?.billing_type !== 'manual' && (
+                <div className="flex items-start gap-2 p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                  <FileText className="h-4 w-4 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
+                  <p className="text-xs text-blue-800 dark:text-blue-300">
+                    Contract rate applies: <span className="font-medium">{applicableContract.customer_name}</span>
+                    {' '}— ₹{applicableContract.rate} {applicableContract.rate_type.replace('_', ' ')}
+                    {applicableContract.min_guarantee ? ` (min ₹${applicableContract.min_guarantee})` : ''}.
+                    Income will be calculated on save.
+                  </p>
+                </div>
+              )}
+
             </div>
           </CollapsibleSection>
         </div>
@@ -2337,6 +2483,7 @@ const TripForm: React.FC<TripFormProps> = ({
         onApply={handleApplyCascade}
         affectedTrips={cascadePreview.affectedTrips}
         loading={cascadePreview.loading}
+        applyLabel={cascadeNeedsApproval ? 'Request Approval' : undefined}
       />
 
       {/* Combined Fuel, Gross Weight, and Expenses Prompt */}
@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Gauge, MapPin, Navigation, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Button from '../ui/Button';
+import { Destination, Trip, TripGpsTrack, Warehouse } from '../../types';
+import {
+  deleteTripGpsTrack,
+  getTripGpsTracks,
+  recheckTripGpsTrackGeofences,
+  uploadTripGpsTrack
+} from '../../utils/api/gpsTracks';
+import { compareTrackDistance, formatTrackMinutes, getStandardRouteDistance } from '../../utils/gpsTrack';
+import { buildTripGeofences, proposeTripTimes } from '../../utils/geofence';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TripGpsTrackPanel');
+
+const formatTime = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM, HH:mm') : '—');
+
+const formatPercent = (value: number | null) =>
+  value === null ? '' : ` (${value > 0 ? '+' : ''}${value.toFixed(1)}%)`;
+
+interface TripGpsTrackPanelProps {
+  trip: Trip;
+  warehouse: Warehouse | null;
+  destinations: Destination[];
+}
+
+const TripGpsTrackPanel: React.FC<TripGpsTrackPanelProps> = ({ trip, warehouse, destinations }) => {
+  const [tracks, setTracks] = useState<TripGpsTrack[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [recheckingId, setRecheckingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getTripGpsTracks(trip.id).then(setTracks);
+  }, [trip.id]);
+
+  const standardKm = getStandardRouteDistance(destinations);
+  const geofences = useMemo(() => buildTripGeofences(warehouse, destinations), [warehouse, destinations]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const track = await uploadTripGpsTrack(trip, file, geofences);
+      setTracks(prev => [track, ...prev]);
+      setExpandedId(track.id);
+      toast.success(`Track added: ${track.distance_km} km from ${track.point_count} points`);
+    } catch (error) {
+      logger.error('Error uploading GPS track:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add GPS track');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRecheck = async (track: TripGpsTrack) => {
+    setRecheckingId(track.id);
+    try {
+      const updated = await recheckTripGpsTrackGeofences(track, trip, geofences);
+      setTracks(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+    } catch (error) {
+      logger.error('Error rechecking geofences:', error);
+      toast.error('Failed to recheck geofences');
+    } finally {
+      setRecheckingId(null);
+    }
+  };
+
+  const handleDelete = async (track: TripGpsTrack) => {
+    if (!window.confirm(`Remove the GPS track ${track.file_name || ''}?`)) return;
+    try {
+      await deleteTripGpsTrack(track.id);
+      setTracks(prev => prev.filter(t => t.id !== track.id));
+    } catch (error) {
+      logger.error('Error deleting GPS track:', error);
+      toast.error('Failed to remove GPS track');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-6 mt-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 flex items-center">
+          <Navigation className="h-5 w-5 mr-2 text-primary-500" />
+          GPS Track
+        </h3>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,.kml,.csv"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          size="sm"
+          icon={<Upload className="h-4 w-4" />}
+          isLoading={uploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Upload GPX / KML / CSV
+        </Button>
+      </div>
+
+      {tracks.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No GPS track for this trip yet. Upload the tracker export or push it from your telematics provider.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {tracks.map(track => {
+            const comparison = compareTrackDistance(track.distance_km, trip, standardKm);
+            const visits = track.geofence_visits || [];
+            const proposal = proposeTripTimes(visits);
+            const flags = track.geofence_flags || [];
+            const expanded = expandedId === track.id;
+
+            return (
+              <div key={track.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {track.file_name || 'Pushed track'}
+                    </span>
+                    <span className="ml-2 text-xs uppercase text-gray-500 dark:text-gray-400">{track.source}</span>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatTime(track.started_at)} – {formatTime(track.ended_at)} · {track.point_count} points
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {geofences.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        isLoading={recheckingId === track.id}
+                        onClick={() => handleRecheck(track)}
+                        icon={<RefreshCw className="h-4 w-4" />}
+                      >
+                        Recheck geofences
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => setExpandedId(expanded ? null : track.id)}>
+                      {expanded ? 'Hide details' : 'Details'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(track)}
+                      icon={<Trash2 className="h-4 w-4" />}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">GPS distance</p>
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">{track.distance_km} km</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Moving / idle</p>
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">
+                      {formatTrackMinutes(track.moving_minutes)} / {formatTrackMinutes(track.idle_minutes)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Stops</p>
+                    <p className="font-semibold text-gray-900 dark:text-gray-100">{track.stops.length}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Max speed</p>
+                    <p className={`font-semibold ${track.overspeed_events.length > 0 ? 'text-error-600 dark:text-error-400' : 'text-gray-900 dark:text-gray-100'}`}>
+                      {track.max_speed_kmph} km/h
+                    </p>
+                  </div>
+                </div>
+
+                <div className="mt-3 space-y-1 text-sm">
+                  <p className={comparison.odometer_mismatch ? 'text-warning-700 dark:text-warning-300' : 'text-gray-700 dark:text-gray-300'}>
+                    {comparison.odometer_mismatch && <AlertTriangle className="inline h-4 w-4 mr-1" />}
+                    Odometer: {comparison.odometer_km !== null
+                      ? `${comparison.odometer_km} km${formatPercent(comparison.odometer_difference_percent)} vs GPS`
+                      : 'closing km not recorded'}
+                  </p>
+                  <p className={comparison.off_route ? 'text-warning-700 dark:text-warning-300' : 'text-gray-700 dark:text-gray-300'}>
+                    {comparison.off_route && <AlertTriangle className="inline h-4 w-4 mr-1" />}
+                    Standard route: {comparison.standard_km !== null
+                      ? `${comparison.standard_km} km, GPS${formatPercent(comparison.standard_difference_percent)}`
+                      : 'no standard distance set for the destinations'}
+                  </p>
+                  {track.overspeed_events.length > 0 && (
+                    <p className="text-error-700 dark:text-error-400">
+                      <Gauge className="inline h-4 w-4 mr-1" />
+                      {track.overspeed_events.length} overspeed event(s) above {track.overspeed_limit_kmph} km/h
+                    </p>
+                  )}
+                </div>
+
+                {/* Geofences */}
+                <div className="mt-3 border-t border-gray-200 dark:border-gray-700 pt-3 text-sm">
+                  {geofences.length === 0 ? (
+                    <p className="text-gray-500 dark:text-gray-400">
+                      Add coordinates to the warehouse and destinations to check this track against geofences
+                    </p>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">Left warehouse</p>
+                          <p className="font-semibold text-gray-900 dark:text-gray-100">{formatTime(track.proposed_start_at)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">Trip end</p>
+                          <p className="font-semibold text-gray-900 dark:text-gray-100">{formatTime(track.proposed_end_at)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">Loading</p>
+                          <p className="font-semibold text-gray-900 dark:text-gray-100">
+                            {proposal.loading_minutes !== null ? formatTrackMinutes(proposal.loading_minutes) : '—'}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">Unloading</p>
+                          <p className="font-semibold text-gray-900 dark:text-gray-100">
+                            {proposal.visited_destination_ids.length > 0 ? formatTrackMinutes(proposal.unloading_minutes) : '—'}
+                          </p>
+                        </div>
+                      </div>
+                      {flags.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {flags.map(flag => (
+                            <li key={`${flag.type}-${flag.message}`} className="text-warning-700 dark:text-warning-300">
+                              <AlertTriangle className="inline h-4 w-4 mr-1" />
+                              {flag.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {expanded && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">Geofence visits</h4>
+                      {visits.length === 0 ? (
+                        <p className="text-gray-500 dark:text-gray-400">No visits detected</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {visits.map(visit => (
+                            <li key={`${visit.geofence_id}-${visit.arrived_at}`} className="text-gray-700 dark:text-gray-300">
+                              <MapPin className={`inline h-3.5 w-3.5 mr-1 ${visit.kind === 'warehouse' ? 'text-primary-500' : 'text-success-600'}`} />
+                              {visit.name}: {formatTime(visit.arrived_at)} – {formatTime(visit.departed_at)}
+                              {' · '}{formatTrackMinutes(visit.dwell_minutes)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">Stops</h4>
+                      {track.stops.length === 0 ? (
+                        <p className="text-gray-500 dark:text-gray-400">No stops</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {track.stops.map(stop => (
+                            <li key={stop.started_at} className="text-gray-700 dark:text-gray-300">
+                              {formatTime(stop.started_at)} · {formatTrackMinutes(stop.duration_minutes)}
+                              <a
+                                href={`https://www.google.com/maps?q=${stop.lat},${stop.lng}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-2 text-primary-600 dark:text-primary-400 hover:underline"
+                              >
+                                Map
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">Overspeeding</h4>
+                      {track.overspeed_events.length === 0 ? (
+                        <p className="text-gray-500 dark:text-gray-400">None</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {track.overspeed_events.map(event => (
+                            <li key={event.started_at} className="text-gray-700 dark:text-gray-300">
+                              {formatTime(event.started_at)} · {event.max_speed_kmph} km/h for {formatTrackMinutes(event.duration_minutes)}
+                              <a
+                                href={`https://www.google.com/maps?q=${event.lat},${event.lng}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-2 text-primary-600 dark:text-primary-400 hover:underline"
+                              >
+                                Map
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripGpsTrackPanel;
@@ -1,5 +1,5 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { Trip, Vehicle, Driver, Warehouse } from '@/types';
+import { Trip, Vehicle, Driver, Warehouse, Customer } from '@/types';
 import { format, parseISO, isValid, differenceInDays } from 'date-fns';
 import { MapPin, User, Truck, Calendar, Fuel, IndianRupee, Edit2, Eye, TrendingUp, AlertTriangle, Clock, Building2, Package, Navigation, ChevronRight, Activity, Target, ArrowRight } from 'lucide-react';
 import { getWarehouse, getDestinationByAnyId } from '../../utils/storage';
@@ -12,6 +12,7 @@ interface TripListViewProps {
   vehicles: Vehicle[];
   drivers: Driver[];
   warehouses?: Warehouse[];
+  customers?: Customer[];
   onSelectTrip: (trip: Trip) => void;
   onPnlClick?: (e: React.MouseEvent, trip: Trip) => void;
   onEditTrip?: (trip: Trip) => void;
@@ -139,6 +140,7 @@ const TripListView: React.FC<TripListViewProps> = ({
   vehicles, 
   drivers,
   warehouses = [],
+  customers = [],
   onSelectTrip,
   onPnlClick,
   onEditTrip,
@@ -156,6 +158,9 @@ const TripListView: React.FC<TripListViewProps> = ({
   
   const warehousesMap = useMemo(() => 
     new Map(warehouses.map(w => [w.id, w])), [warehouses]);
+
+  const customersMap = useMemo(() =>
+    new Map(customers.map(c => [c.id, c])), [customers]);
   
   const displayTrips = Array.isArray(trips) ? trips : [];
   
@@ -184,6 +189,7 @@ const TripListView: React.FC<TripListViewProps> = ({
         displayTrips.map(trip => {
           const vehicle = vehiclesMap.get(trip.vehicle_id);
           const driver = driversMap.get(trip.driver_id);
+          const customerName = (trip.customer_id && customersMap.get(trip.customer_id)?.name) || trip.customer_name;
           const warehouse = warehousesMap.get(trip.warehouse_id);
           const isExpanded = expandedTrip === trip.id;
           const metrics = getPerformanceMetrics(trip);
@@ -440,10 +446,10 @@ const TripListView: React.FC<TripListViewProps> = ({
                     )}
                     
                     {/* Customer */}
-                    {trip.customer_name && (
+                    {customerName && (
                       <div>
                         <p className="text-xs text-gray-500 mb-1">Customer</p>
-                        <p className="font-medium">{trip.customer_name}</p>
+                        <p className="font-medium">{customerName}</p>
                       </div>
                     )}
                     
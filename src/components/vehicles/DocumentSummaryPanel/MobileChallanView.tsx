@@ -11,23 +11,15 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertTriangle, ChevronDown, ChevronUp, Clock, IndianRupee, Calendar, MapPin } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
-
-interface Challan {
-  challan_no: string;
-  date: string;
-  amount: number | string;
-  status: string;
-  offence: string;
-  area?: string;
-  state?: string;
-}
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { VehicleChallan } from '@/types';
+import { CHALLAN_PAYMENT_STATUS_LABELS, getChallanOutstanding } from '@/utils/challans';
 
 interface MobileChallanViewProps {
   totalChallans?: number;
   pendingAmount?: number;
   lastChecked?: string;
-  challans?: Challan[];
+  challans?: VehicleChallan[];
   onRefresh: () => void;
   isRefreshing: boolean;
   onViewAll?: () => void;
@@ -53,7 +45,7 @@ export const MobileChallanView: React.FC<MobileChallanViewProps> = ({
     }
   };
 
-  const pendingChallans = challans.filter(c => c.status !== 'Paid');
+  const pendingChallans = challans.filter(c => c.payment_status !== 'paid');
   const hasPendingChallans = pendingChallans.length > 0;
 
   return (
@@ -114,14 +106,12 @@ export const MobileChallanView: React.FC<MobileChallanViewProps> = ({
             >
               <div className="px-4 py-3 space-y-2 max-h-60 overflow-y-auto">
                 {challans.slice(0, 3).map((challan, index) => {
-                  const isPending = challan.status !== 'Paid';
-                  const amount = typeof challan.amount === 'string' 
-                    ? parseFloat(challan.amount) || 0 
-                    : challan.amount;
+                  const isPending = challan.payment_status !== 'paid';
+                  const amount = isPending ? getChallanOutstanding(challan) : challan.amount;
 
                   return (
                     <div
-                      key={index}
+                      key={challan.id || index}
                       className={`p-3 rounded-lg border ${
                         isPending 
                           ? 'bg-white border-yellow-200' 
@@ -137,7 +127,7 @@ export const MobileChallanView: React.FC<MobileChallanViewProps> = ({
                             ? 'bg-yellow-100 text-yellow-800'
                             : 'bg-green-100 text-green-800'
                         }`}>
-                          {challan.status}
+                          {CHALLAN_PAYMENT_STATUS_LABELS[challan.payment_status]}
                         </div>
                       </div>
                       
@@ -145,12 +135,18 @@ export const MobileChallanView: React.FC<MobileChallanViewProps> = ({
                         {challan.offence}
                       </div>
 
+                      {challan.driver?.name && (
+                        <div className="text-xs text-gray-600 mb-1">
+                          Driver: {challan.driver.name}
+                        </div>
+                      )}
+
                       <div className="flex items-center justify-between text-xs">
                         <div className="flex items-center gap-3 text-gray-600">
-                          {challan.date && (
+                          {challan.challan_date && (
                             <div className="flex items-center gap-1">
                               <Calendar className="h-3 w-3" />
-                              <span>{challan.date}</span>
+                              <span>{format(parseISO(challan.challan_date), 'dd MMM yyyy')}</span>
                             </div>
                           )}
                           {challan.area && (
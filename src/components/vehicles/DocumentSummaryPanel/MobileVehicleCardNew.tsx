@@ -10,10 +10,11 @@
  * - Modern, polished design
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown, ChevronUp, RefreshCw, AlertTriangle, Paperclip, AlertCircle, Clock, CheckCircle, FileX } from 'lucide-react';
-import { Vehicle } from '@/types';
+import { Vehicle, VehicleChallan } from '@/types';
+import { getVehicleChallans } from '@/utils/api/challans';
 import { MobileQuickStats } from './MobileQuickStats';
 import { MobileDocumentActions } from './MobileDocumentActions';
 import { MobileChallanView } from './MobileChallanView';
@@ -66,6 +67,14 @@ export const MobileVehicleCardNew: React.FC<MobileVehicleCardNewProps> = ({
   onViewChallanDetails
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [challanHistory, setChallanHistory] = useState<VehicleChallan[]>([]);
+
+  // Stored challan history, reloaded after each lookup finishes
+  useEffect(() => {
+    if (isExpanded && !isRefreshingChallan && vehicleData?.id) {
+      getVehicleChallans(vehicleData.id).then(setChallanHistory);
+    }
+  }, [isExpanded, isRefreshingChallan, vehicleData?.id]);
 
   // Get gradient background based on 4 CRITICAL docs only (Insurance, Tax, Permit, Fitness)
   const getHeaderGradient = () => {
@@ -435,7 +444,7 @@ export const MobileVehicleCardNew: React.FC<MobileVehicleCardNewProps> = ({
                 totalChallans={vehicleData?.total_challans || 0}
                 pendingAmount={vehicleData?.pending_challan_amount || 0}
                 lastChecked={vehicleData?.challan_last_checked}
-                challans={[]}
+                challans={challanHistory}
                 onRefresh={() => onRefreshChallan?.(vehicle.id)}
                 isRefreshing={isRefreshingChallan}
                 onViewAll={() => onViewChallanDetails?.(vehicle.id)}
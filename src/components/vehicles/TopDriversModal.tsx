@@ -1,23 +1,34 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, Medal } from 'lucide-react';
-
-interface TopDriver {
-  id: string;
-  name: string;
-  mileage: number;
-}
+import { DriverLeaderboardEntry } from '../../types';
+import { getCurrentDriverLeaderboard } from '../../utils/api/driverRanking';
+import { formatMileage } from '../../utils/driverRating';
 
 interface TopDriversModalProps {
   isOpen: boolean;
   onClose: () => void;
-  topDrivers: TopDriver[];
+  limit?: number;
 }
 
 const TopDriversModal: React.FC<TopDriversModalProps> = ({
   isOpen,
   onClose,
-  topDrivers
+  limit = 5
 }) => {
+  const [topDrivers, setTopDrivers] = useState<DriverLeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setLoading(true);
+    getCurrentDriverLeaderboard('monthly')
+      .then(board => {
+        setTopDrivers((board?.entries || []).filter(entry => entry.rank !== null).slice(0, limit));
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, limit]);
+
   if (!isOpen) return null;
 
   return (
@@ -35,16 +46,24 @@ const TopDriversModal: React.FC<TopDriversModalProps> = ({
             <X className="h-5 w-5" />
           </button>
         </div>
-        
+
         <div className="p-4">
-          {topDrivers.length > 0 ? (
+          {loading ? (
+            <p className="text-center py-6 text-gray-500">Loading rankings…</p>
+          ) : topDrivers.length > 0 ? (
             <ol className="space-y-3">
-              {topDrivers.map((driver, index) => (
-                <li key={driver.id} className="flex items-center p-3 bg-gray-50 rounded-lg">
-                  <span className="font-bold text-lg text-gray-500 mr-4">{index + 1}</span>
+              {topDrivers.map(driver => (
+                <li key={driver.driver_id} className="flex items-center p-3 bg-gray-50 rounded-lg">
+                  <span className="font-bold text-lg text-gray-500 mr-4">{driver.rank}</span>
                   <div className="flex-1">
-                    <p className="font-medium text-gray-900">{driver.name}</p>
-                    <p className="text-primary-600 font-medium">{driver.mileage.toFixed(2)} km/L</p>
+                    <p className="font-medium text-gray-900">{driver.driver_name}</p>
+                    <p className="text-sm text-gray-500">
+                      {driver.trips} trips · {formatMileage(driver.avg_mileage)}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-primary-600 font-medium">{driver.score?.toFixed(0)}</p>
+                    <p className="text-xs text-gray-500">⭐ {driver.rating}</p>
                   </div>
                 </li>
               ))}
@@ -53,10 +72,10 @@ const TopDriversModal: React.FC<TopDriversModalProps> = ({
             <p className="text-center py-6 text-gray-500">No driver performance data available.</p>
           )}
         </div>
-        
+
         <div className="p-4 border-t border-gray-200 bg-gray-50">
           <p className="text-sm text-gray-500">
-            Performance is calculated based on average fuel efficiency (km/L) from trips this month.
+            Ranked this month on mileage, trip completion, breakdowns, document compliance and expenses, weighted as set in Driver Ranking Settings.
           </p>
         </div>
       </div>
@@ -64,4 +83,4 @@ const TopDriversModal: React.FC<TopDriversModalProps> = ({
   );
 };
 
-export default TopDriversModal;
\ No newline at end of file
+export default TopDriversModal;
@@ -69,7 +69,7 @@ const VehicleTripsTab: React.FC<VehicleTripsTabProps> = ({ vehicleId }) => {
       
       // Get raw trips data first for debugging
       const { data: rawTrips, error: rawError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*')
         .eq('vehicle_id', vehicleId)
         .limit(10);
@@ -1,8 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, FileText, Link as LinkIcon } from 'lucide-react';
-import { Vehicle } from '@/types';
+import { useTranslation } from 'react-i18next';
+import { MessageTemplate, MessageTemplateKey, MessageVariables, Vehicle } from '@/types';
 import Button from '../ui/Button';
 import WhatsAppIcon from '../ui/WhatsAppIcon';
+import { getMessageTemplates } from '../../utils/api/messageTemplates';
+import { formatTemplateDate, resolveMessage, toMessageLanguage } from '../../utils/messageTemplates';
 
 interface VehicleWhatsAppShareModalProps {
   isOpen: boolean;
@@ -27,68 +30,69 @@ const VehicleWhatsAppShareModal: React.FC<VehicleWhatsAppShareModalProps> = ({
 }) => {
   // Add state for showing document files section
   const [showDocumentFiles, setShowDocumentFiles] = useState(false);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const { i18n } = useTranslation();
+
+  useEffect(() => {
+    if (isOpen) {
+      getMessageTemplates().then(setTemplates);
+    }
+  }, [isOpen]);
 
   if (!isOpen) return null;
   
-  // Generate Vehicle Details message
-  const generateVehicleDetailsMessage = () => {
-    return encodeURIComponent(
-      `🚛 *Vehicle Snapshot (Auto Vital Solution)*\n\n` +
-      `📌 *Registration:* ${vehicle.registration_number}\n` +
-      `🏷️ *Make & Model:* ${vehicle.make} ${vehicle.model} (${vehicle.year})\n` +
-      `🛞 *Type:* ${vehicle.type.charAt(0).toUpperCase() + vehicle.type.slice(1)} | ${vehicle.fuel_type.charAt(0).toUpperCase() + vehicle.fuel_type.slice(1)}\n` +
-      `⚙️ *Engine No:* ${vehicle.engine_number || 'N/A'}\n` +
-      `🔩 *Chassis No:* ${vehicle.chassis_number || 'N/A'}\n` +
-      `⚖️ *GVW/ULW:* ${vehicle.unladen_weight ? `${vehicle.unladen_weight} kg` : 'N/A'} ${vehicle.unladen_weight ? '/ N/A' : ''}\n` +
-      `🛣️ *Current Odometer:* ${vehicle.current_odometer.toLocaleString()} km\n` +
-      `📦 *Axle Count:* ${vehicle.cylinders || 'N/A'} | *Wheelbase:* ${vehicle.wheelbase || 'N/A'}\n` +
-      `🎨 *Color:* ${vehicle.color || 'N/A'} | *Body Type:* ${vehicle.vehicle_class || 'N/A'}\n` +
-      `🧾 *Owner:* ${vehicle.owner_name || 'N/A'}\n\n` +
-      `✅ Track & manage your fleet on: www.autovitalsolution.com`
-    );
-  };
-  
-  // Generate Document Expiry message
-  const generateDocumentExpiryMessage = () => {
-    return encodeURIComponent(
-      `📄 *Document Validity (Auto Vital Solution)*\n\n` +
-      `🛻 ${vehicle.registration_number} - ${vehicle.make} ${vehicle.model}\n\n` +
-      `🧾 *RC Expiry:* ${vehicle.rc_expiry_date ? new Date(vehicle.rc_expiry_date).toLocaleDateString() : 'N/A'}\n` +
-      `🛡️ *Insurance:* ${vehicle.insurance_expiry_date ? new Date(vehicle.insurance_expiry_date).toLocaleDateString() : 'N/A'}\n` +
-      `📝 *Fitness:* ${vehicle.fitness_expiry_date ? new Date(vehicle.fitness_expiry_date).toLocaleDateString() : 'N/A'}\n` +
-      `🚦 *Permit:* ${vehicle.permit_expiry_date ? new Date(vehicle.permit_expiry_date).toLocaleDateString() : 'N/A'}\n` +
-      `🌬️ *PUC:* ${vehicle.puc_expiry_date ? new Date(vehicle.puc_expiry_date).toLocaleDateString() : 'N/A'}\n` +
-      `💰 *Tax Paid Until:* ${vehicle.tax_paid_upto ? new Date(vehicle.tax_paid_upto).toLocaleDateString() : 'N/A'}\n\n` +
-      `✅ Track & manage your fleet on: www.autovitalsolution.com`
-    );
-  };
+  const language = toMessageLanguage(i18n.language);
+  const capitalize = (value?: string) => value ? value.charAt(0).toUpperCase() + value.slice(1) : '';
 
-  // Generate Document File message
-  const generateDocumentFileMessage = (docType: string, url: string) => {
-    return encodeURIComponent(
-      `📄 *Document: ${docType} for ${vehicle.registration_number}*\n\n` +
-      `View PDF: ${url}\n\n` +
-      `✅ Shared via Auto Vital Solution`
-    );
+  const shareOnWhatsApp = (key: MessageTemplateKey, variables: MessageVariables) => {
+    const { body } = resolveMessage(key, variables, language, templates);
+    window.open(`https://wa.me/?text=${encodeURIComponent(body)}`, '_blank');
   };
-  
+
   // Handle share on WhatsApp
   const handleShareVehicleDetails = () => {
-    const message = generateVehicleDetailsMessage();
-    window.open(`https://wa.me/?text=${message}`, '_blank');
+    shareOnWhatsApp('vehicle_details', {
+      vehicle_registration: vehicle.registration_number,
+      make: vehicle.make,
+      model: vehicle.model,
+      year: vehicle.year,
+      vehicle_type: capitalize(vehicle.type),
+      fuel_type: capitalize(vehicle.fuel_type),
+      engine_number: vehicle.engine_number,
+      chassis_number: vehicle.chassis_number,
+      unladen_weight: vehicle.unladen_weight ? `${vehicle.unladen_weight} kg` : '',
+      odometer: vehicle.current_odometer.toLocaleString(),
+      cylinders: vehicle.cylinders,
+      wheelbase: vehicle.wheelbase,
+      color: vehicle.color,
+      body_type: vehicle.vehicle_class,
+      owner_name: vehicle.owner_name
+    });
     onClose();
   };
   
   const handleShareDocumentDates = () => {
-    const message = generateDocumentExpiryMessage();
-    window.open(`https://wa.me/?text=${message}`, '_blank');
+    shareOnWhatsApp('vehicle_document_dates', {
+      vehicle_registration: vehicle.registration_number,
+      make: vehicle.make,
+      model: vehicle.model,
+      rc_expiry: formatTemplateDate(vehicle.rc_expiry_date),
+      insurance_expiry: formatTemplateDate(vehicle.insurance_expiry_date),
+      fitness_expiry: formatTemplateDate(vehicle.fitness_expiry_date),
+      permit_expiry: formatTemplateDate(vehicle.permit_expiry_date),
+      puc_expiry: formatTemplateDate(vehicle.puc_expiry_date),
+      tax_expiry: formatTemplateDate(vehicle.tax_paid_upto)
+    });
     onClose();
   };
 
   // Handle share document file
   const handleShareDocumentFile = (docType: string, url: string) => {
-    const message = generateDocumentFileMessage(docType, url);
-    window.open(`https://wa.me/?text=${message}`, '_blank');
+    shareOnWhatsApp('document_share', {
+      document_type: docType,
+      document_owner: vehicle.registration_number,
+      document_url: url
+    });
   };
   
   // Check if any document URLs exist
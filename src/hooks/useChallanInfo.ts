@@ -2,20 +2,12 @@ import { useState } from 'react';
 import { supabase } from '@/utils/supabaseClient';
 import { toast } from 'react-toastify';
 import { createLogger } from '../utils/logger';
+import { FetchedChallan } from '../types';
+import { saveFetchedChallans } from '../utils/api/challans';
 
 const logger = createLogger('useChallanInfo');
 
-export interface Challan {
-  challan_no: string;
-  date: string;
-  accused_name: string;
-  challan_status: string;
-  amount: number | string;  // Can be empty string
-  state: string;
-  area: string;
-  offence: string;
-  offences?: Array<{ offence_name: string }>;  // Changed from offence_list
-}
+export type Challan = FetchedChallan;
 
 export interface ChallanInfo {
   vehicleId: string;
@@ -99,6 +91,15 @@ export const useChallanInfo = () => {
         }
         
         setChallans(data.response);
+
+        // Keep history so trends and driver attribution survive the next lookup
+        if (!hasMockData) {
+          try {
+            await saveFetchedChallans(cleanedData.vehicleId, data.response.challans || []);
+          } catch (saveError) {
+            logger.error('Error saving challan history:', saveError);
+          }
+        }
         
         // Update the vehicle record with challan info
         if (data.response.total > 0) {
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { OfflineTripEntry } from '../types';
+import {
+  OFFLINE_TRIPS_CHANGED_EVENT,
+  getQueuedTrips,
+  resolveOfflineTripConflict,
+  syncOfflineTrips
+} from '../utils/offlineTripQueue';
+import { TRIP_SYNC_REQUESTED_EVENT } from '../utils/serviceWorker';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('useOfflineTripSync');
+
+/**
+ * Offline trip queue state, synced automatically when the device comes back
+ * online or the service worker requests it
+ */
+export const useOfflineTripSync = () => {
+  const [entries, setEntries] = useState<OfflineTripEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setEntries(await getQueuedTrips());
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) {
+      toast.warning('Trips will sync when you are back online');
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const result = await syncOfflineTrips();
+      if (result.synced > 0) {
+        toast.success(`${result.synced} offline trip${result.synced === 1 ? '' : 's'} synced`);
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} offline trip${result.conflicts === 1 ? '' : 's'} overlap existing trips`);
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} offline trip${result.failed === 1 ? '' : 's'} could not be synced`);
+      }
+    } catch (error) {
+      logger.error('Error syncing offline trips:', error);
+    } finally {
+      setIsSyncing(false);
+      refresh();
+    }
+  }, [refresh]);
+
+  const resolveConflict = useCallback(async (entry: OfflineTripEntry, resolution: 'keep' | 'discard') => {
+    await resolveOfflineTripConflict(entry, resolution);
+    if (resolution === 'keep') {
+      syncNow();
+    }
+  }, [syncNow]);
+
+  useEffect(() => {
+    refresh().then(() => {
+      if (navigator.onLine) {
+        syncOfflineTrips().then(result => {
+          if (result.synced > 0) {
+            toast.success(`${result.synced} offline trip${result.synced === 1 ? '' : 's'} synced`);
+          }
+        });
+      }
+    });
+
+    const handleOnline = () => { syncNow(); };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener(TRIP_SYNC_REQUESTED_EVENT, handleOnline);
+    window.addEventListener(OFFLINE_TRIPS_CHANGED_EVENT, refresh);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener(TRIP_SYNC_REQUESTED_EVENT, handleOnline);
+      window.removeEventListener(OFFLINE_TRIPS_CHANGED_EVENT, refresh);
+    };
+  }, [refresh, syncNow]);
+
+  return {
+    entries,
+    pendingCount: entries.filter(e => e.status !== 'conflict').length,
+    conflicts: entries.filter(e => e.status === 'conflict'),
+    isSyncing,
+    syncNow,
+    resolveConflict
+  };
+};
@@ -1,11 +1,15 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../utils/supabaseClient';
-import { Permissions, OrganizationUser, UserRole } from '../types/permissions';
+import { Permissions, OrganizationUser, PermissionAction, PermissionModule, UserRole } from '../types/permissions';
 import { createLogger } from '../utils/logger';
+import { hasPermission, resolvePermissions } from '../utils/permissionMatrix';
+import { clearPermissionCheckCache } from '../utils/api/permissions';
+import { getUserActiveOrganization } from '../utils/supaHelpers';
 
 const logger = createLogger('usePermissions');
 
-const PERMISSIONS_CACHE_KEY = 'fleet_user_permissions';
+// v2: permissions carry the action matrix; older cached entries are ignored
+const PERMISSIONS_CACHE_KEY = 'fleet_user_permissions_v2';
 const PERMISSIONS_TIMESTAMP_KEY = 'fleet_user_permissions_timestamp';
 const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
 
@@ -15,6 +19,7 @@ export const clearPermissionsCache = () => {
     localStorage.removeItem(PERMISSIONS_CACHE_KEY);
     localStorage.removeItem(PERMISSIONS_TIMESTAMP_KEY);
     sessionStorage.removeItem(PERMISSIONS_CACHE_KEY); // Clean old sessionStorage too
+    clearPermissionCheckCache();
   } catch (error) {
     logger.error('Failed to clear permissions cache:', error);
   }
@@ -24,6 +29,7 @@ export const usePermissions = (): {
   permissions: Permissions | null;
   loading: boolean;
   refetch: () => Promise<void>;
+  can: (module: PermissionModule, action?: PermissionAction) => boolean;
 } => {
   // Initialize with cached permissions if available and not expired
   const [permissions, setPermissions] = useState<Permissions | null>(() => {
@@ -84,32 +90,50 @@ export const usePermissions = (): {
       if (userError) throw userError;
       if (!user) throw new Error('No authenticated user found');
 
+      // Members can belong to several organizations; use the active one, as
+      // the data layer does
+      const activeOrganizationId = await getUserActiveOrganization(user.id);
+
       // Single optimized query with proper left join
-      const { data: orgUser, error: orgError } = await supabase
+      let membershipQuery = supabase
         .from('organization_users')
         .select(`
           role,
           organization_id,
+          is_active,
+          custom_role_id,
+          organization_roles (
+            name,
+            permissions,
+            hidden_fields
+          ),
           organizations (
             name
           )
         `)
-        .eq('user_id', user.id)
-        .single();
+        .eq('user_id', user.id);
+      if (activeOrganizationId) {
+        membershipQuery = membershipQuery.eq('organization_id', activeOrganizationId);
+      }
+      const { data: orgUser, error: orgError } = await membershipQuery.limit(1).maybeSingle();
 
       let organizationName = 'Organization';
       let userRole: UserRole = 'data_entry';
       let organizationId: string | null = null;
+      let customRole: (NonNullable<OrganizationUser['organization_roles']> & { id: string }) | null = null;
 
-      if (orgError) {
-        logger.error('Error fetching organization user:', orgError);
+      if (orgError || !orgUser) {
+        if (orgError) logger.error('Error fetching organization user:', orgError);
         
         // ✅ FALLBACK: If no organization_users record, check if user owns any organizations directly
-        const { data: ownedOrg, error: ownedError } = await supabase
+        let ownedQuery = supabase
           .from('organizations')
           .select('id, name')
-          .eq('owner_id', user.id)
-          .single();
+          .eq('owner_id', user.id);
+        if (activeOrganizationId) {
+          ownedQuery = ownedQuery.eq('id', activeOrganizationId);
+        }
+        const { data: ownedOrg, error: ownedError } = await ownedQuery.limit(1).maybeSingle();
 
         if (!ownedError && ownedOrg) {
           organizationName = ownedOrg.name;
@@ -130,25 +154,30 @@ export const usePermissions = (): {
           }
         }
       } else {
-        // Safely extract organization name from organization_users
-        organizationName = orgUser?.organizations?.name || 'Organization';
-        userRole = orgUser?.role as UserRole || 'data_entry';
-        organizationId = orgUser?.organization_id || null;
+        // Embedded rows may come back as a one-element array
+        const organization = Array.isArray(orgUser.organizations) ? orgUser.organizations[0] : orgUser.organizations;
+        const organizationRole = Array.isArray(orgUser.organization_roles)
+          ? orgUser.organization_roles[0]
+          : orgUser.organization_roles;
+
+        organizationName = organization?.name || 'Organization';
+        userRole = orgUser.role as UserRole || 'data_entry';
+        organizationId = orgUser.organization_id || null;
+        if (orgUser.custom_role_id && organizationRole) {
+          customRole = { id: orgUser.custom_role_id, ...organizationRole };
+        }
+      }
+
+      // Deactivated members keep their row (and history) but get no access
+      if (orgUser?.is_active === false) {
+        throw new Error('Organization membership is deactivated');
       }
 
-      // Set permissions based on role
-      const newPermissions: Permissions = {
-        role: userRole,
-        organizationId: organizationId,
-        organizationName,
-        canAccessDashboard: userRole !== 'data_entry',
-        canAccessReports: userRole !== 'data_entry',
-        canAccessAdmin: userRole === 'admin' || userRole === 'owner',
-        canAccessAlerts: userRole !== 'data_entry',
-        canViewDriverInsights: userRole !== 'data_entry',
-        canViewVehicleOverview: userRole !== 'data_entry',
-        canViewRevenue: userRole !== 'data_entry',
-      };
+      // Set permissions from the role's defaults or the organization's custom role
+      const newPermissions = resolvePermissions(
+        { role: userRole, organizationId, organizationName },
+        customRole
+      );
 
       setPermissions(newPermissions);
       
@@ -183,6 +212,10 @@ export const usePermissions = (): {
         canViewDriverInsights: false,
         canViewVehicleOverview: false,
         canViewRevenue: false,
+        customRoleId: null,
+        customRoleName: null,
+        matrix: {},
+        hiddenFields: ['revenue', 'salary'],
       });
     } finally {
       setLoading(false);
@@ -193,5 +226,8 @@ export const usePermissions = (): {
     fetchUserPermissions();
   }, []);
 
-  return { permissions, loading, refetch: fetchUserPermissions };
+  const can = (module: PermissionModule, action: PermissionAction = 'view') =>
+    !!permissions?.matrix && hasPermission(permissions.matrix, module, action);
+
+  return { permissions, loading, refetch: fetchUserPermissions, can };
 };
\ No newline at end of file
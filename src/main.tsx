@@ -12,6 +12,7 @@ import { OrganizationProvider } from "./contexts/OrganizationContext";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 import config from "./utils/env";
+import { initializeServiceWorker, handleServiceWorkerMessages } from "./utils/serviceWorker";
 import { createLogger } from './utils/logger';
 
 const logger = createLogger('main');
@@ -47,6 +48,13 @@ window.addEventListener('unhandledrejection', (event) => {
   logger.error('Unhandled promise rejection:', event.reason);
 });
 
+// The service worker caches the app shell and wakes the app to upload
+// trips captured offline; skipped in dev so Vite's HMR isn't served stale
+if (!config.isDev) {
+  initializeServiceWorker();
+  handleServiceWorkerMessages();
+}
+
 const rootElement = document.getElementById("root")!;
 const root = createRoot(rootElement);
 
@@ -65,6 +65,7 @@ import {
   Wrench,
   Route,
   TrendingUp,
+  Package,
 } from "lucide-react";
 import Input from "../components/ui/Input";
 import Select from "../components/ui/Select";
@@ -140,7 +141,7 @@ const AIAlertsPage: React.FC = () => {
     queryKey: ['drivers-map'],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('id, name, driver_photo_url, photo_url, contact_number, status, email');
 
       if (error) throw error;
@@ -706,6 +707,10 @@ const AIAlertsPage: React.FC = () => {
     switch (alertType) {
       case 'fuel_anomaly':
         return <Fuel className="h-4 w-4 text-amber-500" />;
+      case 'fuel_reconciliation':
+        return <Fuel className="h-4 w-4 text-teal-500" />;
+      case 'low_stock':
+        return <Package className="h-4 w-4 text-orange-500" />;
       case 'route_deviation':
         return <TrendingDown className="h-4 w-4 text-blue-500" />;
       case 'frequent_maintenance':
@@ -1746,6 +1751,8 @@ const AIAlertsPage: React.FC = () => {
                   options={[
                     { value: 'all', label: 'All Types' },
                     { value: 'fuel_anomaly', label: 'Fuel Anomaly' },
+                    { value: 'fuel_reconciliation', label: 'Fuel Reconciliation' },
+                    { value: 'low_stock', label: 'Low Stock' },
                     { value: 'route_deviation', label: 'Route Deviation' },
                     { value: 'frequent_maintenance', label: 'Frequent Maintenance' },
                     { value: 'documentation', label: 'Documentation' }
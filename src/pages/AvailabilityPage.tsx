@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { addDays, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { ArrowLeft, CalendarRange, PlusCircle, Search, Trash2, Truck, User } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Layout from '../components/layout/Layout';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import LoadingScreen from '../components/LoadingScreen';
+import AvailabilityCalendar from '../components/availability/AvailabilityCalendar';
+import {
+  AvailabilityBlock,
+  AvailabilityResourceType,
+  Driver,
+  DriverLeave,
+  DriverLeaveFormData,
+  DriverLeaveType,
+  ResourceAvailability,
+  Vehicle
+} from '@/types';
+import { getVehicles } from '../utils/storage';
+import { getDrivers } from '../utils/api/drivers';
+import {
+  createDriverLeave,
+  deleteDriverLeave,
+  getAvailabilityBlocks,
+  getDriverLeaves,
+  getFreeResources
+} from '../utils/api/availability';
+import { LEAVE_TYPE_LABELS, getBlockKindStyle } from '../utils/availability';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AvailabilityPage');
+
+const formatDay = (value: string) => format(parseISO(value), 'dd MMM yyyy');
+
+const emptyLeave = (): DriverLeaveFormData => ({
+  driver_id: '',
+  start_date: format(new Date(), 'yyyy-MM-dd'),
+  end_date: format(new Date(), 'yyyy-MM-dd'),
+  leave_type: 'leave',
+  reason: ''
+});
+
+interface FreeResult {
+  vehicles: ResourceAvailability<Vehicle>;
+  drivers: ResourceAvailability<Driver>;
+}
+
+const AvailabilityPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [view, setView] = useState<AvailabilityResourceType>('vehicle');
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [blocks, setBlocks] = useState<AvailabilityBlock[]>([]);
+  const [leaves, setLeaves] = useState<DriverLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [search, setSearch] = useState({
+    from: format(new Date(), 'yyyy-MM-dd'),
+    to: format(addDays(new Date(), 2), 'yyyy-MM-dd')
+  });
+  const [searching, setSearching] = useState(false);
+  const [freeResult, setFreeResult] = useState<FreeResult | null>(null);
+
+  const [leaveForm, setLeaveForm] = useState<DriverLeaveFormData>(emptyLeave);
+  const [savingLeave, setSavingLeave] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      getVehicles().then(data => setVehicles(Array.isArray(data) ? data : [])),
+      getDrivers().then(data => setDrivers(Array.isArray(data) ? data : []))
+    ])
+      .catch(error => logger.error('Error loading availability data:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const month = useMemo(() => ({
+    from: format(startOfMonth(currentDate), 'yyyy-MM-dd'),
+    to: format(endOfMonth(currentDate), 'yyyy-MM-dd')
+  }), [currentDate]);
+
+  const loadMonth = useCallback(async () => {
+    if (loading) return;
+    try {
+      const [monthBlocks, monthLeaves] = await Promise.all([
+        getAvailabilityBlocks(month.from, month.to, { vehicles, drivers }),
+        getDriverLeaves(month.from, month.to)
+      ]);
+      setBlocks(monthBlocks);
+      setLeaves(monthLeaves);
+    } catch (error) {
+      logger.error('Error loading availability:', error);
+      toast.error('Failed to load availability');
+    }
+  }, [loading, month.from, month.to, vehicles, drivers]);
+
+  useEffect(() => {
+    loadMonth();
+  }, [loadMonth]);
+
+  const vehicleResources = useMemo(() => vehicles
+    .filter(v => v.status !== 'archived')
+    .map(v => ({ id: v.id, name: v.registration_number })), [vehicles]);
+
+  const driverResources = useMemo(() => drivers
+    .filter((d): d is Driver & { id: string } => !!d.id)
+    .map(d => ({ id: d.id, name: d.name })), [drivers]);
+
+  const driverName = (id: string) => drivers.find(d => d.id === id)?.name || 'Unknown driver';
+
+  const handleFindFree = async () => {
+    if (!search.from || !search.to || search.to < search.from) {
+      toast.error('Enter a valid date range');
+      return;
+    }
+    setSearching(true);
+    try {
+      setFreeResult(await getFreeResources(search.from, search.to));
+    } catch (error) {
+      logger.error('Error finding free resources:', error);
+      toast.error('Failed to check availability');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleAddLeave = async () => {
+    if (!leaveForm.driver_id) {
+      toast.error('Select a driver');
+      return;
+    }
+    if (leaveForm.end_date < leaveForm.start_date) {
+      toast.error('End date must be on or after the start date');
+      return;
+    }
+    setSavingLeave(true);
+    try {
+      await createDriverLeave(leaveForm);
+      toast.success('Leave recorded');
+      setLeaveForm(emptyLeave());
+      await loadMonth();
+    } catch (error) {
+      logger.error('Error recording leave:', error);
+      toast.error('Failed to record leave');
+    } finally {
+      setSavingLeave(false);
+    }
+  };
+
+  const handleDeleteLeave = async (leave: DriverLeave) => {
+    if (!window.confirm(`Remove ${driverName(leave.driver_id)}'s leave from ${formatDay(leave.start_date)}?`)) return;
+    try {
+      await deleteDriverLeave(leave.id);
+      toast.success('Leave removed');
+      await loadMonth();
+    } catch (error) {
+      logger.error('Error removing leave:', error);
+      toast.error('Failed to remove leave');
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  const renderBusy = <T,>(entries: { resource: T; blocks: AvailabilityBlock[] }[], name: (resource: T) => string) => (
+    <ul className="space-y-2">
+      {entries.map(({ resource, blocks: resourceBlocks }) => (
+        <li key={name(resource)} className="text-sm">
+          <span className="font-medium text-gray-900 dark:text-gray-100">{name(resource)}</span>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {resourceBlocks.map((block, index) => (
+              <span
+                key={`${block.kind}-${block.reference_id || index}`}
+                className={`text-xs px-2 py-0.5 rounded border ${getBlockKindStyle(block.kind)}`}
+              >
+                {block.label}
+              </span>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Layout>
+      {/* Page Header */}
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+        <div className="flex items-center group">
+          <CalendarRange className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+          <h1 className="text-2xl font-display font-semibold tracking-tight-plus text-gray-900 dark:text-gray-100">{t('trips.availability')}</h1>
+        </div>
+        <p className="text-sm font-sans text-gray-500 dark:text-gray-400 mt-1 ml-7">
+          See when vehicles and drivers are out on trips, in maintenance or on leave, and find who is free to schedule
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <Button variant="outline" onClick={() => navigate('/trips/dispatch')} icon={<ArrowLeft className="h-4 w-4" />}>
+            {t('trips.dispatchBoard')}
+          </Button>
+          <Button
+            variant={view === 'vehicle' ? 'primary' : 'outline'}
+            onClick={() => setView('vehicle')}
+            icon={<Truck className="h-4 w-4" />}
+          >
+            Vehicles
+          </Button>
+          <Button
+            variant={view === 'driver' ? 'primary' : 'outline'}
+            onClick={() => setView('driver')}
+            icon={<User className="h-4 w-4" />}
+          >
+            Drivers
+          </Button>
+        </div>
+      </div>
+
+      <AvailabilityCalendar
+        resourceType={view}
+        resources={view === 'vehicle' ? vehicleResources : driverResources}
+        blocks={blocks}
+        currentDate={currentDate}
+        onMonthChange={setCurrentDate}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        {/* Find free vehicles and drivers */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Who is free?</h2>
+          <div className="flex flex-wrap items-end gap-2 mb-4">
+            <Input
+              type="date"
+              label="From"
+              inputSize="sm"
+              value={search.from}
+              onChange={(e) => setSearch({ ...search, from: e.target.value })}
+            />
+            <Input
+              type="date"
+              label="To"
+              inputSize="sm"
+              value={search.to}
+              onChange={(e) => setSearch({ ...search, to: e.target.value })}
+            />
+            <Button size="sm" onClick={handleFindFree} isLoading={searching} icon={<Search className="h-4 w-4" />}>
+              Check
+            </Button>
+          </div>
+
+          {freeResult && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-sm font-semibold text-success-700 dark:text-success-400 mb-2">
+                  Free vehicles ({freeResult.vehicles.free.length})
+                </h3>
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                  {freeResult.vehicles.free.map(v => v.registration_number).join(', ') || 'None'}
+                </p>
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">
+                  Busy ({freeResult.vehicles.busy.length})
+                </h3>
+                {renderBusy(freeResult.vehicles.busy, v => v.registration_number)}
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold text-success-700 dark:text-success-400 mb-2">
+                  Free drivers ({freeResult.drivers.free.length})
+                </h3>
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                  {freeResult.drivers.free.map(d => d.name).join(', ') || 'None'}
+                </p>
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mb-2">
+                  Busy ({freeResult.drivers.busy.length})
+                </h3>
+                {renderBusy(freeResult.drivers.busy, d => d.name)}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Driver leave */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Driver leave</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+            <Select
+              label="Driver"
+              value={leaveForm.driver_id}
+              onChange={(e) => setLeaveForm({ ...leaveForm, driver_id: e.target.value })}
+              options={[
+                { value: '', label: 'Select driver' },
+                ...driverResources.map(d => ({ value: d.id, label: d.name }))
+              ]}
+            />
+            <Select
+              label="Type"
+              value={leaveForm.leave_type}
+              onChange={(e) => setLeaveForm({ ...leaveForm, leave_type: e.target.value as DriverLeaveType })}
+              options={(Object.keys(LEAVE_TYPE_LABELS) as DriverLeaveType[]).map(type => ({
+                value: type,
+                label: LEAVE_TYPE_LABELS[type]
+              }))}
+            />
+            <Input
+              type="date"
+              label="From"
+              value={leaveForm.start_date}
+              onChange={(e) => setLeaveForm({ ...leaveForm, start_date: e.target.value })}
+            />
+            <Input
+              type="date"
+              label="To"
+              value={leaveForm.end_date}
+              onChange={(e) => setLeaveForm({ ...leaveForm, end_date: e.target.value })}
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="Reason"
+                value={leaveForm.reason || ''}
+                onChange={(e) => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button onClick={handleAddLeave} isLoading={savingLeave} icon={<PlusCircle className="h-4 w-4" />}>
+            Add Leave
+          </Button>
+
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mt-6 mb-2">
+            {format(currentDate, 'MMMM yyyy')}
+          </h3>
+          {leaves.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No leave this month</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {leaves.map(leave => (
+                <li key={leave.id} className="py-2 flex items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{driverName(leave.driver_id)}</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {' · '}{LEAVE_TYPE_LABELS[leave.leave_type]}{' · '}
+                      {formatDay(leave.start_date)}
+                      {leave.end_date !== leave.start_date && <> – {formatDay(leave.end_date)}</>}
+                    </span>
+                    {leave.reason && <p className="text-xs text-gray-500 dark:text-gray-400">{leave.reason}</p>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDeleteLeave(leave)}
+                    icon={<Trash2 className="h-4 w-4" />}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AvailabilityPage;
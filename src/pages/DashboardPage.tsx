@@ -93,7 +93,7 @@ const DashboardPage: React.FC = () => {
       if (!organizationId) return 0;
 
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .eq('organization_id', organizationId);
       
@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link, useNavigate } from 'react-router-dom';
+import { addDays, format, parseISO } from 'date-fns';
+import { ArrowLeft, CalendarClock, CalendarRange, Edit2, PlusCircle, Send, Truck, User, XCircle } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Layout from '../components/layout/Layout';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import LoadingScreen from '../components/LoadingScreen';
+import PlannedTripModal from '../components/trips/PlannedTripModal';
+import DispatchChecks from '../components/trips/DispatchChecks';
+import { Customer, Destination, DispatchCheck, Driver, PlannedTrip, Vehicle, Warehouse } from '@/types';
+import { getDestinations, getVehicles, getWarehouses } from '../utils/storage';
+import { getDrivers } from '../utils/api/drivers';
+import { getCustomers } from '../utils/api/customers';
+import { getOpenMaintenanceTasks, getPlannedTrips, setPlannedTripStatus } from '../utils/api/plannedTrips';
+import { getMaterialTypes, MaterialType } from '../utils/materialTypes';
+import {
+  DispatchMaintenanceTask,
+  buildTripFromPlan,
+  checkPlannedTrip,
+  hasDispatchBlockers
+} from '../utils/dispatchPlanning';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DispatchBoardPage');
+
+const COLUMNS: { key: string; title: string; statuses: PlannedTrip['status'][] }[] = [
+  { key: 'planned', title: 'Planned', statuses: ['planned'] },
+  { key: 'dispatched', title: 'Dispatched', statuses: ['dispatched'] },
+  { key: 'closed', title: 'Closed', statuses: ['completed', 'cancelled'] }
+];
+
+const formatDay = (value: string) => format(parseISO(value), 'dd MMM');
+
+const DispatchBoardPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  const [range, setRange] = useState({
+    from: format(new Date(), 'yyyy-MM-dd'),
+    to: format(addDays(new Date(), 14), 'yyyy-MM-dd')
+  });
+  const [plans, setPlans] = useState<PlannedTrip[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [materialTypes, setMaterialTypes] = useState<MaterialType[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [maintenanceTasks, setMaintenanceTasks] = useState<DispatchMaintenanceTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<PlannedTrip | null | undefined>(undefined);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      getVehicles().then(data => setVehicles(Array.isArray(data) ? data : [])),
+      getDrivers().then(data => setDrivers(Array.isArray(data) ? data : [])),
+      getWarehouses().then(data => setWarehouses(Array.isArray(data) ? data : [])),
+      getDestinations().then(data => setDestinations(Array.isArray(data) ? data : [])),
+      getMaterialTypes().then(setMaterialTypes),
+      getCustomers(true).then(setCustomers),
+      getOpenMaintenanceTasks().then(setMaintenanceTasks)
+    ])
+      .catch(error => logger.error('Error loading dispatch board data:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const loadPlans = useCallback(async () => {
+    if (!range.from || !range.to) return;
+    setPlans(await getPlannedTrips(range.from, range.to));
+  }, [range.from, range.to]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const vehicleById = useMemo(() => new Map(vehicles.map(v => [v.id, v])), [vehicles]);
+  const driverById = useMemo(() => new Map(drivers.map(d => [d.id, d])), [drivers]);
+
+  const checksByPlan = useMemo(() => {
+    const result = new Map<string, DispatchCheck[]>();
+    plans
+      .filter(plan => plan.status === 'planned' || plan.status === 'dispatched')
+      .forEach(plan => {
+        result.set(plan.id, checkPlannedTrip(plan, {
+          vehicle: vehicleById.get(plan.vehicle_id),
+          driver: driverById.get(plan.driver_id),
+          maintenanceTasks,
+          plannedTrips: plans
+        }));
+      });
+    return result;
+  }, [plans, vehicleById, driverById, maintenanceTasks]);
+
+  const routeLabel = (plan: PlannedTrip) => [
+    warehouses.find(w => w.id === plan.warehouse_id)?.name || 'Warehouse',
+    ...plan.destinations.map(id => destinations.find(d => d.id === id)?.name || '—')
+  ].join(' → ');
+
+  const replacePlan = (updated: PlannedTrip) =>
+    setPlans(prev => prev.some(p => p.id === updated.id)
+      ? prev.map(p => (p.id === updated.id ? updated : p))
+      : [...prev, updated].sort((a, b) => a.planned_start_date.localeCompare(b.planned_start_date)));
+
+  const handleStatus = async (plan: PlannedTrip, status: 'dispatched' | 'cancelled') => {
+    if (status === 'cancelled' && !window.confirm('Cancel this planned trip?')) return;
+
+    setUpdatingId(plan.id);
+    try {
+      replacePlan(await setPlannedTripStatus(plan.id, status));
+      toast.success(status === 'dispatched' ? 'Trip dispatched' : 'Planned trip cancelled');
+    } catch (error) {
+      logger.error('Error updating planned trip:', error);
+      toast.error('Failed to update planned trip');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // The trip sheet opens pre-filled; saving it closes the plan
+  const handleCloseTrip = (plan: PlannedTrip) => {
+    navigate('/trips', {
+      state: { clonedTripData: buildTripFromPlan(plan), plannedTripId: plan.id }
+    });
+  };
+
+  if (loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  return (
+    <Layout>
+      {/* Page Header */}
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+        <div className="flex items-center group">
+          <CalendarClock className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+          <h1 className="text-2xl font-display font-semibold tracking-tight-plus text-gray-900 dark:text-gray-100">{t('trips.dispatchBoard')}</h1>
+        </div>
+        <p className="text-sm font-sans text-gray-500 dark:text-gray-400 mt-1 ml-7">
+          Plan trips ahead, clear vehicles and drivers for dispatch, and record the trip when it closes
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <Button variant="outline" onClick={() => navigate('/trips')} icon={<ArrowLeft className="h-4 w-4" />}>
+            {t('trips.title')}
+          </Button>
+          <Button onClick={() => setEditing(null)} icon={<PlusCircle className="h-4 w-4" />}>
+            Plan Trip
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/trips/availability')} icon={<CalendarRange className="h-4 w-4" />}>
+            {t('trips.availability')}
+          </Button>
+          <div className="flex gap-2 ml-auto">
+            <Input
+              type="date"
+              label="From"
+              inputSize="sm"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+            />
+            <Input
+              type="date"
+              label="To"
+              inputSize="sm"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {COLUMNS.map(column => {
+          const columnPlans = plans.filter(plan => column.statuses.includes(plan.status));
+          return (
+            <div key={column.key} className="bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+              <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                {column.title} <span className="text-gray-400">({columnPlans.length})</span>
+              </h2>
+
+              {columnPlans.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 px-1">No trips</p>
+              ) : (
+                <div className="space-y-3">
+                  {columnPlans.map(plan => {
+                    const checks = checksByPlan.get(plan.id) || [];
+                    const blocked = hasDispatchBlockers(checks);
+                    const vehicle = vehicleById.get(plan.vehicle_id);
+                    const driver = driverById.get(plan.driver_id);
+
+                    return (
+                      <div
+                        key={plan.id}
+                        className={`bg-white dark:bg-gray-900 rounded-lg border p-3 shadow-sm ${
+                          blocked ? 'border-error-300 dark:border-error-700' : 'border-gray-200 dark:border-gray-700'
+                        }`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                            {formatDay(plan.planned_start_date)}
+                            {plan.planned_end_date !== plan.planned_start_date && <> – {formatDay(plan.planned_end_date)}</>}
+                          </p>
+                          {plan.status === 'cancelled' && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">Cancelled</span>
+                          )}
+                        </div>
+                        <p className="mt-1 text-sm font-medium text-gray-900 dark:text-gray-100">{routeLabel(plan)}</p>
+                        <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-600 dark:text-gray-400">
+                          <span className="flex items-center"><Truck className="h-3.5 w-3.5 mr-1" />{vehicle?.registration_number || '—'}</span>
+                          <span className="flex items-center"><User className="h-3.5 w-3.5 mr-1" />{driver?.name || '—'}</span>
+                          {plan.expected_load ? <span>{plan.expected_load.toLocaleString('en-IN')} kg</span> : null}
+                        </div>
+                        {plan.notes && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{plan.notes}</p>}
+
+                        {checks.length > 0 && (
+                          <div className="mt-2">
+                            <DispatchChecks checks={checks} compact />
+                          </div>
+                        )}
+
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {plan.status === 'planned' && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => handleStatus(plan, 'dispatched')}
+                                disabled={blocked}
+                                isLoading={updatingId === plan.id}
+                                icon={<Send className="h-3.5 w-3.5" />}
+                                title={blocked ? 'Clear the blockers before dispatching' : undefined}
+                              >
+                                Dispatch
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => setEditing(plan)} icon={<Edit2 className="h-3.5 w-3.5" />}>
+                                Edit
+                              </Button>
+                            </>
+                          )}
+                          {plan.status === 'dispatched' && (
+                            <Button size="sm" onClick={() => handleCloseTrip(plan)}>
+                              Close &amp; Record Trip
+                            </Button>
+                          )}
+                          {(plan.status === 'planned' || plan.status === 'dispatched') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleStatus(plan, 'cancelled')}
+                              disabled={updatingId === plan.id}
+                              icon={<XCircle className="h-3.5 w-3.5" />}
+                            >
+                              Cancel
+                            </Button>
+                          )}
+                          {plan.status === 'completed' && plan.trip_id && (
+                            <Link to={`/trips/${plan.trip_id}`} className="text-xs text-primary-600 dark:text-primary-400 hover:underline">
+                              View trip
+                            </Link>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {editing !== undefined && (
+        <PlannedTripModal
+          plan={editing}
+          vehicles={vehicles}
+          drivers={drivers}
+          warehouses={warehouses}
+          destinations={destinations}
+          materialTypes={materialTypes}
+          customers={customers}
+          maintenanceTasks={maintenanceTasks}
+          plannedTrips={plans}
+          onClose={() => setEditing(undefined)}
+          onSaved={(saved) => {
+            replacePlan(saved);
+            setEditing(undefined);
+          }}
+        />
+      )}
+    </Layout>
+  );
+};
+
+export default DispatchBoardPage;
@@ -24,6 +24,8 @@ import {
 } from "lucide-react";
 import Button from "../components/ui/Button";
 import DriverMetrics from "../components/drivers/DriverMetrics";
+import DriverLedgerPanel from "../components/drivers/DriverLedgerPanel";
+import ChallanHistoryPanel from "../components/shared/ChallanHistoryPanel";
 import { getAIAlerts } from "../utils/aiAnalytics";
 import DriverDocumentManagerModal from '../components/drivers/DriverDocumentManagerModal';
 import DriverInsightsPanel from '../components/drivers/DriverInsightsPanel';
@@ -1191,6 +1193,18 @@ const DriverPage: React.FC = () => {
           {/* Performance Metrics */}
           <DriverMetrics driver={driver} trips={trips} />
 
+          {/* Advance & Settlement Ledger */}
+          <DriverLedgerPanel
+            driver={driver}
+            trips={trips}
+            onTripUpdate={(updatedTrip) =>
+              setTrips(prev => prev.map(t => (t.id === updatedTrip.id ? updatedTrip : t)))
+            }
+          />
+
+          {/* Traffic Challans */}
+          {driver.id && <ChallanHistoryPanel driverId={driver.id} />}
+
           {/* Driver Insights Panel */}
           <DriverInsightsPanel 
             driver={driver} 
@@ -19,6 +19,7 @@ import {
   Truck,
   BarChart,
   PlusCircle,
+  Upload,
   MapPin,
   Edit2,
   Clock,
@@ -35,7 +36,8 @@ import {
 } from "lucide-react";
 import Button from "../components/ui/Button";
 import DriverForm from "../components/drivers/DriverForm";
-import { Driver, Trip } from "@/types";
+import FleetImportModal from "../components/admin/FleetImportModal";
+import { Driver, Trip, FleetImportResult } from "@/types";
 import { toast } from "react-toastify";
 import StatCard from "../components/ui/StatCard";
 import WhatsAppButton from '../components/drivers/WhatsAppButton'; // ⚠️ Confirm field refactor here
@@ -82,6 +84,7 @@ const DriversPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const searchParams = new URLSearchParams(window.location.search);
   const [isAddingDriver, setIsAddingDriver] = useState(searchParams.get('action') === 'new');
+  const [showImport, setShowImport] = useState(false);
   const [editingDriver, setEditingDriver] = useState<Driver | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
@@ -247,6 +250,16 @@ const DriversPage: React.FC = () => {
     fetchData();
   }, []);
 
+  const handleImportComplete = async (result: FleetImportResult) => {
+    setShowImport(false);
+    toast.success(`${result.created} driver${result.created === 1 ? '' : 's'} imported`);
+
+    const latest = await getDrivers();
+    setDrivers(latest);
+    setTotalDrivers(latest.length);
+    setActiveDrivers(latest.filter((d) => d.status === "active").length);
+  };
+
   const handleSaveDriver = async (data: Omit<Driver, "id">) => {
     setIsSubmitting(true);
     try {
@@ -597,6 +610,13 @@ const DriversPage: React.FC = () => {
                 {t('drivers.driverInsights')}
               </Button>
             )}
+            <Button
+              variant="outline"
+              onClick={() => setShowImport(true)}
+              icon={<Upload className="h-4 w-4" />}
+            >
+              {t('drivers.importDrivers', 'Import Drivers')}
+            </Button>
             <Button
               onClick={() => setIsAddingDriver(true)}
               icon={<PlusCircle className="h-4 w-4" />}
@@ -671,12 +691,14 @@ const DriversPage: React.FC = () => {
                 icon={<Clock className="h-5 w-5 text-primary-600" />}
               />
 
-              <StatCard
-                title="Total Salary"
-                value={`₹${(totalSalary/100000).toFixed(1)}L`}
-                subtitle="Per month"
-                icon={<IndianRupee className="h-5 w-5 text-success-600" />}
-              />
+              {!permissions?.hiddenFields?.includes('salary') && (
+                <StatCard
+                  title="Total Salary"
+                  value={`₹${(totalSalary/100000).toFixed(1)}L`}
+                  subtitle="Per month"
+                  icon={<IndianRupee className="h-5 w-5 text-success-600" />}
+                />
+              )}
 
               <StatCard
                 title="Vehicles Assigned"
@@ -885,6 +907,14 @@ const DriversPage: React.FC = () => {
           signedDocUrls={signedDocUrls}
         />
       )}
+
+      {showImport && (
+        <FleetImportModal
+          entity="driver"
+          onClose={() => setShowImport(false)}
+          onImported={handleImportComplete}
+        />
+      )}
     </Layout>
   );
 };
@@ -14,6 +14,7 @@ import Button from "../components/ui/Button";
 import KPIPanel from "../components/maintenance/KPIPanel";
 import MaintenanceCalendar from "../components/maintenance/MaintenanceCalendar";
 import MaintenanceTaskList from "../components/maintenance/MaintenanceTaskList";
+import PMCompliance from "../components/maintenance/PMCompliance";
 import MaintenanceErrorBoundary from "../components/maintenance/MaintenanceErrorBoundary";
 import { useQuery } from "@tanstack/react-query";
 import { createLogger } from '../utils/logger';
@@ -205,10 +206,16 @@ const MaintenancePage = () => {
           
           {/* View Content */}
           {viewMode === "calendar" ? (
-            <MaintenanceCalendar
-              tasks={tasks || []}
-              vehicles={vehicles || []}
-            />
+            <div className="space-y-6">
+              <MaintenanceCalendar
+                tasks={tasks || []}
+                vehicles={vehicles || []}
+              />
+              <PMCompliance
+                tasks={tasks || []}
+                vehicles={vehicles || []}
+              />
+            </div>
           ) : (
             <MaintenanceTaskList
               tasks={tasks || []}
@@ -825,6 +825,21 @@ const MaintenanceTaskPage: React.FC = () => {
     }
   };
 
+  // Tasks raised from PM schedules start as drafts until someone confirms them
+  const handleConfirmDraft = async () => {
+    if (!id || !task) return;
+
+    try {
+      const updated = await updateTask(id, { status: "open" });
+      setTask(updated ? { ...task, ...updated } : { ...task, status: "open" });
+      toast.success("Maintenance task confirmed");
+      await queryClient.invalidateQueries({ queryKey: ["maintenanceTasks"] });
+    } catch (error) {
+      logger.error("Error confirming task:", error);
+      toast.error("Failed to confirm maintenance task");
+    }
+  };
+
   const handleDelete = async () => {
     if (!id) return;
 
@@ -928,6 +943,14 @@ const MaintenanceTaskPage: React.FC = () => {
                             </>
                           )}
                         </button>
+                        {task.status === 'draft' && (
+                          <Button
+                            onClick={handleConfirmDraft}
+                            icon={<CheckCircle className="h-4 w-4" />}
+                          >
+                            Confirm Task
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           onClick={() =>
@@ -983,6 +1006,7 @@ const MaintenanceTaskPage: React.FC = () => {
                           task.status === 'resolved' ? 'bg-green-100 text-green-700 border border-green-200' :
                           task.status === 'in_progress' ? 'bg-blue-100 text-blue-700 border border-blue-200' :
                           task.status === 'open' ? 'bg-yellow-100 text-yellow-700 border border-yellow-200' :
+                          task.status === 'draft' ? 'bg-purple-100 text-purple-700 border border-purple-200' :
                           task.status === 'rework' ? 'bg-red-100 text-red-700 border border-red-200' :
                           'bg-gray-100 text-gray-700 border border-gray-200'
                         }`}>
@@ -990,6 +1014,7 @@ const MaintenanceTaskPage: React.FC = () => {
                             task.status === 'resolved' ? 'bg-green-500' :
                             task.status === 'in_progress' ? 'bg-blue-500' :
                             task.status === 'open' ? 'bg-yellow-500' :
+                            task.status === 'draft' ? 'bg-purple-500' :
                             task.status === 'rework' ? 'bg-red-500' :
                             'bg-gray-500'
                           }`}></span>
@@ -3,9 +3,21 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import MobileTripForm from '../components/trips/MobileTripForm';
 import { Trip, TripFormData, Vehicle, Driver, Destination, Warehouse } from '@/types';
 import { getTrips, getVehicles, createTrip, updateTrip, getWarehouses, getDestinations } from '../utils/storage';
+import { needsTripChangeApproval, requestTripEdit } from '../utils/api/tripChangeRequests';
 import { getDrivers } from '../utils/api/drivers';
 import { getMaterialTypes, MaterialType } from '../utils/materialTypes';
+import { isNetworkError } from '../utils/supabaseClient';
+import {
+  getOfflineReferenceData,
+  getQueuedTrips,
+  saveOfflineReferenceData,
+  saveQueuedTrip
+} from '../utils/offlineTripQueue';
+import { createOfflineTripId, getPlaceholderTripSerial, validateOfflineTrip } from '../utils/offlineTrips';
+import { requestTripBackgroundSync } from '../utils/serviceWorker';
 import { useMobileOptimization } from '../hooks/useMobileOptimization';
+import { useOfflineTripSync } from '../hooks/useOfflineTripSync';
+import OfflineTripQueuePanel from '../components/trips/OfflineTripQueuePanel';
 import { isMobileDevice, triggerHapticFeedback } from '../utils/mobileUtils';
 import { toast } from 'react-toastify';
 import { ArrowLeft, Wifi, WifiOff } from 'lucide-react';
@@ -14,6 +26,9 @@ import { createLogger } from '../utils/logger';
 
 const logger = createLogger('MobileTripPage');
 
+// Recent trips kept on the device for odometer continuity checks
+const OFFLINE_TRIP_HISTORY = 500;
+
 const MobileTripPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -26,19 +41,41 @@ const MobileTripPage: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [showOfflineIndicator, setShowOfflineIndicator] = useState(false);
+  const [showOfflineIndicator, setShowOfflineIndicator] = useState(!navigator.onLine);
+  const [formKey, setFormKey] = useState(0);
   
   const { isMobile, triggerHaptic } = useMobileOptimization();
+  const offlineQueue = useOfflineTripSync();
   
   // Get initial data from location state (for editing)
   const initialData = location.state?.tripData;
   const isEditing = !!initialData;
 
-  // Load form data
+  // Load form data, falling back to the copy cached on the device
   useEffect(() => {
+    const applyCachedData = async (): Promise<boolean> => {
+      const cached = await getOfflineReferenceData();
+      if (!cached) return false;
+
+      setTrips(cached.trips as Trip[]);
+      setVehicles(cached.vehicles);
+      setDrivers(cached.drivers);
+      setWarehouses(cached.warehouses);
+      setDestinations(cached.destinations);
+      setMaterialTypes(cached.materialTypes);
+      return true;
+    };
+
     const loadFormData = async () => {
       setLoading(true);
       try {
+        if (!navigator.onLine) {
+          if (!(await applyCachedData())) {
+            toast.error('Trip form data has not been downloaded to this device yet');
+          }
+          return;
+        }
+
         const [tripsData, vehiclesData, driversData, warehousesData, destinationsData, materialTypesData] = await Promise.all([
           getTrips(),
           getVehicles(),
@@ -48,15 +85,38 @@ const MobileTripPage: React.FC = () => {
           getMaterialTypes()
         ]);
 
+        // The loaders return empty lists when a request fails mid-flight
+        if ((!Array.isArray(vehiclesData) || vehiclesData.length === 0) && await applyCachedData()) {
+          return;
+        }
+
         setTrips(Array.isArray(tripsData) ? tripsData : []);
         setVehicles(Array.isArray(vehiclesData) ? vehiclesData : []);
         setDrivers(Array.isArray(driversData) ? driversData : []);
         setWarehouses(Array.isArray(warehousesData) ? warehousesData : []);
         setDestinations(Array.isArray(destinationsData) ? destinationsData : []);
         setMaterialTypes(Array.isArray(materialTypesData) ? materialTypesData : []);
+
+        saveOfflineReferenceData({
+          vehicles: Array.isArray(vehiclesData) ? vehiclesData : [],
+          drivers: Array.isArray(driversData) ? driversData : [],
+          warehouses: Array.isArray(warehousesData) ? warehousesData : [],
+          destinations: Array.isArray(destinationsData) ? destinationsData : [],
+          materialTypes: Array.isArray(materialTypesData) ? materialTypesData : [],
+          trips: (Array.isArray(tripsData) ? tripsData : [])
+            .slice()
+            .sort((a, b) => b.trip_start_date.localeCompare(a.trip_start_date))
+            .slice(0, OFFLINE_TRIP_HISTORY)
+            .map(({ id, vehicle_id, trip_serial_number, trip_start_date, start_km, end_km }) => ({
+              id, vehicle_id, trip_serial_number, trip_start_date, start_km, end_km
+            })),
+          cached_at: new Date().toISOString()
+        });
       } catch (error) {
         logger.error('Error loading form data:', error);
-        toast.error('Failed to load form data');
+        if (!(await applyCachedData())) {
+          toast.error('Failed to load form data');
+        }
       } finally {
         setLoading(false);
       }
@@ -65,6 +125,60 @@ const MobileTripPage: React.FC = () => {
     loadFormData();
   }, []);
 
+  // Validate against trips known on the device and queue for sync
+  const queueTripOffline = async (data: TripFormData): Promise<boolean> => {
+    const queued = await getQueuedTrips();
+    const { errors, warnings } = validateOfflineTrip(data, [
+      ...trips,
+      ...queued.map(entry => entry.trip)
+    ]);
+
+    if (errors.length > 0) {
+      errors.forEach(message => toast.error(message));
+      return false;
+    }
+    warnings.forEach(message => toast.warning(message));
+
+    const localId = createOfflineTripId();
+    const registration = vehicles.find(v => v.id === data.vehicle_id)?.registration_number || '';
+    const serial = getPlaceholderTripSerial(registration, data.trip_start_date, localId);
+    const { gps_screenshots: screenshots = [], ...tripData } = data;
+
+    // The fuel bill input holds files; keep them as blobs to upload on sync
+    const fuelBills: File[] = typeof tripData.fuel_bill_url === 'string'
+      ? []
+      : Array.from((tripData.fuel_bill_url as unknown as FileList | File[] | undefined) || []);
+    if (typeof tripData.fuel_bill_url !== 'string') {
+      delete tripData.fuel_bill_url;
+    }
+
+    await saveQueuedTrip({
+      local_id: localId,
+      status: 'pending',
+      trip: { ...tripData, trip_serial_number: serial },
+      vehicle_registration: registration,
+      gps_screenshots: screenshots
+        .filter((screenshot: { file?: File }) => screenshot.file)
+        .map((screenshot: { file: File; caption?: string }) => ({
+          name: screenshot.file.name,
+          type: screenshot.file.type,
+          blob: screenshot.file,
+          caption: screenshot.caption
+        })),
+      fuel_bills: fuelBills.map(file => ({
+        name: file.name,
+        type: file.type,
+        blob: file
+      })),
+      created_at: new Date().toISOString(),
+      attempts: 0
+    });
+
+    requestTripBackgroundSync();
+    toast.success(`Trip saved on this device as ${serial}. It will sync when you are back online.`);
+    return true;
+  };
+
   // Handle online/offline status
   useEffect(() => {
     const handleOnline = () => {
@@ -76,7 +190,7 @@ const MobileTripPage: React.FC = () => {
     const handleOffline = () => {
       setIsOnline(false);
       setShowOfflineIndicator(true);
-      toast.warning('You are now offline');
+      toast.warning('You are now offline. New trips will be saved on this device.');
     };
 
     window.addEventListener('online', handleOnline);
@@ -94,7 +208,23 @@ const MobileTripPage: React.FC = () => {
     triggerHaptic('medium');
 
     try {
-      if (isEditing && initialData.id) {
+      if (!navigator.onLine) {
+        if (isEditing) {
+          toast.error('Editing a saved trip needs a connection');
+          return;
+        }
+        if (await queueTripOffline(data)) {
+          triggerHaptic('light');
+          setFormKey(key => key + 1);
+        }
+        return;
+      }
+
+      if (isEditing && initialData.id && initialData.expense_verified && await needsTripChangeApproval()) {
+        await requestTripEdit(initialData, data);
+        toast.info('Trip is verified; your changes were sent to an admin for approval');
+        triggerHaptic('light');
+      } else if (isEditing && initialData.id) {
         await updateTrip(initialData.id, data);
         toast.success('Trip updated successfully!');
         triggerHaptic('light');
@@ -110,6 +240,11 @@ const MobileTripPage: React.FC = () => {
       }, 1500);
     } catch (error) {
       logger.error('Error saving trip:', error);
+      // Connection dropped while saving; keep the entry on the device
+      if (!isEditing && isNetworkError(error) && await queueTripOffline(data)) {
+        setFormKey(key => key + 1);
+        return;
+      }
       toast.error('Failed to save trip. Please try again.');
       triggerHaptic('heavy');
     } finally {
@@ -177,8 +312,22 @@ const MobileTripPage: React.FC = () => {
         </div>
       )}
 
+      {/* Trips captured offline */}
+      {offlineQueue.entries.length > 0 && (
+        <div className="px-4 pt-4">
+          <OfflineTripQueuePanel
+            entries={offlineQueue.entries}
+            isOnline={isOnline}
+            isSyncing={offlineQueue.isSyncing}
+            onSync={offlineQueue.syncNow}
+            onResolveConflict={offlineQueue.resolveConflict}
+          />
+        </div>
+      )}
+
       {/* Mobile Trip Form */}
       <MobileTripForm
+        key={formKey}
         onSubmit={handleSubmit}
         onCancel={handleCancel}
         isSubmitting={isSubmitting}
@@ -189,6 +338,7 @@ const MobileTripPage: React.FC = () => {
         allDestinations={destinations}
         allWarehouses={warehouses}
         allMaterialTypes={materialTypes}
+        isOffline={!isOnline}
       />
 
       {/* Connection Status Indicator */}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../utils/supabaseClient';
 import Layout from '../components/layout/Layout';
@@ -7,14 +7,18 @@ import TripForm from '../components/trips/TripForm';
 import { Trip, TripFormData, Vehicle, Driver, Destination, Warehouse } from '@/types';
 import { getTrip, getVehicle, getDestination, updateTrip, deleteTrip, getWarehouse, getTrips, getVehicles, getDestinations, getWarehouses } from '../utils/storage';
 import { getDriver, getDrivers } from '../utils/api/drivers';
+import { needsTripChangeApproval, requestTripDeletion, requestTripEdit } from '../utils/api/tripChangeRequests';
 import { getDestinationByAnyId } from '../utils/storage';
 import { getMaterialTypes, MaterialType } from '../utils/materialTypes';
 import { getAIAlerts, AIAlert } from '../utils/aiAnalytics';
 import TripMap from '../components/maps/TripMap';
+import TripConsignmentPanel from '../components/trips/TripConsignmentPanel';
+import TripGpsTrackPanel from '../components/trips/TripGpsTrackPanel';
 import { MapPin, X } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { uploadFilesAndGetPublicUrls } from '../utils/supabaseStorage';
 import { createLogger } from '../utils/logger';
+import { toast } from 'react-toastify';
 
 const logger = createLogger('TripDetailsPage');
 
@@ -39,6 +43,11 @@ const TripDetailsPage: React.FC = () => {
   const [allMaterialTypes, setAllMaterialTypes] = useState<MaterialType[]>([]);
   const [showMapModal, setShowMapModal] = useState(false);
   const [trips, setTrips] = useState<Trip[]>([]);
+
+  const tripMaterialNames = useMemo(
+    () => materialTypes.filter(m => trip?.material_type_ids?.includes(m.id)).map(m => m.name),
+    [materialTypes, trip?.material_type_ids]
+  );
   
   // Load trip data
   useEffect(() => {
@@ -164,13 +173,32 @@ const TripDetailsPage: React.FC = () => {
     navigate('/trips');
   };
   
-  const handleDelete = () => {
-    if (trip && window.confirm('Are you sure you want to delete this trip?')) {
+  const handleDelete = async () => {
+    if (!trip) return;
+
+    if (await needsTripChangeApproval()) {
+      const reason = window.prompt('Deleting a trip needs admin approval. Why should this trip be deleted?');
+      if (reason === null) return;
+      try {
+        await requestTripDeletion(trip, reason);
+        toast.info('Deletion sent to an admin for approval');
+      } catch (error) {
+        logger.error('Error requesting trip deletion:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to request deletion');
+      }
+      return;
+    }
+
+    if (window.confirm('Are you sure you want to delete this trip?')) {
       try {
-        deleteTrip(trip.id);
-        navigate('/trips');
+        if (await deleteTrip(trip.id)) {
+          navigate('/trips');
+        } else {
+          toast.error('Failed to delete trip');
+        }
       } catch (error) {
         logger.error('Error deleting trip:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to delete trip');
       }
     }
   };
@@ -239,6 +267,13 @@ const TripDetailsPage: React.FC = () => {
       // Update trip without the file object (replaced with URL)
       const { fuel_bill_file, ...tripData } = data;
 
+      if (trip.expense_verified && await needsTripChangeApproval()) {
+        await requestTripEdit(trip, { ...tripData, fuel_bill_url });
+        toast.info('Trip is verified; your changes were sent to an admin for approval');
+        setIsEditing(false);
+        return;
+      }
+
       const updatedTrip = await updateTrip(trip.id, {
         ...tripData,
         fuel_bill_url,
@@ -278,6 +313,7 @@ const TripDetailsPage: React.FC = () => {
       setIsEditing(false);
     } catch (error) {
       logger.error('Error updating trip:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update trip');
     } finally {
       setIsSubmitting(false);
     }
@@ -407,6 +443,17 @@ const TripDetailsPage: React.FC = () => {
             onDelete={handleDelete}
             onCloneTrip={handleCloneTrip}
           />
+
+          <TripConsignmentPanel
+            trip={trip}
+            vehicle={vehicle}
+            warehouse={warehouse}
+            destinations={destinations}
+            materialNames={tripMaterialNames}
+            onTripUpdated={setTrip}
+          />
+
+          <TripGpsTrackPanel trip={trip} warehouse={warehouse} destinations={destinations} />
           
           {/* Route Overview Section */}
           {warehouse && destinations.length > 0 && (
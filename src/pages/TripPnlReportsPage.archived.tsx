@@ -1,13 +1,15 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Layout from '../components/layout/Layout';
 import { usePermissions } from '../hooks/usePermissions';
 import LoadingScreen from '../components/LoadingScreen';
-import { Trip, Vehicle, Driver } from '@/types';
+import { Trip, Vehicle, Driver, Customer } from '@/types';
 import { Warehouse, Destination } from '@/types/trip';
 import { getTrips, getVehicles, getWarehouses, getDestinations } from '../utils/storage';
 import { getDrivers } from '../utils/api/drivers';
-import { Calendar, Filter, Search, Download, IndianRupee, TrendingUp, TrendingDown, BarChart3, Sparkles, Building2, Map, Truck, Calculator, RefreshCw } from 'lucide-react';
+import { getCustomers } from '../utils/api/customers';
+import { buildCustomerPnL, UNASSIGNED_CUSTOMER_ID } from '../utils/customerPnl';
+import { Calendar, Filter, Search, Download, IndianRupee, TrendingUp, TrendingDown, BarChart3, Sparkles, Building2, Map, Truck, Calculator, RefreshCw, FileText, ChevronDown, ChevronRight } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
@@ -18,6 +20,7 @@ import { toast } from 'react-toastify';
 import { supabase } from '../utils/supabaseClient';
 import { useKPICards } from '../hooks/useKPICards';
 import TripPnlModal from '../components/trips/TripPnlModal';
+import ContractRatesManager from '../components/pnl/ContractRatesManager';
 import {
   LineChart as RechartsLineChart,
   Line,
@@ -54,6 +57,7 @@ const TripPnlReportsPageFixed: React.FC = () => {
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedVehicle, setSelectedVehicle] = useState('');
@@ -67,6 +71,8 @@ const TripPnlReportsPageFixed: React.FC = () => {
   const [selectedRoute, setSelectedRoute] = useState('');
   const [activeView, setActiveView] = useState<'summary' | 'customer' | 'route' | 'insights'>('summary');
   const [selectedTripForPnl, setSelectedTripForPnl] = useState<Trip | null>(null);
+  const [showContractRates, setShowContractRates] = useState(false);
+  const [expandedCustomerId, setExpandedCustomerId] = useState<string | null>(null);
 
   // Fetch KPI data
   const { data: kpiCards } = useKPICards();
@@ -75,12 +81,13 @@ const TripPnlReportsPageFixed: React.FC = () => {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [tripsData, vehiclesData, driversData, warehousesData, destinationsData] = await Promise.all([
+      const [tripsData, vehiclesData, driversData, warehousesData, destinationsData, customersData] = await Promise.all([
         getTrips(),
         getVehicles(),
         getDrivers(),
         getWarehouses(),
-        getDestinations()
+        getDestinations(),
+        getCustomers(true)
       ]);
       
       setTrips(tripsData || []);
@@ -88,6 +95,7 @@ const TripPnlReportsPageFixed: React.FC = () => {
       setDrivers(driversData || []);
       setWarehouses(warehousesData || []);
       setDestinations(destinationsData || []);
+      setCustomers(customersData || []);
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load data');
@@ -119,7 +127,7 @@ const TripPnlReportsPageFixed: React.FC = () => {
       if (selectedStatus === 'loss' && (trip.net_profit || 0) > 0) {
         return false;
       }
-      if (selectedCustomer && trip.destination_id !== selectedCustomer) {
+      if (selectedCustomer && (trip.customer_id || UNASSIGNED_CUSTOMER_ID) !== selectedCustomer) {
         return false;
       }
       if (selectedRoute && `${trip.warehouse_id}-${trip.destination_id}` !== selectedRoute) {
@@ -171,38 +179,17 @@ const TripPnlReportsPageFixed: React.FC = () => {
     return summary;
   }, [filteredTrips]);
 
-  // Customer-wise P&L analysis
-  const customerPnL = useMemo(() => {
-    const customerMap: Record<string, {
-      customerName: string;
-      tripCount: number;
-      totalRevenue: number;
-      totalExpense: number;
-      netProfit: number;
-    }> = {};
+  const getRouteLabel = useCallback((trip: Trip) => {
+    const warehouse = warehouses.find(w => w.id === trip.warehouse_id)?.name || '';
+    const destination = destinations.find(d => d.id === trip.destination_id)?.name || '';
+    return warehouse || destination ? `${warehouse} to ${destination}` : '';
+  }, [warehouses, destinations]);
 
-    filteredTrips.forEach(trip => {
-      const destination = destinations.find(d => d.id === trip.destination_id);
-      const customerName = destination?.name || 'Unknown';
-      
-      if (!customerMap[trip.destination_id]) {
-        customerMap[trip.destination_id] = {
-          customerName,
-          tripCount: 0,
-          totalRevenue: 0,
-          totalExpense: 0,
-          netProfit: 0
-        };
-      }
-
-      customerMap[trip.destination_id].tripCount += 1;
-      customerMap[trip.destination_id].totalRevenue += trip.total_income || 0;
-      customerMap[trip.destination_id].totalExpense += trip.total_expense || 0;
-      customerMap[trip.destination_id].netProfit += trip.net_profit || 0;
-    });
-
-    return Object.values(customerMap).sort((a, b) => b.totalRevenue - a.totalRevenue);
-  }, [filteredTrips, destinations]);
+  // Customer-wise P&L analysis
+  const customerPnL = useMemo(
+    () => buildCustomerPnL(filteredTrips, customers, getRouteLabel),
+    [filteredTrips, customers, getRouteLabel]
+  );
 
   // Export to Excel
   const exportToExcel = () => {
@@ -236,7 +223,7 @@ const TripPnlReportsPageFixed: React.FC = () => {
       'Date': format(new Date(trip.created_at), 'dd-MM-yyyy'),
       'Vehicle': vehicles.find(v => v.id === trip.vehicle_id)?.registration_number || '',
       'Driver': drivers.find(d => d.id === trip.driver_id)?.name || '',
-      'Customer': destinations.find(d => d.id === trip.destination_id)?.name || '',
+      'Customer': customers.find(c => c.id === trip.customer_id)?.name || '',
       'Route': `${warehouses.find(w => w.id === trip.warehouse_id)?.name || ''} to ${destinations.find(d => d.id === trip.destination_id)?.name || ''}`,
       'Income': trip.total_income || 0,
       'Expense': trip.total_expense || 0,
@@ -300,6 +287,13 @@ const TripPnlReportsPageFixed: React.FC = () => {
           >
             Add Income
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowContractRates(true)}
+            icon={<FileText className="h-4 w-4" />}
+          >
+            Contract Rates
+          </Button>
           <Button
             variant="outline"
             onClick={async () => {
@@ -421,9 +415,10 @@ const TripPnlReportsPageFixed: React.FC = () => {
                 icon={<Building2 className="h-4 w-4" />}
               >
                 <option value="">All Customers</option>
-                {destinations.map(dest => (
-                  <option key={dest.id} value={dest.id}>{dest.name}</option>
+                {customers.map(customer => (
+                  <option key={customer.id} value={customer.id}>{customer.name}</option>
                 ))}
+                <option value={UNASSIGNED_CUSTOMER_ID}>Unassigned</option>
               </Select>
               
               <Select
@@ -612,27 +607,89 @@ const TripPnlReportsPageFixed: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Trips</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Revenue</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Profit</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Margin</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Avg / Trip</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Top Route</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Last Trip</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-                    {customerPnL.slice(0, 10).map((customer) => (
-                      <tr key={customer.customerName}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
-                          {customer.customerName}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                          {customer.tripCount}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
-                          ₹{customer.totalRevenue.toLocaleString('en-IN')}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          <span className={`${customer.netProfit >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'} font-medium`}>
-                            ₹{customer.netProfit.toLocaleString('en-IN')}
-                          </span>
-                        </td>
-                      </tr>
-                    ))}
+                    {customerPnL.map((customer) => {
+                      const isExpanded = expandedCustomerId === customer.customerId;
+                      const customerTrips = isExpanded
+                        ? filteredTrips.filter(trip => (trip.customer_id || UNASSIGNED_CUSTOMER_ID) === customer.customerId)
+                        : [];
+
+                      return (
+                        <React.Fragment key={customer.customerId}>
+                          <tr
+                            className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+                            onClick={() => setExpandedCustomerId(isExpanded ? null : customer.customerId)}
+                          >
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
+                              <span className="inline-flex items-center">
+                                {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                                {customer.customerName}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {customer.totalTrips}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                              ₹{customer.totalRevenue.toLocaleString('en-IN')}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={`${customer.netProfit >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'} font-medium`}>
+                                ₹{customer.netProfit.toLocaleString('en-IN')}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {customer.profitMargin.toFixed(1)}%
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              ₹{Math.round(customer.avgTripValue).toLocaleString('en-IN')}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {customer.topRoute || '—'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                              {customer.lastTripDate ? format(new Date(customer.lastTripDate), 'dd MMM yyyy') : '—'}
+                            </td>
+                          </tr>
+                          {isExpanded && customerTrips.map(trip => (
+                            <tr
+                              key={trip.id}
+                              className="bg-gray-50 dark:bg-gray-800/50 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+                              onClick={() => setSelectedTripForPnl(trip)}
+                            >
+                              <td className="pl-12 pr-6 py-2 whitespace-nowrap text-xs font-medium text-primary-600 dark:text-primary-400">
+                                {trip.trip_serial_number}
+                                {trip.invoice_id && (
+                                  <span className="ml-2 px-1.5 py-0.5 rounded bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">Invoiced</span>
+                                )}
+                              </td>
+                              <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
+                                {format(new Date(trip.trip_start_date), 'dd MMM yyyy')}
+                              </td>
+                              <td className="px-6 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
+                                ₹{(trip.income_amount || 0).toLocaleString('en-IN')}
+                              </td>
+                              <td className="px-6 py-2 whitespace-nowrap text-xs">
+                                <span className={(trip.net_profit || 0) >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                                  ₹{(trip.net_profit || 0).toLocaleString('en-IN')}
+                                </span>
+                              </td>
+                              <td colSpan={2} className="px-6 py-2 whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
+                                {vehicles.find(v => v.id === trip.vehicle_id)?.registration_number || ''}
+                              </td>
+                              <td colSpan={2} className="px-6 py-2 whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
+                                {getRouteLabel(trip)}
+                              </td>
+                            </tr>
+                          ))}
+                        </React.Fragment>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
@@ -708,6 +765,12 @@ const TripPnlReportsPageFixed: React.FC = () => {
           }}
         />
       )}
+
+      <ContractRatesManager
+        isOpen={showContractRates}
+        onClose={() => setShowContractRates(false)}
+        customers={customers.filter(c => c.active)}
+      />
     </Layout>
   );
 };
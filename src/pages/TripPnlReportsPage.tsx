@@ -3,10 +3,12 @@ import { useNavigate, Navigate } from 'react-router-dom';
 import Layout from '../components/layout/Layout';
 import { usePermissions } from '../hooks/usePermissions';
 import LoadingScreen from '../components/LoadingScreen';
-import { Trip, Vehicle, Driver } from '@/types';
+import { Trip, Vehicle, Driver, Customer, CustomerPnL } from '@/types';
 import { Warehouse, Destination } from '@/types/trip';
 import { getTrips, getVehicles, getWarehouses, getDestinations } from '../utils/storage';
 import { getDrivers } from '../utils/api/drivers';
+import { getCustomers } from '../utils/api/customers';
+import { buildCustomerPnL } from '../utils/customerPnl';
 import { Calendar, ChevronDown, Filter, ChevronLeft, ChevronRight, X, RefreshCw, Search, Download, IndianRupee, TrendingUp, TrendingDown, BarChart3, BarChart2, Target, Eye, Printer, ArrowUpDown, MoreHorizontal, PieChart, LineChart, Activity, AlertTriangle, Users, Building2, Sparkles, TrendingDown as Loss, Zap, FileText, Settings, Package, Truck, DollarSign, AlertCircle, Info, CheckCircle, Map, MoreVertical, Calculator } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
@@ -62,19 +64,6 @@ interface PnLSummary {
   profitGrowth?: number;
 }
 
-interface CustomerPnL {
-  customerId: string;
-  customerName: string;
-  totalTrips: number;
-  totalRevenue: number;
-  totalExpenses: number;
-  netProfit: number;
-  profitMargin: number;
-  avgTripValue: number;
-  topRoute: string;
-  lastTripDate: string;
-}
-
 interface RouteAnalysis {
   route: string;
   trips: number;
@@ -148,6 +137,7 @@ const TripPnlReportsPage: React.FC = () => {
   const [trips, setTrips] = useState<Trip[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [destinations, setDestinations] = useState<Destination[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -280,12 +270,13 @@ const TripPnlReportsPage: React.FC = () => {
 
       logger.debug('Loading PNL Reports data...');
 
-      const [tripsData, vehiclesData, driversData, warehousesData, destinationsData] = await Promise.all([
+      const [tripsData, vehiclesData, driversData, warehousesData, destinationsData, customersData] = await Promise.all([
         getTrips(),
         getVehicles(),
         getDrivers(),
         getWarehouses(),
-        getDestinations()
+        getDestinations(),
+        getCustomers(true)
       ]);
 
       logger.debug('Data loaded successfully:', {
@@ -301,6 +292,7 @@ const TripPnlReportsPage: React.FC = () => {
       setDrivers(driversData);
       setWarehouses(warehousesData);
       setDestinations(destinationsData);
+      setCustomers(customersData);
     } catch (error) {
       logger.error("Error fetching PNL Reports data:", error);
       setError(error instanceof Error ? error.message : 'Unknown error occurred');
@@ -598,46 +590,14 @@ const TripPnlReportsPage: React.FC = () => {
   const getDestinationName = useCallback((destinationId: string) => destinationNameMap[destinationId] || 'N/A', [destinationNameMap]);
 
   // Calculate customer-wise P&L
-  const customerPnL = useMemo((): CustomerPnL[] => {
-    const customerMap: Record<string, CustomerPnL> = {};
-    
-    filteredTrips.forEach(trip => {
-      // Use destination as customer proxy
-      const customerId = trip.destinations?.[0] || 'unknown';
-      const customerName = customerId !== 'unknown' ? getDestinationName(customerId) : 'Unknown Customer';
-      
-      if (!customerMap[customerId]) {
-        customerMap[customerId] = {
-          customerId,
-          customerName,
-          totalTrips: 0,
-          totalRevenue: 0,
-          totalExpenses: 0,
-          netProfit: 0,
-          profitMargin: 0,
-          avgTripValue: 0,
-          topRoute: '',
-          lastTripDate: ''
-        };
-      }
-      
-      const customer = customerMap[customerId];
-      customer.totalTrips++;
-      customer.totalRevenue += trip.income_amount || 0;
-      customer.totalExpenses += trip.total_expense || 0;
-      customer.netProfit = customer.totalRevenue - customer.totalExpenses;
-      customer.avgTripValue = customer.totalRevenue / customer.totalTrips;
-      customer.profitMargin = customer.totalRevenue > 0 ? (customer.netProfit / customer.totalRevenue) * 100 : 0;
-      
-      if (!customer.lastTripDate || new Date(trip.trip_start_date) > new Date(customer.lastTripDate)) {
-        customer.lastTripDate = trip.trip_start_date;
-      }
-    });
-    
-    return Object.values(customerMap)
-      .sort((a, b) => b.totalRevenue - a.totalRevenue)
-      .slice(0, 20); // Top 20 customers
-  }, [filteredTrips, getDestinationName]);
+  const customerPnL = useMemo(
+    (): CustomerPnL[] => buildCustomerPnL(
+      filteredTrips,
+      customers,
+      trip => trip.destination_display || ''
+    ).slice(0, 20), // Top 20 customers
+    [filteredTrips, customers]
+  );
 
   // Calculate route analysis
   const routeAnalysis = useMemo((): RouteAnalysis[] => {
@@ -840,7 +800,7 @@ const TripPnlReportsPage: React.FC = () => {
       const vehicle = vehicles.find(v => v.id === trip.vehicle_id);
       const driver = drivers.find(d => d.id === trip.driver_id);
       const warehouse = warehouses.find(w => w.id === trip.warehouse_id);
-      const customerName = trip.destinations?.[0] ? getDestinationName(trip.destinations[0]) : 'N/A';
+      const customerName = customers.find(c => c.id === trip.customer_id)?.name || 'N/A';
 
       return {
         'Trip ID': trip.trip_serial_number,
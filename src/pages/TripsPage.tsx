@@ -12,16 +12,19 @@ import TripPnlModal from '../components/trips/TripPnlModal';
 import ComprehensiveFilters, { ViewMode } from '../components/trips/ComprehensiveFilters';
 import MobileFilters from '../components/trips/MobileFilters';
 import Button from '../components/ui/Button';
-import { Trip, TripFormData, Vehicle, Driver, Warehouse } from '@/types';
+import { Trip, TripFormData, Vehicle, Driver, Warehouse, Customer } from '@/types';
 import { getTrips, getVehicles, createTrip, updateTrip, getWarehouses, getDestinations } from '../utils/storage';
 import { getDrivers } from '../utils/api/drivers';
+import { getCustomers } from '../utils/api/customers';
+import { completePlannedTrip } from '../utils/api/plannedTrips';
+import { needsTripChangeApproval, requestTripEdit } from '../utils/api/tripChangeRequests';
 import { getMaterialTypes, MaterialType } from '../utils/materialTypes';
 import { validateTripSerialUniqueness } from '../utils/tripSerialGenerator';
 import { uploadFilesAndGetPublicUrls } from '../utils/supabaseStorage';
 import { searchTrips, TripFilters, useDebounce, comprehensiveSearchTrips } from '../utils/tripSearch';
 import { recalculateMileageForRefuelingTrip, recalculateAllMileageForVehicle } from '../utils/mileageRecalculation';
 import { analyzeAllTrips } from '../utils/mileageDiagnostics';
-import { PlusCircle, FileText, BarChart2, Route, ChevronLeft, ChevronRight } from 'lucide-react';
+import { PlusCircle, FileText, BarChart2, Route, ChevronLeft, ChevronRight, CalendarClock } from 'lucide-react';
 import { toast } from 'react-toastify';
 import { createLogger } from '../utils/logger';
 
@@ -36,6 +39,7 @@ const TripsPage: React.FC = () => {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [destinations, setDestinations] = useState<any[]>([]);
   const [materialTypes, setMaterialTypes] = useState<MaterialType[]>([]);
   const [isAddingTrip, setIsAddingTrip] = useState(false);
@@ -73,6 +77,8 @@ const TripsPage: React.FC = () => {
   
   // Handle cloned trip data from location state
   const [clonedTripData, setClonedTripData] = useState<Partial<TripFormData> | null>(null);
+  // Planned trip from the dispatch board being closed with this trip sheet
+  const [plannedTripId, setPlannedTripId] = useState<string | null>(null);
 
   // Check for cloned trip data or action query parameter
   useEffect(() => {
@@ -82,6 +88,7 @@ const TripsPage: React.FC = () => {
     
     if (location.state?.clonedTripData) {
       setClonedTripData(location.state.clonedTripData);
+      setPlannedTripId(location.state.plannedTripId || null);
       setEditingTrip(null); // Clear any editing trip
       setIsAddingTrip(true); // Open the add form
       
@@ -107,6 +114,11 @@ const TripsPage: React.FC = () => {
     }
   }, [location.state, location.search]);
 
+  // Customers are only used for display, so they load alongside the main data
+  useEffect(() => {
+    getCustomers(true).then(setCustomers);
+  }, []);
+
   // Load data
   useEffect(() => {
     const fetchData = async () => {
@@ -398,7 +410,17 @@ const TripsPage: React.FC = () => {
       const { fuel_bill_file, ...tripData } = data;
 
       // Add or update trip in storage
-      if (editingTrip?.id) {
+      if (editingTrip?.id && editingTrip.expense_verified && await needsTripChangeApproval()) {
+        // Verified trip edited by a maker: hold the change for admin approval
+        await requestTripEdit(editingTrip, {
+          ...tripData,
+          fuel_bill_url: fuelBillUrl || editingTrip.fuel_bill_url,
+          refuelings: data.refuelings
+        });
+        setIsAddingTrip(false);
+        setEditingTrip(null);
+        toast.info('Trip is verified; your changes were sent to an admin for approval');
+      } else if (editingTrip?.id) {
         // Update existing trip
         const updatedTrip = await updateTrip(editingTrip.id, {
           ...tripData,
@@ -448,6 +470,15 @@ const TripsPage: React.FC = () => {
         });
         
         if (newTrip) {
+          if (plannedTripId) {
+            try {
+              await completePlannedTrip(plannedTripId, newTrip.id);
+            } catch (error) {
+              logger.error('Error closing planned trip:', error);
+              toast.warning('Trip saved, but the planned trip could not be marked completed');
+            }
+          }
+
           // If this is a refueling trip, update related trips with the same mileage
           if (newTrip.refueling_done && newTrip.calculated_kmpl) {
             const { affectedTrips } = recalculateMileageForRefuelingTrip(newTrip, trips);
@@ -480,6 +511,7 @@ const TripsPage: React.FC = () => {
           setIsAddingTrip(false);
           setEditingTrip(null);
           setClonedTripData(null); // Clear cloned data after successful submission
+          setPlannedTripId(null);
           
           // Redirect to the trip details page
           navigate(`/trips/${newTrip.id}`);
@@ -553,6 +585,13 @@ const TripsPage: React.FC = () => {
                 {showDashboard ? t('trips.hideDashboard') : t('trips.showDashboard')}
               </Button>
             )}
+            <Button
+              variant="outline"
+              onClick={() => navigate('/trips/dispatch')}
+              icon={<CalendarClock className="h-4 w-4" />}
+            >
+              {t('trips.dispatchBoard')}
+            </Button>
             <Button
               onClick={() => setIsAddingTrip(true)}
               icon={<PlusCircle className="h-4 w-4" />}
@@ -586,6 +625,7 @@ const TripsPage: React.FC = () => {
                 setIsAddingTrip(false);
                 setEditingTrip(null);
                 setClonedTripData(null); // Clear cloned data on cancel
+                setPlannedTripId(null);
               }}
             >
               {t('trips.cancel')}
@@ -598,6 +638,7 @@ const TripsPage: React.FC = () => {
               setIsAddingTrip(false);
               setEditingTrip(null);
               setClonedTripData(null);
+              setPlannedTripId(null);
             }}
             isSubmitting={isSubmitting}
             trips={trips}
@@ -726,6 +767,7 @@ const TripsPage: React.FC = () => {
                   vehicles={vehicles}
                   drivers={drivers}
                   warehouses={warehouses}
+                  customers={customers}
                   onSelectTrip={handleTripSelect}
                   onPnlClick={permissions?.canViewRevenue ? handlePnlClick : undefined}
                   onEditTrip={handleEditTrip}
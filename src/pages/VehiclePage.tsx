@@ -20,6 +20,7 @@ import {
   Route,
   FileText,
   Edit,
+  FileWarning,
 } from "lucide-react";
 import { Vehicle } from "@/types";
 import Button from "../components/ui/Button";
@@ -39,6 +40,7 @@ import VehicleDetailsTab from "../components/vehicles/VehicleDetailsTab";
 import VehicleDetailsTabMobile from "../components/vehicles/VehicleDetailsTabMobile";
 import VehicleMaintenanceTab from "../components/vehicles/VehicleMaintenanceTab";
 import VehicleTripsTab from "../components/vehicles/VehicleTripsTab";
+import ChallanHistoryPanel from "../components/shared/ChallanHistoryPanel";
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('VehiclePage');
@@ -65,7 +67,7 @@ const VehiclePage: React.FC = () => {
   const [selectedVehicleForShare, setSelectedVehicleForShare] =
     useState<Vehicle | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'details' | 'overview' | 'trips' | 'maintenance'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'overview' | 'trips' | 'maintenance' | 'challans'>('details');
   
   // Set default tab based on permissions
   useEffect(() => {
@@ -529,6 +531,7 @@ const VehiclePage: React.FC = () => {
                 { id: 'overview', name: 'Overview', icon: <BarChart2 className="h-4 w-4" />, requiresPermission: 'canViewVehicleOverview' },
                 { id: 'trips', name: 'Trips', icon: <Route className="h-4 w-4" /> },
                 { id: 'maintenance', name: 'Maintenance', icon: <Wrench className="h-4 w-4" /> },
+                { id: 'challans', name: 'Challans', icon: <FileWarning className="h-4 w-4" /> },
               ].filter(tab => !tab.requiresPermission || hasPermission(tab.requiresPermission)).map((tab) => (
                 <button
                   key={tab.id}
@@ -658,6 +661,10 @@ const VehiclePage: React.FC = () => {
           {activeTab === 'trips' && (
             <VehicleTripsTab vehicleId={id || ''} />
           )}
+
+          {activeTab === 'challans' && (
+            <ChallanHistoryPanel vehicle={vehicle} />
+          )}
         </div>
       )}
       </div>
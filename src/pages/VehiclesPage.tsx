@@ -2,9 +2,10 @@ import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useTranslation } from 'react-i18next';
 import Layout from "../components/layout/Layout";
-import { Vehicle, Trip, Driver } from "@/types"; // Import the Vehicle interface
+import { Vehicle, Trip, Driver, FleetImportResult } from "@/types"; // Import the Vehicle interface
 import VehicleCardSkeleton from "../components/ui/VehicleCardSkeleton";
 import VehicleTagBadges from "../components/vehicles/VehicleTagBadges";
+import FleetImportModal from "../components/admin/FleetImportModal";
 import { cache, CACHE_KEYS } from "../utils/cache";
 
 interface VehicleWithStats extends Vehicle {
@@ -29,6 +30,7 @@ import {
   Calendar,
   PlusCircle,
   FileText,
+  Upload,
   AlertTriangle,
   TrendingUp,
   Archive,
@@ -63,6 +65,7 @@ const VehiclesPage: React.FC = () => {
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [trips, setTrips] = useState<Trip[]>([]);
   const [isAddingVehicle, setIsAddingVehicle] = useState(searchParams.get('action') === 'new');
+  const [showImport, setShowImport] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showArchived] = useState(false);
@@ -389,6 +392,25 @@ const VehiclesPage: React.FC = () => {
     cache.delete(CACHE_KEYS.VEHICLE_STATS);
   };
 
+  const handleImportComplete = async (result: FleetImportResult) => {
+    setShowImport(false);
+    toast.success(
+      `${result.created} vehicle${result.created === 1 ? '' : 's'} imported` +
+        (result.tagged > 0 ? `, ${result.tagged} tag${result.tagged === 1 ? '' : 's'} assigned` : '')
+    );
+    invalidateVehicleCache();
+
+    const latest = await getVehicles();
+    setVehicles((prev) => {
+      const known = new Set(prev.map((v) => v.id));
+      const added = latest
+        .filter((v) => !known.has(v.id))
+        .map((v) => ({ ...v, stats: { totalTrips: 0, totalDistance: 0, averageKmpl: undefined } }));
+      return [...prev, ...added];
+    });
+    setTotalVehicles((prev) => prev + result.created);
+  };
+
   const handleAddVehicle = async (data: Omit<Vehicle, "id">) => {
     setIsSubmitting(true);
     try {
@@ -751,6 +773,14 @@ const VehiclesPage: React.FC = () => {
               )}
             </div>
 
+            <Button
+              variant="outline"
+              onClick={() => setShowImport(true)}
+              icon={<Upload className="h-4 w-4" />}
+            >
+              {t('vehicles.importVehicles', 'Import Vehicles')}
+            </Button>
+
             <Button
               onClick={() => setIsAddingVehicle(true)}
               icon={<PlusCircle className="h-4 w-4" />}
@@ -1235,7 +1265,6 @@ const VehiclesPage: React.FC = () => {
       <TopDriversModal
         isOpen={showTopDriversModal}
         onClose={() => setShowTopDriversModal(false)}
-        topDrivers={topDriversThisMonth}
       />
 
       {/* Activity Log Modal */}
@@ -1262,6 +1291,15 @@ const VehiclesPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Import Modal */}
+      {showImport && (
+        <FleetImportModal
+          entity="vehicle"
+          onClose={() => setShowImport(false)}
+          onImported={handleImportComplete}
+        />
+      )}
     </Layout>
   );
 };
@@ -4,7 +4,7 @@ import Layout from '../../components/layout/Layout';
 import { usePermissions } from '../../hooks/usePermissions';
 import { Navigate } from 'react-router-dom';
 import LoadingScreen from '../../components/LoadingScreen';
-import { Settings, Users, Truck, PenTool as Tool, MapPin, Bell, FileText, Calendar, BarChart2, Database, Activity, ShieldCheck, Shield, Fuel, Building2, Hash } from 'lucide-react';
+import { Settings, Users, Truck, PenTool as Tool, MapPin, Bell, FileText, Calendar, BarChart2, Database, Activity, ShieldCheck, Shield, Fuel, Building2, Hash, Receipt, MessageSquare, Package, IndianRupee, FileCheck, UsersRound, KeyRound, ClipboardCheck } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { getVehicles } from '../../utils/storage';
 import { getDrivers } from '../../utils/api/drivers';
@@ -308,6 +308,176 @@ const AdminDashboard: React.FC = () => {
                 </div>
               </Link>
 
+              <Link
+                to="/admin/customers"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <Building2 className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.customers')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.customersDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/invoices"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <Receipt className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.invoices')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.invoicesDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/message-templates"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <MessageSquare className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.messageTemplates')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.messageTemplatesDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/fuel-reconciliation"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <Fuel className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.fuelReconciliation')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.fuelReconciliationDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/parts-inventory"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <Package className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.partsInventory')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.partsInventoryDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/freight-rates"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <IndianRupee className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.freightRates')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.freightRatesDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/document-verification"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <FileCheck className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.documentVerification')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.documentVerificationDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/team"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <UsersRound className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.team')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.teamDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/roles"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <KeyRound className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.roles')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.rolesDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
+              <Link
+                to="/admin/trip-approvals"
+                className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start space-x-3 sm:space-x-4">
+                  <div className="bg-primary-50 dark:bg-primary-900/20 p-2 sm:p-3 rounded-lg">
+                    <ClipboardCheck className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-base sm:text-lg font-display font-medium tracking-tight-plus text-gray-900 dark:text-gray-100">{t('admin.tripApprovals')}</h3>
+                    <p className="mt-0.5 sm:mt-1 text-xs sm:text-sm font-sans text-gray-500 dark:text-gray-400">
+                      {t('admin.tripApprovalsDesc')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+
               <Link
                 to="/admin/reports"
                 className="bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4 sm:p-6 hover:shadow-md transition-shadow border border-gray-200 dark:border-gray-700"
@@ -5,10 +5,11 @@ import TripsTable from '../../components/admin/TripsTable';
 import TripsSummary from '../../components/admin/TripsSummary';
 import ExcelFormatTips from '../../components/admin/ExcelFormatTips';
 import ExportOptionsModal, { ExportOptions } from '../../components/admin/ExportOptionsModal';
-import { Trip, Vehicle, Driver, Warehouse, Destination } from '@/types';
+import TripImportModal from '../../components/admin/TripImportModal';
+import { Trip, Vehicle, Driver, Warehouse, Destination, TripImportResult } from '@/types';
 import { getTrips, getVehicles, getWarehouses, getDestinations, updateTrip } from '../../utils/storage';
 import { getDrivers } from '../../utils/api/drivers';
-import { generateCSV, downloadCSV, parseCSV } from '../../utils/csvParser';
+import { generateCSV, downloadCSV, parseSpreadsheet } from '../../utils/csvParser';
 import { supabase } from '../../utils/supabaseClient';
 import { forceDataRefresh, testDatabaseConnection, clearCacheAndRefresh } from '../../utils/forceDataRefresh';
 import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, 
@@ -99,6 +100,7 @@ const AdminTripsPage: React.FC = () => {
   });
   const [sortMode, setSortMode] = useState<'recent' | 'distance' | 'expense'>('recent');
   const [showImportTips, setShowImportTips] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; rows: Record<string, unknown>[] } | null>(null);
   const sortOptions = [
     { value: 'recent', label: 'Newest first' },
     { value: 'distance', label: 'Longest distance' },
@@ -1055,18 +1057,24 @@ const AdminTripsPage: React.FC = () => {
 
   const handleImport = async (file: File) => {
     try {
-      const data = await parseCSV(file);
-      // Process imported data
-      toast.info(`Imported ${data.length} trips. Processing...`);
-      // You'd normally process these and add to the database
-      // For now, we're just showing a success message
-      toast.success(`Successfully processed ${data.length} trips`);
+      const rows = await parseSpreadsheet(file);
+      if (rows.length === 0) {
+        toast.error('No rows found in the file');
+        return;
+      }
+      setPendingImport({ fileName: file.name, rows });
     } catch (error) {
       logger.error('Error importing file:', error);
-      toast.error('Failed to import trips');
+      toast.error('Failed to read the import file');
     }
   };
 
+  const handleImportComplete = (result: TripImportResult) => {
+    setPendingImport(null);
+    toast.success(`Imported ${result.imported} trip${result.imported === 1 ? '' : 's'}`);
+    refreshData(false);
+  };
+
   const handleImportInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -1432,6 +1440,19 @@ const AdminTripsPage: React.FC = () => {
         </div>
       )}
 
+      {pendingImport && (
+        <TripImportModal
+          fileName={pendingImport.fileName}
+          rawRows={pendingImport.rows}
+          vehicles={vehicles}
+          drivers={drivers}
+          warehouses={warehouses}
+          destinations={destinations}
+          onClose={() => setPendingImport(null)}
+          onImported={handleImportComplete}
+        />
+      )}
+
       {showExportModal && (
         <ExportOptionsModal
           onExport={handleExport}
@@ -131,14 +131,14 @@ const CompleteFixedReportingDashboard: React.FC = () => {
     try {
       // Get count to bypass 1000 row limit
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString());
       
       // Get trips for the selected period with range
       const { data: trips, error: tripsError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*')
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString())
@@ -166,7 +166,7 @@ const CompleteFixedReportingDashboard: React.FC = () => {
 
       // Get active drivers
       const { count: driverCount } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('*', { count: 'exact', head: true })
         .eq('status', 'active');
 
@@ -202,13 +202,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
     try {
       // Get count for 6-month range
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', subMonths(dateRange.endDate, 6).toISOString())
         .lte('created_at', dateRange.endDate.toISOString());
       
       const { data: trips, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('created_at, start_km, end_km')
         .gte('created_at', subMonths(dateRange.endDate, 6).toISOString())
         .lte('created_at', dateRange.endDate.toISOString())
@@ -257,7 +257,7 @@ const CompleteFixedReportingDashboard: React.FC = () => {
       const utilizationData = await Promise.all(
         (vehicles || []).map(async (vehicle) => {
           const { count } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .eq('vehicle_id', vehicle.id)
             .gte('created_at', dateRange.startDate.toISOString())
@@ -283,7 +283,7 @@ const CompleteFixedReportingDashboard: React.FC = () => {
   const fetchDriverPerformance = useCallback(async () => {
     try {
       const { data: drivers, error } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('id, name')
         .eq('status', 'active')
         .limit(5);
@@ -297,14 +297,14 @@ const CompleteFixedReportingDashboard: React.FC = () => {
         (drivers || []).map(async (driver) => {
           // Get count for this driver
           const { count: driverTripCount } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .eq('driver_id', driver.id)
             .gte('created_at', dateRange.startDate.toISOString())
             .lte('created_at', dateRange.endDate.toISOString());
           
           const { data: trips } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('start_km, end_km, total_fuel_cost')
             .eq('driver_id', driver.id)
             .gte('created_at', dateRange.startDate.toISOString())
@@ -335,13 +335,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
     try {
       // Get count for expense breakdown
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString());
       
       const { data: trips, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('total_fuel_cost, total_road_expenses, driver_expense, breakdown_expense')
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString())
@@ -530,13 +530,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
     try {
       // Get count first
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString());
       
       const { data: trips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select(
           `
           *,
@@ -627,13 +627,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
 
       // Get count for current period
       const { count: currentCount } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', currentPeriodStart.toISOString())
         .lte('created_at', currentPeriodEnd.toISOString());
       
       const { data: currentTrips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*')
         .gte('created_at', currentPeriodStart.toISOString())
         .lte('created_at', currentPeriodEnd.toISOString())
@@ -641,13 +641,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
 
       // Get count for previous period
       const { count: previousCount } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', previousPeriodStart.toISOString())
         .lte('created_at', previousPeriodEnd.toISOString());
       
       const { data: previousTrips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*')
         .gte('created_at', previousPeriodStart.toISOString())
         .lte('created_at', previousPeriodEnd.toISOString())
@@ -717,13 +717,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
     try {
       // Get count for fuel analysis
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString());
       
       const { data: trips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('total_fuel_cost, start_km, end_km')
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString())
@@ -767,13 +767,13 @@ const CompleteFixedReportingDashboard: React.FC = () => {
     try {
       // Get count for expense report
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString());
       
       const { data: trips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('total_fuel_cost, total_road_expenses, driver_expense, breakdown_expense, unloading_expense, miscellaneous_expense')
         .gte('created_at', dateRange.startDate.toISOString())
         .lte('created_at', dateRange.endDate.toISOString())
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../../components/layout/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ArrowLeft, Building2, Edit2, FileText, PlusCircle, Search, UserX } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import CustomerForm from '../../components/admin/CustomerForm';
+import ContractRatesManager from '../../components/pnl/ContractRatesManager';
+import LoadingScreen from '../../components/LoadingScreen';
+import { Customer, CustomerFormData } from '../../types';
+import { getCustomers, createCustomer, updateCustomer, deactivateCustomer } from '../../utils/api/customers';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('CustomersPage');
+
+const CustomersPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showContractRates, setShowContractRates] = useState(false);
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  const loadCustomers = async () => {
+    setLoading(true);
+    try {
+      setCustomers(await getCustomers());
+    } catch (error) {
+      logger.error('Error loading customers:', error);
+      toast.error('Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredCustomers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return customers;
+    return customers.filter(c =>
+      c.name.toLowerCase().includes(term) ||
+      c.gstin?.toLowerCase().includes(term) ||
+      c.city?.toLowerCase().includes(term)
+    );
+  }, [customers, searchTerm]);
+
+  const handleSubmit = async (data: CustomerFormData) => {
+    setIsSubmitting(true);
+    try {
+      if (editingCustomer) {
+        await updateCustomer(editingCustomer.id, data);
+        toast.success('Customer updated successfully');
+      } else {
+        await createCustomer(data);
+        toast.success('Customer added successfully');
+      }
+      setShowForm(false);
+      setEditingCustomer(null);
+      loadCustomers();
+    } catch (error) {
+      logger.error('Error saving customer:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeactivate = async (customer: Customer) => {
+    if (!window.confirm(`Deactivate "${customer.name}"? Existing trips keep their customer.`)) {
+      return;
+    }
+
+    if (await deactivateCustomer(customer.id)) {
+      toast.success('Customer deactivated');
+      loadCustomers();
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <Building2 className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Customers</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Manage billing details, credit terms and contacts for the customers you haul for
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowContractRates(true)}
+              icon={<FileText className="h-4 w-4" />}
+            >
+              Contract Rates
+            </Button>
+            <Button
+              onClick={() => {
+                setEditingCustomer(null);
+                setShowForm(true);
+              }}
+              icon={<PlusCircle className="h-4 w-4" />}
+            >
+              Add Customer
+            </Button>
+          </div>
+        </div>
+
+        {showForm && (
+          <div className="mb-6">
+            <CustomerForm
+              key={editingCustomer?.id || 'new'}
+              initialData={editingCustomer || undefined}
+              onSubmit={handleSubmit}
+              onCancel={() => {
+                setShowForm(false);
+                setEditingCustomer(null);
+              }}
+              isSubmitting={isSubmitting}
+            />
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <Input
+              placeholder="Search by name, GSTIN or city..."
+              icon={<Search className="h-4 w-4" />}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+
+          {filteredCustomers.length === 0 ? (
+            <div className="p-12 text-center">
+              <Building2 className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">No customers found</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Add customers to bill trips and see customer-level P&L
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Customer</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">GSTIN</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Location</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Credit</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Primary Contact</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filteredCustomers.map(customer => {
+                    const primaryContact = customer.contacts?.find(c => c.is_primary) || customer.contacts?.[0];
+                    return (
+                      <tr key={customer.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">{customer.name}</td>
+                        <td className="px-4 py-3 text-sm font-mono text-gray-600 dark:text-gray-400">{customer.gstin || '—'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                          {[customer.city, customer.state].filter(Boolean).join(', ') || '—'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                          {customer.credit_days ?? 0} days
+                          {customer.credit_limit ? ` / ₹${customer.credit_limit.toLocaleString('en-IN')}` : ''}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                          {primaryContact ? `${primaryContact.name}${primaryContact.phone ? ` (${primaryContact.phone})` : ''}` : '—'}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setEditingCustomer(customer);
+                              setShowForm(true);
+                            }}
+                            icon={<Edit2 className="h-3 w-3" />}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="ml-2 text-red-600 hover:text-red-700"
+                            onClick={() => handleDeactivate(customer)}
+                            icon={<UserX className="h-3 w-3" />}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ContractRatesManager
+        isOpen={showContractRates}
+        onClose={() => setShowContractRates(false)}
+        customers={customers}
+      />
+    </Layout>
+  );
+};
+
+export default CustomersPage;
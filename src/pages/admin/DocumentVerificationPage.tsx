@@ -0,0 +1,266 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Check, FileCheck, RefreshCw, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Layout from '../../components/layout/Layout';
+import Button from '../../components/ui/Button';
+import Select from '../../components/ui/Select';
+import LoadingScreen from '../../components/LoadingScreen';
+import { usePermissions } from '../../hooks/usePermissions';
+import { DocumentReviewItem, DocumentReviewStatus, DocumentVerificationRun } from '../../types';
+import {
+  getDocumentReviewItems,
+  getDocumentVerificationRuns,
+  resolveDocumentReviewItem,
+  runDocumentReverification
+} from '../../utils/api/documentVerification';
+import { DOCUMENT_FIELD_LABELS, formatDocumentFieldValue } from '../../utils/documentVerification';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('DocumentVerificationPage');
+
+const STATUS_OPTIONS: { value: DocumentReviewStatus; label: string }[] = [
+  { value: 'open', label: 'Needs review' },
+  { value: 'accepted', label: 'Government value applied' },
+  { value: 'dismissed', label: 'Our value kept' },
+  { value: 'resolved', label: 'Matched on later check' }
+];
+
+const RUN_STATUS_CLASSES: Record<DocumentVerificationRun['status'], string> = {
+  running: 'bg-primary-100 text-primary-800 dark:bg-primary-900/30 dark:text-primary-300',
+  completed: 'bg-success-100 text-success-800 dark:bg-success-900/30 dark:text-success-300',
+  failed: 'bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300'
+};
+
+const formatDateTime = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM yyyy, HH:mm') : '—');
+
+const DocumentVerificationPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [runs, setRuns] = useState<DocumentVerificationRun[]>([]);
+  const [items, setItems] = useState<DocumentReviewItem[]>([]);
+  const [status, setStatus] = useState<DocumentReviewStatus>('open');
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    setItems(await getDocumentReviewItems([status]));
+  }, [status]);
+
+  useEffect(() => {
+    Promise.all([getDocumentVerificationRuns().then(setRuns), loadItems()])
+      .catch(error => logger.error('Error loading document verification:', error))
+      .finally(() => setLoading(false));
+  }, [loadItems]);
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const run = await runDocumentReverification();
+      if (run) {
+        toast.success(
+          `Checked ${run.vehicles_checked} vehicles and ${run.drivers_checked} drivers · ${run.mismatches_found} differences found`
+        );
+      }
+      await Promise.all([getDocumentVerificationRuns().then(setRuns), loadItems()]);
+    } catch (error) {
+      logger.error('Error running document re-verification:', error);
+      toast.error(error instanceof Error ? error.message : 'Re-verification failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleResolve = async (item: DocumentReviewItem, resolution: 'accepted' | 'dismissed') => {
+    setResolvingId(item.id);
+    try {
+      await resolveDocumentReviewItem(item, resolution);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast.success(resolution === 'accepted' ? 'Government value applied' : 'Our value kept');
+    } catch (error) {
+      logger.error('Error resolving document review item:', error);
+      toast.error('Failed to update the review item');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  const lastRun = runs[0];
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <FileCheck className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Document Verification</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Nightly re-check of vehicle RC and driver DL details against government records
+            {lastRun && <> · last run {formatDateTime(lastRun.started_at)}</>}
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button onClick={handleRunNow} isLoading={running} icon={<RefreshCw className="h-4 w-4" />}>
+              Run Now
+            </Button>
+          </div>
+        </div>
+
+        {/* Review queue */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm mb-6">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Differences</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Apply the government value to update our record, or keep ours if the government record is out of date
+              </p>
+            </div>
+            <Select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as DocumentReviewStatus)}
+              options={STATUS_OPTIONS}
+            />
+          </div>
+          {items.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              {status === 'open' ? 'No differences waiting for review' : 'Nothing here yet'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Record</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Field</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Ours</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Government</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      {status === 'open' ? 'Detected' : 'Closed'}
+                    </th>
+                    {status === 'open' && <th className="px-4 py-3" />}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {items.map(item => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-3 text-sm">
+                        {item.entity_type === 'vehicle' ? (
+                          <Link to={`/vehicles/${item.vehicle_id}`} className="font-medium text-primary-600 dark:text-primary-400 hover:underline">
+                            {item.vehicle?.registration_number || item.reference}
+                          </Link>
+                        ) : (
+                          <Link to={`/drivers/${item.driver_id}`} className="font-medium text-primary-600 dark:text-primary-400 hover:underline">
+                            {item.driver?.name || item.reference}
+                          </Link>
+                        )}
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {item.entity_type === 'vehicle' ? 'RC' : `DL ${item.reference}`}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{DOCUMENT_FIELD_LABELS[item.field] || item.field}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{formatDocumentFieldValue(item.stored_value)}</td>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">{formatDocumentFieldValue(item.government_value)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {formatDateTime(status === 'open' ? item.last_detected_at : item.resolved_at)}
+                      </td>
+                      {status === 'open' && (
+                        <td className="px-4 py-3 text-right whitespace-nowrap space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleResolve(item, 'accepted')}
+                            isLoading={resolvingId === item.id}
+                            icon={<Check className="h-4 w-4" />}
+                          >
+                            Apply
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleResolve(item, 'dismissed')}
+                            disabled={resolvingId === item.id}
+                            icon={<X className="h-4 w-4" />}
+                          >
+                            Keep Ours
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Run history */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Recent Runs</h2>
+          </div>
+          {runs.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">The job has not run yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Started</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Trigger</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Vehicles</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Drivers</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Differences</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Failed</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Skipped</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {runs.map(run => (
+                    <tr key={run.id}>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 whitespace-nowrap">{formatDateTime(run.started_at)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 capitalize">{run.trigger}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`inline-flex px-2 py-0.5 text-xs rounded-full capitalize ${RUN_STATUS_CLASSES[run.status]}`} title={run.error || undefined}>
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-gray-300">{run.vehicles_checked}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-gray-300">{run.drivers_checked}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-gray-300">{run.mismatches_found}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-gray-300">{run.failures}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700 dark:text-gray-300" title="Drivers without licence number or date of birth">
+                        {run.skipped}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default DocumentVerificationPage;
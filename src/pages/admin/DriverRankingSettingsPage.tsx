@@ -1,12 +1,136 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Layout from '../../components/layout/Layout';
-import { ChevronLeft, Award, TrendingUp, AlertTriangle, Fuel, Clock, BarChart2 } from 'lucide-react';
+import { ChevronLeft, Award, TrendingUp, AlertTriangle, Fuel, FileCheck, IndianRupee, BarChart2, Save, RefreshCw, Sliders } from 'lucide-react';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import Checkbox from '../../components/ui/Checkbox';
+import LoadingScreen from '../../components/LoadingScreen';
+import { usePermissions } from '../../hooks/usePermissions';
+import { DriverRankingMetric, DriverRankingPeriod, DriverRankingSettings } from '../../types';
+import {
+  DEFAULT_DRIVER_RANKING_SETTINGS,
+  DRIVER_RANKING_METRICS,
+  DRIVER_RANKING_METRIC_LABELS
+} from '../../utils/driverRating';
+import {
+  getDriverRankingSettings,
+  refreshDriverLeaderboard,
+  saveDriverRankingSettings
+} from '../../utils/api/driverRanking';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('DriverRankingSettingsPage');
+
+const METRIC_DETAILS: Record<DriverRankingMetric, { icon: React.ReactNode; help: string }> = {
+  mileage: {
+    icon: <Fuel className="h-4 w-4" />,
+    help: 'Fuel efficiency compared with the mileage baseline below'
+  },
+  trip_completion: {
+    icon: <TrendingUp className="h-4 w-4" />,
+    help: 'Share of trips closed with an end date and end odometer'
+  },
+  breakdowns: {
+    icon: <AlertTriangle className="h-4 w-4" />,
+    help: 'Trips with a breakdown expense count against the driver'
+  },
+  document_compliance: {
+    icon: <FileCheck className="h-4 w-4" />,
+    help: 'Licence validity and document verification'
+  },
+  expense_variance: {
+    icon: <IndianRupee className="h-4 w-4" />,
+    help: 'Cost per km compared with the fleet average for the period'
+  }
+};
+
+const PERIODS: DriverRankingPeriod[] = ['weekly', 'monthly', 'quarterly'];
+
+const PERIOD_OPTION_LABELS: Record<DriverRankingPeriod, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly'
+};
 
 const DriverRankingSettingsPage: React.FC = () => {
   const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+  const [settings, setSettings] = useState<DriverRankingSettings>(DEFAULT_DRIVER_RANKING_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+
+  useEffect(() => {
+    getDriverRankingSettings()
+      .then(setSettings)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const totalWeight = DRIVER_RANKING_METRICS.reduce((sum, metric) => sum + (settings.weights[metric] || 0), 0);
+
+  const setWeight = (metric: DriverRankingMetric, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      weights: { ...prev.weights, [metric]: Math.max(0, Number(value) || 0) }
+    }));
+  };
+
+  const togglePeriod = (period: DriverRankingPeriod, enabled: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      periods: enabled
+        ? PERIODS.filter(p => p === period || prev.periods.includes(p))
+        : prev.periods.filter(p => p !== period)
+    }));
+  };
+
+  const handleSave = async () => {
+    if (totalWeight <= 0) {
+      toast.error('At least one metric needs a weight');
+      return;
+    }
+    if (settings.periods.length === 0) {
+      toast.error('Select at least one ranking period');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveDriverRankingSettings(settings);
+      setSettings(prev => ({ ...prev, ...saved }));
+      toast.success('Driver ranking settings saved');
+    } catch (error) {
+      logger.error('Error saving driver ranking settings:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    setRecalculating(true);
+    try {
+      for (const period of settings.periods) {
+        await refreshDriverLeaderboard(period, new Date(), settings);
+      }
+      toast.success('Leaderboards recalculated');
+    } catch (error) {
+      logger.error('Error recalculating leaderboards:', error);
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
 
   return (
     <Layout>
@@ -25,90 +149,153 @@ const DriverRankingSettingsPage: React.FC = () => {
           >
             Back to Admin
           </Button>
+          <Button
+            onClick={handleSave}
+            isLoading={saving}
+            icon={<Save className="h-4 w-4" />}
+          >
+            Save Settings
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleRecalculate}
+            isLoading={recalculating}
+            icon={<RefreshCw className="h-4 w-4" />}
+          >
+            Recalculate Leaderboards
+          </Button>
         </div>
       </div>
 
       <div className="space-y-6">
         <div className="bg-white p-6 rounded-lg shadow-sm">
           <div className="flex items-center mb-4">
-            <Award className="h-5 w-5 text-primary-600 mr-2" /> 
+            <Award className="h-5 w-5 text-primary-600 mr-2" />
             <h2 className="text-lg font-medium text-gray-900">Performance Metrics Weights</h2>
           </div>
           <p className="text-gray-500 mb-4">
             Configure the relative importance of different metrics in calculating driver performance scores.
+            Metrics without data for a driver are left out and the remaining weights are scaled up.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            {DRIVER_RANKING_METRICS.map(metric => (
+              <div key={metric}>
+                <Input
+                  label={`${DRIVER_RANKING_METRIC_LABELS[metric]} Weight (%)`}
+                  type="number"
+                  value={settings.weights[metric]}
+                  min="0"
+                  max="100"
+                  icon={METRIC_DETAILS[metric].icon}
+                  onChange={(e) => setWeight(metric, e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">{METRIC_DETAILS[metric].help}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className={`text-sm ${totalWeight === 100 ? 'text-gray-500' : 'text-warning-600'}`}>
+            Total weight: {totalWeight}%
+            {totalWeight !== 100 && totalWeight > 0 && ' — weights will be applied proportionally'}
           </p>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm">
+          <div className="flex items-center mb-4">
+            <Sliders className="h-5 w-5 text-primary-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Metric Definitions</h2>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Select
+                label="Mileage Baseline"
+                value={settings.mileage_baseline}
+                onChange={(e) => setSettings({ ...settings, mileage_baseline: e.target.value as DriverRankingSettings['mileage_baseline'] })}
+                options={[
+                  { value: 'vehicle_average', label: 'Average of the same vehicles' },
+                  { value: 'fixed', label: 'Fixed fleet baseline' }
+                ]}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Vehicle average compares drivers with others on the same trucks; the fixed baseline is used when a vehicle has no other data
+              </p>
+            </div>
+
             <div>
               <Input
-                label="Mileage Weight (%)"
+                label="Fixed Baseline (km/L)"
                 type="number"
-                value="25"
-                min="0"
-                max="100"
-                icon={<Fuel className="h-4 w-4" />}
-                disabled={true}
+                step="0.1"
+                min="0.1"
+                value={settings.mileage_baseline_kmpl}
+                onChange={(e) => setSettings({ ...settings, mileage_baseline_kmpl: Number(e.target.value) || 0 })}
               />
-              <p className="text-xs text-gray-500 mt-1">How much importance to give to fuel efficiency</p>
             </div>
-            
+
             <div>
               <Input
-                label="Trip Completion Weight (%)"
+                label="Mileage Band (%)"
                 type="number"
-                value="25"
-                min="0" 
-                max="100"
-                icon={<TrendingUp className="h-4 w-4" />}
-                disabled={true}
+                min="1"
+                value={settings.mileage_band_pct}
+                onChange={(e) => setSettings({ ...settings, mileage_band_pct: Math.max(1, Number(e.target.value) || 0) })}
               />
-              <p className="text-xs text-gray-500 mt-1">How much importance to give to successful trip completions</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Mileage this far above the baseline scores full marks; this far below scores zero
+              </p>
             </div>
-            
+
             <div>
               <Input
-                label="KM Driven Weight (%)"
+                label="Expense Band (%)"
                 type="number"
-                value="20"
-                min="0"
-                max="100"
-                icon={<TrendingUp className="h-4 w-4" />}
-                disabled={true}
+                min="1"
+                value={settings.expense_band_pct}
+                onChange={(e) => setSettings({ ...settings, expense_band_pct: Math.max(1, Number(e.target.value) || 0) })}
               />
-              <p className="text-xs text-gray-500 mt-1">How much importance to give to distance covered</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Cost per km this far below the fleet average scores full marks; this far above scores zero
+              </p>
             </div>
-            
+
             <div>
               <Input
-                label="Complaints Weight (%)"
+                label="Points Lost per Breakdown"
                 type="number"
-                value="15"
                 min="0"
                 max="100"
-                icon={<AlertTriangle className="h-4 w-4" />}
-                disabled={true}
+                value={settings.breakdown_penalty}
+                onChange={(e) => setSettings({ ...settings, breakdown_penalty: Math.max(0, Number(e.target.value) || 0) })}
               />
-              <p className="text-xs text-gray-500 mt-1">How much importance to give to customer complaints</p>
             </div>
-            
+
             <div>
               <Input
-                label="Breakdowns Weight (%)"
+                label="Minimum Trips to Rank"
                 type="number"
-                value="15"
                 min="0"
-                max="100"
-                icon={<Clock className="h-4 w-4" />}
-                disabled={true}
+                value={settings.min_trips}
+                onChange={(e) => setSettings({ ...settings, min_trips: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
               />
-              <p className="text-xs text-gray-500 mt-1">How much importance to give to vehicle breakdowns</p>
+              <p className="text-xs text-gray-500 mt-1">Drivers with fewer trips in a period are listed without a rank</p>
             </div>
           </div>
-          
-          <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
-            <p className="text-blue-700">
-              This feature is coming soon. Check back later for updates.
-            </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">Ranking Periods</h2>
+          <p className="text-gray-500 mb-4">Leaderboards are kept for each selected period.</p>
+          <div className="flex flex-wrap gap-6">
+            {PERIODS.map(period => (
+              <Checkbox
+                key={period}
+                label={PERIOD_OPTION_LABELS[period]}
+                checked={settings.periods.includes(period)}
+                onChange={(e) => togglePeriod(period, e.target.checked)}
+              />
+            ))}
           </div>
         </div>
       </div>
@@ -116,4 +303,4 @@ const DriverRankingSettingsPage: React.FC = () => {
   );
 };
 
-export default DriverRankingSettingsPage;
\ No newline at end of file
+export default DriverRankingSettingsPage;
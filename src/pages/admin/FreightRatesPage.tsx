@@ -0,0 +1,477 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import Layout from '../../components/layout/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ArrowLeft, Edit2, IndianRupee, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import LoadingScreen from '../../components/LoadingScreen';
+import { Destination, FreightRate, FreightRateBillingType, FreightRateFormData, TripRepricing, Warehouse } from '../../types';
+import { getDestinations, getWarehouses } from '../../utils/storage';
+import { getMaterialTypes, MaterialType } from '../../utils/materialTypes';
+import {
+  applyTripRepricing,
+  createFreightRate,
+  deleteFreightRate,
+  getFreightRates,
+  getTripsForRepricing,
+  updateFreightRate
+} from '../../utils/api/freightRates';
+import { buildRepricingPreview, getRepricingChanges } from '../../utils/freightRates';
+import { getBillingTypeLabel, getRateLabel } from '../../utils/billingSettings';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('FreightRatesPage');
+
+const BILLING_TYPES: FreightRateBillingType[] = ['per_ton', 'per_km', 'per_trip', 'per_unit'];
+
+const SKIP_LABELS: Record<NonNullable<TripRepricing['skip_reason']>, string> = {
+  manual: 'Manual pricing',
+  contract: 'Customer contract',
+  invoiced: 'Already invoiced',
+  no_rate: 'No matching rate'
+};
+
+const emptyForm = (): FreightRateFormData => ({
+  warehouse_id: '',
+  destination_id: '',
+  material_type_id: '',
+  billing_type: 'per_ton',
+  rate: 0,
+  effective_from: format(new Date(), 'yyyy-MM-dd'),
+  effective_to: '',
+  notes: ''
+});
+
+const formatRupees = (value?: number | null) =>
+  value === undefined || value === null ? '—' : `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const FreightRatesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [rates, setRates] = useState<FreightRate[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  const [materialTypes, setMaterialTypes] = useState<MaterialType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FreightRateFormData | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [period, setPeriod] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+    warehouseId: ''
+  });
+  const [preview, setPreview] = useState<TripRepricing[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      getFreightRates().then(setRates),
+      getWarehouses().then(setWarehouses),
+      getDestinations().then(setDestinations),
+      getMaterialTypes().then(setMaterialTypes)
+    ])
+      .catch(error => logger.error('Error loading freight rates:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const changes = useMemo(() => (preview ? getRepricingChanges(preview) : []), [preview]);
+  const skipped = useMemo(() => (preview || []).filter(row => row.skip_reason), [preview]);
+  const netDifference = changes.reduce((sum, row) => sum + row.difference, 0);
+
+  const warehouseName = (id?: string | null) => warehouses.find(w => w.id === id)?.name || '—';
+  const destinationName = (id?: string | null) => (id ? destinations.find(d => d.id === id)?.name || '—' : 'All lanes');
+  const materialName = (id?: string | null) => (id ? materialTypes.find(m => m.id === id)?.name || '—' : 'All materials');
+
+  const openForm = (rate?: FreightRate) => {
+    setEditingId(rate?.id || null);
+    setForm(rate
+      ? {
+        warehouse_id: rate.warehouse_id,
+        destination_id: rate.destination_id || '',
+        material_type_id: rate.material_type_id || '',
+        billing_type: rate.billing_type,
+        rate: rate.rate,
+        effective_from: rate.effective_from,
+        effective_to: rate.effective_to || '',
+        notes: rate.notes || ''
+      }
+      : emptyForm());
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (!form.warehouse_id || !form.rate || form.rate <= 0 || !form.effective_from) {
+      toast.error('Warehouse, rate and effective date are required');
+      return;
+    }
+    if (form.effective_to && form.effective_to < form.effective_from) {
+      toast.error('Effective to must be on or after effective from');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        const updated = await updateFreightRate(editingId, form);
+        setRates(prev => prev.map(r => (r.id === editingId ? updated : r)));
+      } else {
+        const created = await createFreightRate(form);
+        setRates(prev => [created, ...prev]);
+      }
+      toast.success('Freight rate saved');
+      setForm(null);
+      setPreview(null);
+    } catch (error) {
+      logger.error('Error saving freight rate:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: FreightRate) => {
+    if (!window.confirm(`Remove the ${warehouseName(rate.warehouse_id)} rate of ${formatRupees(rate.rate)}?`)) return;
+    if (await deleteFreightRate(rate.id)) {
+      setRates(prev => prev.filter(r => r.id !== rate.id));
+      setPreview(null);
+      toast.success('Freight rate removed');
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      const trips = await getTripsForRepricing(period.from, period.to, period.warehouseId || undefined);
+      setPreview(buildRepricingPreview(trips, rates));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!window.confirm(`Update freight and income on ${changes.length} trip${changes.length === 1 ? '' : 's'}?`)) return;
+
+    setApplying(true);
+    try {
+      const updated = await applyTripRepricing(changes);
+      const invoiced = changes.length - updated;
+      toast.success(`${updated} trip${updated === 1 ? '' : 's'} re-priced` +
+        (invoiced > 0 ? `; ${invoiced} invoiced since the preview left unchanged` : ''));
+      setPreview(null);
+    } catch (error) {
+      logger.error('Error re-pricing trips:', error);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <IndianRupee className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Freight Rates</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Rates by loading warehouse, lane and material used to price trips that have no customer contract
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button onClick={() => openForm()} icon={<Plus className="h-4 w-4" />}>
+              Add Rate
+            </Button>
+          </div>
+        </div>
+
+        {form && (
+          <form
+            onSubmit={handleSave}
+            className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm p-4 mb-6 space-y-4"
+          >
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">{editingId ? 'Edit Rate' : 'New Rate'}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select
+                label="Loading warehouse"
+                value={form.warehouse_id}
+                onChange={(e) => setForm({ ...form, warehouse_id: e.target.value })}
+                options={[
+                  { value: '', label: 'Select warehouse' },
+                  ...warehouses.map(w => ({ value: w.id, label: w.name }))
+                ]}
+              />
+              <Select
+                label="Destination lane"
+                value={form.destination_id || ''}
+                onChange={(e) => setForm({ ...form, destination_id: e.target.value })}
+                options={[
+                  { value: '', label: 'All lanes' },
+                  ...destinations.map(d => ({ value: d.id, label: d.name }))
+                ]}
+              />
+              <Select
+                label="Material"
+                value={form.material_type_id || ''}
+                onChange={(e) => setForm({ ...form, material_type_id: e.target.value })}
+                options={[
+                  { value: '', label: 'All materials' },
+                  ...materialTypes.map(m => ({ value: m.id, label: m.name }))
+                ]}
+              />
+              <Select
+                label="Billing type"
+                value={form.billing_type}
+                onChange={(e) => setForm({ ...form, billing_type: e.target.value as FreightRateBillingType })}
+                options={BILLING_TYPES.map(type => ({ value: type, label: getBillingTypeLabel(type) }))}
+              />
+              <Input
+                type="number"
+                label={getRateLabel(form.billing_type)}
+                min={0}
+                step="0.01"
+                value={form.rate || ''}
+                onChange={(e) => setForm({ ...form, rate: Number(e.target.value) })}
+                required
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  label="Effective from"
+                  value={form.effective_from}
+                  onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                  required
+                />
+                <Input
+                  type="date"
+                  label="Effective to"
+                  value={form.effective_to || ''}
+                  onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                />
+              </div>
+            </div>
+            <Input
+              label="Notes"
+              value={form.notes || ''}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={saving}>
+                Save Rate
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Rate table */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm mb-6">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Rate Table</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The most specific rate in effect on the trip date applies
+            </p>
+          </div>
+          {rates.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No rates yet. Trips will only be priced from customer contracts or entered manually.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Warehouse</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Lane</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Material</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Billing</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Rate</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Effective</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rates.map(rate => (
+                    <tr key={rate.id}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">{warehouseName(rate.warehouse_id)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{destinationName(rate.destination_id)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{materialName(rate.material_type_id)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{getBillingTypeLabel(rate.billing_type)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100">{formatRupees(rate.rate)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {format(parseISO(rate.effective_from), 'dd MMM yyyy')}
+                        {' – '}
+                        {rate.effective_to ? format(parseISO(rate.effective_to), 'dd MMM yyyy') : 'ongoing'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button onClick={() => openForm(rate)} className="p-1 text-gray-400 hover:text-primary-600" title="Edit">
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleDelete(rate)} className="p-1 text-gray-400 hover:text-error-600" title="Remove">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Re-pricing */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Re-price Trips</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Preview what past trips would earn under the current rates before updating them
+              </p>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <Input
+                type="date"
+                label="From"
+                value={period.from}
+                onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+              />
+              <Input
+                type="date"
+                label="To"
+                value={period.to}
+                onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+              />
+              <Select
+                label="Warehouse"
+                value={period.warehouseId}
+                onChange={(e) => setPeriod({ ...period, warehouseId: e.target.value })}
+                options={[
+                  { value: '', label: 'All warehouses' },
+                  ...warehouses.map(w => ({ value: w.id, label: w.name }))
+                ]}
+              />
+              <Button
+                variant="outline"
+                onClick={handlePreview}
+                isLoading={previewing}
+                disabled={!period.from || !period.to || rates.length === 0}
+                icon={<RefreshCw className="h-4 w-4" />}
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="p-4 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {preview.length} trips checked · {changes.length} would change · {skipped.length} skipped ·
+                  {' '}net income change{' '}
+                  <span className={netDifference < 0 ? 'text-error-600 font-medium' : 'text-success-600 font-medium'}>
+                    {netDifference >= 0 ? '+' : ''}{formatRupees(netDifference)}
+                  </span>
+                </p>
+                <Button onClick={handleApply} isLoading={applying} disabled={changes.length === 0}>
+                  Apply to {changes.length} Trip{changes.length === 1 ? '' : 's'}
+                </Button>
+              </div>
+
+              {changes.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Trip</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Warehouse</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Current</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">New</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {changes.map(row => (
+                        <tr key={row.trip.id}>
+                          <td className="px-4 py-3 text-sm">
+                            <button
+                              type="button"
+                              onClick={() => navigate(`/trips/${row.trip.id}`)}
+                              className="text-primary-600 hover:underline"
+                            >
+                              {row.trip.trip_serial_number || 'View trip'}
+                            </button>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                            {format(parseISO(row.trip.trip_start_date), 'dd MMM yyyy')}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{warehouseName(row.trip.warehouse_id)}</td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                            {formatRupees(row.trip.income_amount)}
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {row.trip.freight_rate ? `@ ${row.trip.freight_rate}` : 'no rate'}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                            {formatRupees(row.new_income)}
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              @ {row.new_freight_rate} {row.new_billing_type && getBillingTypeLabel(row.new_billing_type).toLowerCase()}
+                            </div>
+                          </td>
+                          <td className={`px-4 py-3 text-sm text-right font-medium whitespace-nowrap ${
+                            row.difference < 0 ? 'text-error-600' : 'text-success-600'
+                          }`}>
+                            {row.difference >= 0 ? '+' : ''}{formatRupees(row.difference)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {skipped.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Skipped:{' '}
+                  {(Object.keys(SKIP_LABELS) as (keyof typeof SKIP_LABELS)[])
+                    .map(reason => ({ reason, count: skipped.filter(row => row.skip_reason === reason).length }))
+                    .filter(({ count }) => count > 0)
+                    .map(({ reason, count }) => `${SKIP_LABELS[reason]} (${count})`)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default FreightRatesPage;
@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import Layout from '../../components/layout/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
+import { AlertTriangle, ArrowLeft, Bell, CheckCircle, Fuel, RefreshCw, Upload } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import LoadingScreen from '../../components/LoadingScreen';
+import { FuelCardParseResult, FuelReconciliationResult, Vehicle } from '../../types';
+import { getVehicles } from '../../utils/api/vehicles';
+import {
+  createFuelReconciliationAlerts,
+  getFuelCardTransactions,
+  getRefuelingTrips,
+  importFuelCardTransactions,
+  saveFuelReconciliation
+} from '../../utils/api/fuelCards';
+import { parseSpreadsheet } from '../../utils/csvParser';
+import {
+  FUEL_EXCEPTION_LABELS,
+  normalizeFuelCardRows,
+  normalizeRegistration,
+  reconcileFuelTransactions
+} from '../../utils/fuelReconciliation';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('FuelReconciliationPage');
+
+interface PendingImport extends FuelCardParseResult {
+  fileName: string;
+  unknownVehicles: string[];
+}
+
+const formatRupees = (value?: number) =>
+  value === undefined ? '—' : `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatLitres = (value?: number) => (value === undefined ? '—' : `${value.toFixed(2)} L`);
+
+const FuelReconciliationPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [reconciling, setReconciling] = useState(false);
+  const [period, setPeriod] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [result, setResult] = useState<FuelReconciliationResult | null>(null);
+
+  useEffect(() => {
+    getVehicles()
+      .then(setVehicles)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = normalizeFuelCardRows(await parseSpreadsheet(file));
+      const known = new Set(vehicles.map(v => normalizeRegistration(v.registration_number)));
+
+      setPendingImport({
+        ...parsed,
+        fileName: file.name,
+        unknownVehicles: [...new Set(parsed.rows.map(r => r.vehicle_registration).filter(r => !known.has(r)))]
+      });
+    } catch (error) {
+      logger.error('Error reading fuel statement:', error);
+      toast.error('Could not read the statement file');
+    }
+  };
+
+  const runReconciliation = async (from: string, to: string) => {
+    setReconciling(true);
+    try {
+      const [transactions, trips] = await Promise.all([
+        getFuelCardTransactions(from, to),
+        getRefuelingTrips(from, to)
+      ]);
+
+      if (transactions.length === 0) {
+        setResult(null);
+        toast.info('No statement transactions in this period');
+        return;
+      }
+
+      const reconciliation = reconcileFuelTransactions(transactions, trips);
+      await saveFuelReconciliation(reconciliation.matches);
+      const alertCount = await createFuelReconciliationAlerts(reconciliation.exceptions);
+
+      setResult(reconciliation);
+      if (reconciliation.exceptions.length === 0) {
+        toast.success('All statement transactions match trip refuelings');
+      } else {
+        toast.warning(
+          `${reconciliation.exceptions.length} exception${reconciliation.exceptions.length === 1 ? '' : 's'} found` +
+          (alertCount > 0 ? `, ${alertCount} new alert${alertCount === 1 ? '' : 's'} raised` : '')
+        );
+      }
+    } catch (error) {
+      logger.error('Error reconciling fuel transactions:', error);
+      toast.error('Failed to reconcile fuel transactions');
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport || pendingImport.rows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { imported, skipped } = await importFuelCardTransactions(pendingImport.rows, vehicles);
+      toast.success(`${imported} transaction${imported === 1 ? '' : 's'} imported` + (skipped > 0 ? `, ${skipped} already imported` : ''));
+
+      // Reconcile the period the statement covers
+      const dates = pendingImport.rows.map(r => r.transaction_date).sort();
+      const statementPeriod = { from: dates[0], to: dates[dates.length - 1] };
+      setPeriod(statementPeriod);
+      setPendingImport(null);
+      await runReconciliation(statementPeriod.from, statementPeriod.to);
+    } catch (error) {
+      logger.error('Error importing fuel statement:', error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <Fuel className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Fuel Reconciliation</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Match fuel card and pump statements against refuelings recorded on trips
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button onClick={() => fileInputRef.current?.click()} icon={<Upload className="h-4 w-4" />}>
+              Import Statement
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+        </div>
+
+        {/* Import preview */}
+        {pendingImport && (
+          <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm p-4 mb-6 space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">{pendingImport.fileName}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {pendingImport.rows.length} transaction{pendingImport.rows.length === 1 ? '' : 's'} ready to import
+                  {pendingImport.errors.length > 0 && `, ${pendingImport.errors.length} row${pendingImport.errors.length === 1 ? '' : 's'} skipped`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setPendingImport(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  isLoading={importing}
+                  disabled={pendingImport.rows.length === 0}
+                >
+                  Import & Reconcile
+                </Button>
+              </div>
+            </div>
+
+            {pendingImport.unknownVehicles.length > 0 && (
+              <div className="flex items-start text-sm text-warning-700 dark:text-warning-400 bg-warning-50 dark:bg-warning-900/20 rounded-md p-3">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  Not in your fleet, will be reported as exceptions: {pendingImport.unknownVehicles.join(', ')}
+                </span>
+              </div>
+            )}
+
+            {pendingImport.errors.length > 0 && (
+              <ul className="text-sm text-error-600 dark:text-error-400 space-y-1 max-h-40 overflow-y-auto">
+                {pendingImport.errors.map(err => (
+                  <li key={err.row}>Row {err.row}: {err.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Period */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm p-4 mb-6 flex flex-wrap items-end gap-3">
+          <Input
+            type="date"
+            label="From"
+            value={period.from}
+            onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+          />
+          <Input
+            type="date"
+            label="To"
+            value={period.to}
+            onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+          />
+          <Button
+            variant="outline"
+            onClick={() => runReconciliation(period.from, period.to)}
+            isLoading={reconciling}
+            disabled={!period.from || !period.to}
+            icon={<RefreshCw className="h-4 w-4" />}
+          >
+            Reconcile
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/ai-alerts')} icon={<Bell className="h-4 w-4" />}>
+            View Alerts
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              {[
+                { label: 'Transactions', value: result.summary.transactions.toString() },
+                { label: 'Matched', value: result.summary.matched.toString() },
+                { label: 'Mismatched', value: result.summary.mismatched.toString() },
+                { label: 'Not in Trips', value: result.summary.unmatched.toString() },
+                { label: 'Not on Statement', value: result.summary.missingOnStatement.toString() }
+              ].map(card => (
+                <div key={card.label} className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+                  <p className="text-xl font-semibold text-gray-900 dark:text-gray-100 mt-1">{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+              <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap justify-between gap-2">
+                <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Exceptions</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Statement {formatRupees(result.summary.statementAmount)} · Matched trips {formatRupees(result.summary.recordedAmount)}
+                </p>
+              </div>
+
+              {result.exceptions.length === 0 ? (
+                <div className="p-12 text-center">
+                  <CheckCircle className="mx-auto h-12 w-12 text-success-500" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">Everything reconciles</h3>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Vehicle</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Exception</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Trip</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Statement</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Trip Record</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {result.exceptions.map(exception => (
+                        <tr key={`${exception.type}-${exception.transaction_id || exception.trip_id}`}>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                            {format(parseISO(exception.date), 'dd MMM yyyy')}
+                          </td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                            {exception.vehicle_registration}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              exception.type === 'not_in_trips'
+                                ? 'bg-red-100 text-red-800'
+                                : exception.type === 'not_on_statement'
+                                  ? 'bg-gray-100 text-gray-700'
+                                  : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              {FUEL_EXCEPTION_LABELS[exception.type]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                            {exception.trip_id ? (
+                              <button
+                                type="button"
+                                onClick={() => navigate(`/trips/${exception.trip_id}`)}
+                                className="text-primary-600 hover:underline"
+                              >
+                                {exception.trip_serial_number || 'View trip'}
+                              </button>
+                            ) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                            {formatRupees(exception.statement_amount)}
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{formatLitres(exception.statement_quantity)}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                            {formatRupees(exception.recorded_amount)}
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{formatLitres(exception.recorded_quantity)}</div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default FuelReconciliationPage;
@@ -0,0 +1,371 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO, isBefore } from 'date-fns';
+import Layout from '../../components/layout/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
+import { ArrowLeft, Download, FileText, IndianRupee, PlusCircle, Send, Trash2 } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import LoadingScreen from '../../components/LoadingScreen';
+import CreateInvoiceModal from '../../components/invoices/CreateInvoiceModal';
+import { Customer, Invoice, InvoiceStatus, Warehouse } from '../../types';
+import { getCustomers } from '../../utils/api/customers';
+import {
+  getInvoices,
+  getInvoice,
+  getInvoiceSupplier,
+  issueInvoice,
+  recordInvoicePayment,
+  deleteDraftInvoice
+} from '../../utils/api/invoices';
+import { getWarehouses } from '../../utils/storage';
+import { downloadInvoicePdf } from '../../reports/invoicePdf';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('InvoicesPage');
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  issued: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  partially_paid: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  paid: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+};
+
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid'
+};
+
+const InvoicesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | ''>('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [paymentInvoiceId, setPaymentInvoiceId] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [busyInvoiceId, setBusyInvoiceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [invoicesData, customersData, warehousesData] = await Promise.all([
+        getInvoices(),
+        getCustomers(true),
+        getWarehouses()
+      ]);
+      setInvoices(invoicesData);
+      setCustomers(customersData);
+      setWarehouses(Array.isArray(warehousesData) ? warehousesData : []);
+    } catch (error) {
+      logger.error('Error loading invoices:', error);
+      toast.error('Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const customerMap = useMemo(() => new Map(customers.map(c => [c.id, c])), [customers]);
+
+  const filteredInvoices = useMemo(
+    () => (statusFilter ? invoices.filter(i => i.status === statusFilter) : invoices),
+    [invoices, statusFilter]
+  );
+
+  const summary = useMemo(() => {
+    const billed = invoices.filter(i => i.status !== 'draft');
+    const today = new Date();
+    return {
+      billed: billed.reduce((sum, i) => sum + i.total_amount, 0),
+      received: billed.reduce((sum, i) => sum + i.amount_paid, 0),
+      outstanding: billed.reduce((sum, i) => sum + (i.total_amount - i.amount_paid), 0),
+      overdue: billed.filter(i => i.status !== 'paid' && i.due_date && isBefore(parseISO(i.due_date), today)).length
+    };
+  }, [invoices]);
+
+  const replaceInvoice = (updated: Invoice) => {
+    setInvoices(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+  };
+
+  const handleIssue = async (invoice: Invoice) => {
+    if (!window.confirm('Issue this invoice? It will receive the next invoice number and can no longer be deleted.')) {
+      return;
+    }
+
+    setBusyInvoiceId(invoice.id);
+    try {
+      const issued = await issueInvoice(invoice);
+      replaceInvoice(issued);
+      toast.success(`Invoice ${issued.invoice_number} issued`);
+    } catch (error) {
+      logger.error('Error issuing invoice:', error);
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  const handleRecordPayment = async (invoice: Invoice) => {
+    const amount = Number(paymentAmount);
+    if (!amount || amount <= 0) {
+      toast.error('Enter a valid payment amount');
+      return;
+    }
+
+    setBusyInvoiceId(invoice.id);
+    try {
+      replaceInvoice(await recordInvoicePayment(invoice, amount));
+      setPaymentInvoiceId(null);
+      setPaymentAmount('');
+      toast.success('Payment recorded');
+    } catch (error) {
+      logger.error('Error recording payment:', error);
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!window.confirm('Delete this draft? Its trips will be available for billing again.')) {
+      return;
+    }
+
+    if (await deleteDraftInvoice(invoice)) {
+      setInvoices(prev => prev.filter(i => i.id !== invoice.id));
+      toast.success('Draft deleted');
+    }
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    const customer = customerMap.get(invoice.customer_id);
+    if (!customer) return;
+
+    setBusyInvoiceId(invoice.id);
+    try {
+      const [fullInvoice, supplier] = await Promise.all([getInvoice(invoice.id), getInvoiceSupplier()]);
+      if (!fullInvoice) return;
+      await downloadInvoicePdf(fullInvoice, fullInvoice.items || [], customer, supplier);
+    } catch (error) {
+      logger.error('Error generating invoice PDF:', error);
+      toast.error('Failed to generate invoice PDF');
+    } finally {
+      setBusyInvoiceId(null);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <FileText className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Invoices</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            GST freight invoices raised against completed trips
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button
+              onClick={() => setShowCreate(true)}
+              icon={<PlusCircle className="h-4 w-4" />}
+              disabled={customers.length === 0}
+            >
+              New Invoice
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {[
+            { label: 'Billed', value: `₹${summary.billed.toLocaleString('en-IN')}` },
+            { label: 'Received', value: `₹${summary.received.toLocaleString('en-IN')}` },
+            { label: 'Outstanding', value: `₹${summary.outstanding.toLocaleString('en-IN')}` },
+            { label: 'Overdue Invoices', value: summary.overdue.toString() }
+          ].map(card => (
+            <div key={card.label} className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-gray-100 mt-1">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 max-w-xs">
+            <Select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as InvoiceStatus | '')}
+              options={[
+                { value: '', label: 'All statuses' },
+                ...Object.entries(STATUS_LABELS).map(([value, label]) => ({ value, label }))
+              ]}
+            />
+          </div>
+
+          {filteredInvoices.length === 0 ? (
+            <div className="p-12 text-center">
+              <FileText className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">No invoices yet</h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Create an invoice from a customer's unbilled trips
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Invoice</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Customer</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Due</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Total</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Paid</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filteredInvoices.map(invoice => (
+                    <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {invoice.invoice_number || <span className="text-gray-400 italic">Draft</span>}
+                        {invoice.reverse_charge && (
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">RCM</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                        {customerMap.get(invoice.customer_id)?.name || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                        {format(parseISO(invoice.invoice_date), 'dd MMM yyyy')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                        {invoice.due_date ? format(parseISO(invoice.due_date), 'dd MMM yyyy') : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100">
+                        ₹{invoice.total_amount.toLocaleString('en-IN')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600 dark:text-gray-400">
+                        ₹{invoice.amount_paid.toLocaleString('en-IN')}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[invoice.status]}`}>
+                          {STATUS_LABELS[invoice.status]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {paymentInvoiceId === invoice.id ? (
+                          <div className="flex items-center justify-end gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              inputSize="sm"
+                              placeholder="Amount"
+                              value={paymentAmount}
+                              onChange={(e) => setPaymentAmount(e.target.value)}
+                            />
+                            <Button size="sm" onClick={() => handleRecordPayment(invoice)} isLoading={busyInvoiceId === invoice.id}>
+                              Save
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setPaymentInvoiceId(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Download PDF"
+                              onClick={() => handleDownload(invoice)}
+                              disabled={busyInvoiceId === invoice.id}
+                              icon={<Download className="h-3 w-3" />}
+                            />
+                            {invoice.status === 'draft' && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Issue invoice"
+                                  onClick={() => handleIssue(invoice)}
+                                  disabled={busyInvoiceId === invoice.id}
+                                  icon={<Send className="h-3 w-3" />}
+                                />
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Delete draft"
+                                  className="text-red-600 hover:text-red-700"
+                                  onClick={() => handleDelete(invoice)}
+                                  icon={<Trash2 className="h-3 w-3" />}
+                                />
+                              </>
+                            )}
+                            {(invoice.status === 'issued' || invoice.status === 'partially_paid') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Record payment"
+                                onClick={() => {
+                                  setPaymentInvoiceId(invoice.id);
+                                  setPaymentAmount(String(Math.round((invoice.total_amount - invoice.amount_paid) * 100) / 100));
+                                }}
+                                icon={<IndianRupee className="h-3 w-3" />}
+                              />
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <CreateInvoiceModal
+        isOpen={showCreate}
+        onClose={() => setShowCreate(false)}
+        customers={customers.filter(c => c.active !== false)}
+        warehouses={warehouses}
+        onCreated={(invoice) => {
+          setInvoices(prev => [invoice, ...prev]);
+          setShowCreate(false);
+        }}
+      />
+    </Layout>
+  );
+};
+
+export default InvoicesPage;
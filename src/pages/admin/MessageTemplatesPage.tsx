@@ -1,16 +1,135 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import Layout from '../../components/layout/Layout'; 
-import { ChevronLeft, MessageSquare, Mail, Phone } from 'lucide-react';
+import Layout from '../../components/layout/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
+import { AlertTriangle, ChevronLeft, Mail, MessageSquare, Phone, RotateCcw, Save } from 'lucide-react';
 import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Textarea from '../../components/ui/Textarea';
+import Checkbox from '../../components/ui/Checkbox';
+import WhatsAppIcon from '../../components/ui/WhatsAppIcon';
+import LoadingScreen from '../../components/LoadingScreen';
+import { MessageChannel, MessageLanguage, MessageTemplate, MessageTemplateKey } from '../../types';
+import { getMessageTemplates, saveMessageTemplate, resetMessageTemplate } from '../../utils/api/messageTemplates';
+import {
+  MESSAGE_LANGUAGES,
+  MESSAGE_TEMPLATE_DEFINITIONS,
+  PLACEHOLDER_LABELS,
+  SAMPLE_MESSAGE_DATA,
+  findUnknownPlaceholders,
+  getDefaultTemplate,
+  getTemplateDefinition,
+  renderTemplate
+} from '../../utils/messageTemplates';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('MessageTemplatesPage');
+
+const CHANNEL_SECTIONS: { channel: MessageChannel; label: string; icon: React.ReactNode }[] = [
+  { channel: 'email', label: 'Email', icon: <Mail className="h-4 w-4 text-primary-600 mr-2" /> },
+  { channel: 'sms', label: 'SMS', icon: <Phone className="h-4 w-4 text-primary-600 mr-2" /> },
+  { channel: 'whatsapp', label: 'WhatsApp', icon: <span className="mr-2"><WhatsAppIcon size={16} /></span> }
+];
 
 const MessageTemplatesPage: React.FC = () => {
   const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<MessageTemplateKey>('document_expiry');
+  const [language, setLanguage] = useState<MessageLanguage>('en');
+  const [draft, setDraft] = useState({ subject: '', body: '', is_active: true });
+
+  useEffect(() => {
+    getMessageTemplates()
+      .then(setTemplates)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const definition = getTemplateDefinition(selectedKey)!;
+  const override = templates.find(t => t.template_key === selectedKey && t.language === language);
+
+  // Load the saved override, or the built-in text, whenever the selection changes
+  useEffect(() => {
+    const source = override || { ...getDefaultTemplate(selectedKey, language), is_active: true };
+    setDraft({ subject: source.subject || '', body: source.body, is_active: source.is_active });
+  }, [selectedKey, language, override]);
+
+  const unknownPlaceholders = useMemo(
+    () => findUnknownPlaceholders(`${draft.subject} ${draft.body}`, selectedKey),
+    [draft.subject, draft.body, selectedKey]
+  );
+
+  const isCustomized = (key: MessageTemplateKey) => templates.some(t => t.template_key === key);
+
+  const insertPlaceholder = (placeholder: string) => {
+    const token = `{{${placeholder}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+
+    setDraft(prev => ({ ...prev, body: prev.body.slice(0, start) + token + prev.body.slice(end) }));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.body.trim()) {
+      toast.error('Message body cannot be empty');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveMessageTemplate({
+        template_key: selectedKey,
+        language,
+        subject: definition.channel === 'email' ? draft.subject : null,
+        body: draft.body,
+        is_active: draft.is_active
+      });
+      setTemplates(prev => [...prev.filter(t => t.id !== saved.id), saved]);
+      toast.success('Template saved');
+    } catch (error) {
+      logger.error('Error saving message template:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!override || !window.confirm('Discard your changes and use the built-in template?')) return;
+
+    if (await resetMessageTemplate(override.id)) {
+      setTemplates(prev => prev.filter(t => t.id !== override.id));
+      toast.success('Template reset to default');
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  const preview = {
+    subject: renderTemplate(draft.subject, SAMPLE_MESSAGE_DATA),
+    body: renderTemplate(draft.body, SAMPLE_MESSAGE_DATA)
+  };
 
   return (
     <Layout>
       {/* Page Header */}
-      <div className="rounded-xl border bg-white dark:bg-white px-4 py-3 shadow-sm mb-6">
+      <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
         <div className="flex items-center group">
           <MessageSquare className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
           <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Message Templates</h1>
@@ -27,48 +146,137 @@ const MessageTemplatesPage: React.FC = () => {
         </div>
       </div>
 
-      <div className="space-y-6">
-        <div className="bg-white p-6 rounded-lg shadow-sm">
-          <div className="flex items-center mb-4">
-            <MessageSquare className="h-5 w-5 text-primary-600 mr-2" /> 
-            <h2 className="text-lg font-medium text-gray-900">Notification Templates</h2>
-          </div>
-          <p className="text-gray-500 mb-4">
-            Configure message templates for different types of notifications sent to drivers, vehicle owners, and maintenance staff.
-          </p>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-            <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Template list */}
+        <div className="bg-white dark:bg-gray-900 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 space-y-4">
+          {CHANNEL_SECTIONS.map(section => (
+            <div key={section.channel}>
               <div className="flex items-center mb-2">
-                <Mail className="h-4 w-4 text-primary-600 mr-2" />
-                <h3 className="font-medium">Email Templates</h3>
+                {section.icon}
+                <h3 className="font-medium text-gray-900 dark:text-gray-100">{section.label} Templates</h3>
               </div>
-              <ul className="list-disc list-inside text-gray-600 text-sm">
-                <li>Document Expiry Reminder</li>
-                <li>Maintenance Due Notification</li>
-                <li>Trip Assignment</li>
-                <li>Monthly Performance Report</li>
+              <ul className="space-y-1">
+                {MESSAGE_TEMPLATE_DEFINITIONS.filter(d => d.channel === section.channel).map(d => (
+                  <li key={d.key}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedKey(d.key)}
+                      className={`w-full text-left px-3 py-2 rounded-md text-sm flex items-center justify-between ${
+                        selectedKey === d.key
+                          ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                          : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <span>{d.name}</span>
+                      {isCustomized(d.key) && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                          Customized
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
               </ul>
             </div>
-            
-            <div className="p-4 border border-gray-200 rounded-lg">
-              <div className="flex items-center mb-2">
-                <Phone className="h-4 w-4 text-primary-600 mr-2" />
-                <h3 className="font-medium">SMS Templates</h3>
+          ))}
+        </div>
+
+        {/* Editor and preview */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">{definition.name}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{definition.description}</p>
+              </div>
+              <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                {MESSAGE_LANGUAGES.map(lang => (
+                  <button
+                    key={lang.value}
+                    type="button"
+                    onClick={() => setLanguage(lang.value)}
+                    className={`px-3 py-1.5 text-sm ${
+                      language === lang.value
+                        ? 'bg-primary-600 text-white'
+                        : 'bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {lang.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {definition.channel === 'email' && (
+              <Input
+                label="Subject"
+                value={draft.subject}
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              />
+            )}
+
+            <Textarea
+              ref={bodyRef}
+              label="Message"
+              rows={10}
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              helperText={definition.channel === 'sms' ? `${draft.body.length} characters` : undefined}
+            />
+
+            <div>
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Insert placeholder</p>
+              <div className="flex flex-wrap gap-2">
+                {definition.placeholders.map(placeholder => (
+                  <button
+                    key={placeholder}
+                    type="button"
+                    onClick={() => insertPlaceholder(placeholder)}
+                    className="text-xs px-2 py-1 rounded-full border border-primary-200 dark:border-primary-800 text-primary-700 dark:text-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/20"
+                    title={`{{${placeholder}}}`}
+                  >
+                    {PLACEHOLDER_LABELS[placeholder] || placeholder}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {unknownPlaceholders.length > 0 && (
+              <div className="flex items-start text-sm text-warning-700 dark:text-warning-400 bg-warning-50 dark:bg-warning-900/20 rounded-md p-3">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  Not available for this template: {unknownPlaceholders.map(p => `{{${p}}}`).join(', ')}
+                </span>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <Checkbox
+                label="Use this template"
+                checked={draft.is_active}
+                onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+              />
+              <div className="flex gap-2">
+                {override && (
+                  <Button variant="outline" onClick={handleReset} icon={<RotateCcw className="h-4 w-4" />}>
+                    Reset to Default
+                  </Button>
+                )}
+                <Button onClick={handleSave} isLoading={saving} icon={<Save className="h-4 w-4" />}>
+                  Save
+                </Button>
               </div>
-              <ul className="list-disc list-inside text-gray-600 text-sm">
-                <li>Trip Confirmation</li>
-                <li>Urgent Document Reminder</li>
-                <li>Trip Delay Notification</li>
-                <li>Emergency Alert</li>
-              </ul>
             </div>
           </div>
-          
-          <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
-            <p className="text-blue-700">
-              This feature is coming soon. Check back later for updates.
-            </p>
+
+          <div className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">Preview with sample data</h3>
+            {definition.channel === 'email' && (
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">{preview.subject}</p>
+            )}
+            <div className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded-md p-4">
+              {preview.body}
+            </div>
           </div>
         </div>
       </div>
@@ -76,4 +284,4 @@ const MessageTemplatesPage: React.FC = () => {
   );
 };
 
-export default MessageTemplatesPage;
\ No newline at end of file
+export default MessageTemplatesPage;
@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import Layout from '../../components/layout/Layout';
+import { usePermissions } from '../../hooks/usePermissions';
+import { AlertTriangle, ArrowLeft, Bell, Edit2, Package, PackagePlus, Plus, SlidersHorizontal } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import LoadingScreen from '../../components/LoadingScreen';
+import StockItemModal from '../../components/parts/StockItemModal';
+import StockMovementModal from '../../components/parts/StockMovementModal';
+import { PartStockItem, StockMovement, Vehicle, Warehouse } from '../../types';
+import { getVehicles } from '../../utils/api/vehicles';
+import { getWarehouses } from '../../utils/storage';
+import { getVendors, Vendor } from '../../utils/vendorStorage';
+import {
+  createLowStockAlerts,
+  createPartStockItems,
+  getPartStockItems,
+  getStockMovements
+} from '../../utils/api/partsInventory';
+import {
+  STOCK_MOVEMENT_LABELS,
+  buildFleetPartStockItems,
+  computeStockLevels,
+  getLowStockItems,
+  summarizeStock,
+  summarizeStockValuation
+} from '../../utils/partsInventory';
+import { toast } from 'react-toastify';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('PartsInventoryPage');
+
+type Tab = 'stock' | 'movements' | 'valuation';
+
+const formatRupees = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const PartsInventoryPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [items, setItems] = useState<PartStockItem[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<Tab>('stock');
+  const [editingItem, setEditingItem] = useState<PartStockItem | null | undefined>(undefined);
+  const [movementType, setMovementType] = useState<'receipt' | 'adjustment' | null>(null);
+  const [movementItemId, setMovementItemId] = useState<string>();
+  const [seeding, setSeeding] = useState(false);
+  const [raisingAlerts, setRaisingAlerts] = useState(false);
+
+  const loadInventory = useCallback(async () => {
+    const [itemList, movementList] = await Promise.all([getPartStockItems(), getStockMovements()]);
+    setItems(itemList);
+    setMovements(movementList);
+  }, []);
+
+  useEffect(() => {
+    Promise.all([
+      loadInventory(),
+      getWarehouses().then(setWarehouses),
+      getVendors().then(setVendors),
+      getVehicles().then(setVehicles)
+    ])
+      .catch(error => logger.error('Error loading parts inventory:', error))
+      .finally(() => setLoading(false));
+  }, [loadInventory]);
+
+  const levels = useMemo(() => computeStockLevels(movements), [movements]);
+  const summaries = useMemo(() => summarizeStock(items, movements), [items, movements]);
+  const lowStock = useMemo(() => getLowStockItems(summaries), [summaries]);
+  const fleetPartsToAdd = useMemo(() => buildFleetPartStockItems(items), [items]);
+  const totalValue = summaries.reduce((sum, s) => sum + s.value, 0);
+
+  const warehouseName = (id: string) => warehouses.find(w => w.id === id)?.name || 'Unknown location';
+  const itemById = (id: string) => items.find(i => i.id === id);
+
+  const handleAddFleetParts = async () => {
+    setSeeding(true);
+    try {
+      const created = await createPartStockItems(fleetPartsToAdd);
+      toast.success(`${created.length} fleet parts added to the catalogue`);
+      await loadInventory();
+    } catch (error) {
+      logger.error('Error adding fleet parts:', error);
+    } finally {
+      setSeeding(false);
+    }
+  };
+
+  const handleRaiseAlerts = async () => {
+    setRaisingAlerts(true);
+    try {
+      const created = await createLowStockAlerts(lowStock);
+      toast.success(created > 0
+        ? `${created} low stock alert${created === 1 ? '' : 's'} raised`
+        : 'Low stock items already have open alerts');
+    } catch (error) {
+      logger.error('Error raising low stock alerts:', error);
+    } finally {
+      setRaisingAlerts(false);
+    }
+  };
+
+  const openMovement = (type: 'receipt' | 'adjustment', itemId?: string) => {
+    setMovementItemId(itemId);
+    setMovementType(type);
+  };
+
+  const handleMovementSaved = (movement: StockMovement) => {
+    setMovementType(null);
+    const updated = [...movements, movement];
+    setMovements(updated);
+
+    // Receipts can only clear low stock; adjustments may cause it
+    if (movement.movement_type === 'adjustment') {
+      const item = itemById(movement.item_id);
+      if (item) {
+        createLowStockAlerts(summarizeStock([item], updated))
+          .catch(error => logger.error('Error raising low stock alert:', error));
+      }
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <Package className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Parts Inventory</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Spare parts stock by location, purchase receipts and parts issued to maintenance tasks
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button onClick={() => openMovement('receipt')} icon={<PackagePlus className="h-4 w-4" />} disabled={items.length === 0}>
+              Receive Stock
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => openMovement('adjustment')}
+              icon={<SlidersHorizontal className="h-4 w-4" />}
+              disabled={items.length === 0}
+            >
+              Adjust Stock
+            </Button>
+            <Button variant="outline" onClick={() => setEditingItem(null)} icon={<Plus className="h-4 w-4" />}>
+              Add Part
+            </Button>
+            {fleetPartsToAdd.length > 0 && (
+              <Button variant="outline" onClick={handleAddFleetParts} isLoading={seeding}>
+                Add {fleetPartsToAdd.length} Fleet Parts
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {warehouses.length === 0 && (
+          <div className="flex items-start text-sm text-warning-700 dark:text-warning-400 bg-warning-50 dark:bg-warning-900/20 rounded-md p-3 mb-6">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>Add a warehouse under Trip Locations to use it as a stock location.</span>
+          </div>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {[
+            { label: 'Parts', value: items.filter(i => i.is_active).length.toString() },
+            { label: 'Stock Value', value: formatRupees(totalValue) },
+            { label: 'Low Stock', value: lowStock.length.toString() },
+            { label: 'Locations', value: new Set(levels.map(l => l.warehouse_id)).size.toString() }
+          ].map(card => (
+            <div key={card.label} className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-gray-100 mt-1">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {lowStock.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-warning-700 dark:text-warning-400 bg-warning-50 dark:bg-warning-900/20 rounded-md p-3 mb-6">
+            <span className="flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              At or below reorder level: {lowStock.map(s => s.item.name).join(', ')}
+            </span>
+            <Button size="sm" variant="outline" onClick={handleRaiseAlerts} isLoading={raisingAlerts} icon={<Bell className="h-4 w-4" />}>
+              Raise Alerts
+            </Button>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="flex border-b border-gray-200 dark:border-gray-700">
+            {([
+              ['stock', 'Stock'],
+              ['movements', 'Movements'],
+              ['valuation', 'Valuation']
+            ] as [Tab, string][]).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={`px-4 py-3 text-sm font-medium border-b-2 ${
+                  tab === key
+                    ? 'border-primary-600 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'stock' && (
+            items.length === 0 ? (
+              <div className="p-12 text-center">
+                <Package className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">No parts in the catalogue</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Add the standard fleet parts or create your own.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Part</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Category</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Locations</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">On Hand</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Reorder At</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Value</th>
+                      <th className="px-4 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {summaries.map(({ item, quantity, value, locations, low_stock }) => (
+                      <tr key={item.id} className={item.is_active ? '' : 'opacity-50'}>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-gray-900 dark:text-gray-100">{item.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {item.sku}{item.brand ? ` · ${item.brand}` : ''}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{item.category}</td>
+                        <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">
+                          {locations.filter(l => l.quantity !== 0).map(l => (
+                            <div key={l.warehouse_id}>{warehouseName(l.warehouse_id)}: {l.quantity}</div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                          <span className={low_stock ? 'font-semibold text-error-600' : 'text-gray-900 dark:text-gray-100'}>
+                            {quantity} {item.unit}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600 dark:text-gray-400">{item.reorder_level}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-gray-100 whitespace-nowrap">{formatRupees(value)}</td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => openMovement('receipt', item.id)}
+                            className="p-1 text-gray-400 hover:text-primary-600"
+                            title="Receive stock"
+                          >
+                            <PackagePlus className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setEditingItem(item)}
+                            className="p-1 text-gray-400 hover:text-primary-600"
+                            title="Edit"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+
+          {tab === 'movements' && (
+            movements.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No stock movements yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Part</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Type</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Location</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Qty</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Unit Cost</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Reference</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {[...movements].reverse().map(movement => {
+                      const vehicle = vehicles.find(v => v.id === movement.vehicle_id);
+                      return (
+                        <tr key={movement.id}>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                            {format(parseISO(movement.movement_date), 'dd MMM yyyy')}
+                          </td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                            {itemById(movement.item_id)?.name || '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                            {STOCK_MOVEMENT_LABELS[movement.movement_type]}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{warehouseName(movement.warehouse_id)}</td>
+                          <td className={`px-4 py-3 text-sm text-right font-medium ${movement.quantity < 0 ? 'text-error-600' : 'text-success-600'}`}>
+                            {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right text-gray-600 dark:text-gray-400">
+                            {typeof movement.unit_cost === 'number' ? formatRupees(movement.unit_cost) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                            {movement.maintenance_task_id ? (
+                              <button
+                                onClick={() => navigate(`/maintenance/${movement.maintenance_task_id}`)}
+                                className="text-primary-600 hover:underline"
+                              >
+                                {vehicle?.registration_number || 'View task'}
+                              </button>
+                            ) : (
+                              movement.reference || movement.notes || '—'
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+
+          {tab === 'valuation' && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+              {(['category', 'warehouse'] as const).map(groupBy => {
+                const rows = summarizeStockValuation(summaries, groupBy);
+                return (
+                  <div key={groupBy}>
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+                      By {groupBy === 'category' ? 'Category' : 'Location'}
+                    </h3>
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2 text-left">{groupBy === 'category' ? 'Category' : 'Location'}</th>
+                          <th className="py-2 text-right">Parts</th>
+                          <th className="py-2 text-right">Qty</th>
+                          <th className="py-2 text-right">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                        {rows.map(row => (
+                          <tr key={row.key}>
+                            <td className="py-2 text-gray-900 dark:text-gray-100">
+                              {groupBy === 'category' ? row.key : warehouseName(row.key)}
+                            </td>
+                            <td className="py-2 text-right text-gray-600 dark:text-gray-400">{row.items}</td>
+                            <td className="py-2 text-right text-gray-600 dark:text-gray-400">{row.quantity}</td>
+                            <td className="py-2 text-right text-gray-900 dark:text-gray-100">{formatRupees(row.value)}</td>
+                          </tr>
+                        ))}
+                        <tr className="font-medium">
+                          <td className="py-2 text-gray-900 dark:text-gray-100">Total</td>
+                          <td />
+                          <td />
+                          <td className="py-2 text-right text-gray-900 dark:text-gray-100">{formatRupees(totalValue)}</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editingItem !== undefined && (
+        <StockItemModal
+          item={editingItem || undefined}
+          onClose={() => setEditingItem(undefined)}
+          onSaved={() => {
+            setEditingItem(undefined);
+            loadInventory();
+          }}
+        />
+      )}
+
+      {movementType && (
+        <StockMovementModal
+          type={movementType}
+          items={items}
+          warehouses={warehouses}
+          vendors={vendors}
+          levels={levels}
+          defaultItemId={movementItemId}
+          onClose={() => setMovementType(null)}
+          onSaved={handleMovementSaved}
+        />
+      )}
+    </Layout>
+  );
+};
+
+export default PartsInventoryPage;
@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, KeyRound, Plus, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Layout from '../../components/layout/Layout';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import Checkbox from '../../components/ui/Checkbox';
+import LoadingScreen from '../../components/LoadingScreen';
+import { usePermissions } from '../../hooks/usePermissions';
+import {
+  PermissionAction,
+  PermissionMatrix,
+  PermissionModule,
+  RoleDefinition,
+  SensitiveField,
+  UserRole
+} from '../../types/permissions';
+import { deleteRoleDefinition, getRoleDefinitions, saveRoleDefinition } from '../../utils/api/permissions';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_ACTIONS,
+  PERMISSION_MODULES,
+  SENSITIVE_FIELDS,
+  hasPermission,
+  normalizePermissionMatrix
+} from '../../utils/permissionMatrix';
+import { TEAM_ROLES, getRoleLabel } from '../../utils/teamAccess';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('RolePermissionsPage');
+
+interface RoleDraft {
+  id?: string;
+  name: string;
+  description: string;
+  base_role: UserRole;
+  permissions: PermissionMatrix;
+  hidden_fields: SensitiveField[];
+}
+
+const draftFromBaseRole = (base_role: UserRole): RoleDraft => ({
+  name: '',
+  description: '',
+  base_role,
+  permissions: { ...DEFAULT_ROLE_PERMISSIONS[base_role].permissions },
+  hidden_fields: [...DEFAULT_ROLE_PERMISSIONS[base_role].hidden_fields]
+});
+
+const describeMatrix = (matrix: PermissionMatrix) =>
+  PERMISSION_MODULES.filter(({ module }) => hasPermission(matrix, module))
+    .map(({ module, label }) => `${label} (${(matrix[module] || []).length})`)
+    .join(', ') || 'No access';
+
+const RolePermissionsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadRoles = async () => setRoles(await getRoleDefinitions());
+
+  useEffect(() => {
+    loadRoles()
+      .catch(error => logger.error('Error loading roles:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleAction = (module: PermissionModule, action: PermissionAction) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const current = prev.permissions[module] || [];
+      const next = current.includes(action)
+        ? // Taking away view takes away everything else on the module
+          action === 'view' ? [] : current.filter(a => a !== action)
+        : [...current, action];
+      return { ...prev, permissions: normalizePermissionMatrix({ ...prev.permissions, [module]: next }) };
+    });
+  };
+
+  const toggleHiddenField = (field: SensitiveField) => {
+    setDraft(prev =>
+      prev && {
+        ...prev,
+        hidden_fields: prev.hidden_fields.includes(field)
+          ? prev.hidden_fields.filter(f => f !== field)
+          : [...prev.hidden_fields, field]
+      }
+    );
+  };
+
+  const handleBaseRoleChange = (base_role: UserRole) => {
+    if (!draft) return;
+    // Reset the matrix only for new roles; editing keeps what was configured
+    setDraft(draft.id ? { ...draft, base_role } : { ...draftFromBaseRole(base_role), name: draft.name, description: draft.description });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const saved = await saveRoleDefinition(draft);
+      toast.success(`Role "${saved.name}" saved`);
+      setDraft(null);
+      await loadRoles();
+    } catch (error) {
+      logger.error('Error saving role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleDefinition) => {
+    if (!window.confirm(`Delete the role "${role.name}"? Members holding it go back to the defaults of their role.`)) return;
+    setDeletingId(role.id);
+    try {
+      await deleteRoleDefinition(role);
+      toast.success(`Role "${role.name}" deleted`);
+      if (draft?.id === role.id) setDraft(null);
+      await loadRoles();
+    } catch (error) {
+      logger.error('Error deleting role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete the role');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <KeyRound className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Roles &amp; Permissions</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Custom roles decide what members can view, create, edit, delete, export and verify in each module
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button onClick={() => setDraft(draftFromBaseRole('data_entry'))} icon={<Plus className="h-4 w-4" />}>
+              New Role
+            </Button>
+          </div>
+        </div>
+
+        {draft && (
+          <form
+            onSubmit={handleSave}
+            className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm mb-6 p-4 space-y-4"
+          >
+            <div className="flex justify-between items-start">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                {draft.id ? `Edit ${draft.name}` : 'New role'}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                aria-label="Close role editor"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="Name"
+                required
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Accountant"
+              />
+              <Input
+                label="Description"
+                value={draft.description}
+                onChange={e => setDraft({ ...draft, description: e.target.value })}
+              />
+              <Select
+                label="Based on"
+                value={draft.base_role}
+                onChange={e => handleBaseRoleChange(e.target.value as UserRole)}
+                options={TEAM_ROLES.map(r => ({ value: r.role, label: r.label }))}
+                helperText={draft.id ? undefined : 'Fills in the permissions of this role to start from'}
+              />
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Module</th>
+                    {PERMISSION_ACTIONS.map(({ action, label }) => (
+                      <th key={action} className="px-4 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {PERMISSION_MODULES.map(({ module, label }) => (
+                    <tr key={module}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">{label}</td>
+                      {PERMISSION_ACTIONS.map(({ action, label: actionLabel }) => (
+                        <td key={action} className="px-4 py-3 text-center">
+                          <div className="inline-flex">
+                            <Checkbox
+                              checked={hasPermission(draft.permissions, module, action)}
+                              onChange={() => toggleAction(module, action)}
+                              aria-label={`${actionLabel} ${label}`}
+                            />
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Hidden fields</p>
+              <div className="flex flex-wrap gap-6">
+                {SENSITIVE_FIELDS.map(({ field, label }) => (
+                  <Checkbox
+                    key={field}
+                    label={`Hide ${label.toLowerCase()}`}
+                    checked={draft.hidden_fields.includes(field)}
+                    onChange={() => toggleHiddenField(field)}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" isLoading={saving} icon={<Save className="h-4 w-4" />}>
+                Save Role
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Custom roles</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Assign them to members on the Team page; members without one use the defaults of their role
+            </p>
+          </div>
+          {roles.length === 0 ? (
+            <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">No custom roles yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Role</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Based on</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Access</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Hidden</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {roles.map(role => (
+                    <tr key={role.id}>
+                      <td className="px-4 py-3 text-sm">
+                        <p className="font-medium text-gray-900 dark:text-gray-100">{role.name}</p>
+                        {role.description && <p className="text-xs text-gray-500 dark:text-gray-400">{role.description}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{getRoleLabel(role.base_role)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">{describeMatrix(role.permissions)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                        {role.hidden_fields.length > 0
+                          ? SENSITIVE_FIELDS.filter(f => role.hidden_fields.includes(f.field)).map(f => f.label).join(', ')
+                          : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            setDraft({
+                              id: role.id,
+                              name: role.name,
+                              description: role.description || '',
+                              base_role: role.base_role,
+                              permissions: normalizePermissionMatrix(role.permissions),
+                              hidden_fields: [...role.hidden_fields]
+                            })
+                          }
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="danger"
+                          isLoading={deletingId === role.id}
+                          onClick={() => handleDelete(role)}
+                          icon={<Trash2 className="h-4 w-4" />}
+                        >
+                          Delete
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default RolePermissionsPage;
@@ -0,0 +1,445 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Mail, UserCheck, UserPlus, UserX, UsersRound, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Layout from '../../components/layout/Layout';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Select from '../../components/ui/Select';
+import LoadingScreen from '../../components/LoadingScreen';
+import GpsIngestTokensManager from '../../components/admin/GpsIngestTokensManager';
+import { usePermissions } from '../../hooks/usePermissions';
+import { TeamAccess, TeamInvitation, TeamMember, Warehouse } from '../../types';
+import { RoleDefinition, UserRole } from '../../types/permissions';
+import {
+  getTeamInvitations,
+  getTeamMembers,
+  inviteTeamMember,
+  revokeTeamInvitation,
+  updateTeamMemberAccess
+} from '../../utils/api/team';
+import { getRoleDefinitions } from '../../utils/api/permissions';
+import { getWarehouses } from '../../utils/storage';
+import { getCurrentUserId } from '../../utils/supaHelpers';
+import {
+  TEAM_ROLES,
+  describeWarehouseAccess,
+  getAssignableRoles,
+  getRoleLabel,
+  getTeamMemberLock
+} from '../../utils/teamAccess';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TeamManagementPage');
+
+const formatDateTime = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM yyyy, HH:mm') : '—');
+
+interface WarehousePickerProps {
+  warehouses: Warehouse[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// No warehouse ticked means access to all of them
+const WarehousePicker: React.FC<WarehousePickerProps> = ({ warehouses, selected, onChange }) => (
+  <div className="flex flex-wrap gap-2">
+    <button
+      type="button"
+      onClick={() => onChange([])}
+      className={`px-3 py-1 rounded-full text-xs border ${
+        selected.length === 0
+          ? 'bg-primary-600 text-white border-primary-600'
+          : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+      }`}
+    >
+      All warehouses
+    </button>
+    {warehouses.map(warehouse => {
+      const active = selected.includes(warehouse.id);
+      return (
+        <button
+          key={warehouse.id}
+          type="button"
+          onClick={() => onChange(active ? selected.filter(id => id !== warehouse.id) : [...selected, warehouse.id])}
+          className={`px-3 py-1 rounded-full text-xs border ${
+            active
+              ? 'bg-primary-50 text-primary-700 border-primary-300 dark:bg-primary-900/30 dark:text-primary-300'
+              : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+          }`}
+        >
+          {warehouse.name}
+        </button>
+      );
+    })}
+  </div>
+);
+
+const TeamManagementPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [customRoles, setCustomRoles] = useState<RoleDefinition[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [showInvite, setShowInvite] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('data_entry');
+  const [inviteWarehouses, setInviteWarehouses] = useState<string[]>([]);
+  const [inviting, setInviting] = useState(false);
+
+  const [editingWarehouses, setEditingWarehouses] = useState<{ userId: string; ids: string[] } | null>(null);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const warehouseNames = useMemo(() => new Map(warehouses.map(w => [w.id, w.name])), [warehouses]);
+  const roleNames = useMemo(() => new Map(customRoles.map(r => [r.id, r.name])), [customRoles]);
+  const customRoleOptions = [
+    { value: '', label: 'Role defaults' },
+    ...customRoles.map(r => ({ value: r.id, label: r.name }))
+  ];
+  const actor = { userId: currentUserId || '', role: permissions?.role || 'data_entry' };
+  const roleOptions = getAssignableRoles(actor.role).map(role => ({ value: role, label: getRoleLabel(role) }));
+  const pendingInvitations = invitations.filter(invitation => invitation.status === 'sent');
+
+  const loadTeam = async () => {
+    const [membersData, invitationsData] = await Promise.all([getTeamMembers(), getTeamInvitations()]);
+    setMembers(membersData);
+    setInvitations(invitationsData);
+  };
+
+  useEffect(() => {
+    Promise.all([
+      loadTeam(),
+      getWarehouses().then(setWarehouses),
+      getRoleDefinitions().then(setCustomRoles),
+      getCurrentUserId().then(setCurrentUserId)
+    ])
+      .catch(error => logger.error('Error loading team:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      const { existingUser } = await inviteTeamMember(
+        { email: inviteEmail, role: inviteRole, warehouse_ids: inviteWarehouses },
+        warehouseNames
+      );
+      toast.success(existingUser
+        ? `${inviteEmail} already has an account; they join once they accept the invitation in the app`
+        : `Invitation sent to ${inviteEmail}`);
+      setInviteEmail('');
+      setInviteWarehouses([]);
+      setShowInvite(false);
+      await loadTeam();
+    } catch (error) {
+      logger.error('Error inviting team member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send the invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const saveAccess = async (member: TeamMember, next: Partial<TeamAccess>) => {
+    setSavingUserId(member.user_id);
+    try {
+      const updated = await updateTeamMemberAccess(
+        member,
+        {
+          role: member.role,
+          custom_role_id: member.custom_role_id,
+          is_active: member.is_active,
+          warehouse_ids: member.warehouse_ids,
+          ...next
+        },
+        warehouseNames,
+        roleNames
+      );
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? updated : m)));
+      setEditingWarehouses(null);
+      toast.success(`Access updated for ${member.email}`);
+    } catch (error) {
+      logger.error('Error updating team member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update access');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const handleToggleActive = (member: TeamMember) => {
+    const prompt = member.is_active
+      ? `Deactivate ${member.email}? They keep their history but can no longer use the app for this organization.`
+      : `Reactivate ${member.email} as ${getRoleLabel(member.role)}?`;
+    if (!window.confirm(prompt)) return;
+    saveAccess(member, { is_active: !member.is_active });
+  };
+
+  const handleRevoke = async (invitation: TeamInvitation) => {
+    if (!window.confirm(`Revoke the invitation to ${invitation.email}?`)) return;
+    setRevokingId(invitation.id);
+    try {
+      await revokeTeamInvitation(invitation);
+      toast.success('Invitation revoked');
+      await loadTeam();
+    } catch (error) {
+      logger.error('Error revoking invitation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke the invitation');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <UsersRound className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Team</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Who can use {permissions.organizationName}, with which role and for which warehouses
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button onClick={() => setShowInvite(prev => !prev)} icon={<UserPlus className="h-4 w-4" />}>
+              Invite Member
+            </Button>
+          </div>
+        </div>
+
+        {showInvite && (
+          <form
+            onSubmit={handleInvite}
+            className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm mb-6 p-4 space-y-4"
+          >
+            <div className="flex justify-between items-start">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Invite a team member</h2>
+              <button
+                type="button"
+                onClick={() => setShowInvite(false)}
+                className="text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                aria-label="Close invite form"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Email"
+                type="email"
+                required
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                icon={<Mail className="h-4 w-4" />}
+                placeholder="name@company.com"
+              />
+              <Select
+                label="Role"
+                value={inviteRole}
+                onChange={e => setInviteRole(e.target.value as UserRole)}
+                options={roleOptions}
+                helperText={TEAM_ROLES.find(r => r.role === inviteRole)?.description}
+              />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Warehouses</p>
+              <WarehousePicker warehouses={warehouses} selected={inviteWarehouses} onChange={setInviteWarehouses} />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" isLoading={inviting} icon={<Mail className="h-4 w-4" />}>
+                Send Invitation
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Members */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm mb-6">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Members</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {members.filter(m => m.is_active).length} active · every change is recorded in the audit trail
+            </p>
+          </div>
+          {members.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No members found</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Member</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Role</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Warehouses</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Last sign-in</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {members.map(member => {
+                    const lock = getTeamMemberLock(actor, member);
+                    const saving = savingUserId === member.user_id;
+                    const editing = editingWarehouses?.userId === member.user_id ? editingWarehouses : null;
+                    // Ownership is only handed out by invitation
+                    const promotableRoles = roleOptions.filter(o => o.value !== 'owner');
+                    const memberRoleOptions = promotableRoles.some(o => o.value === member.role)
+                      ? promotableRoles
+                      : [{ value: member.role, label: getRoleLabel(member.role) }, ...promotableRoles];
+
+                    return (
+                      <tr key={member.user_id} className={member.is_active ? '' : 'opacity-60'}>
+                        <td className="px-4 py-3 text-sm">
+                          <p className="font-medium text-gray-900 dark:text-gray-100">
+                            {member.email}
+                            {member.user_id === currentUserId && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                          </p>
+                          {!member.is_active && (
+                            <span className="inline-flex mt-1 px-2 py-0.5 text-xs rounded-full bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300">
+                              Deactivated
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm" title={lock || undefined}>
+                          {lock ? (
+                            <span className="text-gray-700 dark:text-gray-300">
+                              {getRoleLabel(member.role)}
+                              {member.custom_role_id && ` · ${roleNames.get(member.custom_role_id) || 'custom role'}`}
+                            </span>
+                          ) : (
+                            <div className="space-y-2">
+                              <Select
+                                value={member.role}
+                                onChange={e => saveAccess(member, { role: e.target.value as UserRole })}
+                                size="sm"
+                                options={memberRoleOptions}
+                                disabled={saving}
+                              />
+                              {customRoles.length > 0 && (
+                                <Select
+                                  value={member.custom_role_id || ''}
+                                  onChange={e => saveAccess(member, { custom_role_id: e.target.value || null })}
+                                  size="sm"
+                                  options={customRoleOptions}
+                                  disabled={saving}
+                                />
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                          {editing ? (
+                            <div className="space-y-2">
+                              <WarehousePicker
+                                warehouses={warehouses}
+                                selected={editing.ids}
+                                onChange={ids => setEditingWarehouses({ userId: member.user_id, ids })}
+                              />
+                              <div className="flex gap-2">
+                                <Button size="sm" isLoading={saving} onClick={() => saveAccess(member, { warehouse_ids: editing.ids })}>
+                                  Save
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => setEditingWarehouses(null)}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button
+                              type="button"
+                              disabled={!!lock}
+                              onClick={() => setEditingWarehouses({ userId: member.user_id, ids: member.warehouse_ids || [] })}
+                              className="text-left enabled:hover:text-primary-600 enabled:hover:underline disabled:cursor-default"
+                            >
+                              {describeWarehouseAccess(member.warehouse_ids, warehouseNames)}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                          {member.last_sign_in_at ? formatDateTime(member.last_sign_in_at) : 'Never'}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          {!lock && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleToggleActive(member)}
+                              disabled={saving}
+                              icon={member.is_active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                            >
+                              {member.is_active ? 'Deactivate' : 'Reactivate'}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Pending invitations */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">Pending Invitations</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Invitations not used to sign in yet</p>
+          </div>
+          {pendingInvitations.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No pending invitations</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {pendingInvitations.map(invitation => (
+                <li key={invitation.id} className="px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{invitation.email}</p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {getRoleLabel(invitation.role)} · {describeWarehouseAccess(invitation.warehouse_ids, warehouseNames)} · sent {formatDateTime(invitation.created_at)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRevoke(invitation)}
+                    isLoading={revokingId === invitation.id}
+                    icon={<X className="h-4 w-4" />}
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Tokens for trackers pushing GPS tracks */}
+        <GpsIngestTokensManager />
+      </div>
+    </Layout>
+  );
+};
+
+export default TeamManagementPage;
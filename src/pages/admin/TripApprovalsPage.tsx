@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Check, ClipboardCheck, Eye, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import Layout from '../../components/layout/Layout';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import LoadingScreen from '../../components/LoadingScreen';
+import { CascadePreviewModal } from '../../components/trips/CascadePreviewModal';
+import { usePermissions } from '../../hooks/usePermissions';
+import { TripChangeRequest, TripChangeRequestStatus } from '../../types';
+import {
+  approveTripChangeRequest,
+  getTripChangeRequests,
+  rejectTripChangeRequest
+} from '../../utils/api/tripChangeRequests';
+import { getTeamMembers } from '../../utils/api/team';
+import { getDrivers } from '../../utils/api/drivers';
+import { getDestinations, getVehicles, getWarehouses } from '../../utils/storage';
+import { formatChangeValue, getChangeRequestTypeLabel } from '../../utils/tripChangeRequests';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TripApprovalsPage');
+
+const formatDateTime = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM yyyy, HH:mm') : '—');
+
+const STATUS_STYLES: Record<TripChangeRequestStatus, string> = {
+  pending: 'bg-warning-100 text-warning-800 dark:bg-warning-900/30 dark:text-warning-300',
+  approved: 'bg-success-100 text-success-800 dark:bg-success-900/30 dark:text-success-300',
+  rejected: 'bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300'
+};
+
+const TripApprovalsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { permissions, loading: permissionsLoading } = usePermissions();
+
+  const [requests, setRequests] = useState<TripChangeRequest[]>([]);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [emails, setEmails] = useState<Map<string, string>>(new Map());
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [reviewReasons, setReviewReasons] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [previewRequest, setPreviewRequest] = useState<TripChangeRequest | null>(null);
+
+  const loadRequests = async () => setRequests(await getTripChangeRequests());
+
+  useEffect(() => {
+    // Names for the ids a diff may contain, and the requesters' emails
+    Promise.all([
+      loadRequests(),
+      getTeamMembers().then(members => setEmails(new Map(members.map(m => [m.user_id, m.email])))),
+      Promise.all([getVehicles(), getDrivers(), getWarehouses(), getDestinations()]).then(
+        ([vehicles, drivers, warehouses, destinations]) =>
+          setNames(new Map([
+            ...vehicles.map(v => [v.id, v.registration_number] as [string, string]),
+            ...drivers.map(d => [d.id, d.name] as [string, string]),
+            ...warehouses.map(w => [w.id, w.name] as [string, string]),
+            ...destinations.map(d => [d.id, d.name] as [string, string])
+          ]))
+      )
+    ])
+      .catch(error => logger.error('Error loading trip change requests:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const visibleRequests = useMemo(
+    () => requests.filter(request => (request.status === 'pending') !== showReviewed),
+    [requests, showReviewed]
+  );
+  const pendingCount = requests.filter(request => request.status === 'pending').length;
+
+  const displayValue = (value: unknown) =>
+    formatChangeValue(
+      Array.isArray(value)
+        ? value.map(v => (typeof v === 'string' ? names.get(v) || v : v))
+        : typeof value === 'string' ? names.get(value) || value : value
+    );
+
+  const handleReview = async (request: TripChangeRequest, approve: boolean) => {
+    const reason = reviewReasons[request.id] || '';
+    if (approve && !window.confirm(`Approve this ${getChangeRequestTypeLabel(request.request_type).toLowerCase()} request? The change is written straight away.`)) {
+      return;
+    }
+
+    setReviewingId(request.id);
+    try {
+      const reviewed = approve
+        ? await approveTripChangeRequest(request, reason)
+        : await rejectTripChangeRequest(request, reason);
+      setRequests(prev => prev.map(r => (r.id === reviewed.id ? reviewed : r)));
+      setPreviewRequest(null);
+      toast.success(approve ? 'Change approved and applied' : 'Change rejected');
+    } catch (error) {
+      logger.error('Error reviewing trip change request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to review the request');
+      await loadRequests();
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (permissionsLoading || loading) {
+    return <LoadingScreen isLoading={true} />;
+  }
+
+  if (!permissions?.canAccessAdmin) {
+    navigate('/vehicles');
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 lg:p-8">
+        {/* Page Header */}
+        <div className="rounded-xl border bg-white dark:bg-gray-900 px-4 py-3 shadow-sm mb-6">
+          <div className="flex items-center group">
+            <ClipboardCheck className="h-5 w-5 mr-2 text-gray-500 dark:text-gray-400 group-hover:text-primary-600 transition" />
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Trip Approvals</h1>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 ml-7">
+            Edits to verified trips, odometer cascades and deletions requested by data entry members
+          </p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/admin')}
+              icon={<ArrowLeft className="h-4 w-4" />}
+            >
+              Back to Admin
+            </Button>
+            <Button variant={showReviewed ? 'outline' : 'primary'} onClick={() => setShowReviewed(false)}>
+              Pending ({pendingCount})
+            </Button>
+            <Button variant={showReviewed ? 'primary' : 'outline'} onClick={() => setShowReviewed(true)}>
+              Reviewed
+            </Button>
+          </div>
+        </div>
+
+        {visibleRequests.length === 0 ? (
+          <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            {showReviewed ? 'No reviewed requests yet' : 'Nothing waiting for approval'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleRequests.map(request => {
+              const reviewing = reviewingId === request.id;
+              return (
+                <div
+                  key={request.id}
+                  className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm"
+                >
+                  <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                        {request.trip_id ? (
+                          <Link to={`/trips/${request.trip_id}`} className="font-mono text-primary-600 hover:underline">
+                            {request.trip_serial_number || 'Trip'}
+                          </Link>
+                        ) : (
+                          <span className="font-mono">{request.trip_serial_number || 'Deleted trip'}</span>
+                        )}
+                        <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                          {getChangeRequestTypeLabel(request.request_type)}
+                        </span>
+                      </h2>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Requested by {emails.get(request.created_by) || 'a team member'} · {formatDateTime(request.created_at)}
+                      </p>
+                      {request.reason && (
+                        <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">“{request.reason}”</p>
+                      )}
+                    </div>
+                    <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${STATUS_STYLES[request.status]}`}>
+                      {request.status}
+                    </span>
+                  </div>
+
+                  {request.changes.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead className="bg-gray-50 dark:bg-gray-800">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Field</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Current</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Proposed</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                          {request.changes.map(change => (
+                            <tr key={change.field}>
+                              <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">{change.label}</td>
+                              <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 line-through">
+                                {displayValue(change.old_value)}
+                              </td>
+                              <td className="px-4 py-3 text-sm font-medium text-success-700 dark:text-success-400">
+                                {displayValue(change.new_value)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+                    {request.status === 'pending' ? (
+                      <div className="flex flex-wrap items-end gap-2">
+                        <div className="flex-1 min-w-[16rem]">
+                          <Input
+                            label="Review reason"
+                            value={reviewReasons[request.id] || ''}
+                            onChange={e => setReviewReasons(prev => ({ ...prev, [request.id]: e.target.value }))}
+                            placeholder="Required to reject"
+                          />
+                        </div>
+                        {request.request_type === 'cascade' && (
+                          <Button variant="outline" onClick={() => setPreviewRequest(request)} icon={<Eye className="h-4 w-4" />}>
+                            Cascade Preview
+                          </Button>
+                        )}
+                        <Button
+                          variant="danger"
+                          isLoading={reviewing}
+                          onClick={() => handleReview(request, false)}
+                          icon={<X className="h-4 w-4" />}
+                        >
+                          Reject
+                        </Button>
+                        <Button
+                          variant="success"
+                          isLoading={reviewing}
+                          onClick={() => handleReview(request, true)}
+                          icon={<Check className="h-4 w-4" />}
+                        >
+                          Approve
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {request.status === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+                        {(request.reviewed_by && emails.get(request.reviewed_by)) || 'an admin'} ·{' '}
+                        {formatDateTime(request.reviewed_at)}
+                        {request.review_reason && <> — “{request.review_reason}”</>}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CascadePreviewModal
+        isOpen={!!previewRequest}
+        onClose={() => setPreviewRequest(null)}
+        onApply={() => previewRequest && handleReview(previewRequest, true)}
+        affectedTrips={previewRequest?.cascade_preview || []}
+        loading={!!previewRequest && reviewingId === previewRequest.id}
+        applyLabel="Approve"
+      />
+    </Layout>
+  );
+};
+
+export default TripApprovalsPage;
@@ -214,13 +214,13 @@ const UnifiedReportingDashboard: React.FC = () => {
     try {
       // Get count to bypass 1000 row limit
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('start_time', dateRange.startDate.toISOString())
         .lte('start_time', dateRange.endDate.toISOString());
       
       const { data: trips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*')
         .gte('start_time', dateRange.startDate.toISOString())
         .lte('start_time', dateRange.endDate.toISOString())
@@ -240,7 +240,7 @@ const UnifiedReportingDashboard: React.FC = () => {
         .eq('status', 'active');
 
       const { count: driverCount } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('*', { count: 'exact', head: true })
         .eq('status', 'active');
 
@@ -272,13 +272,13 @@ const UnifiedReportingDashboard: React.FC = () => {
     try {
       // Get count for 6-month trend
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('start_time', subMonths(dateRange.endDate, 6).toISOString())
         .lte('start_time', dateRange.endDate.toISOString());
       
       const { data: trips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('start_time, end_km, start_km')
         .gte('start_time', subMonths(dateRange.endDate, 6).toISOString())
         .lte('start_time', dateRange.endDate.toISOString())
@@ -315,7 +315,7 @@ const UnifiedReportingDashboard: React.FC = () => {
       const utilizationData = await Promise.all(
         vehicles?.map(async (vehicle) => {
           const { count } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .eq('vehicle_id', vehicle.id)
             .gte('start_time', dateRange.startDate.toISOString())
@@ -341,7 +341,7 @@ const UnifiedReportingDashboard: React.FC = () => {
   const fetchDriverPerformance = useCallback(async () => {
     try {
       const { data: drivers } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('id, name')
         .eq('status', 'active')
         .limit(10);
@@ -350,14 +350,14 @@ const UnifiedReportingDashboard: React.FC = () => {
         drivers?.map(async (driver) => {
           // Get count for this driver
           const { count: driverTripCount } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .eq('driver_id', driver.id)
             .gte('start_time', dateRange.startDate.toISOString())
             .lte('start_time', dateRange.endDate.toISOString());
           
           const { data: trips } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*')
             .eq('driver_id', driver.id)
             .gte('start_time', dateRange.startDate.toISOString())
@@ -391,13 +391,13 @@ const UnifiedReportingDashboard: React.FC = () => {
     try {
       // Get count for expense breakdown
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .gte('start_time', dateRange.startDate.toISOString())
         .lte('start_time', dateRange.endDate.toISOString());
       
       const { data: trips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('total_fuel_cost, total_road_expenses, driver_expense, breakdown_expense')
         .gte('start_time', dateRange.startDate.toISOString())
         .lte('start_time', dateRange.endDate.toISOString())
@@ -491,13 +491,13 @@ const UnifiedReportingDashboard: React.FC = () => {
 
           // Get count for this week
           const { count: thisWeekCount } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .gte('start_time', thisWeekStart.toISOString())
             .lte('start_time', new Date().toISOString());
           
           const { data: thisWeekTrips } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*')
             .gte('start_time', thisWeekStart.toISOString())
             .lte('start_time', new Date().toISOString())
@@ -505,13 +505,13 @@ const UnifiedReportingDashboard: React.FC = () => {
 
           // Get count for last week
           const { count: lastWeekCount } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .gte('start_time', lastWeekStart.toISOString())
             .lte('start_time', endOfWeek(subDays(new Date(), 7), { weekStartsOn: 1 }).toISOString());
           
           const { data: lastWeekTrips } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*')
             .gte('start_time', lastWeekStart.toISOString())
             .lte('start_time', endOfWeek(subDays(new Date(), 7), { weekStartsOn: 1 }).toISOString())
@@ -539,13 +539,13 @@ const UnifiedReportingDashboard: React.FC = () => {
         case 'trip-summary': {
           // Get count for trip summary
           const { count } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select('*', { count: 'exact', head: true })
             .gte('start_time', start.toISOString())
             .lte('start_time', end.toISOString());
           
           const { data: trips } = await supabase
-            .from('trips')
+            .from('trips_visible')
             .select(`
               *,
               vehicle:vehicles(registration_number),
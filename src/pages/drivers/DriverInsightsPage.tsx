@@ -51,6 +51,7 @@ import Layout from "../../components/layout/Layout";
 import LoadingScreen from "../../components/LoadingScreen";
 import Button from "../../components/ui/Button";
 import DriverSummaryModal from "../../components/drivers/DriverSummaryModal";
+import DriverLeaderboardPanel from "../../components/drivers/DriverLeaderboardPanel";
 import Input from "../../components/ui/Input";
 import Select from "../../components/ui/Select";
 import StatCard from "../../components/ui/StatCard";
@@ -1102,6 +1103,9 @@ const DriverInsightsPage: React.FC = () => {
             )}
           </div>
 
+          {/* Driver Leaderboard */}
+          <DriverLeaderboardPanel onDriverClick={handleViewDriverDetails} />
+
           {/* Driver Performance Table */}
           <div className="bg-white rounded-lg shadow-sm overflow-hidden">
             <div className="px-4 py-5 border-b border-gray-200 sm:px-6 flex items-center justify-between">
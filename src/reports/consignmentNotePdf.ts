@@ -0,0 +1,145 @@
+import { format, parseISO } from 'date-fns';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+import type { ConsignmentNote, Trip } from '@/types';
+import type { InvoiceSupplier } from '@/utils/api/invoices';
+import { GST_STATE_CODES } from '@/utils/indianValidation';
+import { CONSIGNMENT_FREIGHT_BASIS_LABELS } from '@/utils/ewayBill';
+import {
+  initializeReport,
+  renderFooter,
+  renderParagraph,
+  renderPartyBlock,
+  renderTable,
+} from './pdfRenderers';
+import { pdfTheme, setFont } from './pdfTheme';
+
+const formatCurrency = (value?: number | null) =>
+  (value ?? 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM yyyy') : '—');
+
+const formatState = (stateCode?: string | null) =>
+  stateCode ? `${GST_STATE_CODES[stateCode] ?? ''} (${stateCode})` : '';
+
+const getLastTableY = (doc: jsPDF, fallback: number) => {
+  const lastTable = (doc as any).lastAutoTable;
+  return lastTable?.finalY ? lastTable.finalY + pdfTheme.layout.sections.gap / 2 : fallback;
+};
+
+export interface ConsignmentNotePdfOptions {
+  trip: Trip;
+  vehicleNumber: string;
+  route: string;
+  supplier: InvoiceSupplier | null;
+}
+
+/**
+ * Render a lorry receipt (consignment note) and trigger the download
+ */
+export const downloadConsignmentNotePdf = async (note: ConsignmentNote, options: ConsignmentNotePdfOptions) => {
+  const { trip, vehicleNumber, route, supplier } = options;
+  const doc = new jsPDF();
+  const margin = pdfTheme.layout.page.margin;
+  const contentWidth = doc.internal.pageSize.getWidth() - margin * 2;
+
+  let cursorY = await initializeReport(doc, {
+    title: note.status === 'cancelled' ? 'Consignment Note (Cancelled)' : 'Consignment Note',
+    subtitle: `LR No. ${note.lr_number}  •  Date ${formatDate(note.lr_date)}  •  Vehicle ${vehicleNumber}`,
+  });
+
+  cursorY = await renderPartyBlock(
+    doc,
+    'Transporter',
+    [
+      [supplier?.name, supplier?.gst_number ? `GSTIN: ${supplier.gst_number}` : ''].filter(Boolean).join('  •  '),
+      [supplier?.address, supplier?.city, supplier?.state, supplier?.pincode].filter(Boolean).join(', '),
+    ].filter(Boolean),
+    margin,
+    cursorY,
+    contentWidth,
+  ) + pdfTheme.layout.page.gutter / 2;
+
+  const columnWidth = (contentWidth - pdfTheme.layout.page.gutter) / 2;
+  const consignorBottom = await renderPartyBlock(
+    doc,
+    'Consignor',
+    [
+      note.consignor_name,
+      [note.consignor_address, note.consignor_pincode].filter(Boolean).join(' - '),
+      formatState(note.consignor_state_code),
+      `GSTIN: ${note.consignor_gstin || 'Unregistered'}`,
+    ].filter(Boolean),
+    margin,
+    cursorY,
+    columnWidth,
+  );
+  const consigneeBottom = await renderPartyBlock(
+    doc,
+    'Consignee',
+    [
+      note.consignee_name,
+      [note.consignee_address, note.consignee_pincode].filter(Boolean).join(' - '),
+      formatState(note.consignee_state_code),
+      `GSTIN: ${note.consignee_gstin || 'Unregistered'}`,
+    ].filter(Boolean),
+    margin + columnWidth + pdfTheme.layout.page.gutter,
+    cursorY,
+    columnWidth,
+  );
+  cursorY = Math.max(consignorBottom, consigneeBottom) + pdfTheme.layout.sections.gap / 2;
+
+  await renderTable(doc, {
+    head: [['Packages', 'Description of Goods', 'HSN', 'Actual Weight (kg)', 'Invoice No. / Date', 'Invoice Value (₹)']],
+    body: [[
+      `${note.package_count.toLocaleString('en-IN')} ${note.package_type}`,
+      note.material_description,
+      note.hsn_code || '—',
+      note.actual_weight ? note.actual_weight.toLocaleString('en-IN') : '—',
+      [note.invoice_number, note.invoice_date ? formatDate(note.invoice_date) : ''].filter(Boolean).join(' / ') || '—',
+      formatCurrency(note.invoice_value),
+    ]],
+    startY: cursorY,
+    columnStyles: {
+      5: { halign: 'right' },
+    },
+  });
+  cursorY = getLastTableY(doc, cursorY);
+
+  await renderTable(doc, {
+    body: [
+      ['Trip', trip.trip_serial_number || '—'],
+      ['Route', route || '—'],
+      ['E-way Bill No.', trip.eway_bill_number || '—'],
+      ['Freight', `${formatCurrency(note.freight_amount)} (${CONSIGNMENT_FREIGHT_BASIS_LABELS[note.freight_basis]})`],
+    ],
+    startY: cursorY,
+    columnStyles: { 0: { cellWidth: 40, fontStyle: 'bold' } },
+  });
+  cursorY = getLastTableY(doc, cursorY);
+
+  if (note.remarks) {
+    cursorY = await renderParagraph(doc, `Remarks: ${note.remarks}`, cursorY + 4);
+  }
+
+  cursorY = await renderParagraph(
+    doc,
+    'Goods are carried at owner\'s risk. The consignee copy must be surrendered on delivery.',
+    cursorY + 2,
+    { color: pdfTheme.colors.muted },
+  );
+
+  await setFont(doc, {
+    family: 'body',
+    size: pdfTheme.typography.body.sizes.small,
+    color: pdfTheme.colors.text,
+  });
+  doc.text('Consignor\'s Signature', margin, cursorY + 28);
+  doc.text(`For ${supplier?.name || ''}`, margin + contentWidth, cursorY + 12, { align: 'right' });
+  doc.text('Booking Clerk', margin + contentWidth, cursorY + 28, { align: 'right' });
+
+  await renderFooter(doc);
+
+  doc.save(`LR-${note.lr_number.replace(/\//g, '-')}.pdf`);
+};
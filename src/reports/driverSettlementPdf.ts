@@ -0,0 +1,100 @@
+import { format, parseISO } from 'date-fns';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+import type { Driver, DriverLedgerLine, DriverLedgerSummary } from '@/types';
+import { initializeReport, renderFooter, renderMetricGrid, renderParagraph, renderSectionHeading, renderTable } from './pdfRenderers';
+import { pdfTheme, setFont } from './pdfTheme';
+
+const formatAmount = (value: number) =>
+  value ? value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '';
+
+const describeBalance = (balance: number) => {
+  if (balance > 0) return `Payable to driver: ₹${formatAmount(balance)}`;
+  if (balance < 0) return `Recoverable from driver: ₹${formatAmount(-balance)}`;
+  return 'Settled – nothing due either way';
+};
+
+/**
+ * Render a driver settlement statement and trigger the download
+ */
+export const downloadDriverSettlementStatement = async (
+  driver: Driver,
+  lines: DriverLedgerLine[],
+  summary: DriverLedgerSummary,
+  period: { from?: string; to?: string },
+) => {
+  const doc = new jsPDF();
+  const margin = pdfTheme.layout.page.margin;
+  const contentWidth = doc.internal.pageSize.getWidth() - margin * 2;
+
+  let cursorY = await initializeReport(doc, {
+    title: 'Driver Settlement Statement',
+    subtitle: `${driver.name} • License ${driver.license_number || '—'}`,
+    period: period.from && period.to
+      ? { startDate: parseISO(period.from), endDate: parseISO(period.to) }
+      : undefined,
+  });
+
+  cursorY = await renderMetricGrid(doc, [
+    { label: 'Advances', value: `₹${summary.totalAdvances.toLocaleString('en-IN')}`, color: pdfTheme.colors.kpi.vehicles },
+    { label: 'Verified Expenses', value: `₹${summary.totalVerified.toLocaleString('en-IN')}`, color: pdfTheme.colors.kpi.revenue },
+    {
+      label: 'Pending Verification',
+      value: `₹${summary.pendingVerification.toLocaleString('en-IN')}`,
+      color: pdfTheme.colors.kpi.drivers,
+    },
+    {
+      label: 'Closing Balance',
+      value: `₹${summary.closingBalance.toLocaleString('en-IN')}`,
+      helperText: summary.closingBalance >= 0 ? 'owed to driver' : 'held by driver',
+      color: pdfTheme.colors.kpi.trips,
+    },
+  ], cursorY);
+
+  cursorY = await renderSectionHeading(doc, 'Ledger', cursorY + pdfTheme.layout.sections.gap / 2);
+
+  await renderTable(doc, {
+    head: [['Date', 'Particulars', 'Given (₹)', 'Owed (₹)', 'Pending (₹)', 'Balance (₹)']],
+    body: [
+      ['', 'Opening balance', '', '', '', formatAmount(summary.openingBalance) || '0.00'],
+      ...lines.map(line => [
+        format(parseISO(line.date), 'dd/MM/yyyy'),
+        line.description,
+        formatAmount(line.debit),
+        formatAmount(line.credit),
+        formatAmount(line.pending),
+        formatAmount(line.balance) || '0.00',
+      ]),
+    ],
+    startY: cursorY,
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+    },
+  });
+
+  const lastTable = (doc as any).lastAutoTable;
+  cursorY = lastTable?.finalY ? lastTable.finalY + pdfTheme.layout.sections.gap / 2 : cursorY;
+
+  cursorY = await renderParagraph(doc, [
+    describeBalance(summary.closingBalance),
+    summary.pendingVerification > 0
+      ? `₹${formatAmount(summary.pendingVerification)} of claimed expenses is awaiting verification and is not included above.`
+      : '',
+  ].filter(Boolean), cursorY);
+
+  await setFont(doc, {
+    family: 'body',
+    size: pdfTheme.typography.body.sizes.small,
+    color: pdfTheme.colors.text,
+  });
+  const signatureY = cursorY + 24;
+  doc.text('Driver Signature', margin, signatureY);
+  doc.text('Accounts', margin + contentWidth, signatureY, { align: 'right' });
+
+  await renderFooter(doc);
+  doc.save(`Driver-Settlement-${driver.name.replace(/\s+/g, '-')}-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+};
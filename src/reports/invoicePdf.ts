@@ -0,0 +1,153 @@
+import { format, parseISO } from 'date-fns';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+
+import type { Customer, Invoice, InvoiceItem } from '@/types';
+import type { InvoiceSupplier } from '@/utils/api/invoices';
+import { GST_STATE_CODES } from '@/utils/indianValidation';
+import { amountInWords } from '@/utils/gstInvoice';
+import {
+  initializeReport,
+  renderFooter,
+  renderParagraph,
+  renderPartyBlock,
+  renderSectionHeading,
+  renderTable,
+} from './pdfRenderers';
+import { pdfTheme, setFont } from './pdfTheme';
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value?: string | null) => (value ? format(parseISO(value), 'dd MMM yyyy') : '—');
+
+const getLastTableY = (doc: jsPDF, fallback: number) => {
+  const lastTable = (doc as any).lastAutoTable;
+  return lastTable?.finalY ? lastTable.finalY + pdfTheme.layout.sections.gap / 2 : fallback;
+};
+
+/**
+ * Render a GST tax invoice and trigger the download
+ */
+export const downloadInvoicePdf = async (
+  invoice: Invoice,
+  items: InvoiceItem[],
+  customer: Customer,
+  supplier: InvoiceSupplier | null,
+) => {
+  const doc = new jsPDF();
+  const margin = pdfTheme.layout.page.margin;
+  const contentWidth = doc.internal.pageSize.getWidth() - margin * 2;
+  const isInterState = invoice.igst_amount > 0;
+  const placeOfSupply = invoice.place_of_supply
+    ? `${GST_STATE_CODES[invoice.place_of_supply] ?? ''} (${invoice.place_of_supply})`
+    : '—';
+
+  let cursorY = await initializeReport(doc, {
+    title: invoice.status === 'draft' ? 'Tax Invoice (Draft)' : 'Tax Invoice',
+    subtitle: `Invoice No. ${invoice.invoice_number || 'Not yet issued'}  •  Date ${formatDate(invoice.invoice_date)}  •  Due ${formatDate(invoice.due_date)}`,
+  });
+
+  const columnWidth = (contentWidth - pdfTheme.layout.page.gutter) / 2;
+  const supplierBottom = await renderPartyBlock(
+    doc,
+    'Supplier',
+    [
+      supplier?.name || '',
+      [supplier?.address, supplier?.city, supplier?.state, supplier?.pincode].filter(Boolean).join(', '),
+      `GSTIN: ${invoice.supplier_gstin || 'Unregistered'}`,
+      supplier?.pan_number ? `PAN: ${supplier.pan_number}` : '',
+    ].filter(Boolean),
+    margin,
+    cursorY,
+    columnWidth,
+  );
+  const customerBottom = await renderPartyBlock(
+    doc,
+    'Bill To',
+    [
+      customer.name,
+      [customer.billing_address, customer.city, customer.state, customer.pincode].filter(Boolean).join(', '),
+      `GSTIN: ${invoice.customer_gstin || 'Unregistered'}`,
+      `Place of Supply: ${placeOfSupply}`,
+    ].filter(Boolean),
+    margin + columnWidth + pdfTheme.layout.page.gutter,
+    cursorY,
+    columnWidth,
+  );
+  cursorY = Math.max(supplierBottom, customerBottom) + pdfTheme.layout.sections.gap / 2;
+
+  await renderTable(doc, {
+    head: [['#', 'Description', 'SAC', 'Qty', 'Unit', 'Rate (₹)', 'Amount (₹)']],
+    body: items.map((item, index) => [
+      String(index + 1),
+      item.description,
+      item.sac_code,
+      item.quantity.toLocaleString('en-IN'),
+      item.unit,
+      formatCurrency(item.rate),
+      formatCurrency(item.amount),
+    ]),
+    startY: cursorY,
+    columnStyles: {
+      0: { cellWidth: 8 },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+    },
+  });
+  cursorY = getLastTableY(doc, cursorY);
+
+  const taxRows: string[][] = [['Taxable Value', formatCurrency(invoice.taxable_amount)]];
+  if (isInterState) {
+    taxRows.push([`IGST @ ${invoice.gst_rate}%`, formatCurrency(invoice.igst_amount)]);
+  } else {
+    taxRows.push([`CGST @ ${invoice.gst_rate / 2}%`, formatCurrency(invoice.cgst_amount)]);
+    taxRows.push([`SGST @ ${invoice.gst_rate / 2}%`, formatCurrency(invoice.sgst_amount)]);
+  }
+  taxRows.push(['Invoice Total', formatCurrency(invoice.total_amount)]);
+
+  await renderTable(doc, {
+    body: taxRows,
+    startY: cursorY,
+    margin: { left: margin + contentWidth / 2, right: margin },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data: any) => {
+      if (data.row.index === taxRows.length - 1) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+  cursorY = getLastTableY(doc, cursorY);
+
+  cursorY = await renderParagraph(doc, `Amount in words: ${amountInWords(invoice.total_amount)}`, cursorY + 4);
+
+  const declarations = [
+    `Tax payable on reverse charge basis: ${invoice.reverse_charge ? 'Yes' : 'No'}`,
+  ];
+  if (invoice.reverse_charge) {
+    declarations.push('GST on this freight is payable by the recipient under reverse charge and is not included in the invoice total.');
+  }
+  cursorY = await renderParagraph(doc, declarations, cursorY + 2, { color: pdfTheme.colors.muted });
+
+  if (supplier?.bank_name || supplier?.bank_account_number) {
+    cursorY = await renderSectionHeading(doc, 'Payment Details', cursorY + pdfTheme.layout.sections.gap / 2);
+    cursorY = await renderParagraph(doc, [
+      `Bank: ${supplier.bank_name || '—'}`,
+      `Account No.: ${supplier.bank_account_number || '—'}`,
+      `IFSC: ${supplier.ifsc_code || '—'}`,
+    ], cursorY);
+  }
+
+  await setFont(doc, {
+    family: 'body',
+    size: pdfTheme.typography.body.sizes.small,
+    color: pdfTheme.colors.text,
+  });
+  doc.text(`For ${supplier?.name || ''}`, margin + contentWidth, cursorY + 12, { align: 'right' });
+  doc.text('Authorised Signatory', margin + contentWidth, cursorY + 28, { align: 'right' });
+
+  await renderFooter(doc);
+
+  const fileName = (invoice.invoice_number || `draft-${invoice.id.slice(0, 8)}`).replace(/\//g, '-');
+  doc.save(`Invoice-${fileName}.pdf`);
+};
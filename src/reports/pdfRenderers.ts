@@ -239,6 +239,41 @@ export const renderParagraph = async (
   return cursor;
 };
 
+// Boxed name/address block, e.g. supplier and customer on an invoice
+export const renderPartyBlock = async (
+  doc: jsPDF,
+  heading: string,
+  lines: string[],
+  x: number,
+  y: number,
+  width: number,
+): Promise<number> => {
+  const height = 16 + lines.length * 5;
+
+  doc.setFillColor(...pdfTheme.colors.surface);
+  doc.setDrawColor(...pdfTheme.colors.border);
+  doc.roundedRect(x, y, width, height, pdfTheme.layout.cards.radius, pdfTheme.layout.cards.radius, 'FD');
+
+  await setFont(doc, {
+    family: 'body',
+    size: pdfTheme.typography.body.sizes.tiny,
+    weight: 'semibold',
+    color: pdfTheme.colors.muted,
+  });
+  doc.text(heading.toUpperCase(), x + 6, y + 7);
+
+  await setFont(doc, {
+    family: 'body',
+    size: pdfTheme.typography.body.sizes.small,
+    color: pdfTheme.colors.text,
+  });
+  lines.forEach((line, index) => {
+    doc.text(doc.splitTextToSize(line, width - 12)[0] ?? '', x + 6, y + 14 + index * 5);
+  });
+
+  return y + height;
+};
+
 export const renderCallout = async (doc: jsPDF, content: string[], startY: number): Promise<number> => {
   const margin = pdfTheme.layout.page.margin;
   const contentWidth = doc.internal.pageSize.getWidth() - margin * 2;
@@ -0,0 +1,36 @@
+export type DriverLeaveType = 'leave' | 'sick' | 'training' | 'other';
+
+// Period a driver is off duty
+export interface DriverLeave {
+  id: string;
+  organization_id: string;
+  driver_id: string;
+  start_date: string; // yyyy-MM-dd
+  end_date: string; // yyyy-MM-dd, inclusive
+  leave_type: DriverLeaveType;
+  reason?: string | null;
+  created_by?: string;
+  created_at?: string;
+}
+
+export type DriverLeaveFormData = Pick<DriverLeave, 'driver_id' | 'start_date' | 'end_date' | 'leave_type' | 'reason'>;
+
+export type AvailabilityResourceType = 'vehicle' | 'driver';
+
+export type AvailabilityBlockKind = 'trip' | 'planned_trip' | 'maintenance' | 'leave' | 'status';
+
+// Time a vehicle or driver is taken; dates are inclusive yyyy-MM-dd
+export interface AvailabilityBlock {
+  resource_type: AvailabilityResourceType;
+  resource_id: string;
+  kind: AvailabilityBlockKind;
+  start: string;
+  end: string | null; // null: until further notice
+  label: string;
+  reference_id?: string; // Trip, planned trip, maintenance task or leave
+}
+
+export interface ResourceAvailability<T> {
+  free: T[];
+  busy: { resource: T; blocks: AvailabilityBlock[] }[];
+}
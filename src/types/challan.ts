@@ -0,0 +1,57 @@
+export type ChallanPaymentStatus = 'unpaid' | 'partially_paid' | 'paid';
+
+// How the driver on a challan was identified
+export type ChallanAttribution = 'trip' | 'primary_driver' | 'unmatched';
+
+// Traffic challan stored from the e-challan lookup, one row per challan_no
+export interface VehicleChallan {
+  id: string;
+  organization_id: string;
+  vehicle_id: string;
+  registration_number: string;
+  challan_no: string;
+  challan_date?: string | null;
+  amount: number;
+  source_status?: string | null; // Status as reported by the e-challan service
+  offence?: string | null;
+  offences?: string[];
+  state?: string | null;
+  area?: string | null;
+  accused_name?: string | null;
+  trip_id?: string | null;
+  driver_id?: string | null;
+  attribution: ChallanAttribution;
+  payment_status: ChallanPaymentStatus;
+  amount_paid: number;
+  paid_at?: string | null;
+  payment_reference?: string | null;
+  first_seen_at?: string;
+  last_seen_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  driver?: { id: string; name: string } | null;
+  trip?: { id: string; trip_serial_number?: string | null } | null;
+}
+
+export interface ChallanOffenderSummary {
+  driver_id: string;
+  challan_count: number;
+  unpaid_count: number;
+  unpaid_amount: number;
+  total_amount: number;
+  last_challan_date: string | null;
+  top_offence: string | null;
+}
+
+// Challan as returned by the fetch-challan-info lookup
+export interface FetchedChallan {
+  challan_no: string;
+  date: string;
+  accused_name: string;
+  challan_status: string;
+  amount: number | string; // Can be empty string
+  state: string;
+  area: string;
+  offence: string;
+  offences?: Array<{ offence_name: string }>;
+}
@@ -0,0 +1,122 @@
+export type ConsignmentFreightBasis = 'paid' | 'to_pay' | 'to_be_billed';
+
+export type ConsignmentNoteStatus = 'active' | 'cancelled';
+
+// Lorry receipt (LR / bilty) issued for goods carried on a trip
+export interface ConsignmentNote {
+  id: string;
+  organization_id: string;
+  trip_id: string;
+  lr_number: string;
+  lr_date: string;
+  financial_year: string; // e.g. "2025-26"
+  consignor_name: string;
+  consignor_gstin?: string | null;
+  consignor_address?: string | null;
+  consignor_pincode?: string | null;
+  consignor_state_code?: string | null; // Two-digit GST state code
+  consignee_name: string;
+  consignee_gstin?: string | null;
+  consignee_address?: string | null;
+  consignee_pincode?: string | null;
+  consignee_state_code?: string | null;
+  invoice_number?: string | null; // Consignor's goods invoice
+  invoice_date?: string | null;
+  invoice_value: number;
+  package_count: number;
+  package_type: string; // e.g. bags, boxes, loose
+  material_description: string;
+  hsn_code?: string | null;
+  actual_weight?: number | null; // kg
+  freight_amount?: number | null;
+  freight_basis: ConsignmentFreightBasis;
+  remarks?: string | null;
+  status: ConsignmentNoteStatus;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ConsignmentNoteFormData = Omit<
+  ConsignmentNote,
+  'id' | 'organization_id' | 'lr_number' | 'financial_year' | 'status' | 'created_by' | 'created_at' | 'updated_at'
+>;
+
+// E-way bill details recorded on the trip once generated on the portal
+export interface TripEwayBill {
+  eway_bill_number: string | null;
+  eway_bill_date: string | null;
+  eway_bill_valid_until: string | null;
+}
+
+export interface EwayBillExpiryWarning {
+  level: 'expired' | 'expires_mid_trip' | 'expiring_soon';
+  message: string;
+}
+
+// Item line in the e-way bill bulk upload JSON
+export interface EwayBillItem {
+  itemNo: number;
+  productName: string;
+  productDesc: string;
+  hsnCode: number;
+  quantity: number;
+  qtyUnit: string;
+  taxableAmount: number;
+  cgstRate: number;
+  sgstRate: number;
+  igstRate: number;
+  cessRate: number;
+  cessNonAdvol: number;
+}
+
+// One bill in the e-way bill portal's bulk generation JSON
+export interface EwayBillEntry {
+  userGstin: string;
+  supplyType: 'O' | 'I';
+  subSupplyType: number;
+  subSupplyDesc: string;
+  docType: 'INV' | 'BIL' | 'CHL' | 'OTH';
+  docNo: string;
+  docDate: string; // dd/MM/yyyy
+  transType: number;
+  fromGstin: string;
+  fromTrdName: string;
+  fromAddr1: string;
+  fromAddr2: string;
+  fromPlace: string;
+  fromPincode: number;
+  fromStateCode: number;
+  actualFromStateCode: number;
+  toGstin: string;
+  toTrdName: string;
+  toAddr1: string;
+  toAddr2: string;
+  toPlace: string;
+  toPincode: number;
+  toStateCode: number;
+  actualToStateCode: number;
+  totalValue: number;
+  cgstValue: number;
+  sgstValue: number;
+  igstValue: number;
+  cessValue: number;
+  TotNonAdvolVal: number;
+  OthValue: number;
+  totInvValue: number;
+  transMode: number;
+  transDistance: number;
+  transporterName: string;
+  transporterId: string;
+  transDocNo: string;
+  transDocDate: string;
+  vehicleNo: string;
+  vehicleType: 'R' | 'O';
+  mainHsnCode: number;
+  itemList: EwayBillItem[];
+}
+
+export interface EwayBillBulkUpload {
+  version: string;
+  billLists: EwayBillEntry[];
+}
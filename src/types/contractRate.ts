@@ -0,0 +1,39 @@
+export type ContractRateType = 'per_km' | 'per_ton' | 'per_trip';
+
+export interface ContractRate {
+  id: string;
+  organization_id: string;
+  customer_id?: string | null;
+  customer_name: string;
+  route?: string | null; // Human-readable route label, e.g. "Raipur to Bacheli"
+  warehouse_id?: string | null; // Loading point this contract applies to
+  destination_id?: string | null; // Unloading point this contract applies to
+  vehicle_type?: string | null; // Matches Vehicle.type
+  rate_type: ContractRateType;
+  rate: number;
+  valid_from: string;
+  valid_to?: string | null;
+  min_guarantee?: number | null; // Minimum billable amount per trip
+  fuel_adjustment?: boolean;
+  base_fuel_price?: number | null; // Diesel price (₹/L) the rate was agreed at
+  fuel_cost_share?: number | null; // % of the rate that moves with diesel price
+  notes?: string | null;
+  active?: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ContractRateFormData = Omit<
+  ContractRate,
+  'id' | 'organization_id' | 'created_by' | 'created_at' | 'updated_at'
+>;
+
+// Trip attributes a contract is matched against
+export interface ContractRateCriteria {
+  tripDate: string;
+  customerId?: string | null;
+  warehouseId?: string | null;
+  destinationIds?: string[];
+  vehicleType?: string | null;
+}
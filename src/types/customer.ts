@@ -0,0 +1,46 @@
+export interface CustomerContact {
+  name: string;
+  role?: string;
+  phone?: string;
+  email?: string;
+  is_primary?: boolean;
+}
+
+export interface Customer {
+  id: string;
+  organization_id: string;
+  name: string;
+  gstin?: string | null;
+  pan?: string | null;
+  billing_address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  pincode?: string | null;
+  credit_days?: number; // Payment terms in days from invoice date
+  credit_limit?: number | null;
+  contacts?: CustomerContact[];
+  notes?: string | null;
+  active?: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CustomerFormData = Omit<
+  Customer,
+  'id' | 'organization_id' | 'created_by' | 'created_at' | 'updated_at'
+>;
+
+// Customer-level P&L row used by the P&L reports
+export interface CustomerPnL {
+  customerId: string;
+  customerName: string;
+  totalTrips: number;
+  totalRevenue: number;
+  totalExpenses: number;
+  netProfit: number;
+  profitMargin: number;
+  avgTripValue: number;
+  topRoute: string;
+  lastTripDate: string;
+}
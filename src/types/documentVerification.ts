@@ -0,0 +1,72 @@
+export type {
+  DocumentField,
+  DocumentFieldDiff,
+  DocumentFieldValue,
+  DriverDocumentField,
+  VehicleDocumentField
+} from '../../supabase/functions/_shared/documentDiff.ts';
+import type { DocumentField, DocumentFieldDiff, DocumentFieldValue } from '../../supabase/functions/_shared/documentDiff.ts';
+
+export type DocumentEntityType = 'vehicle' | 'driver';
+
+export type DocumentVerificationRunStatus = 'running' | 'completed' | 'failed';
+
+export type DocumentVerificationTrigger = 'scheduled' | 'manual';
+
+// One pass of the reverify-documents job over an organization
+export interface DocumentVerificationRun {
+  id: string;
+  organization_id: string;
+  trigger: DocumentVerificationTrigger;
+  status: DocumentVerificationRunStatus;
+  started_at: string;
+  finished_at?: string | null;
+  vehicles_checked: number;
+  drivers_checked: number;
+  mismatches_found: number;
+  failures: number;
+  skipped: number;
+  error?: string | null;
+}
+
+export type DocumentVerificationResult = 'matched' | 'mismatch' | 'failed';
+
+// Outcome for one vehicle or driver in a run; the diff history
+export interface DocumentVerification {
+  id: string;
+  organization_id: string;
+  run_id: string;
+  entity_type: DocumentEntityType;
+  vehicle_id?: string | null;
+  driver_id?: string | null;
+  reference: string; // Registration or licence number checked
+  result: DocumentVerificationResult;
+  diffs: DocumentFieldDiff[];
+  error?: string | null;
+  checked_at: string;
+}
+
+// open: awaiting review; accepted: government value copied to our record;
+// dismissed: ours kept; resolved: a later run found the record matching
+export type DocumentReviewStatus = 'open' | 'accepted' | 'dismissed' | 'resolved';
+
+export interface DocumentReviewItem {
+  id: string;
+  organization_id: string;
+  verification_id?: string | null;
+  entity_type: DocumentEntityType;
+  vehicle_id?: string | null;
+  driver_id?: string | null;
+  reference: string;
+  field: DocumentField;
+  stored_value: DocumentFieldValue;
+  government_value: DocumentFieldValue;
+  status: DocumentReviewStatus;
+  first_detected_at: string;
+  last_detected_at: string;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  resolution_note?: string | null;
+  vehicle?: { id: string; registration_number: string } | null;
+  driver?: { id: string; name: string } | null;
+}
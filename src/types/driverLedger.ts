@@ -0,0 +1,54 @@
+export type DriverLedgerEntryType = 'advance' | 'settlement_paid' | 'settlement_received' | 'adjustment';
+
+// Manually recorded ledger entry; trip advances and expenses come from the trip itself
+export interface DriverLedgerEntry {
+  id: string;
+  organization_id: string;
+  driver_id: string;
+  trip_id?: string | null;
+  entry_type: DriverLedgerEntryType;
+  amount: number; // Positive, except adjustments where positive is owed to the driver
+  entry_date: string;
+  payment_mode?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  reverses_entry_id?: string | null; // Set on the adjustment that cancels an entry
+  created_by?: string;
+  created_at?: string;
+}
+
+export type DriverLedgerEntryFormData = Omit<
+  DriverLedgerEntry,
+  'id' | 'organization_id' | 'created_by' | 'created_at'
+>;
+
+export type DriverLedgerLineType =
+  | 'trip_advance'
+  | 'expense_claim'
+  | DriverLedgerEntryType;
+
+// One row of the driver statement. Balance is what the company owes the
+// driver; negative means the driver still holds company cash.
+export interface DriverLedgerLine {
+  id: string;
+  date: string;
+  type: DriverLedgerLineType;
+  description: string;
+  tripId?: string | null;
+  entryId?: string;
+  debit: number; // Cash given to the driver
+  credit: number; // Amount owed to the driver
+  pending: number; // Claimed but not yet verified; excluded from the balance
+  balance: number;
+}
+
+export interface DriverLedgerSummary {
+  openingBalance: number;
+  totalAdvances: number;
+  totalClaimed: number;
+  totalVerified: number;
+  pendingVerification: number;
+  totalPaid: number;
+  totalRecovered: number;
+  closingBalance: number;
+}
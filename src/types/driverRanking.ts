@@ -0,0 +1,57 @@
+export type DriverRankingMetric =
+  | 'mileage'
+  | 'trip_completion'
+  | 'breakdowns'
+  | 'document_compliance'
+  | 'expense_variance';
+
+export type DriverRankingPeriod = 'weekly' | 'monthly' | 'quarterly';
+
+// Organisation-wide ranking configuration. Weights are relative; they do not
+// have to add up to 100.
+export interface DriverRankingSettings {
+  id?: string;
+  organization_id?: string;
+  weights: Record<DriverRankingMetric, number>;
+  // Compare a driver's km/L with what other drivers get from the same vehicles,
+  // or with a fixed fleet figure
+  mileage_baseline: 'vehicle_average' | 'fixed';
+  mileage_baseline_kmpl: number;
+  // Mileage this far above/below baseline scores 100/0
+  mileage_band_pct: number;
+  // Points lost per trip with a breakdown
+  breakdown_penalty: number;
+  // Cost per km this far below/above the fleet average scores 100/0
+  expense_band_pct: number;
+  // Drivers with fewer trips in a period are listed but not ranked
+  min_trips: number;
+  periods: DriverRankingPeriod[];
+  updated_at?: string;
+}
+
+export interface DriverMetricScore {
+  value: number;
+  score: number; // 0-100
+}
+
+export interface DriverLeaderboardEntry {
+  driver_id: string;
+  driver_name: string;
+  rank: number | null; // null when below the minimum trip count
+  score: number | null; // Weighted 0-100
+  rating: number | null; // score on a 5-star scale
+  trips: number;
+  distance: number;
+  avg_mileage: number;
+  metrics: Partial<Record<DriverRankingMetric, DriverMetricScore>>;
+}
+
+export interface DriverLeaderboard {
+  id?: string;
+  organization_id?: string;
+  period_type: DriverRankingPeriod;
+  period_start: string;
+  period_end: string;
+  entries: DriverLeaderboardEntry[];
+  computed_at: string;
+}
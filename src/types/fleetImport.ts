@@ -0,0 +1,30 @@
+import { Driver } from './driver';
+import { Vehicle } from './vehicle';
+
+export type FleetImportEntity = 'vehicle' | 'driver';
+
+// One spreadsheet row read against the import template, keyed by column
+export interface FleetImportInput {
+  row: number; // Spreadsheet row; the header is row 1
+  values: Record<string, string>;
+  fetched?: boolean; // Blank cells were filled from the RC/DL lookup
+  fetch_error?: string;
+}
+
+export type VehicleImportDraft = Omit<Vehicle, 'id'>;
+export type DriverImportDraft = Omit<Driver, 'id'>;
+
+export interface FleetImportRow<T> {
+  row: number;
+  key: string; // Registration or licence number as it will be saved
+  record: T | null; // null when the row has errors
+  tag_ids: string[]; // Vehicles only
+  fetched: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface FleetImportResult {
+  created: number;
+  tagged: number;
+}
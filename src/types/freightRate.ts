@@ -0,0 +1,69 @@
+import { Trip } from './trip';
+
+export type FreightRateBillingType = Exclude<NonNullable<Trip['billing_type']>, 'manual'>;
+
+// Organisation rate card entry for a loading point, optionally narrowed to a
+// destination lane and material type
+export interface FreightRate {
+  id: string;
+  organization_id: string;
+  warehouse_id: string;
+  destination_id?: string | null; // Unloading point; empty applies to every lane from the warehouse
+  material_type_id?: string | null; // Empty applies to every material
+  billing_type: FreightRateBillingType;
+  rate: number;
+  effective_from: string;
+  effective_to?: string | null;
+  notes?: string | null;
+  active?: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type FreightRateFormData = Omit<
+  FreightRate,
+  'id' | 'organization_id' | 'created_by' | 'created_at' | 'updated_at'
+>;
+
+// Trip attributes a freight rate is matched against
+export interface FreightRateCriteria {
+  tripDate: string;
+  warehouseId?: string | null;
+  destinationIds?: string[];
+  materialTypeIds?: string[];
+  billingType?: Trip['billing_type'] | null;
+}
+
+export type RepricingTrip = Pick<
+  Trip,
+  | 'id'
+  | 'trip_serial_number'
+  | 'vehicle_id'
+  | 'warehouse_id'
+  | 'destinations'
+  | 'material_type_ids'
+  | 'trip_start_date'
+  | 'start_km'
+  | 'end_km'
+  | 'gross_weight'
+  | 'freight_rate'
+  | 'billing_type'
+  | 'income_amount'
+  | 'total_expense'
+  | 'contract_rate_id'
+  | 'invoice_id'
+>;
+
+export type RepricingSkipReason = 'manual' | 'contract' | 'invoiced' | 'no_rate';
+
+export interface TripRepricing {
+  trip: RepricingTrip;
+  freight_rate?: FreightRate;
+  new_freight_rate?: number;
+  new_billing_type?: FreightRateBillingType;
+  new_income?: number;
+  // new_income minus the income currently on the trip
+  difference: number;
+  skip_reason?: RepricingSkipReason;
+}
@@ -0,0 +1,68 @@
+export type FuelMatchStatus = 'unreconciled' | 'matched' | 'mismatch' | 'unmatched';
+
+// One line of a fuel card / pump statement
+export interface FuelCardTransaction {
+  id: string;
+  organization_id: string;
+  import_batch_id: string;
+  vehicle_id?: string | null;
+  vehicle_registration: string;
+  card_number?: string | null;
+  transaction_date: string;
+  location?: string | null;
+  fuel_quantity: number;
+  rate_per_liter?: number | null;
+  amount: number;
+  reference?: string | null;
+  dedup_key: string;
+  match_status: FuelMatchStatus;
+  matched_trip_id?: string | null;
+  matched_refueling_index?: number | null;
+  quantity_difference?: number | null;
+  amount_difference?: number | null;
+  created_by?: string;
+  created_at?: string;
+}
+
+export type FuelCardImportRow = Pick<
+  FuelCardTransaction,
+  'vehicle_registration' | 'card_number' | 'transaction_date' | 'location' | 'fuel_quantity' | 'rate_per_liter' | 'amount' | 'reference'
+>;
+
+export interface FuelCardParseResult {
+  rows: FuelCardImportRow[];
+  errors: { row: number; message: string }[];
+}
+
+export type FuelExceptionType = 'not_in_trips' | 'quantity_mismatch' | 'amount_mismatch' | 'not_on_statement';
+
+export interface FuelReconciliationException {
+  type: FuelExceptionType;
+  vehicle_id?: string | null;
+  vehicle_registration: string;
+  date: string;
+  transaction_id?: string;
+  trip_id?: string;
+  trip_serial_number?: string;
+  statement_quantity?: number;
+  statement_amount?: number;
+  recorded_quantity?: number;
+  recorded_amount?: number;
+}
+
+export interface FuelReconciliationResult {
+  matches: Pick<
+    FuelCardTransaction,
+    'id' | 'match_status' | 'matched_trip_id' | 'matched_refueling_index' | 'quantity_difference' | 'amount_difference'
+  >[];
+  exceptions: FuelReconciliationException[];
+  summary: {
+    transactions: number;
+    matched: number;
+    mismatched: number;
+    unmatched: number;
+    missingOnStatement: number;
+    statementAmount: number;
+    recordedAmount: number;
+  };
+}
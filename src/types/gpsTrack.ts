@@ -0,0 +1,63 @@
+export type {
+  OverspeedEvent,
+  TrackAnalysis,
+  TrackDistanceComparison,
+  TrackFormat,
+  TrackPoint,
+  TrackStop
+} from '../../supabase/functions/_shared/gpsTrack.ts';
+export type {
+  Geofence,
+  GeofenceFlag,
+  GeofenceFlagType,
+  GeofenceKind,
+  GeofenceVisit,
+  TripTimeProposal
+} from '../../supabase/functions/_shared/geofence.ts';
+import type { OverspeedEvent, TrackFormat, TrackPoint, TrackStop } from '../../supabase/functions/_shared/gpsTrack.ts';
+import type { GeofenceFlag, GeofenceVisit } from '../../supabase/functions/_shared/geofence.ts';
+
+// File exports, or points pushed by a telematics provider
+export type GpsTrackSource = TrackFormat | 'push';
+
+// GPS track attached to a trip, with its analysis
+export interface TripGpsTrack {
+  id: string;
+  organization_id: string;
+  trip_id: string;
+  vehicle_id?: string | null;
+  source: GpsTrackSource;
+  file_name?: string | null;
+  point_count: number;
+  points: TrackPoint[]; // Sampled to at most MAX_STORED_TRACK_POINTS
+  distance_km: number;
+  started_at?: string | null;
+  ended_at?: string | null;
+  duration_minutes: number;
+  moving_minutes: number;
+  idle_minutes: number;
+  max_speed_kmph: number;
+  overspeed_limit_kmph: number;
+  stops: TrackStop[];
+  overspeed_events: OverspeedEvent[];
+  // Warehouse and destination geofences
+  geofence_visits: GeofenceVisit[];
+  proposed_start_at?: string | null;
+  proposed_end_at?: string | null;
+  geofence_flags: GeofenceFlag[];
+  created_by?: string | null;
+  created_at: string;
+}
+
+// Token a tracker or integration uses to push tracks to ingest-gps-track
+export interface GpsIngestToken {
+  id: string;
+  organization_id: string;
+  name: string;
+  vehicle_id?: string | null; // Limited to this vehicle's trips when set
+  token_prefix: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
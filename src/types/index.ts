@@ -5,3 +5,26 @@ export * from './maintenance';
 export * from './reminders';
 export * from './logs';
 export * from './tags';
+export * from './contractRate';
+export * from './customer';
+export * from './invoice';
+export * from './driverLedger';
+export * from './messageTemplate';
+export * from './notification';
+export * from './fuelCard';
+export * from './tyre';
+export * from './maintenanceSchedule';
+export * from './partsInventory';
+export * from './freightRate';
+export * from './driverRanking';
+export * from './offlineTrip';
+export * from './consignmentNote';
+export * from './challan';
+export * from './documentVerification';
+export * from './plannedTrip';
+export * from './availability';
+export * from './gpsTrack';
+export * from './tripImport';
+export * from './fleetImport';
+export * from './team';
+export * from './tripChangeRequest';
@@ -0,0 +1,58 @@
+export type InvoiceStatus = 'draft' | 'issued' | 'partially_paid' | 'paid';
+
+export interface Invoice {
+  id: string;
+  organization_id: string;
+  customer_id: string;
+  invoice_number?: string | null; // Assigned when issued
+  invoice_date: string;
+  due_date?: string | null;
+  financial_year: string; // e.g. "2025-26"
+  supplier_gstin?: string | null;
+  customer_gstin?: string | null;
+  place_of_supply?: string | null; // Two-digit GST state code
+  sac_code: string;
+  gst_rate: number;
+  reverse_charge: boolean;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number; // Excludes tax under reverse charge
+  amount_paid: number;
+  status: InvoiceStatus;
+  issued_at?: string | null;
+  paid_at?: string | null;
+  notes?: string | null;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+  items?: InvoiceItem[];
+}
+
+export interface InvoiceItem {
+  id?: string;
+  invoice_id?: string;
+  trip_id?: string | null;
+  description: string;
+  sac_code: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  amount: number;
+}
+
+export interface GstBreakup {
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+}
+
+export interface InvoiceDraftOptions {
+  invoiceDate: string;
+  gstRate: number;
+  reverseCharge: boolean;
+  notes?: string;
+}
@@ -52,7 +52,7 @@ export interface MaintenanceTask {
     | "others";
   title: string[];
   description: string;
-  status: "open" | "in_progress" | "resolved" | "rework";
+  status: "draft" | "open" | "in_progress" | "resolved" | "rework";
   priority: "low" | "medium" | "high";
   vendor_id?: string; // Optional vendor ID for backward compatibility
   garage_id?: string; // Making this optional as we'll use vendor_id from service groups
@@ -106,6 +106,9 @@ export interface MaintenanceTask {
   attachments?: string[];
   notes?: string;
   category?: string; // Added for task category
+  // Set on tasks raised from a PM schedule; unique per vehicle, schedule and due period
+  pm_schedule_id?: string;
+  pm_due_key?: string;
   service_groups?: MaintenanceServiceGroup[];
   created_at: string;
   updated_at: string;
@@ -0,0 +1,56 @@
+import { MaintenanceTask } from './maintenance';
+import { Vehicle } from './vehicle';
+
+// A preventive maintenance plan, e.g. "engine oil every 20,000 km or 180 days"
+export interface MaintenanceSchedule {
+  id: string;
+  organization_id: string;
+  name: string;
+  // Matched against task titles, service group tasks and replaced parts to find the last service
+  task_title: string;
+  task_type: MaintenanceTask['task_type'];
+  interval_km?: number | null;
+  interval_days?: number | null;
+  warn_km: number;
+  warn_days: number;
+  // A schedule applies to a vehicle matching any of these; all empty means the whole fleet
+  vehicle_types: Vehicle['type'][];
+  vehicle_ids: string[];
+  tag_ids: string[];
+  // Garage for tasks created automatically when the service falls due
+  vendor_id?: string | null;
+  auto_create_task: boolean;
+  is_active: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type MaintenanceScheduleFormData = Omit<MaintenanceSchedule, 'id' | 'organization_id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export type PMDueStatus = 'ok' | 'due_soon' | 'overdue' | 'no_history';
+
+export interface PMDueItem {
+  schedule: MaintenanceSchedule;
+  vehicle: Vehicle;
+  last_service_date?: string;
+  last_service_odometer?: number;
+  next_due_odometer?: number;
+  next_due_date?: string;
+  status: PMDueStatus;
+  km_to_due?: number;
+  days_to_due?: number;
+  reason?: string;
+  // Draft, open or in-progress task already raised for this service
+  open_task_id?: string;
+}
+
+export interface PMComplianceSummary {
+  total: number;
+  ok: number;
+  due_soon: number;
+  overdue: number;
+  no_history: number;
+  // Share of tracked items (those with a service record) that are not overdue
+  compliance_percent: number | null;
+}
@@ -0,0 +1,53 @@
+export type MessageChannel = 'email' | 'sms' | 'whatsapp';
+
+export type MessageLanguage = 'en' | 'hi';
+
+export type MessageTemplateKey =
+  | 'document_expiry'
+  | 'maintenance_due'
+  | 'trip_assignment'
+  | 'document_expiry_urgent'
+  | 'trip_confirmation'
+  | 'trip_delay'
+  | 'vehicle_details'
+  | 'vehicle_document_dates'
+  | 'driver_details'
+  | 'driver_document_dates'
+  | 'document_share';
+
+export type MessageVariables = Record<string, string | number | null | undefined>;
+
+// Organization override of a built-in template
+export interface MessageTemplate {
+  id: string;
+  organization_id: string;
+  template_key: MessageTemplateKey;
+  language: MessageLanguage;
+  subject?: string | null;
+  body: string;
+  is_active: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MessageTemplateFormData {
+  template_key: MessageTemplateKey;
+  language: MessageLanguage;
+  subject?: string | null;
+  body: string;
+  is_active: boolean;
+}
+
+export interface MessageTemplateDefinition {
+  key: MessageTemplateKey;
+  channel: MessageChannel;
+  name: string;
+  description: string;
+  placeholders: string[];
+}
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
@@ -0,0 +1,32 @@
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp';
+
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// One message to one contact over one channel; dedup_key keeps it unique
+export interface NotificationDelivery {
+  id: string;
+  organization_id: string;
+  contact_id: string;
+  reminder_id: string;
+  reminder_type: string;
+  channel: NotificationChannel;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+  dedup_key: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  last_error?: string | null;
+  provider_message_id?: string | null;
+  next_attempt_at?: string | null;
+  sent_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DispatchSummary {
+  planned: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
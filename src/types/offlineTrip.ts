@@ -0,0 +1,56 @@
+import { Destination, Trip, TripFormData, Warehouse } from './trip';
+import { Vehicle } from './vehicle';
+import { Driver } from './driver';
+
+export type OfflineTripStatus = 'pending' | 'syncing' | 'conflict' | 'failed';
+
+// File captured offline, kept as a Blob until it can be uploaded
+export interface OfflineTripAttachment {
+  name: string;
+  type: string;
+  blob: Blob;
+  caption?: string;
+}
+
+// A saved trip overlapping the queued trip's odometer range on the same vehicle
+export interface OfflineTripConflict {
+  type: 'duplicate' | 'odometer_overlap';
+  trip_id: string;
+  trip_serial_number?: string;
+  trip_start_date: string;
+  start_km: number;
+  end_km: number;
+}
+
+export interface OfflineTripEntry {
+  local_id: string;
+  status: OfflineTripStatus;
+  trip: TripFormData;
+  vehicle_registration: string;
+  gps_screenshots: OfflineTripAttachment[];
+  // Uploaded and set as the trip's fuel bill when the trip syncs
+  fuel_bills?: OfflineTripAttachment[];
+  created_at: string;
+  attempts: number;
+  last_error?: string;
+  conflict?: OfflineTripConflict;
+  // Save even though it overlaps an existing trip
+  force?: boolean;
+}
+
+// Lookups cached for the mobile trip form so it opens without a connection
+export interface OfflineReferenceData {
+  vehicles: Vehicle[];
+  drivers: Driver[];
+  warehouses: Warehouse[];
+  destinations: Destination[];
+  materialTypes: Array<{ id: string; name: string; active: boolean }>;
+  // Recent trips used for odometer continuity checks
+  trips: Array<Pick<Trip, 'id' | 'vehicle_id' | 'trip_serial_number' | 'trip_start_date' | 'start_km' | 'end_km'>>;
+  cached_at: string;
+}
+
+export interface OfflineTripValidation {
+  errors: string[];
+  warnings: string[];
+}
@@ -0,0 +1,75 @@
+// receipt: purchase from a vendor; issue: fitted on a maintenance task;
+// return: issued part brought back; adjustment: stock count correction
+export type StockMovementType = 'receipt' | 'issue' | 'return' | 'adjustment';
+
+export interface PartStockItem {
+  id: string;
+  organization_id: string;
+  sku: string;
+  // FLEET_PARTS_DEFINITIONS id when the item was created from the fleet parts list
+  fleet_part_id?: string | null;
+  name: string;
+  category: string;
+  brand?: string | null;
+  unit: string;
+  reorder_level: number;
+  is_active: boolean;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PartStockItemFormData = Pick<PartStockItem, 'sku' | 'fleet_part_id' | 'name' | 'category' | 'brand' | 'unit' | 'reorder_level' | 'is_active'>;
+
+export interface StockMovement {
+  id: string;
+  organization_id: string;
+  item_id: string;
+  // Stock location; warehouses double as parts stores
+  warehouse_id: string;
+  movement_type: StockMovementType;
+  // Signed: positive into stock, negative out of it
+  quantity: number;
+  unit_cost?: number | null;
+  movement_date: string;
+  reference?: string | null;
+  vendor_id?: string | null;
+  maintenance_task_id?: string | null;
+  vehicle_id?: string | null;
+  notes?: string | null;
+  created_by?: string;
+  created_at?: string;
+}
+
+export type StockMovementInput = Omit<StockMovement, 'id' | 'organization_id' | 'created_by' | 'created_at'>;
+
+// Net quantity of a part a maintenance task takes from one location
+export interface TaskStockIssue {
+  item_id: string;
+  warehouse_id: string;
+  quantity: number;
+}
+
+export interface StockLevel {
+  item_id: string;
+  warehouse_id: string;
+  quantity: number;
+  // Weighted average of receipt costs
+  average_cost: number;
+  value: number;
+}
+
+export interface StockItemSummary {
+  item: PartStockItem;
+  quantity: number;
+  value: number;
+  locations: StockLevel[];
+  low_stock: boolean;
+}
+
+export interface StockValuationRow {
+  key: string;
+  items: number;
+  quantity: number;
+  value: number;
+}
@@ -1,5 +1,28 @@
 export type UserRole = 'admin' | 'manager' | 'data_entry' | 'owner';
 
+export type PermissionModule = 'trips' | 'vehicles' | 'drivers' | 'maintenance' | 'pnl' | 'admin';
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'export' | 'verify';
+
+// Actions allowed per module; a module missing from the matrix allows nothing
+export type PermissionMatrix = Partial<Record<PermissionModule, PermissionAction[]>>;
+
+// Field groups that can be hidden from a role even where the module is visible
+export type SensitiveField = 'revenue' | 'salary';
+
+// An organization's own role, built on one of the fixed roles
+export interface RoleDefinition {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  base_role: UserRole;
+  permissions: PermissionMatrix;
+  hidden_fields: SensitiveField[];
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface Permissions {
   role: UserRole;
   organizationId: string | null;
@@ -11,11 +34,19 @@ export interface Permissions {
   canViewDriverInsights: boolean;
   canViewVehicleOverview: boolean;
   canViewRevenue: boolean;
+  customRoleId: string | null;
+  customRoleName: string | null;
+  matrix: PermissionMatrix;
+  hiddenFields: SensitiveField[];
 }
 
 export interface OrganizationUser {
   role: UserRole;
   organization_id: string;
+  is_active?: boolean;
+  warehouse_ids?: string[] | null;
+  custom_role_id?: string | null;
+  organization_roles?: Pick<RoleDefinition, 'name' | 'permissions' | 'hidden_fields'> | null;
   organizations: {
     name: string;
   } | null;
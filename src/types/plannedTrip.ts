@@ -0,0 +1,57 @@
+export type PlannedTripStatus = 'planned' | 'dispatched' | 'completed' | 'cancelled';
+
+// Trip scheduled on the dispatch board before it runs; becomes a Trip when it closes
+export interface PlannedTrip {
+  id: string;
+  organization_id: string;
+  vehicle_id: string;
+  driver_id: string;
+  warehouse_id: string;
+  destinations: string[];
+  material_type_ids?: string[];
+  customer_id?: string | null;
+  expected_load?: number | null; // kg, carried into gross_weight
+  planned_start_date: string; // yyyy-MM-dd
+  planned_end_date: string; // yyyy-MM-dd
+  notes?: string | null;
+  status: PlannedTripStatus;
+  trip_id?: string | null; // Actual trip recorded from this plan
+  dispatched_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PlannedTripFormData = Pick<
+  PlannedTrip,
+  | 'vehicle_id'
+  | 'driver_id'
+  | 'warehouse_id'
+  | 'destinations'
+  | 'material_type_ids'
+  | 'customer_id'
+  | 'expected_load'
+  | 'planned_start_date'
+  | 'planned_end_date'
+  | 'notes'
+>;
+
+export type DispatchCheckType =
+  | 'vehicle_status'
+  | 'maintenance'
+  | 'vehicle_document'
+  | 'driver_status'
+  | 'driver_license'
+  | 'license_class'
+  | 'vehicle_booked'
+  | 'driver_booked'
+  | 'overload';
+
+// blocker: the trip cannot be dispatched; warning: dispatch after review
+export interface DispatchCheck {
+  type: DispatchCheckType;
+  severity: 'blocker' | 'warning';
+  message: string;
+}
@@ -1,8 +1,11 @@
+import { MessageLanguage } from './messageTemplate';
+
 // Enum types matching the database
 export enum ReminderContactMode {
   SMS = 'SMS',
   Email = 'Email',
-  Both = 'Both'
+  Both = 'Both',
+  WhatsApp = 'WhatsApp'
 }
 
 export enum ReminderAssignedType {
@@ -23,6 +26,7 @@ export interface ReminderContact {
   phone_number: string;
   email?: string;
   preferred_contact_mode: ReminderContactMode;
+  language?: MessageLanguage; // Language reminders are sent in
   is_active: boolean;
   photo_url?: string;
   assigned_types: ReminderAssignedType[];
@@ -50,6 +54,7 @@ export interface ReminderContactFormData {
   phone_number: string;
   email?: string;
   preferred_contact_mode: ReminderContactMode;
+  language: MessageLanguage;
   is_active: boolean;
   photo?: File | null;
   assigned_types: ReminderAssignedType[];
@@ -0,0 +1,55 @@
+import { UserRole } from './permissions';
+
+// A member of the organization as returned by get_organization_members
+export interface TeamMember {
+  user_id: string;
+  email: string;
+  role: UserRole;
+  custom_role_id: string | null;
+  is_active: boolean;
+  warehouse_ids: string[] | null; // null for every warehouse
+  invited_by: string | null;
+  joined_at: string;
+  last_sign_in_at: string | null;
+}
+
+export type TeamInvitationStatus = 'sent' | 'accepted' | 'revoked';
+
+export interface TeamInvitation {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: UserRole;
+  warehouse_ids: string[] | null;
+  user_id: string | null;
+  status: TeamInvitationStatus;
+  invited_by: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  created_at: string;
+}
+
+// An invitation waiting for the signed-in user to accept, from get_my_invitations
+export interface PendingTeamInvitation {
+  id: string;
+  organization_id: string;
+  organization_name: string;
+  role: UserRole;
+  warehouse_ids: string[] | null;
+  created_at: string;
+}
+
+export interface TeamInviteInput {
+  email: string;
+  role: UserRole;
+  warehouse_ids: string[] | null;
+}
+
+// Fields of a membership that count as a permission change
+export interface TeamAccess {
+  role: UserRole;
+  custom_role_id?: string | null; // organization_roles entry replacing the role's defaults
+  is_active: boolean;
+  warehouse_ids: string[] | null;
+}
@@ -14,13 +14,15 @@ export interface AIAlert {
     | "driver_fatigue"
     | "driver_breakdown_anomaly"
     | "route_deviation"
-    | "fuel_anomaly";
+    | "fuel_anomaly"
+    | "fuel_reconciliation"
+    | "low_stock";
   severity: "high" | "medium" | "low";
   status: "pending" | "accepted" | "denied" | "ignored";
   title: string;
   description: string;
   affected_entity: {
-    type: "driver" | "vehicle" | "trip";
+    type: "driver" | "vehicle" | "trip" | "part";
     id: string;
   };
   metadata?: {
@@ -30,6 +32,10 @@ export interface AIAlert {
     recommendations?: string[];
     ignore_duration?: "week" | "permanent";
     action_reason?: string;
+    trip_id?: string;
+    transaction_id?: string;
+    reconciliation_key?: string;
+    stock_item_id?: string;
   };
   created_at: string;
   updated_at: string;
@@ -43,6 +49,7 @@ export interface Trip {
   trip_serial_number?: string;
   manual_trip_id?: string;
   destinations: string[];
+  material_type_ids?: string[];
   destination_names?: string[]; // Store destination names for direct display
   destination_display?: string; // Single string for display like "Raipur → Bacheli"
   trip_start_date: string;
@@ -80,6 +87,14 @@ export interface Trip {
   net_profit?: number;
   cost_per_km?: number;
   profit_status?: "profit" | "loss" | "neutral";
+  contract_rate_id?: string | null; // Contract used to compute income_amount
+  customer_id?: string | null; // Customer billed for this trip
+  invoice_id?: string | null; // Invoice this trip was billed on
+
+  // E-way bill generated for the goods on this trip
+  eway_bill_number?: string | null;
+  eway_bill_date?: string | null;
+  eway_bill_valid_until?: string | null;
 
   // Expense verification fields
   expense_verified?: boolean;
@@ -0,0 +1,38 @@
+export type TripChangeRequestType = 'edit' | 'cascade' | 'delete';
+
+export type TripChangeRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// One changed field of a trip, shown to the reviewer as current → proposed
+export interface TripFieldChange {
+  field: string;
+  label: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+// Later trip whose Start KM an odometer cascade would move, as previewed for the maker
+export interface CascadePreviewTrip {
+  trip_serial_number: string;
+  current_start_km: number;
+  new_start_km: number;
+}
+
+// Trip change held back until an admin approves it (maker-checker)
+export interface TripChangeRequest {
+  id: string;
+  organization_id: string;
+  trip_id: string | null; // null once an approved deletion removed the trip
+  trip_serial_number: string | null;
+  request_type: TripChangeRequestType;
+  changes: TripFieldChange[];
+  proposed_values: Record<string, unknown> | null; // Update payload applied on approval of an edit
+  new_end_km: number | null; // cascade only
+  cascade_preview: CascadePreviewTrip[] | null; // cascade only
+  reason: string | null; // Why the maker asked for the change
+  status: TripChangeRequestStatus;
+  created_by: string;
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_reason: string | null;
+}
@@ -0,0 +1,47 @@
+import { Trip } from './trip';
+
+export type TripImportField =
+  | 'manual_trip_id'
+  | 'vehicle'
+  | 'driver'
+  | 'warehouse'
+  | 'destinations'
+  | 'trip_start_date'
+  | 'trip_end_date'
+  | 'start_km'
+  | 'end_km'
+  | 'gross_weight'
+  | 'fuel_quantity'
+  | 'total_fuel_cost'
+  | 'unloading_expense'
+  | 'driver_expense'
+  | 'road_rto_expense'
+  | 'toll_expense'
+  | 'breakdown_expense'
+  | 'miscellaneous_expense'
+  | 'remarks';
+
+// File column read for each trip field; null when the file has no such column
+export type TripImportMapping = Record<TripImportField, string | null>;
+
+export interface TripImportIssue {
+  field: string;
+  message: string;
+}
+
+// Trip as it will be inserted, before a serial number is assigned
+export type TripImportDraft = Omit<Trip, 'id' | 'created_at' | 'updated_at' | 'trip_serial_number'>;
+
+// One spreadsheet row after its names were resolved to IDs
+export interface TripImportRow {
+  row: number; // Spreadsheet row; the header is row 1
+  vehicle_registration: string;
+  trip: TripImportDraft | null; // null when the row could not be resolved
+  errors: TripImportIssue[];
+  warnings: TripImportIssue[];
+}
+
+export interface TripImportResult {
+  imported: number;
+  serials: string[];
+}
@@ -0,0 +1,74 @@
+export type TyreStatus = 'in_stock' | 'fitted' | 'scrapped';
+
+export type TyreEventType = 'fitted' | 'removed' | 'rotated' | 'retreaded' | 'scrapped';
+
+export type TyreSide = 'L' | 'R';
+
+// Dual-wheel axles carry an inner and outer tyre on each side
+export type TyrePlacement = 'single' | 'inner' | 'outer';
+
+export interface TyrePosition {
+  axle: number;
+  side: TyreSide;
+  placement: TyrePlacement;
+}
+
+export interface Tyre {
+  id: string;
+  organization_id: string;
+  serial_number: string;
+  brand: string;
+  model?: string | null;
+  size?: string | null;
+  purchase_date?: string | null;
+  purchase_cost: number;
+  status: TyreStatus;
+  vehicle_id?: string | null;
+  // Encoded position, e.g. "2LO" for axle 2, left, outer; "SPARE" for the stepney
+  position?: string | null;
+  retread_count: number;
+  scrap_reason?: string | null;
+  notes?: string | null;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type TyreFormData = Pick<Tyre, 'serial_number' | 'brand' | 'model' | 'size' | 'purchase_date' | 'purchase_cost' | 'notes'>;
+
+export interface TyreEvent {
+  id: string;
+  organization_id: string;
+  tyre_id: string;
+  vehicle_id?: string | null;
+  event_type: TyreEventType;
+  event_date: string;
+  odometer?: number | null;
+  from_position?: string | null;
+  to_position?: string | null;
+  cost?: number | null;
+  reason?: string | null;
+  notes?: string | null;
+  created_by?: string;
+  created_at?: string;
+}
+
+export type TyreEventInput = Omit<TyreEvent, 'id' | 'organization_id' | 'tyre_id' | 'created_by' | 'created_at'>;
+
+// Lifetime figures for one tyre, across every vehicle it has been fitted to
+export interface TyreLifeSummary {
+  tyre_id: string;
+  total_km: number;
+  total_cost: number;
+  cost_per_km: number | null;
+}
+
+export interface TyreBrandComparison {
+  brand: string;
+  tyres: number;
+  scrapped: number;
+  average_km: number;
+  average_scrapped_km: number | null;
+  cost_per_km: number | null;
+  retreads: number;
+}
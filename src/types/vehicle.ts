@@ -191,6 +191,11 @@ export interface Vehicle {
   sleeper_capacity?: number; // Sleeper berth capacity
   standing_capacity?: number; // Standing passenger capacity
 
+  // Challan summary from the last e-challan lookup
+  challan_last_checked?: string | null;
+  total_challans?: number;
+  pending_challan_amount?: number;
+
   created_at?: string;
   updated_at?: string;
   primary_driver_id?: string;
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { buildAvailabilityBlocks, getResourceAvailability, getResourceBlocks } from '../availability';
+import { PlannedTrip } from '../../types';
+
+const plan = (overrides: Partial<PlannedTrip> = {}): PlannedTrip => ({
+  id: 'plan-1',
+  organization_id: 'org-1',
+  vehicle_id: 'veh-2',
+  driver_id: 'drv-2',
+  warehouse_id: 'wh-1',
+  destinations: ['dest-1'],
+  planned_start_date: '2026-06-10',
+  planned_end_date: '2026-06-12',
+  status: 'planned',
+  ...overrides
+});
+
+const blocks = buildAvailabilityBlocks({
+  today: '2026-06-01',
+  vehicles: [
+    { id: 'veh-1', status: 'active' },
+    { id: 'veh-2', status: 'active' },
+    { id: 'veh-3', status: 'active' },
+    { id: 'veh-4', status: 'stood' }
+  ],
+  drivers: [
+    { id: 'drv-1', status: 'active' },
+    { id: 'drv-2', status: 'active' },
+    { id: 'drv-3', status: 'suspended' }
+  ],
+  trips: [
+    { id: 'trip-1', vehicle_id: 'veh-1', driver_id: 'drv-1', trip_start_date: '2026-06-02T06:00:00', trip_end_date: '2026-06-04T18:00:00', trip_serial_number: 'T-101' }
+  ],
+  plannedTrips: [plan(), plan({ id: 'plan-2', status: 'cancelled', vehicle_id: 'veh-3' })],
+  maintenanceTasks: [
+    { id: 'task-1', vehicle_id: 'veh-3', status: 'in_progress', start_date: '2026-06-05', downtime_days: 2, task_type: 'general_scheduled_service' }
+  ],
+  leaves: [
+    { id: 'leave-1', organization_id: 'org-1', driver_id: 'drv-2', start_date: '2026-06-03', end_date: '2026-06-05', leave_type: 'sick', reason: 'Fever' }
+  ]
+});
+
+describe('buildAvailabilityBlocks', () => {
+  it('books trips and active plans against both the vehicle and the driver', () => {
+    expect(getResourceBlocks(blocks, 'vehicle', 'veh-1', '2026-06-03')).toEqual([
+      { resource_type: 'vehicle', resource_id: 'veh-1', kind: 'trip', start: '2026-06-02', end: '2026-06-04', label: 'Trip T-101', reference_id: 'trip-1' }
+    ]);
+    expect(getResourceBlocks(blocks, 'driver', 'drv-2', '2026-06-11').map(b => b.kind)).toEqual(['planned_trip']);
+    expect(blocks.some(b => b.reference_id === 'plan-2')).toBe(false);
+  });
+
+  it('keeps a running trip open-ended', () => {
+    const running = buildAvailabilityBlocks({
+      today: '2026-06-01',
+      vehicles: [],
+      drivers: [],
+      trips: [{ id: 'trip-2', vehicle_id: 'veh-1', driver_id: 'drv-1', trip_start_date: '2026-05-30T06:00:00', trip_end_date: null as any, trip_serial_number: 'T-102' }],
+      plannedTrips: [],
+      maintenanceTasks: [],
+      leaves: []
+    });
+
+    expect(getResourceBlocks(running, 'vehicle', 'veh-1', '2026-06-20')).toMatchObject([
+      { kind: 'trip', start: '2026-05-30', end: null, label: 'Trip T-102 (running)' }
+    ]);
+  });
+
+  it('adds maintenance downtime, leave and blocking statuses', () => {
+    expect(getResourceBlocks(blocks, 'vehicle', 'veh-3', '2026-06-01', '2026-06-30')).toMatchObject([
+      { kind: 'maintenance', start: '2026-06-05', end: '2026-06-07' }
+    ]);
+    expect(getResourceBlocks(blocks, 'driver', 'drv-2', '2026-06-04')[0]).toMatchObject({ kind: 'leave', label: 'Sick: Fever' });
+    expect(getResourceBlocks(blocks, 'vehicle', 'veh-4', '2027-01-01')).toMatchObject([
+      { kind: 'status', start: '2026-06-01', end: null, label: 'Status: stood' }
+    ]);
+    expect(getResourceBlocks(blocks, 'driver', 'drv-3', '2026-06-15')[0]?.label).toBe('Suspended');
+  });
+});
+
+describe('getResourceAvailability', () => {
+  it('splits vehicles into free and busy for the period', () => {
+    const vehicles = [{ id: 'veh-1' }, { id: 'veh-2' }, { id: 'veh-3' }, { id: 'veh-4' }];
+
+    const early = getResourceAvailability(vehicles, 'vehicle', blocks, '2026-06-08', '2026-06-09');
+    expect(early.free.map(v => v.id)).toEqual(['veh-1', 'veh-2', 'veh-3']);
+    expect(early.busy.map(entry => entry.resource.id)).toEqual(['veh-4']);
+
+    const later = getResourceAvailability(vehicles, 'vehicle', blocks, '2026-06-04', '2026-06-10');
+    expect(later.free).toEqual([]);
+  });
+
+  it('treats an overlapping last day as busy', () => {
+    const drivers = [{ id: 'drv-1' }, { id: 'drv-2' }];
+    const result = getResourceAvailability(drivers, 'driver', blocks, '2026-06-05', '2026-06-06');
+    expect(result.free.map(d => d.id)).toEqual(['drv-1']);
+  });
+});
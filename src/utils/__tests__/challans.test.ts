@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attributeChallan,
+  buildChallanRecords,
+  getChallanPaymentStatus,
+  getRepeatOffenders,
+  parseChallanAmount,
+  parseChallanDate
+} from '../challans';
+import { FetchedChallan, VehicleChallan } from '../../types';
+
+const trips = [
+  { id: 'trip-1', driver_id: 'drv-1', trip_start_date: '2025-05-01', trip_end_date: '2025-05-03' },
+  { id: 'trip-2', driver_id: 'drv-2', trip_start_date: '2025-05-10T06:00:00', trip_end_date: '2025-05-11T20:00:00' }
+];
+
+const context = {
+  vehicle_id: 'veh-1',
+  registration_number: 'CG04AB1234',
+  primary_driver_id: 'drv-9',
+  trips
+};
+
+const fetched = (overrides: Partial<FetchedChallan> = {}): FetchedChallan => ({
+  challan_no: 'CG123',
+  date: '2025-05-02 14:30:00',
+  accused_name: 'RAMESH',
+  challan_status: 'Pending',
+  amount: '500',
+  state: 'Chhattisgarh',
+  area: 'Raipur',
+  offence: 'Overloading',
+  offences: [{ offence_name: 'Overloading' }],
+  ...overrides
+});
+
+const stored = (overrides: Partial<VehicleChallan>): VehicleChallan => ({
+  id: 'c1',
+  organization_id: 'org-1',
+  vehicle_id: 'veh-1',
+  registration_number: 'CG04AB1234',
+  challan_no: 'CG123',
+  challan_date: '2025-05-02T09:00:00.000Z',
+  amount: 500,
+  attribution: 'trip',
+  payment_status: 'unpaid',
+  amount_paid: 0,
+  ...overrides
+});
+
+describe('parseChallanDate / parseChallanAmount', () => {
+  it('reads both date layouts returned by the service', () => {
+    expect(parseChallanDate('2025-05-02 14:30:00')).toBe(new Date(2025, 4, 2, 14, 30).toISOString());
+    expect(parseChallanDate('02-05-2025 14:30')).toBe(new Date(2025, 4, 2, 14, 30).toISOString());
+    expect(parseChallanDate('XXXX')).toBeNull();
+    expect(parseChallanDate('')).toBeNull();
+  });
+
+  it('treats blank amounts as zero', () => {
+    expect(parseChallanAmount('1,500')).toBe(1500);
+    expect(parseChallanAmount('')).toBe(0);
+    expect(parseChallanAmount(250)).toBe(250);
+  });
+});
+
+describe('attributeChallan', () => {
+  it('uses the trip active at the challan time, covering whole days for date-only trips', () => {
+    expect(attributeChallan(new Date(2025, 4, 3, 22, 0).toISOString(), trips, 'drv-9'))
+      .toEqual({ trip_id: 'trip-1', driver_id: 'drv-1', attribution: 'trip' });
+    expect(attributeChallan(new Date(2025, 4, 10, 12, 0).toISOString(), trips, 'drv-9'))
+      .toEqual({ trip_id: 'trip-2', driver_id: 'drv-2', attribution: 'trip' });
+  });
+
+  it('falls back to the primary driver, then unmatched', () => {
+    expect(attributeChallan(new Date(2025, 4, 6).toISOString(), trips, 'drv-9').attribution).toBe('primary_driver');
+    expect(attributeChallan(null, trips, null).attribution).toBe('unmatched');
+  });
+});
+
+describe('buildChallanRecords', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  it('de-duplicates by challan number and attributes new challans', () => {
+    const records = buildChallanRecords([fetched(), fetched(), fetched({ challan_no: 'CG124', date: '' })], context, [], now);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ challan_no: 'CG123', amount: 500, driver_id: 'drv-1', trip_id: 'trip-1', payment_status: 'unpaid' });
+    expect(records[0].offences).toEqual(['Overloading']);
+    expect(records[1]).toMatchObject({ challan_no: 'CG124', challan_date: null, attribution: 'primary_driver' });
+  });
+
+  it('keeps recorded payments and first-seen time from the stored challan', () => {
+    const previous = stored({ amount_paid: 200, payment_status: 'partially_paid', first_seen_at: '2025-05-05T00:00:00Z', payment_reference: 'UPI-1' });
+    const [record] = buildChallanRecords([fetched()], context, [previous], now);
+    expect(record).toMatchObject({ amount_paid: 200, payment_status: 'partially_paid', first_seen_at: '2025-05-05T00:00:00Z', payment_reference: 'UPI-1' });
+  });
+
+  it('marks challans the service reports as paid', () => {
+    const [record] = buildChallanRecords([fetched({ challan_status: 'Paid' })], context, [stored({})], now);
+    expect(record).toMatchObject({ payment_status: 'paid', amount_paid: 500, paid_at: now.toISOString() });
+  });
+});
+
+describe('getChallanPaymentStatus', () => {
+  it('derives the status from the amount paid', () => {
+    expect(getChallanPaymentStatus(500, 0)).toBe('unpaid');
+    expect(getChallanPaymentStatus(500, 200)).toBe('partially_paid');
+    expect(getChallanPaymentStatus(500, 500)).toBe('paid');
+  });
+});
+
+describe('getRepeatOffenders', () => {
+  it('flags drivers with repeated challans in the last year', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    const challans = [
+      stored({ id: 'a', driver_id: 'drv-1', offence: 'Overloading', challan_date: '2025-05-02T00:00:00Z' }),
+      stored({ id: 'b', driver_id: 'drv-1', offence: 'Overloading', challan_date: '2025-03-02T00:00:00Z', amount: 1000, amount_paid: 1000, payment_status: 'paid' }),
+      stored({ id: 'c', driver_id: 'drv-1', offence: 'No seat belt', challan_date: '2023-03-02T00:00:00Z' }),
+      stored({ id: 'd', driver_id: 'drv-2', challan_date: '2025-05-20T00:00:00Z' })
+    ];
+
+    expect(getRepeatOffenders(challans, { now })).toEqual([{
+      driver_id: 'drv-1',
+      challan_count: 2,
+      unpaid_count: 1,
+      unpaid_amount: 500,
+      total_amount: 1500,
+      last_challan_date: '2025-05-02T00:00:00Z',
+      top_offence: 'Overloading'
+    }]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { resolveContractRate, getFuelAdjustedRate, getAverageFuelPrice } from '../contractRateResolver';
+import { calculateIncome } from '../billingSettings';
+import { ContractRate } from '../../types';
+
+const baseContract: ContractRate = {
+  id: 'generic',
+  organization_id: 'org-1',
+  customer_name: 'Acme Cement',
+  rate_type: 'per_ton',
+  rate: 2,
+  valid_from: '2025-01-01',
+  active: true
+};
+
+describe('resolveContractRate', () => {
+  it('ignores contracts outside their validity window', () => {
+    const contracts = [{ ...baseContract, valid_to: '2025-03-31' }];
+    expect(resolveContractRate(contracts, { tripDate: '2025-04-01' })).toBeNull();
+    expect(resolveContractRate(contracts, { tripDate: '2025-03-31' })?.id).toBe('generic');
+  });
+
+  it('prefers the most specific matching contract', () => {
+    const contracts: ContractRate[] = [
+      baseContract,
+      { ...baseContract, id: 'lane', warehouse_id: 'wh-1', destination_id: 'dest-1' },
+      { ...baseContract, id: 'lane-trailer', warehouse_id: 'wh-1', destination_id: 'dest-1', vehicle_type: 'trailer' }
+    ];
+
+    expect(resolveContractRate(contracts, {
+      tripDate: '2025-05-01',
+      warehouseId: 'wh-1',
+      destinationIds: ['dest-1'],
+      vehicleType: 'truck'
+    })?.id).toBe('lane');
+
+    expect(resolveContractRate(contracts, {
+      tripDate: '2025-05-01',
+      warehouseId: 'wh-1',
+      destinationIds: ['dest-2', 'dest-1'],
+      vehicleType: 'Trailer'
+    })?.id).toBe('lane-trailer');
+  });
+
+  it('breaks ties with the most recently started contract', () => {
+    const contracts = [baseContract, { ...baseContract, id: 'renewed', valid_from: '2025-04-01' }];
+    expect(resolveContractRate(contracts, { tripDate: '2025-05-01' })?.id).toBe('renewed');
+  });
+
+  it('excludes inactive contracts', () => {
+    expect(resolveContractRate([{ ...baseContract, active: false }], { tripDate: '2025-05-01' })).toBeNull();
+  });
+});
+
+describe('fuel adjustment', () => {
+  const fuelContract: ContractRate = {
+    ...baseContract,
+    rate: 100,
+    fuel_adjustment: true,
+    base_fuel_price: 90,
+    fuel_cost_share: 50
+  };
+
+  it('moves only the fuel share of the rate with diesel price', () => {
+    // Diesel up 10% → half of the rate moves by 10% → +5%
+    expect(getFuelAdjustedRate(fuelContract, 99)).toBe(105);
+  });
+
+  it('leaves the rate unchanged without a fuel price', () => {
+    expect(getFuelAdjustedRate(fuelContract, null)).toBe(100);
+  });
+
+  it('averages the price paid across refuelings', () => {
+    expect(getAverageFuelPrice([
+      { location: 'A', fuel_quantity: 100, fuel_rate_per_liter: 90, total_fuel_cost: 9000 },
+      { location: 'B', fuel_quantity: 100, fuel_rate_per_liter: 92, total_fuel_cost: 9200 }
+    ])).toBe(91);
+  });
+});
+
+describe('calculateIncome with a contract', () => {
+  it('applies the minimum guarantee', () => {
+    const contract = { ...baseContract, min_guarantee: 5000 };
+    expect(calculateIncome('per_km', 0, 300, 1000, undefined, { contract })).toBe(5000);
+    expect(calculateIncome('per_km', 0, 300, 4000, undefined, { contract })).toBe(8000);
+  });
+});
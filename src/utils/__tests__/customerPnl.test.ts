@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildCustomerPnL, UNASSIGNED_CUSTOMER_ID } from '../customerPnl';
+import { Customer, Trip } from '../../types';
+
+const customers = [
+  { id: 'c-1', organization_id: 'org-1', name: 'Acme Cement', active: true },
+  { id: 'c-2', organization_id: 'org-1', name: 'Bharat Steel', active: true }
+] as Customer[];
+
+const trip = (overrides: Partial<Trip>): Trip => ({
+  id: Math.random().toString(36).slice(2),
+  trip_start_date: '2025-05-01',
+  income_amount: 0,
+  total_expense: 0,
+  ...overrides
+} as Trip);
+
+describe('buildCustomerPnL', () => {
+  it('aggregates revenue, margin and top route per customer', () => {
+    const rows = buildCustomerPnL(
+      [
+        trip({ customer_id: 'c-1', income_amount: 10000, total_expense: 6000, destination_display: 'Sagar' }),
+        trip({ customer_id: 'c-1', income_amount: 20000, total_expense: 9000, destination_display: 'Bhopal', trip_start_date: '2025-05-20' }),
+        trip({ customer_id: 'c-1', income_amount: 10000, total_expense: 5000, destination_display: 'Bhopal', trip_start_date: '2025-05-10' }),
+        trip({ customer_id: 'c-2', income_amount: 5000, total_expense: 6000, destination_display: 'Indore' })
+      ],
+      customers,
+      t => t.destination_display || ''
+    );
+
+    expect(rows.map(r => r.customerName)).toEqual(['Acme Cement', 'Bharat Steel']);
+    expect(rows[0]).toMatchObject({
+      totalTrips: 3,
+      totalRevenue: 40000,
+      totalExpenses: 20000,
+      netProfit: 20000,
+      profitMargin: 50,
+      topRoute: 'Bhopal',
+      lastTripDate: '2025-05-20'
+    });
+    expect(rows[0].avgTripValue).toBeCloseTo(13333.33, 2);
+    expect(rows[1].netProfit).toBe(-1000);
+  });
+
+  it('groups trips without a customer as unassigned', () => {
+    const rows = buildCustomerPnL([trip({ income_amount: 1000 })], customers, () => '');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].customerId).toBe(UNASSIGNED_CUSTOMER_ID);
+    expect(rows[0].customerName).toBe('Unassigned');
+    expect(rows[0].topRoute).toBe('');
+  });
+});
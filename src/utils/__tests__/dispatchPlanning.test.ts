@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTripFromPlan,
+  checkPlannedTrip,
+  getMaintenanceWindow,
+  hasDispatchBlockers
+} from '../dispatchPlanning';
+import { Driver, PlannedTrip, Vehicle } from '../../types';
+
+const vehicle = {
+  id: 'veh-1',
+  registration_number: 'CG04AB1234',
+  type: 'truck',
+  status: 'active',
+  insurance_expiry_date: '2026-12-31',
+  puc_expiry_date: '2026-06-08',
+  gvw: 25000,
+  unladen_weight: 9000
+} as Vehicle;
+
+const driver = {
+  id: 'drv-1',
+  name: 'Ramesh',
+  status: 'active',
+  license_expiry: '2030-01-01',
+  vehicle_class: ['LMV', 'HGMV']
+} as Driver;
+
+const plan = (overrides: Partial<PlannedTrip> = {}): PlannedTrip => ({
+  id: 'plan-1',
+  organization_id: 'org-1',
+  vehicle_id: 'veh-1',
+  driver_id: 'drv-1',
+  warehouse_id: 'wh-1',
+  destinations: ['dest-1'],
+  planned_start_date: '2026-06-01',
+  planned_end_date: '2026-06-03',
+  status: 'planned',
+  ...overrides
+});
+
+const context = { vehicle, driver, maintenanceTasks: [], plannedTrips: [] };
+
+describe('getMaintenanceWindow', () => {
+  it('uses the end date, then downtime, and holds open tasks indefinitely', () => {
+    const task = { id: 't1', vehicle_id: 'veh-1', status: 'open' as const, start_date: '2026-05-30', downtime_days: 0, task_type: 'accidental' as const };
+    expect(getMaintenanceWindow({ ...task, end_date: '2026-06-02' })).toEqual({ start: '2026-05-30', end: '2026-06-02' });
+    expect(getMaintenanceWindow({ ...task, downtime_days: 2 })).toEqual({ start: '2026-05-30', end: '2026-06-01' });
+    expect(getMaintenanceWindow(task)).toEqual({ start: '2026-05-30', end: null });
+  });
+});
+
+describe('checkPlannedTrip', () => {
+  it('clears a fit vehicle and licensed driver, warning on documents about to expire', () => {
+    const checks = checkPlannedTrip(plan(), context);
+    expect(checks).toEqual([
+      { type: 'vehicle_document', severity: 'warning', message: 'PUC expires 08 Jun 2026' }
+    ]);
+    expect(hasDispatchBlockers(checks)).toBe(false);
+  });
+
+  it('blocks vehicles in maintenance or with documents expiring during the trip', () => {
+    const checks = checkPlannedTrip(plan(), {
+      ...context,
+      vehicle: { ...vehicle, insurance_expiry_date: '2026-06-02' },
+      maintenanceTasks: [
+        { id: 't1', vehicle_id: 'veh-1', status: 'in_progress', start_date: '2026-06-02', downtime_days: 0, task_type: 'accidental' },
+        { id: 't2', vehicle_id: 'veh-2', status: 'open', start_date: '2026-05-01', downtime_days: 0, task_type: 'accidental' }
+      ]
+    });
+    expect(checks.filter(c => c.severity === 'blocker').map(c => c.type)).toEqual(['maintenance', 'vehicle_document']);
+  });
+
+  it('checks the licence class with canDriveVehicleType', () => {
+    const blocked = checkPlannedTrip(plan(), { ...context, driver: { ...driver, vehicle_class: ['LMV'] } });
+    expect(blocked).toContainEqual({
+      type: 'license_class',
+      severity: 'blocker',
+      message: 'Driver needs HMV or HGMV or HTV license for truck'
+    });
+
+    const unknown = checkPlannedTrip(plan(), { ...context, driver: { ...driver, vehicle_class: [] } });
+    expect(unknown.find(c => c.type === 'license_class')?.severity).toBe('warning');
+  });
+
+  it('blocks drivers whose licence lapses during the trip', () => {
+    const checks = checkPlannedTrip(plan(), { ...context, driver: { ...driver, license_expiry: '2026-06-02' } });
+    expect(checks.map(c => c.type)).toContain('driver_license');
+  });
+
+  it('warns on double bookings and loads above the payload', () => {
+    const other = plan({ id: 'plan-2', driver_id: 'drv-2', planned_start_date: '2026-06-03', planned_end_date: '2026-06-04' });
+    const cancelled = plan({ id: 'plan-3', status: 'cancelled' });
+    const checks = checkPlannedTrip(plan({ expected_load: 18000 }), { ...context, plannedTrips: [plan(), other, cancelled] });
+
+    expect(checks.map(c => c.type)).toEqual(['vehicle_document', 'vehicle_booked', 'overload']);
+  });
+});
+
+describe('buildTripFromPlan', () => {
+  it('pre-fills the trip sheet from the plan', () => {
+    expect(buildTripFromPlan(plan({ expected_load: 12000, notes: 'Night loading' }))).toMatchObject({
+      vehicle_id: 'veh-1',
+      driver_id: 'drv-1',
+      warehouse_id: 'wh-1',
+      destinations: ['dest-1'],
+      trip_start_date: '2026-06-01',
+      trip_end_date: '2026-06-03',
+      gross_weight: 12000,
+      remarks: 'Night loading'
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareDriverWithDl,
+  compareVehicleWithRc,
+  formatDocumentFieldValue,
+  getReviewItemUpdate,
+  normalizeDocumentDate,
+  normalizeOwnerName,
+  normalizeVehicleClasses
+} from '../documentVerification';
+
+describe('normalizers', () => {
+  it('reads the date layouts used by VAHAN, SARATHI and our records', () => {
+    expect(normalizeDocumentDate('2026-03-31')).toBe('2026-03-31');
+    expect(normalizeDocumentDate('2026-03-31T00:00:00+00:00')).toBe('2026-03-31');
+    expect(normalizeDocumentDate('31-03-2026')).toBe('2026-03-31');
+    expect(normalizeDocumentDate('1/4/2026')).toBe('2026-04-01');
+    expect(normalizeDocumentDate('LTT')).toBe('2099-12-31');
+    expect(normalizeDocumentDate('1900-01-01')).toBeNull();
+    expect(normalizeDocumentDate('NA')).toBeNull();
+    expect(normalizeDocumentDate(undefined)).toBeNull();
+  });
+
+  it('ignores case and punctuation in owner names', () => {
+    expect(normalizeOwnerName('M/S. Shree  Logistics')).toBe(normalizeOwnerName('M/S SHREE LOGISTICS'));
+    expect(normalizeOwnerName('  ')).toBeNull();
+  });
+
+  it('treats licence classes as an unordered set', () => {
+    expect(normalizeVehicleClasses(['hgmv', 'LMV', 'LMV'])).toEqual(['HGMV', 'LMV']);
+    expect(normalizeVehicleClasses([{ cov: 'MCWG' }, 'lmv'])).toEqual(['LMV', 'MCWG']);
+    expect(normalizeVehicleClasses('LMV, TRANS')).toEqual(['LMV', 'TRANS']);
+    expect(normalizeVehicleClasses([])).toBeNull();
+  });
+});
+
+describe('compareVehicleWithRc', () => {
+  const vehicle = {
+    insurance_expiry_date: '2026-03-31',
+    puc_expiry_date: '2025-12-01',
+    fitness_expiry_date: '2027-01-15',
+    permit_expiry_date: null,
+    tax_paid_upto: '2099-12-31',
+    owner_name: 'M/s Shree Logistics'
+  };
+
+  it('reports only fields the RC disagrees on', () => {
+    const diffs = compareVehicleWithRc(vehicle, {
+      insurance_expiry: '2027-03-31',
+      pucc_upto: '2025-12-01',
+      fitness_upto: '',
+      permit_valid_upto: '2030-06-30',
+      tax_upto: 'LTT',
+      owner_name: 'M/S SHREE LOGISTICS'
+    });
+
+    expect(diffs).toEqual([
+      { field: 'insurance_expiry_date', stored_value: '2026-03-31', government_value: '2027-03-31' },
+      { field: 'permit_expiry_date', stored_value: null, government_value: '2030-06-30' }
+    ]);
+  });
+
+  it('keeps owner names as written', () => {
+    expect(compareVehicleWithRc(vehicle, { owner_name: ' RAJESH KUMAR ' })).toEqual([
+      { field: 'owner_name', stored_value: 'M/s Shree Logistics', government_value: 'RAJESH KUMAR' }
+    ]);
+  });
+});
+
+describe('compareDriverWithDl', () => {
+  it('compares licence validity and classes', () => {
+    const driver = { license_expiry: '2030-05-10', vehicle_class: ['LMV', 'HGMV'] };
+
+    expect(compareDriverWithDl(driver, { valid_upto: '10-05-2030', vehicle_class: ['HGMV', 'LMV'] })).toEqual([]);
+    expect(compareDriverWithDl(driver, { valid_upto: '10-05-2028', vehicle_class: ['LMV'] })).toEqual([
+      { field: 'license_expiry', stored_value: '2030-05-10', government_value: '2028-05-10' },
+      { field: 'vehicle_class', stored_value: ['HGMV', 'LMV'], government_value: ['LMV'] }
+    ]);
+  });
+});
+
+describe('review items', () => {
+  it('formats values for display', () => {
+    expect(formatDocumentFieldValue('2027-03-31')).toBe('31 Mar 2027');
+    expect(formatDocumentFieldValue('2099-12-31')).toBe('Lifetime');
+    expect(formatDocumentFieldValue(['HGMV', 'LMV'])).toBe('HGMV, LMV');
+    expect(formatDocumentFieldValue(null)).toBe('—');
+  });
+
+  it('builds the record update for an accepted item', () => {
+    expect(getReviewItemUpdate({
+      entity_type: 'driver',
+      vehicle_id: null,
+      driver_id: 'drv-1',
+      field: 'vehicle_class',
+      government_value: ['LMV']
+    })).toEqual({ table: 'drivers', id: 'drv-1', payload: { vehicle_class: ['LMV'] } });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildDriverLedger } from '../driverLedger';
+import { DriverLedgerEntry, Trip } from '../../types';
+
+const trip = (overrides: Partial<Trip>): Trip => ({
+  id: 'trip-1',
+  trip_serial_number: 'T-001',
+  trip_start_date: '2025-05-02',
+  trip_end_date: '2025-05-03',
+  total_road_expenses: 0,
+  ...overrides
+} as Trip);
+
+const entry = (overrides: Partial<DriverLedgerEntry>): DriverLedgerEntry => ({
+  id: 'entry-1',
+  organization_id: 'org-1',
+  driver_id: 'driver-1',
+  entry_type: 'advance',
+  amount: 0,
+  entry_date: '2025-05-01',
+  ...overrides
+});
+
+describe('buildDriverLedger', () => {
+  it('keeps unverified expenses out of the running balance', () => {
+    const { lines, summary } = buildDriverLedger(
+      [
+        trip({ id: 'trip-1', advance_amount: 5000, total_road_expenses: 3000, expense_verified: true }),
+        trip({ id: 'trip-2', trip_serial_number: 'T-002', trip_start_date: '2025-05-05', trip_end_date: '2025-05-06', total_road_expenses: 1500 })
+      ],
+      [entry({ entry_type: 'advance', amount: 1000 })]
+    );
+
+    expect(lines.map(l => l.type)).toEqual(['advance', 'trip_advance', 'expense_claim', 'expense_claim']);
+    expect(lines.map(l => l.balance)).toEqual([-1000, -6000, -3000, -3000]);
+    expect(summary).toMatchObject({
+      totalAdvances: 6000,
+      totalClaimed: 4500,
+      totalVerified: 3000,
+      pendingVerification: 1500,
+      closingBalance: -3000
+    });
+  });
+
+  it('applies settlements and carries an opening balance into the period', () => {
+    const { lines, summary } = buildDriverLedger(
+      [trip({ advance_amount: 2000, total_road_expenses: 2500, expense_verified: true })],
+      [
+        entry({ id: 'pay', entry_type: 'settlement_paid', amount: 500, entry_date: '2025-06-01' }),
+        entry({ id: 'adj', entry_type: 'adjustment', amount: -100, entry_date: '2025-06-02' })
+      ],
+      { from: '2025-06-01', to: '2025-06-30' }
+    );
+
+    expect(summary.openingBalance).toBe(500);
+    expect(lines).toHaveLength(2);
+    expect(summary.totalPaid).toBe(500);
+    expect(summary.closingBalance).toBe(-100);
+  });
+
+  it('nets an entry out with its reversal', () => {
+    const { summary } = buildDriverLedger([], [
+      entry({ id: 'adv', entry_type: 'advance', amount: 1500 }),
+      entry({ id: 'rev', entry_type: 'adjustment', amount: 1500, reverses_entry_id: 'adv', entry_date: '2025-05-04' })
+    ]);
+
+    expect(summary.closingBalance).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DRIVER_RANKING_SETTINGS,
+  buildDriverLeaderboard,
+  buildDriverPeriodStats,
+  calculateDriverRating,
+  getRankingPeriodRange,
+  getWeightedDriverScore,
+  isLeaderboardStale,
+  scoreDriverMetrics
+} from '../driverRating';
+import { Driver, DriverRankingSettings, Trip } from '../../types';
+
+const driver = (overrides: Partial<Driver> = {}): Driver => ({
+  id: 'drv-1',
+  name: 'Ramesh',
+  license_expiry: '2099-01-01',
+  documents_verified: true,
+  ...overrides
+} as Driver);
+
+const trip = (overrides: Partial<Trip> = {}): Trip => ({
+  driver_id: 'drv-1',
+  vehicle_id: 'veh-1',
+  trip_start_date: '2025-03-10T08:00:00',
+  trip_end_date: '2025-03-10T20:00:00',
+  start_km: 1000,
+  end_km: 1400,
+  calculated_kmpl: 4,
+  total_expense: 8000,
+  ...overrides
+} as Trip);
+
+describe('scoreDriverMetrics', () => {
+  it('scores mileage against the baseline within the configured band', () => {
+    const stats = { total_trips: 6, total_distance: 2400, total_fuel: 0, avg_mileage: 4.4, active_days: 6, baseline_mileage: 4 };
+
+    expect(scoreDriverMetrics(driver(), stats).mileage).toEqual({ value: 10, score: 75 });
+    expect(scoreDriverMetrics(driver(), { ...stats, avg_mileage: 3 }).mileage?.score).toBe(0);
+
+    const fixed: DriverRankingSettings = { ...DEFAULT_DRIVER_RANKING_SETTINGS, mileage_baseline: 'fixed', mileage_baseline_kmpl: 4.4 };
+    expect(scoreDriverMetrics(driver(), stats, fixed).mileage?.score).toBe(50);
+  });
+
+  it('penalises breakdowns, expired licences and above-average costs', () => {
+    const metrics = scoreDriverMetrics(
+      driver({ license_expiry: '2020-01-01' }),
+      {
+        total_trips: 5, total_distance: 2000, total_fuel: 0, avg_mileage: 0, active_days: 5,
+        breakdowns: 2, completed_trips: 4, cost_per_km: 24, fleet_cost_per_km: 20
+      }
+    );
+
+    expect(metrics.mileage).toBeUndefined();
+    expect(metrics.breakdowns?.score).toBe(50);
+    expect(metrics.trip_completion?.score).toBe(80);
+    expect(metrics.document_compliance?.score).toBe(0);
+    expect(metrics.expense_variance).toEqual({ value: 20, score: 0 });
+  });
+});
+
+describe('getWeightedDriverScore', () => {
+  it('rescales weights over the metrics that have data', () => {
+    const weights = { ...DEFAULT_DRIVER_RANKING_SETTINGS.weights, mileage: 50, trip_completion: 50 };
+    expect(getWeightedDriverScore({ mileage: { value: 0, score: 80 }, trip_completion: { value: 100, score: 100 } }, weights))
+      .toBeCloseTo((80 * 50 + 100 * 50) / 100);
+    expect(getWeightedDriverScore({ mileage: { value: 0, score: 80 } }, weights)).toBe(80);
+    expect(getWeightedDriverScore({}, weights)).toBeNull();
+  });
+});
+
+describe('calculateDriverRating', () => {
+  it('needs the configured minimum number of trips', () => {
+    const stats = { total_trips: 3, total_distance: 1200, total_fuel: 0, avg_mileage: 0, active_days: 3 };
+    expect(calculateDriverRating(driver(), stats)).toBe(0);
+    expect(calculateDriverRating(driver(), stats, { ...DEFAULT_DRIVER_RANKING_SETTINGS, min_trips: 3 })).toBe(5);
+  });
+});
+
+describe('buildDriverPeriodStats', () => {
+  it('compares drivers with the average of the vehicles they drove', () => {
+    const stats = buildDriverPeriodStats([
+      trip({ driver_id: 'drv-1', calculated_kmpl: 5 }),
+      trip({ driver_id: 'drv-2', calculated_kmpl: 5 / 1.5, breakdown_expense: 1500, total_expense: 12000 })
+    ]);
+
+    expect(stats['drv-1'].avg_mileage).toBeCloseTo(5);
+    expect(stats['drv-1'].baseline_mileage).toBeCloseTo(4);
+    expect(stats['drv-1'].fleet_cost_per_km).toBe(25);
+    expect(stats['drv-1'].cost_per_km).toBe(20);
+    expect(stats['drv-2'].breakdowns).toBe(1);
+    expect(stats['drv-2'].completed_trips).toBe(1);
+  });
+});
+
+describe('buildDriverLeaderboard', () => {
+  it('ranks eligible drivers by weighted score and lists the rest unranked', () => {
+    const settings = { ...DEFAULT_DRIVER_RANKING_SETTINGS, min_trips: 2 };
+    const trips = [
+      trip({ driver_id: 'good', calculated_kmpl: 5 }),
+      trip({ driver_id: 'good', calculated_kmpl: 5 }),
+      trip({ driver_id: 'poor', calculated_kmpl: 3, breakdown_expense: 500, total_expense: 10000 }),
+      trip({ driver_id: 'poor', calculated_kmpl: 3 }),
+      trip({ driver_id: 'new', calculated_kmpl: 4 })
+    ];
+
+    const board = buildDriverLeaderboard(
+      [driver({ id: 'new', name: 'New' }), driver({ id: 'poor', name: 'Poor' }), driver({ id: 'good', name: 'Good' }), driver({ id: 'idle', name: 'Idle' })],
+      trips,
+      settings
+    );
+
+    expect(board.map(e => [e.driver_id, e.rank])).toEqual([['good', 1], ['poor', 2], ['new', null]]);
+    expect(board[0].score).toBeGreaterThan(board[1].score!);
+    expect(board[2].score).toBeNull();
+  });
+});
+
+describe('getRankingPeriodRange', () => {
+  it('covers the week, month or quarter containing the date', () => {
+    const date = new Date(2025, 4, 14);
+    expect(getRankingPeriodRange('weekly', date)).toEqual({ start: '2025-05-12', end: '2025-05-18' });
+    expect(getRankingPeriodRange('monthly', date)).toEqual({ start: '2025-05-01', end: '2025-05-31' });
+    expect(getRankingPeriodRange('quarterly', date)).toEqual({ start: '2025-04-01', end: '2025-06-30' });
+  });
+});
+
+describe('isLeaderboardStale', () => {
+  it('refreshes open periods hourly and closed periods once after they end', () => {
+    const now = new Date(2025, 4, 14, 12, 0);
+    const open = { period_end: '2025-05-31' };
+    expect(isLeaderboardStale({ ...open, computed_at: new Date(2025, 4, 14, 11, 30).toISOString() }, now)).toBe(false);
+    expect(isLeaderboardStale({ ...open, computed_at: new Date(2025, 4, 14, 10, 30).toISOString() }, now)).toBe(true);
+
+    const closed = { period_end: '2025-04-30' };
+    expect(isLeaderboardStale({ ...closed, computed_at: new Date(2025, 3, 30, 18, 0).toISOString() }, now)).toBe(true);
+    expect(isLeaderboardStale({ ...closed, computed_at: new Date(2025, 4, 1, 9, 0).toISOString() }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import {
+  buildEwayBillBulkUpload,
+  calculateEwayBillValidUntil,
+  formatConsignmentNumber,
+  getEwayBillDistance,
+  getEwayBillExpiryWarning,
+  getEwayBillValidityDays,
+  validateEwayBillSource
+} from '../ewayBill';
+import { ConsignmentNote } from '../../types';
+
+const note: ConsignmentNote = {
+  id: 'cn-1',
+  organization_id: 'org-1',
+  trip_id: 'trip-1',
+  lr_number: 'LR/2025-26/0007',
+  lr_date: '2025-06-05',
+  financial_year: '2025-26',
+  consignor_name: 'Raipur Cement Works',
+  consignor_gstin: '22AAAAA0000A1Z5',
+  consignor_address: 'Urla Industrial Area',
+  consignor_pincode: '493221',
+  consignor_state_code: null,
+  consignee_name: 'Bacheli Builders',
+  consignee_gstin: null,
+  consignee_address: 'Main Road',
+  consignee_pincode: '494553',
+  consignee_state_code: '22',
+  invoice_number: 'RCW/118',
+  invoice_date: '2025-06-04',
+  invoice_value: 185000,
+  package_count: 400,
+  package_type: 'Bags',
+  material_description: 'Cement',
+  hsn_code: '2523',
+  actual_weight: 20000,
+  freight_amount: 42000,
+  freight_basis: 'to_be_billed',
+  status: 'active'
+};
+
+const source = {
+  note,
+  vehicleNumber: 'CG 04 AB-1234',
+  distanceKm: 412,
+  transporterName: 'AVS Logistics',
+  transporterGstin: '22BBBBB1111B1Z5'
+};
+
+describe('formatConsignmentNumber', () => {
+  it('numbers LRs per financial year', () => {
+    expect(formatConsignmentNumber('2025-26', 7)).toBe('LR/2025-26/0007');
+  });
+});
+
+describe('getEwayBillDistance', () => {
+  it('uses the odometer once the trip has run, else the planned distance', () => {
+    expect(getEwayBillDistance({ start_km: 1000, end_km: 1412 })).toBe(412);
+    expect(getEwayBillDistance({ start_km: 1000, end_km: 0 }, [{ standard_distance: 180 }, { standard_distance: 95.4 }])).toBe(275);
+  });
+});
+
+describe('e-way bill validity', () => {
+  it('allows one day per 200 km, or per 20 km for over-dimensional cargo', () => {
+    expect(getEwayBillValidityDays(150)).toBe(1);
+    expect(getEwayBillValidityDays(200)).toBe(1);
+    expect(getEwayBillValidityDays(412)).toBe(3);
+    expect(getEwayBillValidityDays(45, true)).toBe(3);
+  });
+
+  it('runs each day to midnight after the generation date', () => {
+    const validUntil = calculateEwayBillValidUntil(new Date(2025, 5, 5, 14, 30), 250);
+    expect(format(validUntil, 'yyyy-MM-dd HH:mm')).toBe('2025-06-07 23:59');
+  });
+});
+
+describe('getEwayBillExpiryWarning', () => {
+  const now = new Date(2025, 5, 6, 10, 0);
+
+  it('flags a bill that lapses before the trip ends', () => {
+    const warning = getEwayBillExpiryWarning(
+      { eway_bill_valid_until: new Date(2025, 5, 6, 23, 59).toISOString(), trip_end_date: '2025-06-08' },
+      now
+    );
+    expect(warning?.level).toBe('expires_mid_trip');
+  });
+
+  it('warns when an open trip is near or past expiry', () => {
+    expect(getEwayBillExpiryWarning(
+      { eway_bill_valid_until: new Date(2025, 5, 6, 18, 0).toISOString(), trip_end_date: '' },
+      now
+    )?.level).toBe('expiring_soon');
+    expect(getEwayBillExpiryWarning(
+      { eway_bill_valid_until: new Date(2025, 5, 5, 23, 59).toISOString(), trip_end_date: '' },
+      now
+    )?.level).toBe('expired');
+  });
+
+  it('stays quiet when the bill covers the trip', () => {
+    expect(getEwayBillExpiryWarning(
+      { eway_bill_valid_until: new Date(2025, 5, 8, 23, 59).toISOString(), trip_end_date: '2025-06-08' },
+      now
+    )).toBeNull();
+    expect(getEwayBillExpiryWarning({ eway_bill_valid_until: null, trip_end_date: '2025-06-08' }, now)).toBeNull();
+  });
+});
+
+describe('validateEwayBillSource', () => {
+  it('accepts a complete consignment', () => {
+    expect(validateEwayBillSource(source)).toEqual([]);
+  });
+
+  it('reports fields the portal would reject', () => {
+    const errors = validateEwayBillSource({
+      ...source,
+      distanceKm: 0,
+      note: { ...note, consignor_gstin: null, hsn_code: '25', consignee_pincode: '4945' }
+    });
+    expect(errors).toHaveLength(4);
+  });
+});
+
+describe('buildEwayBillBulkUpload', () => {
+  it('maps the consignment, vehicle and material into the bulk upload format', () => {
+    const payload = buildEwayBillBulkUpload([source]);
+    const [bill] = payload.billLists;
+
+    expect(payload.version).toBe('1.0.0621');
+    expect(bill).toMatchObject({
+      userGstin: '22AAAAA0000A1Z5',
+      docNo: 'RCW/118',
+      docDate: '04/06/2025',
+      fromStateCode: 22,
+      toGstin: 'URP',
+      toStateCode: 22,
+      toPincode: 494553,
+      totInvValue: 185000,
+      transDistance: 412,
+      transporterId: '22BBBBB1111B1Z5',
+      transDocNo: 'LR/2025-26/0007',
+      transDocDate: '05/06/2025',
+      vehicleNo: 'CG04AB1234',
+      vehicleType: 'R',
+      mainHsnCode: 2523
+    });
+    expect(bill.itemList).toEqual([
+      expect.objectContaining({ productName: 'Cement', hsnCode: 2523, quantity: 20000, qtyUnit: 'KGS', taxableAmount: 185000 })
+    ]);
+  });
+});
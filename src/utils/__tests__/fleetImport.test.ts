@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DRIVER_IMPORT_COLUMNS,
+  VEHICLE_IMPORT_COLUMNS,
+  buildDriverImportRows,
+  buildVehicleImportRows,
+  mergeRcDetails,
+  readFleetImportSheet
+} from '../fleetImport';
+
+const tags = [
+  { id: 't1', name: 'Cement' },
+  { id: 't2', name: 'Long haul' }
+];
+
+describe('readFleetImportSheet', () => {
+  it('matches loosely named headers and skips blank rows', () => {
+    const inputs = readFleetImportSheet(
+      [
+        { 'Vehicle No.': ' cg-04-ab-1234 ', Brand: 'Tata', Model: 'LPT 1918', 'Model Year': 2022, Remarks: 'ignored' },
+        { 'Vehicle No.': '', Brand: '  ' },
+        { 'Vehicle No.': 'CG04CD5678', 'Insurance Upto': new Date(2026, 2, 31) }
+      ],
+      VEHICLE_IMPORT_COLUMNS
+    );
+
+    expect(inputs).toEqual([
+      { row: 2, values: { registration_number: 'cg-04-ab-1234', make: 'Tata', model: 'LPT 1918', year: '2022' } },
+      { row: 4, values: { registration_number: 'CG04CD5678', insurance_expiry_date: '2026-03-31' } }
+    ]);
+  });
+});
+
+describe('mergeRcDetails', () => {
+  it('fills only the blank cells from the RC lookup', () => {
+    const merged = mergeRcDetails(
+      { registration_number: 'CG04AB1234', make: 'TATA MOTORS' },
+      {
+        brand_name: 'Tata Motors Ltd',
+        brand_model: 'LPT 1918 CX',
+        registration_date: '12-05-2021',
+        fuel_type: 'DIESEL',
+        insurance_expiry: '2026-03-31',
+        tax_paid_upto: 'LTT'
+      }
+    );
+
+    expect(merged).toMatchObject({
+      make: 'TATA MOTORS',
+      model: 'LPT 1918 CX',
+      year: '2021',
+      fuel_type: 'diesel',
+      insurance_expiry_date: '2026-03-31',
+      tax_paid_upto: 'LTT',
+      registration_date: '2021-05-12'
+    });
+  });
+});
+
+describe('buildVehicleImportRows', () => {
+  it('rejects invalid and duplicate registrations and resolves tags', () => {
+    const rows = buildVehicleImportRows(
+      [
+        { row: 2, values: { registration_number: 'cg 04 ab 1234', make: 'Tata', model: 'LPT', year: '2022', tags: 'cement, Reefer', tax_paid_upto: 'ltt' } },
+        { row: 3, values: { registration_number: 'CG04AB1234', make: 'Tata', model: 'LPT', year: '2022' } },
+        { row: 4, values: { registration_number: 'CG04XY0001', make: 'Ashok Leyland', model: 'Boss', year: '2021' } },
+        { row: 5, values: { registration_number: 'TRUCK1', make: 'Eicher', year: '1975', fuel_type: 'hydrogen' } }
+      ],
+      { existingVehicles: [{ registration_number: 'CG-04-XY-0001' }], tags, defaultTagIds: ['t2'] }
+    );
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[0].warnings).toEqual(['Tag "Reefer" not found; skipped']);
+    expect(rows[0].tag_ids).toEqual(['t2', 't1']);
+    expect(rows[0].record).toMatchObject({
+      registration_number: 'CG04AB1234',
+      type: 'truck',
+      fuel_type: 'diesel',
+      tax_paid_upto: '2099-12-31',
+      tax_scope: 'Lifetime Tax (LTT)'
+    });
+
+    expect(rows[1].errors).toEqual(['CG04AB1234 is repeated from row 2']);
+    expect(rows[2].errors).toEqual(['CG04XY0001 is already in the fleet']);
+    expect(rows[3].record).toBeNull();
+    expect(rows[3].errors).toEqual([
+      'TRUCK1 is not a valid registration number',
+      'Model is missing',
+      'Year "1975" is not valid',
+      'Fuel type "hydrogen" is not recognised'
+    ]);
+  });
+});
+
+describe('buildDriverImportRows', () => {
+  it('checks licence, mobile and Aadhaar and links the primary vehicle', () => {
+    const inputs = readFleetImportSheet(
+      [
+        { 'Driver Name': 'Ramesh Kumar', 'DL No': 'cg04 2019 0001234', Phone: '+91 98765 43210', Aadhaar: '1234 5678 9012', Vehicle: 'CG-04-AB-1234', DOB: '15-08-1985' },
+        { 'Driver Name': 'Suresh', 'DL No': 'CG0420190001234', Phone: '12345', Aadhaar: '1234' },
+        { 'DL No': 'CG04-ABC', Vehicle: 'MH12XY0001' }
+      ],
+      DRIVER_IMPORT_COLUMNS
+    );
+    const rows = buildDriverImportRows(inputs, {
+      existingDrivers: [{ license_number: 'CG0420150009999' }],
+      vehicles: [{ id: 'v1', registration_number: 'CG04AB1234' }]
+    });
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[0].warnings).toEqual(['Licence validity not given; expiry reminders will not cover this driver']);
+    expect(rows[0].record).toMatchObject({
+      name: 'Ramesh Kumar',
+      license_number: 'CG0420190001234',
+      contact_number: '9876543210',
+      aadhar_number: '123456789012',
+      date_of_birth: '1985-08-15',
+      primary_vehicle_id: 'v1'
+    });
+
+    expect(rows[1].errors).toEqual([
+      'Licence CG0420190001234 is repeated from row 2',
+      'Mobile "12345" is not a valid Indian number',
+      'Aadhaar "1234" must be 12 digits'
+    ]);
+    expect(rows[2].errors).toEqual(['Name is missing', 'CG04ABC is not a valid licence number']);
+    expect(rows[2].warnings).toEqual(['Vehicle MH12XY0001 not found; not assigned']);
+  });
+});
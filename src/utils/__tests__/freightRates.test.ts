@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRepricingPreview,
+  getRepricingChanges,
+  priceTripFromFreightRate,
+  resolveFreightRate
+} from '../freightRates';
+import { FreightRate, RepricingTrip } from '../../types';
+
+const baseRate: FreightRate = {
+  id: 'raipur',
+  organization_id: 'org-1',
+  warehouse_id: 'wh-raipur',
+  billing_type: 'per_ton',
+  rate: 2.15,
+  effective_from: '2024-01-01',
+  active: true
+};
+
+const trip = (overrides: Partial<RepricingTrip> = {}): RepricingTrip => ({
+  id: 'trip-1',
+  trip_serial_number: 'T0001',
+  vehicle_id: 'veh-1',
+  warehouse_id: 'wh-raipur',
+  destinations: ['dest-1'],
+  material_type_ids: ['cement'],
+  trip_start_date: '2025-02-10T08:00:00',
+  start_km: 1000,
+  end_km: 1250,
+  gross_weight: 30000,
+  freight_rate: 2.15,
+  billing_type: 'per_ton',
+  income_amount: 64500,
+  total_expense: 20000,
+  ...overrides
+});
+
+describe('resolveFreightRate', () => {
+  it('only uses rates in effect on the trip date', () => {
+    const rates: FreightRate[] = [
+      { ...baseRate, effective_to: '2024-12-31' },
+      { ...baseRate, id: 'revised', rate: 2.4, effective_from: '2025-01-01' }
+    ];
+
+    expect(resolveFreightRate(rates, { tripDate: '2024-12-31', warehouseId: 'wh-raipur' })?.id).toBe('raipur');
+    expect(resolveFreightRate(rates, { tripDate: '2025-01-01', warehouseId: 'wh-raipur' })?.id).toBe('revised');
+    expect(resolveFreightRate(rates, { tripDate: '2023-06-01', warehouseId: 'wh-raipur' })).toBeNull();
+  });
+
+  it('prefers lane and material specific rates over the warehouse rate', () => {
+    const rates: FreightRate[] = [
+      baseRate,
+      { ...baseRate, id: 'lane', destination_id: 'dest-1', rate: 2.3 },
+      { ...baseRate, id: 'lane-cement', destination_id: 'dest-1', material_type_id: 'cement', rate: 2.5 },
+      { ...baseRate, id: 'other-lane', destination_id: 'dest-2', material_type_id: 'cement', rate: 3 }
+    ];
+
+    const criteria = { tripDate: '2025-02-10', warehouseId: 'wh-raipur', destinationIds: ['dest-1'] };
+    expect(resolveFreightRate(rates, criteria)?.id).toBe('lane');
+    expect(resolveFreightRate(rates, { ...criteria, materialTypeIds: ['cement'] })?.id).toBe('lane-cement');
+    expect(resolveFreightRate(rates, { ...criteria, warehouseId: 'wh-bilaspur' })).toBeNull();
+  });
+
+  it('prefers the billing type already chosen on the trip', () => {
+    const rates: FreightRate[] = [
+      baseRate,
+      { ...baseRate, id: 'per-km', billing_type: 'per_km', rate: 45 }
+    ];
+
+    const criteria = { tripDate: '2025-02-10', warehouseId: 'wh-raipur' };
+    expect(resolveFreightRate(rates, { ...criteria, billingType: 'per_km' })?.id).toBe('per-km');
+    expect(resolveFreightRate(rates, { ...criteria, billingType: 'per_ton' })?.id).toBe('raipur');
+  });
+
+  it('ignores inactive rates', () => {
+    expect(resolveFreightRate([{ ...baseRate, active: false }], { tripDate: '2025-02-10', warehouseId: 'wh-raipur' })).toBeNull();
+  });
+});
+
+describe('priceTripFromFreightRate', () => {
+  it('prices by weight or distance according to the rate', () => {
+    expect(priceTripFromFreightRate(baseRate, trip())).toEqual({
+      freight_rate: 2.15,
+      billing_type: 'per_ton',
+      income_amount: 64500
+    });
+    expect(priceTripFromFreightRate({ ...baseRate, billing_type: 'per_km', rate: 45 }, trip()).income_amount).toBe(11250);
+  });
+
+  it('returns no income when the trip lacks the measure the rate needs', () => {
+    expect(priceTripFromFreightRate(baseRate, trip({ gross_weight: 0 })).income_amount).toBeNull();
+  });
+});
+
+describe('buildRepricingPreview', () => {
+  it('skips manual, contract, invoiced and unmatched trips', () => {
+    const preview = buildRepricingPreview(
+      [
+        trip({ id: 'manual', billing_type: 'manual' }),
+        trip({ id: 'contract', contract_rate_id: 'c-1' }),
+        trip({ id: 'invoiced', invoice_id: 'inv-1' }),
+        trip({ id: 'unmatched', warehouse_id: 'wh-bilaspur' })
+      ],
+      [baseRate]
+    );
+
+    expect(preview.map(row => row.skip_reason)).toEqual(['manual', 'contract', 'invoiced', 'no_rate']);
+    expect(getRepricingChanges(preview)).toHaveLength(0);
+  });
+
+  it('reports only trips whose pricing would change', () => {
+    const rates: FreightRate[] = [{ ...baseRate, effective_to: '2025-01-31' }, { ...baseRate, id: 'revised', rate: 2.4, effective_from: '2025-02-01' }];
+    const preview = buildRepricingPreview(
+      [trip({ id: 'january', trip_start_date: '2025-01-20' }), trip({ id: 'february' })],
+      rates
+    );
+
+    const changes = getRepricingChanges(preview);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      new_freight_rate: 2.4,
+      new_income: 72000,
+      difference: 7500
+    });
+    expect(changes[0].trip.id).toBe('february');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeFuelException,
+  getFuelExceptionKey,
+  normalizeFuelCardRows,
+  parseStatementDate,
+  reconcileFuelTransactions
+} from '../fuelReconciliation';
+import { FuelCardTransaction, Trip } from '../../types';
+
+const trip = (overrides: Partial<Trip>): Trip => ({
+  id: 'trip-1',
+  vehicle_id: 'v1',
+  driver_id: 'd1',
+  warehouse_id: 'w1',
+  trip_serial_number: 'T0001',
+  destinations: [],
+  trip_start_date: '2025-08-10T06:00:00',
+  trip_end_date: '2025-08-11T18:00:00',
+  start_km: 1000,
+  end_km: 1400,
+  gross_weight: 0,
+  refueling_done: true,
+  refuelings: [{ location: 'Raipur', fuel_quantity: 100, fuel_rate_per_liter: 90, total_fuel_cost: 9000 }],
+  ...overrides
+} as Trip);
+
+const txn = (overrides: Partial<FuelCardTransaction>) => ({
+  id: 'txn-1',
+  vehicle_id: 'v1',
+  vehicle_registration: 'CG04AB1234',
+  transaction_date: '2025-08-10',
+  fuel_quantity: 100,
+  amount: 9000,
+  ...overrides
+});
+
+describe('parseStatementDate', () => {
+  it('reads Indian and ISO date formats', () => {
+    expect(parseStatementDate('05/08/2025')).toBe('2025-08-05');
+    expect(parseStatementDate('05-Aug-2025')).toBe('2025-08-05');
+    expect(parseStatementDate('05/08/25')).toBe('2025-08-05');
+    expect(parseStatementDate('2025-08-05')).toBe('2025-08-05');
+    expect(parseStatementDate('05/08/2025 14:32')).toBe('2025-08-05');
+    expect(parseStatementDate(new Date(2025, 7, 5))).toBe('2025-08-05');
+  });
+
+  it('rejects unreadable dates', () => {
+    expect(parseStatementDate('')).toBeNull();
+    expect(parseStatementDate('not a date')).toBeNull();
+  });
+});
+
+describe('normalizeFuelCardRows', () => {
+  it('maps loosely named columns', () => {
+    const { rows, errors } = normalizeFuelCardRows([
+      { 'Txn Date': '10/08/2025', 'Vehicle No.': 'cg-04 ab 1234', 'Qty (Ltr)': '100', 'Amount (Rs)': '₹9,000.00', 'Txn ID': 'R1' }
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(rows[0]).toMatchObject({
+      vehicle_registration: 'CG04AB1234',
+      transaction_date: '2025-08-10',
+      amount: 9000,
+      reference: 'R1'
+    });
+  });
+
+  it('derives litres from the rate when quantity is missing', () => {
+    const { rows } = normalizeFuelCardRows([{ Date: '2025-08-10', Vehicle: 'CG04AB1234', Rate: '90', Amount: '4500' }]);
+    expect(rows[0].fuel_quantity).toBe(50);
+  });
+
+  it('reports rows without a vehicle, date or purchase amount', () => {
+    const { rows, errors } = normalizeFuelCardRows([
+      { Date: '2025-08-10', Amount: '100' },
+      { Vehicle: 'CG04AB1234', Amount: '100' },
+      { Date: '2025-08-10', Vehicle: 'CG04AB1234', Amount: '-5000' }
+    ]);
+
+    expect(rows).toHaveLength(0);
+    expect(errors.map(e => e.row)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('reconcileFuelTransactions', () => {
+  it('matches a statement line to the trip refueling within tolerance', () => {
+    const result = reconcileFuelTransactions([txn({ amount: 9005, fuel_quantity: 100.2 })], [trip({})]);
+
+    expect(result.matches[0]).toMatchObject({ match_status: 'matched', matched_trip_id: 'trip-1', matched_refueling_index: 0 });
+    expect(result.exceptions).toEqual([]);
+    expect(result.summary.matched).toBe(1);
+  });
+
+  it('accepts fills a day before the trip starts', () => {
+    const result = reconcileFuelTransactions([txn({ transaction_date: '2025-08-09' })], [trip({})]);
+    expect(result.matches[0].match_status).toBe('matched');
+  });
+
+  it('flags a litres mismatch', () => {
+    const result = reconcileFuelTransactions([txn({ fuel_quantity: 110 })], [trip({})]);
+
+    expect(result.matches[0]).toMatchObject({ match_status: 'mismatch', quantity_difference: -10 });
+    expect(result.exceptions[0]).toMatchObject({ type: 'quantity_mismatch', trip_id: 'trip-1', recorded_quantity: 100 });
+  });
+
+  it('flags an amount mismatch', () => {
+    const result = reconcileFuelTransactions([txn({ amount: 9500 })], [trip({})]);
+    expect(result.exceptions[0].type).toBe('amount_mismatch');
+  });
+
+  it('reports statement lines with no trip refueling', () => {
+    const result = reconcileFuelTransactions(
+      [txn({ transaction_date: '2025-08-20' }), txn({ id: 'txn-2', vehicle_id: null, vehicle_registration: 'XX00' })],
+      [trip({})]
+    );
+
+    expect(result.summary.unmatched).toBe(2);
+    expect(result.exceptions.filter(e => e.type === 'not_in_trips')).toHaveLength(2);
+  });
+
+  it('reports trip refuelings missing from the statement period', () => {
+    const result = reconcileFuelTransactions(
+      [txn({}), txn({ id: 'txn-2', transaction_date: '2025-08-15', amount: 4500, fuel_quantity: 50 })],
+      [
+        trip({}),
+        trip({ id: 'trip-2', trip_start_date: '2025-08-12', trip_end_date: '2025-08-13', refuelings: [], fuel_quantity: 40, total_fuel_cost: 3600 }),
+        trip({ id: 'trip-3', vehicle_id: 'v2', trip_start_date: '2025-08-12', trip_end_date: '2025-08-13' })
+      ]
+    );
+
+    const missing = result.exceptions.filter(e => e.type === 'not_on_statement');
+    expect(missing).toHaveLength(1);
+    expect(missing[0]).toMatchObject({ trip_id: 'trip-2', recorded_amount: 3600 });
+  });
+
+  it('uses each refueling once', () => {
+    const result = reconcileFuelTransactions([txn({}), txn({ id: 'txn-2' })], [trip({})]);
+    expect(result.matches.map(m => m.match_status)).toEqual(['matched', 'unmatched']);
+  });
+});
+
+describe('fuel exception alerts', () => {
+  it('ranks card spends without a trip highest and keys them by transaction', () => {
+    const exception = { type: 'not_in_trips' as const, vehicle_registration: 'CG04AB1234', date: '2025-08-10', transaction_id: 'txn-1' };
+    expect(describeFuelException(exception).severity).toBe('high');
+    expect(getFuelExceptionKey(exception)).toBe('not_in_trips:txn-1');
+  });
+});
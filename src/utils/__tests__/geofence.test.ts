@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTripGeofences,
+  checkTripAgainstGeofences,
+  detectGeofenceVisits,
+  proposeTripTimes,
+  summarizeGeofences
+} from '../geofence';
+
+const warehouse = { id: 'wh-1', name: 'Raipur Plant', latitude: 21.25, longitude: 81.63 };
+const destinations = [
+  { id: 'dest-1', name: 'Durg', latitude: 21.45, longitude: 81.63, type: 'town' },
+  { id: 'dest-2', name: 'Nowhere', latitude: null, longitude: null, type: 'village' }
+];
+const geofences = buildTripGeofences(warehouse, destinations);
+
+// Minutes after 06:00 IST on 1 June 2026; 0.009° of latitude is about 1 km
+const at = (minutes: number, kmNorth: number) => ({
+  lat: 21.25 + kmNorth * 0.009,
+  lng: 81.63,
+  timestamp: new Date(Date.UTC(2026, 5, 1, 0, 30 + minutes)).toISOString()
+});
+
+// Loads for an hour, drives 22 km to Durg, unloads for an hour, returns
+const track = [
+  at(0, 0), at(30, 0.1), at(60, 0),
+  at(70, 5), at(90, 15),
+  at(110, 21.5), at(130, 22), at(150, 21.8),
+  at(170, 10), at(200, 0.2), at(230, 0)
+];
+
+describe('buildTripGeofences', () => {
+  it('skips places without coordinates and sizes fences by place type', () => {
+    expect(geofences.map(f => [f.id, f.radius_km])).toEqual([['wh-1', 0.5], ['dest-1', 2]]);
+  });
+});
+
+describe('detectGeofenceVisits / proposeTripTimes', () => {
+  it('finds arrivals, departures and dwell at loading and unloading points', () => {
+    const visits = detectGeofenceVisits(track, geofences);
+    expect(visits.map(v => [v.name, v.dwell_minutes, v.departed_at !== null])).toEqual([
+      ['Raipur Plant', 70, true],
+      ['Durg', 60, true],
+      ['Raipur Plant', 30, false]
+    ]);
+
+    expect(proposeTripTimes(visits)).toEqual({
+      start_at: at(70, 5).timestamp,
+      end_at: at(200, 0.2).timestamp,
+      loading_minutes: 70,
+      unloading_minutes: 60,
+      visited_destination_ids: ['dest-1']
+    });
+  });
+
+  it('ignores passing through a fence', () => {
+    const passing = [at(0, 18), at(3, 21), at(6, 24)];
+    expect(detectGeofenceVisits(passing, geofences)).toEqual([]);
+  });
+});
+
+describe('checkTripAgainstGeofences', () => {
+  const trip = { trip_start_date: '2026-06-01', trip_end_date: '2026-06-01', destinations: ['dest-1'] };
+
+  it('accepts matching dates and flags entered dates on other days', () => {
+    const proposal = proposeTripTimes(detectGeofenceVisits(track, geofences));
+    expect(checkTripAgainstGeofences(trip, proposal, geofences)).toEqual([]);
+
+    const flags = checkTripAgainstGeofences({ ...trip, trip_start_date: '2026-05-31' }, proposal, geofences);
+    expect(flags).toEqual([
+      { type: 'start_mismatch', message: 'Left the warehouse 01-06-2026 07:10; the entered start differs' }
+    ]);
+  });
+
+  it('compares entered times with a tolerance and flags unvisited destinations', () => {
+    const summary = summarizeGeofences(track.slice(0, 5), geofences, {
+      ...trip,
+      trip_start_date: '2026-06-01T12:00:00+05:30'
+    });
+    expect(summary.geofence_flags.map(f => f.type)).toEqual(['start_mismatch', 'destination_not_visited']);
+  });
+
+  it('flags nothing for untimed tracks', () => {
+    const untimed = track.map(p => ({ ...p, timestamp: null }));
+    expect(summarizeGeofences(untimed, geofences, trip).geofence_flags).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeTrack,
+  compareTrackDistance,
+  detectTrackFormat,
+  normalizeTrackTimestamp,
+  parseGpx,
+  parseKml,
+  parseTrackCsv
+} from '../gpsTrack';
+
+// Heading north from Raipur; 0.009° of latitude is about 1 km
+const point = (minutes: number, kmNorth: number, speed_kmph: number | null = null) => ({
+  lat: 21.25 + kmNorth * 0.009,
+  lng: 81.63,
+  timestamp: new Date(Date.UTC(2026, 5, 1, 0, minutes)).toISOString(),
+  speed_kmph
+});
+
+describe('track parsers', () => {
+  it('reads GPX track points with times and m/s speeds', () => {
+    const gpx = `<?xml version="1.0"?><gpx><trk><trkseg>
+      <trkpt lat="21.25" lon="81.63"><time>2026-06-01T00:00:00Z</time><speed>10</speed></trkpt>
+      <trkpt lat="21.26" lon="81.63"><time>2026-06-01T00:01:00Z</time></trkpt>
+    </trkseg></trk></gpx>`;
+    expect(parseGpx(gpx)).toEqual([
+      { lat: 21.25, lng: 81.63, timestamp: '2026-06-01T00:00:00.000Z', speed_kmph: 36 },
+      { lat: 21.26, lng: 81.63, timestamp: '2026-06-01T00:01:00.000Z', speed_kmph: null }
+    ]);
+  });
+
+  it('reads KML gx:Track and LineString coordinates', () => {
+    const track = `<kml><gx:Track><when>2026-06-01T00:00:00Z</when><when>2026-06-01T00:05:00Z</when>
+      <gx:coord>81.63 21.25 290</gx:coord><gx:coord>81.64 21.26 291</gx:coord></gx:Track></kml>`;
+    expect(parseKml(track).map(p => p.timestamp)).toEqual(['2026-06-01T00:00:00.000Z', '2026-06-01T00:05:00.000Z']);
+
+    const line = '<kml><LineString><coordinates>81.63,21.25,0 81.64,21.26,0</coordinates></LineString></kml>';
+    expect(parseKml(line)).toMatchObject([{ lat: 21.25, lng: 81.63, timestamp: null }, { lat: 21.26, lng: 81.64 }]);
+  });
+
+  it('reads CSV exports with Indian date-times and skips bad rows', () => {
+    const csv = 'Date,Time,Latitude,Longitude,Speed\n01-06-2026,05:30:00,21.25,81.63,40\n01-06-2026,05:31:00,0,0,0\n01/06/2026,05:32:00,21.26,81.63,';
+    expect(parseTrackCsv(csv)).toEqual([
+      { lat: 21.25, lng: 81.63, timestamp: '2026-06-01T00:00:00.000Z', speed_kmph: 40 },
+      { lat: 21.26, lng: 81.63, timestamp: '2026-06-01T00:02:00.000Z', speed_kmph: null }
+    ]);
+    expect(() => parseTrackCsv('a,b\n1,2')).toThrow('latitude and longitude');
+  });
+
+  it('detects the format from the extension or content', () => {
+    expect(detectTrackFormat('trip.GPX', '')).toBe('gpx');
+    expect(detectTrackFormat('export', '<?xml version="1.0"?><kml>')).toBe('kml');
+    expect(detectTrackFormat('export.txt', 'lat,lng\n')).toBe('csv');
+    expect(detectTrackFormat('photo.jpg', 'ÿØ')).toBeNull();
+  });
+
+  it('normalizes epoch and zone-less timestamps', () => {
+    expect(normalizeTrackTimestamp(1780272000)).toBe('2026-06-01T00:00:00.000Z');
+    expect(normalizeTrackTimestamp('2026-06-01 05:30:00')).toBe('2026-06-01T00:00:00.000Z');
+    expect(normalizeTrackTimestamp('not a date')).toBeNull();
+  });
+});
+
+describe('analyzeTrack', () => {
+  it('works out distance, idle time, stops and overspeeding', () => {
+    const analysis = analyzeTrack([
+      point(0, 0),
+      point(10, 10), // 60 km/h
+      point(20, 10), // parked
+      point(30, 10),
+      point(35, 18, 96), // 96 km/h reported
+      point(40, 26, 96),
+      point(50, 30)
+    ]);
+
+    expect(analysis.distance_km).toBeCloseTo(30, 0);
+    expect(analysis.duration_minutes).toBe(50);
+    expect(analysis.idle_minutes).toBe(20);
+    expect(analysis.moving_minutes).toBe(30);
+    expect(analysis.stops).toMatchObject([{ duration_minutes: 20 }]);
+    expect(analysis.overspeed_events).toMatchObject([{ duration_minutes: 5, max_speed_kmph: 96 }]);
+    expect(analysis.max_speed_kmph).toBe(96);
+  });
+
+  it('drops GPS glitches that jump impossibly far', () => {
+    const analysis = analyzeTrack([point(0, 0), point(1, 1), point(2, 200), point(3, 2)]);
+    expect(analysis.point_count).toBe(3);
+    expect(analysis.distance_km).toBeCloseTo(2, 0);
+  });
+});
+
+describe('compareTrackDistance', () => {
+  it('flags odometer readings and routes well off the GPS distance', () => {
+    expect(compareTrackDistance(200, { start_km: 1000, end_km: 1250 }, 180)).toEqual({
+      track_km: 200,
+      odometer_km: 250,
+      odometer_difference_km: 50,
+      odometer_difference_percent: 25,
+      standard_km: 180,
+      standard_difference_percent: 11.1,
+      odometer_mismatch: true,
+      off_route: true
+    });
+
+    const open = compareTrackDistance(200, { start_km: 1000, end_km: 0 }, 0);
+    expect(open).toMatchObject({ odometer_km: null, odometer_mismatch: false, standard_km: null, off_route: false });
+  });
+});
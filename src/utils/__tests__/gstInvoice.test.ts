@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amountInWords,
+  buildInvoiceItemFromTrip,
+  calculateGstBreakup,
+  formatInvoiceNumber,
+  getFinancialYear,
+  getPaymentStatus
+} from '../gstInvoice';
+import { Trip } from '../../types';
+
+describe('getFinancialYear', () => {
+  it('rolls over in April', () => {
+    expect(getFinancialYear('2025-03-31')).toBe('2024-25');
+    expect(getFinancialYear('2025-04-01')).toBe('2025-26');
+    expect(getFinancialYear('2099-12-01')).toBe('2099-00');
+  });
+
+  it('formats sequential invoice numbers', () => {
+    expect(formatInvoiceNumber('2025-26', 7)).toBe('INV/2025-26/0007');
+  });
+});
+
+describe('calculateGstBreakup', () => {
+  it('splits intra-state tax into CGST and SGST', () => {
+    expect(calculateGstBreakup(10000, 12, '22', '22', false)).toEqual({
+      cgst: 600,
+      sgst: 600,
+      igst: 0,
+      totalTax: 1200,
+      total: 11200
+    });
+  });
+
+  it('charges IGST across states', () => {
+    const breakup = calculateGstBreakup(10000, 5, '22', '27', false);
+    expect(breakup.igst).toBe(500);
+    expect(breakup.cgst + breakup.sgst).toBe(0);
+  });
+
+  it('leaves tax out of the payable total under reverse charge', () => {
+    const breakup = calculateGstBreakup(10000, 5, '22', '22', true);
+    expect(breakup.totalTax).toBe(500);
+    expect(breakup.total).toBe(10000);
+  });
+});
+
+describe('buildInvoiceItemFromTrip', () => {
+  it('bills per-km trips by distance', () => {
+    const item = buildInvoiceItemFromTrip({
+      id: 'trip-1',
+      trip_serial_number: 'T-001',
+      trip_start_date: '2025-05-01',
+      start_km: 1000,
+      end_km: 1250,
+      billing_type: 'per_km',
+      freight_rate: 40,
+      income_amount: 10000
+    } as Trip, 'Raipur → Bacheli');
+
+    expect(item).toMatchObject({ trip_id: 'trip-1', quantity: 250, unit: 'km', rate: 40, amount: 10000, sac_code: '9965' });
+    expect(item.description).toContain('Raipur → Bacheli');
+  });
+});
+
+describe('getPaymentStatus', () => {
+  it('tracks partial and full payment', () => {
+    expect(getPaymentStatus(1000, 0)).toBe('issued');
+    expect(getPaymentStatus(1000, 400)).toBe('partially_paid');
+    expect(getPaymentStatus(1000, 1000)).toBe('paid');
+  });
+});
+
+describe('amountInWords', () => {
+  it('uses lakh and crore', () => {
+    expect(amountInWords(125000)).toBe('Rupees One Lakh Twenty Five Thousand Only');
+    expect(amountInWords(10000000.5)).toBe('Rupees One Crore and Fifty Paise Only');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MESSAGE_TEMPLATE_DEFINITIONS,
+  findUnknownPlaceholders,
+  getDefaultTemplate,
+  renderTemplate,
+  resolveMessage,
+  toMessageLanguage
+} from '../messageTemplates';
+import { MessageTemplate } from '../../types';
+
+describe('renderTemplate', () => {
+  it('fills placeholders and prints empty values as N/A', () => {
+    expect(renderTemplate('{{ vehicle_registration }} – {{document_type}} on {{expiry_date}}', {
+      vehicle_registration: 'CG04AB1234',
+      document_type: 'Insurance',
+      expiry_date: ''
+    })).toBe('CG04AB1234 – Insurance on N/A');
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(renderTemplate('Hi {{driver_nmae}}', { driver_name: 'Ramesh' })).toBe('Hi {{driver_nmae}}');
+  });
+});
+
+describe('resolveMessage', () => {
+  const override = (overrides: Partial<MessageTemplate>): MessageTemplate => ({
+    id: 'tpl-1',
+    organization_id: 'org-1',
+    template_key: 'trip_confirmation',
+    language: 'hi',
+    body: 'ट्रिप {{trip_serial}}',
+    is_active: true,
+    ...overrides
+  });
+
+  it('prefers an active organization override for the language', () => {
+    expect(resolveMessage('trip_confirmation', { trip_serial: 'T-1' }, 'hi', [override({})]).body).toBe('ट्रिप T-1');
+  });
+
+  it('falls back to the built-in template when the override is inactive or for another language', () => {
+    const builtIn = resolveMessage('trip_confirmation', { trip_serial: 'T-1' }, 'en').body;
+    expect(resolveMessage('trip_confirmation', { trip_serial: 'T-1' }, 'en', [override({})]).body).toBe(builtIn);
+    expect(resolveMessage('trip_confirmation', { trip_serial: 'T-1' }, 'hi', [override({ is_active: false })]).body)
+      .not.toBe('ट्रिप T-1');
+  });
+});
+
+describe('built-in templates', () => {
+  it('exist in both languages and only use the declared placeholders', () => {
+    MESSAGE_TEMPLATE_DEFINITIONS.forEach(definition => {
+      (['en', 'hi'] as const).forEach(language => {
+        const { subject, body } = getDefaultTemplate(definition.key, language);
+        expect(body).toBeTruthy();
+        expect(findUnknownPlaceholders(`${subject} ${body}`, definition.key)).toEqual([]);
+      });
+    });
+  });
+
+  it('maps i18n language codes', () => {
+    expect(toMessageLanguage('hi-IN')).toBe('hi');
+    expect(toMessageLanguage('en-US')).toBe('en');
+    expect(toMessageLanguage(undefined)).toBe('en');
+  });
+});
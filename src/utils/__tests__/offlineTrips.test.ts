@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findOdometerConflict,
+  getPlaceholderTripSerial,
+  getPreviousOdometerTrip,
+  isPlaceholderTripSerial,
+  validateOfflineTrip
+} from '../offlineTrips';
+
+const saved = [
+  { id: 't1', trip_serial_number: 'T25-1234-0001', vehicle_id: 'veh-1', trip_start_date: '2025-03-01', start_km: 1000, end_km: 1300 },
+  { id: 't2', trip_serial_number: 'T25-1234-0002', vehicle_id: 'veh-1', trip_start_date: '2025-03-03', start_km: 1300, end_km: 1650 },
+  { id: 't3', trip_serial_number: 'T25-5678-0001', vehicle_id: 'veh-2', trip_start_date: '2025-03-04', start_km: 9000, end_km: 9400 }
+];
+
+const trip = {
+  vehicle_id: 'veh-1',
+  driver_id: 'drv-1',
+  warehouse_id: 'wh-1',
+  trip_start_date: '2025-03-05',
+  start_km: 1650,
+  end_km: 1900
+};
+
+describe('getPlaceholderTripSerial', () => {
+  it('follows the serial format with an OFF sequence', () => {
+    const serial = getPlaceholderTripSerial('CG04AB1234', '2025-03-05', 'local-lx2k9-a1b2c3');
+    expect(serial).toBe('T25-1234-OFFB2C3');
+    expect(isPlaceholderTripSerial(serial)).toBe(true);
+    expect(isPlaceholderTripSerial('T25-1234-0007')).toBe(false);
+  });
+});
+
+describe('getPreviousOdometerTrip', () => {
+  it('returns the latest earlier trip on the same vehicle', () => {
+    expect(getPreviousOdometerTrip(saved, 'veh-1', '2025-03-05')?.id).toBe('t2');
+    expect(getPreviousOdometerTrip(saved, 'veh-1', '2025-03-02')?.id).toBe('t1');
+    expect(getPreviousOdometerTrip(saved, 'veh-3', '2025-03-05')).toBeNull();
+  });
+});
+
+describe('findOdometerConflict', () => {
+  it('detects duplicates and overlapping odometer ranges on the same vehicle', () => {
+    expect(findOdometerConflict(trip, saved)).toBeNull();
+    expect(findOdometerConflict({ ...trip, trip_start_date: '2025-03-03', start_km: 1300, end_km: 1650 }, saved))
+      .toMatchObject({ type: 'duplicate', trip_id: 't2' });
+    expect(findOdometerConflict({ ...trip, start_km: 1600 }, saved))
+      .toMatchObject({ type: 'odometer_overlap', trip_id: 't2' });
+    expect(findOdometerConflict({ ...trip, vehicle_id: 'veh-3', start_km: 1000 }, saved)).toBeNull();
+  });
+});
+
+describe('validateOfflineTrip', () => {
+  it('accepts a trip continuing from the last odometer reading', () => {
+    expect(validateOfflineTrip(trip, saved)).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('rejects missing fields, reversed odometer and overlaps', () => {
+    expect(validateOfflineTrip({ ...trip, driver_id: '' }, saved).errors).toEqual(['Select a driver']);
+    expect(validateOfflineTrip({ ...trip, end_km: 1600 }, saved).errors).toEqual(['End km must be greater than start km']);
+    expect(validateOfflineTrip({ ...trip, start_km: 1500 }, saved).errors[0]).toContain('T25-1234-0002');
+  });
+
+  it('warns about a large gap since the previous trip', () => {
+    const result = validateOfflineTrip({ ...trip, start_km: 2400, end_km: 2600 }, saved);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFleetPartStockItems,
+  computeStockLevels,
+  describeLowStock,
+  getFleetPartSku,
+  getLowStockItems,
+  getTaskStockIssues,
+  summarizeStock,
+  summarizeStockValuation,
+  validateStockMovement
+} from '../partsInventory';
+import { FLEET_PARTS_DEFINITIONS } from '../../constants/fleetParts';
+import { PartStockItem, StockMovement } from '../../types';
+
+const item = (overrides: Partial<PartStockItem> = {}): PartStockItem => ({
+  id: 'brake',
+  organization_id: 'org-1',
+  sku: 'BRAKE-PADS',
+  fleet_part_id: 'brake_pads',
+  name: 'Brake Pads',
+  category: 'Safety Critical',
+  unit: 'pcs',
+  reorder_level: 4,
+  is_active: true,
+  ...overrides
+});
+
+let movementId = 0;
+const movement = (overrides: Partial<StockMovement>): StockMovement => ({
+  id: `m-${++movementId}`,
+  organization_id: 'org-1',
+  item_id: 'brake',
+  warehouse_id: 'w1',
+  movement_type: 'receipt',
+  quantity: 10,
+  unit_cost: 3000,
+  movement_date: '2025-01-01',
+  ...overrides
+});
+
+describe('fleet parts catalogue', () => {
+  it('builds SKUs from fleet part ids and skips parts already stocked', () => {
+    expect(getFleetPartSku('brake_pads')).toBe('BRAKE-PADS');
+
+    const drafts = buildFleetPartStockItems([item()]);
+    expect(drafts).toHaveLength(FLEET_PARTS_DEFINITIONS.length - 1);
+    expect(drafts.some(d => d.fleet_part_id === 'brake_pads')).toBe(false);
+  });
+});
+
+describe('stock levels', () => {
+  const ledger = [
+    movement({ quantity: 10, unit_cost: 3000 }),
+    movement({ movement_type: 'issue', quantity: -4, unit_cost: 3000, movement_date: '2025-01-10' }),
+    movement({ quantity: 6, unit_cost: 3500, movement_date: '2025-02-01' }),
+    movement({ warehouse_id: 'w2', quantity: 2, unit_cost: 2800 })
+  ];
+
+  it('keeps a weighted average cost per location', () => {
+    const levels = computeStockLevels(ledger);
+    const w1 = levels.find(l => l.warehouse_id === 'w1');
+
+    expect(w1).toMatchObject({ quantity: 12, average_cost: 3250, value: 39000 });
+  });
+
+  it('returns uncosted stock at the current average', () => {
+    const levels = computeStockLevels([
+      ...ledger,
+      movement({ movement_type: 'return', quantity: 1, unit_cost: null, movement_date: '2025-03-01' })
+    ]);
+    expect(levels.find(l => l.warehouse_id === 'w1')).toMatchObject({ quantity: 13, average_cost: 3250 });
+  });
+
+  it('totals locations and flags items at the reorder level', () => {
+    const [summary] = summarizeStock([item({ reorder_level: 14 })], ledger);
+
+    expect(summary).toMatchObject({ quantity: 14, value: 44600, low_stock: true });
+    expect(getLowStockItems(summarizeStock([item()], ledger))).toHaveLength(0);
+    expect(getLowStockItems(summarizeStock([item({ reorder_level: 20, is_active: false })], ledger))).toHaveLength(0);
+  });
+
+  it('values stock by category and by location', () => {
+    const summaries = summarizeStock(
+      [item(), item({ id: 'oil', category: 'Engine' })],
+      [...ledger, movement({ item_id: 'oil', quantity: 5, unit_cost: 1000 })]
+    );
+
+    expect(summarizeStockValuation(summaries, 'category')).toEqual([
+      { key: 'Safety Critical', items: 1, quantity: 14, value: 44600 },
+      { key: 'Engine', items: 1, quantity: 5, value: 5000 }
+    ]);
+    expect(summarizeStockValuation(summaries, 'warehouse')[0]).toEqual({ key: 'w1', items: 2, quantity: 17, value: 44000 });
+  });
+});
+
+describe('stock movements', () => {
+  const base = { item_id: 'brake', warehouse_id: 'w1', movement_date: '2025-01-01' };
+
+  it('does not issue more than the location holds', () => {
+    expect(validateStockMovement({ ...base, movement_type: 'issue', quantity: -3 }, 3)).toBeNull();
+    expect(validateStockMovement({ ...base, movement_type: 'issue', quantity: -4 }, 3)).toBe('Only 3 in stock at this location');
+    expect(validateStockMovement({ ...base, movement_type: 'adjustment', quantity: -5 }, 3)).toBe('Only 3 in stock at this location');
+  });
+
+  it('requires a cost on purchase receipts', () => {
+    expect(validateStockMovement({ ...base, movement_type: 'receipt', quantity: 5 }, 0)).toBe('Unit cost is required');
+    expect(validateStockMovement({ ...base, movement_type: 'receipt', quantity: 5, unit_cost: 0 }, 0)).toBeNull();
+  });
+
+  it('describes out-of-stock items as high severity', () => {
+    const [summary] = summarizeStock([item()], []);
+    expect(describeLowStock(summary)).toMatchObject({ severity: 'high', title: 'Out of stock: Brake Pads' });
+  });
+});
+
+describe('parts issued to maintenance tasks', () => {
+  it('totals parts taken from stock per part and location', () => {
+    const issues = getTaskStockIssues([
+      { parts_data: [
+        { stockItemId: 'brake', warehouseId: 'w1', quantity: 2 },
+        { quantity: 1 }
+      ] },
+      { parts_data: [
+        { stockItemId: 'brake', warehouseId: 'w1', quantity: 1 },
+        { stockItemId: 'brake', warehouseId: 'w2' }
+      ] },
+      { parts_data: null }
+    ]);
+
+    expect(issues).toEqual([
+      { item_id: 'brake', warehouse_id: 'w1', quantity: 3 },
+      { item_id: 'brake', warehouse_id: 'w2', quantity: 1 }
+    ]);
+  });
+});
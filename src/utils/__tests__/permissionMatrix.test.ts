@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePermissionMatrix, omitHiddenFields, resolvePermissions } from '../permissionMatrix';
+import { PermissionMatrix, UserRole } from '../../types/permissions';
+
+const base = (role: UserRole) => ({ role, organizationId: 'org-1', organizationName: 'AVS' });
+
+describe('normalizePermissionMatrix', () => {
+  it('adds view to any module with another action and drops unknown entries', () => {
+    const matrix = { trips: ['edit', 'delete'], fuel: ['view'], pnl: ['approve'] } as unknown as PermissionMatrix;
+
+    expect(normalizePermissionMatrix(matrix)).toEqual({ trips: ['view', 'edit', 'delete'] });
+    expect(normalizePermissionMatrix(null)).toEqual({});
+  });
+});
+
+describe('resolvePermissions', () => {
+  it('keeps the access the fixed roles had before the matrix', () => {
+    const flags = (role: UserRole) => {
+      const p = resolvePermissions(base(role));
+      return [p.canAccessDashboard, p.canAccessReports, p.canAccessAdmin, p.canAccessAlerts,
+        p.canViewDriverInsights, p.canViewVehicleOverview, p.canViewRevenue];
+    };
+
+    expect(flags('owner')).toEqual([true, true, true, true, true, true, true]);
+    expect(flags('manager')).toEqual([true, true, false, true, true, true, true]);
+    expect(flags('data_entry')).toEqual([false, false, false, false, false, false, false]);
+    expect(resolvePermissions(base('data_entry')).hiddenFields).toEqual(['revenue', 'salary']);
+  });
+
+  it('uses the custom role instead of the fixed role defaults', () => {
+    const accountant = resolvePermissions(base('data_entry'), {
+      id: 'role-1',
+      name: 'Accountant',
+      permissions: { trips: ['view', 'export'], pnl: ['view', 'create'] },
+      hidden_fields: ['salary']
+    });
+
+    expect(accountant.customRoleName).toBe('Accountant');
+    expect(accountant.canAccessReports).toBe(true);
+    expect(accountant.canViewRevenue).toBe(true);
+    expect(accountant.canAccessAlerts).toBe(false);
+
+    const clerk = resolvePermissions(base('manager'), {
+      name: 'Clerk',
+      permissions: { trips: ['view'], pnl: ['view'] },
+      hidden_fields: ['revenue']
+    });
+
+    expect(clerk.canAccessReports).toBe(true);
+    expect(clerk.canViewRevenue).toBe(false);
+  });
+});
+
+describe('omitHiddenFields', () => {
+  it('strips the columns of hidden fields only', () => {
+    const trip = { id: 't1', freight_rate: 42, income_amount: 5000, net_profit: 1200, total_expense: 3800 };
+
+    expect(omitHiddenFields(trip, ['revenue'])).toEqual({ id: 't1', total_expense: 3800 });
+    expect(omitHiddenFields(trip, ['salary'])).toEqual(trip);
+    expect(omitHiddenFields(trip, [])).toBe(trip);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPMTaskDraft,
+  computePMDueItems,
+  getPMItemsNeedingTasks,
+  scheduleAppliesToVehicle,
+  summarizePMCompliance,
+  taskMatchesSchedule
+} from '../pmSchedules';
+import { MaintenanceSchedule, MaintenanceTask, Vehicle } from '../../types';
+
+const today = new Date('2025-06-30T00:00:00');
+
+const schedule = (overrides: Partial<MaintenanceSchedule> = {}): MaintenanceSchedule => ({
+  id: 's1',
+  organization_id: 'org-1',
+  name: 'Engine oil',
+  task_title: 'Engine Oil Change',
+  task_type: 'general_scheduled_service',
+  interval_km: 20000,
+  interval_days: 180,
+  warn_km: 1000,
+  warn_days: 7,
+  vehicle_types: [],
+  vehicle_ids: [],
+  tag_ids: [],
+  auto_create_task: true,
+  vendor_id: 'garage-1',
+  is_active: true,
+  ...overrides
+});
+
+const vehicle = (overrides: Partial<Vehicle> = {}): Vehicle => ({
+  id: 'v1',
+  registration_number: 'MH12AB1234',
+  type: 'truck',
+  status: 'active',
+  current_odometer: 50000,
+  ...overrides
+} as Vehicle);
+
+const task = (overrides: Partial<MaintenanceTask> = {}): MaintenanceTask => ({
+  id: 't1',
+  vehicle_id: 'v1',
+  task_type: 'general_scheduled_service',
+  title: ['Engine Oil Change'],
+  status: 'resolved',
+  priority: 'medium',
+  start_date: '2025-05-01',
+  end_date: '2025-05-01',
+  odometer_reading: 40000,
+  ...overrides
+} as MaintenanceTask);
+
+describe('schedule assignment', () => {
+  it('covers the whole fleet when nothing is assigned', () => {
+    expect(scheduleAppliesToVehicle(schedule(), vehicle())).toBe(true);
+  });
+
+  it('matches any of vehicle, type or tag', () => {
+    expect(scheduleAppliesToVehicle(schedule({ vehicle_types: ['tempo'] }), vehicle())).toBe(false);
+    expect(scheduleAppliesToVehicle(schedule({ vehicle_types: ['tempo'], vehicle_ids: ['v1'] }), vehicle())).toBe(true);
+    expect(scheduleAppliesToVehicle(
+      schedule({ tag_ids: ['tag-1'] }),
+      vehicle({ tags: [{ id: 'tag-1', name: 'Long haul' }] as Vehicle['tags'] })
+    )).toBe(true);
+  });
+
+  it('recognises the service in titles, service groups and parts', () => {
+    const s = schedule({ task_title: 'oil change' });
+    expect(taskMatchesSchedule(task(), s)).toBe(true);
+    expect(taskMatchesSchedule(task({ title: ['General service'], service_groups: [{ tasks: ['Engine oil change'] }] as MaintenanceTask['service_groups'] }), s)).toBe(true);
+    expect(taskMatchesSchedule(task({ title: ['Brake pads'] }), s)).toBe(false);
+  });
+});
+
+describe('PM due items', () => {
+  it('measures from the latest resolved matching task', () => {
+    const [item] = computePMDueItems(
+      [schedule()],
+      [vehicle()],
+      [task({ id: 'old', start_date: '2025-01-01', end_date: '2025-01-01', odometer_reading: 20000 }), task()],
+      today
+    );
+
+    expect(item).toMatchObject({
+      status: 'ok',
+      last_service_odometer: 40000,
+      next_due_odometer: 60000,
+      km_to_due: 10000
+    });
+  });
+
+  it('flags overdue by km and due soon by days', () => {
+    const overdue = computePMDueItems([schedule()], [vehicle({ current_odometer: 61000 })], [task()], today)[0];
+    expect(overdue.status).toBe('overdue');
+    expect(overdue.km_to_due).toBe(-1000);
+
+    const dueSoon = computePMDueItems(
+      [schedule({ interval_km: null, interval_days: 63 })],
+      [vehicle()],
+      [task()],
+      today
+    )[0];
+    expect(dueSoon.status).toBe('due_soon');
+    expect(dueSoon.days_to_due).toBe(3);
+  });
+
+  it('reports vehicles without a recorded service and skips archived ones', () => {
+    const items = computePMDueItems(
+      [schedule()],
+      [vehicle(), vehicle({ id: 'v2', status: 'archived' })],
+      [task({ status: 'open' })],
+      today
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ status: 'no_history', open_task_id: 't1' });
+  });
+});
+
+describe('PM compliance and task drafts', () => {
+  const items = computePMDueItems(
+    [schedule()],
+    [
+      vehicle(),
+      vehicle({ id: 'v2', current_odometer: 65000 }),
+      vehicle({ id: 'v3', current_odometer: 70000 }),
+      vehicle({ id: 'v4' })
+    ],
+    [task(), task({ id: 't2', vehicle_id: 'v2' }), task({ id: 't3', vehicle_id: 'v3' }), task({ id: 't4', vehicle_id: 'v3', status: 'open' })],
+    today
+  );
+
+  it('leaves vehicles without history out of the compliance figure', () => {
+    expect(summarizePMCompliance(items)).toEqual({
+      total: 4,
+      ok: 1,
+      due_soon: 0,
+      overdue: 2,
+      no_history: 1,
+      compliance_percent: 33
+    });
+  });
+
+  it('only raises tasks where none is open and a garage is set', () => {
+    expect(getPMItemsNeedingTasks(items).map(i => i.vehicle.id)).toEqual(['v2']);
+
+    const withoutGarage = items.map(i => ({ ...i, schedule: { ...i.schedule, vendor_id: null } }));
+    expect(getPMItemsNeedingTasks(withoutGarage)).toHaveLength(0);
+  });
+
+  it('drafts a high priority task for overdue services', () => {
+    const draft = buildPMTaskDraft(getPMItemsNeedingTasks(items)[0], today);
+
+    expect(draft).toMatchObject({
+      vehicle_id: 'v2',
+      title: ['Engine Oil Change'],
+      status: 'draft',
+      priority: 'high',
+      garage_id: 'garage-1',
+      odometer_reading: 65000,
+      start_date: '2025-06-30',
+      notes: 'PM schedule: Engine oil',
+      pm_schedule_id: 's1',
+      pm_due_key: '2025-10-28/60000'
+    });
+  });
+
+  it('treats a draft waiting for confirmation as already raised', () => {
+    const [item] = computePMDueItems(
+      [schedule()],
+      [vehicle({ id: 'v2', current_odometer: 65000 })],
+      [task({ id: 't2', vehicle_id: 'v2' }), task({ id: 't5', vehicle_id: 'v2', status: 'draft' })],
+      today
+    );
+
+    expect(item.open_task_id).toBe('t5');
+    expect(getPMItemsNeedingTasks([item])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDedupKey,
+  buildServiceReminders,
+  buildVehicleDocumentReminders,
+  getContactChannels,
+  getNextAttemptAt,
+  isDeliveryRetryDue,
+  planReminderNotifications
+} from '../reminderNotifications';
+import { NotificationDelivery, ReminderAssignedType, ReminderContact, ReminderContactMode, ReminderTemplate } from '../../types';
+import type { ReminderItem } from '../reminders';
+
+const contact = (overrides: Partial<ReminderContact>): ReminderContact => ({
+  id: 'contact-1',
+  full_name: 'Fleet Manager',
+  position: 'Manager',
+  phone_number: '9876543210',
+  email: 'manager@example.com',
+  preferred_contact_mode: ReminderContactMode.SMS,
+  is_active: true,
+  assigned_types: [ReminderAssignedType.Insurance],
+  is_global: false,
+  ...overrides
+});
+
+const reminder = (overrides: Partial<ReminderItem>): ReminderItem => ({
+  id: 'insurance-v1-2025-08-15',
+  title: 'Insurance Expiring',
+  entityId: 'v1',
+  entityName: 'CG04AB1234',
+  dueDate: '2025-08-15',
+  daysLeft: 10,
+  status: 'warning',
+  link: '/vehicles/v1',
+  type: 'insurance_expiry',
+  module: 'vehicles',
+  ...overrides
+});
+
+describe('getContactChannels', () => {
+  it('sends both SMS and email only when the details exist', () => {
+    expect(getContactChannels(contact({ preferred_contact_mode: ReminderContactMode.Both })).map(c => c.channel))
+      .toEqual(['sms', 'email']);
+    expect(getContactChannels(contact({ preferred_contact_mode: ReminderContactMode.Both, email: '' })).map(c => c.channel))
+      .toEqual(['sms']);
+  });
+});
+
+describe('planReminderNotifications', () => {
+  it('matches contacts by assigned type and skips normal-status reminders', () => {
+    const planned = planReminderNotifications(
+      [reminder({}), reminder({ id: 'puc-v1', type: 'puc_expiry' }), reminder({ id: 'insurance-v2', status: 'normal' })],
+      [contact({}), contact({ id: 'contact-2', is_global: true, preferred_contact_mode: ReminderContactMode.Email })]
+    );
+
+    expect(planned.map(p => p.dedupKey)).toEqual([
+      buildDedupKey('contact-1', 'insurance-v1-2025-08-15', 'sms'),
+      buildDedupKey('contact-2', 'insurance-v1-2025-08-15', 'email'),
+      buildDedupKey('contact-2', 'puc-v1', 'email')
+    ]);
+  });
+
+  it('uses the reminder template window and default contact', () => {
+    const template: ReminderTemplate = {
+      id: 't1',
+      reminder_type: 'insurance',
+      default_days_before: 30,
+      repeat: false,
+      default_contact_id: 'contact-3'
+    };
+    const contacts = [contact({ id: 'contact-3', assigned_types: [] })];
+
+    expect(planReminderNotifications([reminder({ status: 'normal', daysLeft: 25 })], contacts, [template])).toHaveLength(1);
+    expect(planReminderNotifications([reminder({ status: 'warning', daysLeft: 45 })], contacts, [template])).toHaveLength(0);
+  });
+
+  it('ignores inactive contacts and duplicate reminders', () => {
+    expect(planReminderNotifications([reminder({}), reminder({})], [contact({}), contact({ id: 'c2', is_active: false })]))
+      .toHaveLength(1);
+  });
+});
+
+describe('buildVehicleDocumentReminders / buildServiceReminders', () => {
+  const today = new Date('2025-08-01T00:00:00Z');
+
+  it('reminds documents inside their window and expired ones as critical', () => {
+    const reminders = buildVehicleDocumentReminders({
+      id: 'v1',
+      registration_number: 'CG04AB1234',
+      insurance_expiry_date: '2025-08-11',
+      puc_expiry_date: '2025-08-25',
+      fitness_expiry_date: '2025-07-20',
+      permit_expiry_date: '2026-01-01',
+      tax_paid_upto: '2025-08-05'
+    }, today);
+
+    expect(reminders.map(r => [r.id, r.daysLeft, r.status])).toEqual([
+      ['insurance-v1-2025-08-11', 10, 'warning'],
+      ['fitness-v1-2025-07-20', 0, 'critical'],
+      ['tax-v1-2025-08-05', 4, 'critical']
+    ]);
+  });
+
+  it('reminds service by date and by odometer', () => {
+    const reminders = buildServiceReminders(
+      { id: 'task-1', next_service_due: { date: '2025-08-04', odometer: 120500 } },
+      { registration_number: 'CG04AB1234', current_odometer: 120000 },
+      today
+    );
+
+    expect(reminders.map(r => [r.id, r.status])).toEqual([
+      ['service-date-task-1-2025-08-04', 'critical'],
+      ['service-km-task-1-120500', 'warning']
+    ]);
+    expect(reminders[1]).toMatchObject({ currentOdometer: 120000, dueOdometer: 120500 });
+  });
+});
+
+describe('retries', () => {
+  const delivery = (overrides: Partial<NotificationDelivery>): NotificationDelivery => ({
+    id: 'd1',
+    organization_id: 'org-1',
+    contact_id: 'contact-1',
+    reminder_id: 'r1',
+    reminder_type: 'Insurance',
+    channel: 'sms',
+    recipient: '9876543210',
+    body: 'Renew now',
+    dedup_key: 'contact-1:r1:sms',
+    status: 'failed',
+    attempts: 1,
+    ...overrides
+  });
+
+  it('backs off exponentially', () => {
+    const now = new Date('2025-08-01T10:00:00Z');
+    expect(getNextAttemptAt(1, now).toISOString()).toBe('2025-08-01T10:15:00.000Z');
+    expect(getNextAttemptAt(2, now).toISOString()).toBe('2025-08-01T10:30:00.000Z');
+  });
+
+  it('retries failed deliveries until the attempt limit', () => {
+    const now = new Date('2025-08-01T10:00:00Z');
+    expect(isDeliveryRetryDue(delivery({ next_attempt_at: '2025-08-01T09:59:00Z' }), now)).toBe(true);
+    expect(isDeliveryRetryDue(delivery({ next_attempt_at: '2025-08-01T10:30:00Z' }), now)).toBe(false);
+    expect(isDeliveryRetryDue(delivery({ attempts: 3 }), now)).toBe(false);
+    expect(isDeliveryRetryDue(delivery({ status: 'sent' }), now)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { describeAccessChanges, getAssignableRoles, getTeamMemberLock, isValidInviteEmail } from '../teamAccess';
+import { UserRole } from '../../types/permissions';
+
+const member = (user_id: string, role: UserRole, is_active = true) => ({ user_id, role, is_active });
+
+describe('getAssignableRoles / isValidInviteEmail', () => {
+  it('lets only owners hand out ownership', () => {
+    expect(getAssignableRoles('owner')).toEqual(['owner', 'admin', 'manager', 'data_entry']);
+    expect(getAssignableRoles('admin')).toEqual(['admin', 'manager', 'data_entry']);
+    expect(getAssignableRoles('manager')).toEqual([]);
+    expect(isValidInviteEmail(' ops@avs.in ')).toBe(true);
+    expect(isValidInviteEmail('ops@avs')).toBe(false);
+  });
+});
+
+describe('getTeamMemberLock', () => {
+  const members = [member('o1', 'owner'), member('a1', 'admin'), member('d1', 'data_entry')];
+
+  it('blocks self-edits and any change to an owner', () => {
+    expect(getTeamMemberLock({ userId: 'a1', role: 'admin' }, members[2])).toBeNull();
+    expect(getTeamMemberLock({ userId: 'a1', role: 'admin' }, members[1])).toBe('You cannot change your own access');
+    expect(getTeamMemberLock({ userId: 'a1', role: 'admin' }, members[0])).toBe('Owner access cannot be changed from the team page');
+    expect(getTeamMemberLock({ userId: 'd1', role: 'manager' }, members[2])).toBe('Only admins and owners can manage the team');
+    expect(getTeamMemberLock({ userId: 'o2', role: 'owner' }, members[0])).toBe('Owner access cannot be changed from the team page');
+  });
+});
+
+describe('describeAccessChanges', () => {
+  it('lists role, status and warehouse changes by name', () => {
+    const names = new Map([['w1', 'Raipur Plant'], ['w2', 'Durg Depot']]);
+
+    expect(describeAccessChanges(
+      { role: 'data_entry', is_active: true, warehouse_ids: null },
+      { role: 'manager', is_active: false, warehouse_ids: ['w2', 'w1'] },
+      names
+    )).toEqual([
+      'Role Data entry → Manager',
+      'Deactivated',
+      'Warehouses all warehouses → Durg Depot, Raipur Plant'
+    ]);
+
+    expect(describeAccessChanges(
+      { role: 'admin', is_active: true, warehouse_ids: ['w1', 'w2'] },
+      { role: 'admin', is_active: true, warehouse_ids: ['w2', 'w1'] }
+    )).toEqual([]);
+  });
+});
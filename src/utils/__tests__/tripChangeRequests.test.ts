@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { diffTripFields, formatChangeValue, needsTripApproval } from '../tripChangeRequests';
+import { DEFAULT_ROLE_PERMISSIONS } from '../permissionMatrix';
+import { Trip } from '../../types';
+
+const trip: Partial<Trip> = {
+  id: 't1',
+  trip_serial_number: 'T0042',
+  start_km: 10200,
+  end_km: 10450,
+  toll_expense: 350,
+  remarks: '',
+  destinations: ['d1', 'd2'],
+  calculated_kmpl: 4.2,
+  expense_verified: true
+};
+
+describe('diffTripFields', () => {
+  it('lists changed fields with labels and ignores derived or unchanged ones', () => {
+    const changes = diffTripFields(trip, {
+      id: 't1',
+      start_km: '10200',
+      end_km: 10480,
+      toll_expense: 350,
+      remarks: null,
+      destinations: ['d1', 'd3'],
+      calculated_kmpl: 3.9,
+      driver_expense: 500
+    });
+
+    expect(changes).toEqual([
+      { field: 'end_km', label: 'End KM', old_value: 10450, new_value: 10480 },
+      { field: 'destinations', label: 'Destinations', old_value: ['d1', 'd2'], new_value: ['d1', 'd3'] },
+      { field: 'driver_expense', label: 'Driver expense', old_value: null, new_value: 500 }
+    ]);
+    expect(diffTripFields(trip, { start_km: 10200, remarks: undefined })).toEqual([]);
+  });
+});
+
+describe('formatChangeValue / needsTripApproval', () => {
+  it('formats values for the reviewer and treats non-verifiers as makers', () => {
+    expect(formatChangeValue(null)).toBe('—');
+    expect(formatChangeValue(true)).toBe('Yes');
+    expect(formatChangeValue(['Raipur', 'Durg'])).toBe('Raipur, Durg');
+
+    expect(needsTripApproval(DEFAULT_ROLE_PERMISSIONS.data_entry.permissions)).toBe(true);
+    expect(needsTripApproval(DEFAULT_ROLE_PERMISSIONS.manager.permissions)).toBe(false);
+    expect(needsTripApproval({ trips: ['view', 'edit', 'verify'] })).toBe(false);
+  });
+});
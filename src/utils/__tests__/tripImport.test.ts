@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTripImportErrorReport,
+  buildTripImportRows,
+  findDuplicateTripIds,
+  getMissingImportFields,
+  guessTripImportMapping
+} from '../tripImport';
+import { Destination, Driver, Vehicle, Warehouse } from '../../types';
+
+const masters = {
+  vehicles: [{ id: 'v1', registration_number: 'CG04 AB 1234' }] as Vehicle[],
+  drivers: [
+    { id: 'd1', name: 'Ramesh Kumar' },
+    { id: 'd2', name: 'Suresh' },
+    { id: 'd3', name: 'Suresh' }
+  ] as Driver[],
+  warehouses: [{ id: 'w1', name: 'Raipur Plant' }] as Warehouse[],
+  destinations: [
+    { id: 'dest-1', name: 'Durg' },
+    { id: 'dest-2', name: 'Bhilai' }
+  ] as Destination[]
+};
+
+const sheetRow = (overrides: Record<string, unknown> = {}) => ({
+  'Trip No': 'R-101',
+  'Vehicle No': 'cg-04-ab-1234',
+  'Driver Name': 'ramesh  kumar',
+  'Loading Point': 'Raipur Plant',
+  Destination: 'Durg → Bhilai',
+  Date: '05/06/2025',
+  'End Date': '',
+  'Opening KM': '10,000',
+  'Closing KM': 10240,
+  'Diesel Ltr': 30,
+  'Fuel Cost': '₹2,700',
+  Toll: 'n/a',
+  'Driver Allowance': 500,
+  ...overrides
+});
+
+describe('guessTripImportMapping', () => {
+  it('maps loosely named headers and reports required fields without a column', () => {
+    const mapping = guessTripImportMapping(Object.keys(sheetRow()));
+    expect(mapping).toMatchObject({
+      manual_trip_id: 'Trip No',
+      vehicle: 'Vehicle No',
+      warehouse: 'Loading Point',
+      destinations: 'Destination',
+      trip_start_date: 'Date',
+      start_km: 'Opening KM',
+      fuel_quantity: 'Diesel Ltr',
+      toll_expense: 'Toll',
+      remarks: null
+    });
+    expect(getMissingImportFields(mapping)).toEqual([]);
+
+    expect(getMissingImportFields(guessTripImportMapping(['Vehicle', 'Date'])).map(f => f.field)).toEqual([
+      'driver', 'warehouse', 'destinations', 'start_km', 'end_km'
+    ]);
+  });
+});
+
+describe('buildTripImportRows', () => {
+  const mapping = guessTripImportMapping(Object.keys(sheetRow()));
+
+  it('resolves names to IDs and fills in the trip figures', () => {
+    const [row] = buildTripImportRows([sheetRow()], mapping, masters);
+
+    expect(row.errors).toEqual([]);
+    expect(row.warnings).toEqual([{ field: 'toll_expense', message: '"n/a" is not a number; treated as 0' }]);
+    expect(row.trip).toMatchObject({
+      vehicle_id: 'v1',
+      driver_id: 'd1',
+      warehouse_id: 'w1',
+      manual_trip_id: 'R-101',
+      destinations: ['dest-1', 'dest-2'],
+      destination_display: 'Durg → Bhilai',
+      trip_start_date: '2025-06-05',
+      trip_end_date: '2025-06-05',
+      start_km: 10000,
+      end_km: 10240,
+      refueling_done: true,
+      fuel_rate_per_liter: 90,
+      calculated_kmpl: 8,
+      total_road_expenses: 500
+    });
+  });
+
+  it('explains rows that cannot be resolved', () => {
+    const [row] = buildTripImportRows([sheetRow({
+      'Vehicle No': 'MH12XY0001',
+      'Driver Name': 'Suresh',
+      Destination: 'Durg, Korba',
+      'Closing KM': 9000
+    })], mapping, masters);
+
+    expect(row.trip).toBeNull();
+    expect(row.errors.map(e => e.message)).toEqual([
+      'Vehicle MH12XY0001 is not in the fleet',
+      'Driver "Suresh" matches 2 records',
+      'Destination "Korba" not found',
+      'End KM (9000) is below start KM (10000)'
+    ]);
+  });
+});
+
+describe('findDuplicateTripIds / buildTripImportErrorReport', () => {
+  it('flags trip IDs already saved or repeated in the file', () => {
+    const mapping = guessTripImportMapping(Object.keys(sheetRow()));
+    const rows = buildTripImportRows(
+      [sheetRow(), sheetRow({ 'Trip No': 'r-101 ' }), sheetRow({ 'Trip No': 'T25-1234-0004' })],
+      mapping,
+      masters
+    );
+    const duplicates = findDuplicateTripIds(rows, [
+      { vehicle_id: 'v1', trip_start_date: '2025-05-01', start_km: 9000, end_km: 9100, trip_serial_number: 'T25-1234-0004' }
+    ]);
+
+    expect([...duplicates.entries()]).toEqual([
+      [3, 'Trip ID r-101 is repeated from row 2'],
+      [4, 'Trip ID T25-1234-0004 is already used by trip T25-1234-0004']
+    ]);
+
+    expect(buildTripImportErrorReport(rows)[0]).toEqual({
+      row: 2,
+      vehicle: 'CG04 AB 1234',
+      start_date: '2025-06-05',
+      errors: '',
+      warnings: '"n/a" is not a number; treated as 0'
+    });
+  });
+});
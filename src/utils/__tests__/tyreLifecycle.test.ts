@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTyreEvent,
+  compareTyreBrands,
+  encodeTyrePosition,
+  getTyreKm,
+  getTyrePositionLabel,
+  getVehicleTyrePositions,
+  parseTyrePosition,
+  summarizeTyreLife,
+  validateTyreEvent
+} from '../tyreLifecycle';
+import { Tyre, TyreEvent } from '../../types';
+
+const tyre = (overrides: Partial<Tyre>): Tyre => ({
+  id: 'tyre-1',
+  organization_id: 'org-1',
+  serial_number: 'MRF001',
+  brand: 'MRF',
+  purchase_cost: 20000,
+  status: 'in_stock',
+  retread_count: 0,
+  ...overrides
+});
+
+let eventId = 0;
+const event = (overrides: Partial<TyreEvent>): TyreEvent => ({
+  id: `event-${++eventId}`,
+  organization_id: 'org-1',
+  tyre_id: 'tyre-1',
+  vehicle_id: 'v1',
+  event_type: 'fitted',
+  event_date: '2025-01-01',
+  ...overrides
+});
+
+describe('tyre positions', () => {
+  it('encodes and labels positions', () => {
+    expect(encodeTyrePosition({ axle: 2, side: 'L', placement: 'outer' })).toBe('2LO');
+    expect(parseTyrePosition('1R')).toEqual({ axle: 1, side: 'R', placement: 'single' });
+    expect(getTyrePositionLabel('3RI')).toBe('Axle 3 Right Inner');
+    expect(getTyrePositionLabel('SPARE')).toBe('Spare');
+  });
+
+  it('lays out single steer axle and dual rear axles', () => {
+    expect(getVehicleTyrePositions(6)).toEqual(['1L', '1R', '2LO', '2LI', '2RI', '2RO']);
+    expect(getVehicleTyrePositions(10)).toHaveLength(10);
+    expect(getVehicleTyrePositions(4)).toEqual(['1L', '1R', '2L', '2R']);
+    expect(getVehicleTyrePositions(12).slice(-2)).toEqual(['4L', '4R']);
+  });
+});
+
+describe('tyre events', () => {
+  it('requires a stock tyre, vehicle, position and odometer to fit', () => {
+    const fit = { event_type: 'fitted' as const, event_date: '2025-01-01', vehicle_id: 'v1', to_position: '1L', odometer: 1000 };
+
+    expect(validateTyreEvent(tyre({}), fit)).toBeNull();
+    expect(validateTyreEvent(tyre({}), { ...fit, odometer: null })).toBe('Odometer reading is required');
+    expect(validateTyreEvent(tyre({ status: 'fitted' }), fit)).toBe('Only tyres in stock can be fitted');
+  });
+
+  it('does not fit a tyre to an occupied position', () => {
+    const fit = { event_type: 'fitted' as const, event_date: '2025-01-01', vehicle_id: 'v1', to_position: '1L', odometer: 1000 };
+    expect(validateTyreEvent(tyre({}), fit, { serial_number: 'MRF002' })).toBe('Axle 1 Left already has tyre MRF002');
+  });
+
+  it('only retreads tyres that have been removed', () => {
+    const retread = { event_type: 'retreaded' as const, event_date: '2025-01-01', cost: 4000 };
+    expect(validateTyreEvent(tyre({ status: 'fitted', vehicle_id: 'v1' }), retread)).not.toBeNull();
+    expect(applyTyreEvent(tyre({ retread_count: 1 }), retread)).toEqual({ retread_count: 2 });
+  });
+
+  it('clears the fitment when a tyre is scrapped', () => {
+    const scrapped = applyTyreEvent(
+      tyre({ status: 'fitted', vehicle_id: 'v1', position: '2LO' }),
+      { event_type: 'scrapped', event_date: '2025-06-01', odometer: 50000, reason: 'Worn out' }
+    );
+    expect(scrapped).toEqual({ status: 'scrapped', vehicle_id: null, position: null, scrap_reason: 'Worn out' });
+  });
+});
+
+describe('tyre life', () => {
+  const history = [
+    event({ event_type: 'fitted', event_date: '2025-01-01', odometer: 10000, to_position: '1L' }),
+    event({ event_type: 'rotated', event_date: '2025-02-01', odometer: 15000, from_position: '1L', to_position: '2LO' }),
+    event({ event_type: 'removed', event_date: '2025-03-01', odometer: 30000 }),
+    event({ event_type: 'retreaded', event_date: '2025-03-10', cost: 5000 }),
+    event({ event_type: 'fitted', event_date: '2025-04-01', vehicle_id: 'v2', odometer: 80000, to_position: '2RI' })
+  ];
+
+  it('adds every stint, counting an open one to the current odometer', () => {
+    const fitted = tyre({ status: 'fitted', vehicle_id: 'v2' });
+    expect(getTyreKm(fitted, history, { v2: 90000 })).toBe(30000);
+  });
+
+  it('includes retread costs in cost per km', () => {
+    const summary = summarizeTyreLife(tyre({ status: 'fitted', vehicle_id: 'v2' }), history, { v2: 90000 });
+    expect(summary).toMatchObject({ total_km: 30000, total_cost: 25000, cost_per_km: 0.83 });
+  });
+
+  it('ranks brands by cost per km', () => {
+    const tyres = [
+      tyre({ id: 'a', brand: 'MRF', status: 'scrapped' }),
+      tyre({ id: 'b', brand: 'Apollo', status: 'scrapped', purchase_cost: 18000 })
+    ];
+    const events = [
+      event({ tyre_id: 'a', odometer: 0 }),
+      event({ tyre_id: 'a', event_type: 'scrapped', event_date: '2025-06-01', odometer: 40000 }),
+      event({ tyre_id: 'b', odometer: 0 }),
+      event({ tyre_id: 'b', event_type: 'scrapped', event_date: '2025-06-01', odometer: 60000 })
+    ];
+
+    const comparison = compareTyreBrands(tyres, events, {});
+    expect(comparison.map(b => b.brand)).toEqual(['Apollo', 'MRF']);
+    expect(comparison[0]).toMatchObject({ average_scrapped_km: 60000, cost_per_km: 0.3 });
+  });
+});
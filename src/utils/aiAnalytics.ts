@@ -44,7 +44,7 @@ const checkMileageAnomaly = async (trip: Trip): Promise<AIAlert | null> => {
     }
     // Get all trips for this vehicle with valid mileage data
     const { data: vehicleTrips, error } = await supabase
-      .from("trips")
+      .from("trips_visible")
       .select("*")
       .eq("created_by", user.id)
       .eq("vehicle_id", trip.vehicle_id)
@@ -406,7 +406,7 @@ export const runAlertScan = async (): Promise<number> => {
   try {
     // 1. Fetch necessary data
     const { data: tripsData, error: tripsError } = await supabase
-      .from("trips")
+      .from("trips_visible")
       .select("*")
       .eq("created_by", user.id)
       .order("trip_end_date", { ascending: false })
@@ -0,0 +1,143 @@
+import { supabase } from '../supabaseClient';
+import { AvailabilityBlock, Driver, DriverLeave, DriverLeaveFormData, ResourceAvailability, Vehicle } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { AvailabilityTrip, buildAvailabilityBlocks, getResourceAvailability } from '../availability';
+import { getOpenMaintenanceTasks, getPlannedTrips } from './plannedTrips';
+import { getVehicles } from './vehicles';
+import { getDrivers } from './drivers';
+
+const logger = createLogger('availability');
+
+/**
+ * Leave periods overlapping the given dates
+ */
+export const getDriverLeaves = async (from: string, to: string): Promise<DriverLeave[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('driver_leaves')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .lte('start_date', to)
+      .gte('end_date', from)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch driver leaves', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching driver leaves:', error);
+    return [];
+  }
+};
+
+export const createDriverLeave = async (leaveData: DriverLeaveFormData): Promise<DriverLeave> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('driver_leaves')
+    .insert(withOwner({ ...leaveData, reason: leaveData.reason || null }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('create driver leave', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteDriverLeave = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('driver_leaves')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('delete driver leave', error);
+    throw error;
+  }
+};
+
+const TRIP_BATCH_SIZE = 1000;
+
+// Trips overlapping the dates, including ones still running, read in pages
+// past the API row limit. Errors are thrown so a failed read never shows a
+// busy vehicle or driver as free.
+const getTripsInRange = async (from: string, to: string): Promise<AvailabilityTrip[]> => {
+  const { organizationId } = await getOrganizationContext();
+  const trips: AvailabilityTrip[] = [];
+
+  for (let start = 0; ; start += TRIP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('trips_visible')
+      .select('id, vehicle_id, driver_id, trip_start_date, trip_end_date, trip_serial_number')
+      .eq('organization_id', organizationId)
+      .lte('trip_start_date', `${to}T23:59:59`)
+      .or(`trip_end_date.is.null,trip_end_date.gte.${from}`)
+      .order('trip_start_date', { ascending: true })
+      .order('id')
+      .range(start, start + TRIP_BATCH_SIZE - 1);
+
+    if (error) {
+      logger.error('Error fetching trips for availability:', error);
+      handleSupabaseError('fetch trips for availability', error);
+      throw error;
+    }
+
+    trips.push(...(data || []));
+    if (!data || data.length < TRIP_BATCH_SIZE) return trips;
+  }
+};
+
+/**
+ * Trips, plans, maintenance, leave and statuses keeping vehicles and drivers
+ * busy between the two dates
+ */
+export const getAvailabilityBlocks = async (
+  from: string,
+  to: string,
+  resources?: { vehicles: Vehicle[]; drivers: Driver[] }
+): Promise<AvailabilityBlock[]> => {
+  const [vehicles, drivers, trips, plannedTrips, maintenanceTasks, leaves] = await Promise.all([
+    resources ? resources.vehicles : getVehicles(),
+    resources ? resources.drivers : getDrivers(),
+    getTripsInRange(from, to),
+    getPlannedTrips(from, to),
+    getOpenMaintenanceTasks(),
+    getDriverLeaves(from, to)
+  ]);
+
+  return buildAvailabilityBlocks({
+    vehicles,
+    drivers,
+    trips,
+    plannedTrips,
+    maintenanceTasks,
+    leaves
+  });
+};
+
+/**
+ * Which vehicles and drivers are free for the whole period, and what keeps
+ * the others busy
+ */
+export const getFreeResources = async (
+  from: string,
+  to: string
+): Promise<{ vehicles: ResourceAvailability<Vehicle>; drivers: ResourceAvailability<Driver> }> => {
+  const [vehicles, drivers] = await Promise.all([getVehicles(), getDrivers()]);
+  const blocks = await getAvailabilityBlocks(from, to, { vehicles, drivers });
+
+  return {
+    vehicles: getResourceAvailability(vehicles.filter(v => v.status !== 'archived'), 'vehicle', blocks, from, to),
+    drivers: getResourceAvailability(drivers, 'driver', blocks, from, to)
+  };
+};
@@ -0,0 +1,170 @@
+import { supabase } from '../supabaseClient';
+import { FetchedChallan, VehicleChallan } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { buildChallanRecords } from '../challans';
+
+const logger = createLogger('challans');
+
+const CHALLAN_SELECT = '*, driver:drivers(id, name), trip:trips(id, trip_serial_number)';
+
+const normalizeRegistration = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+const fetchChallans = async (
+  column: 'vehicle_id' | 'driver_id',
+  id: string,
+  action: string
+): Promise<VehicleChallan[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('traffic_challans')
+      .select(CHALLAN_SELECT)
+      .eq(column, id)
+      .order('challan_date', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      handleSupabaseError(action, error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error(`Error trying to ${action}:`, error);
+    return [];
+  }
+};
+
+export const getVehicleChallans = (vehicleId: string) =>
+  fetchChallans('vehicle_id', vehicleId, 'fetch vehicle challans');
+
+export const getDriverChallans = (driverId: string) =>
+  fetchChallans('driver_id', driverId, 'fetch driver challans');
+
+/**
+ * Store the result of a challan lookup against the vehicle, matching each
+ * challan to the trip and driver active on its date. Trips are matched in
+ * attribute_traffic_challans, which sees every trip of the vehicle; the
+ * primary driver is the fallback.
+ */
+export const saveFetchedChallans = async (
+  registrationNumber: string,
+  fetched: FetchedChallan[]
+): Promise<VehicleChallan[]> => {
+  if (fetched.length === 0) return [];
+
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data: vehicles, error: vehicleError } = await supabase
+    .from('vehicles')
+    .select('id, registration_number, primary_driver_id')
+    .eq('organization_id', organizationId);
+
+  if (vehicleError) {
+    handleSupabaseError('find vehicle for challans', vehicleError);
+    throw vehicleError;
+  }
+
+  const vehicle = (vehicles || []).find(
+    v => normalizeRegistration(v.registration_number || '') === normalizeRegistration(registrationNumber)
+  );
+  if (!vehicle) {
+    logger.warn(`No vehicle ${registrationNumber} in this organization; challans not stored`);
+    return [];
+  }
+
+  const existingResult = await supabase
+    .from('traffic_challans')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .in('challan_no', fetched.map(c => c.challan_no).filter(Boolean));
+
+  if (existingResult.error) {
+    handleSupabaseError('fetch stored challans', existingResult.error);
+    throw existingResult.error;
+  }
+
+  const records = buildChallanRecords(
+    fetched,
+    {
+      vehicle_id: vehicle.id,
+      registration_number: vehicle.registration_number,
+      primary_driver_id: vehicle.primary_driver_id,
+      trips: []
+    },
+    existingResult.data || []
+  );
+
+  const { error: saveError } = await supabase
+    .from('traffic_challans')
+    .upsert(
+      records.map(record => withOwner(record, userId, organizationId)),
+      { onConflict: 'organization_id,challan_no' }
+    );
+
+  if (saveError) {
+    handleSupabaseError('save challans', saveError);
+    throw saveError;
+  }
+
+  const { error: attributeError } = await supabase.rpc('attribute_traffic_challans', {
+    p_vehicle_id: vehicle.id
+  });
+
+  if (attributeError) {
+    handleSupabaseError('match challans to trips', attributeError);
+    throw attributeError;
+  }
+
+  const { data, error } = await supabase
+    .from('traffic_challans')
+    .select(CHALLAN_SELECT)
+    .eq('organization_id', organizationId)
+    .in('challan_no', records.map(record => record.challan_no));
+
+  if (error) {
+    handleSupabaseError('fetch saved challans', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Record a payment towards a challan. The amount is added in the database so
+ * concurrent payments are not lost, and more than the outstanding amount is
+ * rejected.
+ */
+export const recordChallanPayment = async (
+  challan: VehicleChallan,
+  amount: number,
+  reference?: string
+): Promise<VehicleChallan> => {
+  if (amount <= 0) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+
+  const { error: paymentError } = await supabase.rpc('record_challan_payment', {
+    p_challan_id: challan.id,
+    p_amount: amount,
+    p_reference: reference || null
+  });
+
+  if (paymentError) {
+    handleSupabaseError('record challan payment', paymentError);
+    throw paymentError;
+  }
+
+  const { data, error } = await supabase
+    .from('traffic_challans')
+    .select(CHALLAN_SELECT)
+    .eq('id', challan.id)
+    .single();
+
+  if (error) {
+    handleSupabaseError('fetch challan', error);
+    throw error;
+  }
+
+  return data;
+};
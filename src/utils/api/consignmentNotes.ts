@@ -0,0 +1,106 @@
+import { supabase } from '../supabaseClient';
+import { ConsignmentNote, ConsignmentNoteFormData, Trip, TripEwayBill } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { getFinancialYear } from '../gstInvoice';
+
+const logger = createLogger('consignmentNotes');
+
+/**
+ * Consignment notes issued for a trip, oldest first
+ */
+export const getTripConsignmentNotes = async (tripId: string): Promise<ConsignmentNote[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('consignment_notes')
+      .select('*')
+      .eq('trip_id', tripId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch consignment notes', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching consignment notes:', error);
+    return [];
+  }
+};
+
+/**
+ * Issue a consignment note, taking the next LR number in the financial year
+ */
+export const createConsignmentNote = async (data: ConsignmentNoteFormData): Promise<ConsignmentNote> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  // Numbered and inserted in one transaction so an LR number is never skipped
+  const { data: note, error } = await supabase.rpc('create_consignment_note', {
+    p_note: withOwner({
+      ...data,
+      consignor_gstin: data.consignor_gstin?.trim().toUpperCase() || null,
+      consignee_gstin: data.consignee_gstin?.trim().toUpperCase() || null,
+      financial_year: getFinancialYear(data.lr_date)
+    }, userId, organizationId)
+  });
+
+  if (error) {
+    handleSupabaseError('create consignment note', error);
+    throw error;
+  }
+
+  return note;
+};
+
+/**
+ * Cancel an LR. Notes are never deleted so the LR sequence has no gaps.
+ */
+export const cancelConsignmentNote = async (id: string): Promise<ConsignmentNote> => {
+  const { data, error } = await supabase
+    .from('consignment_notes')
+    .update({ status: 'cancelled' })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('cancel consignment note', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Record the e-way bill generated on the portal against the trip
+ */
+export const updateTripEwayBill = async (tripId: string, ewayBill: TripEwayBill): Promise<Trip> => {
+  const { error: updateError } = await supabase
+    .from('trips')
+    .update({
+      eway_bill_number: ewayBill.eway_bill_number?.trim() || null,
+      eway_bill_date: ewayBill.eway_bill_date,
+      eway_bill_valid_until: ewayBill.eway_bill_valid_until
+    })
+    .eq('id', tripId);
+
+  if (updateError) {
+    handleSupabaseError('update e-way bill', updateError);
+    throw updateError;
+  }
+
+  const { data, error } = await supabase
+    .from('trips_visible')
+    .select('*')
+    .eq('id', tripId)
+    .single();
+
+  if (error) {
+    handleSupabaseError('update e-way bill', error);
+    throw error;
+  }
+
+  return data;
+};
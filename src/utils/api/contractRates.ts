@@ -0,0 +1,173 @@
+import { supabase } from '../supabaseClient';
+import { ContractRate, ContractRateCriteria, ContractRateFormData } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { resolveContractRate } from '../contractRateResolver';
+
+const logger = createLogger('contractRates');
+
+// Empty strings from form selects must be stored as NULL so they don't
+// narrow contract matching
+const sanitizeContractRate = (rate: Partial<ContractRateFormData>) => ({
+  ...rate,
+  customer_id: rate.customer_id || null,
+  warehouse_id: rate.warehouse_id || null,
+  destination_id: rate.destination_id || null,
+  vehicle_type: rate.vehicle_type || null,
+  route: rate.route || null,
+  valid_to: rate.valid_to || null,
+  min_guarantee: rate.min_guarantee || null,
+  base_fuel_price: rate.fuel_adjustment ? rate.base_fuel_price || null : null,
+  fuel_cost_share: rate.fuel_adjustment ? rate.fuel_cost_share || null : null,
+});
+
+/**
+ * Fetch all contract rates for the active organization
+ */
+export const getContractRates = async (): Promise<ContractRate[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('contract_rates')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('active', true)
+      .order('valid_from', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch contract rates', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching contract rates:', error);
+    return [];
+  }
+};
+
+export const createContractRate = async (rateData: ContractRateFormData): Promise<ContractRate> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('contract_rates')
+    .insert(withOwner({ ...sanitizeContractRate(rateData), active: true }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('create contract rate', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateContractRate = async (
+  id: string,
+  updates: Partial<ContractRateFormData>
+): Promise<ContractRate> => {
+  const { data, error } = await supabase
+    .from('contract_rates')
+    .update(sanitizeContractRate(updates))
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('update contract rate', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Soft-delete a contract so trips that reference it keep their history
+ */
+export const deleteContractRate = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('contract_rates')
+    .update({ active: false })
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('delete contract rate', error);
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Find the contract that applies to a trip, if any
+ */
+export const findApplicableContractRate = async (
+  criteria: ContractRateCriteria
+): Promise<ContractRate | null> => {
+  const contracts = await getContractRates();
+  return resolveContractRate(contracts, criteria);
+};
+
+// Contracts were kept in this browser's storage before they moved to the database
+const LEGACY_CONTRACTS_KEY = 'contract_rates';
+
+/**
+ * Contracts still sitting in this browser's storage from before they were
+ * saved to the database
+ */
+export const getLegacyContractRates = (): ContractRateFormData[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEGACY_CONTRACTS_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .filter(contract => contract && contract.rate && contract.valid_from)
+      .map(contract => ({
+        customer_id: contract.customer_id || undefined,
+        customer_name: contract.customer_name || contract.customer_id || 'Unknown customer',
+        route: contract.route,
+        vehicle_type: contract.vehicle_type,
+        rate_type: contract.rate_type || 'per_km',
+        rate: Number(contract.rate),
+        valid_from: contract.valid_from,
+        valid_to: contract.valid_to,
+        min_guarantee: contract.min_guarantee,
+        fuel_adjustment: false,
+        notes: contract.notes
+      }));
+  } catch (error) {
+    logger.error('Error reading locally saved contract rates:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the browser's legacy contracts to the organization. Contracts that
+ * fail stay in storage so the import can be retried.
+ */
+export const importLegacyContractRates = async (): Promise<ContractRate[]> => {
+  const imported: ContractRate[] = [];
+  const failed: ContractRateFormData[] = [];
+
+  for (const contract of getLegacyContractRates()) {
+    try {
+      imported.push(await createContractRate(contract));
+    } catch (error) {
+      logger.error('Error importing contract rate:', error);
+      failed.push(contract);
+    }
+  }
+
+  if (failed.length > 0) {
+    localStorage.setItem(LEGACY_CONTRACTS_KEY, JSON.stringify(failed));
+  } else {
+    localStorage.removeItem(LEGACY_CONTRACTS_KEY);
+  }
+
+  return imported;
+};
+
+export const discardLegacyContractRates = () => localStorage.removeItem(LEGACY_CONTRACTS_KEY);
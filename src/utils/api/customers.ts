@@ -0,0 +1,113 @@
+import { supabase } from '../supabaseClient';
+import { Customer, CustomerFormData } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+
+const logger = createLogger('customers');
+
+const sanitizeCustomer = (customer: Partial<CustomerFormData>) => ({
+  ...customer,
+  ...(customer.name !== undefined && { name: customer.name.trim() }),
+  ...(customer.gstin !== undefined && { gstin: customer.gstin?.replace(/\s/g, '').toUpperCase() || null }),
+  ...(customer.pan !== undefined && { pan: customer.pan?.toUpperCase() || null }),
+});
+
+/**
+ * Fetch customers for the active organization
+ */
+export const getCustomers = async (includeInactive: boolean = false): Promise<Customer[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    let query = supabase
+      .from('customers')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name');
+
+    if (!includeInactive) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      handleSupabaseError('fetch customers', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching customers:', error);
+    return [];
+  }
+};
+
+export const getCustomer = async (id: string): Promise<Customer | null> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    handleSupabaseError('fetch customer', error);
+    return null;
+  }
+
+  return data;
+};
+
+export const createCustomer = async (customerData: CustomerFormData): Promise<Customer> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('customers')
+    .insert(withOwner({ ...sanitizeCustomer(customerData), active: true }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('create customer', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateCustomer = async (
+  id: string,
+  updates: Partial<CustomerFormData>
+): Promise<Customer> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .update(sanitizeCustomer(updates))
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('update customer', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Deactivate a customer; trips and contracts keep their reference
+ */
+export const deactivateCustomer = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('customers')
+    .update({ active: false })
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('deactivate customer', error);
+    return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,162 @@
+import { supabase } from '../supabaseClient';
+import {
+  DocumentReviewItem,
+  DocumentReviewStatus,
+  DocumentVerification,
+  DocumentVerificationRun
+} from '../../types';
+import { getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { getReviewItemUpdate } from '../documentVerification';
+
+const logger = createLogger('documentVerification');
+
+const REVIEW_ITEM_SELECT = '*, vehicle:vehicles(id, registration_number), driver:drivers(id, name)';
+
+export const getDocumentVerificationRuns = async (limit = 10): Promise<DocumentVerificationRun[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('document_verification_runs')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError('fetch document verification runs', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching document verification runs:', error);
+    return [];
+  }
+};
+
+export const getDocumentReviewItems = async (
+  statuses: DocumentReviewStatus[] = ['open']
+): Promise<DocumentReviewItem[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('document_review_items')
+      .select(REVIEW_ITEM_SELECT)
+      .eq('organization_id', organizationId)
+      .in('status', statuses)
+      .order('last_detected_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch document review items', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching document review items:', error);
+    return [];
+  }
+};
+
+/**
+ * Verification history of one vehicle or driver, newest first
+ */
+export const getDocumentVerificationHistory = async (
+  entity: { vehicleId?: string; driverId?: string },
+  limit = 20
+): Promise<DocumentVerification[]> => {
+  try {
+    const column = entity.vehicleId ? 'vehicle_id' : 'driver_id';
+    const { data, error } = await supabase
+      .from('document_verifications')
+      .select('*')
+      .eq(column, entity.vehicleId || entity.driverId)
+      .order('checked_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError('fetch document verification history', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching document verification history:', error);
+    return [];
+  }
+};
+
+/**
+ * Close a review item, copying the government value onto the vehicle or
+ * driver when accepted
+ */
+export const resolveDocumentReviewItem = async (
+  item: DocumentReviewItem,
+  resolution: 'accepted' | 'dismissed',
+  note?: string
+): Promise<DocumentReviewItem> => {
+  const { userId } = await getOrganizationContext();
+
+  if (resolution === 'accepted') {
+    const update = getReviewItemUpdate(item);
+    const { error: recordError } = await supabase
+      .from(update.table)
+      .update(update.payload)
+      .eq('id', update.id);
+
+    if (recordError) {
+      handleSupabaseError('apply government value', recordError);
+      throw recordError;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('document_review_items')
+    .update({
+      status: resolution,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+      resolution_note: note || null
+    })
+    .eq('id', item.id)
+    .select(REVIEW_ITEM_SELECT)
+    .single();
+
+  if (error) {
+    handleSupabaseError('resolve document review item', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Run the re-verification job now for the current organization
+ */
+export const runDocumentReverification = async (): Promise<DocumentVerificationRun | null> => {
+  const { organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase.functions.invoke('reverify-documents', {
+    body: { organization_id: organizationId }
+  });
+
+  if (error || !data?.success) {
+    logger.error('Document re-verification failed:', error || data);
+    throw new Error(data?.message || error?.message || 'Re-verification failed');
+  }
+
+  const runId = data.runs?.[0]?.run_id;
+  if (!runId) return null;
+
+  const { data: run } = await supabase
+    .from('document_verification_runs')
+    .select('*')
+    .eq('id', runId)
+    .maybeSingle();
+
+  return run;
+};
@@ -0,0 +1,70 @@
+import { supabase } from '../supabaseClient';
+import { DriverLedgerEntry, DriverLedgerEntryFormData } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+
+const logger = createLogger('driverLedger');
+
+/**
+ * Fetch manual ledger entries (advances, settlements, adjustments) for a driver
+ */
+export const getDriverLedgerEntries = async (driverId: string): Promise<DriverLedgerEntry[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('driver_ledger_entries')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('driver_id', driverId)
+      .order('entry_date', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch driver ledger', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching driver ledger:', error);
+    return [];
+  }
+};
+
+export const createDriverLedgerEntry = async (
+  entryData: DriverLedgerEntryFormData
+): Promise<DriverLedgerEntry> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('driver_ledger_entries')
+    .insert(withOwner({ ...entryData, trip_id: entryData.trip_id || null }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('record driver ledger entry', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Cancel an entry with a reversing adjustment; entries are never deleted so
+ * the statement keeps a record of cash that changed hands
+ */
+export const reverseDriverLedgerEntry = async (id: string, reason?: string): Promise<DriverLedgerEntry> => {
+  const { data, error } = await supabase.rpc('reverse_driver_ledger_entry', {
+    p_entry_id: id,
+    p_reason: reason || null
+  });
+
+  if (error) {
+    handleSupabaseError('reverse driver ledger entry', error);
+    throw error;
+  }
+
+  return data;
+};
@@ -0,0 +1,192 @@
+import { supabase } from '../supabaseClient';
+import { DriverLeaderboard, DriverRankingPeriod, DriverRankingSettings } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { getAllDriversIncludingInactive } from './drivers';
+import {
+  DEFAULT_DRIVER_RANKING_SETTINGS,
+  buildDriverLeaderboard,
+  getRankingPeriodRange,
+  isLeaderboardStale
+} from '../driverRating';
+
+const logger = createLogger('driverRanking');
+
+const RANKING_TRIP_COLUMNS = [
+  'driver_id', 'vehicle_id', 'trip_start_date', 'trip_end_date', 'start_km', 'end_km',
+  'fuel_quantity', 'calculated_kmpl', 'breakdown_expense', 'total_expense',
+  'total_fuel_cost', 'total_road_expenses'
+].join(', ');
+
+const TRIP_BATCH_SIZE = 1000;
+
+type RankingTrip = Parameters<typeof buildDriverLeaderboard>[1][number];
+
+// A busy fleet runs past the 1000 row API limit in a month, so trips are read in batches
+const getRankingTrips = async (organizationId: string, start: string, end: string): Promise<RankingTrip[]> => {
+  const trips: RankingTrip[] = [];
+
+  for (let offset = 0; ; offset += TRIP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('trips_visible')
+      .select(RANKING_TRIP_COLUMNS)
+      .eq('organization_id', organizationId)
+      .gte('trip_start_date', start)
+      .lte('trip_start_date', `${end}T23:59:59`)
+      .order('trip_start_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + TRIP_BATCH_SIZE - 1);
+
+    if (error) {
+      handleSupabaseError('fetch trips for driver leaderboard', error);
+      throw error;
+    }
+
+    trips.push(...((data || []) as unknown as RankingTrip[]));
+    if (!data || data.length < TRIP_BATCH_SIZE) return trips;
+  }
+};
+
+/**
+ * Fetch the organization's ranking settings, falling back to the defaults
+ * for anything not configured yet
+ */
+export const getDriverRankingSettings = async (): Promise<DriverRankingSettings> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('driver_ranking_settings')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      handleSupabaseError('fetch driver ranking settings', error);
+      return DEFAULT_DRIVER_RANKING_SETTINGS;
+    }
+
+    if (!data) return DEFAULT_DRIVER_RANKING_SETTINGS;
+
+    return {
+      ...DEFAULT_DRIVER_RANKING_SETTINGS,
+      ...data,
+      weights: { ...DEFAULT_DRIVER_RANKING_SETTINGS.weights, ...data.weights }
+    };
+  } catch (error) {
+    logger.error('Error fetching driver ranking settings:', error);
+    return DEFAULT_DRIVER_RANKING_SETTINGS;
+  }
+};
+
+export const saveDriverRankingSettings = async (
+  settings: DriverRankingSettings
+): Promise<DriverRankingSettings> => {
+  const { userId, organizationId } = await getOrganizationContext();
+  const { id: _id, organization_id: _orgId, ...values } = settings;
+
+  const { data, error } = await supabase
+    .from('driver_ranking_settings')
+    .upsert(
+      withOwner({ ...values, updated_at: new Date().toISOString() }, userId, organizationId),
+      { onConflict: 'organization_id' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('save driver ranking settings', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const getDriverLeaderboard = async (
+  periodType: DriverRankingPeriod,
+  periodStart: string
+): Promise<DriverLeaderboard | null> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('driver_leaderboards')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('period_type', periodType)
+      .eq('period_start', periodStart)
+      .maybeSingle();
+
+    if (error) {
+      handleSupabaseError('fetch driver leaderboard', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    logger.error('Error fetching driver leaderboard:', error);
+    return null;
+  }
+};
+
+/**
+ * Recompute and store the leaderboard for the period containing the given date
+ */
+export const refreshDriverLeaderboard = async (
+  periodType: DriverRankingPeriod,
+  date: Date = new Date(),
+  settings?: DriverRankingSettings
+): Promise<DriverLeaderboard> => {
+  const { userId, organizationId } = await getOrganizationContext();
+  const { start, end } = getRankingPeriodRange(periodType, date);
+
+  const [rankingSettings, drivers, trips] = await Promise.all([
+    settings ? Promise.resolve(settings) : getDriverRankingSettings(),
+    getAllDriversIncludingInactive(),
+    getRankingTrips(organizationId, start, end)
+  ]);
+
+  const entries = buildDriverLeaderboard(drivers, trips, rankingSettings);
+
+  const { data, error } = await supabase
+    .from('driver_leaderboards')
+    .upsert(
+      withOwner({
+        period_type: periodType,
+        period_start: start,
+        period_end: end,
+        entries,
+        computed_at: new Date().toISOString()
+      }, userId, organizationId),
+      { onConflict: 'organization_id,period_type,period_start' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('save driver leaderboard', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Leaderboard for the current period, recomputed when the stored one is stale
+ */
+export const getCurrentDriverLeaderboard = async (
+  periodType: DriverRankingPeriod
+): Promise<DriverLeaderboard | null> => {
+  const { start } = getRankingPeriodRange(periodType);
+  const stored = await getDriverLeaderboard(periodType, start);
+
+  if (stored && !isLeaderboardStale(stored)) return stored;
+
+  try {
+    return await refreshDriverLeaderboard(periodType);
+  } catch (error) {
+    logger.error('Error refreshing driver leaderboard:', error);
+    return stored;
+  }
+};
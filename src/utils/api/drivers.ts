@@ -2,6 +2,7 @@ import { supabase, isNetworkError } from '../supabaseClient';
 import config from '../env';
 import { Driver, DriverSummary } from '../../types';
 import { getCurrentUserId, withOwner, getUserActiveOrganization } from '../supaHelpers';
+import { canCurrentUser, requirePermission, stripHiddenFields } from './permissions';
 import { handleSupabaseError } from '../errors';
 import { createLogger } from '../logger';
 
@@ -34,8 +35,12 @@ export const getDrivers = async (): Promise<Driver[]> => {
       return [];
     }
 
+    if (!(await canCurrentUser('drivers'))) {
+      return [];
+    }
+
     const { data, error } = await supabase
-      .from('drivers')
+      .from('drivers_visible')
       .select(DRIVER_COLS)
       .eq('organization_id', organizationId)
       .order('created_at', { ascending: false });
@@ -81,7 +86,7 @@ export const getDriverSummaries = async (): Promise<DriverSummary[]> => {
     }
 
     const { data, error } = await supabase
-      .from('drivers')
+      .from('drivers_visible')
       .select('id,name')
       .eq('organization_id', organizationId)
       .order('created_at', { ascending: false });
@@ -126,8 +131,12 @@ export const getAllDriversIncludingInactive = async (): Promise<Driver[]> => {
       return [];
     }
 
+    if (!(await canCurrentUser('drivers'))) {
+      return [];
+    }
+
     const { data, error } = await supabase
-      .from('drivers')
+      .from('drivers_visible')
       .select(DRIVER_COLS)
       .eq('organization_id', organizationId)
       .order('name', { ascending: true });
@@ -150,7 +159,7 @@ export const getAllDriversIncludingInactive = async (): Promise<Driver[]> => {
 
 export const getDriver = async (id: string): Promise<Driver | null> => {
   const { data, error } = await supabase
-    .from('drivers')
+    .from('drivers_visible')
     .select(DRIVER_COLS)
     .eq('id', id)
     .single();
@@ -175,7 +184,8 @@ export const createDriver = async (driverData: Omit<Driver, 'id'>): Promise<Driv
       throw new Error('No organization selected. Please select an organization.');
     }
 
-    const payload = withOwner(driverData as any, userId, organizationId);
+    await requirePermission('drivers', 'create');
+    const payload = withOwner(await stripHiddenFields(driverData) as any, userId, organizationId);
 
     // Debug: Log the payload before processing
     logger.debug('Driver creation payload before processing:', payload);
@@ -195,10 +205,11 @@ export const createDriver = async (driverData: Omit<Driver, 'id'>): Promise<Driv
     // Debug: Log the final payload
     logger.debug('Driver creation payload after processing:', payload);
 
-    const { data, error } = await supabase
+    // Salary is read back through drivers_visible
+    const { data: saved, error } = await supabase
       .from('drivers')
       .insert(payload)
-      .select(DRIVER_COLS)
+      .select('id')
       .single();
 
     if (error) {
@@ -213,7 +224,7 @@ export const createDriver = async (driverData: Omit<Driver, 'id'>): Promise<Driv
       throw error;
     }
 
-    return data;
+    return getDriver(saved.id);
   } catch (error) {
     handleSupabaseError('create driver', error);
     throw error;
@@ -222,8 +233,10 @@ export const createDriver = async (driverData: Omit<Driver, 'id'>): Promise<Driv
 
 export const updateDriver = async (id: string, updates: Partial<Driver>): Promise<Driver | null> => {
   try {
+    await requirePermission('drivers', 'edit');
+
     // Remove file fields that shouldn't be sent to the database
-    const payload = { ...updates };
+    const payload = await stripHiddenFields({ ...updates });
     for (const k of Object.keys(payload)) {
       if (k.endsWith('_file')) {
         delete payload[k];
@@ -245,11 +258,11 @@ export const updateDriver = async (id: string, updates: Partial<Driver>): Promis
     // Debug: Log the payload before sending
     logger.debug('Driver update payload:', cleanUpdates);
 
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('drivers')
       .update(cleanUpdates)
       .eq('id', id)
-      .select(DRIVER_COLS)
+      .select('id')
       .single();
 
     if (error) {
@@ -264,7 +277,7 @@ export const updateDriver = async (id: string, updates: Partial<Driver>): Promis
       throw error;
     }
 
-    return data;
+    return getDriver(id);
   } catch (error) {
     handleSupabaseError('update driver', error);
     throw error;
@@ -272,6 +285,8 @@ export const updateDriver = async (id: string, updates: Partial<Driver>): Promis
 };
 
 const deleteDriver = async (id: string): Promise<boolean> => {
+  await requirePermission('drivers', 'delete');
+
   const { error } = await supabase
     .from('drivers')
     .delete()
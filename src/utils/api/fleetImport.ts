@@ -0,0 +1,153 @@
+import { supabase } from '../supabaseClient';
+import {
+  DriverImportDraft,
+  FleetImportEntity,
+  FleetImportInput,
+  FleetImportResult,
+  FleetImportRow,
+  VehicleImportDraft
+} from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { logDataImport } from '../activityLogger';
+import { mergeDlDetails, mergeRcDetails, normalizeLicenseNumber, parseImportDate } from '../fleetImport';
+import { normalizeRegistration } from '../fuelReconciliation';
+
+const logger = createLogger('fleetImport');
+
+// fetch-driver-details takes the date of birth as DD-MM-YYYY
+const toDlDate = (date: string) => date.split('-').reverse().join('-');
+
+const lookup = async (entity: FleetImportEntity, values: Record<string, string>) => {
+  if (entity === 'vehicle') {
+    const { data, error } = await supabase.functions.invoke('fetch-rc-details', {
+      body: { registration_number: normalizeRegistration(values.registration_number || '') }
+    });
+    if (error || !data?.success) throw new Error(data?.message || error?.message || 'No RC details returned');
+    return mergeRcDetails(values, data.data?.response || data.data || {});
+  }
+
+  const dob = parseImportDate(values.date_of_birth || '');
+  if (!dob) throw new Error('date of birth is needed for the DL lookup');
+
+  const { data, error } = await supabase.functions.invoke('fetch-driver-details', {
+    body: { dl_no: normalizeLicenseNumber(values.license_number || ''), dob: toDlDate(dob) }
+  });
+  if (error || !data?.success) throw new Error(data?.message || error?.message || 'No DL details returned');
+  return mergeDlDetails(values, data.data || {});
+};
+
+/**
+ * Fill blank cells from the RC or DL lookup, one row at a time so the
+ * provider is not flooded. Failed lookups are noted on the row, which keeps
+ * its typed values.
+ */
+export const fetchFleetImportDetails = async (
+  entity: FleetImportEntity,
+  inputs: FleetImportInput[],
+  onProgress?: (done: number) => void
+): Promise<FleetImportInput[]> => {
+  const results: FleetImportInput[] = [];
+
+  for (const input of inputs) {
+    try {
+      results.push({ ...input, values: await lookup(entity, input.values), fetched: true, fetch_error: undefined });
+    } catch (error) {
+      logger.warn(`${entity === 'vehicle' ? 'RC' : 'DL'} lookup failed for row ${input.row}:`, error);
+      results.push({ ...input, fetched: false, fetch_error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.(results.length);
+  }
+
+  return results;
+};
+
+const assertImportable = (rows: FleetImportRow<unknown>[]) => {
+  if (rows.length === 0 || rows.some(row => !row.record || row.errors.length > 0)) {
+    throw new Error('Fix the rows with errors before importing');
+  }
+};
+
+/**
+ * Create all vehicles in one insert, so either every row is saved or none
+ * are, then attach their tags
+ */
+export const importVehicles = async (
+  rows: FleetImportRow<VehicleImportDraft>[],
+  fileName: string
+): Promise<FleetImportResult> => {
+  assertImportable(rows);
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('vehicles')
+    .insert(rows.map(row => withOwner(row.record!, userId, organizationId)))
+    .select('id, registration_number');
+
+  if (error) {
+    await logDataImport(userId, 'vehicles', rows.length, 0, rows.length, { file_name: fileName, error: error.message })
+      .catch(logError => logger.warn('Failed to log vehicle import:', logError));
+    handleSupabaseError('import vehicles', error);
+    throw error;
+  }
+
+  const idByRegistration = new Map((data || []).map(v => [v.registration_number, v.id]));
+  const vehicleTags = rows.flatMap(row =>
+    row.tag_ids.map(tagId => ({
+      vehicle_id: idByRegistration.get(row.key),
+      tag_id: tagId,
+      organization_id: organizationId,
+      added_by: userId
+    }))
+  ).filter(tag => tag.vehicle_id);
+
+  let tagged = 0;
+  if (vehicleTags.length > 0) {
+    const { error: tagError } = await supabase.from('vehicle_tags').insert(vehicleTags);
+    if (tagError) {
+      // The vehicles are saved; tags can be added from the vehicle page
+      logger.error('Error tagging imported vehicles:', tagError);
+    } else {
+      tagged = vehicleTags.length;
+    }
+  }
+
+  await logDataImport(userId, 'vehicles', rows.length, data?.length || 0, 0, {
+    file_name: fileName,
+    fetched: rows.filter(row => row.fetched).length,
+    tags_assigned: tagged
+  }).catch(logError => logger.warn('Failed to log vehicle import:', logError));
+
+  return { created: data?.length || 0, tagged };
+};
+
+/**
+ * Create all drivers in one insert, so either every row is saved or none are
+ */
+export const importDrivers = async (
+  rows: FleetImportRow<DriverImportDraft>[],
+  fileName: string
+): Promise<FleetImportResult> => {
+  assertImportable(rows);
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('drivers')
+    .insert(rows.map(row => withOwner({ ...row.record!, added_by: userId }, userId, organizationId)))
+    .select('id');
+
+  if (error) {
+    await logDataImport(userId, 'drivers', rows.length, 0, rows.length, { file_name: fileName, error: error.message })
+      .catch(logError => logger.warn('Failed to log driver import:', logError));
+    handleSupabaseError('import drivers', error);
+    throw error;
+  }
+
+  await logDataImport(userId, 'drivers', rows.length, data?.length || 0, 0, {
+    file_name: fileName,
+    fetched: rows.filter(row => row.fetched).length
+  }).catch(logError => logger.warn('Failed to log driver import:', logError));
+
+  return { created: data?.length || 0, tagged: 0 };
+};
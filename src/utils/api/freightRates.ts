@@ -0,0 +1,175 @@
+import { supabase } from '../supabaseClient';
+import { FreightRate, FreightRateCriteria, FreightRateFormData, RepricingTrip, TripRepricing } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { resolveFreightRate } from '../freightRates';
+
+const logger = createLogger('freightRates');
+
+const REPRICING_COLUMNS = [
+  'id', 'trip_serial_number', 'vehicle_id', 'warehouse_id', 'destinations', 'material_type_ids',
+  'trip_start_date', 'start_km', 'end_km', 'gross_weight', 'freight_rate', 'billing_type',
+  'income_amount', 'total_expense', 'contract_rate_id', 'invoice_id'
+].join(', ');
+
+// Empty strings from form selects must be stored as NULL so they don't
+// narrow rate matching
+const sanitizeFreightRate = (rate: Partial<FreightRateFormData>) => ({
+  ...rate,
+  destination_id: rate.destination_id || null,
+  material_type_id: rate.material_type_id || null,
+  effective_to: rate.effective_to || null,
+  notes: rate.notes || null
+});
+
+/**
+ * Fetch the active rate table for the active organization
+ */
+export const getFreightRates = async (): Promise<FreightRate[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('freight_rates')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('active', true)
+      .order('effective_from', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch freight rates', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching freight rates:', error);
+    return [];
+  }
+};
+
+export const createFreightRate = async (rateData: FreightRateFormData): Promise<FreightRate> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('freight_rates')
+    .insert(withOwner({ ...sanitizeFreightRate(rateData), active: true }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('create freight rate', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateFreightRate = async (
+  id: string,
+  updates: Partial<FreightRateFormData>
+): Promise<FreightRate> => {
+  const { data, error } = await supabase
+    .from('freight_rates')
+    .update({ ...sanitizeFreightRate(updates), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('update freight rate', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Soft-delete a rate so re-pricing history stays explainable
+ */
+export const deleteFreightRate = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('freight_rates')
+    .update({ active: false })
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('delete freight rate', error);
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Find the rate table entry that applies to a trip, if any
+ */
+export const findApplicableFreightRate = async (
+  criteria: FreightRateCriteria
+): Promise<FreightRate | null> => {
+  const rates = await getFreightRates();
+  return resolveFreightRate(rates, criteria);
+};
+
+/**
+ * Fetch trips started within a period, with the fields needed to re-price them
+ */
+export const getTripsForRepricing = async (
+  from: string,
+  to: string,
+  warehouseId?: string
+): Promise<RepricingTrip[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    let query = supabase
+      .from('trips_visible')
+      .select(REPRICING_COLUMNS)
+      .eq('organization_id', organizationId)
+      .gte('trip_start_date', from)
+      .lte('trip_start_date', `${to}T23:59:59`);
+
+    if (warehouseId) {
+      query = query.eq('warehouse_id', warehouseId);
+    }
+
+    const { data, error } = await query.order('trip_start_date', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch trips for re-pricing', error);
+      return [];
+    }
+
+    return (data || []) as unknown as RepricingTrip[];
+  } catch (error) {
+    logger.error('Error fetching trips for re-pricing:', error);
+    return [];
+  }
+};
+
+/**
+ * Write re-priced freight and income back to trips in one transaction.
+ * Profit is recalculated for trips whose expenses are already totalled.
+ * Trips invoiced since the preview are left unchanged, so the count
+ * returned can be lower than the rows passed in.
+ */
+export const applyTripRepricing = async (rows: TripRepricing[]): Promise<number> => {
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('reprice_trips', {
+    p_changes: rows.map(({ trip, new_freight_rate, new_billing_type, new_income }) => ({
+      id: trip.id,
+      freight_rate: new_freight_rate,
+      billing_type: new_billing_type,
+      income_amount: new_income
+    }))
+  });
+
+  if (error) {
+    handleSupabaseError('re-price trips', error);
+    throw error;
+  }
+
+  return (data as number) || 0;
+};
@@ -0,0 +1,216 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import {
+  AIAlert,
+  FuelCardImportRow,
+  FuelCardTransaction,
+  FuelReconciliationException,
+  FuelReconciliationResult,
+  Trip,
+  Vehicle
+} from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import {
+  buildFuelTransactionKey,
+  describeFuelException,
+  getFuelExceptionKey,
+  normalizeRegistration
+} from '../fuelReconciliation';
+
+const logger = createLogger('fuelCards');
+
+const TRIP_BATCH_SIZE = 1000;
+
+/**
+ * Save parsed statement lines. Vehicles are resolved by registration number;
+ * lines already imported from an earlier statement are skipped.
+ */
+export const importFuelCardTransactions = async (
+  rows: FuelCardImportRow[],
+  vehicles: Pick<Vehicle, 'id' | 'registration_number'>[]
+): Promise<{ imported: number; skipped: number }> => {
+  const { userId, organizationId } = await getOrganizationContext();
+  const vehicleIds = new Map(vehicles.map(v => [normalizeRegistration(v.registration_number), v.id]));
+  const importBatchId = crypto.randomUUID();
+
+  const payload = rows.map(row => withOwner({
+    ...row,
+    vehicle_id: vehicleIds.get(row.vehicle_registration) || null,
+    import_batch_id: importBatchId,
+    dedup_key: buildFuelTransactionKey(row),
+    match_status: 'unreconciled'
+  }, userId, organizationId));
+
+  const { data, error } = await supabase
+    .from('fuel_card_transactions')
+    .upsert(payload, { onConflict: 'organization_id,dedup_key', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    handleSupabaseError('import fuel card transactions', error);
+    throw error;
+  }
+
+  const imported = data?.length || 0;
+  return { imported, skipped: rows.length - imported };
+};
+
+/**
+ * Statement lines for the active organization within a date range
+ */
+export const getFuelCardTransactions = async (from: string, to: string): Promise<FuelCardTransaction[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('fuel_card_transactions')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .gte('transaction_date', from)
+      .lte('transaction_date', to)
+      .order('transaction_date');
+
+    if (error) {
+      handleSupabaseError('fetch fuel card transactions', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching fuel card transactions:', error);
+    return [];
+  }
+};
+
+/**
+ * Trips with refuelings that overlap the statement period, widened by a day
+ * either side for fills just before departure or after return
+ */
+export const getRefuelingTrips = async (from: string, to: string): Promise<Trip[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+    const periodEnd = format(addDays(parseISO(to), 2), 'yyyy-MM-dd');
+    const periodStart = format(addDays(parseISO(from), -1), 'yyyy-MM-dd');
+    const trips: Trip[] = [];
+
+    // Trips still running have no end date yet; fetch in batches past the 1000 row limit
+    for (let start = 0; ; start += TRIP_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('trips_visible')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('refueling_done', true)
+        .lte('trip_start_date', periodEnd)
+        .or(`trip_end_date.is.null,trip_end_date.gte.${periodStart}`)
+        .order('trip_start_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(start, start + TRIP_BATCH_SIZE - 1);
+
+      if (error) {
+        handleSupabaseError('fetch trips for fuel reconciliation', error);
+        return [];
+      }
+
+      trips.push(...(data || []));
+      if (!data || data.length < TRIP_BATCH_SIZE) break;
+    }
+
+    return trips;
+  } catch (error) {
+    logger.error('Error fetching trips for fuel reconciliation:', error);
+    return [];
+  }
+};
+
+/**
+ * Store the match result on each statement line
+ */
+export const saveFuelReconciliation = async (matches: FuelReconciliationResult['matches']): Promise<void> => {
+  const now = new Date().toISOString();
+
+  for (let i = 0; i < matches.length; i += 20) {
+    const results = await Promise.all(
+      matches.slice(i, i + 20).map(({ id, ...match }) =>
+        supabase
+          .from('fuel_card_transactions')
+          .update({ ...match, updated_at: now })
+          .eq('id', id)
+      )
+    );
+
+    const failed = results.find(r => r.error);
+    if (failed?.error) {
+      handleSupabaseError('save fuel reconciliation', failed.error);
+      throw failed.error;
+    }
+  }
+};
+
+/**
+ * Raise an AI alert for each reconciliation exception that has not been
+ * raised before. Returns the number of new alerts.
+ */
+export const createFuelReconciliationAlerts = async (exceptions: FuelReconciliationException[]): Promise<number> => {
+  if (exceptions.length === 0) return 0;
+
+  const { userId, organizationId } = await getOrganizationContext();
+  const existing = new Set<string>();
+  const keys = exceptions.map(getFuelExceptionKey);
+
+  for (let i = 0; i < keys.length; i += 100) {
+    const { data, error } = await supabase
+      .from('ai_alerts')
+      .select('metadata')
+      .eq('organization_id', organizationId)
+      .eq('alert_type', 'fuel_reconciliation')
+      .in('metadata->>reconciliation_key', keys.slice(i, i + 100));
+
+    if (error) {
+      handleSupabaseError('check existing fuel reconciliation alerts', error);
+      throw error;
+    }
+
+    (data || []).forEach(row => existing.add(row.metadata?.reconciliation_key));
+  }
+
+  const now = new Date().toISOString();
+  const alerts: (Omit<AIAlert, 'id' | 'updated_at'> & { organization_id: string; added_by: string })[] = exceptions
+    .filter(exception => !existing.has(getFuelExceptionKey(exception)))
+    .map(exception => {
+      const { severity, title, description, recommendations } = describeFuelException(exception);
+      return {
+        alert_type: 'fuel_reconciliation',
+        severity,
+        status: 'pending',
+        title,
+        description,
+        affected_entity: exception.vehicle_id
+          ? { type: 'vehicle', id: exception.vehicle_id }
+          : { type: 'trip', id: exception.trip_id || '' },
+        metadata: {
+          reconciliation_key: getFuelExceptionKey(exception),
+          transaction_id: exception.transaction_id,
+          trip_id: exception.trip_id,
+          expected_value: exception.recorded_amount,
+          actual_value: exception.statement_amount,
+          recommendations
+        },
+        created_at: now,
+        organization_id: organizationId,
+        added_by: userId
+      };
+    });
+
+  if (alerts.length === 0) return 0;
+
+  const { error } = await supabase.from('ai_alerts').insert(alerts);
+
+  if (error) {
+    handleSupabaseError('create fuel reconciliation alerts', error);
+    throw error;
+  }
+
+  return alerts.length;
+};
@@ -0,0 +1,172 @@
+import { supabase } from '../supabaseClient';
+import { Geofence, GpsIngestToken, Trip, TripGpsTrack } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { detectTrackFormat, parseTrack, summarizeTrack } from '../gpsTrack';
+import { summarizeGeofences } from '../geofence';
+
+const logger = createLogger('gpsTracks');
+
+export const getTripGpsTracks = async (tripId: string): Promise<TripGpsTrack[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('trip_gps_tracks')
+      .select('*')
+      .eq('trip_id', tripId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch trip GPS tracks', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching trip GPS tracks:', error);
+    return [];
+  }
+};
+
+type GeofenceTrip = Pick<Trip, 'id' | 'vehicle_id' | 'trip_start_date' | 'trip_end_date' | 'destinations'>;
+
+/**
+ * Parse a GPX, KML or CSV track export, analyse it, check it against the
+ * trip's geofences and attach it to the trip
+ */
+export const uploadTripGpsTrack = async (
+  trip: GeofenceTrip,
+  file: File,
+  geofences: Geofence[] = [],
+  overspeedLimitKmph?: number
+): Promise<TripGpsTrack> => {
+  const content = await file.text();
+  const format = detectTrackFormat(file.name, content);
+  if (!format) {
+    throw new Error('Unsupported track file; upload a GPX, KML or CSV export');
+  }
+
+  const parsed = parseTrack(format, content);
+  if (parsed.length < 2) {
+    throw new Error('No track points found in the file');
+  }
+
+  const { analysis, points } = summarizeTrack(parsed, { overspeedLimitKmph });
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('trip_gps_tracks')
+    .insert(withOwner({
+      trip_id: trip.id,
+      vehicle_id: trip.vehicle_id,
+      source: format,
+      file_name: file.name,
+      ...analysis,
+      ...summarizeGeofences(points, geofences, trip),
+      points
+    }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('save trip GPS track', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Re-run the geofence check on a stored track, e.g. after the trip's dates
+ * or the places' coordinates were corrected
+ */
+export const recheckTripGpsTrackGeofences = async (
+  track: Pick<TripGpsTrack, 'id' | 'points'>,
+  trip: GeofenceTrip,
+  geofences: Geofence[]
+): Promise<TripGpsTrack> => {
+  const { data, error } = await supabase
+    .from('trip_gps_tracks')
+    .update(summarizeGeofences(track.points, geofences, trip))
+    .eq('id', track.id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('update trip GPS track geofences', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteTripGpsTrack = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('trip_gps_tracks')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('delete trip GPS track', error);
+    throw error;
+  }
+};
+
+/**
+ * Tokens issued to trackers and integrations, newest first. Only admins can
+ * see them.
+ */
+export const getGpsIngestTokens = async (): Promise<GpsIngestToken[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('gps_ingest_tokens')
+      .select('id, organization_id, name, vehicle_id, token_prefix, last_used_at, revoked_at, created_by, created_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch GPS ingest tokens', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching GPS ingest tokens:', error);
+    return [];
+  }
+};
+
+/**
+ * Issue a token for a tracker or integration. The token is returned only
+ * once; just its hash is stored.
+ */
+export const createGpsIngestToken = async (name: string, vehicleId?: string | null): Promise<string> => {
+  const { organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase.rpc('create_gps_ingest_token', {
+    p_organization_id: organizationId,
+    p_name: name,
+    p_vehicle_id: vehicleId || null
+  });
+
+  if (error) {
+    handleSupabaseError('issue GPS ingest token', error);
+    throw error;
+  }
+
+  return (data as Array<{ id: string; token: string }>)[0].token;
+};
+
+export const revokeGpsIngestToken = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('gps_ingest_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('revoke GPS ingest token', error);
+    throw error;
+  }
+};
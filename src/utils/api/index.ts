@@ -1,3 +1,25 @@
 export * from './vehicles';
 export * from './drivers';
 export * from './trips';
+export * from './contractRates';
+export * from './customers';
+export * from './invoices';
+export * from './driverLedger';
+export * from './messageTemplates';
+export * from './notifications';
+export * from './fuelCards';
+export * from './tyres';
+export * from './maintenanceSchedules';
+export * from './partsInventory';
+export * from './freightRates';
+export * from './driverRanking';
+export * from './consignmentNotes';
+export * from './challans';
+export * from './documentVerification';
+export * from './plannedTrips';
+export * from './availability';
+export * from './gpsTracks';
+export * from './tripImport';
+export * from './fleetImport';
+export * from './team';
+export * from './permissions';
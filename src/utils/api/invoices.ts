@@ -0,0 +1,252 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { Customer, Invoice, InvoiceDraftOptions, InvoiceItem, Trip } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { canCurrentUser, requirePermission } from './permissions';
+import { getGSTINStateCode } from '../indianValidation';
+import {
+  GTA_SAC_CODE,
+  calculateGstBreakup,
+  getFinancialYear,
+  getGSTStateCodeByName
+} from '../gstInvoice';
+
+const logger = createLogger('invoices');
+
+// Billing details of the organization raising the invoice
+export interface InvoiceSupplier {
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  pincode?: string | null;
+  gst_number?: string | null;
+  pan_number?: string | null;
+  contact_phone?: string | null;
+  contact_email?: string | null;
+  bank_name?: string | null;
+  bank_account_number?: string | null;
+  ifsc_code?: string | null;
+}
+
+export const getInvoiceSupplier = async (): Promise<InvoiceSupplier | null> => {
+  const { organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('name, address, city, state, pincode, gst_number, pan_number, contact_phone, contact_email, bank_name, bank_account_number, ifsc_code')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    handleSupabaseError('fetch organization billing details', error);
+    return null;
+  }
+
+  return data;
+};
+
+/**
+ * Fetch invoices for the active organization, newest first
+ */
+export const getInvoices = async (): Promise<Invoice[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+    if (!(await canCurrentUser('pnl'))) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('invoice_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch invoices', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching invoices:', error);
+    return [];
+  }
+};
+
+export const getInvoice = async (id: string): Promise<Invoice | null> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, items:invoice_items(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    handleSupabaseError('fetch invoice', error);
+    return null;
+  }
+
+  return data;
+};
+
+/**
+ * Trips for a customer that carry income and have not been billed yet
+ */
+export const getUninvoicedTrips = async (customerId: string): Promise<Trip[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('trips_visible')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('customer_id', customerId)
+      .is('invoice_id', null)
+      .gt('income_amount', 0)
+      .order('trip_start_date', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch uninvoiced trips', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching uninvoiced trips:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a draft invoice for a customer and link the billed trips to it
+ */
+export const createDraftInvoice = async (
+  customer: Customer,
+  items: InvoiceItem[],
+  options: InvoiceDraftOptions
+): Promise<Invoice> => {
+  if (items.length === 0) {
+    throw new Error('Select at least one trip to invoice');
+  }
+  await requirePermission('pnl', 'create');
+
+  const { userId, organizationId } = await getOrganizationContext();
+  const supplier = await getInvoiceSupplier();
+
+  const supplierStateCode = getGSTINStateCode(supplier?.gst_number) || getGSTStateCodeByName(supplier?.state);
+  const placeOfSupply = getGSTINStateCode(customer.gstin) || getGSTStateCodeByName(customer.state) || supplierStateCode;
+
+  const taxableAmount = Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+  const breakup = calculateGstBreakup(taxableAmount, options.gstRate, supplierStateCode, placeOfSupply, options.reverseCharge);
+
+  // The invoice, its items and the trip links are written together so a failure leaves nothing behind
+  const { data: invoice, error } = await supabase.rpc('create_draft_invoice', {
+    p_invoice: withOwner({
+      customer_id: customer.id,
+      invoice_date: options.invoiceDate,
+      due_date: format(addDays(parseISO(options.invoiceDate), customer.credit_days ?? 0), 'yyyy-MM-dd'),
+      financial_year: getFinancialYear(options.invoiceDate),
+      supplier_gstin: supplier?.gst_number || null,
+      customer_gstin: customer.gstin || null,
+      place_of_supply: placeOfSupply,
+      sac_code: GTA_SAC_CODE,
+      gst_rate: options.gstRate,
+      reverse_charge: options.reverseCharge,
+      taxable_amount: taxableAmount,
+      cgst_amount: breakup.cgst,
+      sgst_amount: breakup.sgst,
+      igst_amount: breakup.igst,
+      total_amount: breakup.total,
+      notes: options.notes || null
+    }, userId, organizationId),
+    p_items: items
+  });
+
+  if (error) {
+    handleSupabaseError('create invoice', error);
+    throw error;
+  }
+
+  return (await getInvoice(invoice.id)) || { ...invoice, items };
+};
+
+/**
+ * Issue a draft invoice, assigning the next number in the financial year
+ */
+export const issueInvoice = async (invoice: Invoice): Promise<Invoice> => {
+  if (invoice.status !== 'draft') {
+    throw new Error('Only draft invoices can be issued');
+  }
+  await requirePermission('pnl', 'edit');
+
+  // Numbered and issued in one transaction so an invoice number is never skipped
+  const { data, error } = await supabase.rpc('issue_invoice', { p_invoice_id: invoice.id });
+
+  if (error) {
+    handleSupabaseError('issue invoice', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Record a customer payment against an issued invoice
+ */
+export const recordInvoicePayment = async (invoice: Invoice, amount: number): Promise<Invoice> => {
+  if (invoice.status === 'draft') {
+    throw new Error('Issue the invoice before recording payments');
+  }
+  if (amount <= 0) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+  await requirePermission('pnl', 'edit');
+
+  // Added to the stored balance on the server, which rejects overpayment
+  const { data, error } = await supabase.rpc('record_invoice_payment', {
+    p_invoice_id: invoice.id,
+    p_amount: amount
+  });
+
+  if (error) {
+    handleSupabaseError('record invoice payment', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Delete a draft invoice and release its trips for billing again
+ */
+export const deleteDraftInvoice = async (invoice: Invoice): Promise<boolean> => {
+  if (invoice.status !== 'draft') {
+    throw new Error('Only draft invoices can be deleted');
+  }
+  await requirePermission('pnl', 'delete');
+
+  const { error: unlinkError } = await supabase
+    .from('trips')
+    .update({ invoice_id: null })
+    .eq('invoice_id', invoice.id);
+
+  if (unlinkError) {
+    handleSupabaseError('release invoiced trips', unlinkError);
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('invoices')
+    .delete()
+    .eq('id', invoice.id);
+
+  if (error) {
+    handleSupabaseError('delete invoice', error);
+    return false;
+  }
+
+  return true;
+};
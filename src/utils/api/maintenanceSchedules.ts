@@ -0,0 +1,82 @@
+import { supabase } from '../supabaseClient';
+import { MaintenanceSchedule, MaintenanceScheduleFormData } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+
+const logger = createLogger('maintenanceSchedules');
+
+/**
+ * Fetch preventive maintenance schedules for the active organization
+ */
+export const getMaintenanceSchedules = async (): Promise<MaintenanceSchedule[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('maintenance_schedules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name');
+
+    if (error) {
+      handleSupabaseError('fetch maintenance schedules', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching maintenance schedules:', error);
+    return [];
+  }
+};
+
+export const createMaintenanceSchedule = async (schedule: MaintenanceScheduleFormData): Promise<MaintenanceSchedule> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('maintenance_schedules')
+    .insert(withOwner({ ...schedule, name: schedule.name.trim() }, userId, organizationId))
+    .select()
+    .single();
+
+  if (error) {
+    handleSupabaseError('create maintenance schedule', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateMaintenanceSchedule = async (
+  id: string,
+  updates: Partial<MaintenanceScheduleFormData>
+): Promise<MaintenanceSchedule> => {
+  const { data, error } = await supabase
+    .from('maintenance_schedules')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    handleSupabaseError('update maintenance schedule', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteMaintenanceSchedule = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('maintenance_schedules')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('delete maintenance schedule', error);
+    return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,92 @@
+import { supabase } from '../supabaseClient';
+import {
+  MessageLanguage,
+  MessageTemplate,
+  MessageTemplateFormData,
+  MessageTemplateKey,
+  MessageVariables,
+  RenderedMessage
+} from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { resolveMessage } from '../messageTemplates';
+
+const logger = createLogger('messageTemplates');
+
+/**
+ * Fetch the active organization's template overrides
+ */
+export const getMessageTemplates = async (): Promise<MessageTemplate[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('message_templates')
+      .select('*')
+      .eq('organization_id', organizationId);
+
+    if (error) {
+      handleSupabaseError('fetch message templates', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching message templates:', error);
+    return [];
+  }
+};
+
+/**
+ * Create or replace the override for a template key and language
+ */
+export const saveMessageTemplate = async (template: MessageTemplateFormData): Promise<MessageTemplate> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('message_templates')
+    .upsert(
+      withOwner({ ...template, updated_at: new Date().toISOString() }, userId, organizationId),
+      { onConflict: 'organization_id,template_key,language' }
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('save message template', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Remove an override so the built-in template is used again
+ */
+export const resetMessageTemplate = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('message_templates')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    handleSupabaseError('reset message template', error);
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Render a message using the organization's override when one exists,
+ * otherwise the built-in template for the language
+ */
+export const renderMessage = async (
+  key: MessageTemplateKey,
+  variables: MessageVariables,
+  language: MessageLanguage = 'en'
+): Promise<RenderedMessage> => {
+  const overrides = await getMessageTemplates();
+  return resolveMessage(key, variables, language, overrides);
+};
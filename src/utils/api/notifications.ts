@@ -0,0 +1,55 @@
+import { supabase } from '../supabaseClient';
+import { DispatchSummary, NotificationDelivery } from '../../types';
+import { getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+
+const logger = createLogger('notifications');
+
+/**
+ * Fetch delivery log entries for the active organization, newest first
+ */
+export const getNotificationDeliveries = async (limit: number = 200): Promise<NotificationDelivery[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('notification_deliveries')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError('fetch notification deliveries', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching notification deliveries:', error);
+    return [];
+  }
+};
+
+/**
+ * Send the organization's due reminders now rather than waiting for the
+ * scheduled run. Delivery is deduplicated on the server, so this never resends
+ * what the schedule already sent. Each contact gets messages in their own
+ * language.
+ */
+export const dispatchRemindersNow = async (): Promise<DispatchSummary> => {
+  const { organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase.functions.invoke('dispatch-reminders', {
+    body: { organization_id: organizationId }
+  });
+
+  const run = data?.runs?.[0];
+  if (error || !data?.success || run?.error) {
+    logger.error('Reminder dispatch failed:', error || data);
+    throw new Error(run?.error || data?.message || error?.message || 'Reminder dispatch failed');
+  }
+
+  return run?.summary || { planned: 0, sent: 0, failed: 0, skipped: 0 };
+};
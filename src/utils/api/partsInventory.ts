@@ -0,0 +1,215 @@
+import { supabase } from '../supabaseClient';
+import {
+  AIAlert,
+  PartStockItem,
+  PartStockItemFormData,
+  StockItemSummary,
+  StockMovement,
+  StockMovementInput,
+  TaskStockIssue
+} from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { describeLowStock, summarizeStock } from '../partsInventory';
+
+const logger = createLogger('partsInventory');
+
+/**
+ * Fetch the parts catalogue for the active organization
+ */
+export const getPartStockItems = async (): Promise<PartStockItem[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('part_stock_items')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('category')
+      .order('name');
+
+    if (error) {
+      handleSupabaseError('fetch part stock items', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching part stock items:', error);
+    return [];
+  }
+};
+
+export const createPartStockItems = async (items: PartStockItemFormData[]): Promise<PartStockItem[]> => {
+  if (items.length === 0) return [];
+
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('part_stock_items')
+    .insert(items.map(item => withOwner({ ...item, sku: item.sku.trim().toUpperCase() }, userId, organizationId)))
+    .select();
+
+  if (error) {
+    handleSupabaseError('create part stock items', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const updatePartStockItem = async (
+  id: string,
+  updates: Partial<PartStockItemFormData>
+): Promise<PartStockItem> => {
+  const { data, error } = await supabase
+    .from('part_stock_items')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    handleSupabaseError('update part stock item', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Fetch the stock ledger, oldest first, optionally for a single item
+ */
+export const getStockMovements = async (itemId?: string): Promise<StockMovement[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    let query = supabase
+      .from('part_stock_movements')
+      .select('*')
+      .eq('organization_id', organizationId);
+
+    if (itemId) {
+      query = query.eq('item_id', itemId);
+    }
+
+    const { data, error } = await query
+      .order('movement_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch stock movements', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching stock movements:', error);
+    return [];
+  }
+};
+
+export const recordStockMovement = async (movement: StockMovementInput): Promise<StockMovement> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('part_stock_movements')
+    .insert(withOwner(movement, userId, organizationId))
+    .select()
+    .single();
+
+  if (error) {
+    handleSupabaseError('record stock movement', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Issue and return stock so the task holds exactly the parts it was saved
+ * with. Runs as one transaction on the server; fails without recording
+ * anything if a location does not hold enough.
+ */
+export const syncMaintenanceStockIssues = async (taskId: string, issues: TaskStockIssue[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('sync_maintenance_stock_issues', {
+    p_task_id: taskId,
+    p_issues: issues
+  });
+
+  if (error) {
+    handleSupabaseError('issue parts from stock', error);
+    throw error;
+  }
+
+  const recorded = (data as number) || 0;
+  if (recorded > 0 && issues.length > 0) {
+    const itemIds = new Set(issues.map(issue => issue.item_id));
+    Promise.all([getPartStockItems(), getStockMovements()])
+      .then(([items, movements]) => createLowStockAlerts(summarizeStock(items.filter(i => itemIds.has(i.id)), movements)))
+      .catch(alertError => logger.error('Error raising low stock alerts:', alertError));
+  }
+
+  return recorded;
+};
+
+/**
+ * Raise an alert for each low-stock item that does not already have a
+ * pending one
+ */
+export const createLowStockAlerts = async (summaries: StockItemSummary[]): Promise<number> => {
+  const lowStock = summaries.filter(s => s.low_stock);
+  if (lowStock.length === 0) return 0;
+
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('ai_alerts')
+    .select('metadata')
+    .eq('organization_id', organizationId)
+    .eq('alert_type', 'low_stock')
+    .eq('status', 'pending')
+    .in('metadata->>stock_item_id', lowStock.map(s => s.item.id));
+
+  if (error) {
+    handleSupabaseError('check existing low stock alerts', error);
+    throw error;
+  }
+
+  const existing = new Set((data || []).map(row => row.metadata?.stock_item_id));
+  const now = new Date().toISOString();
+  const alerts: (Omit<AIAlert, 'id' | 'updated_at'> & { organization_id: string; added_by: string })[] = lowStock
+    .filter(summary => !existing.has(summary.item.id))
+    .map(summary => {
+      const { severity, title, description, recommendations } = describeLowStock(summary);
+      return {
+        alert_type: 'low_stock',
+        severity,
+        status: 'pending',
+        title,
+        description,
+        affected_entity: { type: 'part', id: summary.item.id },
+        metadata: {
+          stock_item_id: summary.item.id,
+          expected_value: summary.item.reorder_level,
+          actual_value: summary.quantity,
+          recommendations
+        },
+        created_at: now,
+        organization_id: organizationId,
+        added_by: userId
+      };
+    });
+
+  if (alerts.length === 0) return 0;
+
+  const { error: insertError } = await supabase.from('ai_alerts').insert(alerts);
+
+  if (insertError) {
+    handleSupabaseError('create low stock alerts', insertError);
+    throw insertError;
+  }
+
+  return alerts.length;
+};
@@ -0,0 +1,214 @@
+import { supabase } from '../supabaseClient';
+import {
+  PermissionAction,
+  PermissionModule,
+  Permissions,
+  RoleDefinition,
+  UserRole
+} from '../../types/permissions';
+import { getOrganizationContext, withOwner } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { AuditTrailLogger } from '../auditTrailLogger';
+import {
+  PERMISSION_MODULES,
+  hasPermission,
+  normalizePermissionMatrix,
+  omitHiddenFields,
+  resolvePermissions
+} from '../permissionMatrix';
+
+const logger = createLogger('permissions');
+
+// Role changes made by an admin reach other sessions within this time
+const CHECK_CACHE_MS = 5 * 60 * 1000;
+
+let cached: { key: string; permissions: Promise<Permissions>; expires: number } | null = null;
+
+export const clearPermissionCheckCache = () => {
+  cached = null;
+};
+
+const loadPermissions = async (userId: string, organizationId: string): Promise<Permissions> => {
+  const { data: membership, error } = await supabase
+    .from('organization_users')
+    .select('role, is_active, custom_role_id, organization_roles (name, permissions, hidden_fields)')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!membership) {
+    const { data: owned } = await supabase
+      .from('organizations')
+      .select('id')
+      .eq('id', organizationId)
+      .eq('owner_id', userId)
+      .maybeSingle();
+    // Same fallback as usePermissions: owners without a membership row are owners
+    return resolvePermissions({ role: owned ? 'owner' : 'data_entry', organizationId, organizationName: '' });
+  }
+
+  if (membership.is_active === false) {
+    return resolvePermissions(
+      { role: membership.role as UserRole, organizationId, organizationName: '' },
+      { name: 'Deactivated', permissions: {}, hidden_fields: ['revenue', 'salary'] }
+    );
+  }
+
+  const customRole = Array.isArray(membership.organization_roles)
+    ? membership.organization_roles[0]
+    : membership.organization_roles;
+
+  return resolvePermissions(
+    { role: membership.role as UserRole, organizationId, organizationName: '' },
+    membership.custom_role_id && customRole ? { id: membership.custom_role_id, ...customRole } : null
+  );
+};
+
+/**
+ * Permissions of the signed-in member in their active organization, cached
+ * briefly so every data call does not repeat the lookup
+ */
+export const getCurrentPermissions = async (): Promise<Permissions> => {
+  const { userId, organizationId } = await getOrganizationContext();
+  const key = `${userId}:${organizationId}`;
+
+  if (!cached || cached.key !== key || cached.expires < Date.now()) {
+    const permissions = loadPermissions(userId, organizationId);
+    cached = { key, permissions, expires: Date.now() + CHECK_CACHE_MS };
+    permissions.catch(() => clearPermissionCheckCache());
+  }
+
+  return cached.permissions;
+};
+
+export const canCurrentUser = async (module: PermissionModule, action: PermissionAction = 'view'): Promise<boolean> => {
+  try {
+    return hasPermission((await getCurrentPermissions()).matrix, module, action);
+  } catch (error) {
+    logger.error('Error checking permission:', error);
+    return false;
+  }
+};
+
+/**
+ * Throw unless the signed-in member may perform the action
+ */
+export const requirePermission = async (module: PermissionModule, action: PermissionAction): Promise<void> => {
+  if (!(await canCurrentUser(module, action))) {
+    const label = PERMISSION_MODULES.find(m => m.module === module)?.label.toLowerCase() || module;
+    throw new Error(`You do not have permission to ${action} ${label}`);
+  }
+};
+
+/**
+ * Remove revenue or salary columns the signed-in member may not see from a
+ * record about to be saved. The views they read from return those columns
+ * empty, and saving the empty value back would otherwise look like a change.
+ */
+export const stripHiddenFields = async <T extends object>(record: T): Promise<T> => {
+  try {
+    const { hiddenFields } = await getCurrentPermissions();
+    return omitHiddenFields(record, hiddenFields);
+  } catch (error) {
+    logger.error('Error loading hidden fields:', error);
+    return record;
+  }
+};
+
+export const getRoleDefinitions = async (): Promise<RoleDefinition[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('organization_roles')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name');
+
+    if (error) {
+      handleSupabaseError('fetch roles', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching roles:', error);
+    return [];
+  }
+};
+
+/**
+ * Create or update a custom role. The change is written to the audit trail
+ * because it alters the access of every member holding the role.
+ */
+export const saveRoleDefinition = async (
+  role: Pick<RoleDefinition, 'name' | 'description' | 'base_role' | 'permissions' | 'hidden_fields'> & { id?: string }
+): Promise<RoleDefinition> => {
+  await requirePermission('admin', role.id ? 'edit' : 'create');
+  if (!role.name.trim()) {
+    throw new Error('Role name is required');
+  }
+
+  const { userId, organizationId } = await getOrganizationContext();
+  const payload = {
+    name: role.name.trim(),
+    description: role.description?.trim() || null,
+    base_role: role.base_role,
+    permissions: normalizePermissionMatrix(role.permissions),
+    hidden_fields: role.hidden_fields
+  };
+
+  let before: RoleDefinition | null = null;
+  if (role.id) {
+    const { data } = await supabase.from('organization_roles').select('*').eq('id', role.id).maybeSingle();
+    before = data;
+  }
+
+  const { data, error } = role.id
+    ? await supabase.from('organization_roles').update(payload).eq('id', role.id).select('*').single()
+    : await supabase.from('organization_roles').insert(withOwner(payload, userId, organizationId)).select('*').single();
+
+  if (error) {
+    handleSupabaseError('save role', error);
+    throw error;
+  }
+
+  clearPermissionCheckCache();
+  await AuditTrailLogger.logPermissionChange(
+    data.id,
+    `role "${data.name}"`,
+    role.id ? 'updated' : 'created',
+    before ? { permissions: before.permissions, hidden_fields: before.hidden_fields } : null,
+    { permissions: data.permissions, hidden_fields: data.hidden_fields },
+    [role.id ? `Role "${data.name}" updated` : `Role "${data.name}" created`]
+  ).catch(auditError => logger.warn('Failed to audit role change:', auditError));
+
+  return data;
+};
+
+/**
+ * Delete a custom role; members holding it fall back to their fixed role
+ */
+export const deleteRoleDefinition = async (role: RoleDefinition): Promise<void> => {
+  await requirePermission('admin', 'delete');
+
+  const { error } = await supabase.from('organization_roles').delete().eq('id', role.id);
+
+  if (error) {
+    handleSupabaseError('delete role', error);
+    throw error;
+  }
+
+  clearPermissionCheckCache();
+  await AuditTrailLogger.logPermissionChange(
+    role.id,
+    `role "${role.name}"`,
+    'deleted',
+    { permissions: role.permissions, hidden_fields: role.hidden_fields },
+    null,
+    [`Role "${role.name}" deleted`]
+  ).catch(auditError => logger.warn('Failed to audit role change:', auditError));
+};
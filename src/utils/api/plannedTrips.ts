@@ -0,0 +1,150 @@
+import { supabase } from '../supabaseClient';
+import { PlannedTrip, PlannedTripFormData, PlannedTripStatus } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { DispatchMaintenanceTask } from '../dispatchPlanning';
+
+const logger = createLogger('plannedTrips');
+
+// Empty strings from form selects must be stored as NULL
+const sanitizePlannedTrip = (plan: Partial<PlannedTripFormData>) => ({
+  ...plan,
+  customer_id: plan.customer_id || null,
+  expected_load: plan.expected_load || null,
+  notes: plan.notes || null
+});
+
+/**
+ * Plans that overlap the period, plus any still open from before it
+ */
+export const getPlannedTrips = async (from: string, to: string): Promise<PlannedTrip[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('planned_trips')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .lte('planned_start_date', to)
+      .or(`planned_end_date.gte.${from},status.in.(planned,dispatched)`)
+      .order('planned_start_date', { ascending: true });
+
+    if (error) {
+      handleSupabaseError('fetch planned trips', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching planned trips:', error);
+    return [];
+  }
+};
+
+export const createPlannedTrip = async (planData: PlannedTripFormData): Promise<PlannedTrip> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('planned_trips')
+    .insert(withOwner({ ...sanitizePlannedTrip(planData), status: 'planned' }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('create planned trip', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updatePlannedTrip = async (
+  id: string,
+  updates: Partial<PlannedTripFormData>
+): Promise<PlannedTrip> => {
+  const { data, error } = await supabase
+    .from('planned_trips')
+    .update(sanitizePlannedTrip(updates))
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('update planned trip', error);
+    throw error;
+  }
+
+  return data;
+};
+
+const STATUS_TIMESTAMPS: Partial<Record<PlannedTripStatus, keyof PlannedTrip>> = {
+  dispatched: 'dispatched_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at'
+};
+
+export const setPlannedTripStatus = async (
+  id: string,
+  status: Exclude<PlannedTripStatus, 'completed'>
+): Promise<PlannedTrip> => {
+  const timestamp = STATUS_TIMESTAMPS[status];
+
+  const { data, error } = await supabase
+    .from('planned_trips')
+    .update({ status, ...(timestamp && { [timestamp]: new Date().toISOString() }) })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('update planned trip status', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Close a plan against the trip recorded for it
+ */
+export const completePlannedTrip = async (id: string, tripId: string): Promise<PlannedTrip> => {
+  const { data, error } = await supabase
+    .from('planned_trips')
+    .update({ status: 'completed', trip_id: tripId, completed_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    handleSupabaseError('complete planned trip', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Unresolved maintenance tasks, which keep vehicles off the dispatch board
+ */
+export const getOpenMaintenanceTasks = async (): Promise<DispatchMaintenanceTask[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('maintenance_tasks')
+      .select('id, vehicle_id, status, start_date, end_date, downtime_days, task_type')
+      .eq('organization_id', organizationId)
+      .neq('status', 'resolved');
+
+    if (error) {
+      handleSupabaseError('fetch open maintenance tasks', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching open maintenance tasks:', error);
+    return [];
+  }
+};
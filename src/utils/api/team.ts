@@ -0,0 +1,216 @@
+import { supabase } from '../supabaseClient';
+import { PendingTeamInvitation, TeamAccess, TeamInvitation, TeamInviteInput, TeamMember } from '../../types';
+import { getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { AuditTrailLogger } from '../auditTrailLogger';
+import { describeAccessChanges, describeWarehouseAccess, getRoleLabel, isValidInviteEmail } from '../teamAccess';
+import { clearPermissionCheckCache, requirePermission } from './permissions';
+
+const logger = createLogger('team');
+
+const toAccess = (member: TeamAccess): TeamAccess => ({
+  role: member.role,
+  custom_role_id: member.custom_role_id ?? null,
+  is_active: member.is_active,
+  warehouse_ids: member.warehouse_ids && member.warehouse_ids.length > 0 ? member.warehouse_ids : null
+});
+
+const logAccessChange = (
+  userId: string,
+  email: string,
+  action: 'created' | 'updated' | 'deleted',
+  before: TeamAccess | null,
+  after: TeamAccess | null,
+  changes: string[]
+) =>
+  AuditTrailLogger.logPermissionChange(userId, email, action, before, after, changes)
+    .catch(error => logger.warn('Failed to audit team access change:', error));
+
+export const getTeamMembers = async (): Promise<TeamMember[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase.rpc('get_organization_members', {
+      p_organization_id: organizationId
+    });
+
+    if (error) {
+      handleSupabaseError('fetch team members', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching team members:', error);
+    return [];
+  }
+};
+
+export const getTeamInvitations = async (): Promise<TeamInvitation[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError('fetch team invitations', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching team invitations:', error);
+    return [];
+  }
+};
+
+/**
+ * Invite someone by email through the invite-team-member edge function.
+ * Returns whether they already had an account; those join only once they
+ * accept the invitation in the app.
+ */
+export const inviteTeamMember = async (
+  input: TeamInviteInput,
+  warehouseNames?: Map<string, string>
+): Promise<{ existingUser: boolean }> => {
+  const email = input.email.trim().toLowerCase();
+  if (!isValidInviteEmail(email)) {
+    throw new Error('Enter a valid email address');
+  }
+  await requirePermission('admin', 'create');
+
+  const { organizationId } = await getOrganizationContext();
+  const { data, error } = await supabase.functions.invoke('invite-team-member', {
+    body: {
+      organization_id: organizationId,
+      email,
+      role: input.role,
+      warehouse_ids: input.warehouse_ids,
+      redirect_to: `${window.location.origin}/login`
+    }
+  });
+
+  if (error || !data?.success) {
+    logger.error('Team invitation failed:', error || data);
+    throw new Error(data?.message || error?.message || 'Invitation failed');
+  }
+
+  const access = toAccess({ role: input.role, is_active: true, warehouse_ids: input.warehouse_ids });
+  await logAccessChange(data.user_id, email, 'created', null, access, [
+    `Invited as ${getRoleLabel(input.role)}${data.existing_user ? ' (existing account, pending acceptance)' : ''}`,
+    `Warehouses: ${describeWarehouseAccess(access.warehouse_ids, warehouseNames)}`
+  ]);
+
+  return { existingUser: !!data.existing_user };
+};
+
+/**
+ * Change a member's role, warehouse access or active status. Every change is
+ * written to the audit trail; nothing is saved when nothing changed.
+ */
+export const updateTeamMemberAccess = async (
+  member: TeamMember,
+  next: TeamAccess,
+  warehouseNames?: Map<string, string>,
+  roleNames?: Map<string, string>
+): Promise<TeamMember> => {
+  const before = toAccess(member);
+  const after = toAccess(next);
+  const changes = describeAccessChanges(before, after, warehouseNames, roleNames);
+  if (changes.length === 0) return member;
+  await requirePermission('admin', 'edit');
+
+  const { userId, organizationId } = await getOrganizationContext();
+  const deactivation = before.is_active !== after.is_active
+    ? {
+        deactivated_at: after.is_active ? null : new Date().toISOString(),
+        deactivated_by: after.is_active ? null : userId
+      }
+    : {};
+
+  const { error } = await supabase
+    .from('organization_users')
+    .update({ ...after, ...deactivation })
+    .eq('organization_id', organizationId)
+    .eq('user_id', member.user_id);
+
+  if (error) {
+    handleSupabaseError('update team member', error);
+    throw error;
+  }
+
+  clearPermissionCheckCache();
+  await logAccessChange(member.user_id, member.email, 'updated', before, after, changes);
+  return { ...member, ...after, custom_role_id: after.custom_role_id ?? null };
+};
+
+/**
+ * Withdraw an invitation nobody has used yet, removing the membership it
+ * created
+ */
+export const revokeTeamInvitation = async (invitation: TeamInvitation): Promise<void> => {
+  if (invitation.status !== 'sent') {
+    throw new Error('Only pending invitations can be revoked; deactivate the member instead');
+  }
+  await requirePermission('admin', 'delete');
+
+  const { error } = await supabase.rpc('revoke_organization_invitation', {
+    p_invitation_id: invitation.id
+  });
+
+  if (error) {
+    handleSupabaseError('revoke invitation', error);
+    throw error;
+  }
+
+  await logAccessChange(
+    invitation.user_id || invitation.id,
+    invitation.email,
+    'deleted',
+    toAccess({ role: invitation.role, is_active: true, warehouse_ids: invitation.warehouse_ids }),
+    null,
+    ['Invitation revoked']
+  );
+};
+
+/**
+ * Invitations the signed-in user has not accepted yet
+ */
+export const getMyInvitations = async (): Promise<PendingTeamInvitation[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_my_invitations');
+
+    if (error) {
+      handleSupabaseError('fetch your invitations', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching your invitations:', error);
+    return [];
+  }
+};
+
+/**
+ * Join the inviting organization with the role and warehouses it offered.
+ * Returns the organization's id.
+ */
+export const acceptTeamInvitation = async (invitationId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_organization_invitation', {
+    p_invitation_id: invitationId
+  });
+
+  if (error) {
+    handleSupabaseError('accept invitation', error);
+    throw error;
+  }
+
+  clearPermissionCheckCache();
+  return data as string;
+};
@@ -0,0 +1,227 @@
+import { supabase } from '../supabaseClient';
+import {
+  CascadePreviewTrip,
+  Trip,
+  TripChangeRequest,
+  TripChangeRequestStatus,
+  TripChangeRequestType,
+  TripFormData
+} from '../../types';
+import { getOrganizationContext, withOwner } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { AuditTrailLogger } from '../auditTrailLogger';
+import { TRIP_REQUEST_FIELDS, diffTripFields, getChangeRequestTypeLabel, needsTripApproval } from '../tripChangeRequests';
+import { getCurrentPermissions, requirePermission, stripHiddenFields } from './permissions';
+import { priceTripUpdate } from './trips';
+
+const logger = createLogger('tripChangeRequests');
+
+/**
+ * Whether the signed-in member's trip changes go through approval. When the
+ * permissions cannot be loaded the change is held back rather than written.
+ */
+export const needsTripChangeApproval = async (): Promise<boolean> => {
+  try {
+    return needsTripApproval((await getCurrentPermissions()).matrix);
+  } catch (error) {
+    logger.error('Error checking trip approval permission:', error);
+    return true;
+  }
+};
+
+export const getTripChangeRequests = async (status?: TripChangeRequestStatus): Promise<TripChangeRequest[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    let query = supabase
+      .from('trip_change_requests')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      handleSupabaseError('fetch trip change requests', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching trip change requests:', error);
+    return [];
+  }
+};
+
+const submitRequest = async (
+  trip: Pick<Trip, 'id' | 'trip_serial_number'>,
+  requestType: TripChangeRequestType,
+  fields: Partial<Pick<TripChangeRequest, 'changes' | 'proposed_values' | 'new_end_km' | 'cascade_preview' | 'reason'>>
+): Promise<TripChangeRequest> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('trip_change_requests')
+    .insert(withOwner({
+      trip_id: trip.id,
+      trip_serial_number: trip.trip_serial_number || null,
+      request_type: requestType,
+      changes: [],
+      ...fields,
+      reason: fields.reason?.trim() || null
+    }, userId, organizationId))
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`This trip already has a pending "${getChangeRequestTypeLabel(requestType)}" request`);
+    }
+    handleSupabaseError('submit trip change request', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Hold back an edit to a verified trip until an admin approves it
+ */
+export const requestTripEdit = async (
+  trip: Trip,
+  updates: Partial<TripFormData>,
+  reason?: string
+): Promise<TripChangeRequest> => {
+  await requirePermission('trips', 'edit');
+
+  // Same field hiding as a direct update, so approval cannot write what the maker cannot see
+  const { gps_screenshots, fuel_bill_file, ...proposed } = await stripHiddenFields(updates) as Record<string, unknown>;
+  const changes = diffTripFields(trip, proposed).filter(change => TRIP_REQUEST_FIELDS.includes(change.field));
+  if (changes.length === 0) {
+    throw new Error('Nothing changed on this trip');
+  }
+
+  return submitRequest(trip, 'edit', {
+    changes,
+    proposed_values: Object.fromEntries(changes.map(change => [change.field, proposed[change.field] ?? null])),
+    reason
+  });
+};
+
+/**
+ * Hold back an odometer cascade, keeping the preview the maker saw
+ */
+export const requestOdometerCascade = async (
+  trip: Pick<Trip, 'id' | 'trip_serial_number' | 'end_km'>,
+  newEndKm: number,
+  preview: CascadePreviewTrip[],
+  reason?: string
+): Promise<TripChangeRequest> => {
+  await requirePermission('trips', 'edit');
+
+  return submitRequest(trip, 'cascade', {
+    changes: [{ field: 'end_km', label: 'End KM', old_value: trip.end_km ?? null, new_value: newEndKm }],
+    new_end_km: newEndKm,
+    cascade_preview: preview,
+    reason
+  });
+};
+
+export const requestTripDeletion = async (
+  trip: Pick<Trip, 'id' | 'trip_serial_number'>,
+  reason: string
+): Promise<TripChangeRequest> => {
+  if (!reason.trim()) {
+    throw new Error('Give a reason for deleting this trip');
+  }
+
+  return submitRequest(trip, 'delete', { reason });
+};
+
+// Claim the request so two admins cannot both act on it
+const markReviewed = async (
+  request: TripChangeRequest,
+  status: Exclude<TripChangeRequestStatus, 'pending'>,
+  reviewReason: string | null
+): Promise<TripChangeRequest> => {
+  const { userId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('trip_change_requests')
+    .update({
+      status,
+      reviewed_by: userId,
+      reviewed_at: new Date().toISOString(),
+      review_reason: reviewReason
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    handleSupabaseError('review trip change request', error);
+    throw error;
+  }
+  if (!data) {
+    throw new Error('This request has already been reviewed');
+  }
+
+  return data;
+};
+
+/**
+ * Approve a request and write the change it holds, in one transaction. A
+ * request made against values the trip no longer holds is rejected as
+ * stale instead, and nothing is written.
+ */
+export const approveTripChangeRequest = async (
+  request: TripChangeRequest,
+  reviewReason?: string
+): Promise<TripChangeRequest> => {
+  await requirePermission('admin', 'edit');
+
+  const pricing = request.request_type === 'edit' && request.trip_id
+    ? await priceTripUpdate(request.trip_id, request.proposed_values || {})
+    : {};
+
+  const { data: reviewed, error } = await supabase.rpc('apply_trip_change_request', {
+    p_request_id: request.id,
+    p_review_reason: reviewReason?.trim() || null,
+    p_pricing: Object.keys(pricing).length > 0 ? pricing : null
+  });
+
+  if (error) {
+    handleSupabaseError('approve trip change request', error);
+    throw error;
+  }
+
+  await AuditTrailLogger.logTripChangeReview(reviewed)
+    .catch(auditError => logger.warn('Failed to audit trip change review:', auditError));
+
+  if (reviewed.status === 'rejected') {
+    throw new Error(reviewed.review_reason || 'The trip changed after this request was made');
+  }
+
+  return reviewed;
+};
+
+export const rejectTripChangeRequest = async (
+  request: TripChangeRequest,
+  reviewReason: string
+): Promise<TripChangeRequest> => {
+  if (!reviewReason.trim()) {
+    throw new Error('Give a reason for rejecting this request');
+  }
+  await requirePermission('admin', 'edit');
+  const reviewed = await markReviewed(request, 'rejected', reviewReason.trim());
+
+  await AuditTrailLogger.logTripChangeReview(reviewed)
+    .catch(auditError => logger.warn('Failed to audit trip change review:', auditError));
+  return reviewed;
+};
@@ -0,0 +1,159 @@
+import { supabase } from '../supabaseClient';
+import { Driver, Trip, TripImportResult, TripImportRow, Vehicle } from '../../types';
+import { getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { DataIntegrityValidator } from '../dataIntegrityValidator';
+import { generateTripSerialNumber } from '../tripSerialGenerator';
+import { logDataImport } from '../activityLogger';
+import { findOdometerConflict, getPreviousOdometerTrip } from '../offlineTrips';
+import { findDuplicateTripIds, hasTripImportErrors } from '../tripImport';
+import { requirePermission } from './permissions';
+import { buildTripInsert } from './trips';
+
+const logger = createLogger('tripImport');
+
+const EXISTING_TRIP_COLUMNS =
+  'id, vehicle_id, driver_id, trip_serial_number, manual_trip_id, trip_start_date, trip_end_date, start_km, end_km, destinations, is_return_trip';
+
+/**
+ * Saved trips an import could clash with: everything on the file's vehicles,
+ * plus any trip already carrying one of the file's trip IDs
+ */
+const getExistingTrips = async (rows: TripImportRow[]): Promise<Trip[]> => {
+  const vehicleIds = [...new Set(rows.map(row => row.trip?.vehicle_id).filter(Boolean))] as string[];
+  const tripIds = [...new Set(rows.map(row => row.trip?.manual_trip_id).filter(Boolean))] as string[];
+
+  const queries = [
+    vehicleIds.length ? supabase.from('trips_visible').select(EXISTING_TRIP_COLUMNS).in('vehicle_id', vehicleIds) : null,
+    tripIds.length ? supabase.from('trips_visible').select(EXISTING_TRIP_COLUMNS).in('manual_trip_id', tripIds) : null,
+    tripIds.length ? supabase.from('trips_visible').select(EXISTING_TRIP_COLUMNS).in('trip_serial_number', tripIds) : null
+  ];
+
+  const results = await Promise.all(queries.map(query => query ?? Promise.resolve({ data: [], error: null })));
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    handleSupabaseError('fetch trips for import validation', failed.error);
+    throw failed.error;
+  }
+
+  const byId = new Map<string, Trip>();
+  results.forEach(result => (result.data as Trip[] | null)?.forEach(trip => byId.set(trip.id, trip)));
+  return [...byId.values()];
+};
+
+/**
+ * Check resolved rows against the trips already saved and the rest of the
+ * file: duplicate trip IDs, overlapping odometer ranges and the data
+ * integrity rules applied to trips entered by hand
+ */
+export const validateTripImportRows = async (
+  rows: TripImportRow[],
+  vehicles: Vehicle[],
+  drivers: Driver[]
+): Promise<TripImportRow[]> => {
+  const existing = await getExistingTrips(rows);
+  const duplicateIds = findDuplicateTripIds(rows, existing);
+
+  // Rows stand in as trips so they are checked against each other too
+  const imported = rows
+    .filter(row => row.trip)
+    .map(row => ({ ...row.trip!, id: `import-row-${row.row}`, trip_serial_number: `row ${row.row}` }) as Trip);
+  const known = [...existing, ...imported];
+
+  return Promise.all(rows.map(async row => {
+    if (!row.trip) return row;
+
+    const errors = [...row.errors];
+    const warnings = [...row.warnings];
+    const trip = imported.find(t => t.id === `import-row-${row.row}`)!;
+    const others = known.filter(t => t.id !== trip.id);
+
+    if (duplicateIds.has(row.row)) {
+      errors.push({ field: 'manual_trip_id', message: duplicateIds.get(row.row)! });
+    }
+
+    const conflict = findOdometerConflict(trip, others);
+    if (conflict) {
+      errors.push({
+        field: 'start_km',
+        message: conflict.type === 'duplicate'
+          ? `Already recorded as ${conflict.trip_serial_number}`
+          : `Odometer ${trip.start_km}–${trip.end_km} overlaps ${conflict.trip_serial_number} (${conflict.start_km}–${conflict.end_km})`
+      });
+    }
+
+    const vehicle = vehicles.find(v => v.id === trip.vehicle_id)!;
+    const driver = drivers.find(d => d.id === trip.driver_id)!;
+    const previousTrip = getPreviousOdometerTrip(
+      others.filter(t => t.start_km < trip.start_km),
+      trip.vehicle_id,
+      trip.trip_start_date
+    ) || undefined;
+
+    const result = await DataIntegrityValidator.validateTrip(trip, { previousTrip, vehicle, driver, allTrips: known });
+
+    result.errors.forEach(error => {
+      // Sheets carry dates without times, so same-day trips look concurrent;
+      // real clashes show up as odometer overlaps above
+      const blocking = (error.severity === 'critical' || error.severity === 'high') && error.field !== 'trip_timing';
+      (blocking ? errors : warnings).push({ field: error.field, message: error.message });
+    });
+    result.warnings.forEach(warning => warnings.push({ field: warning.field, message: warning.message }));
+
+    return { ...row, errors, warnings };
+  }));
+};
+
+/**
+ * Save every row of a validated import in one insert, so either all trips
+ * are created or none are. Serials are assigned in date order per vehicle,
+ * and each row is built and priced the same way createTrip does it.
+ */
+export const commitTripImport = async (rows: TripImportRow[], fileName: string): Promise<TripImportResult> => {
+  if (rows.length === 0 || hasTripImportErrors(rows)) {
+    throw new Error('Fix the rows with errors before importing');
+  }
+
+  const { userId, organizationId } = await getOrganizationContext();
+  await requirePermission('trips', 'create');
+
+  const ordered = [...rows].sort((a, b) =>
+    a.trip!.trip_start_date.localeCompare(b.trip!.trip_start_date) || a.trip!.start_km - b.trip!.start_km
+  );
+
+  // The generator continues from the highest saved serial; the attempt
+  // number moves each further row of the same vehicle and year along
+  const attempts = new Map<string, number>();
+  const payload = [];
+  for (const row of ordered) {
+    const trip = row.trip!;
+    const key = `${trip.vehicle_id}|${trip.trip_start_date.slice(0, 4)}`;
+    const attempt = attempts.get(key) ?? 0;
+    attempts.set(key, attempt + 1);
+
+    const serial = await generateTripSerialNumber(row.vehicle_registration, trip.trip_start_date, trip.vehicle_id, attempt);
+    payload.push(await buildTripInsert({ ...trip, trip_serial_number: serial } as Omit<Trip, 'id'>, userId, organizationId));
+  }
+
+  const { data, error } = await supabase
+    .from('trips')
+    .insert(payload)
+    .select('trip_serial_number');
+
+  if (error) {
+    await logDataImport(userId, 'trips', rows.length, 0, rows.length, { file_name: fileName, error: error.message })
+      .catch(logError => logger.warn('Failed to log trip import:', logError));
+    handleSupabaseError('import trips', error);
+    throw error;
+  }
+
+  const serials = (data || []).map(trip => trip.trip_serial_number as string);
+  await logDataImport(userId, 'trips', rows.length, serials.length, 0, {
+    file_name: fileName,
+    first_serial: serials[0],
+    last_serial: serials[serials.length - 1]
+  }).catch(logError => logger.warn('Failed to log trip import:', logError));
+
+  return { imported: serials.length, serials };
+};
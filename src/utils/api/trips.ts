@@ -4,34 +4,36 @@ import { Trip } from '../../types';
 import { getCurrentUserId, withOwner, getUserActiveOrganization } from '../supaHelpers';
 import { handleSupabaseError } from '../errors';
 import { createLogger } from '../logger';
+import { findApplicableFreightRate } from './freightRates';
+import { getFreightRateCriteria, priceTripFromFreightRate } from '../freightRates';
+import { canCurrentUser, getCurrentPermissions, requirePermission, stripHiddenFields } from './permissions';
+import { diffTripFields, needsTripApproval } from '../tripChangeRequests';
 
 const logger = createLogger('trips');
 
-// Shri Durga Enterprises organization ID
-const SHRI_DURGA_ORG_ID = 'ab6c2178-32f9-4a03-b5ab-d535db827a58';
+/**
+ * Price a trip from the organisation's freight rate table, in place.
+ * Returns false, leaving the trip untouched, when no rate applies or the
+ * trip lacks the weight or distance the rate's billing type needs.
+ */
+const applyFreightRate = async (tripData: any): Promise<boolean> => {
+  const rate = await findApplicableFreightRate(getFreightRateCriteria(tripData));
+  if (!rate) return false;
 
-// Warehouse-specific freight rates for Shri Durga Enterprises
-const getFreightRateForWarehouse = async (warehouseId: string): Promise<number | null> => {
-  try {
-    const { data: warehouse, error } = await supabase
-      .from('warehouses')
-      .select('name')
-      .eq('id', warehouseId)
-      .single();
+  const priced = priceTripFromFreightRate(rate, tripData);
+  if (priced.income_amount === null) return false;
 
-    if (error || !warehouse) return null;
+  Object.assign(tripData, priced);
 
-    const warehouseName = warehouse.name.toLowerCase();
-    
-    if (warehouseName.includes('raipur')) return 2.15;
-    if (warehouseName.includes('sambarkur') || warehouseName.includes('sambalpur')) return 2.21;
-    if (warehouseName.includes('bilaspur')) return 2.75;
-    
-    return null;
-  } catch (error) {
-    logger.error('Error getting freight rate for warehouse:', error);
-    return null;
-  }
+  logger.info('Auto-populated freight rate from rate table', {
+    freightRateId: rate.id,
+    warehouseId: tripData.warehouse_id,
+    freightRate: priced.freight_rate,
+    billingType: priced.billing_type,
+    income: priced.income_amount
+  });
+
+  return true;
 };
 
 export const getTrips = async (): Promise<Trip[]> => {
@@ -58,9 +60,13 @@ export const getTrips = async (): Promise<Trip[]> => {
       return [];
     }
 
+    if (!(await canCurrentUser('trips'))) {
+      return [];
+    }
+
     // First get the total count
     const { count, error: countError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .eq('organization_id', organizationId);
     
@@ -85,7 +91,7 @@ export const getTrips = async (): Promise<Trip[]> => {
     if (totalCount <= BATCH_SIZE) {
       // If total is less than batch size, fetch in one go
       const { data, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*')
         .eq('organization_id', organizationId)
         .order('trip_start_date', { ascending: false })
@@ -107,7 +113,7 @@ export const getTrips = async (): Promise<Trip[]> => {
         const end = Math.min(start + BATCH_SIZE - 1, totalCount - 1);
         
         const { data, error } = await supabase
-          .from('trips')
+          .from('trips_visible')
           .select('*')
           .eq('organization_id', organizationId)
           .order('trip_start_date', { ascending: false })
@@ -141,7 +147,7 @@ export const getTrips = async (): Promise<Trip[]> => {
 
 export const getTrip = async (id: string): Promise<Trip | null> => {
   const { data, error } = await supabase
-    .from('trips')
+    .from('trips_visible')
     .select('*')
     .eq('id', id)
     .single();
@@ -154,6 +160,54 @@ export const getTrip = async (id: string): Promise<Trip | null> => {
   return data;
 };
 
+/**
+ * The row saved for a new trip: hidden fields stripped, blank references
+ * cleared and income priced from the freight rate table. Imports build
+ * their rows here too, so they are priced the same way as trips entered by
+ * hand.
+ */
+export const buildTripInsert = async (
+  tripData: Omit<Trip, 'id'>,
+  userId: string,
+  organizationId: string
+) => {
+  const sanitizedTripData = await stripHiddenFields({ ...tripData }) as any;
+
+  // Remove station field as it's no longer in the database
+  delete sanitizedTripData.station;
+
+  if (sanitizedTripData.fuel_station_id === '') {
+    sanitizedTripData.fuel_station_id = null;
+  }
+  if (sanitizedTripData.vehicle_id === '') {
+    sanitizedTripData.vehicle_id = null;
+  }
+  if (sanitizedTripData.driver_id === '') {
+    sanitizedTripData.driver_id = null;
+  }
+  if (sanitizedTripData.warehouse_id === '') {
+    sanitizedTripData.warehouse_id = null;
+  }
+  if (sanitizedTripData.customer_id === '') {
+    sanitizedTripData.customer_id = null;
+  }
+
+  // Price from the freight rate table; a matched contract rate or
+  // manually entered income takes precedence
+  if (sanitizedTripData.warehouse_id && !sanitizedTripData.contract_rate_id && sanitizedTripData.billing_type !== 'manual') {
+    await applyFreightRate(sanitizedTripData);
+  }
+
+  return withOwner({
+    ...sanitizedTripData,
+    fuel_station_id: sanitizedTripData.fuel_station_id ?? null,
+    fuel_expense: sanitizedTripData.fuel_expense || sanitizedTripData.fuel_cost || 0,
+    fuel_cost: sanitizedTripData.fuel_cost || sanitizedTripData.fuel_expense || 0,
+    // Ensure total_fuel_cost is properly handled
+    total_fuel_cost: sanitizedTripData.total_fuel_cost || 0,
+  }, userId, organizationId);
+};
+
 export const createTrip = async (tripData: Omit<Trip, 'id'>): Promise<Trip | null> => {
   try {
     const userId = await getCurrentUserId();
@@ -166,61 +220,17 @@ export const createTrip = async (tripData: Omit<Trip, 'id'>): Promise<Trip | nul
       throw new Error('No organization selected. Please select an organization.');
     }
 
-    const sanitizedTripData = { ...tripData } as any;
-    
-    // Extract GPS screenshots before saving trip
-    const gpsScreenshots = sanitizedTripData.gps_screenshots || [];
-    delete sanitizedTripData.gps_screenshots;
-    
-    // Remove station field as it's no longer in the database
-    delete sanitizedTripData.station;
-    
-    if (sanitizedTripData.fuel_station_id === '') {
-      sanitizedTripData.fuel_station_id = null;
-    }
-    if (sanitizedTripData.vehicle_id === '') {
-      sanitizedTripData.vehicle_id = null;
-    }
-    if (sanitizedTripData.driver_id === '') {
-      sanitizedTripData.driver_id = null;
-    }
-    if (sanitizedTripData.warehouse_id === '') {
-      sanitizedTripData.warehouse_id = null;
-    }
-
-    // Auto-populate freight_rate for Shri Durga Enterprises based on warehouse
-    if (organizationId === SHRI_DURGA_ORG_ID && sanitizedTripData.warehouse_id) {
-      const freightRate = await getFreightRateForWarehouse(sanitizedTripData.warehouse_id);
-      if (freightRate && sanitizedTripData.gross_weight) {
-        sanitizedTripData.freight_rate = freightRate;
-        sanitizedTripData.billing_type = 'per_ton';
-        
-        // Calculate and round income_amount
-        const calculatedIncome = sanitizedTripData.gross_weight * freightRate;
-        sanitizedTripData.income_amount = Math.round(calculatedIncome * 100) / 100;
-        
-        logger.info('Auto-populated freight rate for Shri Durga Enterprises', {
-          warehouseId: sanitizedTripData.warehouse_id,
-          freightRate,
-          grossWeight: sanitizedTripData.gross_weight,
-          income: sanitizedTripData.income_amount
-        });
-      }
-    }
+    await requirePermission('trips', 'create');
 
-    const payload = withOwner({
-      ...sanitizedTripData,
-      fuel_station_id: sanitizedTripData.fuel_station_id ?? null,
-      fuel_expense: sanitizedTripData.fuel_expense || sanitizedTripData.fuel_cost || 0,
-      fuel_cost: sanitizedTripData.fuel_cost || sanitizedTripData.fuel_expense || 0,
-      // Ensure total_fuel_cost is properly handled
-      total_fuel_cost: sanitizedTripData.total_fuel_cost || 0,
-    }, userId, organizationId);
+    // Extract GPS screenshots before saving trip
+    const { gps_screenshots: gpsScreenshots = [], ...tripFields } = tripData as any;
+    const payload = await buildTripInsert(tripFields, userId, organizationId);
 
-    const { data, error } = await supabase
+    // Revenue columns are read back through trips_visible
+    const { data: saved, error } = await supabase
       .from('trips')
       .insert(payload)
-      .select('*')
+      .select('id')
       .single();
 
     if (error) {
@@ -228,6 +238,8 @@ export const createTrip = async (tripData: Omit<Trip, 'id'>): Promise<Trip | nul
       throw error;
     }
 
+    const data = await getTrip(saved.id);
+
     // Handle GPS screenshots if provided
     if (data && gpsScreenshots.length > 0) {
       await handleGPSScreenshots(data.id, gpsScreenshots);
@@ -327,11 +339,44 @@ const handleGPSScreenshots = async (tripId: string, screenshots: any[]) => {
   console.log('🎉 Finished processing all screenshots');
 };
 
+/**
+ * Freight rate, billing type and income re-priced from the freight rate
+ * table when an update saves the trip's route; empty when the trip keeps
+ * its price. Approved change requests are priced here too.
+ */
+export const priceTripUpdate = async (
+  id: string,
+  updateData: Record<string, any>
+): Promise<Partial<Pick<Trip, 'freight_rate' | 'billing_type' | 'income_amount'>>> => {
+  if (!updateData.warehouse_id || updateData.contract_rate_id || updateData.billing_type === 'manual') {
+    return {};
+  }
+
+  const { data: existingTrip } = await supabase
+    .from('trips_visible')
+    .select('trip_start_date, destinations, material_type_ids, start_km, end_km, gross_weight, billing_type, contract_rate_id, invoice_id')
+    .eq('id', id)
+    .single();
+
+  const merged: Record<string, any> = { ...existingTrip, ...updateData };
+
+  if (merged.contract_rate_id || merged.billing_type === 'manual' || merged.invoice_id || !(await applyFreightRate(merged))) {
+    return {};
+  }
+
+  return {
+    freight_rate: merged.freight_rate,
+    billing_type: merged.billing_type,
+    income_amount: merged.income_amount
+  };
+};
+
 export const updateTrip = async (id: string, updates: Partial<Trip>): Promise<Trip | null> => {
   try {
     console.log('🔄 updateTrip called with:', { id, hasGpsScreenshots: !!updates.gps_screenshots });
     
-    const updateData = { ...updates } as any;
+    await requirePermission('trips', 'edit');
+    const updateData = await stripHiddenFields({ ...updates }) as any;
     
     // Extract GPS screenshots before updating trip
     const gpsScreenshots = updateData.gps_screenshots || [];
@@ -341,6 +386,10 @@ export const updateTrip = async (id: string, updates: Partial<Trip>): Promise<Tr
     // Remove station field as it's no longer in the database
     delete updateData.station;
     
+    if (updateData.customer_id === '') {
+      updateData.customer_id = null;
+    }
+
     // Get organization ID from existing trip if not provided
     const userId = await getCurrentUserId();
     if (!userId) {
@@ -352,41 +401,21 @@ export const updateTrip = async (id: string, updates: Partial<Trip>): Promise<Tr
       throw new Error('No organization selected. Please select an organization.');
     }
 
-    // Auto-populate freight_rate for Shri Durga Enterprises if warehouse is being updated
-    if (organizationId === SHRI_DURGA_ORG_ID && updateData.warehouse_id) {
-      const freightRate = await getFreightRateForWarehouse(updateData.warehouse_id);
-      
-      // Get existing trip data if needed
-      const { data: existingTrip } = await supabase
-        .from('trips')
-        .select('gross_weight')
-        .eq('id', id)
-        .single();
-      
-      const grossWeight = updateData.gross_weight ?? existingTrip?.gross_weight;
-      
-      if (freightRate && grossWeight) {
-        updateData.freight_rate = freightRate;
-        updateData.billing_type = 'per_ton';
-        
-        // Calculate and round income_amount
-        const calculatedIncome = grossWeight * freightRate;
-        updateData.income_amount = Math.round(calculatedIncome * 100) / 100;
-        
-        logger.info('Auto-populated freight rate for Shri Durga Enterprises on update', {
-          warehouseId: updateData.warehouse_id,
-          freightRate,
-          grossWeight,
-          income: updateData.income_amount
-        });
+    // Verified trips change only through an approved change request for makers
+    if (needsTripApproval((await getCurrentPermissions()).matrix)) {
+      const { data: currentTrip } = await supabase.from('trips_visible').select('*').eq('id', id).single();
+      if (currentTrip?.expense_verified && diffTripFields(currentTrip, updateData).length > 0) {
+        throw new Error('This trip is verified; submit a change request for approval');
       }
     }
+
+    Object.assign(updateData, await priceTripUpdate(id, updateData));
     
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('trips')
       .update(updateData)
       .eq('id', id)
-      .select('*')
+      .select('id')
       .single();
 
     if (error) {
@@ -394,6 +423,8 @@ export const updateTrip = async (id: string, updates: Partial<Trip>): Promise<Tr
       throw error;
     }
 
+    const data = await getTrip(id);
+
     console.log('✅ Trip updated, now handling screenshots...');
 
     // Handle GPS screenshots if provided
@@ -413,6 +444,8 @@ export const updateTrip = async (id: string, updates: Partial<Trip>): Promise<Tr
 };
 
 export const deleteTrip = async (id: string): Promise<boolean> => {
+  await requirePermission('trips', 'delete');
+
   const { error } = await supabase
     .from('trips')
     .delete()
@@ -0,0 +1,128 @@
+import { supabase } from '../supabaseClient';
+import { Tyre, TyreEvent, TyreEventInput, TyreFormData } from '../../types';
+import { withOwner, getOrganizationContext } from '../supaHelpers';
+import { handleSupabaseError } from '../errors';
+import { createLogger } from '../logger';
+import { validateTyreEvent } from '../tyreLifecycle';
+
+const logger = createLogger('tyres');
+
+/**
+ * Fetch the tyre register for the active organization
+ */
+export const getTyres = async (): Promise<Tyre[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('tyres')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('serial_number');
+
+    if (error) {
+      handleSupabaseError('fetch tyres', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching tyres:', error);
+    return [];
+  }
+};
+
+export const getTyreEvents = async (): Promise<TyreEvent[]> => {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const { data, error } = await supabase
+      .from('tyre_events')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('event_date')
+      .order('created_at');
+
+    if (error) {
+      handleSupabaseError('fetch tyre events', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error('Error fetching tyre events:', error);
+    return [];
+  }
+};
+
+export const createTyre = async (tyre: TyreFormData): Promise<Tyre> => {
+  const { userId, organizationId } = await getOrganizationContext();
+
+  const { data, error } = await supabase
+    .from('tyres')
+    .insert(withOwner({
+      ...tyre,
+      serial_number: tyre.serial_number.trim().toUpperCase(),
+      status: 'in_stock'
+    }, userId, organizationId))
+    .select()
+    .single();
+
+  if (error) {
+    handleSupabaseError('create tyre', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Log a lifecycle event and move the tyre to its new state, in one
+ * transaction. Rotating onto an occupied position swaps the two tyres.
+ * Returns the tyres that changed.
+ */
+const saveTyreEvent = async (tyre: Tyre, event: TyreEventInput): Promise<Tyre[]> => {
+  const { data, error } = await supabase.rpc('record_tyre_event', {
+    p_tyre_id: tyre.id,
+    p_event: event
+  });
+
+  if (error) {
+    handleSupabaseError('record tyre event', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Log a lifecycle event and move the tyre to its new state. occupant is
+ * the tyre already at the position the event fits it to, if any.
+ */
+export const recordTyreEvent = async (tyre: Tyre, event: TyreEventInput, occupant?: Tyre): Promise<Tyre> => {
+  const validationError = validateTyreEvent(tyre, event, occupant);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const saved = await saveTyreEvent(tyre, event);
+  return saved.find(t => t.id === tyre.id) || tyre;
+};
+
+/**
+ * Rotate a tyre to another position. If a tyre is already fitted there the
+ * two swap places, and both moves are logged.
+ */
+export const rotateTyre = async (
+  tyre: Tyre,
+  toPosition: string,
+  details: Pick<TyreEventInput, 'event_date' | 'odometer' | 'notes'>
+): Promise<Tyre[]> => {
+  const event: TyreEventInput = { ...details, event_type: 'rotated', to_position: toPosition };
+  const validationError = validateTyreEvent(tyre, event);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  return saveTyreEvent(tyre, event);
+};
@@ -3,6 +3,7 @@ import config from '../env';
 import { Vehicle } from '../../types';
 import { uploadVehicleDocument } from '../supabaseStorage';
 import { getCurrentUserId, withOwner, getUserActiveOrganization } from '../supaHelpers';
+import { canCurrentUser, requirePermission } from './permissions';
 import { generateCSV, downloadCSV } from '../csvParser';
 import { handleSupabaseError } from '../errors';
 import { createLogger } from '../logger';
@@ -51,6 +52,10 @@ export const getVehicles = async (): Promise<Vehicle[]> => {
       return [];
     }
 
+    if (!(await canCurrentUser('vehicles'))) {
+      return [];
+    }
+
     const { data, error } = await supabase
       .from('vehicles')
       .select(`
@@ -140,6 +145,8 @@ export const createVehicle = async (vehicleData: Omit<Vehicle, 'id'>): Promise<V
       throw new Error('No organization selected. Please select an organization.');
     }
 
+    await requirePermission('vehicles', 'create');
+
     // Strip UI-only fields and prepare data
     const { documents, selected, ...cleanData } = vehicleData as any;
 
@@ -187,6 +194,8 @@ export const createVehicle = async (vehicleData: Omit<Vehicle, 'id'>): Promise<V
 
 export const updateVehicle = async (id: string, values: any): Promise<Vehicle | null> => {
   try {
+    await requirePermission('vehicles', 'edit');
+
     // ✅ CRITICAL FIX: Filter out vehicle_tags before processing
     const filteredValues = filterVehicleUpdateData(values);
     
@@ -301,6 +310,8 @@ export const updateVehicle = async (id: string, values: any): Promise<Vehicle |
 };
 
 export const deleteVehicle = async (id: string): Promise<boolean> => {
+  await requirePermission('vehicles', 'delete');
+
   const { error } = await supabase
     .from('vehicles')
     .delete()
@@ -316,6 +327,8 @@ export const deleteVehicle = async (id: string): Promise<boolean> => {
 
 export const bulkArchiveVehicles = async (vehicleIds: string[]): Promise<boolean> => {
   try {
+    await requirePermission('vehicles', 'edit');
+
     const { error } = await supabase
       .from('vehicles')
       .update({ status: 'archived' })
@@ -335,6 +348,7 @@ export const bulkArchiveVehicles = async (vehicleIds: string[]): Promise<boolean
 
 export const exportVehicleData = async (): Promise<void> => {
   try {
+    await requirePermission('vehicles', 'export');
     const vehicles = await getVehicles();
 
     const headers = {
@@ -365,6 +379,8 @@ export const exportVehicleData = async (): Promise<void> => {
 
 export const bulkUnarchiveVehicles = async (vehicleIds: string[]): Promise<boolean> => {
   try {
+    await requirePermission('vehicles', 'edit');
+
     const { error } = await supabase
       .from('vehicles')
       .update({ status: 'active' })
@@ -387,7 +403,7 @@ export const getVehicleTrips = async (vehicleId: string, limit = 10) => {
     logger.debug('🔍 Fetching trips for vehicle:', vehicleId);
     
     const { data: trips, error } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         *,
         driver:drivers!driver_id (
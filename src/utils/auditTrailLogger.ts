@@ -1,12 +1,13 @@
 import { supabase } from './supabaseClient';
 import { createLogger } from './logger';
+import { TripChangeRequest } from '../types';
 
 const logger = createLogger('auditTrailLogger');
 
 export interface AuditTrailEntry {
   id?: string;
   operation_type: string;
-  operation_category: 'trip_data' | 'vehicle_data' | 'driver_data' | 'fuel_data' | 'system_maintenance';
+  operation_category: 'trip_data' | 'vehicle_data' | 'driver_data' | 'fuel_data' | 'system_maintenance' | 'user_access';
   entity_type: string;
   entity_id: string;
   entity_description?: string;
@@ -55,7 +56,7 @@ export class AuditTrailLogger {
    */
   static async logOperation(
     operationType: string,
-    operationCategory: 'trip_data' | 'vehicle_data' | 'driver_data' | 'fuel_data' | 'system_maintenance',
+    operationCategory: 'trip_data' | 'vehicle_data' | 'driver_data' | 'fuel_data' | 'system_maintenance' | 'user_access',
     entityType: string,
     entityId: string,
     actionPerformed: 'created' | 'updated' | 'deleted' | 'validated' | 'corrected' | 'flagged' | 'analyzed' | 'detected',
@@ -409,6 +410,65 @@ export class AuditTrailLogger {
     );
   }
 
+  /**
+   * Log a change to a team member's role, warehouse access or status
+   */
+  static async logPermissionChange(
+    userId: string,
+    email: string,
+    actionPerformed: 'created' | 'updated' | 'deleted',
+    beforeAccess: any,
+    afterAccess: any,
+    changes: string[]
+  ): Promise<string | null> {
+    return this.logOperation(
+      'permission_change',
+      'user_access',
+      'organization_user',
+      userId,
+      actionPerformed,
+      {
+        entityDescription: `Team access for ${email}`,
+        changesMade: {
+          before: beforeAccess,
+          after: afterAccess,
+          changes
+        },
+        severityLevel: 'warning',
+        tags: ['team_management', 'permissions'],
+        businessContext: changes.join('; ')
+      }
+    );
+  }
+
+  /**
+   * Log an admin's decision on a maker's trip change request
+   */
+  static async logTripChangeReview(request: TripChangeRequest): Promise<string | null> {
+    const approved = request.status === 'approved';
+    return this.logOperation(
+      'trip_change_review',
+      'trip_data',
+      'trip',
+      request.trip_id || request.id,
+      approved ? (request.request_type === 'delete' ? 'deleted' : 'corrected') : 'flagged',
+      {
+        entityDescription: `Trip ${request.trip_serial_number || request.trip_id} ${request.request_type} request ${request.status}`,
+        changesMade: {
+          request_id: request.id,
+          request_type: request.request_type,
+          changes: request.changes,
+          requested_by: request.created_by,
+          request_reason: request.reason,
+          review_reason: request.review_reason
+        },
+        severityLevel: 'warning',
+        tags: ['maker_checker', 'trip_change_request'],
+        businessContext: request.review_reason || request.reason || undefined
+      }
+    );
+  }
+
   /**
    * Get audit trail for a specific entity
    */
@@ -0,0 +1,194 @@
+import { format } from 'date-fns';
+import {
+  AvailabilityBlock,
+  AvailabilityBlockKind,
+  AvailabilityResourceType,
+  Driver,
+  DriverLeave,
+  DriverLeaveType,
+  PlannedTrip,
+  ResourceAvailability,
+  Trip,
+  Vehicle
+} from '../types';
+import { ACTIVE_PLAN_STATUSES, DispatchMaintenanceTask, getMaintenanceWindow, rangesOverlap } from './dispatchPlanning';
+
+export const LEAVE_TYPE_LABELS: Record<DriverLeaveType, string> = {
+  leave: 'Leave',
+  sick: 'Sick',
+  training: 'Training',
+  other: 'Off duty'
+};
+
+export const BLOCK_KIND_LABELS: Record<AvailabilityBlockKind, string> = {
+  trip: 'Trip',
+  planned_trip: 'Planned trip',
+  maintenance: 'Maintenance',
+  leave: 'Leave',
+  status: 'Unavailable'
+};
+
+// Earlier kinds win when a day has more than one block
+export const BLOCK_KIND_ORDER: AvailabilityBlockKind[] = ['status', 'maintenance', 'leave', 'trip', 'planned_trip'];
+
+export const getBlockKindStyle = (kind: AvailabilityBlockKind) => {
+  switch (kind) {
+    case 'trip':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'planned_trip':
+      return 'bg-primary-100 text-primary-800 border-primary-200';
+    case 'maintenance':
+      return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'leave':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    case 'status':
+      return 'bg-red-100 text-red-800 border-red-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+const DRIVER_STATUS_LABELS: Partial<Record<Driver['status'], string>> = {
+  onLeave: 'Marked on leave',
+  inactive: 'Inactive',
+  suspended: 'Suspended',
+  blacklisted: 'Blacklisted'
+};
+
+export type AvailabilityTrip = Pick<Trip, 'id' | 'vehicle_id' | 'driver_id' | 'trip_start_date' | 'trip_end_date' | 'trip_serial_number'>;
+
+export interface AvailabilitySources {
+  vehicles: Pick<Vehicle, 'id' | 'status'>[];
+  drivers: Pick<Driver, 'id' | 'status'>[];
+  trips: AvailabilityTrip[];
+  plannedTrips: PlannedTrip[];
+  maintenanceTasks: DispatchMaintenanceTask[];
+  leaves: DriverLeave[];
+  today?: string; // yyyy-MM-dd; status blocks run from here
+}
+
+const day = (value: string) => value.slice(0, 10);
+
+/**
+ * Everything keeping vehicles and drivers busy: recorded trips, active plans,
+ * maintenance downtime, leave, and statuses that take them off the road from
+ * today until changed
+ */
+export const buildAvailabilityBlocks = (sources: AvailabilitySources): AvailabilityBlock[] => {
+  const today = sources.today || format(new Date(), 'yyyy-MM-dd');
+  const blocks: AvailabilityBlock[] = [];
+
+  sources.trips.forEach(trip => {
+    const base = {
+      kind: 'trip' as const,
+      start: day(trip.trip_start_date),
+      // A trip still running keeps its vehicle and driver busy until it ends
+      end: trip.trip_end_date ? day(trip.trip_end_date) : null,
+      label: (trip.trip_serial_number ? `Trip ${trip.trip_serial_number}` : 'Trip') +
+        (trip.trip_end_date ? '' : ' (running)'),
+      reference_id: trip.id
+    };
+    if (trip.vehicle_id) blocks.push({ ...base, resource_type: 'vehicle', resource_id: trip.vehicle_id });
+    if (trip.driver_id) blocks.push({ ...base, resource_type: 'driver', resource_id: trip.driver_id });
+  });
+
+  sources.plannedTrips
+    .filter(plan => ACTIVE_PLAN_STATUSES.includes(plan.status))
+    .forEach(plan => {
+      const base = {
+        kind: 'planned_trip' as const,
+        start: day(plan.planned_start_date),
+        end: day(plan.planned_end_date),
+        label: plan.status === 'dispatched' ? 'Dispatched trip' : 'Planned trip',
+        reference_id: plan.id
+      };
+      blocks.push({ ...base, resource_type: 'vehicle', resource_id: plan.vehicle_id });
+      blocks.push({ ...base, resource_type: 'driver', resource_id: plan.driver_id });
+    });
+
+  sources.maintenanceTasks
+    .filter(task => task.status !== 'resolved')
+    .forEach(task => {
+      const window = getMaintenanceWindow(task);
+      blocks.push({
+        resource_type: 'vehicle',
+        resource_id: task.vehicle_id,
+        kind: 'maintenance',
+        start: window.start,
+        end: window.end,
+        label: window.end ? 'Maintenance' : 'Maintenance (open)',
+        reference_id: task.id
+      });
+    });
+
+  sources.leaves.forEach(leave => {
+    blocks.push({
+      resource_type: 'driver',
+      resource_id: leave.driver_id,
+      kind: 'leave',
+      start: day(leave.start_date),
+      end: day(leave.end_date),
+      label: leave.reason ? `${LEAVE_TYPE_LABELS[leave.leave_type]}: ${leave.reason}` : LEAVE_TYPE_LABELS[leave.leave_type],
+      reference_id: leave.id
+    });
+  });
+
+  sources.vehicles
+    .filter(vehicle => vehicle.status !== 'active')
+    .forEach(vehicle => {
+      blocks.push({
+        resource_type: 'vehicle',
+        resource_id: vehicle.id,
+        kind: 'status',
+        start: today,
+        end: null,
+        label: `Status: ${vehicle.status}`
+      });
+    });
+
+  sources.drivers.forEach(driver => {
+    const label = DRIVER_STATUS_LABELS[driver.status];
+    if (!driver.id || !label) return;
+    blocks.push({ resource_type: 'driver', resource_id: driver.id, kind: 'status', start: today, end: null, label });
+  });
+
+  return blocks;
+};
+
+export const getResourceBlocks = (
+  blocks: AvailabilityBlock[],
+  resourceType: AvailabilityResourceType,
+  resourceId: string,
+  from: string,
+  to: string = from
+): AvailabilityBlock[] =>
+  blocks.filter(block =>
+    block.resource_type === resourceType &&
+    block.resource_id === resourceId &&
+    rangesOverlap(block.start, block.end, from, to)
+  );
+
+/**
+ * Split resources into those free for the whole period and those with
+ * something booked in it
+ */
+export const getResourceAvailability = <T extends { id?: string }>(
+  resources: T[],
+  resourceType: AvailabilityResourceType,
+  blocks: AvailabilityBlock[],
+  from: string,
+  to: string
+): ResourceAvailability<T> => {
+  const result: ResourceAvailability<T> = { free: [], busy: [] };
+
+  resources.forEach(resource => {
+    const resourceBlocks = resource.id ? getResourceBlocks(blocks, resourceType, resource.id, from, to) : [];
+    if (resourceBlocks.length === 0) {
+      result.free.push(resource);
+    } else {
+      result.busy.push({ resource, blocks: resourceBlocks });
+    }
+  });
+
+  return result;
+};
@@ -1,5 +1,7 @@
 import { supabase } from './supabaseClient';
 import { createLogger } from './logger';
+import { ContractRate } from '../types';
+import { getFuelAdjustedRate } from './contractRateResolver';
 
 const logger = createLogger('BillingSettings');
 
@@ -102,16 +104,31 @@ export const getBillingTypeLabel = (type: BillingType): string => {
   }
 };
 
+export interface ContractIncomeOptions {
+  contract: ContractRate;
+  currentFuelPrice?: number | null;
+}
+
 /**
- * Calculate income based on billing type
+ * Calculate income based on billing type.
+ * When a contract is supplied its rate type and fuel-adjusted rate take
+ * precedence, and the result is lifted to the contract's minimum guarantee.
  */
 export const calculateIncome = (
   billingType: BillingType,
   freightRate: number,
   distance: number,
   weight: number,
-  manualAmount?: number
+  manualAmount?: number,
+  contractOptions?: ContractIncomeOptions
 ): number => {
+  if (contractOptions) {
+    const { contract, currentFuelPrice } = contractOptions;
+    const rate = getFuelAdjustedRate(contract, currentFuelPrice);
+    const income = calculateIncome(contract.rate_type, rate, distance, weight);
+    return Math.round(Math.max(income, contract.min_guarantee || 0) * 100) / 100;
+  }
+
   switch (billingType) {
     case 'per_km':
       return distance * freightRate;
@@ -0,0 +1,209 @@
+import { endOfDay, parseISO, subMonths } from 'date-fns';
+import {
+  ChallanAttribution,
+  ChallanOffenderSummary,
+  ChallanPaymentStatus,
+  FetchedChallan,
+  Trip,
+  VehicleChallan
+} from '../types';
+
+// A driver with this many challans inside the window is flagged as a repeat offender
+export const REPEAT_OFFENDER_MIN_CHALLANS = 2;
+export const REPEAT_OFFENDER_WINDOW_MONTHS = 12;
+
+export const CHALLAN_PAYMENT_STATUS_LABELS: Record<ChallanPaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partially_paid: 'Part paid',
+  paid: 'Paid'
+};
+
+type ChallanTrip = Pick<Trip, 'id' | 'driver_id' | 'trip_start_date' | 'trip_end_date'>;
+
+export type ChallanUpsert = Omit<
+  VehicleChallan,
+  'id' | 'organization_id' | 'created_at' | 'updated_at' | 'driver' | 'trip'
+>;
+
+export interface ChallanVehicleContext {
+  vehicle_id: string;
+  registration_number: string;
+  primary_driver_id?: string | null;
+  trips: ChallanTrip[];
+}
+
+const DAY_FIRST_DATE = /^(\d{2})[-/](\d{2})[-/](\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/;
+
+/**
+ * The e-challan service returns dates as "yyyy-MM-dd HH:mm:ss" or
+ * "dd-MM-yyyy HH:mm"; anything else is treated as unknown
+ */
+export const parseChallanDate = (raw?: string | null): string | null => {
+  if (!raw) return null;
+  const value = raw.trim();
+
+  let date: Date | null = null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    date = parseISO(value.replace(' ', 'T'));
+  } else {
+    const match = value.match(DAY_FIRST_DATE);
+    if (match) {
+      const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = match;
+      date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    }
+  }
+
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+export const parseChallanAmount = (amount: number | string | null | undefined): number => {
+  if (typeof amount === 'number') return amount;
+  return parseFloat(String(amount ?? '').replace(/[^0-9.]/g, '')) || 0;
+};
+
+export const getChallanPaymentStatus = (amount: number, amountPaid: number): ChallanPaymentStatus => {
+  if (amountPaid <= 0) return 'unpaid';
+  return amountPaid >= amount ? 'paid' : 'partially_paid';
+};
+
+export const getChallanOutstanding = (challan: Pick<VehicleChallan, 'amount' | 'amount_paid' | 'payment_status'>) =>
+  challan.payment_status === 'paid' ? 0 : Math.max(0, challan.amount - challan.amount_paid);
+
+// Trip dates without a time cover the whole day
+const getTripEnd = (trip: ChallanTrip) => {
+  const end = parseISO(trip.trip_end_date || trip.trip_start_date);
+  return trip.trip_end_date?.length === 10 || !trip.trip_end_date ? endOfDay(end) : end;
+};
+
+/**
+ * Trip the vehicle was on when the challan was issued. Where trips overlap the
+ * one that started most recently wins.
+ */
+export const findTripAtTime = <T extends ChallanTrip>(trips: T[], at: string): T | null => {
+  const time = parseISO(at);
+  return trips
+    .filter(trip => trip.trip_start_date && parseISO(trip.trip_start_date) <= time && time <= getTripEnd(trip))
+    .sort((a, b) => b.trip_start_date.localeCompare(a.trip_start_date))[0] || null;
+};
+
+/**
+ * Work out who was driving: the trip's driver when the challan falls inside a
+ * trip, otherwise the vehicle's primary driver
+ */
+export const attributeChallan = (
+  challanDate: string | null,
+  trips: ChallanTrip[],
+  primaryDriverId?: string | null
+): { trip_id: string | null; driver_id: string | null; attribution: ChallanAttribution } => {
+  const trip = challanDate ? findTripAtTime(trips, challanDate) : null;
+  if (trip) {
+    return { trip_id: trip.id, driver_id: trip.driver_id || null, attribution: 'trip' };
+  }
+  if (primaryDriverId) {
+    return { trip_id: null, driver_id: primaryDriverId, attribution: 'primary_driver' };
+  }
+  return { trip_id: null, driver_id: null, attribution: 'unmatched' };
+};
+
+/**
+ * Rows to upsert for a fresh lookup. Challans already stored keep their
+ * payments and a trip-based attribution; one reported paid by the service is
+ * marked paid in full.
+ */
+export const buildChallanRecords = (
+  fetched: FetchedChallan[],
+  context: ChallanVehicleContext,
+  existing: VehicleChallan[],
+  now: Date = new Date()
+): ChallanUpsert[] => {
+  const existingByNumber = new Map(existing.map(c => [c.challan_no, c]));
+  const seen = new Set<string>();
+  const seenAt = now.toISOString();
+
+  return fetched
+    .filter(challan => {
+      const challanNo = challan.challan_no?.trim();
+      if (!challanNo || seen.has(challanNo)) return false;
+      seen.add(challanNo);
+      return true;
+    })
+    .map(challan => {
+      const challanNo = challan.challan_no.trim();
+      const previous = existingByNumber.get(challanNo);
+      const challanDate = parseChallanDate(challan.date);
+      const amount = parseChallanAmount(challan.amount);
+      const paidAtSource = challan.challan_status?.trim().toLowerCase() === 'paid';
+
+      const attribution = previous?.attribution === 'trip'
+        ? { trip_id: previous.trip_id ?? null, driver_id: previous.driver_id ?? null, attribution: previous.attribution }
+        : attributeChallan(challanDate, context.trips, context.primary_driver_id);
+
+      let amountPaid = previous?.amount_paid ?? 0;
+      let paidAt = previous?.paid_at ?? null;
+      if (paidAtSource && amountPaid < amount) {
+        amountPaid = amount;
+        paidAt = paidAt ?? seenAt;
+      }
+
+      return {
+        vehicle_id: context.vehicle_id,
+        registration_number: context.registration_number,
+        challan_no: challanNo,
+        challan_date: challanDate,
+        amount,
+        source_status: challan.challan_status || null,
+        offence: challan.offence || null,
+        offences: (challan.offences || []).map(o => o.offence_name).filter(Boolean),
+        state: challan.state || null,
+        area: challan.area || null,
+        accused_name: challan.accused_name || null,
+        ...attribution,
+        payment_status: paidAtSource ? 'paid' : getChallanPaymentStatus(amount, amountPaid),
+        amount_paid: amountPaid,
+        paid_at: paidAt,
+        payment_reference: previous?.payment_reference ?? null,
+        first_seen_at: previous?.first_seen_at ?? seenAt,
+        last_seen_at: seenAt
+      };
+    });
+};
+
+/**
+ * Drivers with repeated challans in the recent window, worst first
+ */
+export const getRepeatOffenders = (
+  challans: VehicleChallan[],
+  options: { minChallans?: number; now?: Date } = {}
+): ChallanOffenderSummary[] => {
+  const minChallans = options.minChallans ?? REPEAT_OFFENDER_MIN_CHALLANS;
+  const since = subMonths(options.now ?? new Date(), REPEAT_OFFENDER_WINDOW_MONTHS);
+  const byDriver = new Map<string, VehicleChallan[]>();
+
+  challans
+    .filter(c => c.driver_id && (!c.challan_date || parseISO(c.challan_date) >= since))
+    .forEach(c => {
+      byDriver.set(c.driver_id!, [...(byDriver.get(c.driver_id!) || []), c]);
+    });
+
+  return Array.from(byDriver.entries())
+    .filter(([, list]) => list.length >= minChallans)
+    .map(([driverId, list]) => {
+      const offenceCounts = new Map<string, number>();
+      list.forEach(c => {
+        if (c.offence) offenceCounts.set(c.offence, (offenceCounts.get(c.offence) || 0) + 1);
+      });
+      const topOffence = Array.from(offenceCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+      const dates = list.map(c => c.challan_date).filter(Boolean).sort() as string[];
+
+      return {
+        driver_id: driverId,
+        challan_count: list.length,
+        unpaid_count: list.filter(c => c.payment_status !== 'paid').length,
+        unpaid_amount: list.reduce((sum, c) => sum + getChallanOutstanding(c), 0),
+        total_amount: list.reduce((sum, c) => sum + c.amount, 0),
+        last_challan_date: dates[dates.length - 1] ?? null,
+        top_offence: topOffence
+      };
+    })
+    .sort((a, b) => b.challan_count - a.challan_count || b.unpaid_amount - a.unpaid_amount);
+};
@@ -0,0 +1,118 @@
+import { ContractRate, ContractRateCriteria, Refueling } from '../types';
+
+/**
+ * Check whether a contract is valid on the given date (inclusive window)
+ */
+export const isContractValidOn = (contract: ContractRate, date: string): boolean => {
+  const day = date.slice(0, 10);
+  if (contract.active === false) return false;
+  if (day < contract.valid_from.slice(0, 10)) return false;
+  if (contract.valid_to && day > contract.valid_to.slice(0, 10)) return false;
+  return true;
+};
+
+/**
+ * Score how specifically a contract matches a trip.
+ * Returns -1 when any criterion the contract defines does not match the trip;
+ * otherwise one point for each criterion the contract pins down.
+ */
+export const getContractMatchScore = (
+  contract: ContractRate,
+  criteria: ContractRateCriteria
+): number => {
+  let score = 0;
+
+  if (contract.customer_id) {
+    if (contract.customer_id !== criteria.customerId) return -1;
+    score++;
+  }
+
+  if (contract.warehouse_id) {
+    if (contract.warehouse_id !== criteria.warehouseId) return -1;
+    score++;
+  }
+
+  if (contract.destination_id) {
+    if (!criteria.destinationIds?.includes(contract.destination_id)) return -1;
+    score++;
+  }
+
+  if (contract.vehicle_type) {
+    if (!criteria.vehicleType ||
+        contract.vehicle_type.toLowerCase() !== criteria.vehicleType.toLowerCase()) {
+      return -1;
+    }
+    score++;
+  }
+
+  return score;
+};
+
+/**
+ * Pick the applicable contract for a trip.
+ * The most specific valid contract wins; ties go to the most recently started one.
+ */
+export const resolveContractRate = (
+  contracts: ContractRate[],
+  criteria: ContractRateCriteria
+): ContractRate | null => {
+  let best: ContractRate | null = null;
+  let bestScore = -1;
+
+  for (const contract of contracts) {
+    if (!isContractValidOn(contract, criteria.tripDate)) continue;
+
+    const score = getContractMatchScore(contract, criteria);
+    if (score < 0) continue;
+
+    if (
+      score > bestScore ||
+      (score === bestScore && best && contract.valid_from > best.valid_from)
+    ) {
+      best = contract;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Apply the fuel adjustment clause to a contract's rate.
+ * Only the fuel_cost_share portion of the rate moves, in proportion to the
+ * change in diesel price from base_fuel_price.
+ */
+export const getFuelAdjustedRate = (
+  contract: ContractRate,
+  currentFuelPrice?: number | null
+): number => {
+  if (
+    !contract.fuel_adjustment ||
+    !contract.base_fuel_price ||
+    !contract.fuel_cost_share ||
+    !currentFuelPrice
+  ) {
+    return contract.rate;
+  }
+
+  const priceChange = (currentFuelPrice - contract.base_fuel_price) / contract.base_fuel_price;
+  const adjusted = contract.rate * (1 + (contract.fuel_cost_share / 100) * priceChange);
+  return Math.round(adjusted * 100) / 100;
+};
+
+/**
+ * Average diesel price paid on a trip, used for the fuel adjustment clause
+ */
+export const getAverageFuelPrice = (
+  refuelings?: Refueling[],
+  fallbackRate?: number
+): number | null => {
+  const litres = (refuelings || []).reduce((sum, r) => sum + (Number(r.fuel_quantity) || 0), 0);
+  const cost = (refuelings || []).reduce((sum, r) => sum + (Number(r.total_fuel_cost) || 0), 0);
+
+  if (litres > 0 && cost > 0) {
+    return cost / litres;
+  }
+
+  return fallbackRate && fallbackRate > 0 ? fallbackRate : null;
+};
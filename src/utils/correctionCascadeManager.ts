@@ -1,6 +1,7 @@
 import { supabase } from './supabaseClient';
 import { AuditTrailLogger } from './auditTrailLogger';
 import { createLogger } from './logger';
+import { canCurrentUser } from './api/permissions';
 
 const logger = createLogger('correctionCascadeManager');
 
@@ -29,9 +30,14 @@ export class CorrectionCascadeManager {
     reason: string
   ): Promise<CascadeResult> {
     try {
+      // Makers request cascades through trip change requests instead
+      if (!(await canCurrentUser('trips', 'verify'))) {
+        throw new Error('Odometer cascades need admin approval');
+      }
+
       // Get original trip data BEFORE making any changes for accurate audit logging
       const { data: originalTrip, error: tripError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('end_km, trip_serial_number, start_km')
         .eq('id', tripId)
         .single();
@@ -120,7 +126,7 @@ export class CorrectionCascadeManager {
     try {
       // Get the trip date
       const { data: trip } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('trip_end_date')
         .eq('id', fromTripId)
         .single();
@@ -129,7 +135,7 @@ export class CorrectionCascadeManager {
       
       // Get all refueling trips after this date
       const { data: refuelingTrips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id, start_km, end_km, fuel_quantity')
         .eq('vehicle_id', vehicleId)
         .eq('refueling_done', true)
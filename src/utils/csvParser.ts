@@ -18,6 +18,21 @@ export const parseCSV = async (file: File): Promise<any[]> => {
   });
 };
 
+/**
+ * Parse a CSV or Excel upload into header-keyed rows. Excel dates come back
+ * as Date objects; the first sheet is used.
+ */
+export const parseSpreadsheet = async (file: File): Promise<Record<string, unknown>[]> => {
+  if (!/\.xlsx?$/i.test(file.name)) {
+    return parseCSV(file);
+  }
+
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }) : [];
+};
+
 export const generateCSV = async (data: any[], headers: { [key: string]: string }): Promise<string> => {
   const Papa = await import('papaparse');
   const csvData = data.map(row => {
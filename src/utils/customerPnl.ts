@@ -0,0 +1,72 @@
+import { Trip, Customer, CustomerPnL } from '../types';
+
+export const UNASSIGNED_CUSTOMER_ID = 'unassigned';
+
+/**
+ * Build customer-level P&L rows from trips tagged with a customer.
+ * Trips without a customer are grouped under a single "Unassigned" row so
+ * totals still reconcile with the overall P&L.
+ *
+ * @param getRouteLabel - Formats a trip's route, used to find each customer's top route
+ */
+export const buildCustomerPnL = (
+  trips: Trip[],
+  customers: Customer[],
+  getRouteLabel: (trip: Trip) => string
+): CustomerPnL[] => {
+  const customerNames = new Map(customers.map(c => [c.id, c.name]));
+  const rows: Record<string, CustomerPnL> = {};
+  const routeCounts: Record<string, Record<string, number>> = {};
+
+  trips.forEach(trip => {
+    const customerId = trip.customer_id || UNASSIGNED_CUSTOMER_ID;
+
+    if (!rows[customerId]) {
+      rows[customerId] = {
+        customerId,
+        customerName: trip.customer_id
+          ? customerNames.get(trip.customer_id) || 'Unknown Customer'
+          : 'Unassigned',
+        totalTrips: 0,
+        totalRevenue: 0,
+        totalExpenses: 0,
+        netProfit: 0,
+        profitMargin: 0,
+        avgTripValue: 0,
+        topRoute: '',
+        lastTripDate: ''
+      };
+      routeCounts[customerId] = {};
+    }
+
+    const row = rows[customerId];
+    row.totalTrips++;
+    row.totalRevenue += trip.income_amount || 0;
+    row.totalExpenses += trip.total_expense || 0;
+
+    if (!row.lastTripDate || new Date(trip.trip_start_date) > new Date(row.lastTripDate)) {
+      row.lastTripDate = trip.trip_start_date;
+    }
+
+    const route = getRouteLabel(trip);
+    if (route) {
+      routeCounts[customerId][route] = (routeCounts[customerId][route] || 0) + 1;
+    }
+  });
+
+  return Object.values(rows)
+    .map(row => {
+      const routes = Object.entries(routeCounts[row.customerId]);
+      const topRoute = routes.sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+      const netProfit = row.totalRevenue - row.totalExpenses;
+
+      return {
+        ...row,
+        netProfit,
+        profitMargin: row.totalRevenue > 0 ? (netProfit / row.totalRevenue) * 100 : 0,
+        avgTripValue: row.totalTrips > 0 ? row.totalRevenue / row.totalTrips : 0,
+        topRoute
+      };
+    })
+    .sort((a, b) => b.totalRevenue - a.totalRevenue);
+};
@@ -367,7 +367,7 @@ export class DataIntegrityValidator {
    */
   static async validateVehicleTrips(vehicleId: string): Promise<ValidationResult[]> {
     const { data: trips, error } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*')
       .eq('vehicle_id', vehicleId)
       .order('trip_start_date', { ascending: true });
@@ -394,7 +394,7 @@ export class DataIntegrityValidator {
 
       // Get driver data
       const { data: driver } = await supabase
-        .from('drivers')
+        .from('drivers_visible')
         .select('*')
         .eq('id', trip.driver_id)
         .single();
@@ -428,7 +428,7 @@ export class DataIntegrityValidator {
     warnings: number;
   }> {
     const { data: trips, error } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*');
 
     if (error || !trips) {
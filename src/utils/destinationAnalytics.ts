@@ -105,14 +105,14 @@ export const getDestinationsWithAnalytics = async (
       (data || []).map(async (destination) => {
         // Get usage count from trips
         const { count: usageCount } = await supabase
-          .from('trips')
+          .from('trips_visible')
           .select('*', { count: 'exact', head: true })
           .contains('destinations', [destination.id])
           .eq('created_by', userId);
 
         // Get last used date
         const { data: lastTrip } = await supabase
-          .from('trips')
+          .from('trips_visible')
           .select('trip_end_date')
           .contains('destinations', [destination.id])
           .eq('created_by', userId)
@@ -184,13 +184,13 @@ export const getMostUsedDestinations = async (limit: number = 10): Promise<Desti
     const destinationsWithStats = await Promise.all(
       (data || []).map(async (destination) => {
         const { count: usageCount } = await supabase
-          .from('trips')
+          .from('trips_visible')
           .select('*', { count: 'exact', head: true })
           .contains('destinations', [destination.id])
           .eq('created_by', userId);
 
         const { data: lastTrip } = await supabase
-          .from('trips')
+          .from('trips_visible')
           .select('trip_end_date')
           .contains('destinations', [destination.id])
           .eq('created_by', userId)
@@ -0,0 +1,176 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { DispatchCheck, Driver, MaintenanceTask, PlannedTrip, TripFormData, Vehicle } from '../types';
+import { canDriveVehicleType } from './indianValidation';
+
+// Documents expiring within this many days after the trip ends get a warning
+export const DISPATCH_DOCUMENT_WARNING_DAYS = 7;
+
+export const DISPATCH_DOCUMENT_FIELDS: { field: keyof Vehicle; label: string }[] = [
+  { field: 'insurance_expiry_date', label: 'Insurance' },
+  { field: 'fitness_expiry_date', label: 'Fitness certificate' },
+  { field: 'permit_expiry_date', label: 'Permit' },
+  { field: 'puc_expiry_date', label: 'PUC' },
+  { field: 'tax_paid_upto', label: 'Road tax' }
+];
+
+// Plans still holding a vehicle and driver
+export const ACTIVE_PLAN_STATUSES: PlannedTrip['status'][] = ['planned', 'dispatched'];
+
+export type DispatchMaintenanceTask = Pick<
+  MaintenanceTask,
+  'id' | 'vehicle_id' | 'status' | 'start_date' | 'end_date' | 'downtime_days' | 'task_type'
+>;
+
+export interface DispatchContext {
+  vehicle?: Vehicle | null;
+  driver?: Driver | null;
+  maintenanceTasks: DispatchMaintenanceTask[];
+  plannedTrips: PlannedTrip[];
+}
+
+type PlanWindow = Pick<PlannedTrip, 'planned_start_date' | 'planned_end_date'>;
+
+const day = (value: string) => value.slice(0, 10);
+
+const formatDay = (value: string) => format(parseISO(day(value)), 'dd MMM yyyy');
+
+// Inclusive day ranges; a null end runs on indefinitely
+export const rangesOverlap = (aStart: string, aEnd: string | null, bStart: string, bEnd: string) =>
+  day(aStart) <= day(bEnd) && (aEnd === null || day(aEnd) >= day(bStart));
+
+/**
+ * Days a maintenance task keeps the vehicle off the road. An unresolved task
+ * with no end date or downtime holds the vehicle until it is closed.
+ */
+export const getMaintenanceWindow = (task: DispatchMaintenanceTask): { start: string; end: string | null } => {
+  if (task.end_date) return { start: day(task.start_date), end: day(task.end_date) };
+  if (task.downtime_days > 0) {
+    return { start: day(task.start_date), end: format(addDays(parseISO(day(task.start_date)), task.downtime_days), 'yyyy-MM-dd') };
+  }
+  return { start: day(task.start_date), end: task.status === 'resolved' ? day(task.start_date) : null };
+};
+
+const checkVehicle = (plan: PlanWindow, vehicle: Vehicle, tasks: DispatchMaintenanceTask[]): DispatchCheck[] => {
+  const checks: DispatchCheck[] = [];
+
+  if (vehicle.status !== 'active') {
+    checks.push({ type: 'vehicle_status', severity: 'blocker', message: `${vehicle.registration_number} is ${vehicle.status}` });
+  }
+
+  tasks
+    .filter(task => task.vehicle_id === vehicle.id && task.status !== 'resolved')
+    .forEach(task => {
+      const window = getMaintenanceWindow(task);
+      if (rangesOverlap(window.start, window.end, plan.planned_start_date, plan.planned_end_date)) {
+        checks.push({
+          type: 'maintenance',
+          severity: 'blocker',
+          message: window.end
+            ? `In maintenance ${formatDay(window.start)} – ${formatDay(window.end)}`
+            : `Open maintenance task since ${formatDay(window.start)}`
+        });
+      }
+    });
+
+  DISPATCH_DOCUMENT_FIELDS.forEach(({ field, label }) => {
+    const expiry = vehicle[field] as string | undefined;
+    if (!expiry) return;
+
+    const daysAfterTrip = differenceInCalendarDays(parseISO(day(expiry)), parseISO(day(plan.planned_end_date)));
+    if (daysAfterTrip < 0) {
+      checks.push({ type: 'vehicle_document', severity: 'blocker', message: `${label} expires ${formatDay(expiry)}, before the trip ends` });
+    } else if (daysAfterTrip <= DISPATCH_DOCUMENT_WARNING_DAYS) {
+      checks.push({ type: 'vehicle_document', severity: 'warning', message: `${label} expires ${formatDay(expiry)}` });
+    }
+  });
+
+  return checks;
+};
+
+const checkDriver = (plan: PlanWindow, driver: Driver, vehicle?: Vehicle | null): DispatchCheck[] => {
+  const checks: DispatchCheck[] = [];
+
+  if (driver.status !== 'active') {
+    checks.push({ type: 'driver_status', severity: 'blocker', message: `${driver.name} is ${driver.status}` });
+  }
+
+  const licenseExpiry = driver.license_expiry || driver.license_expiry_date;
+  if (licenseExpiry && day(licenseExpiry) < day(plan.planned_end_date)) {
+    checks.push({ type: 'driver_license', severity: 'blocker', message: `Licence expires ${formatDay(licenseExpiry)}, before the trip ends` });
+  }
+
+  if (vehicle) {
+    const classes = driver.vehicle_class || [];
+    const authorization = canDriveVehicleType(classes, vehicle.type);
+    if (!authorization.authorized) {
+      checks.push({
+        type: 'license_class',
+        // Without recorded classes we cannot tell, so only warn
+        severity: classes.length > 0 ? 'blocker' : 'warning',
+        message: classes.length > 0 ? authorization.message : `No licence classes recorded; ${authorization.message.toLowerCase()}`
+      });
+    }
+  }
+
+  return checks;
+};
+
+/**
+ * Everything that stands in the way of running the plan: vehicle status,
+ * maintenance downtime, document validity, the driver's licence and class,
+ * double bookings and overloading
+ */
+export const checkPlannedTrip = (
+  plan: PlanWindow & Pick<PlannedTrip, 'vehicle_id' | 'driver_id' | 'expected_load'> & { id?: string },
+  context: DispatchContext
+): DispatchCheck[] => {
+  const { vehicle, driver } = context;
+  const checks: DispatchCheck[] = [];
+
+  if (vehicle) checks.push(...checkVehicle(plan, vehicle, context.maintenanceTasks));
+  if (driver) checks.push(...checkDriver(plan, driver, vehicle));
+
+  const clashes = context.plannedTrips.filter(other =>
+    other.id !== plan.id &&
+    ACTIVE_PLAN_STATUSES.includes(other.status) &&
+    rangesOverlap(other.planned_start_date, other.planned_end_date, plan.planned_start_date, plan.planned_end_date)
+  );
+  if (clashes.some(other => other.vehicle_id === plan.vehicle_id)) {
+    checks.push({ type: 'vehicle_booked', severity: 'warning', message: 'Vehicle already has a trip planned on these dates' });
+  }
+  if (clashes.some(other => other.driver_id === plan.driver_id)) {
+    checks.push({ type: 'driver_booked', severity: 'warning', message: 'Driver already has a trip planned on these dates' });
+  }
+
+  if (vehicle?.gvw && vehicle.unladen_weight && plan.expected_load) {
+    const payload = vehicle.gvw - vehicle.unladen_weight;
+    if (payload > 0 && plan.expected_load > payload) {
+      checks.push({
+        type: 'overload',
+        severity: 'warning',
+        message: `Expected load ${plan.expected_load.toLocaleString('en-IN')} kg is over the ${payload.toLocaleString('en-IN')} kg payload`
+      });
+    }
+  }
+
+  return checks;
+};
+
+export const hasDispatchBlockers = (checks: DispatchCheck[]) => checks.some(check => check.severity === 'blocker');
+
+/**
+ * Trip sheet pre-filled from a plan; km, fuel and expenses are entered when
+ * the trip closes
+ */
+export const buildTripFromPlan = (plan: PlannedTrip): Partial<TripFormData> => ({
+  vehicle_id: plan.vehicle_id,
+  driver_id: plan.driver_id,
+  warehouse_id: plan.warehouse_id,
+  destinations: plan.destinations,
+  material_type_ids: plan.material_type_ids || [],
+  customer_id: plan.customer_id ?? null,
+  trip_start_date: plan.planned_start_date,
+  trip_end_date: plan.planned_end_date,
+  gross_weight: plan.expected_load || 0,
+  remarks: plan.notes || undefined
+});
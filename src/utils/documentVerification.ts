@@ -0,0 +1,47 @@
+import { format, parseISO } from 'date-fns';
+import { DocumentField, DocumentFieldValue, DocumentReviewItem } from '../types';
+import { LIFETIME_TAX_DATE } from '../../supabase/functions/_shared/documentDiff.ts';
+
+export {
+  compareDriverWithDl,
+  compareVehicleWithRc,
+  normalizeDocumentDate,
+  normalizeOwnerName,
+  normalizeVehicleClasses
+} from '../../supabase/functions/_shared/documentDiff.ts';
+
+export const DOCUMENT_FIELD_LABELS: Record<DocumentField, string> = {
+  insurance_expiry_date: 'Insurance expiry',
+  puc_expiry_date: 'PUC expiry',
+  fitness_expiry_date: 'Fitness expiry',
+  permit_expiry_date: 'Permit expiry',
+  tax_paid_upto: 'Tax paid up to',
+  owner_name: 'Owner name',
+  license_expiry: 'Licence valid up to',
+  vehicle_class: 'Vehicle classes'
+};
+
+export const formatDocumentFieldValue = (value: DocumentFieldValue): string => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value === LIFETIME_TAX_DATE) return 'Lifetime';
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? format(parseISO(value), 'dd MMM yyyy') : value;
+};
+
+/**
+ * Record update that applies the government value of a review item
+ */
+export const getReviewItemUpdate = (
+  item: Pick<DocumentReviewItem, 'entity_type' | 'vehicle_id' | 'driver_id' | 'field' | 'government_value'>
+): { table: 'vehicles' | 'drivers'; id: string; payload: Record<string, DocumentFieldValue> } => {
+  const id = item.entity_type === 'vehicle' ? item.vehicle_id : item.driver_id;
+  if (!id) {
+    throw new Error('Review item is not linked to a vehicle or driver');
+  }
+
+  return {
+    table: item.entity_type === 'vehicle' ? 'vehicles' : 'drivers',
+    id,
+    payload: { [item.field]: item.government_value }
+  };
+};
@@ -0,0 +1,131 @@
+import { Trip, DriverLedgerEntry, DriverLedgerLine, DriverLedgerSummary } from '../types';
+
+// Order of same-day lines: cash out first, then claims, then settlements
+const LINE_ORDER: Record<DriverLedgerLine['type'], number> = {
+  trip_advance: 0,
+  advance: 1,
+  expense_claim: 2,
+  adjustment: 3,
+  settlement_received: 4,
+  settlement_paid: 5
+};
+
+const ENTRY_LABELS: Record<DriverLedgerEntry['entry_type'], string> = {
+  advance: 'Advance',
+  settlement_paid: 'Settlement paid to driver',
+  settlement_received: 'Cash returned by driver',
+  adjustment: 'Adjustment'
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateKey = (date: string) => date.slice(0, 10);
+
+/**
+ * Road expenses the driver pays out of the advance; fuel is settled separately
+ */
+export const getTripExpenseClaim = (trip: Trip): number => trip.total_road_expenses || 0;
+
+/**
+ * Build a driver statement from trip advances, trip expense claims and manual
+ * ledger entries. Expenses only count towards the balance once verified via
+ * the trip's expense_verified flag.
+ */
+export const buildDriverLedger = (
+  trips: Trip[],
+  entries: DriverLedgerEntry[],
+  period: { from?: string; to?: string } = {}
+): { lines: DriverLedgerLine[]; summary: DriverLedgerSummary } => {
+  const allLines: Omit<DriverLedgerLine, 'balance'>[] = [];
+
+  trips.forEach(trip => {
+    const serial = trip.trip_serial_number || trip.id.slice(0, 8);
+
+    if (trip.advance_amount && trip.advance_amount > 0) {
+      allLines.push({
+        id: `${trip.id}-advance`,
+        date: toDateKey(trip.trip_start_date),
+        type: 'trip_advance',
+        description: `Trip advance – ${serial}`,
+        tripId: trip.id,
+        debit: trip.advance_amount,
+        credit: 0,
+        pending: 0
+      });
+    }
+
+    const claim = getTripExpenseClaim(trip);
+    if (claim > 0) {
+      allLines.push({
+        id: `${trip.id}-expense`,
+        date: toDateKey(trip.trip_end_date || trip.trip_start_date),
+        type: 'expense_claim',
+        description: `Trip expenses – ${serial}${trip.expense_verified ? '' : ' (unverified)'}`,
+        tripId: trip.id,
+        debit: 0,
+        credit: trip.expense_verified ? claim : 0,
+        pending: trip.expense_verified ? 0 : claim
+      });
+    }
+  });
+
+  entries.forEach(entry => {
+    const isCredit = entry.entry_type === 'settlement_received' ||
+      (entry.entry_type === 'adjustment' && entry.amount > 0);
+    const amount = Math.abs(entry.amount);
+
+    allLines.push({
+      id: entry.id,
+      entryId: entry.id,
+      date: toDateKey(entry.entry_date),
+      type: entry.entry_type,
+      description: [ENTRY_LABELS[entry.entry_type], entry.reference, entry.notes].filter(Boolean).join(' – '),
+      tripId: entry.trip_id,
+      debit: isCredit ? 0 : amount,
+      credit: isCredit ? amount : 0,
+      pending: 0
+    });
+  });
+
+  allLines.sort((a, b) => a.date.localeCompare(b.date) || LINE_ORDER[a.type] - LINE_ORDER[b.type]);
+
+  const summary: DriverLedgerSummary = {
+    openingBalance: 0,
+    totalAdvances: 0,
+    totalClaimed: 0,
+    totalVerified: 0,
+    pendingVerification: 0,
+    totalPaid: 0,
+    totalRecovered: 0,
+    closingBalance: 0
+  };
+
+  let balance = 0;
+  const lines: DriverLedgerLine[] = [];
+
+  allLines.forEach(line => {
+    balance = round2(balance + line.credit - line.debit);
+
+    if (period.from && line.date < period.from) {
+      summary.openingBalance = balance;
+      return;
+    }
+    if (period.to && line.date > period.to) {
+      return;
+    }
+
+    lines.push({ ...line, balance });
+
+    if (line.type === 'trip_advance' || line.type === 'advance') summary.totalAdvances += line.debit;
+    if (line.type === 'expense_claim') {
+      summary.totalClaimed += line.credit + line.pending;
+      summary.totalVerified += line.credit;
+      summary.pendingVerification += line.pending;
+    }
+    if (line.type === 'settlement_paid') summary.totalPaid += line.debit;
+    if (line.type === 'settlement_received') summary.totalRecovered += line.credit;
+  });
+
+  summary.closingBalance = lines.length > 0 ? lines[lines.length - 1].balance : summary.openingBalance;
+
+  return { lines, summary };
+};
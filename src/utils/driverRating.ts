@@ -1,4 +1,22 @@
-import { Driver } from '../types';
+import {
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from 'date-fns';
+import {
+  Driver,
+  DriverLeaderboard,
+  DriverLeaderboardEntry,
+  DriverMetricScore,
+  DriverRankingMetric,
+  DriverRankingPeriod,
+  DriverRankingSettings,
+  Trip,
+} from '../types';
 
 export interface DriverStats {
   total_trips: number;
@@ -7,6 +25,12 @@ export interface DriverStats {
   avg_mileage: number;
   active_days: number;
   last_trip_date?: string;
+  // Ranking inputs; metrics without data are left out of the score
+  completed_trips?: number;
+  breakdowns?: number;
+  baseline_mileage?: number; // km/L other drivers get from the same vehicles
+  cost_per_km?: number;
+  fleet_cost_per_km?: number;
 }
 
 export interface DocumentStatus {
@@ -22,78 +46,312 @@ export interface RatingDisplay {
   color: 'green' | 'yellow' | 'orange' | 'gray';
 }
 
+export const DRIVER_RANKING_METRICS: DriverRankingMetric[] = [
+  'mileage',
+  'trip_completion',
+  'breakdowns',
+  'document_compliance',
+  'expense_variance',
+];
+
+export const DRIVER_RANKING_METRIC_LABELS: Record<DriverRankingMetric, string> = {
+  mileage: 'Mileage vs Baseline',
+  trip_completion: 'Trip Completion',
+  breakdowns: 'Breakdowns',
+  document_compliance: 'Document Compliance',
+  expense_variance: 'Expense Variance',
+};
+
+export const DRIVER_RANKING_PERIOD_LABELS: Record<DriverRankingPeriod, string> = {
+  weekly: 'This Week',
+  monthly: 'This Month',
+  quarterly: 'This Quarter',
+};
+
+export const DEFAULT_DRIVER_RANKING_SETTINGS: DriverRankingSettings = {
+  weights: {
+    mileage: 30,
+    trip_completion: 20,
+    breakdowns: 15,
+    document_compliance: 15,
+    expense_variance: 20,
+  },
+  mileage_baseline: 'vehicle_average',
+  mileage_baseline_kmpl: 4,
+  mileage_band_pct: 20,
+  breakdown_penalty: 25,
+  expense_band_pct: 20,
+  min_trips: 5,
+  periods: ['weekly', 'monthly', 'quarterly'],
+};
+
+const clampScore = (value: number): number =>
+  Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+
+const DOCUMENT_SCORES: Record<DocumentStatus['status'], number> = {
+  valid: 100,
+  unverified: 70,
+  expiring: 60,
+  expired: 0,
+  missing: 0,
+};
+
 /**
- * Calculate driver performance rating on a 5-star scale
- * Based on weighted criteria:
- * - Fuel Efficiency (30%)
- * - Trip Frequency (20%)
- * - Document Compliance (20%)
- * - Active Days (15%)
- * - Experience (15%)
+ * Score each ranking metric for a driver on a 0-100 scale.
+ * Mileage and expenses score 50 at the baseline, moving to 100/0 at the
+ * edge of the configured band.
+ */
+export const scoreDriverMetrics = (
+  driver: Driver,
+  stats: DriverStats,
+  settings: DriverRankingSettings = DEFAULT_DRIVER_RANKING_SETTINGS
+): Partial<Record<DriverRankingMetric, DriverMetricScore>> => {
+  const metrics: Partial<Record<DriverRankingMetric, DriverMetricScore>> = {};
+
+  const baseline = settings.mileage_baseline === 'fixed'
+    ? settings.mileage_baseline_kmpl
+    : stats.baseline_mileage || settings.mileage_baseline_kmpl;
+  if (stats.avg_mileage > 0 && baseline > 0) {
+    const variance = (stats.avg_mileage - baseline) / baseline;
+    metrics.mileage = {
+      value: Math.round(variance * 1000) / 10,
+      score: clampScore(50 + (variance * 100 / settings.mileage_band_pct) * 50),
+    };
+  }
+
+  if (stats.completed_trips !== undefined && stats.total_trips > 0) {
+    const completion = (stats.completed_trips / stats.total_trips) * 100;
+    metrics.trip_completion = { value: Math.round(completion * 10) / 10, score: clampScore(completion) };
+  }
+
+  if (stats.breakdowns !== undefined) {
+    metrics.breakdowns = {
+      value: stats.breakdowns,
+      score: clampScore(100 - stats.breakdowns * settings.breakdown_penalty),
+    };
+  }
+
+  const docScore = DOCUMENT_SCORES[getDocumentStatus(driver).status];
+  metrics.document_compliance = { value: docScore, score: docScore };
+
+  if (stats.cost_per_km && stats.fleet_cost_per_km) {
+    const variance = (stats.cost_per_km - stats.fleet_cost_per_km) / stats.fleet_cost_per_km;
+    metrics.expense_variance = {
+      value: Math.round(variance * 1000) / 10,
+      score: clampScore(50 - (variance * 100 / settings.expense_band_pct) * 50),
+    };
+  }
+
+  return metrics;
+};
+
+/**
+ * Combine metric scores using the configured weights. Metrics without data
+ * drop out and the remaining weights are rescaled.
+ */
+export const getWeightedDriverScore = (
+  metrics: Partial<Record<DriverRankingMetric, DriverMetricScore>>,
+  weights: Record<DriverRankingMetric, number>
+): number | null => {
+  let total = 0;
+  let weightSum = 0;
+
+  for (const metric of DRIVER_RANKING_METRICS) {
+    const result = metrics[metric];
+    const weight = weights[metric] || 0;
+    if (!result || weight <= 0) continue;
+    total += result.score * weight;
+    weightSum += weight;
+  }
+
+  return weightSum > 0 ? Math.round((total / weightSum) * 10) / 10 : null;
+};
+
+/**
+ * Calculate driver performance rating on a 5-star scale from the
+ * organisation's ranking weights
  */
 export const calculateDriverRating = (
   driver: Driver,
-  stats: DriverStats | null
+  stats: DriverStats | null,
+  settings: DriverRankingSettings = DEFAULT_DRIVER_RANKING_SETTINGS
 ): number => {
-  if (!stats || stats.total_trips < 5) {
+  if (!stats || stats.total_trips < settings.min_trips) {
     return 0; // Not enough data
   }
 
-  let rating = 0;
-  let maxPoints = 0;
-
-  // 1. Fuel Efficiency (30 points max)
-  if (stats.avg_mileage) {
-    maxPoints += 30;
-    if (stats.avg_mileage >= 15) rating += 30;
-    else if (stats.avg_mileage >= 12) rating += 25;
-    else if (stats.avg_mileage >= 10) rating += 20;
-    else if (stats.avg_mileage >= 8) rating += 15;
-    else rating += 10;
-  }
-
-  // 2. Trip Frequency (20 points max)
-  if (stats.total_trips) {
-    maxPoints += 20;
-    const monthsActive = getMonthsActive(driver);
-    const tripsPerMonth = stats.total_trips / monthsActive;
-    if (tripsPerMonth >= 25) rating += 20;
-    else if (tripsPerMonth >= 20) rating += 16;
-    else if (tripsPerMonth >= 15) rating += 12;
-    else if (tripsPerMonth >= 10) rating += 8;
-    else rating += 4;
-  }
-
-  // 3. Document Compliance (20 points max)
-  maxPoints += 20;
-  const docStatus = getDocumentStatus(driver);
-  let docPoints = 20;
-  if (docStatus.status === 'expired') docPoints -= 10;
-  else if (docStatus.status === 'expiring') docPoints -= 5;
-  if (!driver.documents_verified) docPoints -= 5;
-  rating += Math.max(0, docPoints);
-
-  // 4. Active Days (15 points max)
-  if (stats.active_days) {
-    maxPoints += 15;
-    const activeDaysPercent = (stats.active_days / 30) * 100;
-    if (activeDaysPercent >= 80) rating += 15;
-    else if (activeDaysPercent >= 60) rating += 12;
-    else if (activeDaysPercent >= 40) rating += 8;
-    else rating += 4;
-  }
-
-  // 5. Experience Bonus (15 points max)
-  maxPoints += 15;
-  const experienceYears = driver.experience_years || 0;
-  if (experienceYears >= 5) rating += 15;
-  else if (experienceYears >= 3) rating += 12;
-  else if (experienceYears >= 2) rating += 8;
-  else if (experienceYears >= 1) rating += 5;
-  else rating += 2;
-
-  // Convert to 5-star rating
-  return maxPoints > 0 ? (rating / maxPoints) * 5 : 0;
+  const score = getWeightedDriverScore(scoreDriverMetrics(driver, stats, settings), settings.weights);
+  return score === null ? 0 : score / 20;
+};
+
+/**
+ * Date range covered by a ranking period containing the given date
+ */
+export const getRankingPeriodRange = (
+  period: DriverRankingPeriod,
+  date: Date = new Date()
+): { start: string; end: string } => {
+  const [start, end] = period === 'weekly'
+    ? [startOfWeek(date, { weekStartsOn: 1 }), endOfWeek(date, { weekStartsOn: 1 })]
+    : period === 'quarterly'
+      ? [startOfQuarter(date), endOfQuarter(date)]
+      : [startOfMonth(date), endOfMonth(date)];
+
+  return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd') };
+};
+
+type RankingTrip = Pick<
+  Trip,
+  | 'driver_id'
+  | 'vehicle_id'
+  | 'trip_start_date'
+  | 'trip_end_date'
+  | 'start_km'
+  | 'end_km'
+  | 'fuel_quantity'
+  | 'calculated_kmpl'
+  | 'breakdown_expense'
+  | 'total_expense'
+  | 'total_fuel_cost'
+  | 'total_road_expenses'
+>;
+
+/**
+ * Aggregate a period's trips into ranking stats per driver
+ */
+export const buildDriverPeriodStats = (trips: RankingTrip[]): Record<string, DriverStats> => {
+  const tripDistance = (trip: RankingTrip) => Math.max(0, (trip.end_km || 0) - (trip.start_km || 0));
+  const tripCost = (trip: RankingTrip) =>
+    trip.total_expense ?? (trip.total_fuel_cost || 0) + (trip.total_road_expenses || 0);
+
+  // Fleet figures the driver is compared against
+  const vehicleMileage: Record<string, { distance: number; fuel: number }> = {};
+  let fleetDistance = 0;
+  let fleetCost = 0;
+
+  for (const trip of trips) {
+    const distance = tripDistance(trip);
+    fleetDistance += distance;
+    fleetCost += tripCost(trip);
+
+    if (trip.calculated_kmpl && trip.calculated_kmpl > 0 && distance > 0) {
+      const entry = vehicleMileage[trip.vehicle_id] || (vehicleMileage[trip.vehicle_id] = { distance: 0, fuel: 0 });
+      entry.distance += distance;
+      entry.fuel += distance / trip.calculated_kmpl;
+    }
+  }
+
+  const fleetCostPerKm = fleetDistance > 0 ? fleetCost / fleetDistance : 0;
+  const byDriver: Record<string, RankingTrip[]> = {};
+  for (const trip of trips) {
+    if (!trip.driver_id) continue;
+    (byDriver[trip.driver_id] = byDriver[trip.driver_id] || []).push(trip);
+  }
+
+  const result: Record<string, DriverStats> = {};
+  for (const [driverId, driverTrips] of Object.entries(byDriver)) {
+    let distance = 0;
+    let fuel = 0;
+    let cost = 0;
+    let mileageDistance = 0;
+    let mileageFuel = 0;
+    let baselineFuel = 0;
+    const days = new Set<string>();
+
+    for (const trip of driverTrips) {
+      const tripKm = tripDistance(trip);
+      distance += tripKm;
+      fuel += trip.fuel_quantity || 0;
+      cost += tripCost(trip);
+      days.add(trip.trip_start_date.slice(0, 10));
+
+      const vehicle = vehicleMileage[trip.vehicle_id];
+      if (trip.calculated_kmpl && trip.calculated_kmpl > 0 && tripKm > 0 && vehicle) {
+        mileageDistance += tripKm;
+        mileageFuel += tripKm / trip.calculated_kmpl;
+        baselineFuel += tripKm / (vehicle.distance / vehicle.fuel);
+      }
+    }
+
+    result[driverId] = {
+      total_trips: driverTrips.length,
+      total_distance: distance,
+      total_fuel: fuel,
+      avg_mileage: mileageFuel > 0 ? mileageDistance / mileageFuel : 0,
+      active_days: days.size,
+      last_trip_date: driverTrips.map(t => t.trip_start_date).sort().pop(),
+      completed_trips: driverTrips.filter(t => t.trip_end_date && t.end_km > t.start_km).length,
+      breakdowns: driverTrips.filter(t => (t.breakdown_expense || 0) > 0).length,
+      baseline_mileage: baselineFuel > 0 ? mileageDistance / baselineFuel : undefined,
+      cost_per_km: distance > 0 ? cost / distance : undefined,
+      fleet_cost_per_km: fleetCostPerKm || undefined,
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Rank drivers on a period's trips. Drivers below the minimum trip count are
+ * listed after the ranked drivers without a rank.
+ */
+export const buildDriverLeaderboard = (
+  drivers: Driver[],
+  trips: RankingTrip[],
+  settings: DriverRankingSettings = DEFAULT_DRIVER_RANKING_SETTINGS
+): DriverLeaderboardEntry[] => {
+  const statsByDriver = buildDriverPeriodStats(trips);
+
+  const entries: DriverLeaderboardEntry[] = drivers
+    .filter(driver => driver.id && statsByDriver[driver.id])
+    .map(driver => {
+      const stats = statsByDriver[driver.id!];
+      const eligible = stats.total_trips >= settings.min_trips;
+      const metrics = scoreDriverMetrics(driver, stats, settings);
+      const score = eligible ? getWeightedDriverScore(metrics, settings.weights) : null;
+
+      return {
+        driver_id: driver.id!,
+        driver_name: driver.name,
+        rank: null,
+        score,
+        rating: score === null ? null : Math.round(score / 2) / 10,
+        trips: stats.total_trips,
+        distance: stats.total_distance,
+        avg_mileage: Math.round(stats.avg_mileage * 100) / 100,
+        metrics,
+      };
+    });
+
+  const ranked = entries
+    .filter(entry => entry.score !== null)
+    .sort((a, b) => b.score! - a.score! || b.trips - a.trips)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  const unranked = entries
+    .filter(entry => entry.score === null)
+    .sort((a, b) => b.trips - a.trips);
+
+  return [...ranked, ...unranked];
+};
+
+/**
+ * A stored leaderboard needs recomputing when the period is still running
+ * and it is older than maxAgeMinutes, or when it was computed before the
+ * period closed
+ */
+export const isLeaderboardStale = (
+  board: Pick<DriverLeaderboard, 'period_end' | 'computed_at'>,
+  now: Date = new Date(),
+  maxAgeMinutes = 60
+): boolean => {
+  const computedAt = new Date(board.computed_at);
+  const periodClosesAt = new Date(`${board.period_end}T23:59:59`);
+
+  if (now > periodClosesAt) {
+    return computedAt <= periodClosesAt;
+  }
+
+  return now.getTime() - computedAt.getTime() > maxAgeMinutes * 60 * 1000;
 };
 
 /**
@@ -155,32 +413,16 @@ export const getDocumentStatus = (driver: Driver): DocumentStatus => {
   };
 };
 
-/**
- * Calculate months active based on join date or experience
- */
-export const getMonthsActive = (driver: Driver): number => {
-  if (driver.date_of_joining) {
-    const months = Math.floor(
-      (Date.now() - new Date(driver.date_of_joining).getTime()) /
-        (1000 * 60 * 60 * 24 * 30)
-    );
-    return Math.max(1, months); // Minimum 1 month
-  }
-
-  // Fallback to experience years
-  const experienceMonths = (driver.experience_years || 0) * 12;
-  return experienceMonths || 1; // Minimum 1 month
-};
-
 /**
  * Get rating display information
  */
 export const getDisplayRating = (
   driver: Driver,
-  stats: DriverStats | null
+  stats: DriverStats | null,
+  settings: DriverRankingSettings = DEFAULT_DRIVER_RANKING_SETTINGS
 ): RatingDisplay => {
-  // Minimum 5 trips to show rating
-  if (!stats || stats.total_trips < 5) {
+  // Not enough trips to show rating
+  if (!stats || stats.total_trips < settings.min_trips) {
     return {
       display: 'New',
       value: null,
@@ -188,7 +430,7 @@ export const getDisplayRating = (
     };
   }
 
-  const rating = calculateDriverRating(driver, stats);
+  const rating = calculateDriverRating(driver, stats, settings);
   const ratingValue = Number(rating.toFixed(1));
 
   return {
@@ -198,7 +198,7 @@ export class EdgeCaseHandler {
     try {
       // Get trip details with vehicle and destination info
       const { data: trip, error: tripError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select(`
           id, trip_serial_number, trip_start_date, trip_end_date, 
           start_km, end_km, fuel_quantity, calculated_kmpl,
@@ -532,7 +532,7 @@ export class EdgeCaseHandler {
 
       // Get recent trips for the vehicle
       const { data: trips, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id, trip_serial_number, trip_start_date, start_km, end_km, fuel_quantity')
         .eq('vehicle_id', vehicleId)
         .order('trip_start_date')
@@ -766,7 +766,7 @@ export class EdgeCaseHandler {
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
       const { data: recentTrips } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id')
         .gte('trip_start_date', thirtyDaysAgo.toISOString())
         .limit(100);
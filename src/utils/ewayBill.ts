@@ -0,0 +1,235 @@
+import { addDays, differenceInHours, endOfDay, format, parseISO } from 'date-fns';
+import {
+  ConsignmentNote,
+  Destination,
+  EwayBillBulkUpload,
+  EwayBillEntry,
+  EwayBillExpiryWarning,
+  Trip
+} from '../types';
+import { getGSTINStateCode, validateGSTIN } from './indianValidation';
+import { formatInvoiceNumber } from './gstInvoice';
+
+// Schema version expected by the e-way bill portal's bulk generation tool
+export const EWAY_BILL_JSON_VERSION = '1.0.0621';
+
+// Rule 138(10): one day of validity per 200 km, or per 20 km for over-dimensional cargo
+export const EWAY_BILL_KM_PER_DAY = 200;
+export const EWAY_BILL_ODC_KM_PER_DAY = 20;
+
+// Portal rejects distances above this
+export const EWAY_BILL_MAX_DISTANCE_KM = 4000;
+
+export const EWAY_BILL_EXPIRY_WARNING_HOURS = 12;
+
+// GSTIN placeholder for unregistered parties
+const UNREGISTERED_GSTIN = 'URP';
+
+const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+
+export const CONSIGNMENT_FREIGHT_BASIS_LABELS: Record<ConsignmentNote['freight_basis'], string> = {
+  paid: 'Paid',
+  to_pay: 'To Pay',
+  to_be_billed: 'To Be Billed'
+};
+
+export const CONSIGNMENT_PACKAGE_TYPES = ['Bags', 'Boxes', 'Bundles', 'Drums', 'Pallets', 'Loose'];
+
+export const formatConsignmentNumber = (financialYear: string, sequence: number): string =>
+  formatInvoiceNumber(financialYear, sequence, 'LR');
+
+/**
+ * Distance for the e-way bill: odometer distance once the trip has run,
+ * otherwise the planned distance to the trip's destinations
+ */
+export const getEwayBillDistance = (
+  trip: Pick<Trip, 'start_km' | 'end_km'>,
+  destinations: Pick<Destination, 'standard_distance'>[] = []
+): number => {
+  if (trip.end_km && trip.start_km != null && trip.end_km > trip.start_km) {
+    return Math.round(trip.end_km - trip.start_km);
+  }
+  return Math.round(destinations.reduce((sum, d) => sum + (d.standard_distance || 0), 0));
+};
+
+export const getEwayBillValidityDays = (distanceKm: number, overDimensional = false): number => {
+  const kmPerDay = overDimensional ? EWAY_BILL_ODC_KM_PER_DAY : EWAY_BILL_KM_PER_DAY;
+  return Math.max(1, Math.ceil(distanceKm / kmPerDay));
+};
+
+/**
+ * Each day of validity runs to midnight of the day after generation, so a
+ * bill generated on the 5th for 250 km is valid until the end of the 7th.
+ */
+export const calculateEwayBillValidUntil = (
+  generatedAt: Date,
+  distanceKm: number,
+  overDimensional = false
+): Date => endOfDay(addDays(generatedAt, getEwayBillValidityDays(distanceKm, overDimensional)));
+
+/**
+ * Warn when the e-way bill runs out while the goods are still on the road
+ */
+export const getEwayBillExpiryWarning = (
+  trip: Pick<Trip, 'eway_bill_valid_until' | 'trip_end_date'>,
+  now: Date = new Date()
+): EwayBillExpiryWarning | null => {
+  if (!trip.eway_bill_valid_until) return null;
+
+  const validUntil = parseISO(trip.eway_bill_valid_until);
+  const tripEnd = trip.trip_end_date ? parseISO(trip.trip_end_date) : null;
+  const validUntilLabel = format(validUntil, 'dd MMM yyyy, HH:mm');
+  const tripEnded = tripEnd !== null && tripEnd <= now;
+
+  if (tripEnd && validUntil < tripEnd) {
+    return {
+      level: 'expires_mid_trip',
+      message: tripEnded
+        ? `E-way bill expired on ${validUntilLabel}, before the trip ended on ${format(tripEnd, 'dd MMM yyyy')}`
+        : `E-way bill expires on ${validUntilLabel}, before the trip ends on ${format(tripEnd, 'dd MMM yyyy')}. Extend it on the portal before it lapses.`
+    };
+  }
+
+  if (tripEnded) return null;
+
+  if (validUntil <= now) {
+    return { level: 'expired', message: `E-way bill expired on ${validUntilLabel}` };
+  }
+
+  if (differenceInHours(validUntil, now) < EWAY_BILL_EXPIRY_WARNING_HOURS) {
+    return { level: 'expiring_soon', message: `E-way bill expires on ${validUntilLabel}` };
+  }
+
+  return null;
+};
+
+export interface EwayBillSource {
+  note: ConsignmentNote;
+  vehicleNumber: string;
+  distanceKm: number;
+  transporterName: string;
+  transporterGstin?: string | null;
+  overDimensional?: boolean;
+}
+
+/**
+ * Fields the portal rejects when missing or malformed
+ */
+export const validateEwayBillSource = (source: EwayBillSource): string[] => {
+  const { note } = source;
+  const errors: string[] = [];
+
+  if (!note.consignor_gstin || !validateGSTIN(note.consignor_gstin)) {
+    errors.push('Consignor GSTIN is required to generate an e-way bill');
+  }
+  if (note.consignee_gstin && !validateGSTIN(note.consignee_gstin)) {
+    errors.push('Consignee GSTIN is invalid');
+  }
+  if (!note.consignor_pincode || !PINCODE_PATTERN.test(note.consignor_pincode)) {
+    errors.push('Consignor pincode must be 6 digits');
+  }
+  if (!note.consignee_pincode || !PINCODE_PATTERN.test(note.consignee_pincode)) {
+    errors.push('Consignee pincode must be 6 digits');
+  }
+  if (!note.consignee_state_code && !getGSTINStateCode(note.consignee_gstin)) {
+    errors.push('Consignee state is required');
+  }
+  if (!note.invoice_number || !note.invoice_date) {
+    errors.push('Goods invoice number and date are required');
+  }
+  if (!(note.invoice_value > 0)) {
+    errors.push('Invoice value must be greater than zero');
+  }
+  if (!note.hsn_code || !/^\d{4,8}$/.test(note.hsn_code)) {
+    errors.push('HSN code must be 4 to 8 digits');
+  }
+  if (!source.vehicleNumber) {
+    errors.push('Vehicle number is required');
+  }
+  if (!(source.distanceKm > 0) || source.distanceKm > EWAY_BILL_MAX_DISTANCE_KM) {
+    errors.push(`Distance must be between 1 and ${EWAY_BILL_MAX_DISTANCE_KM} km`);
+  }
+
+  return errors;
+};
+
+const toPortalDate = (value: string) => format(parseISO(value), 'dd/MM/yyyy');
+
+const resolveStateCode = (stateCode?: string | null, gstin?: string | null) =>
+  Number(getGSTINStateCode(gstin) || stateCode || 0);
+
+/**
+ * Build the bulk generation JSON for one consignment note. Tax rates on the
+ * goods are left at zero; the consignor fills them in on the portal when the
+ * goods are taxable.
+ */
+export const buildEwayBillEntry = (source: EwayBillSource): EwayBillEntry => {
+  const { note } = source;
+  const fromStateCode = resolveStateCode(note.consignor_state_code, note.consignor_gstin);
+  const toStateCode = resolveStateCode(note.consignee_state_code, note.consignee_gstin);
+  const hsnCode = Number(note.hsn_code || 0);
+  const invoiceValue = Math.round(note.invoice_value * 100) / 100;
+
+  return {
+    userGstin: (note.consignor_gstin || '').toUpperCase(),
+    supplyType: 'O',
+    subSupplyType: 1,
+    subSupplyDesc: '',
+    docType: 'INV',
+    docNo: note.invoice_number || '',
+    docDate: note.invoice_date ? toPortalDate(note.invoice_date) : '',
+    transType: 1,
+    fromGstin: (note.consignor_gstin || UNREGISTERED_GSTIN).toUpperCase(),
+    fromTrdName: note.consignor_name,
+    fromAddr1: note.consignor_address || '',
+    fromAddr2: '',
+    fromPlace: '',
+    fromPincode: Number(note.consignor_pincode || 0),
+    fromStateCode,
+    actualFromStateCode: fromStateCode,
+    toGstin: (note.consignee_gstin || UNREGISTERED_GSTIN).toUpperCase(),
+    toTrdName: note.consignee_name,
+    toAddr1: note.consignee_address || '',
+    toAddr2: '',
+    toPlace: '',
+    toPincode: Number(note.consignee_pincode || 0),
+    toStateCode,
+    actualToStateCode: toStateCode,
+    totalValue: invoiceValue,
+    cgstValue: 0,
+    sgstValue: 0,
+    igstValue: 0,
+    cessValue: 0,
+    TotNonAdvolVal: 0,
+    OthValue: 0,
+    totInvValue: invoiceValue,
+    transMode: 1,
+    transDistance: Math.round(source.distanceKm),
+    transporterName: source.transporterName,
+    transporterId: (source.transporterGstin || '').toUpperCase(),
+    transDocNo: note.lr_number,
+    transDocDate: toPortalDate(note.lr_date),
+    vehicleNo: source.vehicleNumber.replace(/[\s-]/g, '').toUpperCase(),
+    vehicleType: source.overDimensional ? 'O' : 'R',
+    mainHsnCode: hsnCode,
+    itemList: [{
+      itemNo: 1,
+      productName: note.material_description,
+      productDesc: note.material_description,
+      hsnCode,
+      quantity: note.actual_weight ? note.actual_weight : note.package_count,
+      qtyUnit: note.actual_weight ? 'KGS' : 'NOS',
+      taxableAmount: invoiceValue,
+      cgstRate: 0,
+      sgstRate: 0,
+      igstRate: 0,
+      cessRate: 0,
+      cessNonAdvol: 0
+    }]
+  };
+};
+
+export const buildEwayBillBulkUpload = (sources: EwayBillSource[]): EwayBillBulkUpload => ({
+  version: EWAY_BILL_JSON_VERSION,
+  billLists: sources.map(buildEwayBillEntry)
+});
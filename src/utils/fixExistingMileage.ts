@@ -21,14 +21,14 @@ export async function fixAllExistingMileage(): Promise<{
     
     // First get count to bypass Supabase's default 1000 row limit
     const { count } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true });
     
     logger.debug(`Total trips to process: ${count}`);
     
     // Get all trips from the database with range to bypass 1000 row limit
     const { data: allTrips, error: fetchError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*')
       .order('trip_start_date', { ascending: true })
       .range(0, (count || 10000) - 1);
@@ -161,13 +161,13 @@ export async function fixMileageForSpecificVehicle(vehicleId: string): Promise<{
     
     // Get count of trips for this vehicle
     const { count: vehicleTripCount } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .eq('vehicle_id', vehicleId);
     
     // Get all trips for this vehicle with range
     const { data: vehicleTrips, error: fetchError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*')
       .eq('vehicle_id', vehicleId)
       .order('trip_start_date', { ascending: true })
@@ -183,12 +183,12 @@ export async function fixMileageForSpecificVehicle(vehicleId: string): Promise<{
 
     // Get count of all trips
     const { count: totalCount } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true });
     
     // Get all trips to pass to the recalculation function with range
     const { data: allTrips } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*')
       .order('trip_start_date', { ascending: true })
       .range(0, (totalCount || 10000) - 1);
@@ -0,0 +1,380 @@
+import {
+  Driver,
+  DriverImportDraft,
+  FleetImportEntity,
+  FleetImportInput,
+  FleetImportRow,
+  Vehicle,
+  VehicleImportDraft
+} from '../types';
+import { Tag } from '../types/tags';
+import {
+  validateAadhar,
+  validateIndianLicense,
+  validateIndianMobile,
+  validateVehicleRegistration
+} from './indianValidation';
+import { normalizeRegistration, parseStatementDate } from './fuelReconciliation';
+import { normalizeDocumentDate, normalizeVehicleClasses } from './documentVerification';
+import { LIFETIME_TAX_DATE } from '../../supabase/functions/_shared/documentDiff.ts';
+
+export interface FleetImportColumn {
+  key: string;
+  header: string; // As written in the template
+  required: boolean;
+  example: string;
+  aliases: string[]; // Lower-case, letters and digits only
+}
+
+export const VEHICLE_IMPORT_COLUMNS: FleetImportColumn[] = [
+  { key: 'registration_number', header: 'Registration Number', required: true, example: 'CG04AB1234', aliases: ['vehicle', 'vehicleno', 'vehiclenumber', 'regno', 'registration'] },
+  { key: 'make', header: 'Make', required: true, example: 'Tata', aliases: ['brand', 'manufacturer'] },
+  { key: 'model', header: 'Model', required: true, example: 'LPT 1918', aliases: [] },
+  { key: 'year', header: 'Year', required: true, example: '2022', aliases: ['manufacturingyear', 'modelyear'] },
+  { key: 'type', header: 'Type', required: false, example: 'truck', aliases: ['vehicletype'] },
+  { key: 'fuel_type', header: 'Fuel Type', required: false, example: 'diesel', aliases: ['fuel'] },
+  { key: 'current_odometer', header: 'Current Odometer', required: false, example: '125000', aliases: ['odometer', 'currentkm', 'km'] },
+  { key: 'chassis_number', header: 'Chassis Number', required: false, example: '', aliases: ['chassisno', 'chassis'] },
+  { key: 'engine_number', header: 'Engine Number', required: false, example: '', aliases: ['engineno', 'engine'] },
+  { key: 'owner_name', header: 'Owner Name', required: false, example: '', aliases: ['owner'] },
+  { key: 'insurance_expiry_date', header: 'Insurance Expiry', required: false, example: '31-03-2026', aliases: ['insuranceupto', 'insurancevalidupto'] },
+  { key: 'fitness_expiry_date', header: 'Fitness Expiry', required: false, example: '', aliases: ['fitnessupto', 'fitupto'] },
+  { key: 'puc_expiry_date', header: 'PUC Expiry', required: false, example: '', aliases: ['pucupto', 'puccupto'] },
+  { key: 'permit_expiry_date', header: 'Permit Expiry', required: false, example: '', aliases: ['permitupto', 'permitvalidupto'] },
+  { key: 'tax_paid_upto', header: 'Tax Paid Upto', required: false, example: 'LTT', aliases: ['taxupto', 'taxvalidupto'] },
+  { key: 'tags', header: 'Tags', required: false, example: 'Cement, Long haul', aliases: ['tag', 'groups'] }
+];
+
+export const DRIVER_IMPORT_COLUMNS: FleetImportColumn[] = [
+  { key: 'name', header: 'Name', required: true, example: 'Ramesh Kumar', aliases: ['drivername', 'fullname'] },
+  { key: 'license_number', header: 'Licence Number', required: true, example: 'CG0420190001234', aliases: ['licensenumber', 'licenseno', 'licenceno', 'dlno', 'dlnumber', 'license', 'licence'] },
+  { key: 'date_of_birth', header: 'Date of Birth', required: false, example: '15-08-1985', aliases: ['dob', 'birthdate'] },
+  { key: 'contact_number', header: 'Mobile', required: false, example: '9876543210', aliases: ['mobileno', 'mobilenumber', 'phone', 'contact', 'contactnumber'] },
+  { key: 'aadhar_number', header: 'Aadhaar Number', required: false, example: '', aliases: ['aadhar', 'aadhaar', 'aadharnumber', 'aadharno', 'aadhaarno'] },
+  { key: 'license_expiry', header: 'Licence Valid Upto', required: false, example: '', aliases: ['licenseexpiry', 'licenceexpiry', 'licensevalidupto', 'dlvalidupto', 'validupto'] },
+  { key: 'date_of_joining', header: 'Joining Date', required: false, example: '', aliases: ['dateofjoining', 'doj', 'joindate'] },
+  { key: 'experience_years', header: 'Experience (Years)', required: false, example: '5', aliases: ['experience', 'experienceyears'] },
+  { key: 'salary', header: 'Salary', required: false, example: '', aliases: ['monthlysalary'] },
+  { key: 'address', header: 'Address', required: false, example: '', aliases: [] },
+  { key: 'primary_vehicle', header: 'Primary Vehicle', required: false, example: 'CG04AB1234', aliases: ['vehicle', 'vehicleno', 'assignedvehicle'] }
+];
+
+export const getFleetImportColumns = (entity: FleetImportEntity): FleetImportColumn[] =>
+  entity === 'vehicle' ? VEHICLE_IMPORT_COLUMNS : DRIVER_IMPORT_COLUMNS;
+
+const VEHICLE_TYPES: Vehicle['type'][] = ['truck', 'tempo', 'trailer', 'pickup', 'van'];
+
+const FUEL_TYPES: Record<string, Vehicle['fuel_type']> = {
+  diesel: 'diesel',
+  petrol: 'petrol',
+  cng: 'cng',
+  ev: 'ev',
+  electric: 'ev',
+  battery: 'ev'
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const normalizeLicenseNumber = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const cellText = (value: unknown): string => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? ''
+      : `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return String(value ?? '').trim();
+};
+
+/**
+ * Read uploaded rows against the template columns; headers are matched
+ * loosely and blank rows are skipped
+ */
+export const readFleetImportSheet = (
+  rawRows: Record<string, unknown>[],
+  columns: FleetImportColumn[]
+): FleetImportInput[] => {
+  const keyForHeader = new Map<string, string>();
+  columns.forEach(column => {
+    [column.key, column.header, ...column.aliases].forEach(name => {
+      const normalized = normalizeHeader(name);
+      if (!keyForHeader.has(normalized)) keyForHeader.set(normalized, column.key);
+    });
+  });
+
+  return rawRows
+    .map((raw, index) => {
+      const values: Record<string, string> = {};
+      Object.entries(raw).forEach(([header, value]) => {
+        const key = keyForHeader.get(normalizeHeader(header));
+        if (key && !values[key]) values[key] = cellText(value);
+      });
+      return { row: index + 2, values };
+    })
+    .filter(input => Object.values(input.values).some(Boolean));
+};
+
+/**
+ * Header row and one example row of the import template
+ */
+export const getFleetImportTemplateRows = (entity: FleetImportEntity): Record<string, string>[] => {
+  const columns = getFleetImportColumns(entity);
+  return [Object.fromEntries(columns.map(column => [column.header, column.example]))];
+};
+
+const fillBlanks = (values: Record<string, string>, fetched: Record<string, string | null | undefined>) => {
+  const merged = { ...values };
+  Object.entries(fetched).forEach(([key, value]) => {
+    if (!merged[key] && value) merged[key] = value;
+  });
+  return merged;
+};
+
+const text = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : null;
+
+/**
+ * Fill blank cells of a vehicle row from the RC lookup (fetch-rc-details
+ * data.response); values typed into the sheet win
+ */
+export const mergeRcDetails = (
+  values: Record<string, string>,
+  rc: Record<string, unknown>
+): Record<string, string> => {
+  const registrationYear = normalizeDocumentDate(rc.registration_date)?.slice(0, 4);
+  const fuel = text(rc.fuel_type)?.toLowerCase();
+
+  return fillBlanks(values, {
+    make: text(rc.brand_name),
+    model: text(rc.brand_model),
+    year: registrationYear,
+    fuel_type: fuel && FUEL_TYPES[fuel] ? fuel : null,
+    chassis_number: text(rc.chassis_number),
+    engine_number: text(rc.engine_number),
+    owner_name: text(rc.owner_name),
+    insurance_expiry_date: normalizeDocumentDate(rc.insurance_expiry),
+    fitness_expiry_date: normalizeDocumentDate(rc.fitness_upto) || normalizeDocumentDate(rc.fit_up_to),
+    puc_expiry_date: normalizeDocumentDate(rc.pucc_upto),
+    permit_expiry_date: normalizeDocumentDate(rc.permit_valid_upto),
+    tax_paid_upto: text(rc.tax_paid_upto)?.toUpperCase() === 'LTT' ? 'LTT' : normalizeDocumentDate(rc.tax_upto),
+    registration_date: normalizeDocumentDate(rc.registration_date),
+    vehicle_class: text(rc.class),
+    insurer_name: text(rc.insurance_company),
+    insurance_policy_number: text(rc.insurance_policy),
+    rc_status: text(rc.rc_status)
+  });
+};
+
+/**
+ * Fill blank cells of a driver row from the DL lookup (fetch-driver-details
+ * data); values typed into the sheet win
+ */
+export const mergeDlDetails = (
+  values: Record<string, string>,
+  dl: Record<string, unknown>
+): Record<string, string> =>
+  fillBlanks(values, {
+    name: text(dl.full_name),
+    license_expiry: normalizeDocumentDate(dl.valid_upto),
+    address: text(dl.permanent_address) || text(dl.temporary_address),
+    father_or_husband_name: text(dl.father_name),
+    gender: text(dl.gender)?.toUpperCase(),
+    blood_group: text(dl.blood_group)?.toUpperCase(),
+    valid_from: normalizeDocumentDate(dl.valid_from),
+    license_issue_date: normalizeDocumentDate(dl.issue_date),
+    vehicle_class: normalizeVehicleClasses(dl.vehicle_class)?.join(','),
+    rto: text(dl.rto),
+    rto_code: text(dl.rto_code),
+    state: text(dl.state)
+  });
+
+interface RowCheck {
+  errors: string[];
+  warnings: string[];
+}
+
+// Birth and joining dates can predate 2000, which parseStatementDate rejects
+export const parseImportDate = (value: string): string | null =>
+  normalizeDocumentDate(value) || parseStatementDate(value);
+
+const readDate = (values: Record<string, string>, key: string, label: string, check: RowCheck): string | undefined => {
+  const value = values[key];
+  if (!value) return undefined;
+  const date = parseImportDate(value);
+  if (!date) check.warnings.push(`${label} "${value}" is not a date; left blank`);
+  return date || undefined;
+};
+
+const readNumber = (values: Record<string, string>, key: string, label: string, check: RowCheck): number | undefined => {
+  const value = values[key];
+  if (!value) return undefined;
+  const number = Number(value.replace(/[₹,\s]/g, ''));
+  if (!Number.isFinite(number) || number < 0) {
+    check.warnings.push(`${label} "${value}" is not a number; left blank`);
+    return undefined;
+  }
+  return number;
+};
+
+const splitList = (value?: string) => (value || '').split(/\s*[,;|]\s*/).filter(Boolean);
+
+/**
+ * Validate vehicle rows and turn them into records. Registrations already in
+ * the fleet or repeated in the file are rejected; unknown tags are skipped.
+ */
+export const buildVehicleImportRows = (
+  inputs: FleetImportInput[],
+  context: { existingVehicles: Pick<Vehicle, 'registration_number'>[]; tags: Pick<Tag, 'id' | 'name'>[]; defaultTagIds?: string[] }
+): FleetImportRow<VehicleImportDraft>[] => {
+  const taken = new Set(context.existingVehicles.map(v => normalizeRegistration(v.registration_number)));
+  const seenInFile = new Map<string, number>();
+  const tagsByName = new Map(context.tags.map(tag => [tag.name.trim().toLowerCase(), tag.id]));
+
+  return inputs.map(({ row, values, fetched, fetch_error }) => {
+    const check: RowCheck = { errors: [], warnings: fetch_error ? [`RC lookup failed: ${fetch_error}`] : [] };
+    const registration = normalizeRegistration(values.registration_number || '');
+
+    if (!registration) check.errors.push('Registration number is missing');
+    else if (!validateVehicleRegistration(registration)) check.errors.push(`${registration} is not a valid registration number`);
+    else if (taken.has(registration)) check.errors.push(`${registration} is already in the fleet`);
+    else if (seenInFile.has(registration)) check.errors.push(`${registration} is repeated from row ${seenInFile.get(registration)}`);
+    if (registration && !seenInFile.has(registration)) seenInFile.set(registration, row);
+
+    if (!values.make) check.errors.push('Make is missing');
+    if (!values.model) check.errors.push('Model is missing');
+    const year = Number(values.year);
+    if (!values.year) check.errors.push('Year is missing');
+    else if (!Number.isInteger(year) || year < 1980 || year > new Date().getFullYear() + 1) {
+      check.errors.push(`Year "${values.year}" is not valid`);
+    }
+
+    const type = (values.type || 'truck').toLowerCase() as Vehicle['type'];
+    if (!VEHICLE_TYPES.includes(type)) check.errors.push(`Type "${values.type}" must be one of ${VEHICLE_TYPES.join(', ')}`);
+
+    const fuelType = FUEL_TYPES[(values.fuel_type || 'diesel').toLowerCase()];
+    if (!fuelType) check.errors.push(`Fuel type "${values.fuel_type}" is not recognised`);
+
+    const tagIds = new Set(context.defaultTagIds || []);
+    splitList(values.tags).forEach(name => {
+      const id = tagsByName.get(name.toLowerCase());
+      if (id) tagIds.add(id);
+      else check.warnings.push(`Tag "${name}" not found; skipped`);
+    });
+
+    const lifetimeTax = values.tax_paid_upto?.toUpperCase() === 'LTT';
+    const record: VehicleImportDraft = {
+      registration_number: registration,
+      make: values.make,
+      model: values.model,
+      year,
+      type,
+      fuel_type: fuelType,
+      current_odometer: readNumber(values, 'current_odometer', 'Odometer', check) ?? 0,
+      status: 'active',
+      chassis_number: values.chassis_number || undefined,
+      engine_number: values.engine_number || undefined,
+      owner_name: values.owner_name || undefined,
+      registration_date: values.registration_date || undefined,
+      vehicle_class: values.vehicle_class || undefined,
+      insurer_name: values.insurer_name || undefined,
+      insurance_policy_number: values.insurance_policy_number || undefined,
+      rc_status: values.rc_status || undefined,
+      insurance_expiry_date: readDate(values, 'insurance_expiry_date', 'Insurance expiry', check),
+      fitness_expiry_date: readDate(values, 'fitness_expiry_date', 'Fitness expiry', check),
+      puc_expiry_date: readDate(values, 'puc_expiry_date', 'PUC expiry', check),
+      permit_expiry_date: readDate(values, 'permit_expiry_date', 'Permit expiry', check),
+      tax_paid_upto: lifetimeTax ? LIFETIME_TAX_DATE : readDate(values, 'tax_paid_upto', 'Tax paid upto', check),
+      tax_scope: lifetimeTax ? 'Lifetime Tax (LTT)' : undefined,
+      vahan_last_fetched_at: fetched ? new Date().toISOString() : undefined
+    };
+
+    return {
+      row,
+      key: registration,
+      record: check.errors.length === 0 ? record : null,
+      tag_ids: [...tagIds],
+      fetched: !!fetched,
+      errors: check.errors,
+      warnings: check.warnings
+    };
+  });
+};
+
+/**
+ * Validate driver rows and turn them into records. Licence numbers already
+ * on file or repeated in the file are rejected.
+ */
+export const buildDriverImportRows = (
+  inputs: FleetImportInput[],
+  context: { existingDrivers: Pick<Driver, 'license_number'>[]; vehicles: Pick<Vehicle, 'id' | 'registration_number'>[] }
+): FleetImportRow<DriverImportDraft>[] => {
+  const taken = new Set(
+    context.existingDrivers.map(d => normalizeLicenseNumber(d.license_number || '')).filter(Boolean)
+  );
+  const seenInFile = new Map<string, number>();
+  const vehiclesByRegistration = new Map(context.vehicles.map(v => [normalizeRegistration(v.registration_number), v.id]));
+
+  return inputs.map(({ row, values, fetched, fetch_error }) => {
+    const check: RowCheck = { errors: [], warnings: fetch_error ? [`DL lookup failed: ${fetch_error}`] : [] };
+    const license = normalizeLicenseNumber(values.license_number || '');
+
+    if (!values.name) check.errors.push('Name is missing');
+    if (!license) check.errors.push('Licence number is missing');
+    else if (!validateIndianLicense(license)) check.errors.push(`${license} is not a valid licence number`);
+    else if (taken.has(license)) check.errors.push(`Licence ${license} is already on file`);
+    else if (seenInFile.has(license)) check.errors.push(`Licence ${license} is repeated from row ${seenInFile.get(license)}`);
+    if (license && !seenInFile.has(license)) seenInFile.set(license, row);
+
+    const mobile = values.contact_number?.replace(/[\s-]/g, '').replace(/^(\+91|91)(?=\d{10}$)/, '');
+    if (mobile && !validateIndianMobile(mobile)) check.errors.push(`Mobile "${values.contact_number}" is not a valid Indian number`);
+
+    const aadhar = values.aadhar_number?.replace(/[\s-]/g, '');
+    if (aadhar && !validateAadhar(aadhar)) check.errors.push(`Aadhaar "${values.aadhar_number}" must be 12 digits`);
+
+    let primaryVehicleId: string | undefined;
+    if (values.primary_vehicle) {
+      primaryVehicleId = vehiclesByRegistration.get(normalizeRegistration(values.primary_vehicle));
+      if (!primaryVehicleId) check.warnings.push(`Vehicle ${values.primary_vehicle} not found; not assigned`);
+    }
+
+    const record: DriverImportDraft = {
+      name: values.name,
+      license_number: license,
+      contact_number: mobile || undefined,
+      aadhar_number: aadhar || undefined,
+      date_of_birth: readDate(values, 'date_of_birth', 'Date of birth', check),
+      license_expiry: readDate(values, 'license_expiry', 'Licence validity', check),
+      date_of_joining: readDate(values, 'date_of_joining', 'Joining date', check),
+      experience_years: readNumber(values, 'experience_years', 'Experience', check) ?? 0,
+      salary: readNumber(values, 'salary', 'Salary', check),
+      address: values.address || undefined,
+      primary_vehicle_id: primaryVehicleId,
+      status: 'active',
+      father_or_husband_name: values.father_or_husband_name || undefined,
+      gender: values.gender || undefined,
+      blood_group: values.blood_group || undefined,
+      valid_from: values.valid_from || undefined,
+      license_issue_date: values.license_issue_date || undefined,
+      vehicle_class: values.vehicle_class ? splitList(values.vehicle_class) : undefined,
+      rto: values.rto || undefined,
+      rto_code: values.rto_code || undefined,
+      state: values.state || undefined
+    };
+
+    if (!record.license_expiry && check.errors.length === 0) {
+      check.warnings.push('Licence validity not given; expiry reminders will not cover this driver');
+    }
+
+    return {
+      row,
+      key: license,
+      record: check.errors.length === 0 ? record : null,
+      tag_ids: [],
+      fetched: !!fetched,
+      errors: check.errors,
+      warnings: check.warnings
+    };
+  });
+};
@@ -0,0 +1,136 @@
+import { FreightRate, FreightRateCriteria, RepricingTrip, TripRepricing } from '../types';
+import { calculateIncome } from './billingSettings';
+
+/**
+ * Check whether a rate is in effect on the given date (inclusive window)
+ */
+export const isFreightRateEffectiveOn = (rate: FreightRate, date: string): boolean => {
+  const day = date.slice(0, 10);
+  if (rate.active === false) return false;
+  if (day < rate.effective_from.slice(0, 10)) return false;
+  if (rate.effective_to && day > rate.effective_to.slice(0, 10)) return false;
+  return true;
+};
+
+/**
+ * Score how specifically a rate matches a trip.
+ * Returns -1 when the warehouse, lane or material does not match; otherwise
+ * two points each for a pinned lane and material, and one when the rate's
+ * billing type is the one already chosen on the trip.
+ */
+export const getFreightRateMatchScore = (rate: FreightRate, criteria: FreightRateCriteria): number => {
+  if (rate.warehouse_id !== criteria.warehouseId) return -1;
+
+  let score = 0;
+
+  if (rate.destination_id) {
+    if (!criteria.destinationIds?.includes(rate.destination_id)) return -1;
+    score += 2;
+  }
+
+  if (rate.material_type_id) {
+    if (!criteria.materialTypeIds?.includes(rate.material_type_id)) return -1;
+    score += 2;
+  }
+
+  if (criteria.billingType && rate.billing_type === criteria.billingType) {
+    score++;
+  }
+
+  return score;
+};
+
+/**
+ * Pick the rate card entry for a trip.
+ * The most specific entry in effect wins; ties go to the most recent one.
+ */
+export const resolveFreightRate = (
+  rates: FreightRate[],
+  criteria: FreightRateCriteria
+): FreightRate | null => {
+  if (!criteria.warehouseId || !criteria.tripDate) return null;
+
+  let best: FreightRate | null = null;
+  let bestScore = -1;
+
+  for (const rate of rates) {
+    if (!isFreightRateEffectiveOn(rate, criteria.tripDate)) continue;
+
+    const score = getFreightRateMatchScore(rate, criteria);
+    if (score < 0) continue;
+
+    if (score > bestScore || (score === bestScore && best && rate.effective_from > best.effective_from)) {
+      best = rate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Freight rate, billing type and income for a trip priced from a rate card
+ * entry. Income is null when the trip lacks the weight or distance the
+ * billing type needs.
+ */
+export const priceTripFromFreightRate = (
+  rate: FreightRate,
+  trip: Pick<RepricingTrip, 'start_km' | 'end_km' | 'gross_weight'>
+) => {
+  const distance = Math.max(0, (Number(trip.end_km) || 0) - (Number(trip.start_km) || 0));
+  const income = calculateIncome(rate.billing_type, rate.rate, distance, Number(trip.gross_weight) || 0);
+
+  return {
+    freight_rate: rate.rate,
+    billing_type: rate.billing_type,
+    income_amount: income > 0 ? Math.round(income * 100) / 100 : null
+  };
+};
+
+export const getFreightRateCriteria = (
+  trip: Pick<RepricingTrip, 'trip_start_date' | 'warehouse_id' | 'destinations' | 'material_type_ids' | 'billing_type'>
+): FreightRateCriteria => ({
+  tripDate: trip.trip_start_date,
+  warehouseId: trip.warehouse_id,
+  destinationIds: trip.destinations || [],
+  materialTypeIds: trip.material_type_ids || [],
+  billingType: trip.billing_type
+});
+
+/**
+ * Work out what each trip would earn under the current rate tables. Trips
+ * priced manually, from a customer contract or already invoiced are left
+ * alone.
+ */
+export const buildRepricingPreview = (trips: RepricingTrip[], rates: FreightRate[]): TripRepricing[] =>
+  trips.map(trip => {
+    if (trip.billing_type === 'manual') return { trip, difference: 0, skip_reason: 'manual' };
+    if (trip.contract_rate_id) return { trip, difference: 0, skip_reason: 'contract' };
+    if (trip.invoice_id) return { trip, difference: 0, skip_reason: 'invoiced' };
+
+    const rate = resolveFreightRate(rates, getFreightRateCriteria(trip));
+    const priced = rate ? priceTripFromFreightRate(rate, trip) : null;
+    if (!rate || !priced || priced.income_amount === null) {
+      return { trip, difference: 0, skip_reason: 'no_rate' };
+    }
+
+    return {
+      trip,
+      freight_rate: rate,
+      new_freight_rate: priced.freight_rate,
+      new_billing_type: priced.billing_type,
+      new_income: priced.income_amount,
+      difference: Math.round((priced.income_amount - (trip.income_amount || 0)) * 100) / 100
+    };
+  });
+
+/**
+ * Preview rows that would actually change the trip
+ */
+export const getRepricingChanges = (preview: TripRepricing[]): TripRepricing[] =>
+  preview.filter(row =>
+    !row.skip_reason &&
+    (row.difference !== 0 ||
+      row.new_freight_rate !== row.trip.freight_rate ||
+      row.new_billing_type !== row.trip.billing_type)
+  );
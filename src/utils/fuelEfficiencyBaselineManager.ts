@@ -89,7 +89,7 @@ export class FuelEfficiencyBaselineManager {
       ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
 
       const { data: trips, error: tripsError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id, trip_start_date, start_km, end_km, fuel_quantity, calculated_kmpl')
         .eq('vehicle_id', vehicleId)
         .gte('trip_start_date', ninetyDaysAgo.toISOString())
@@ -379,7 +379,7 @@ export class FuelEfficiencyBaselineManager {
     try {
       // Get trip data
       const { data: trip, error: tripError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select(`
           id, trip_serial_number, trip_start_date, vehicle_id, calculated_kmpl,
           vehicles!inner(registration_number)
@@ -529,7 +529,7 @@ export class FuelEfficiencyBaselineManager {
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
       const { data: recentTrips, error: tripsError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id, trip_start_date, calculated_kmpl')
         .eq('vehicle_id', vehicleId)
         .gte('trip_start_date', thirtyDaysAgo.toISOString())
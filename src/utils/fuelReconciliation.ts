@@ -0,0 +1,365 @@
+import { addDays, format, isValid, parse, parseISO } from 'date-fns';
+import {
+  FuelCardImportRow,
+  FuelCardParseResult,
+  FuelCardTransaction,
+  FuelReconciliationException,
+  FuelReconciliationResult,
+  Refueling,
+  Trip
+} from '../types';
+
+// A statement line matches a trip refueling when both figures are within these limits
+export const FUEL_QUANTITY_TOLERANCE = { litres: 0.5, percent: 1 };
+export const FUEL_AMOUNT_TOLERANCE = { rupees: 10, percent: 1 };
+
+// Beyond this difference a refueling is treated as a different fill rather than a mismatch
+const CANDIDATE_LIMIT_PERCENT = 25;
+
+// Fuel is often filled the evening before departure or the morning after return
+const TRIP_WINDOW_DAYS = 1;
+
+const HEADER_ALIASES: Record<keyof FuelCardImportRow, string[]> = {
+  transaction_date: ['date', 'transactiondate', 'txndate', 'datetime', 'transactiondatetime'],
+  vehicle_registration: ['vehicle', 'vehicleno', 'vehiclenumber', 'registration', 'registrationnumber', 'regno', 'vehicleregistration'],
+  card_number: ['card', 'cardno', 'cardnumber'],
+  fuel_quantity: ['litres', 'liters', 'quantity', 'qty', 'volume', 'quantityltr', 'quantitylitres', 'fuelquantity'],
+  rate_per_liter: ['rate', 'price', 'rateperlitre', 'rateperliter', 'unitprice'],
+  amount: ['amount', 'totalamount', 'transactionamount', 'value', 'total', 'amountrs'],
+  location: ['location', 'outlet', 'pump', 'station', 'merchant', 'merchantname', 'retailoutlet'],
+  reference: ['reference', 'referenceno', 'transactionid', 'txnid', 'txnno', 'transactionno', 'receiptno']
+};
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'dd-MMM-yyyy', 'dd MMM yyyy', 'dd/MM/yy', 'yyyy-MM-dd'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const normalizeRegistration = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const cleaned = String(value ?? '').replace(/[₹,\s]/g, '').replace(/^rs\.?/i, '');
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+/**
+ * Statement dates arrive as Date objects (Excel), ISO strings or Indian
+ * dd/mm/yyyy variants; any time part is dropped
+ */
+export const parseStatementDate = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return isValid(value) ? format(value, 'yyyy-MM-dd') : null;
+  }
+
+  const text = String(value ?? '').trim().split(/[ T](?=\d{1,2}:)/)[0];
+  if (!text) return null;
+
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 2000) return format(date, 'yyyy-MM-dd');
+  }
+
+  const iso = parseISO(text);
+  return isValid(iso) ? format(iso, 'yyyy-MM-dd') : null;
+};
+
+/**
+ * Map loosely named statement columns onto fuel card rows. Rows without a
+ * vehicle, date or amount are reported as errors rather than imported.
+ */
+export const normalizeFuelCardRows = (rawRows: Record<string, unknown>[]): FuelCardParseResult => {
+  const rows: FuelCardImportRow[] = [];
+  const errors: FuelCardParseResult['errors'] = [];
+
+  rawRows.forEach((raw, index) => {
+    const byHeader = new Map(Object.entries(raw).map(([key, value]) => [normalizeHeader(key), value]));
+    const pick = (field: keyof FuelCardImportRow) => {
+      const alias = HEADER_ALIASES[field].find(a => byHeader.has(a) && byHeader.get(a) !== '');
+      return alias ? byHeader.get(alias) : undefined;
+    };
+
+    const rowNumber = index + 2; // header is row 1
+    const registration = normalizeRegistration(String(pick('vehicle_registration') ?? ''));
+    const date = parseStatementDate(pick('transaction_date'));
+    const amount = parseAmount(pick('amount'));
+    const quantity = parseAmount(pick('fuel_quantity'));
+    const rate = parseAmount(pick('rate_per_liter'));
+
+    if (!registration) {
+      errors.push({ row: rowNumber, message: 'Vehicle number is missing' });
+      return;
+    }
+    if (!date) {
+      errors.push({ row: rowNumber, message: 'Transaction date is missing or not recognised' });
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      // Card statements also list top-ups and fees; only fuel purchases are reconciled
+      errors.push({ row: rowNumber, message: 'Amount is missing or not a purchase' });
+      return;
+    }
+
+    const fuelQuantity = Number.isFinite(quantity) && quantity > 0
+      ? quantity
+      : Number.isFinite(rate) && rate > 0 ? amount / rate : 0;
+
+    rows.push({
+      vehicle_registration: registration,
+      card_number: pick('card_number') ? String(pick('card_number')).trim() : null,
+      transaction_date: date,
+      location: pick('location') ? String(pick('location')).trim() : null,
+      fuel_quantity: Math.round(fuelQuantity * 100) / 100,
+      rate_per_liter: Number.isFinite(rate) && rate > 0 ? rate : null,
+      amount,
+      reference: pick('reference') ? String(pick('reference')).trim() : null
+    });
+  });
+
+  return { rows, errors };
+};
+
+export const buildFuelTransactionKey = (row: FuelCardImportRow) =>
+  [row.vehicle_registration, row.transaction_date, row.amount.toFixed(2), row.reference || row.fuel_quantity].join('|');
+
+interface RefuelingEntry {
+  trip: Trip;
+  index: number;
+  from: string;
+  to: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * Every refueling recorded on the trips, with the dates it could have happened.
+ * Trips saved before multiple refuelings were supported count as one entry.
+ */
+const flattenRefuelings = (trips: Trip[]): RefuelingEntry[] =>
+  trips.flatMap(trip => {
+    if (!trip.trip_start_date || !isValid(parseISO(trip.trip_start_date))) return [];
+
+    const from = format(addDays(parseISO(trip.trip_start_date), -TRIP_WINDOW_DAYS), 'yyyy-MM-dd');
+    // A trip without an end date is still running, so fills up to today belong to it
+    const endDate = trip.trip_end_date && isValid(parseISO(trip.trip_end_date)) ? parseISO(trip.trip_end_date) : new Date();
+    const to = format(addDays(endDate, TRIP_WINDOW_DAYS), 'yyyy-MM-dd');
+
+    const refuelings: Refueling[] = Array.isArray(trip.refuelings) && trip.refuelings.length > 0
+      ? trip.refuelings
+      : trip.fuel_quantity
+        ? [{ location: '', fuel_quantity: trip.fuel_quantity, fuel_rate_per_liter: trip.fuel_rate_per_liter || 0, total_fuel_cost: trip.total_fuel_cost || 0 }]
+        : [];
+
+    return refuelings
+      .map((r, index) => ({ trip, index, from, to, quantity: r.fuel_quantity || 0, amount: r.total_fuel_cost || 0 }))
+      .filter(entry => entry.quantity > 0 || entry.amount > 0);
+  });
+
+const withinTolerance = (difference: number, base: number, absolute: number, percent: number) =>
+  Math.abs(difference) <= Math.max(absolute, (Math.abs(base) * percent) / 100);
+
+const percentOff = (difference: number, base: number) => (base ? Math.abs(difference / base) * 100 : Infinity);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Match statement transactions to trip refuelings by vehicle, date and amount.
+ * Refuelings of statement vehicles inside the statement period that no
+ * transaction claimed are reported as missing from the statement.
+ */
+export const reconcileFuelTransactions = (
+  transactions: Pick<FuelCardTransaction, 'id' | 'vehicle_id' | 'vehicle_registration' | 'transaction_date' | 'fuel_quantity' | 'amount'>[],
+  trips: Trip[]
+): FuelReconciliationResult => {
+  const entries = flattenRefuelings(trips);
+  const used = new Set<RefuelingEntry>();
+  const result: FuelReconciliationResult = {
+    matches: [],
+    exceptions: [],
+    summary: {
+      transactions: transactions.length,
+      matched: 0,
+      mismatched: 0,
+      unmatched: 0,
+      missingOnStatement: 0,
+      statementAmount: 0,
+      recordedAmount: 0
+    }
+  };
+
+  const sorted = [...transactions].sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+
+  sorted.forEach(txn => {
+    result.summary.statementAmount += txn.amount;
+
+    const candidates = entries
+      .filter(e =>
+        !used.has(e) &&
+        e.trip.vehicle_id === txn.vehicle_id &&
+        txn.transaction_date >= e.from &&
+        txn.transaction_date <= e.to &&
+        (percentOff(e.amount - txn.amount, txn.amount) <= CANDIDATE_LIMIT_PERCENT ||
+          percentOff(e.quantity - txn.fuel_quantity, txn.fuel_quantity) <= CANDIDATE_LIMIT_PERCENT)
+      )
+      .sort((a, b) =>
+        percentOff(a.amount - txn.amount, txn.amount) - percentOff(b.amount - txn.amount, txn.amount) ||
+        percentOff(a.quantity - txn.fuel_quantity, txn.fuel_quantity) - percentOff(b.quantity - txn.fuel_quantity, txn.fuel_quantity)
+      );
+
+    const best = txn.vehicle_id ? candidates[0] : undefined;
+
+    if (!best) {
+      result.summary.unmatched++;
+      result.matches.push({
+        id: txn.id,
+        match_status: 'unmatched',
+        matched_trip_id: null,
+        matched_refueling_index: null,
+        quantity_difference: null,
+        amount_difference: null
+      });
+      result.exceptions.push({
+        type: 'not_in_trips',
+        vehicle_id: txn.vehicle_id,
+        vehicle_registration: txn.vehicle_registration,
+        date: txn.transaction_date,
+        transaction_id: txn.id,
+        statement_quantity: txn.fuel_quantity,
+        statement_amount: txn.amount
+      });
+      return;
+    }
+
+    used.add(best);
+    result.summary.recordedAmount += best.amount;
+
+    const quantityDifference = round2(best.quantity - txn.fuel_quantity);
+    const amountDifference = round2(best.amount - txn.amount);
+    const quantityOk = !txn.fuel_quantity ||
+      withinTolerance(quantityDifference, txn.fuel_quantity, FUEL_QUANTITY_TOLERANCE.litres, FUEL_QUANTITY_TOLERANCE.percent);
+    const amountOk = withinTolerance(amountDifference, txn.amount, FUEL_AMOUNT_TOLERANCE.rupees, FUEL_AMOUNT_TOLERANCE.percent);
+    const matched = quantityOk && amountOk;
+
+    if (matched) result.summary.matched++;
+    else result.summary.mismatched++;
+
+    result.matches.push({
+      id: txn.id,
+      match_status: matched ? 'matched' : 'mismatch',
+      matched_trip_id: best.trip.id,
+      matched_refueling_index: best.index,
+      quantity_difference: quantityDifference,
+      amount_difference: amountDifference
+    });
+
+    if (!matched) {
+      result.exceptions.push({
+        type: quantityOk ? 'amount_mismatch' : 'quantity_mismatch',
+        vehicle_id: txn.vehicle_id,
+        vehicle_registration: txn.vehicle_registration,
+        date: txn.transaction_date,
+        transaction_id: txn.id,
+        trip_id: best.trip.id,
+        trip_serial_number: best.trip.trip_serial_number,
+        statement_quantity: txn.fuel_quantity,
+        statement_amount: txn.amount,
+        recorded_quantity: best.quantity,
+        recorded_amount: best.amount
+      });
+    }
+  });
+
+  if (sorted.length > 0) {
+    const periodStart = sorted[0].transaction_date;
+    const periodEnd = sorted[sorted.length - 1].transaction_date;
+    const registrations = new Map(
+      transactions.filter(t => t.vehicle_id).map(t => [t.vehicle_id as string, t.vehicle_registration])
+    );
+
+    entries
+      .filter(e =>
+        !used.has(e) &&
+        registrations.has(e.trip.vehicle_id) &&
+        e.trip.trip_start_date.slice(0, 10) >= periodStart &&
+        e.trip.trip_start_date.slice(0, 10) <= periodEnd
+      )
+      .forEach(e => {
+        result.summary.missingOnStatement++;
+        result.exceptions.push({
+          type: 'not_on_statement',
+          vehicle_id: e.trip.vehicle_id,
+          vehicle_registration: registrations.get(e.trip.vehicle_id) || '',
+          date: e.trip.trip_start_date.slice(0, 10),
+          trip_id: e.trip.id,
+          trip_serial_number: e.trip.trip_serial_number,
+          recorded_quantity: e.quantity,
+          recorded_amount: e.amount
+        });
+      });
+  }
+
+  result.summary.statementAmount = round2(result.summary.statementAmount);
+  result.summary.recordedAmount = round2(result.summary.recordedAmount);
+
+  return result;
+};
+
+export const FUEL_EXCEPTION_LABELS: Record<FuelReconciliationException['type'], string> = {
+  not_in_trips: 'On statement, not in trips',
+  quantity_mismatch: 'Litres differ',
+  amount_mismatch: 'Amount differs',
+  not_on_statement: 'In trips, not on statement'
+};
+
+/**
+ * Stable key for an exception so re-running a reconciliation does not raise
+ * the same alert twice
+ */
+export const getFuelExceptionKey = (exception: FuelReconciliationException) =>
+  `${exception.type}:${exception.transaction_id || exception.trip_id}`;
+
+const formatLitres = (value?: number) => `${(value || 0).toFixed(2)} L`;
+const formatRupees = (value?: number) => `₹${(value || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Alert wording for a reconciliation exception. Card spends with no matching
+ * trip refueling are the most likely sign of misuse, so they rank highest.
+ */
+export const describeFuelException = (exception: FuelReconciliationException) => {
+  const vehicle = exception.vehicle_registration;
+  const trip = exception.trip_serial_number ? ` (trip ${exception.trip_serial_number})` : '';
+
+  switch (exception.type) {
+    case 'not_in_trips':
+      return {
+        severity: 'high' as const,
+        title: `Fuel card spend not recorded on any trip: ${vehicle}`,
+        description: `${formatRupees(exception.statement_amount)} for ${formatLitres(exception.statement_quantity)} on ${exception.date} appears on the fuel statement but no trip refueling matches it.`,
+        recommendations: [
+          'Check whether the refueling was left out of the trip sheet',
+          'Confirm the card was used for this vehicle',
+          'Verify the pump receipt with the driver'
+        ]
+      };
+    case 'quantity_mismatch':
+    case 'amount_mismatch':
+      return {
+        severity: 'medium' as const,
+        title: `Fuel ${exception.type === 'quantity_mismatch' ? 'litres' : 'amount'} differ from statement: ${vehicle}`,
+        description: `Statement shows ${formatLitres(exception.statement_quantity)} for ${formatRupees(exception.statement_amount)} on ${exception.date}; the trip${trip} records ${formatLitres(exception.recorded_quantity)} for ${formatRupees(exception.recorded_amount)}.`,
+        recommendations: [
+          'Compare the fuel bill with the trip entry',
+          'Correct the trip refueling if it was entered wrongly'
+        ]
+      };
+    case 'not_on_statement':
+      return {
+        severity: 'low' as const,
+        title: `Trip refueling missing from fuel statement: ${vehicle}`,
+        description: `The trip${trip} records ${formatLitres(exception.recorded_quantity)} for ${formatRupees(exception.recorded_amount)} around ${exception.date}, but the imported statement has no matching transaction.`,
+        recommendations: [
+          'Check whether the fill was paid in cash or on another card',
+          'Verify the fuel bill attached to the trip'
+        ]
+      };
+  }
+};
@@ -0,0 +1,11 @@
+export {
+  buildTripGeofences,
+  checkTripAgainstGeofences,
+  detectGeofenceVisits,
+  proposeTripTimes,
+  summarizeGeofences,
+  DESTINATION_GEOFENCE_RADIUS_KM,
+  MIN_VISIT_MINUTES,
+  TRIP_TIME_TOLERANCE_HOURS,
+  WAREHOUSE_GEOFENCE_RADIUS_KM
+} from '../../supabase/functions/_shared/geofence.ts';
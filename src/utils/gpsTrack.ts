@@ -0,0 +1,26 @@
+import { Destination } from '../types';
+
+export {
+  analyzeTrack,
+  compareTrackDistance,
+  detectTrackFormat,
+  haversineKm,
+  normalizeTrackTimestamp,
+  parseGpx,
+  parseKml,
+  parseTrack,
+  parseTrackCsv,
+  summarizeTrack,
+  DEFAULT_OVERSPEED_LIMIT_KMPH,
+  TRACK_DISTANCE_TOLERANCE_PERCENT
+} from '../../supabase/functions/_shared/gpsTrack.ts';
+
+// Sum of the destinations' standard distances, as used for the e-way bill
+export const getStandardRouteDistance = (destinations: Pick<Destination, 'standard_distance'>[]) =>
+  Math.round(destinations.reduce((sum, d) => sum + (d.standard_distance || 0), 0) * 10) / 10;
+
+export const formatTrackMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
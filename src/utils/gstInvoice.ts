@@ -0,0 +1,128 @@
+import { format, parseISO } from 'date-fns';
+import { Trip, GstBreakup, InvoiceItem, InvoiceStatus } from '../types';
+import { GST_STATE_CODES } from './indianValidation';
+
+// SAC for goods transport agency (GTA) services
+export const GTA_SAC_CODE = '9965';
+
+// GTA services attract 5% (no ITC, usually under reverse charge) or 12% (forward charge with ITC)
+export const GTA_GST_RATES = [5, 12];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Indian financial year (April–March) for a date, e.g. "2025-26"
+ */
+export const getFinancialYear = (date: string | Date): string => {
+  const d = typeof date === 'string' ? parseISO(date) : date;
+  const startYear = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatInvoiceNumber = (financialYear: string, sequence: number, prefix = 'INV'): string =>
+  `${prefix}/${financialYear}/${String(sequence).padStart(4, '0')}`;
+
+export const getGSTStateCodeByName = (stateName?: string | null): string | null => {
+  if (!stateName) return null;
+  const normalized = stateName.trim().toLowerCase();
+  const entry = Object.entries(GST_STATE_CODES).find(([, name]) => name.toLowerCase() === normalized);
+  return entry ? entry[0] : null;
+};
+
+/**
+ * Split GST into CGST/SGST (intra-state) or IGST (inter-state).
+ * Under reverse charge the recipient pays the tax directly, so it is shown on
+ * the invoice but not added to the amount payable.
+ */
+export const calculateGstBreakup = (
+  taxableAmount: number,
+  gstRate: number,
+  supplierStateCode: string | null,
+  placeOfSupply: string | null,
+  reverseCharge: boolean
+): GstBreakup => {
+  const totalTax = round2((taxableAmount * gstRate) / 100);
+  const isInterState = !!supplierStateCode && !!placeOfSupply && supplierStateCode !== placeOfSupply;
+
+  const cgst = isInterState ? 0 : round2(totalTax / 2);
+  const sgst = isInterState ? 0 : round2(totalTax - cgst);
+  const igst = isInterState ? totalTax : 0;
+
+  return {
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    total: round2(taxableAmount + (reverseCharge ? 0 : totalTax))
+  };
+};
+
+/**
+ * Build an invoice line from a trip's P&L fields
+ */
+export const buildInvoiceItemFromTrip = (trip: Trip, routeLabel: string): InvoiceItem => {
+  const amount = round2(trip.income_amount || 0);
+  const distance = Math.max(0, (trip.end_km || 0) - (trip.start_km || 0));
+  const date = trip.trip_start_date ? format(parseISO(trip.trip_start_date), 'dd/MM/yyyy') : '';
+  const description = [
+    `Freight – Trip ${trip.trip_serial_number}`,
+    date,
+    routeLabel
+  ].filter(Boolean).join(', ');
+
+  switch (trip.billing_type) {
+    case 'per_km':
+      return { trip_id: trip.id, description, sac_code: GTA_SAC_CODE, quantity: distance, unit: 'km', rate: trip.freight_rate || 0, amount };
+    case 'per_ton':
+      return { trip_id: trip.id, description, sac_code: GTA_SAC_CODE, quantity: trip.gross_weight || 0, unit: 'ton', rate: trip.freight_rate || 0, amount };
+    default:
+      return { trip_id: trip.id, description, sac_code: GTA_SAC_CODE, quantity: 1, unit: 'trip', rate: amount, amount };
+  }
+};
+
+/**
+ * Status after a payment; issued invoices move to partially paid / paid
+ */
+export const getPaymentStatus = (totalAmount: number, amountPaid: number): InvoiceStatus => {
+  if (amountPaid <= 0) return 'issued';
+  return amountPaid + 0.005 >= totalAmount ? 'paid' : 'partially_paid';
+};
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitsToWords = (n: number): string =>
+  n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`;
+
+const threeDigitsToWords = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigitsToWords(rest) : '']
+    .filter(Boolean)
+    .join(' ');
+};
+
+/**
+ * Amount in words using the Indian numbering system (lakh, crore)
+ */
+export const amountInWords = (amount: number): string => {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+
+  const toWords = (n: number): string => {
+    if (n === 0) return 'Zero';
+    const crore = Math.floor(n / 10000000);
+    const lakh = Math.floor((n % 10000000) / 100000);
+    const thousand = Math.floor((n % 100000) / 1000);
+    const rest = n % 1000;
+    return [
+      crore ? `${toWords(crore)} Crore` : '',
+      lakh ? `${twoDigitsToWords(lakh)} Lakh` : '',
+      thousand ? `${twoDigitsToWords(thousand)} Thousand` : '',
+      rest ? threeDigitsToWords(rest) : ''
+    ].filter(Boolean).join(' ');
+  };
+
+  return `Rupees ${toWords(rupees)}${paise ? ` and ${twoDigitsToWords(paise)} Paise` : ''} Only`;
+};
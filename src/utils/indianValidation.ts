@@ -17,6 +17,9 @@ const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]{1}$/;
 // Vehicle Registration: MH12AB1234 or MH12A1234
 const VEHICLE_REG_PATTERN = /^[A-Z]{2}[0-9]{2}[A-Z]{1,2}[0-9]{4}$/;
 
+// GSTIN: 2-digit state code, PAN, entity number, 'Z', checksum
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
+
 // RTO State Codes
 export const RTO_STATE_CODES: Record<string, string> = {
   'AN': 'Andaman and Nicobar Islands',
@@ -56,6 +59,46 @@ export const RTO_STATE_CODES: Record<string, string> = {
   'WB': 'West Bengal'
 };
 
+// GST State Codes (first two digits of a GSTIN)
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh'
+};
+
 // Vehicle Type Authorization Matrix
 export const VEHICLE_AUTHORIZATION: Record<string, string[]> = {
   truck: ['HMV', 'HGMV', 'HTV'], // Heavy Motor Vehicle required
@@ -110,6 +153,17 @@ export const validateVehicleRegistration = (regNumber: string): boolean => {
   return VEHICLE_REG_PATTERN.test(cleaned);
 };
 
+export const validateGSTIN = (gstin: string): boolean => {
+  if (!gstin) return false;
+  return GSTIN_PATTERN.test(gstin.replace(/\s/g, '').toUpperCase());
+};
+
+// GST state code (first two digits of a GSTIN), e.g. "22" for Chhattisgarh
+export const getGSTINStateCode = (gstin?: string | null): string | null => {
+  if (!gstin || !validateGSTIN(gstin)) return null;
+  return gstin.trim().substring(0, 2);
+};
+
 // Parse License Number
 export const parseLicenseNumber = (license: string) => {
   if (!validateIndianLicense(license)) {
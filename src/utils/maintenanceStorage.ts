@@ -13,8 +13,11 @@ import { handleSupabaseError } from "./errors";
 import { clearVehiclePredictionCache } from "./maintenancePredictor";
 import { createLogger } from './logger';
 import { getCurrentUserId, getUserActiveOrganization, withOwner } from './supaHelpers';
+import { canCurrentUser, requirePermission } from './api/permissions';
 import { toast } from 'react-toastify';
 import { calculateTaskWarranty } from './warrantyCalculations';
+import { syncMaintenanceStockIssues } from './api/partsInventory';
+import { getTaskStockIssues } from './partsInventory';
 import {
   normalizeMaintenanceTaskForBackend,
   normalizeMaintenanceTaskForFrontend,
@@ -101,6 +104,9 @@ export const getTasks = async (): Promise<MaintenanceTask[]> => {
     logger.error("Error fetching user data");
     return [];
   }
+  if (!(await canCurrentUser("maintenance"))) {
+    return [];
+  }
   const { data, error } = await supabase
     .from("maintenance_tasks")
     .select("*")
@@ -211,6 +217,8 @@ export const getTask = async (id: string): Promise<MaintenanceTask | null> => {
 export const createTask = async (
   task: Omit<MaintenanceTask, "id" | "created_at" | "updated_at">
 ): Promise<MaintenanceTask | null> => {
+  await requirePermission("maintenance", "create");
+
   // Normalize the task data first
   const normalizedTask = normalizeMaintenanceTaskForBackend(task);
   
@@ -459,6 +467,8 @@ export const updateTask = async (
   id: string,
   updates: Partial<MaintenanceTask>
 ): Promise<MaintenanceTask | null> => {
+  await requirePermission("maintenance", "edit");
+
   // Extract service groups and generated columns to handle separately
   const { service_groups, total_downtime_hours, ...updateData } = updates as any;
 
@@ -713,6 +723,14 @@ export const updateTask = async (
         throw insertError;
       }
 
+      // Parts taken from stock are issued once the task's parts are saved;
+      // a shortfall is reported and the issue is retried on the next save
+      try {
+        await syncMaintenanceStockIssues(id, getTaskStockIssues(service_groups));
+      } catch (stockError) {
+        logger.error('Error issuing parts from stock:', stockError);
+      }
+
       // Fetch the inserted service groups to get their IDs
       const { data: insertedGroups } = await supabase
         .from("maintenance_service_tasks")
@@ -791,6 +809,8 @@ export const updateTask = async (
 };
 
 export const deleteTask = async (id: string): Promise<boolean> => {
+  await requirePermission("maintenance", "delete");
+
   // First delete the service groups (should cascade, but let's be explicit)
   await supabase
     .from("maintenance_service_tasks")
@@ -75,7 +75,7 @@ export const validateMaintenanceTask = (
   }
 
   // Status validation
-  if (data.status && !['open', 'in_progress', 'resolved', 'rework'].includes(data.status)) {
+  if (data.status && !['draft', 'open', 'in_progress', 'resolved', 'rework'].includes(data.status)) {
     errors.status = 'Invalid status value';
   }
 
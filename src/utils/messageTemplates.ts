@@ -0,0 +1,244 @@
+import enTranslations from '../i18n/locales/en.json';
+import hiTranslations from '../i18n/locales/hi.json';
+import {
+  MessageLanguage,
+  MessageTemplate,
+  MessageTemplateDefinition,
+  MessageTemplateKey,
+  MessageVariables,
+  RenderedMessage
+} from '../types';
+import { formatTemplateDate, PLACEHOLDER_PATTERN, renderTemplate } from '../../supabase/functions/_shared/messageRender.ts';
+
+export { formatTemplateDate, renderTemplate };
+
+type DefaultTemplates = Record<MessageTemplateKey, { subject: string; body: string }>;
+
+// Built-in templates ship with the locale files so translators maintain them alongside the UI strings
+const DEFAULT_TEMPLATES: Record<MessageLanguage, DefaultTemplates> = {
+  en: enTranslations.messageTemplates as DefaultTemplates,
+  hi: hiTranslations.messageTemplates as DefaultTemplates
+};
+
+export const MESSAGE_LANGUAGES: { value: MessageLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'हिंदी' }
+];
+
+export const MESSAGE_TEMPLATE_DEFINITIONS: MessageTemplateDefinition[] = [
+  {
+    key: 'document_expiry',
+    channel: 'email',
+    name: 'Document Expiry Reminder',
+    description: 'Sent to reminder contacts before a vehicle document expires',
+    placeholders: ['vehicle_registration', 'document_type', 'expiry_date', 'days_left']
+  },
+  {
+    key: 'maintenance_due',
+    channel: 'email',
+    name: 'Maintenance Due Notification',
+    description: 'Sent to reminder contacts before a scheduled service',
+    placeholders: ['vehicle_registration', 'due_date', 'days_left', 'odometer', 'due_km']
+  },
+  {
+    key: 'trip_assignment',
+    channel: 'email',
+    name: 'Trip Assignment',
+    description: 'Tells a driver about a newly assigned trip',
+    placeholders: ['driver_name', 'trip_serial', 'trip_date', 'vehicle_registration', 'route']
+  },
+  {
+    key: 'document_expiry_urgent',
+    channel: 'sms',
+    name: 'Urgent Document Reminder',
+    description: 'Short reminder for contacts who prefer SMS',
+    placeholders: ['vehicle_registration', 'document_type', 'expiry_date', 'days_left']
+  },
+  {
+    key: 'trip_confirmation',
+    channel: 'sms',
+    name: 'Trip Confirmation',
+    description: 'Confirms vehicle, driver and route for a trip',
+    placeholders: ['trip_serial', 'vehicle_registration', 'driver_name', 'trip_date', 'route']
+  },
+  {
+    key: 'trip_delay',
+    channel: 'sms',
+    name: 'Trip Delay Notification',
+    description: 'Informs the customer of a revised arrival time',
+    placeholders: ['trip_serial', 'vehicle_registration', 'route', 'expected_time']
+  },
+  {
+    key: 'vehicle_details',
+    channel: 'whatsapp',
+    name: 'Vehicle Details',
+    description: 'Shared from the vehicle page',
+    placeholders: [
+      'vehicle_registration', 'make', 'model', 'year', 'vehicle_type', 'fuel_type', 'engine_number',
+      'chassis_number', 'unladen_weight', 'odometer', 'cylinders', 'wheelbase', 'color', 'body_type', 'owner_name'
+    ]
+  },
+  {
+    key: 'vehicle_document_dates',
+    channel: 'whatsapp',
+    name: 'Vehicle Document Dates',
+    description: 'Shared from the vehicle page',
+    placeholders: [
+      'vehicle_registration', 'make', 'model', 'rc_expiry', 'insurance_expiry', 'fitness_expiry',
+      'permit_expiry', 'puc_expiry', 'tax_expiry'
+    ]
+  },
+  {
+    key: 'driver_details',
+    channel: 'whatsapp',
+    name: 'Driver Details',
+    description: 'Shared from the driver page',
+    placeholders: ['driver_name', 'license_number', 'contact_number', 'email', 'experience_years', 'join_date', 'status']
+  },
+  {
+    key: 'driver_document_dates',
+    channel: 'whatsapp',
+    name: 'Driver Document Dates',
+    description: 'Shared from the driver page',
+    placeholders: ['driver_name', 'license_number', 'expiry_date']
+  },
+  {
+    key: 'document_share',
+    channel: 'whatsapp',
+    name: 'Document File Link',
+    description: 'Shares a link to an uploaded vehicle or driver document',
+    placeholders: ['document_type', 'document_owner', 'document_url']
+  }
+];
+
+export const PLACEHOLDER_LABELS: Record<string, string> = {
+  vehicle_registration: 'Vehicle registration',
+  document_type: 'Document type',
+  expiry_date: 'Expiry date',
+  days_left: 'Days left',
+  due_date: 'Due date',
+  odometer: 'Odometer',
+  due_km: 'Service due at (km)',
+  driver_name: 'Driver name',
+  trip_serial: 'Trip serial',
+  trip_date: 'Trip date',
+  route: 'Route',
+  expected_time: 'Expected time',
+  make: 'Make',
+  model: 'Model',
+  year: 'Year',
+  vehicle_type: 'Vehicle type',
+  fuel_type: 'Fuel type',
+  engine_number: 'Engine number',
+  chassis_number: 'Chassis number',
+  unladen_weight: 'Unladen weight',
+  cylinders: 'Axle count',
+  wheelbase: 'Wheelbase',
+  color: 'Color',
+  body_type: 'Body type',
+  owner_name: 'Owner name',
+  rc_expiry: 'RC expiry',
+  insurance_expiry: 'Insurance expiry',
+  fitness_expiry: 'Fitness expiry',
+  permit_expiry: 'Permit expiry',
+  puc_expiry: 'PUC expiry',
+  tax_expiry: 'Tax paid until',
+  license_number: 'License number',
+  contact_number: 'Contact number',
+  email: 'Email',
+  experience_years: 'Experience (years)',
+  join_date: 'Join date',
+  status: 'Status',
+  document_owner: 'Vehicle / driver',
+  document_url: 'Document link'
+};
+
+// Values used by the template editor preview
+export const SAMPLE_MESSAGE_DATA: MessageVariables = {
+  vehicle_registration: 'CG04AB1234',
+  document_type: 'Insurance',
+  expiry_date: '15 Aug 2025',
+  days_left: 12,
+  due_date: '20 Aug 2025',
+  odometer: '1,24,500',
+  due_km: '1,25,000',
+  driver_name: 'Ramesh Kumar',
+  trip_serial: 'T-2025-0142',
+  trip_date: '03 Aug 2025',
+  route: 'Raipur → Bacheli',
+  expected_time: '04 Aug 2025, 6:00 PM',
+  make: 'Tata',
+  model: 'Signa 4825.TK',
+  year: 2022,
+  vehicle_type: 'Truck',
+  fuel_type: 'Diesel',
+  engine_number: 'B591803241K62',
+  chassis_number: 'MAT828047N3L12345',
+  unladen_weight: '15200 kg',
+  cylinders: 6,
+  wheelbase: '5100 mm',
+  color: 'White',
+  body_type: 'Tipper',
+  owner_name: 'Shri Durga Transport',
+  rc_expiry: '11 Jan 2037',
+  insurance_expiry: '15 Aug 2025',
+  fitness_expiry: '10 Mar 2026',
+  permit_expiry: '31 Dec 2026',
+  puc_expiry: '02 Nov 2025',
+  tax_expiry: '31 Mar 2026',
+  license_number: 'CG0420190001234',
+  contact_number: '9876543210',
+  email: 'ramesh@example.com',
+  experience_years: 8,
+  join_date: '01 Apr 2021',
+  status: 'Active',
+  document_owner: 'CG04AB1234',
+  document_url: 'https://example.com/documents/insurance.pdf'
+};
+
+export const getTemplateDefinition = (key: MessageTemplateKey): MessageTemplateDefinition | undefined =>
+  MESSAGE_TEMPLATE_DEFINITIONS.find(definition => definition.key === key);
+
+/**
+ * Map an i18n language code (e.g. "hi-IN") to a supported template language
+ */
+export const toMessageLanguage = (language?: string | null): MessageLanguage =>
+  language?.toLowerCase().startsWith('hi') ? 'hi' : 'en';
+
+export const getDefaultTemplate = (key: MessageTemplateKey, language: MessageLanguage = 'en'): RenderedMessage =>
+  DEFAULT_TEMPLATES[language][key] || DEFAULT_TEMPLATES.en[key];
+
+/**
+ * Placeholders used in the text that the template does not provide
+ */
+export const findUnknownPlaceholders = (text: string, key: MessageTemplateKey): string[] => {
+  const allowed = getTemplateDefinition(key)?.placeholders || [];
+  const unknown = new Set<string>();
+
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!allowed.includes(match[1])) unknown.add(match[1]);
+  }
+
+  return Array.from(unknown);
+};
+
+/**
+ * Pick the organization's active override for the key and language, falling
+ * back to the built-in template, then render it with the given variables
+ */
+export const resolveMessage = (
+  key: MessageTemplateKey,
+  variables: MessageVariables,
+  language: MessageLanguage = 'en',
+  overrides: MessageTemplate[] = []
+): RenderedMessage => {
+  const override = overrides.find(t => t.template_key === key && t.language === language && t.is_active);
+  const template = override
+    ? { subject: override.subject || '', body: override.body }
+    : getDefaultTemplate(key, language);
+
+  return {
+    subject: renderTemplate(template.subject, variables),
+    body: renderTemplate(template.body, variables)
+  };
+};
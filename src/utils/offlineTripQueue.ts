@@ -0,0 +1,219 @@
+import { supabase, isNetworkError } from './supabaseClient';
+import { createTrip } from './api/trips';
+import { uploadFilesAndGetPublicUrls } from './supabaseStorage';
+import { ensureUniqueTripSerial } from './tripSerialGenerator';
+import { findOdometerConflict, isPlaceholderTripSerial } from './offlineTrips';
+import { OfflineReferenceData, OfflineTripEntry } from '../types';
+import { createLogger } from './logger';
+
+const logger = createLogger('offlineTripQueue');
+
+const DB_NAME = 'avs-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'trip_queue';
+const REFERENCE_STORE = 'reference_data';
+const REFERENCE_KEY = 'trip_form';
+
+// Fired on window whenever the queue changes so open screens can refresh
+export const OFFLINE_TRIPS_CHANGED_EVENT = 'offline-trips-changed';
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let syncInFlight: Promise<OfflineSyncResult> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'local_id' });
+        }
+        if (!db.objectStoreNames.contains(REFERENCE_STORE)) {
+          db.createObjectStore(REFERENCE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new Event(OFFLINE_TRIPS_CHANGED_EVENT));
+};
+
+export const getQueuedTrips = async (): Promise<OfflineTripEntry[]> => {
+  try {
+    const entries = await runRequest<OfflineTripEntry[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    logger.error('Error reading offline trip queue:', error);
+    return [];
+  }
+};
+
+export const saveQueuedTrip = async (entry: OfflineTripEntry): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.put(entry));
+  notifyQueueChanged();
+};
+
+export const removeQueuedTrip = async (localId: string): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(localId));
+  notifyQueueChanged();
+};
+
+export const saveOfflineReferenceData = async (data: OfflineReferenceData): Promise<void> => {
+  try {
+    await runRequest(REFERENCE_STORE, 'readwrite', store => store.put(data, REFERENCE_KEY));
+  } catch (error) {
+    logger.warn('Failed to cache trip form data for offline use:', error);
+  }
+};
+
+export const getOfflineReferenceData = async (): Promise<OfflineReferenceData | null> => {
+  try {
+    return (await runRequest<OfflineReferenceData | undefined>(REFERENCE_STORE, 'readonly', store => store.get(REFERENCE_KEY))) || null;
+  } catch (error) {
+    logger.warn('Failed to read cached trip form data:', error);
+    return null;
+  }
+};
+
+/**
+ * Upload one queued trip. Returns the resulting status: duplicates of a trip
+ * already on the server are dropped, overlapping odometer ranges wait for the
+ * user unless the entry was forced.
+ */
+const syncQueuedTrip = async (entry: OfflineTripEntry): Promise<'synced' | 'conflict' | 'failed'> => {
+  const { trip } = entry;
+
+  const { data: overlapping, error } = await supabase
+    .from('trips_visible')
+    .select('id, trip_serial_number, vehicle_id, trip_start_date, start_km, end_km')
+    .eq('vehicle_id', trip.vehicle_id)
+    .lt('start_km', trip.end_km)
+    .gt('end_km', trip.start_km);
+
+  if (error) throw error;
+
+  const conflict = findOdometerConflict(trip, overlapping || []);
+  if (conflict?.type === 'duplicate') {
+    logger.info(`Queued trip ${entry.local_id} already saved as ${conflict.trip_serial_number}`);
+    await removeQueuedTrip(entry.local_id);
+    return 'synced';
+  }
+  if (conflict && !entry.force) {
+    await saveQueuedTrip({ ...entry, status: 'conflict', conflict });
+    return 'conflict';
+  }
+
+  const serial = !trip.trip_serial_number || isPlaceholderTripSerial(trip.trip_serial_number)
+    ? await ensureUniqueTripSerial(entry.vehicle_registration, trip.trip_start_date, trip.vehicle_id)
+    : trip.trip_serial_number;
+
+  const fuelBills = (entry.fuel_bills || []).map(attachment =>
+    new File([attachment.blob], attachment.name, { type: attachment.type })
+  );
+  const fuelBillUrl = fuelBills.length > 0
+    ? (await uploadFilesAndGetPublicUrls('trip-docs', `trip_${entry.local_id}/fuel_bill`, fuelBills))[0]
+    : undefined;
+
+  const saved = await createTrip({
+    ...trip,
+    ...(fuelBillUrl ? { fuel_bill_url: fuelBillUrl } : {}),
+    trip_serial_number: serial,
+    gps_screenshots: entry.gps_screenshots.map(attachment => ({
+      image_url: '',
+      caption: attachment.caption,
+      file: new File([attachment.blob], attachment.name, { type: attachment.type })
+    }))
+  } as any);
+
+  if (!saved) {
+    throw new Error('Trip could not be saved');
+  }
+
+  await removeQueuedTrip(entry.local_id);
+  return 'synced';
+};
+
+/**
+ * Upload every pending trip in the order it was captured. Concurrent calls
+ * share the sync already in progress.
+ */
+export const syncOfflineTrips = (): Promise<OfflineSyncResult> => {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = (async () => {
+    const result: OfflineSyncResult = { synced: 0, conflicts: 0, failed: 0 };
+    const entries = (await getQueuedTrips()).filter(e => e.status === 'pending' || e.status === 'failed' || e.status === 'syncing');
+
+    for (const entry of entries) {
+      if (!navigator.onLine) break;
+
+      await saveQueuedTrip({ ...entry, status: 'syncing' });
+      try {
+        const status = await syncQueuedTrip(entry);
+        if (status === 'synced') result.synced++;
+        else result.conflicts++;
+      } catch (error: any) {
+        logger.error(`Error syncing queued trip ${entry.local_id}:`, error);
+        // Network drops leave the entry pending for the next attempt
+        await saveQueuedTrip({
+          ...entry,
+          status: isNetworkError(error) ? 'pending' : 'failed',
+          attempts: entry.attempts + 1,
+          last_error: error?.message || 'Sync failed'
+        });
+        result.failed++;
+        if (isNetworkError(error)) break;
+      }
+    }
+
+    return result;
+  })().finally(() => {
+    syncInFlight = null;
+  });
+
+  return syncInFlight;
+};
+
+/**
+ * Settle a conflict: keep saves the trip alongside the overlapping one on the
+ * next sync, discard drops it from the queue
+ */
+export const resolveOfflineTripConflict = async (
+  entry: OfflineTripEntry,
+  resolution: 'keep' | 'discard'
+): Promise<void> => {
+  if (resolution === 'discard') {
+    await removeQueuedTrip(entry.local_id);
+    return;
+  }
+
+  await saveQueuedTrip({ ...entry, status: 'pending', force: true, conflict: undefined });
+};
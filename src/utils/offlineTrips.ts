@@ -0,0 +1,140 @@
+import { OfflineTripConflict, OfflineTripValidation, Trip, TripFormData } from '../types';
+
+type OdometerTrip = Pick<Trip, 'vehicle_id' | 'trip_start_date' | 'start_km' | 'end_km'> & {
+  id?: string;
+  trip_serial_number?: string;
+};
+
+// Odometer jumps larger than this between consecutive trips are flagged
+export const MAX_ODOMETER_GAP_KM = 500;
+
+const PLACEHOLDER_SERIAL = /-OFF[0-9A-Z]{4}$/;
+
+export const createOfflineTripId = (): string =>
+  `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Serial shown on a trip saved offline, in the TYY-####-XXXX shape with an
+ * OFF sequence. It is replaced by a real serial when the trip syncs.
+ */
+export const getPlaceholderTripSerial = (
+  vehicleRegistration: string,
+  tripStartDate: string,
+  localId: string
+): string => {
+  const yy = tripStartDate.slice(2, 4);
+  const last4Digits = vehicleRegistration.replace(/[^0-9]/g, '').slice(-4).padStart(4, '0');
+  const suffix = localId.replace(/[^0-9a-z]/gi, '').slice(-4).toUpperCase().padStart(4, '0');
+  return `T${yy}-${last4Digits}-OFF${suffix}`;
+};
+
+export const isPlaceholderTripSerial = (serial?: string | null): boolean =>
+  !!serial && PLACEHOLDER_SERIAL.test(serial);
+
+/**
+ * Latest trip on the vehicle that started on or before the given date
+ */
+export const getPreviousOdometerTrip = <T extends OdometerTrip>(
+  trips: T[],
+  vehicleId: string,
+  tripStartDate: string
+): T | null => {
+  const day = tripStartDate.slice(0, 10);
+
+  return trips
+    .filter(t => t.vehicle_id === vehicleId && t.trip_start_date.slice(0, 10) <= day)
+    .reduce<T | null>((latest, t) => {
+      if (!latest) return t;
+      const latestDay = latest.trip_start_date.slice(0, 10);
+      const tripDay = t.trip_start_date.slice(0, 10);
+      if (tripDay > latestDay) return t;
+      if (tripDay === latestDay && t.end_km > latest.end_km) return t;
+      return latest;
+    }, null);
+};
+
+/**
+ * Find a trip on the same vehicle whose odometer range overlaps. An identical
+ * trip on the same day is reported as a duplicate.
+ */
+export const findOdometerConflict = (
+  trip: Pick<TripFormData, 'vehicle_id' | 'trip_start_date' | 'start_km' | 'end_km'>,
+  existing: OdometerTrip[]
+): OfflineTripConflict | null => {
+  const overlapping = existing.filter(t =>
+    t.vehicle_id === trip.vehicle_id &&
+    trip.start_km < t.end_km &&
+    trip.end_km > t.start_km
+  );
+
+  if (overlapping.length === 0) return null;
+
+  const duplicate = overlapping.find(t =>
+    t.start_km === trip.start_km &&
+    t.end_km === trip.end_km &&
+    t.trip_start_date.slice(0, 10) === trip.trip_start_date.slice(0, 10)
+  );
+  const match = duplicate || overlapping[0];
+
+  return {
+    type: duplicate ? 'duplicate' : 'odometer_overlap',
+    trip_id: match.id || '',
+    trip_serial_number: match.trip_serial_number,
+    trip_start_date: match.trip_start_date,
+    start_km: match.start_km,
+    end_km: match.end_km
+  };
+};
+
+/**
+ * Checks run before a trip is queued offline, against the trips known on the
+ * device (cached and already queued)
+ */
+export const validateOfflineTrip = (
+  trip: Partial<TripFormData>,
+  knownTrips: OdometerTrip[]
+): OfflineTripValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!trip.vehicle_id) errors.push('Select a vehicle');
+  if (!trip.driver_id) errors.push('Select a driver');
+  if (!trip.warehouse_id) errors.push('Select a warehouse');
+  if (!trip.trip_start_date) errors.push('Enter the trip start date');
+
+  const startKm = Number(trip.start_km);
+  const endKm = Number(trip.end_km);
+  if (!Number.isFinite(startKm) || !Number.isFinite(endKm) || endKm <= startKm) {
+    errors.push('End km must be greater than start km');
+  }
+
+  if (errors.length > 0 || !trip.vehicle_id || !trip.trip_start_date) {
+    return { errors, warnings };
+  }
+
+  const odometerTrip = {
+    vehicle_id: trip.vehicle_id,
+    trip_start_date: trip.trip_start_date,
+    start_km: startKm,
+    end_km: endKm
+  };
+
+  const conflict = findOdometerConflict(odometerTrip, knownTrips);
+  if (conflict) {
+    errors.push(
+      conflict.type === 'duplicate'
+        ? 'This trip has already been entered'
+        : `Odometer ${startKm}–${endKm} overlaps ${conflict.trip_serial_number ? `trip ${conflict.trip_serial_number}` : 'an existing trip'} (${conflict.start_km}–${conflict.end_km})`
+    );
+    return { errors, warnings };
+  }
+
+  const previous = getPreviousOdometerTrip(knownTrips, trip.vehicle_id, trip.trip_start_date);
+  if (previous && startKm - previous.end_km > MAX_ODOMETER_GAP_KM) {
+    warnings.push(
+      `Start km is ${startKm - previous.end_km} km after the previous trip's end km (${previous.end_km})`
+    );
+  }
+
+  return { errors, warnings };
+};
@@ -0,0 +1,199 @@
+import {
+  PartStockItem,
+  PartStockItemFormData,
+  StockItemSummary,
+  StockLevel,
+  StockMovement,
+  StockMovementInput,
+  StockValuationRow,
+  TaskStockIssue
+} from '../types';
+import { FLEET_PARTS_DEFINITIONS } from '../constants/fleetParts';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovement['movement_type'], string> = {
+  receipt: 'Purchase Receipt',
+  issue: 'Issued to Task',
+  return: 'Returned',
+  adjustment: 'Adjustment'
+};
+
+const DEFAULT_REORDER_LEVEL = 2;
+
+export const getFleetPartSku = (fleetPartId: string): string =>
+  fleetPartId.toUpperCase().replace(/_/g, '-');
+
+/**
+ * Catalogue entries for fleet parts not yet in the inventory, so an
+ * organisation can start from the standard parts list
+ */
+export const buildFleetPartStockItems = (existing: PartStockItem[]): PartStockItemFormData[] => {
+  const known = new Set(existing.map(item => item.fleet_part_id).filter(Boolean));
+
+  return FLEET_PARTS_DEFINITIONS
+    .filter(part => !known.has(part.id))
+    .map(part => ({
+      sku: getFleetPartSku(part.id),
+      fleet_part_id: part.id,
+      name: part.name,
+      category: part.category,
+      brand: null,
+      unit: 'pcs',
+      reorder_level: DEFAULT_REORDER_LEVEL,
+      is_active: true
+    }));
+};
+
+const byMovementDate = (a: StockMovement, b: StockMovement) =>
+  a.movement_date.localeCompare(b.movement_date) || (a.created_at || '').localeCompare(b.created_at || '');
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Quantity on hand and weighted average cost for each item at each
+ * location. Costed inward movements move the average; outward movements
+ * take stock out at the current average.
+ */
+export const computeStockLevels = (movements: StockMovement[]): StockLevel[] => {
+  const levels = new Map<string, StockLevel>();
+
+  [...movements].sort(byMovementDate).forEach(movement => {
+    const key = `${movement.item_id}|${movement.warehouse_id}`;
+    const level = levels.get(key) || {
+      item_id: movement.item_id,
+      warehouse_id: movement.warehouse_id,
+      quantity: 0,
+      average_cost: 0,
+      value: 0
+    };
+
+    const quantity = level.quantity + movement.quantity;
+    if (movement.quantity > 0 && typeof movement.unit_cost === 'number' && quantity > 0) {
+      level.average_cost = (Math.max(level.quantity, 0) * level.average_cost + movement.quantity * movement.unit_cost) /
+        (Math.max(level.quantity, 0) + movement.quantity);
+    }
+    level.quantity = quantity;
+    levels.set(key, level);
+  });
+
+  return Array.from(levels.values()).map(level => ({
+    ...level,
+    average_cost: round2(level.average_cost),
+    value: round2(Math.max(level.quantity, 0) * level.average_cost)
+  }));
+};
+
+export const getAvailableQuantity = (levels: StockLevel[], itemId: string, warehouseId: string): number =>
+  levels.find(l => l.item_id === itemId && l.warehouse_id === warehouseId)?.quantity || 0;
+
+export const summarizeStock = (items: PartStockItem[], movements: StockMovement[]): StockItemSummary[] => {
+  const levels = computeStockLevels(movements);
+
+  return items.map(item => {
+    const locations = levels.filter(l => l.item_id === item.id);
+    const quantity = locations.reduce((sum, l) => sum + l.quantity, 0);
+
+    return {
+      item,
+      quantity,
+      value: round2(locations.reduce((sum, l) => sum + l.value, 0)),
+      locations,
+      low_stock: item.is_active && quantity <= item.reorder_level
+    };
+  });
+};
+
+export const getLowStockItems = (summaries: StockItemSummary[]): StockItemSummary[] =>
+  summaries.filter(s => s.low_stock);
+
+/**
+ * Stock value grouped by item category or by location
+ */
+export const summarizeStockValuation = (
+  summaries: StockItemSummary[],
+  groupBy: 'category' | 'warehouse'
+): StockValuationRow[] => {
+  const rows = new Map<string, StockValuationRow & { itemIds: Set<string> }>();
+
+  summaries.forEach(summary => {
+    summary.locations.forEach(level => {
+      const key = groupBy === 'category' ? summary.item.category : level.warehouse_id;
+      const row = rows.get(key) || { key, items: 0, quantity: 0, value: 0, itemIds: new Set<string>() };
+
+      row.itemIds.add(summary.item.id);
+      row.quantity += level.quantity;
+      row.value += level.value;
+      rows.set(key, row);
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(({ itemIds, ...row }) => ({ ...row, items: itemIds.size, value: round2(row.value) }))
+    .sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Check a movement before it is recorded. Returns an error message, or
+ * null when the movement is valid.
+ */
+export const validateStockMovement = (movement: StockMovementInput, available: number): string | null => {
+  if (!movement.item_id) return 'Select a part';
+  if (!movement.warehouse_id) return 'Select a stock location';
+  if (!movement.quantity || !Number.isFinite(movement.quantity)) return 'Quantity is required';
+
+  switch (movement.movement_type) {
+    case 'receipt':
+      if (movement.quantity < 0) return 'Received quantity must be positive';
+      if (typeof movement.unit_cost !== 'number' || movement.unit_cost < 0) return 'Unit cost is required';
+      return null;
+    case 'return':
+      return movement.quantity > 0 ? null : 'Returned quantity must be positive';
+    case 'issue':
+      if (movement.quantity > 0) return 'Issued quantity must be negative';
+      break;
+  }
+
+  if (movement.quantity < 0 && available + movement.quantity < 0) {
+    return `Only ${available} in stock at this location`;
+  }
+
+  return null;
+};
+
+/**
+ * Parts on a task's service groups that were taken from stock, totalled per
+ * part and location. Parts bought outside carry no stock item.
+ */
+export const getTaskStockIssues = (
+  serviceGroups: { parts_data?: { stockItemId?: string; warehouseId?: string; quantity?: number }[] | null }[]
+): TaskStockIssue[] => {
+  const issues = new Map<string, TaskStockIssue>();
+
+  serviceGroups.flatMap(group => group.parts_data || []).forEach(part => {
+    if (!part.stockItemId || !part.warehouseId) return;
+
+    const key = `${part.stockItemId}|${part.warehouseId}`;
+    const issue = issues.get(key) || { item_id: part.stockItemId, warehouse_id: part.warehouseId, quantity: 0 };
+    issue.quantity += part.quantity || 1;
+    issues.set(key, issue);
+  });
+
+  return Array.from(issues.values());
+};
+
+export const getLowStockAlertKey = (itemId: string) => `low_stock:${itemId}`;
+
+export const describeLowStock = (summary: StockItemSummary) => {
+  const { item, quantity } = summary;
+  const outOfStock = quantity <= 0;
+
+  return {
+    severity: (outOfStock ? 'high' : 'medium') as 'high' | 'medium',
+    title: `${outOfStock ? 'Out of stock' : 'Low stock'}: ${item.name}`,
+    description: `${item.sku} has ${Math.max(quantity, 0)} ${item.unit} left across all locations ` +
+      `(reorder level ${item.reorder_level}).`,
+    recommendations: [
+      `Raise a purchase for ${item.name}`,
+      'Check for parts issued to tasks that were not fitted and return them to stock'
+    ]
+  };
+};
@@ -0,0 +1,137 @@
+import {
+  PermissionAction,
+  PermissionMatrix,
+  PermissionModule,
+  Permissions,
+  RoleDefinition,
+  SensitiveField,
+  UserRole
+} from '../types/permissions';
+
+export const PERMISSION_MODULES: { module: PermissionModule; label: string }[] = [
+  { module: 'trips', label: 'Trips' },
+  { module: 'vehicles', label: 'Vehicles' },
+  { module: 'drivers', label: 'Drivers' },
+  { module: 'maintenance', label: 'Maintenance' },
+  { module: 'pnl', label: 'P&L and invoices' },
+  { module: 'admin', label: 'Admin' }
+];
+
+export const PERMISSION_ACTIONS: { action: PermissionAction; label: string }[] = [
+  { action: 'view', label: 'View' },
+  { action: 'create', label: 'Create' },
+  { action: 'edit', label: 'Edit' },
+  { action: 'delete', label: 'Delete' },
+  { action: 'export', label: 'Export' },
+  { action: 'verify', label: 'Verify' }
+];
+
+export const SENSITIVE_FIELDS: { field: SensitiveField; label: string; columns: string[] }[] = [
+  {
+    field: 'revenue',
+    label: 'Revenue and profit',
+    columns: ['freight_rate', 'billing_type', 'income_amount', 'net_profit', 'profit_status', 'contract_rate_id']
+  },
+  { field: 'salary', label: 'Driver salary', columns: ['salary'] }
+];
+
+const ALL_ACTIONS = PERMISSION_ACTIONS.map(a => a.action);
+
+const fullAccess = (): PermissionMatrix =>
+  Object.fromEntries(PERMISSION_MODULES.map(({ module }) => [module, [...ALL_ACTIONS]]));
+
+/**
+ * What each fixed role may do when the organization has not given the member
+ * a custom role; matches the access these roles had before the matrix
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Pick<RoleDefinition, 'permissions' | 'hidden_fields'>> = {
+  owner: { permissions: fullAccess(), hidden_fields: [] },
+  admin: { permissions: fullAccess(), hidden_fields: [] },
+  manager: {
+    permissions: {
+      trips: [...ALL_ACTIONS],
+      vehicles: [...ALL_ACTIONS],
+      drivers: [...ALL_ACTIONS],
+      maintenance: [...ALL_ACTIONS],
+      pnl: ['view', 'export']
+    },
+    hidden_fields: []
+  },
+  data_entry: {
+    permissions: {
+      trips: ['view', 'create', 'edit'],
+      vehicles: ['view'],
+      drivers: ['view'],
+      maintenance: ['view', 'create', 'edit']
+    },
+    hidden_fields: ['revenue', 'salary']
+  }
+};
+
+/**
+ * Drop unknown modules and actions; any other action on a module implies
+ * viewing it
+ */
+export const normalizePermissionMatrix = (matrix: PermissionMatrix | null | undefined): PermissionMatrix => {
+  const normalized: PermissionMatrix = {};
+  PERMISSION_MODULES.forEach(({ module }) => {
+    const actions = ALL_ACTIONS.filter(action => matrix?.[module]?.includes(action));
+    if (actions.length > 0 && !actions.includes('view')) actions.unshift('view');
+    if (actions.length > 0) normalized[module] = actions;
+  });
+  return normalized;
+};
+
+export const hasPermission = (
+  matrix: PermissionMatrix,
+  module: PermissionModule,
+  action: PermissionAction = 'view'
+): boolean => !!matrix[module]?.includes(action);
+
+/**
+ * Build the permissions of a member from their fixed role, or from their
+ * organization's custom role when one is assigned. The coarse flags used
+ * across the app are derived from the matrix.
+ */
+export const resolvePermissions = (
+  base: Pick<Permissions, 'role' | 'organizationId' | 'organizationName'>,
+  customRole?: (Pick<RoleDefinition, 'name' | 'permissions' | 'hidden_fields'> & { id?: string }) | null
+): Permissions => {
+  const source = customRole || DEFAULT_ROLE_PERMISSIONS[base.role] || DEFAULT_ROLE_PERMISSIONS.data_entry;
+  const matrix = normalizePermissionMatrix(source.permissions);
+  const hiddenFields = (source.hidden_fields || []).filter(field =>
+    SENSITIVE_FIELDS.some(f => f.field === field)
+  );
+  const can = (module: PermissionModule, action: PermissionAction = 'view') => hasPermission(matrix, module, action);
+
+  return {
+    ...base,
+    canAccessDashboard: can('pnl'),
+    canAccessReports: can('pnl'),
+    canAccessAdmin: can('admin'),
+    canAccessAlerts: can('trips', 'verify'),
+    canViewDriverInsights: can('drivers') && can('pnl'),
+    canViewVehicleOverview: can('vehicles') && can('pnl'),
+    canViewRevenue: can('pnl') && !hiddenFields.includes('revenue'),
+    customRoleId: customRole?.id ?? null,
+    customRoleName: customRole?.name ?? null,
+    matrix,
+    hiddenFields
+  };
+};
+
+const hiddenColumns = (hiddenFields: SensitiveField[]) =>
+  SENSITIVE_FIELDS.filter(f => hiddenFields.includes(f.field)).flatMap(f => f.columns);
+
+/**
+ * Copy of a record without the columns the member may not see. The database
+ * masks them on reads and keeps them unchanged on writes; this keeps the
+ * masked values out of saves and change requests.
+ */
+export const omitHiddenFields = <T extends object>(record: T, hiddenFields: SensitiveField[]): T => {
+  const columns = hiddenColumns(hiddenFields);
+  if (columns.length === 0) return record;
+  const copy = { ...record } as Record<string, unknown>;
+  columns.forEach(column => delete copy[column]);
+  return copy as T;
+};
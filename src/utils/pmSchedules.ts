@@ -0,0 +1,29 @@
+import { PMComplianceSummary, PMDueItem } from '../types';
+
+// Due state and task drafts are shared with the scheduled generate-pm-tasks function
+export {
+  PM_TASK_NOTE_PREFIX,
+  buildPMTaskDraft,
+  computePMDueItems,
+  getPMDueKey,
+  getPMItemsNeedingTasks,
+  scheduleAppliesToVehicle,
+  taskMatchesSchedule
+} from '../../supabase/functions/_shared/pmSchedule.ts';
+
+export const summarizePMCompliance = (items: PMDueItem[]): PMComplianceSummary => {
+  const count = (status: PMDueItem['status']) => items.filter(i => i.status === status).length;
+  const summary = {
+    total: items.length,
+    ok: count('ok'),
+    due_soon: count('due_soon'),
+    overdue: count('overdue'),
+    no_history: count('no_history')
+  };
+  const tracked = summary.total - summary.no_history;
+
+  return {
+    ...summary,
+    compliance_percent: tracked > 0 ? Math.round(((tracked - summary.overdue) / tracked) * 100) : null
+  };
+};
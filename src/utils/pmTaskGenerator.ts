@@ -0,0 +1,25 @@
+import { createTask } from './maintenanceStorage';
+import { buildPMTaskDraft } from './pmSchedules';
+import { PMDueItem } from '../types';
+import { createLogger } from './logger';
+
+const logger = createLogger('pmTaskGenerator');
+
+/**
+ * Raise an open maintenance task for each item. Unlike the drafts raised on
+ * schedule, these are requested by the user and need no confirmation.
+ * Failures are logged and skipped so one bad vehicle does not block the rest.
+ */
+export const createPMTasks = async (items: PMDueItem[]): Promise<number> => {
+  let created = 0;
+
+  for (const item of items) {
+    try {
+      if (await createTask({ ...buildPMTaskDraft(item), status: 'open' })) created++;
+    } catch (error) {
+      logger.error(`Error creating PM task for ${item.vehicle.registration_number}:`, error);
+    }
+  }
+
+  return created;
+};
@@ -0,0 +1,13 @@
+// Planning runs in the scheduled dispatch-reminders function; the web app shows the same rules
+export {
+  MAX_DELIVERY_ATTEMPTS,
+  buildDedupKey,
+  buildServiceReminders,
+  buildVehicleDocumentReminders,
+  getAssignedReminderType,
+  getContactChannels,
+  getNextAttemptAt,
+  getReminderDocumentLabel,
+  isDeliveryRetryDue,
+  planReminderNotifications
+} from '../../supabase/functions/_shared/reminderPlan.ts';
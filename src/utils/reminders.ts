@@ -159,7 +159,7 @@ const getRemindersForAIAlerts = async (): Promise<ReminderItem[]> => {
       } else if (alert.affected_entity?.type === 'driver' && alert.affected_entity.id) {
         try {
           const { data: driver, error: driverError } = await supabase
-            .from('drivers')
+            .from('drivers_visible')
             .select('name')
             .eq('id', alert.affected_entity.id)
             .single();
@@ -418,6 +418,42 @@ const getRemindersForVehicles = async (): Promise<ReminderItem[]> => {
         }
       }
 
+      // Check road tax paid-up-to date
+      if (vehicle.tax_paid_upto) {
+        const expiryDate = new Date(vehicle.tax_paid_upto);
+        if (isAfter(expiryDate, today)) {
+          const daysLeft = differenceInDays(expiryDate, today);
+          if (daysLeft <= 30) {
+            reminders.push({
+              id: `tax-${vehicle.id}-${vehicle.tax_paid_upto}`,
+              title: `Tax Due in ${daysLeft} days`,
+              entityId: vehicle.id,
+              entityName: vehicle.registration_number,
+              dueDate: vehicle.tax_paid_upto,
+              daysLeft,
+              status: getStatusFromDays(daysLeft),
+              link: `/vehicles/${vehicle.id}`,
+              type: "tax_expiry",
+              module: "vehicles",
+            });
+          }
+        } else {
+          // Already expired
+          reminders.push({
+            id: `tax-${vehicle.id}-${vehicle.tax_paid_upto}`,
+            title: "Tax Overdue",
+            entityId: vehicle.id,
+            entityName: vehicle.registration_number,
+            dueDate: vehicle.tax_paid_upto,
+            daysLeft: 0,
+            status: "critical",
+            link: `/vehicles/${vehicle.id}`,
+            type: "tax_expiry",
+            module: "vehicles",
+          });
+        }
+      }
+
       // Check for missing documents
       const missingDocs = [];
       if (!vehicle.rc_document_url) missingDocs.push("RC");
@@ -468,7 +504,7 @@ const getRemindersForDrivers = async (): Promise<ReminderItem[]> => {
     }
     // Fetch drivers from Supabase
     const { data: drivers, error } = await supabase
-      .from("drivers")
+      .from("drivers_visible")
       .select("*")
       .eq("added_by", user.id)
       .not("status", "eq", "blacklisted");
@@ -838,7 +874,7 @@ const getRemindersForTrips = async (): Promise<ReminderItem[]> => {
     }
     // Fetch trips from Supabase
     const { data: trips, error } = await supabase
-      .from("trips")
+      .from("trips_visible")
       .select("*, vehicles!inner(registration_number)")
       .eq("created_by", user.id)
       .order("trip_end_date", { ascending: false })
@@ -212,14 +212,14 @@ export const fetchWeeklyComparisonData = async (
 
     // Get count for current week
     const { count: currentCount } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .gte('start_time', currentWeekRange.start)
       .lte('start_time', currentWeekRange.end);
     
     // Fetch current week data
     const { data: currentWeekData, error: currentError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         distance,
@@ -243,14 +243,14 @@ export const fetchWeeklyComparisonData = async (
 
     // Get count for previous week
     const { count: previousCount } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .gte('start_time', previousWeekRange.start)
       .lte('start_time', previousWeekRange.end);
     
     // Fetch previous week data
     const { data: previousWeekData, error: previousError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         distance,
@@ -358,14 +358,14 @@ export const fetchMonthlyComparisonData = async (
 
     // Get count for the month
     const { count } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .gte('start_time', startDateStr)
       .lte('start_time', endDateStr);
     
     // Fetch trips data for the month
     const { data: tripsData, error: tripsError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         distance,
@@ -477,13 +477,13 @@ export const fetchTripSummaryData = async (
   try {
     // Get count for trip summary
     const { count } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .gte('start_time', dateRange.start)
       .lte('start_time', dateRange.end);
     
     const { data: tripsData, error: tripsError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         distance,
@@ -622,13 +622,13 @@ export const fetchVehicleUtilizationData = async (
 
     // Get count for vehicle utilization
     const { count } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .gte('start_time', startDateStr)
       .lte('start_time', endDateStr);
     
     const { data: tripsData, error: tripsError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         vehicle_id,
@@ -743,7 +743,7 @@ export const fetchDriverPerformanceData = async (
 
     // Fetch drivers and their trips
     const { data: driversData, error: driversError } = await supabase
-      .from('drivers')
+      .from('drivers_visible')
       .select(`
         id,
         name,
@@ -754,13 +754,13 @@ export const fetchDriverPerformanceData = async (
 
     // Get count for driver performance
     const { count } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .gte('start_time', startDateStr)
       .lte('start_time', endDateStr);
     
     const { data: tripsData, error: tripsError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         driver_id,
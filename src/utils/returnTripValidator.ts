@@ -56,7 +56,7 @@ export class ReturnTripValidator {
   static async validateReturnTrip(tripId: string): Promise<ReturnTripAnalysis | null> {
     try {
       const { data: trip, error: tripError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select(`
           id, vehicle_id, trip_serial_number, trip_start_date, trip_end_date,
           start_km, end_km, is_return_trip, destinations,
@@ -221,7 +221,7 @@ export class ReturnTripValidator {
       const searchEndDate = new Date(endDate.getTime() + (this.MAX_TIME_GAP_HOURS * 60 * 60 * 1000));
 
       const { data: potentialReturns, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select(`
           id, trip_serial_number, trip_start_date, trip_end_date,
           start_km, end_km, destinations, fuel_quantity, calculated_kmpl,
@@ -455,7 +455,7 @@ export class ReturnTripValidator {
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
       const { data: recentTrips, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id')
         .gte('trip_start_date', thirtyDaysAgo.toISOString())
         .order('trip_start_date', { ascending: false })
@@ -54,7 +54,7 @@ export class SerialSequenceMonitor {
       }
 
       const { data: trips, error: tripsError } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('id, vehicle_id, trip_serial_number, trip_start_date, driver:drivers(name)')
         .eq('vehicle_id', vehicleId)
         .order('trip_start_date')
@@ -1,4 +1,13 @@
 // Service Worker registration and management utilities
+import { createLogger } from './logger';
+
+const logger = createLogger('serviceWorker');
+
+const TRIP_SYNC_TAG = 'trip-sync';
+
+// Dispatched on window when the service worker asks the app to upload trips
+// captured offline
+export const TRIP_SYNC_REQUESTED_EVENT = 'trip-sync-requested';
 
 export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
   if (!('serviceWorker' in navigator)) {
@@ -217,6 +226,9 @@ export const handleServiceWorkerMessages = (): void => {
       case 'OFFLINE_DATA_SYNCED':
         logger.debug('Offline data synced:', data.count);
         break;
+      case 'SYNC_OFFLINE_TRIPS':
+        window.dispatchEvent(new Event(TRIP_SYNC_REQUESTED_EVENT));
+        break;
       case 'NOTIFICATION_CLICKED':
         logger.debug('Notification clicked:', data.action);
         break;
@@ -226,6 +238,33 @@ export const handleServiceWorkerMessages = (): void => {
   });
 };
 
+/**
+ * Ask the browser to wake the service worker once connectivity returns so
+ * queued trips are uploaded even if the trip screen was closed. Browsers
+ * without Background Sync fall back to the app's online listener.
+ */
+export const requestTripBackgroundSync = async (): Promise<boolean> => {
+  if (!('serviceWorker' in navigator)) {
+    return false;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const syncManager = (registration as (ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    }) | undefined)?.sync;
+    if (!syncManager) {
+      return false;
+    }
+
+    await syncManager.register(TRIP_SYNC_TAG);
+    return true;
+  } catch (error) {
+    logger.warn('Background sync registration failed:', error);
+    return false;
+  }
+};
+
 // Cache management utilities
 export const clearServiceWorkerCache = async (): Promise<void> => {
   if (!('serviceWorker' in navigator)) {
@@ -284,5 +323,6 @@ export default {
   initializeServiceWorker,
   handleServiceWorkerMessages,
   clearServiceWorkerCache,
-  getCacheSize
+  getCacheSize,
+  requestTripBackgroundSync
 };
@@ -98,7 +98,7 @@ const uploadDriverProfile = async (driverId: string, driverData: any): Promise<v
 };
 
 const getDriverData = async (driverId: string): Promise<any> => {
-  const { data, error } = await supabase.from('drivers').select('*').eq('id', driverId).single();
+  const { data, error } = await supabase.from('drivers_visible').select('*').eq('id', driverId).single();
   if (error) throw error;
   return data;
 };
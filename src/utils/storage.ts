@@ -101,7 +101,18 @@ export const getWarehouses = async (): Promise<Warehouse[]> => {
       return [];
     }
 
-    return data || [];
+    // Members limited to some warehouses (Admin → Team) only see those
+    const { data: membership } = await supabase
+      .from('organization_users')
+      .select('warehouse_ids')
+      .eq('user_id', user.id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+    const allowed: string[] = membership?.warehouse_ids || [];
+
+    return allowed.length > 0
+      ? (data || []).filter(warehouse => allowed.includes(warehouse.id))
+      : data || [];
   } catch (error) {
     if (isNetworkError(error)) {
       if (config.isDev) logger.warn('Network error fetching user for warehouses, returning empty array');
@@ -461,12 +472,12 @@ export const getAllVehicleStats = async (
 
       // Get count to bypass 1000 row limit
       const { count } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('*', { count: 'exact', head: true })
         .eq('organization_id', organizationId);
       
       const { data, error } = await supabase
-        .from('trips')
+        .from('trips_visible')
         .select('vehicle_id,start_km,end_km,calculated_kmpl')
         .eq('organization_id', organizationId)
         .range(0, (count || 10000) - 1);
@@ -551,7 +562,7 @@ export const getVehicleStats = async (vehicleId: string): Promise<any> => {
 
     // Get count for this vehicle
     const { count } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .eq('organization_id', organizationId)
       .eq('vehicle_id', vehicleId)
@@ -559,7 +570,7 @@ export const getVehicleStats = async (vehicleId: string): Promise<any> => {
     
     // Get trips for this vehicle with cost data
     const { data: trips, error } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         start_km, 
         end_km, 
@@ -878,7 +889,7 @@ export const getLatestOdometer = async (vehicleId: string): Promise<{ value: num
     const userIds = orgUsers.map(ou => ou.user_id);
 
     const { data: trips, error: tripsError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('end_km, created_at, trip_end_date, created_by')
       .eq('vehicle_id', vehicleId)
       .in('created_by', userIds)
@@ -896,7 +907,7 @@ export const getLatestOdometer = async (vehicleId: string): Promise<{ value: num
     // Fallback to the highest recorded odometer in trips if ordering fails
     // ✅ FIXED: Use organization-based query consistent with validation
     const { data: maxOdometerTrip, error: maxTripError } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('end_km, trip_end_date, created_at')
       .eq('vehicle_id', vehicleId)
       .in('created_by', userIds)
@@ -55,4 +55,18 @@ export async function getUserActiveOrganization(userId: string): Promise<string
     logger.error('Error getting user active organization:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+// Resolve the current user and their active organization, throwing when either is missing
+export async function getOrganizationContext(): Promise<{ userId: string; organizationId: string }> {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+
+  const organizationId = await getUserActiveOrganization(userId);
+  if (!organizationId) {
+    throw new Error('No organization selected. Please select an organization.');
+  }
+
+  return { userId, organizationId };
+}
@@ -0,0 +1,77 @@
+import { TeamAccess, TeamMember } from '../types';
+import { UserRole } from '../types/permissions';
+
+export const TEAM_ROLES: { role: UserRole; label: string; description: string }[] = [
+  { role: 'owner', label: 'Owner', description: 'Full access, including other owners' },
+  { role: 'admin', label: 'Admin', description: 'Full access and team management' },
+  { role: 'manager', label: 'Manager', description: 'Dashboard, reports and alerts; no admin pages' },
+  { role: 'data_entry', label: 'Data entry', description: 'Trips, vehicles and drivers only' }
+];
+
+export const getRoleLabel = (role: UserRole) => TEAM_ROLES.find(r => r.role === role)?.label || role;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidInviteEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+const canManageTeam = (role: UserRole) => role === 'admin' || role === 'owner';
+
+/**
+ * Roles the acting user may give; only owners hand out ownership
+ */
+export const getAssignableRoles = (actorRole: UserRole): UserRole[] =>
+  !canManageTeam(actorRole)
+    ? []
+    : TEAM_ROLES.map(r => r.role).filter(role => actorRole === 'owner' || role !== 'owner');
+
+/**
+ * Why the acting user cannot change this member, or null when they can.
+ * Nobody edits their own access, and owners are never changed from the team
+ * page; the policies on organization_users enforce the same.
+ */
+export const getTeamMemberLock = (
+  actor: { userId: string; role: UserRole },
+  member: Pick<TeamMember, 'user_id' | 'role'>
+): string | null => {
+  if (!canManageTeam(actor.role)) return 'Only admins and owners can manage the team';
+  if (member.user_id === actor.userId) return 'You cannot change your own access';
+  if (member.role === 'owner') return 'Owner access cannot be changed from the team page';
+  return null;
+};
+
+export const describeWarehouseAccess = (ids: string[] | null, names: Map<string, string> = new Map()) =>
+  !ids || ids.length === 0 ? 'all warehouses' : ids.map(id => names.get(id) || id).join(', ');
+
+/**
+ * Human-readable list of what changed between two versions of a membership,
+ * for the audit trail
+ */
+export const describeAccessChanges = (
+  before: TeamAccess,
+  after: TeamAccess,
+  warehouseNames?: Map<string, string>,
+  roleNames: Map<string, string> = new Map()
+): string[] => {
+  const changes: string[] = [];
+  const customRole = (id?: string | null) => (id ? roleNames.get(id) || id : 'none');
+
+  if (before.role !== after.role) {
+    changes.push(`Role ${getRoleLabel(before.role)} → ${getRoleLabel(after.role)}`);
+  }
+  if ((before.custom_role_id ?? null) !== (after.custom_role_id ?? null)) {
+    changes.push(`Custom role ${customRole(before.custom_role_id)} → ${customRole(after.custom_role_id)}`);
+  }
+  if (before.is_active !== after.is_active) {
+    changes.push(after.is_active ? 'Reactivated' : 'Deactivated');
+  }
+
+  const beforeWarehouses = [...(before.warehouse_ids || [])].sort().join(',');
+  const afterWarehouses = [...(after.warehouse_ids || [])].sort().join(',');
+  if (beforeWarehouses !== afterWarehouses) {
+    changes.push(
+      `Warehouses ${describeWarehouseAccess(before.warehouse_ids, warehouseNames)} → ${describeWarehouseAccess(after.warehouse_ids, warehouseNames)}`
+    );
+  }
+
+  return changes;
+};
@@ -0,0 +1,115 @@
+import { Trip, TripChangeRequestType, TripFieldChange } from '../types';
+import { PermissionMatrix } from '../types/permissions';
+import { hasPermission } from './permissionMatrix';
+
+export const TRIP_CHANGE_REQUEST_TYPES: { type: TripChangeRequestType; label: string }[] = [
+  { type: 'edit', label: 'Edit verified trip' },
+  { type: 'cascade', label: 'Odometer cascade' },
+  { type: 'delete', label: 'Delete trip' }
+];
+
+export const getChangeRequestTypeLabel = (type: TripChangeRequestType) =>
+  TRIP_CHANGE_REQUEST_TYPES.find(t => t.type === type)?.label || type;
+
+const TRIP_FIELD_LABELS: Record<string, string> = {
+  vehicle_id: 'Vehicle',
+  driver_id: 'Driver',
+  warehouse_id: 'Warehouse',
+  destinations: 'Destinations',
+  material_type_ids: 'Materials',
+  customer_id: 'Customer',
+  trip_start_date: 'Start date',
+  trip_end_date: 'End date',
+  start_km: 'Start KM',
+  end_km: 'End KM',
+  gross_weight: 'Gross weight',
+  refueling_done: 'Refueling done',
+  refuelings: 'Refuelings',
+  fuel_quantity: 'Fuel quantity',
+  fuel_cost: 'Fuel cost',
+  total_fuel_cost: 'Total fuel cost',
+  unloading_expense: 'Unloading expense',
+  driver_expense: 'Driver expense',
+  road_rto_expense: 'Road/RTO expense',
+  toll_expense: 'Toll expense',
+  breakdown_expense: 'Breakdown expense',
+  miscellaneous_expense: 'Miscellaneous expense',
+  total_road_expenses: 'Total road expenses',
+  advance_amount: 'Advance',
+  fuel_bill_url: 'Fuel bill',
+  is_return_trip: 'Return trip',
+  remarks: 'Remarks'
+};
+
+/**
+ * Fields a change request may change; apply_trip_change_request rejects
+ * requests with any other field
+ */
+export const TRIP_REQUEST_FIELDS = Object.keys(TRIP_FIELD_LABELS);
+
+// Bookkeeping and values the app derives from the fields above
+const IGNORED_FIELDS = new Set([
+  'id',
+  'organization_id',
+  'created_by',
+  'added_by',
+  'created_at',
+  'updated_at',
+  'trip_serial_number',
+  'gps_screenshots',
+  'fuel_bill_file',
+  'station',
+  'destination_names',
+  'destination_display',
+  'calculated_kmpl',
+  'route_deviation',
+  'total_expense',
+  'net_profit',
+  'cost_per_km',
+  'profit_status',
+  'expense_verified',
+  'expense_verified_by',
+  'expense_verified_at'
+]);
+
+export const getTripFieldLabel = (field: string) =>
+  TRIP_FIELD_LABELS[field] || field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' ');
+
+// Treat empty values alike and compare numbers by value, so "5000" from a form equals 5000
+const comparable = (value: unknown): string | number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const n = Number(value);
+    return value.trim() !== '' && Number.isFinite(n) ? n : value.trim();
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Fields the proposed values would change on the trip, for the reviewer
+ */
+export const diffTripFields = (before: Partial<Trip>, after: Record<string, unknown>): TripFieldChange[] =>
+  Object.keys(after)
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => comparable((before as Record<string, unknown>)[field]) !== comparable(after[field]))
+    .map(field => ({
+      field,
+      label: getTripFieldLabel(field),
+      old_value: (before as Record<string, unknown>)[field] ?? null,
+      new_value: after[field] ?? null
+    }));
+
+export const formatChangeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Members who cannot verify trips (data entry by default) are makers: their
+ * edits to verified trips, odometer cascades and deletions wait for an admin
+ */
+export const needsTripApproval = (matrix: PermissionMatrix) => !hasPermission(matrix, 'trips', 'verify');
@@ -0,0 +1,285 @@
+import {
+  Destination,
+  Driver,
+  Trip,
+  TripImportDraft,
+  TripImportField,
+  TripImportIssue,
+  TripImportMapping,
+  TripImportRow,
+  Vehicle,
+  Warehouse
+} from '../types';
+import { normalizeRegistration, parseStatementDate } from './fuelReconciliation';
+
+export interface TripImportFieldDefinition {
+  field: TripImportField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Lower-case, letters and digits only
+}
+
+// Includes the headers of the trips export, so an exported sheet maps itself
+export const TRIP_IMPORT_FIELDS: TripImportFieldDefinition[] = [
+  { field: 'manual_trip_id', label: 'Trip ID', required: false, aliases: ['tripid', 'tripno', 'tripnumber', 'manualtripid', 'slipno', 'tripsheetno'] },
+  { field: 'vehicle', label: 'Vehicle', required: true, aliases: ['vehicle', 'vehicleno', 'vehiclenumber', 'registration', 'registrationnumber', 'regno', 'truckno'] },
+  { field: 'driver', label: 'Driver', required: true, aliases: ['driver', 'drivername'] },
+  { field: 'warehouse', label: 'Source warehouse', required: true, aliases: ['sourcewarehouse', 'warehouse', 'source', 'loadingpoint', 'from', 'origin'] },
+  { field: 'destinations', label: 'Destinations', required: true, aliases: ['destinations', 'destination', 'to', 'unloadingpoint', 'route'] },
+  { field: 'trip_start_date', label: 'Start date', required: true, aliases: ['startdate', 'tripstartdate', 'date', 'departuredate', 'tripdate'] },
+  { field: 'trip_end_date', label: 'End date', required: false, aliases: ['enddate', 'tripenddate', 'returndate', 'arrivaldate'] },
+  { field: 'start_km', label: 'Start KM', required: true, aliases: ['startkm', 'openingkm', 'startodometer', 'openingodometer', 'startreading'] },
+  { field: 'end_km', label: 'End KM', required: true, aliases: ['endkm', 'closingkm', 'endodometer', 'closingodometer', 'endreading'] },
+  { field: 'gross_weight', label: 'Gross weight', required: false, aliases: ['grossweight', 'weight', 'weightkg', 'loadweight'] },
+  { field: 'fuel_quantity', label: 'Fuel (L)', required: false, aliases: ['fuelquantityl', 'fuelquantity', 'fuell', 'fuel', 'diesel', 'dieselltr', 'litres', 'liters'] },
+  { field: 'total_fuel_cost', label: 'Fuel cost', required: false, aliases: ['fuelcostinr', 'fuelcost', 'totalfuelcost', 'dieselamount', 'fuelamount'] },
+  { field: 'unloading_expense', label: 'Unloading expense', required: false, aliases: ['unloadingexpenseinr', 'unloadingexpense', 'unloading'] },
+  { field: 'driver_expense', label: 'Driver expense', required: false, aliases: ['driverexpenseinr', 'driverexpense', 'driverallowance', 'bhatta'] },
+  { field: 'road_rto_expense', label: 'RTO expense', required: false, aliases: ['rtoexpenseinr', 'rtoexpense', 'roadrtoexpense', 'rto'] },
+  { field: 'toll_expense', label: 'Toll expense', required: false, aliases: ['tollexpenseinr', 'tollexpense', 'toll'] },
+  { field: 'breakdown_expense', label: 'Breakdown expense', required: false, aliases: ['breakdownexpenseinr', 'breakdownexpense', 'breakdown', 'repair'] },
+  { field: 'miscellaneous_expense', label: 'Misc expense', required: false, aliases: ['miscexpenseinr', 'miscexpense', 'miscellaneousexpense', 'misc', 'other', 'otherexpense'] },
+  { field: 'remarks', label: 'Remarks', required: false, aliases: ['remarks', 'remark', 'notes', 'note', 'comments'] }
+];
+
+const EXPENSE_FIELDS = [
+  'unloading_expense',
+  'driver_expense',
+  'road_rto_expense',
+  'toll_expense',
+  'breakdown_expense',
+  'miscellaneous_expense'
+] as const;
+
+// Destinations in one cell: "Raipur, Durg", "Raipur → Durg", "Raipur; Durg"
+const DESTINATION_SEPARATOR = /\s*(?:→|->|[,;|])\s*/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const parseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const cleaned = String(value ?? '').replace(/[₹,\s]/g, '').replace(/^rs\.?/i, '');
+  if (!cleaned) return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Pick a file column for each trip field by matching the header against
+ * known names. Each column is used for one field at most.
+ */
+export const guessTripImportMapping = (headers: string[]): TripImportMapping => {
+  const byHeader = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const used = new Set<string>();
+  const mapping = {} as TripImportMapping;
+
+  TRIP_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const alias = aliases.find(a => byHeader.has(a) && !used.has(byHeader.get(a)!));
+    mapping[field] = alias ? byHeader.get(alias)! : null;
+    if (mapping[field]) used.add(mapping[field]!);
+  });
+
+  return mapping;
+};
+
+export const getMissingImportFields = (mapping: TripImportMapping): TripImportFieldDefinition[] =>
+  TRIP_IMPORT_FIELDS.filter(definition => definition.required && !mapping[definition.field]);
+
+export interface TripImportMasters {
+  vehicles: Vehicle[];
+  drivers: Driver[];
+  warehouses: Warehouse[];
+  destinations: Destination[];
+}
+
+const indexByName = <T>(items: T[], getNames: (item: T) => (string | undefined | null)[]) => {
+  const index = new Map<string, T[]>();
+  items.forEach(item => {
+    new Set(getNames(item).filter(Boolean).map(name => normalizeName(name!))).forEach(name => {
+      index.set(name, [...(index.get(name) || []), item]);
+    });
+  });
+  return index;
+};
+
+/**
+ * Turn mapped spreadsheet rows into trips, resolving the vehicle number and
+ * driver, warehouse and destination names to IDs. Rows that cannot be
+ * resolved keep a null trip and say why.
+ */
+export const buildTripImportRows = (
+  rawRows: Record<string, unknown>[],
+  mapping: TripImportMapping,
+  masters: TripImportMasters
+): TripImportRow[] => {
+  const vehiclesByRegistration = new Map(
+    masters.vehicles.map(v => [normalizeRegistration(v.registration_number), v])
+  );
+  const driversByName = indexByName(masters.drivers, d => [d.name, d.license_number]);
+  const warehousesByName = indexByName(masters.warehouses, w => [w.name]);
+  const destinationsByName = indexByName(masters.destinations, d => [d.name, d.place_name]);
+
+  return rawRows.map((raw, index) => {
+    const read = (field: TripImportField) => {
+      const column = mapping[field];
+      return column ? raw[column] : undefined;
+    };
+    const text = (field: TripImportField) => String(read(field) ?? '').trim();
+
+    const errors: TripImportIssue[] = [];
+    const warnings: TripImportIssue[] = [];
+    const missing = (field: TripImportField, label: string) =>
+      errors.push({ field, message: `${label} is missing` });
+
+    const registration = normalizeRegistration(text('vehicle'));
+    const vehicle = registration ? vehiclesByRegistration.get(registration) : undefined;
+    if (!registration) missing('vehicle', 'Vehicle number');
+    else if (!vehicle) errors.push({ field: 'vehicle', message: `Vehicle ${registration} is not in the fleet` });
+
+    const resolveOne = <T>(field: TripImportField, label: string, byName: Map<string, T[]>): T | undefined => {
+      const name = text(field);
+      if (!name) {
+        missing(field, label);
+        return undefined;
+      }
+      const matches = byName.get(normalizeName(name)) || [];
+      if (matches.length === 0) errors.push({ field, message: `${label} "${name}" not found` });
+      if (matches.length > 1) errors.push({ field, message: `${label} "${name}" matches ${matches.length} records` });
+      return matches.length === 1 ? matches[0] : undefined;
+    };
+
+    const driver = resolveOne('driver', 'Driver', driversByName);
+    const warehouse = resolveOne('warehouse', 'Warehouse', warehousesByName);
+
+    const destinationNames = text('destinations').split(DESTINATION_SEPARATOR).filter(Boolean);
+    const destinations: Destination[] = [];
+    if (destinationNames.length === 0) missing('destinations', 'Destination');
+    destinationNames.forEach(name => {
+      const matches = destinationsByName.get(normalizeName(name)) || [];
+      if (matches.length === 1) destinations.push(matches[0]);
+      else errors.push({ field: 'destinations', message: `Destination "${name}" ${matches.length ? 'is ambiguous' : 'not found'}` });
+    });
+
+    const startDate = parseStatementDate(read('trip_start_date'));
+    // Single-day trips often leave the end date blank
+    const endDate = text('trip_end_date') ? parseStatementDate(read('trip_end_date')) : startDate;
+    if (!startDate) errors.push({ field: 'trip_start_date', message: 'Start date is missing or not recognised' });
+    if (!endDate) errors.push({ field: 'trip_end_date', message: 'End date is not recognised' });
+
+    const startKm = parseNumber(read('start_km'));
+    const endKm = parseNumber(read('end_km'));
+    if (startKm === null) missing('start_km', 'Start KM');
+    if (endKm === null) missing('end_km', 'End KM');
+    if (startKm !== null && endKm !== null && endKm < startKm) {
+      errors.push({ field: 'end_km', message: `End KM (${endKm}) is below start KM (${startKm})` });
+    }
+
+    const amount = (field: TripImportField) => {
+      const value = parseNumber(read(field));
+      if (value === null && text(field)) {
+        warnings.push({ field, message: `"${text(field)}" is not a number; treated as 0` });
+      }
+      return value ?? 0;
+    };
+
+    const expenses = Object.fromEntries(EXPENSE_FIELDS.map(field => [field, amount(field)])) as Record<
+      (typeof EXPENSE_FIELDS)[number],
+      number
+    >;
+    const fuelQuantity = amount('fuel_quantity');
+    const fuelCost = amount('total_fuel_cost');
+    const grossWeight = amount('gross_weight');
+
+    const resolved = vehicle && driver && warehouse && startDate && endDate &&
+      startKm !== null && endKm !== null && destinations.length === destinationNames.length && errors.length === 0;
+
+    const trip: TripImportDraft | null = resolved
+      ? {
+          vehicle_id: vehicle.id,
+          driver_id: driver.id!,
+          warehouse_id: warehouse.id,
+          manual_trip_id: text('manual_trip_id') || undefined,
+          destinations: destinations.map(d => d.id),
+          destination_names: destinations.map(d => d.name),
+          destination_display: destinations.map(d => d.name).join(' → '),
+          trip_start_date: startDate,
+          trip_end_date: endDate,
+          start_km: startKm,
+          end_km: endKm,
+          gross_weight: grossWeight,
+          refueling_done: fuelQuantity > 0,
+          refuelings: fuelQuantity > 0
+            ? [{
+                location: '',
+                fuel_quantity: fuelQuantity,
+                fuel_rate_per_liter: fuelCost > 0 ? Math.round((fuelCost / fuelQuantity) * 100) / 100 : 0,
+                total_fuel_cost: fuelCost
+              }]
+            : [],
+          fuel_quantity: fuelQuantity || undefined,
+          fuel_rate_per_liter: fuelQuantity > 0 && fuelCost > 0 ? Math.round((fuelCost / fuelQuantity) * 100) / 100 : undefined,
+          fuel_cost: fuelCost,
+          total_fuel_cost: fuelCost,
+          calculated_kmpl: fuelQuantity > 0 ? Math.round(((endKm - startKm) / fuelQuantity) * 100) / 100 : undefined,
+          ...expenses,
+          total_road_expenses: EXPENSE_FIELDS.reduce((sum, field) => sum + expenses[field], 0),
+          remarks: text('remarks') || undefined
+        }
+      : null;
+
+    return {
+      row: index + 2, // header is row 1
+      vehicle_registration: vehicle?.registration_number || registration,
+      trip,
+      errors,
+      warnings
+    };
+  });
+};
+
+type ImportedTripRef = Pick<Trip, 'vehicle_id' | 'trip_start_date' | 'start_km' | 'end_km'> & {
+  id?: string;
+  trip_serial_number?: string;
+  manual_trip_id?: string;
+};
+
+/**
+ * Trip IDs already used by a saved trip or by an earlier row of the file
+ */
+export const findDuplicateTripIds = (rows: TripImportRow[], existing: ImportedTripRef[]): Map<number, string> => {
+  const taken = new Map<string, string>();
+  existing.forEach(trip => {
+    [trip.manual_trip_id, trip.trip_serial_number].forEach(id => {
+      if (id) taken.set(id.trim().toUpperCase(), `already used by trip ${trip.trip_serial_number || id}`);
+    });
+  });
+
+  const duplicates = new Map<number, string>();
+  rows.forEach(row => {
+    const id = row.trip?.manual_trip_id?.trim().toUpperCase();
+    if (!id) return;
+    if (taken.has(id)) duplicates.set(row.row, `Trip ID ${row.trip!.manual_trip_id} is ${taken.get(id)}`);
+    else taken.set(id, `repeated from row ${row.row}`);
+  });
+
+  return duplicates;
+};
+
+export const hasTripImportErrors = (rows: TripImportRow[]): boolean =>
+  rows.some(row => !row.trip || row.errors.length > 0);
+
+/**
+ * One line per row with problems, for download next to the preview
+ */
+export const buildTripImportErrorReport = (rows: TripImportRow[]) =>
+  rows
+    .filter(row => row.errors.length > 0 || row.warnings.length > 0)
+    .map(row => ({
+      row: row.row,
+      vehicle: row.vehicle_registration,
+      start_date: row.trip?.trip_start_date || '',
+      errors: row.errors.map(issue => issue.message).join('; '),
+      warnings: row.warnings.map(issue => issue.message).join('; ')
+    }));
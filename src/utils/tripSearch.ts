@@ -330,7 +330,7 @@ export async function searchTripsDatabase(
     }
 
     let query = supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         *,
         vehicles!inner(id, registration_number, make, model),
@@ -53,7 +53,7 @@ export const generateTripSerialNumber = async (
     // Query to find ALL existing serial numbers for THIS specific vehicle and year
     // This ensures we get the complete picture of what sequences exist
     const { data: existingTrips, error } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select('trip_serial_number')
       .eq('organization_id', orgUser.organization_id)  // Check within organization
       .eq('vehicle_id', vehicleId)  // Filter by specific vehicle
@@ -146,7 +146,7 @@ export const validateTripSerialUniqueness = async (
     }
 
     let query = supabase
-      .from('trips')
+      .from('trips_visible')
       .select('id, trip_serial_number')
       .eq('organization_id', orgUser.organization_id)  // Check within organization
       .eq('trip_serial_number', tripSerialNumber);
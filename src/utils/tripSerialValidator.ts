@@ -78,7 +78,7 @@ export async function detectSerialMismatches(
     
     // First, get total count to bypass Supabase's default 1000 row limit
     let countQuery = supabase
-      .from('trips')
+      .from('trips_visible')
       .select('*', { count: 'exact', head: true })
       .not('trip_serial_number', 'is', null)
       .not('vehicle_id', 'is', null)
@@ -94,7 +94,7 @@ export async function detectSerialMismatches(
     // Build query to get trips with vehicle information
     // Use .range() to bypass Supabase's default 1000 row limit
     let query = supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         trip_serial_number,
@@ -198,7 +198,7 @@ export async function checkTripSerialMismatch(tripId: string): Promise<{
 }> {
   try {
     const { data: trip, error } = await supabase
-      .from('trips')
+      .from('trips_visible')
       .select(`
         id,
         trip_serial_number,
@@ -1,5 +1,6 @@
 import { supabase } from './supabaseClient';
 import { createLogger } from './logger';
+import { canCurrentUser } from './api/permissions';
 
 const logger = createLogger('TripVerification');
 
@@ -12,6 +13,10 @@ export const toggleExpenseVerification = async (
   userEmail?: string
 ): Promise<{ success: boolean; error?: string }> => {
   try {
+    if (!(await canCurrentUser('trips', 'verify'))) {
+      return { success: false, error: 'You do not have permission to verify trips' };
+    }
+
     const newStatus = !currentStatus;
     
     const updateData: any = {
@@ -45,6 +50,10 @@ export const bulkVerifyExpenses = async (
   userEmail?: string
 ): Promise<{ success: boolean; error?: string }> => {
   try {
+    if (!(await canCurrentUser('trips', 'verify'))) {
+      return { success: false, error: 'You do not have permission to verify trips' };
+    }
+
     const updateData = {
       expense_verified: true,
       expense_verified_at: new Date().toISOString(),
@@ -81,7 +90,7 @@ export const getVerificationStats = async (
 }> => {
   try {
     let query = supabase
-      .from('trips')
+      .from('trips_visible')
       .select('expense_verified', { count: 'exact' });
 
     if (organizationId) {
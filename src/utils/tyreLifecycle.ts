@@ -0,0 +1,223 @@
+import {
+  Tyre,
+  TyreBrandComparison,
+  TyreEvent,
+  TyreEventInput,
+  TyreLifeSummary,
+  TyrePosition
+} from '../types';
+
+export const SPARE_POSITION = 'SPARE';
+
+const PLACEMENT_CODES = { single: '', inner: 'I', outer: 'O' } as const;
+
+export const encodeTyrePosition = ({ axle, side, placement }: TyrePosition): string =>
+  `${axle}${side}${PLACEMENT_CODES[placement]}`;
+
+export const parseTyrePosition = (code: string): TyrePosition | null => {
+  const match = /^(\d+)([LR])([IO]?)$/.exec(code);
+  if (!match) return null;
+
+  return {
+    axle: Number(match[1]),
+    side: match[2] as TyrePosition['side'],
+    placement: match[3] === 'I' ? 'inner' : match[3] === 'O' ? 'outer' : 'single'
+  };
+};
+
+export const getTyrePositionLabel = (code?: string | null): string => {
+  if (!code) return '—';
+  if (code === SPARE_POSITION) return 'Spare';
+
+  const position = parseTyrePosition(code);
+  if (!position) return code;
+
+  const side = position.side === 'L' ? 'Left' : 'Right';
+  const placement = position.placement === 'single' ? '' : position.placement === 'inner' ? ' Inner' : ' Outer';
+  return `Axle ${position.axle} ${side}${placement}`;
+};
+
+/**
+ * Wheel positions for a vehicle, front to rear. The steer axle has single
+ * wheels; the rest are dual axles, with a single-wheel axle taking any
+ * remaining pair (e.g. 4-wheelers, or a lift axle on 12-wheelers).
+ */
+export const getVehicleTyrePositions = (numberOfTyres?: number | null): string[] => {
+  let remaining = numberOfTyres && numberOfTyres >= 2 ? numberOfTyres : 6;
+  const positions: TyrePosition[] = [];
+  let axle = 1;
+
+  const addAxle = (dual: boolean) => {
+    (['L', 'R'] as const).forEach(side => {
+      if (dual) {
+        // Outside in, so the list reads left to right across the axle
+        const placements = side === 'L' ? (['outer', 'inner'] as const) : (['inner', 'outer'] as const);
+        placements.forEach(placement => positions.push({ axle, side, placement }));
+      } else {
+        positions.push({ axle, side, placement: 'single' });
+      }
+    });
+    remaining -= dual ? 4 : 2;
+    axle++;
+  };
+
+  addAxle(false);
+  while (remaining >= 4) addAxle(true);
+  if (remaining >= 2) addAxle(false);
+
+  return positions.map(encodeTyrePosition);
+};
+
+/**
+ * Check that an event makes sense for the tyre's current state and, when
+ * fitting, that no other tyre holds the position (occupant).
+ * Returns an error message, or null when the event can be recorded.
+ */
+export const validateTyreEvent = (
+  tyre: Tyre,
+  event: TyreEventInput,
+  occupant?: Pick<Tyre, 'serial_number'> | null
+): string | null => {
+  const needsOdometer = event.event_type === 'fitted' || event.event_type === 'removed' ||
+    (event.event_type === 'scrapped' && tyre.status === 'fitted');
+
+  if (needsOdometer && (event.odometer === undefined || event.odometer === null || event.odometer < 0)) {
+    return 'Odometer reading is required';
+  }
+
+  switch (event.event_type) {
+    case 'fitted':
+      if (tyre.status !== 'in_stock') return 'Only tyres in stock can be fitted';
+      if (!event.vehicle_id || !event.to_position) return 'Select a vehicle and position';
+      if (occupant) return `${getTyrePositionLabel(event.to_position)} already has tyre ${occupant.serial_number}`;
+      return null;
+    case 'removed':
+      return tyre.status === 'fitted' ? null : 'Tyre is not fitted to a vehicle';
+    case 'rotated':
+      if (tyre.status !== 'fitted') return 'Tyre is not fitted to a vehicle';
+      if (!event.to_position || event.to_position === tyre.position) return 'Select a different position';
+      return null;
+    case 'retreaded':
+      return tyre.status === 'in_stock' ? null : 'Remove the tyre before sending it for retreading';
+    case 'scrapped':
+      if (tyre.status === 'scrapped') return 'Tyre is already scrapped';
+      return event.reason?.trim() ? null : 'Scrap reason is required';
+  }
+};
+
+/**
+ * Tyre fields that change when an event is recorded; record_tyre_event
+ * makes the same changes in the database
+ */
+export const applyTyreEvent = (tyre: Tyre, event: TyreEventInput): Partial<Tyre> => {
+  switch (event.event_type) {
+    case 'fitted':
+      return { status: 'fitted', vehicle_id: event.vehicle_id, position: event.to_position };
+    case 'removed':
+      return { status: 'in_stock', vehicle_id: null, position: null };
+    case 'rotated':
+      return { position: event.to_position };
+    case 'retreaded':
+      return { retread_count: tyre.retread_count + 1 };
+    case 'scrapped':
+      return { status: 'scrapped', vehicle_id: null, position: null, scrap_reason: event.reason };
+  }
+};
+
+const byEventDate = (a: TyreEvent, b: TyreEvent) =>
+  a.event_date.localeCompare(b.event_date) || (a.created_at || '').localeCompare(b.created_at || '');
+
+/**
+ * Kilometres run on each vehicle, from fitment to removal. A tyre that is
+ * still fitted is counted up to the vehicle's current odometer.
+ */
+export const getTyreKm = (
+  tyre: Pick<Tyre, 'status' | 'vehicle_id'>,
+  events: TyreEvent[],
+  odometers: Record<string, number>
+): number => {
+  let total = 0;
+  let fittedAt: number | null = null;
+
+  [...events].sort(byEventDate).forEach(event => {
+    if (event.event_type === 'fitted') {
+      fittedAt = event.odometer ?? null;
+    } else if ((event.event_type === 'removed' || event.event_type === 'scrapped') && fittedAt !== null) {
+      total += Math.max((event.odometer ?? fittedAt) - fittedAt, 0);
+      fittedAt = null;
+    }
+  });
+
+  if (fittedAt !== null && tyre.status === 'fitted' && tyre.vehicle_id) {
+    total += Math.max((odometers[tyre.vehicle_id] ?? fittedAt) - fittedAt, 0);
+  }
+
+  return total;
+};
+
+export const summarizeTyreLife = (
+  tyre: Tyre,
+  events: TyreEvent[],
+  odometers: Record<string, number>
+): TyreLifeSummary => {
+  const totalKm = getTyreKm(tyre, events, odometers);
+  const retreadCost = events
+    .filter(e => e.event_type === 'retreaded')
+    .reduce((sum, e) => sum + (e.cost || 0), 0);
+  const totalCost = (tyre.purchase_cost || 0) + retreadCost;
+
+  return {
+    tyre_id: tyre.id,
+    total_km: totalKm,
+    total_cost: totalCost,
+    cost_per_km: totalKm > 0 ? Math.round((totalCost / totalKm) * 100) / 100 : null
+  };
+};
+
+/**
+ * Brand comparison across the tyre register. Scrapped tyres give the most
+ * reliable life figures since their run is complete.
+ */
+export const compareTyreBrands = (
+  tyres: Tyre[],
+  events: TyreEvent[],
+  odometers: Record<string, number>
+): TyreBrandComparison[] => {
+  const eventsByTyre = new Map<string, TyreEvent[]>();
+  events.forEach(e => eventsByTyre.set(e.tyre_id, [...(eventsByTyre.get(e.tyre_id) || []), e]));
+
+  const brands = new Map<string, { tyre: Tyre; life: TyreLifeSummary }[]>();
+  tyres.forEach(tyre => {
+    const life = summarizeTyreLife(tyre, eventsByTyre.get(tyre.id) || [], odometers);
+    brands.set(tyre.brand, [...(brands.get(tyre.brand) || []), { tyre, life }]);
+  });
+
+  return Array.from(brands.entries())
+    .map(([brand, entries]) => {
+      const totalKm = entries.reduce((sum, e) => sum + e.life.total_km, 0);
+      const totalCost = entries.filter(e => e.life.total_km > 0).reduce((sum, e) => sum + e.life.total_cost, 0);
+      const scrapped = entries.filter(e => e.tyre.status === 'scrapped');
+
+      return {
+        brand,
+        tyres: entries.length,
+        scrapped: scrapped.length,
+        average_km: Math.round(totalKm / entries.length),
+        average_scrapped_km: scrapped.length > 0
+          ? Math.round(scrapped.reduce((sum, e) => sum + e.life.total_km, 0) / scrapped.length)
+          : null,
+        cost_per_km: totalKm > 0 ? Math.round((totalCost / totalKm) * 100) / 100 : null,
+        retreads: entries.reduce((sum, e) => sum + e.tyre.retread_count, 0)
+      };
+    })
+    .sort((a, b) => (a.cost_per_km ?? Infinity) - (b.cost_per_km ?? Infinity));
+};
+
+export const TYRE_SCRAP_REASONS = [
+  'Worn out',
+  'Cut / puncture beyond repair',
+  'Sidewall damage',
+  'Bulge / separation',
+  'Uneven wear',
+  'Not retreadable'
+];
@@ -0,0 +1,144 @@
+/**
+ * Comparison of stored vehicle/driver records with the RC and DL details
+ * returned by fetch-rc-details / fetch-driver-details. Kept free of imports so
+ * the scheduled reverify-documents function and the web app share one copy.
+ */
+
+export type VehicleDocumentField =
+  | 'insurance_expiry_date'
+  | 'puc_expiry_date'
+  | 'fitness_expiry_date'
+  | 'permit_expiry_date'
+  | 'tax_paid_upto'
+  | 'owner_name';
+
+export type DriverDocumentField = 'license_expiry' | 'vehicle_class';
+
+export type DocumentField = VehicleDocumentField | DriverDocumentField;
+
+export type DocumentFieldValue = string | string[] | null;
+
+export interface DocumentFieldDiff {
+  field: DocumentField;
+  stored_value: DocumentFieldValue;
+  government_value: DocumentFieldValue;
+}
+
+type FieldKind = 'date' | 'name' | 'classes';
+
+interface FieldRule<F extends DocumentField> {
+  field: F;
+  source: string; // key in the government response
+  kind: FieldKind;
+}
+
+export const VEHICLE_FIELD_RULES: FieldRule<VehicleDocumentField>[] = [
+  { field: 'insurance_expiry_date', source: 'insurance_expiry', kind: 'date' },
+  { field: 'puc_expiry_date', source: 'pucc_upto', kind: 'date' },
+  { field: 'fitness_expiry_date', source: 'fitness_upto', kind: 'date' },
+  { field: 'permit_expiry_date', source: 'permit_valid_upto', kind: 'date' },
+  { field: 'tax_paid_upto', source: 'tax_upto', kind: 'date' },
+  { field: 'owner_name', source: 'owner_name', kind: 'name' }
+];
+
+export const DRIVER_FIELD_RULES: FieldRule<DriverDocumentField>[] = [
+  { field: 'license_expiry', source: 'valid_upto', kind: 'date' },
+  { field: 'vehicle_class', source: 'vehicle_class', kind: 'classes' }
+];
+
+// VAHAN reports lifetime road tax as "LTT"; the app stores it as this date
+export const LIFETIME_TAX_DATE = '2099-12-31';
+
+// VAHAN placeholder for "not recorded"
+const EMPTY_DATES = new Set(['1900-01-01', '0000-00-00']);
+
+const pad = (value: string) => value.padStart(2, '0');
+
+/**
+ * Reads "yyyy-MM-dd" (optionally with a time), "dd-MM-yyyy" and "dd/MM/yyyy"
+ * into "yyyy-MM-dd". Blank, placeholder and unreadable values are null.
+ */
+export const normalizeDocumentDate = (raw: unknown): string | null => {
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim();
+  if (!value) return null;
+  if (value.toUpperCase() === 'LTT') return LIFETIME_TAX_DATE;
+
+  let date: string | null = null;
+  const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirstMatch = value.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/);
+  if (isoMatch) {
+    date = `${isoMatch[1]}-${pad(isoMatch[2])}-${pad(isoMatch[3])}`;
+  } else if (dayFirstMatch) {
+    date = `${dayFirstMatch[3]}-${pad(dayFirstMatch[2])}-${pad(dayFirstMatch[1])}`;
+  }
+
+  return date && !EMPTY_DATES.has(date) ? date : null;
+};
+
+// Owner names differ in case, spacing and punctuation ("M/S. ABC" vs "M/S ABC")
+export const normalizeOwnerName = (raw: unknown): string | null => {
+  if (typeof raw !== 'string') return null;
+  const value = raw.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+  return value || null;
+};
+
+/**
+ * Licence classes arrive as strings or as { cov } objects depending on the
+ * RTO; order and duplicates carry no meaning
+ */
+export const normalizeVehicleClasses = (raw: unknown): string[] | null => {
+  const list = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  const classes = list
+    .map(item => (typeof item === 'string' ? item : item?.cov ?? item?.class ?? ''))
+    .map(item => String(item).trim().toUpperCase())
+    .filter(Boolean);
+  return classes.length > 0 ? Array.from(new Set(classes)).sort() : null;
+};
+
+const normalize = (kind: FieldKind, value: unknown): DocumentFieldValue => {
+  if (kind === 'date') return normalizeDocumentDate(value);
+  if (kind === 'name') return normalizeOwnerName(value);
+  return normalizeVehicleClasses(value);
+};
+
+const isSame = (a: DocumentFieldValue, b: DocumentFieldValue) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const compareFields = <F extends DocumentField>(
+  rules: FieldRule<F>[],
+  stored: Record<string, unknown>,
+  government: Record<string, unknown>
+): DocumentFieldDiff[] =>
+  rules.flatMap(rule => {
+    const governmentValue = normalize(rule.kind, government[rule.source]);
+    // A field the service did not report is not a disagreement
+    if (governmentValue === null) return [];
+
+    const storedValue = normalize(rule.kind, stored[rule.field]);
+    if (isSame(storedValue, governmentValue)) return [];
+
+    return [{
+      field: rule.field,
+      stored_value: rule.kind === 'name' ? ((stored[rule.field] as string) ?? null) : storedValue,
+      government_value: rule.kind === 'name' ? String(government[rule.source]).trim() : governmentValue
+    }];
+  });
+
+/**
+ * Fields where the RC response (fetch-rc-details data.response) disagrees
+ * with the stored vehicle
+ */
+export const compareVehicleWithRc = (
+  vehicle: Record<string, unknown>,
+  rc: Record<string, unknown>
+): DocumentFieldDiff[] => compareFields(VEHICLE_FIELD_RULES, vehicle, rc);
+
+/**
+ * Fields where the DL response (fetch-driver-details data) disagrees with the
+ * stored driver
+ */
+export const compareDriverWithDl = (
+  driver: Record<string, unknown>,
+  dl: Record<string, unknown>
+): DocumentFieldDiff[] => compareFields(DRIVER_FIELD_RULES, driver, dl);
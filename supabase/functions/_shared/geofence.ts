@@ -0,0 +1,245 @@
+/**
+ * Geofences around warehouses and destinations, and the arrivals,
+ * departures and dwell times a vehicle's track shows at them. Kept free of
+ * imports (other than the shared track helpers) so ingest-gps-track and the
+ * web app share one copy.
+ */
+import { haversineKm, TrackPoint } from './gpsTrack.ts';
+
+export type GeofenceKind = 'warehouse' | 'destination';
+
+export interface Geofence {
+  id: string;
+  kind: GeofenceKind;
+  name: string;
+  lat: number;
+  lng: number;
+  radius_km: number;
+}
+
+// Time spent inside a geofence
+export interface GeofenceVisit {
+  geofence_id: string;
+  kind: GeofenceKind;
+  name: string;
+  arrived_at: string;
+  departed_at: string | null; // null: still inside when the track ends
+  dwell_minutes: number;
+}
+
+export interface TripTimeProposal {
+  start_at: string | null; // Departure from the loading warehouse
+  end_at: string | null; // Return to the warehouse, or arrival at the last destination
+  loading_minutes: number | null;
+  unloading_minutes: number; // Total dwell at destinations
+  visited_destination_ids: string[];
+}
+
+export type GeofenceFlagType = 'start_mismatch' | 'end_mismatch' | 'destination_not_visited';
+
+export interface GeofenceFlag {
+  type: GeofenceFlagType;
+  message: string;
+}
+
+export const WAREHOUSE_GEOFENCE_RADIUS_KM = 0.5;
+
+// Destinations are recorded at town or district level, so wider fences
+export const DESTINATION_GEOFENCE_RADIUS_KM: Record<string, number> = {
+  village: 1,
+  town: 2,
+  city: 5,
+  district: 10
+};
+
+// Shorter stays inside a fence are passing through, not a visit
+export const MIN_VISIT_MINUTES = 10;
+
+// Entered times within this many hours of the geofence event are accepted
+export const TRIP_TIME_TOLERANCE_HOURS = 3;
+
+const IST_OFFSET_MINUTES = 330;
+
+const minutesBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 60000;
+
+const hasCoordinates = (lat: number | null | undefined, lng: number | null | undefined): boolean =>
+  lat != null && lng != null && !(lat === 0 && lng === 0);
+
+/**
+ * Fences for the trip's warehouse and destinations; places without
+ * coordinates are left out
+ */
+export const buildTripGeofences = (
+  warehouse: { id: string; name: string; latitude?: number | null; longitude?: number | null } | null,
+  destinations: { id: string; name: string; latitude: number | null; longitude: number | null; type?: string }[]
+): Geofence[] => {
+  const fences: Geofence[] = [];
+
+  if (warehouse && hasCoordinates(warehouse.latitude, warehouse.longitude)) {
+    fences.push({
+      id: warehouse.id,
+      kind: 'warehouse',
+      name: warehouse.name,
+      lat: warehouse.latitude!,
+      lng: warehouse.longitude!,
+      radius_km: WAREHOUSE_GEOFENCE_RADIUS_KM
+    });
+  }
+
+  destinations.forEach(destination => {
+    if (!hasCoordinates(destination.latitude, destination.longitude)) return;
+    fences.push({
+      id: destination.id,
+      kind: 'destination',
+      name: destination.name,
+      lat: destination.latitude!,
+      lng: destination.longitude!,
+      radius_km: DESTINATION_GEOFENCE_RADIUS_KM[destination.type || ''] ?? DESTINATION_GEOFENCE_RADIUS_KM.town
+    });
+  });
+
+  return fences;
+};
+
+/**
+ * Visits to each fence in time order. Timestamps are required; untimed
+ * points are ignored. A track that starts inside a fence counts as arriving
+ * at its first point.
+ */
+export const detectGeofenceVisits = (
+  points: TrackPoint[],
+  geofences: Geofence[],
+  minVisitMinutes: number = MIN_VISIT_MINUTES
+): GeofenceVisit[] => {
+  const timed = points.filter(p => p.timestamp);
+  const visits: GeofenceVisit[] = [];
+
+  geofences.forEach(fence => {
+    let arrivedAt: string | null = null;
+    let lastInside: string | null = null;
+
+    const close = (departedAt: string | null) => {
+      if (!arrivedAt || !lastInside) return;
+      const dwell = minutesBetween(arrivedAt, departedAt ?? lastInside);
+      if (dwell >= minVisitMinutes) {
+        visits.push({
+          geofence_id: fence.id,
+          kind: fence.kind,
+          name: fence.name,
+          arrived_at: arrivedAt,
+          departed_at: departedAt,
+          dwell_minutes: Math.round(dwell)
+        });
+      }
+      arrivedAt = null;
+      lastInside = null;
+    };
+
+    timed.forEach(point => {
+      const inside = haversineKm(fence, point) <= fence.radius_km;
+      if (inside) {
+        if (!arrivedAt) arrivedAt = point.timestamp;
+        lastInside = point.timestamp;
+      } else if (arrivedAt) {
+        close(point.timestamp);
+      }
+    });
+    close(null);
+  });
+
+  return visits.sort((a, b) => Date.parse(a.arrived_at) - Date.parse(b.arrived_at));
+};
+
+/**
+ * Trip start and end as the track shows them: leaving the loading warehouse
+ * for the first destination, and getting back to it (or reaching the last
+ * destination on a one-way trip)
+ */
+export const proposeTripTimes = (visits: GeofenceVisit[]): TripTimeProposal => {
+  const destinationVisits = visits.filter(v => v.kind === 'destination');
+  const firstDestination = destinationVisits[0];
+  const lastDestination = destinationVisits[destinationVisits.length - 1];
+
+  const loading = visits
+    .filter(v => v.kind === 'warehouse' && v.departed_at &&
+      (!firstDestination || Date.parse(v.departed_at) <= Date.parse(firstDestination.arrived_at)))
+    .pop();
+
+  const returned = lastDestination
+    ? visits.find(v => v.kind === 'warehouse' && lastDestination.departed_at &&
+      Date.parse(v.arrived_at) >= Date.parse(lastDestination.departed_at))
+    : undefined;
+
+  return {
+    start_at: loading?.departed_at ?? null,
+    end_at: returned?.arrived_at ?? lastDestination?.arrived_at ?? null,
+    loading_minutes: loading ? loading.dwell_minutes : null,
+    unloading_minutes: destinationVisits.reduce((sum, v) => sum + v.dwell_minutes, 0),
+    visited_destination_ids: [...new Set(destinationVisits.map(v => v.geofence_id))]
+  };
+};
+
+// Calendar day in India for an ISO timestamp
+const istDay = (iso: string) =>
+  new Date(Date.parse(iso) + IST_OFFSET_MINUTES * 60000).toISOString().slice(0, 10);
+
+// Entered trip dates are often date-only (or midnight); those are compared by day
+const hasTime = (value: string) => value.length > 10 && !/T00:00(:00(\.0+)?)?(Z|[+-]00:?00|\+05:?30)?$/.test(value);
+
+const disagrees = (entered: string, detected: string, toleranceHours: number) =>
+  hasTime(entered)
+    ? Math.abs(minutesBetween(entered, detected)) > toleranceHours * 60
+    : entered.slice(0, 10) !== istDay(detected);
+
+const formatIst = (iso: string) => {
+  const local = new Date(Date.parse(iso) + IST_OFFSET_MINUTES * 60000).toISOString();
+  return `${local.slice(8, 10)}-${local.slice(5, 7)}-${local.slice(0, 4)} ${local.slice(11, 16)}`;
+};
+
+/**
+ * Where the entered trip dates or destinations disagree with what the
+ * geofences saw
+ */
+export const checkTripAgainstGeofences = (
+  trip: { trip_start_date: string; trip_end_date: string; destinations: string[] },
+  proposal: TripTimeProposal,
+  geofences: Geofence[],
+  toleranceHours: number = TRIP_TIME_TOLERANCE_HOURS
+): GeofenceFlag[] => {
+  const flags: GeofenceFlag[] = [];
+
+  if (proposal.start_at && trip.trip_start_date && disagrees(trip.trip_start_date, proposal.start_at, toleranceHours)) {
+    flags.push({ type: 'start_mismatch', message: `Left the warehouse ${formatIst(proposal.start_at)}; the entered start differs` });
+  }
+  if (proposal.end_at && trip.trip_end_date && disagrees(trip.trip_end_date, proposal.end_at, toleranceHours)) {
+    flags.push({ type: 'end_mismatch', message: `Trip ended ${formatIst(proposal.end_at)}; the entered end differs` });
+  }
+
+  geofences
+    .filter(fence => fence.kind === 'destination' && trip.destinations.includes(fence.id))
+    .filter(fence => !proposal.visited_destination_ids.includes(fence.id))
+    .forEach(fence => {
+      flags.push({ type: 'destination_not_visited', message: `Track never reached ${fence.name}` });
+    });
+
+  return flags;
+};
+
+/**
+ * Geofence columns stored with a trip's GPS track
+ */
+export const summarizeGeofences = (
+  points: TrackPoint[],
+  geofences: Geofence[],
+  trip: { trip_start_date: string; trip_end_date: string; destinations: string[] }
+) => {
+  const visits = detectGeofenceVisits(points, geofences);
+  const proposal = proposeTripTimes(visits);
+  return {
+    geofence_visits: visits,
+    proposed_start_at: proposal.start_at,
+    proposed_end_at: proposal.end_at,
+    // Without timed points nothing could have been seen, so nothing is flagged
+    geofence_flags: points.some(p => p.timestamp) ? checkTripAgainstGeofences(trip, proposal, geofences) : []
+  };
+};
@@ -0,0 +1,431 @@
+/**
+ * Parsing and analysis of GPS tracks exported by trackers (GPX, KML, CSV) or
+ * pushed by telematics providers. Kept free of imports so the
+ * ingest-gps-track function and the web app share one copy.
+ */
+
+export type TrackFormat = 'gpx' | 'kml' | 'csv';
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  timestamp: string | null; // ISO 8601
+  speed_kmph?: number | null; // Reported by the tracker, if any
+}
+
+export interface TrackStop {
+  lat: number;
+  lng: number;
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+}
+
+export interface OverspeedEvent {
+  lat: number;
+  lng: number;
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+  max_speed_kmph: number;
+}
+
+export interface TrackAnalysis {
+  point_count: number;
+  distance_km: number;
+  started_at: string | null;
+  ended_at: string | null;
+  duration_minutes: number;
+  moving_minutes: number;
+  idle_minutes: number;
+  max_speed_kmph: number;
+  stops: TrackStop[];
+  overspeed_events: OverspeedEvent[];
+  overspeed_limit_kmph: number;
+}
+
+export interface TrackAnalysisOptions {
+  overspeedLimitKmph?: number;
+  stopMinMinutes?: number;
+}
+
+export interface TrackDistanceComparison {
+  track_km: number;
+  odometer_km: number | null;
+  odometer_difference_km: number | null;
+  odometer_difference_percent: number | null;
+  standard_km: number | null;
+  standard_difference_percent: number | null;
+  odometer_mismatch: boolean;
+  off_route: boolean;
+}
+
+// Goods vehicle limit on national highways
+export const DEFAULT_OVERSPEED_LIMIT_KMPH = 80;
+export const DEFAULT_STOP_MIN_MINUTES = 10;
+// Differences within this share of the GPS distance are treated as noise
+export const TRACK_DISTANCE_TOLERANCE_PERCENT = 10;
+// Points are kept to this many when stored; analysis uses every point
+export const MAX_STORED_TRACK_POINTS = 5000;
+
+const STOP_RADIUS_KM = 0.15;
+const STATIONARY_SPEED_KMPH = 3;
+// Jumps faster than this between fixes are GPS glitches, not driving
+const MAX_PLAUSIBLE_SPEED_KMPH = 150;
+// Timestamps without a zone are local time from Indian trackers
+const DEFAULT_UTC_OFFSET = '+05:30';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const haversineKm = (a: Pick<TrackPoint, 'lat' | 'lng'>, b: Pick<TrackPoint, 'lat' | 'lng'>): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * ISO timestamps, DD-MM-YYYY / DD/MM/YYYY date-times and epoch seconds or
+ * milliseconds, as ISO 8601. Unparseable values become null.
+ */
+export const normalizeTrackTimestamp = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (typeof value === 'number' || /^\d{10}(\d{3})?$/.test(String(value).trim())) {
+    const n = Number(value);
+    const date = new Date(n < 1e12 ? n * 1000 : n);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  let text = String(value).trim();
+  const indian = text.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (indian) {
+    const [, d, m, y, hh, mm, ss] = indian;
+    text = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}T${hh.padStart(2, '0')}:${mm}:${ss || '00'}${DEFAULT_UTC_OFFSET}`;
+  } else if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text)) {
+    text = `${text.replace(' ', 'T')}${DEFAULT_UTC_OFFSET}`;
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const isValidCoordinate = (lat: number, lng: number) =>
+  Number.isFinite(lat) && Number.isFinite(lng) &&
+  Math.abs(lat) <= 90 && Math.abs(lng) <= 180 &&
+  !(lat === 0 && lng === 0);
+
+const toPoint = (lat: unknown, lng: unknown, timestamp: unknown, speedKmph?: unknown): TrackPoint | null => {
+  const latNum = Number(lat);
+  const lngNum = Number(lng);
+  if (!isValidCoordinate(latNum, lngNum)) return null;
+
+  const speed = speedKmph === undefined || speedKmph === null || speedKmph === '' ? null : Number(speedKmph);
+  return {
+    lat: latNum,
+    lng: lngNum,
+    timestamp: normalizeTrackTimestamp(timestamp),
+    speed_kmph: speed !== null && Number.isFinite(speed) ? speed : null
+  };
+};
+
+const compact = (points: (TrackPoint | null)[]) => points.filter((p): p is TrackPoint => p !== null);
+
+const attribute = (attrs: string, name: string) =>
+  attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+const tagText = (xml: string, tag: string) =>
+  xml.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`))?.[1]?.trim();
+
+/**
+ * Track and route points of a GPX file. GPX speeds are metres per second.
+ */
+export const parseGpx = (xml: string): TrackPoint[] => {
+  const points: (TrackPoint | null)[] = [];
+  const pattern = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const [, , attrs, body = ''] = match;
+    const speed = tagText(body, 'speed');
+    points.push(toPoint(
+      attribute(attrs, 'lat'),
+      attribute(attrs, 'lon'),
+      tagText(body, 'time'),
+      speed !== undefined && speed !== '' ? Number(speed) * 3.6 : null
+    ));
+  }
+
+  return compact(points);
+};
+
+/**
+ * Points of a KML file, from a gx:Track, timestamped Placemark points, or
+ * failing those LineString coordinates (which carry no times)
+ */
+export const parseKml = (xml: string): TrackPoint[] => {
+  const track = xml.match(/<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/);
+  if (track) {
+    const whens = [...track[1].matchAll(/<when>([^<]*)<\/when>/g)].map(m => m[1].trim());
+    const coords = [...track[1].matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map(m => m[1].trim().split(/\s+/));
+    return compact(coords.map(([lng, lat], i) => toPoint(lat, lng, whens[i])));
+  }
+
+  const placemarks = [...xml.matchAll(/<Placemark\b[^>]*>([\s\S]*?)<\/Placemark>/g)]
+    .map(m => m[1])
+    .filter(body => /<Point\b/.test(body) && /<when>/.test(body));
+  if (placemarks.length > 0) {
+    return compact(placemarks.map(body => {
+      const [lng, lat] = (tagText(body, 'coordinates') || '').split(',');
+      return toPoint(lat, lng, tagText(body, 'when'));
+    }));
+  }
+
+  return compact(
+    [...xml.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/g)]
+      .flatMap(m => m[1].trim().split(/\s+/))
+      .map(tuple => {
+        const [lng, lat] = tuple.split(',');
+        return toPoint(lat, lng, null);
+      })
+  );
+};
+
+const CSV_COLUMNS = {
+  lat: ['lat', 'latitude'],
+  lng: ['lng', 'lon', 'long', 'longitude'],
+  timestamp: ['timestamp', 'datetime', 'date_time', 'gps_time', 'time_stamp', 'recorded_at'],
+  date: ['date'],
+  time: ['time'],
+  speed: ['speed', 'speed_kmph', 'speed_kmh', 'speed(km/h)', 'speed (km/h)']
+};
+
+const splitCsvLine = (line: string, delimiter: string) =>
+  line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+/**
+ * Rows of a tracker CSV export with latitude and longitude columns and
+ * optionally a timestamp (or separate date and time) and a km/h speed
+ */
+export const parseTrackCsv = (text: string): TrackPoint[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) return [];
+
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    lines[0].split(d).length > lines[0].split(best).length ? d : best, ',');
+  const header = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase());
+  const column = (names: string[]) => header.findIndex(h => names.includes(h));
+
+  const latIndex = column(CSV_COLUMNS.lat);
+  const lngIndex = column(CSV_COLUMNS.lng);
+  if (latIndex < 0 || lngIndex < 0) {
+    throw new Error('CSV needs latitude and longitude columns');
+  }
+  const timestampIndex = column(CSV_COLUMNS.timestamp);
+  const dateIndex = column(CSV_COLUMNS.date);
+  const timeIndex = column(CSV_COLUMNS.time);
+  const speedIndex = column(CSV_COLUMNS.speed);
+
+  return compact(lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    let timestamp: string | undefined;
+    if (timestampIndex >= 0) timestamp = cells[timestampIndex];
+    else if (dateIndex >= 0 && timeIndex >= 0) timestamp = `${cells[dateIndex]} ${cells[timeIndex]}`;
+    else if (timeIndex >= 0) timestamp = cells[timeIndex];
+
+    return toPoint(cells[latIndex], cells[lngIndex], timestamp, speedIndex >= 0 ? cells[speedIndex] : null);
+  }));
+};
+
+export const detectTrackFormat = (fileName: string, content: string): TrackFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'csv') return extension;
+
+  const head = content.slice(0, 500).toLowerCase();
+  if (head.includes('<gpx')) return 'gpx';
+  if (head.includes('<kml')) return 'kml';
+  if (/lat/.test(head.split('\n')[0] || '')) return 'csv';
+  return null;
+};
+
+export const parseTrack = (format: TrackFormat, content: string): TrackPoint[] => {
+  switch (format) {
+    case 'gpx':
+      return parseGpx(content);
+    case 'kml':
+      return parseKml(content);
+    case 'csv':
+      return parseTrackCsv(content);
+  }
+};
+
+const minutesBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 60000;
+
+/**
+ * Points in time order with GPS glitches (impossible jumps) dropped
+ */
+export const cleanTrack = (points: TrackPoint[]): TrackPoint[] => {
+  const timed = points.every(p => p.timestamp);
+  const ordered = timed
+    ? [...points].sort((a, b) => Date.parse(a.timestamp!) - Date.parse(b.timestamp!))
+    : points;
+
+  const cleaned: TrackPoint[] = [];
+  ordered.forEach(point => {
+    const prev = cleaned[cleaned.length - 1];
+    if (prev?.timestamp && point.timestamp) {
+      const hours = minutesBetween(prev.timestamp, point.timestamp) / 60;
+      if (hours <= 0 && haversineKm(prev, point) > 0) return;
+      if (hours > 0 && haversineKm(prev, point) / hours > MAX_PLAUSIBLE_SPEED_KMPH) return;
+    }
+    cleaned.push(point);
+  });
+  return cleaned;
+};
+
+const findStops = (points: TrackPoint[], minMinutes: number): TrackStop[] => {
+  const stops: TrackStop[] = [];
+  let i = 0;
+
+  while (i < points.length) {
+    const anchor = points[i];
+    let j = i;
+    while (j + 1 < points.length && haversineKm(anchor, points[j + 1]) <= STOP_RADIUS_KM) j++;
+
+    const last = points[j];
+    if (j > i && anchor.timestamp && last.timestamp) {
+      const minutes = minutesBetween(anchor.timestamp, last.timestamp);
+      if (minutes >= minMinutes) {
+        stops.push({
+          lat: anchor.lat,
+          lng: anchor.lng,
+          started_at: anchor.timestamp,
+          ended_at: last.timestamp,
+          duration_minutes: Math.round(minutes)
+        });
+      }
+    }
+    i = j + 1;
+  }
+
+  return stops;
+};
+
+/**
+ * Distance, timing, idle time, stops and overspeeding from a track. Without
+ * timestamps only the distance can be worked out.
+ */
+export const analyzeTrack = (rawPoints: TrackPoint[], options: TrackAnalysisOptions = {}): TrackAnalysis => {
+  const limit = options.overspeedLimitKmph ?? DEFAULT_OVERSPEED_LIMIT_KMPH;
+  const points = cleanTrack(rawPoints);
+
+  let distanceKm = 0;
+  let idleMinutes = 0;
+  let maxSpeed = 0;
+  const overspeedEvents: OverspeedEvent[] = [];
+  let current: OverspeedEvent | null = null;
+
+  points.forEach((point, i) => {
+    const prev = points[i - 1];
+    let speed = point.speed_kmph ?? null;
+
+    if (prev) {
+      const km = haversineKm(prev, point);
+      distanceKm += km;
+
+      if (prev.timestamp && point.timestamp) {
+        const minutes = minutesBetween(prev.timestamp, point.timestamp);
+        const segmentSpeed = minutes > 0 ? km / (minutes / 60) : 0;
+        if (segmentSpeed < STATIONARY_SPEED_KMPH) idleMinutes += minutes;
+        if (speed === null) speed = segmentSpeed;
+      }
+    }
+
+    if (speed === null || !point.timestamp) return;
+    maxSpeed = Math.max(maxSpeed, speed);
+
+    if (speed > limit) {
+      if (!current) {
+        current = { lat: point.lat, lng: point.lng, started_at: point.timestamp, ended_at: point.timestamp, duration_minutes: 0, max_speed_kmph: speed };
+        overspeedEvents.push(current);
+      }
+      current.ended_at = point.timestamp;
+      current.duration_minutes = Math.round(minutesBetween(current.started_at, point.timestamp));
+      if (speed > current.max_speed_kmph) {
+        current.max_speed_kmph = speed;
+        current.lat = point.lat;
+        current.lng = point.lng;
+      }
+    } else {
+      current = null;
+    }
+  });
+
+  const startedAt = points.find(p => p.timestamp)?.timestamp ?? null;
+  const endedAt = [...points].reverse().find(p => p.timestamp)?.timestamp ?? null;
+  const durationMinutes = startedAt && endedAt ? minutesBetween(startedAt, endedAt) : 0;
+
+  return {
+    point_count: points.length,
+    distance_km: round1(distanceKm),
+    started_at: startedAt,
+    ended_at: endedAt,
+    duration_minutes: Math.round(durationMinutes),
+    moving_minutes: Math.round(durationMinutes - idleMinutes),
+    idle_minutes: Math.round(idleMinutes),
+    max_speed_kmph: round1(maxSpeed),
+    stops: findStops(points, options.stopMinMinutes ?? DEFAULT_STOP_MIN_MINUTES),
+    overspeed_events: overspeedEvents.map(event => ({ ...event, max_speed_kmph: round1(event.max_speed_kmph) })),
+    overspeed_limit_kmph: limit
+  };
+};
+
+/**
+ * Every nth point so a long track stays storable; the last point is kept
+ */
+export const samplePoints = (points: TrackPoint[], max: number = MAX_STORED_TRACK_POINTS): TrackPoint[] => {
+  if (points.length <= max) return points;
+  const step = Math.ceil(points.length / max);
+  const sampled = points.filter((_, i) => i % step === 0);
+  if (sampled[sampled.length - 1] !== points[points.length - 1]) sampled.push(points[points.length - 1]);
+  return sampled;
+};
+
+/**
+ * GPS distance against the odometer reading and the standard route distance.
+ * Positive differences mean more km than GPS / the standard route.
+ */
+export const compareTrackDistance = (
+  trackKm: number,
+  odometer: { start_km?: number | null; end_km?: number | null },
+  standardKm?: number | null,
+  tolerancePercent: number = TRACK_DISTANCE_TOLERANCE_PERCENT
+): TrackDistanceComparison => {
+  const odometerKm = odometer.start_km != null && odometer.end_km != null && odometer.end_km > odometer.start_km
+    ? odometer.end_km - odometer.start_km
+    : null;
+  const percent = (value: number, base: number) => (base > 0 ? round1(((value - base) / base) * 100) : null);
+
+  const odometerPercent = odometerKm !== null ? percent(odometerKm, trackKm) : null;
+  const standardPercent = standardKm && standardKm > 0 ? percent(trackKm, standardKm) : null;
+
+  return {
+    track_km: trackKm,
+    odometer_km: odometerKm,
+    odometer_difference_km: odometerKm !== null ? round1(odometerKm - trackKm) : null,
+    odometer_difference_percent: odometerPercent,
+    standard_km: standardKm && standardKm > 0 ? standardKm : null,
+    standard_difference_percent: standardPercent,
+    odometer_mismatch: odometerPercent !== null && Math.abs(odometerPercent) > tolerancePercent,
+    off_route: standardPercent !== null && standardPercent > tolerancePercent
+  };
+};
+
+/**
+ * Analysis plus the cleaned, sampled points to store with it
+ */
+export const summarizeTrack = (points: TrackPoint[], options: TrackAnalysisOptions = {}) => {
+  const cleaned = cleanTrack(points);
+  return { analysis: analyzeTrack(cleaned, options), points: samplePoints(cleaned) };
+};
@@ -0,0 +1,35 @@
+/**
+ * Placeholder rendering for message templates. Kept free of imports so the
+ * scheduled dispatch-reminders function and the web app share one copy.
+ */
+
+export type MessageVariableValue = string | number | null | undefined;
+
+export const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Replace {{placeholder}} tokens. Empty values print as N/A; tokens with no
+ * matching variable are left untouched so typos stay visible.
+ */
+export const renderTemplate = (
+  text: string,
+  variables: Record<string, MessageVariableValue>,
+  emptyValue: string = 'N/A'
+): string =>
+  text.replace(PLACEHOLDER_PATTERN, (token, name: string) => {
+    if (!(name in variables)) return token;
+    const value = variables[name];
+    return value === null || value === undefined || value === '' ? emptyValue : String(value);
+  });
+
+/**
+ * yyyy-MM-dd (or an ISO timestamp) as "dd MMM yyyy". Anything else returns
+ * '', which renderTemplate prints as N/A.
+ */
+export const formatTemplateDate = (value?: string | null): string => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return '';
+  return `${match[3]} ${MONTHS[Number(match[2]) - 1]} ${match[1]}`;
+};
@@ -0,0 +1,235 @@
+/**
+ * Preventive maintenance due state and the draft tasks raised for it. Only
+ * imports other shared modules, so the scheduled generate-pm-tasks function
+ * and the web app share one copy.
+ */
+import { computeDueStatus, computeNextDueFromLast } from './serviceDue.ts';
+
+export interface PMSchedule {
+  id: string;
+  name: string;
+  task_title: string;
+  task_type: string;
+  interval_km?: number | null;
+  interval_days?: number | null;
+  warn_km: number;
+  warn_days: number;
+  vehicle_types?: string[] | null;
+  vehicle_ids?: string[] | null;
+  tag_ids?: string[] | null;
+  vendor_id?: string | null;
+  auto_create_task: boolean;
+  is_active: boolean;
+}
+
+export interface PMVehicle {
+  id: string;
+  registration_number: string;
+  type: string;
+  status?: string;
+  current_odometer?: number | null;
+  tags?: { id: string }[];
+}
+
+export interface PMTask {
+  id: string;
+  vehicle_id: string;
+  status: string;
+  title?: string[] | null;
+  service_groups?: { tasks?: string[] | null }[];
+  parts_replaced?: { partName?: string }[] | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  odometer_reading: number;
+}
+
+export type PMDueStatus = 'ok' | 'due_soon' | 'overdue' | 'no_history';
+
+export interface PMDue<S extends PMSchedule = PMSchedule, V extends PMVehicle = PMVehicle> {
+  schedule: S;
+  vehicle: V;
+  last_service_date?: string;
+  last_service_odometer?: number;
+  next_due_odometer?: number;
+  next_due_date?: string;
+  status: PMDueStatus;
+  km_to_due?: number;
+  days_to_due?: number;
+  reason?: string;
+  open_task_id?: string;
+}
+
+// Drafts count as open so a service waiting for confirmation is not raised twice
+const OPEN_STATUSES = ['draft', 'open', 'in_progress', 'rework'];
+
+export const PM_TASK_NOTE_PREFIX = 'PM schedule:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Calendar days from today to a yyyy-MM-dd date, in local time
+const calendarDaysUntil = (date: string, today: Date) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((new Date(year, month - 1, day).getTime() - start.getTime()) / DAY_MS);
+};
+
+/**
+ * Whether a schedule covers a vehicle. Vehicle, type and tag assignments are
+ * alternatives; a schedule with none of them covers the whole fleet.
+ */
+export const scheduleAppliesToVehicle = (schedule: PMSchedule, vehicle: PMVehicle): boolean => {
+  const vehicleIds = schedule.vehicle_ids || [];
+  const vehicleTypes = schedule.vehicle_types || [];
+  const tagIds = schedule.tag_ids || [];
+
+  if (vehicleIds.length === 0 && vehicleTypes.length === 0 && tagIds.length === 0) return true;
+
+  return vehicleIds.includes(vehicle.id) ||
+    vehicleTypes.includes(vehicle.type) ||
+    (vehicle.tags || []).some(tag => tagIds.includes(tag.id));
+};
+
+/**
+ * A task counts as this service when its title, service group tasks or
+ * replaced parts mention the schedule's task title
+ */
+export const taskMatchesSchedule = (task: PMTask, schedule: PMSchedule): boolean => {
+  const needle = schedule.task_title.trim().toLowerCase();
+  if (!needle) return false;
+
+  const names = [
+    ...(task.title || []),
+    ...(task.service_groups || []).flatMap(group => group.tasks || []),
+    ...(task.parts_replaced || []).map(part => part.partName)
+  ];
+
+  return names.some(name => name?.toLowerCase().includes(needle));
+};
+
+const taskDate = (task: PMTask) => (task.end_date || task.start_date || '').slice(0, 10);
+
+/**
+ * Due state of every active schedule on every vehicle it covers, measured
+ * from the latest completed matching task and the vehicle's odometer
+ */
+export const computePMDueItems = <S extends PMSchedule, V extends PMVehicle>(
+  schedules: S[],
+  vehicles: V[],
+  tasks: PMTask[],
+  today: Date = new Date()
+): PMDue<S, V>[] => {
+  const tasksByVehicle = new Map<string, PMTask[]>();
+  tasks.forEach(task => tasksByVehicle.set(task.vehicle_id, [...(tasksByVehicle.get(task.vehicle_id) || []), task]));
+
+  const items: PMDue<S, V>[] = [];
+
+  schedules.filter(s => s.is_active).forEach(schedule => {
+    vehicles
+      .filter(v => v.status !== 'archived' && scheduleAppliesToVehicle(schedule, v))
+      .forEach(vehicle => {
+        const matching = (tasksByVehicle.get(vehicle.id) || []).filter(t => taskMatchesSchedule(t, schedule));
+        const openTask = matching.find(t => OPEN_STATUSES.includes(t.status));
+        const lastService = matching
+          .filter(t => t.status === 'resolved')
+          .sort((a, b) => taskDate(b).localeCompare(taskDate(a)))[0];
+
+        if (!lastService) {
+          items.push({ schedule, vehicle, status: 'no_history', open_task_id: openTask?.id });
+          return;
+        }
+
+        const lastServiceDate = taskDate(lastService);
+        const { nextDueOdo, nextDueDate } = computeNextDueFromLast({
+          lastServiceOdo: lastService.odometer_reading,
+          lastServiceDate,
+          intervalKm: schedule.interval_km,
+          intervalDays: schedule.interval_days
+        });
+        const { status, reason } = computeDueStatus({
+          nextDueOdo,
+          nextDueDate,
+          latestOdo: vehicle.current_odometer,
+          today,
+          warnKm: schedule.warn_km,
+          warnDays: schedule.warn_days
+        });
+
+        items.push({
+          schedule,
+          vehicle,
+          last_service_date: lastServiceDate,
+          last_service_odometer: lastService.odometer_reading,
+          next_due_odometer: nextDueOdo,
+          next_due_date: nextDueDate,
+          status,
+          // Negative when overdue
+          km_to_due: nextDueOdo !== undefined && typeof vehicle.current_odometer === 'number'
+            ? nextDueOdo - vehicle.current_odometer
+            : undefined,
+          days_to_due: nextDueDate ? calendarDaysUntil(nextDueDate, today) : undefined,
+          reason,
+          open_task_id: openTask?.id
+        });
+      });
+  });
+
+  return items;
+};
+
+/**
+ * Due or overdue items that should get a task raised automatically: the
+ * schedule allows it, has a garage to assign, and no task is open yet
+ */
+export const getPMItemsNeedingTasks = <T extends PMDue>(items: T[]): T[] =>
+  items.filter(item =>
+    (item.status === 'due_soon' || item.status === 'overdue') &&
+    item.schedule.auto_create_task &&
+    item.schedule.vendor_id &&
+    !item.open_task_id
+  );
+
+/**
+ * The due period a task is raised for: the next due date and odometer worked
+ * out from the last service. One task per vehicle, schedule and period.
+ */
+export const getPMDueKey = (item: Pick<PMDue, 'next_due_date' | 'next_due_odometer'>): string =>
+  `${item.next_due_date || '-'}/${item.next_due_odometer ?? '-'}`;
+
+/**
+ * Draft maintenance task for a due service. Drafts are confirmed by opening
+ * them from the maintenance page before work starts.
+ */
+export const buildPMTaskDraft = <S extends PMSchedule>(
+  item: PMDue<S>,
+  today: Date = new Date()
+) => {
+  const { schedule, vehicle } = item;
+  const intervals = [
+    schedule.interval_km ? `${schedule.interval_km.toLocaleString()} km` : null,
+    schedule.interval_days ? `${schedule.interval_days} days` : null
+  ].filter(Boolean).join(' or ');
+
+  return {
+    vehicle_id: vehicle.id,
+    task_type: schedule.task_type as S['task_type'],
+    title: [schedule.task_title],
+    description: `${schedule.name} (every ${intervals}) is ${item.status === 'overdue' ? 'overdue' : 'due soon'}` +
+      (item.reason ? ` ${item.reason}` : '') + '.',
+    status: 'draft' as const,
+    priority: item.status === 'overdue' ? 'high' as const : 'medium' as const,
+    garage_id: schedule.vendor_id || undefined,
+    bills: [],
+    parts_required: [],
+    warranty_claimed: false,
+    start_date: toDateKey(today),
+    downtime_days: 0,
+    downtime_hours: 0,
+    odometer_reading: vehicle.current_odometer || 0,
+    notes: `${PM_TASK_NOTE_PREFIX} ${schedule.name}`,
+    pm_schedule_id: schedule.id,
+    pm_due_key: getPMDueKey(item)
+  };
+};
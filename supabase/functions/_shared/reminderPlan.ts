@@ -0,0 +1,290 @@
+/**
+ * Due document and service reminders, who receives them on which channel,
+ * and how failed deliveries are retried. Kept free of imports so the
+ * scheduled dispatch-reminders function and the web app share one copy.
+ */
+
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp';
+
+export type ReminderStatus = 'critical' | 'warning' | 'normal';
+
+// reminder_contacts.assigned_types values
+export type AssignedReminderType = 'Insurance' | 'Fitness' | 'Pollution' | 'Tax' | 'Permit' | 'Service Due';
+
+export interface DueReminder {
+  id: string;
+  entityName: string;
+  dueDate?: string;
+  daysLeft?: number;
+  status: ReminderStatus;
+  type: string;
+  // Service reminders: the vehicle's reading now and the reading service is due at
+  currentOdometer?: number;
+  dueOdometer?: number;
+}
+
+export interface PlanContact {
+  id: string;
+  language?: string | null;
+  phone_number?: string | null;
+  email?: string | null;
+  preferred_contact_mode: string;
+  is_active: boolean;
+  is_global?: boolean;
+  assigned_types?: string[];
+}
+
+export interface PlanTemplate {
+  reminder_type: string;
+  default_days_before: number;
+  default_contact_id?: string | null;
+}
+
+export interface PlannedNotification<C extends PlanContact = PlanContact, R extends DueReminder = DueReminder> {
+  contact: C;
+  reminder: R;
+  reminderType: AssignedReminderType;
+  channel: NotificationChannel;
+  recipient: string;
+  dedupKey: string;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_MINUTES = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reminder item types that reminder contacts can be assigned to
+const REMINDER_TYPE_MAP: Record<string, AssignedReminderType> = {
+  insurance_expiry: 'Insurance',
+  fitness_expiry: 'Fitness',
+  puc_expiry: 'Pollution',
+  permit_expiry: 'Permit',
+  tax_expiry: 'Tax',
+  service_due_date: 'Service Due',
+  service_due_km: 'Service Due'
+};
+
+// reminder_templates.reminder_type values
+const TEMPLATE_TYPE_MAP: Record<string, AssignedReminderType> = {
+  insurance: 'Insurance',
+  fitness: 'Fitness',
+  puc: 'Pollution',
+  tax: 'Tax',
+  permit: 'Permit',
+  service: 'Service Due'
+};
+
+const DOCUMENT_LABELS: Partial<Record<AssignedReminderType, string>> = {
+  Pollution: 'PUC'
+};
+
+// Vehicle documents and how many days ahead of expiry they are reminded, as on the reminders page
+const DOCUMENT_RULES = [
+  { field: 'insurance_expiry_date', prefix: 'insurance', type: 'insurance_expiry', windowDays: 30 },
+  { field: 'puc_expiry_date', prefix: 'puc', type: 'puc_expiry', windowDays: 15 },
+  { field: 'fitness_expiry_date', prefix: 'fitness', type: 'fitness_expiry', windowDays: 30 },
+  { field: 'permit_expiry_date', prefix: 'permit', type: 'permit_expiry', windowDays: 30 },
+  { field: 'tax_paid_upto', prefix: 'tax', type: 'tax_expiry', windowDays: 30 }
+];
+
+const SERVICE_DATE_WINDOW_DAYS = 30;
+const SERVICE_KM_WINDOW = 1000;
+
+export const getStatusFromDays = (daysLeft: number): ReminderStatus => {
+  if (daysLeft < 7) return 'critical';
+  if (daysLeft < 15) return 'warning';
+  return 'normal';
+};
+
+// Whole days until the date, or null once it has passed
+const daysUntil = (date: string, today: Date): number | null => {
+  const diff = new Date(date).getTime() - today.getTime();
+  return diff > 0 ? Math.floor(diff / DAY_MS) : null;
+};
+
+/**
+ * Expiring and expired documents of a vehicle. Ids carry the expiry date so a
+ * renewed document is a new reminder.
+ */
+export const buildVehicleDocumentReminders = (
+  vehicle: { id: string; registration_number: string } & Record<string, unknown>,
+  today: Date = new Date()
+): DueReminder[] =>
+  DOCUMENT_RULES.flatMap(rule => {
+    const expiry = vehicle[rule.field];
+    if (typeof expiry !== 'string' || !expiry) return [];
+
+    const daysLeft = daysUntil(expiry, today);
+    if (daysLeft !== null && daysLeft > rule.windowDays) return [];
+
+    return [{
+      id: `${rule.prefix}-${vehicle.id}-${expiry}`,
+      entityName: vehicle.registration_number,
+      dueDate: expiry,
+      daysLeft: daysLeft ?? 0,
+      status: daysLeft === null ? 'critical' : getStatusFromDays(daysLeft),
+      type: rule.type
+    }];
+  });
+
+/**
+ * Service due on a maintenance task's next service date or odometer reading
+ */
+export const buildServiceReminders = (
+  task: { id: string; next_service_due?: { date?: string | null; odometer?: number | null } | null },
+  vehicle: { registration_number: string; current_odometer?: number | null },
+  today: Date = new Date()
+): DueReminder[] => {
+  const reminders: DueReminder[] = [];
+  const due = task.next_service_due;
+  if (!due) return reminders;
+
+  const odometers = {
+    currentOdometer: vehicle.current_odometer ?? undefined,
+    dueOdometer: due.odometer ?? undefined
+  };
+
+  if (due.date) {
+    const daysLeft = daysUntil(due.date, today);
+    if (daysLeft === null || daysLeft <= SERVICE_DATE_WINDOW_DAYS) {
+      reminders.push({
+        id: `service-date-${task.id}-${due.date}`,
+        entityName: vehicle.registration_number,
+        dueDate: due.date,
+        daysLeft: daysLeft ?? 0,
+        status: daysLeft === null ? 'critical' : getStatusFromDays(daysLeft),
+        type: 'service_due_date',
+        ...odometers
+      });
+    }
+  }
+
+  if (due.odometer && vehicle.current_odometer) {
+    const kmLeft = due.odometer - vehicle.current_odometer;
+    if (kmLeft <= SERVICE_KM_WINDOW) {
+      reminders.push({
+        id: `service-km-${task.id}-${due.odometer}`,
+        entityName: vehicle.registration_number,
+        status: kmLeft <= 300 ? 'critical' : kmLeft <= 600 ? 'warning' : 'normal',
+        type: 'service_due_km',
+        ...odometers
+      });
+    }
+  }
+
+  return reminders;
+};
+
+export const getAssignedReminderType = (reminder: Pick<DueReminder, 'type'>): AssignedReminderType | null =>
+  REMINDER_TYPE_MAP[reminder.type] || null;
+
+export const getReminderDocumentLabel = (type: string): string =>
+  DOCUMENT_LABELS[type as AssignedReminderType] || type;
+
+/**
+ * Channels a contact receives reminders on, limited to the contact details on file
+ */
+export const getContactChannels = (contact: PlanContact): { channel: NotificationChannel; recipient: string }[] => {
+  const phone = contact.phone_number?.trim();
+  const email = contact.email?.trim();
+  const channels: { channel: NotificationChannel; recipient: string }[] = [];
+
+  switch (contact.preferred_contact_mode) {
+    case 'Email':
+      if (email) channels.push({ channel: 'email', recipient: email });
+      break;
+    case 'SMS':
+      if (phone) channels.push({ channel: 'sms', recipient: phone });
+      break;
+    case 'WhatsApp':
+      if (phone) channels.push({ channel: 'whatsapp', recipient: phone });
+      break;
+    case 'Both':
+      if (phone) channels.push({ channel: 'sms', recipient: phone });
+      if (email) channels.push({ channel: 'email', recipient: email });
+      break;
+  }
+
+  return channels;
+};
+
+/**
+ * Reminder ids already carry the due date, so a renewed document produces a
+ * new key while repeat runs for the same expiry do not
+ */
+export const buildDedupKey = (contactId: string, reminderId: string, channel: NotificationChannel): string =>
+  `${contactId}:${reminderId}:${channel}`;
+
+/**
+ * A reminder is due once it is inside its template's days-before window, or,
+ * without a template, once it has reached warning or critical status
+ */
+const isReminderDue = (reminder: DueReminder, template?: PlanTemplate): boolean => {
+  if (template && reminder.daysLeft !== undefined) {
+    return reminder.daysLeft <= template.default_days_before;
+  }
+  return reminder.status !== 'normal';
+};
+
+/**
+ * Match due reminders to the contacts assigned to their type, plus the
+ * template's default contact. Duplicate reminder ids collapse to one message.
+ */
+export const planReminderNotifications = <C extends PlanContact, R extends DueReminder>(
+  reminders: R[],
+  contacts: C[],
+  templates: PlanTemplate[] = []
+): PlannedNotification<C, R>[] => {
+  const planned: PlannedNotification<C, R>[] = [];
+  const seen = new Set<string>();
+  const templatesByType = new Map(
+    templates
+      .filter(t => TEMPLATE_TYPE_MAP[t.reminder_type])
+      .map(t => [TEMPLATE_TYPE_MAP[t.reminder_type], t] as const)
+  );
+
+  reminders.forEach(reminder => {
+    const reminderType = getAssignedReminderType(reminder);
+    if (!reminderType) return;
+
+    const template = templatesByType.get(reminderType);
+    if (!isReminderDue(reminder, template)) return;
+
+    contacts
+      .filter(contact =>
+        contact.is_active &&
+        (contact.is_global || contact.assigned_types?.includes(reminderType) || contact.id === template?.default_contact_id)
+      )
+      .forEach(contact => {
+        getContactChannels(contact).forEach(({ channel, recipient }) => {
+          const dedupKey = buildDedupKey(contact.id, reminder.id, channel);
+          if (seen.has(dedupKey)) return;
+
+          seen.add(dedupKey);
+          planned.push({ contact, reminder, reminderType, channel, recipient, dedupKey });
+        });
+      });
+  });
+
+  return planned;
+};
+
+/**
+ * Exponential backoff after a failed attempt: 15, 30, 60 minutes...
+ */
+export const getNextAttemptAt = (attempts: number, now: Date = new Date()): Date =>
+  new Date(now.getTime() + RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0) * 60 * 1000);
+
+export const isDeliveryRetryDue = (
+  delivery: { status: string; attempts: number; next_attempt_at?: string | null },
+  now: Date = new Date()
+): boolean =>
+  delivery.status === 'failed' &&
+  delivery.attempts < MAX_DELIVERY_ATTEMPTS &&
+  (!delivery.next_attempt_at || new Date(delivery.next_attempt_at) <= now);
+
+// SMS gets the short template; email and WhatsApp the full one
+export const getReminderTemplateKey = (reminderType: string, channel: NotificationChannel) => {
+  if (reminderType === 'Service Due') return 'maintenance_due';
+  return channel === 'sms' ? 'document_expiry_urgent' : 'document_expiry';
+};
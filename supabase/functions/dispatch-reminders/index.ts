@@ -0,0 +1,328 @@
+// @ts-expect-error Remote import for Deno Edge Function
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error Remote import for Deno Edge Function
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import enLocale from '../../../src/i18n/locales/en.json' with { type: 'json' };
+import hiLocale from '../../../src/i18n/locales/hi.json' with { type: 'json' };
+import {
+  buildServiceReminders,
+  buildVehicleDocumentReminders,
+  DueReminder,
+  getNextAttemptAt,
+  getReminderDocumentLabel,
+  getReminderTemplateKey,
+  isDeliveryRetryDue,
+  MAX_DELIVERY_ATTEMPTS,
+  NotificationChannel,
+  planReminderNotifications,
+} from '../_shared/reminderPlan.ts';
+import { formatTemplateDate, renderTemplate } from '../_shared/messageRender.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Sends due document and service reminders to reminder contacts and retries
+ * earlier failures.
+ *
+ * Scheduled (service role key, no body): every organization, every 30 minutes.
+ * Manual (user token, { organization_id }): that organization, if the caller
+ * belongs to it.
+ *
+ * Messages go out in each contact's language.
+ *
+ * Each contact/reminder/channel is claimed by inserting its dedup key into
+ * notification_deliveries; the unique key means overlapping runs never send
+ * the same reminder twice.
+ */
+type Language = 'en' | 'hi';
+
+interface Summary {
+  planned: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+interface DeliveryRow {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+}
+
+type TemplateKey = ReturnType<typeof getReminderTemplateKey>;
+
+const DEFAULT_TEMPLATES: Record<Language, Record<string, { subject: string; body: string }>> = {
+  en: enLocale.messageTemplates,
+  hi: hiLocale.messageTemplates,
+};
+
+const env = (key: string): string => (globalThis as any).Deno?.env?.get?.(key) ?? '';
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const sendNotification = async (delivery: Pick<DeliveryRow, 'channel' | 'recipient' | 'subject' | 'body'>) => {
+  const response = await fetch(`${env('SUPABASE_URL')}/functions/v1/send-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${env('SUPABASE_SERVICE_ROLE_KEY')}`,
+    },
+    body: JSON.stringify({
+      channel: delivery.channel,
+      to: delivery.recipient,
+      subject: delivery.subject || undefined,
+      body: delivery.body,
+    }),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `send-notification returned ${response.status}`);
+  }
+  return result.message_id as string | undefined;
+};
+
+const sendAndRecord = async (supabase: any, delivery: DeliveryRow): Promise<boolean> => {
+  const attempts = delivery.attempts + 1;
+
+  try {
+    const messageId = await sendNotification(delivery);
+    await supabase
+      .from('notification_deliveries')
+      .update({
+        status: 'sent',
+        attempts,
+        sent_at: new Date().toISOString(),
+        provider_message_id: messageId || null,
+        last_error: null,
+        next_attempt_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', delivery.id);
+    return true;
+  } catch (error) {
+    await supabase
+      .from('notification_deliveries')
+      .update({
+        status: 'failed',
+        attempts,
+        last_error: error instanceof Error ? error.message : String(error),
+        next_attempt_at: attempts < MAX_DELIVERY_ATTEMPTS ? getNextAttemptAt(attempts).toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', delivery.id);
+    return false;
+  }
+};
+
+const loadDueReminders = async (supabase: any, organizationId: string): Promise<DueReminder[]> => {
+  const [vehiclesResult, tasksResult] = await Promise.all([
+    supabase
+      .from('vehicles')
+      .select('id, registration_number, current_odometer, insurance_expiry_date, puc_expiry_date, fitness_expiry_date, permit_expiry_date, tax_paid_upto')
+      .eq('organization_id', organizationId)
+      .neq('status', 'archived'),
+    supabase
+      .from('maintenance_tasks')
+      .select('id, vehicle_id, next_service_due')
+      .eq('organization_id', organizationId)
+      .in('status', ['open', 'in_progress', 'escalated'])
+      .not('next_service_due', 'is', null),
+  ]);
+  if (vehiclesResult.error) throw vehiclesResult.error;
+  if (tasksResult.error) throw tasksResult.error;
+
+  const today = new Date();
+  const vehicles = new Map<string, any>((vehiclesResult.data || []).map((vehicle: any) => [vehicle.id, vehicle]));
+
+  return [
+    ...(vehiclesResult.data || []).flatMap((vehicle: any) => buildVehicleDocumentReminders(vehicle, today)),
+    ...(tasksResult.data || []).flatMap((task: any) =>
+      vehicles.has(task.vehicle_id) ? buildServiceReminders(task, vehicles.get(task.vehicle_id), today) : []
+    ),
+  ];
+};
+
+const dispatchOrganization = async (supabase: any, organizationId: string): Promise<Summary> => {
+  const summary: Summary = { planned: 0, sent: 0, failed: 0, skipped: 0 };
+
+  // Contacts and reminder templates are kept per member who added them
+  const { data: members, error: membersError } = await supabase
+    .from('organization_users')
+    .select('user_id')
+    .eq('organization_id', organizationId);
+  if (membersError) throw membersError;
+  const memberIds = (members || []).map((member: { user_id: string }) => member.user_id);
+  if (memberIds.length === 0) return summary;
+
+  const [reminders, contactsResult, templatesResult, overridesResult] = await Promise.all([
+    loadDueReminders(supabase, organizationId),
+    supabase.from('reminder_contacts').select('*').in('added_by', memberIds),
+    supabase.from('reminder_templates').select('*').in('added_by', memberIds),
+    supabase
+      .from('message_templates')
+      .select('template_key, language, subject, body, is_active')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true),
+  ]);
+  if (contactsResult.error) throw contactsResult.error;
+  if (templatesResult.error) throw templatesResult.error;
+  if (overridesResult.error) throw overridesResult.error;
+
+  const renderMessage = (key: TemplateKey, language: Language, variables: Record<string, string | number>) => {
+    const override = (overridesResult.data || []).find(
+      (t: any) => t.template_key === key && t.language === language
+    );
+    const template = override
+      ? { subject: override.subject || '', body: override.body }
+      : DEFAULT_TEMPLATES[language][key] || DEFAULT_TEMPLATES.en[key];
+    return { subject: renderTemplate(template.subject, variables), body: renderTemplate(template.body, variables) };
+  };
+
+  const planned = planReminderNotifications(reminders, contactsResult.data || [], templatesResult.data || []);
+  summary.planned = planned.length;
+
+  for (const item of planned) {
+    const language: Language = item.contact.language === 'hi' ? 'hi' : 'en';
+    const { subject, body } = renderMessage(getReminderTemplateKey(item.reminderType, item.channel), language, {
+      document_type: getReminderDocumentLabel(item.reminderType),
+      vehicle_registration: item.reminder.entityName,
+      expiry_date: formatTemplateDate(item.reminder.dueDate),
+      due_date: formatTemplateDate(item.reminder.dueDate),
+      days_left: item.reminder.daysLeft ?? '',
+      odometer: item.reminder.currentOdometer ?? '',
+      due_km: item.reminder.dueOdometer ?? '',
+    });
+
+    // The unique (organization_id, dedup_key) claims the delivery; rows already
+    // logged by an earlier or concurrent run come back empty and are skipped
+    const { data: claimed, error } = await supabase
+      .from('notification_deliveries')
+      .upsert({
+        organization_id: organizationId,
+        contact_id: item.contact.id,
+        reminder_id: item.reminder.id,
+        reminder_type: item.reminderType,
+        channel: item.channel,
+        recipient: item.recipient,
+        subject: item.channel === 'email' ? subject : null,
+        body,
+        dedup_key: item.dedupKey,
+        status: 'pending',
+        attempts: 0,
+      }, { onConflict: 'organization_id,dedup_key', ignoreDuplicates: true })
+      .select('*');
+    if (error) throw error;
+
+    if (!claimed || claimed.length === 0) {
+      summary.skipped++;
+      continue;
+    }
+
+    if (await sendAndRecord(supabase, claimed[0])) summary.sent++;
+    else summary.failed++;
+  }
+
+  const { data: failed, error: failedError } = await supabase
+    .from('notification_deliveries')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('status', 'failed')
+    .lt('attempts', MAX_DELIVERY_ATTEMPTS);
+  if (failedError) throw failedError;
+
+  const now = new Date();
+  for (const delivery of (failed || []).filter((d: DeliveryRow) => isDeliveryRetryDue(d, now))) {
+    // The attempts check makes the claim fail if a concurrent run got there first
+    const { data: retry } = await supabase
+      .from('notification_deliveries')
+      .update({ status: 'pending', updated_at: now.toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'failed')
+      .eq('attempts', delivery.attempts)
+      .select('*');
+    if (!retry || retry.length === 0) {
+      summary.skipped++;
+      continue;
+    }
+
+    if (await sendAndRecord(supabase, retry[0])) summary.sent++;
+    else summary.failed++;
+  }
+
+  return summary;
+};
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY');
+    const supabase = createClient(env('SUPABASE_URL'), serviceKey);
+    const body = await req.json().catch(() => ({}));
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+
+    let organizationIds: string[];
+
+    if (token && token === serviceKey) {
+      if (body?.organization_id) {
+        organizationIds = [body.organization_id];
+      } else {
+        const { data, error } = await supabase.from('organizations').select('id');
+        if (error) throw error;
+        organizationIds = (data || []).map((org: { id: string }) => org.id);
+      }
+    } else {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) {
+        return jsonResponse({ success: false, message: 'Not authenticated' }, 401);
+      }
+      if (!body?.organization_id) {
+        return jsonResponse({ success: false, message: 'organization_id is required' }, 400);
+      }
+
+      const { data: membership } = await supabase
+        .from('organization_users')
+        .select('organization_id')
+        .eq('user_id', user.id)
+        .eq('organization_id', body.organization_id)
+        .eq('is_active', true)
+        .maybeSingle();
+      if (!membership) {
+        return jsonResponse({ success: false, message: 'Not a member of this organization' }, 403);
+      }
+
+      organizationIds = [body.organization_id];
+    }
+
+    const runs = [];
+    for (const organizationId of organizationIds) {
+      try {
+        runs.push({ organization_id: organizationId, summary: await dispatchOrganization(supabase, organizationId) });
+      } catch (error) {
+        console.error(`❌ Reminder dispatch failed for ${organizationId}:`, error);
+        runs.push({ organization_id: organizationId, error: error instanceof Error ? error.message : 'Dispatch failed' });
+      }
+    }
+
+    console.log(`✅ Dispatched reminders for ${organizationIds.length} organization(s)`);
+    return jsonResponse({ success: true, runs, timestamp: new Date().toISOString() }, 200);
+  } catch (error) {
+    console.error('❌ Error dispatching reminders:', error);
+    return jsonResponse({ success: false, message: error instanceof Error ? error.message : 'Dispatch failed' }, 500);
+  }
+});
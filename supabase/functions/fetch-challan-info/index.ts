@@ -192,25 +192,7 @@ serve(async (req) => {
         })
         .eq('registration_number', cleanVehicleId);
 
-      // Store challan details in separate table
-      if (data.response.challans.length > 0) {
-        const challansToInsert = data.response.challans.map(challan => ({
-          vehicle_id: cleanVehicleId,
-          challan_no: challan.challan_no,
-          date: challan.date,
-          amount: challan.amount,
-          status: challan.challan_status,
-          offence: challan.offence,
-          state: challan.state,
-          area: challan.area,
-          accused_name: challan.accused_name,
-          offence_details: { offences: challan.offences }
-        }));
-
-        await supabase
-          .from('vehicle_challans')
-          .upsert(challansToInsert, { onConflict: 'vehicle_id,challan_no' });
-      }
+      // Challan history is stored per organization by the app (traffic_challans)
     }
 
     return new Response(
@@ -0,0 +1,146 @@
+// @ts-expect-error Remote import for Deno Edge Function
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error Remote import for Deno Edge Function
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildPMTaskDraft,
+  computePMDueItems,
+  getPMItemsNeedingTasks,
+  PMTask,
+} from '../_shared/pmSchedule.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Raises draft maintenance tasks for preventive maintenance that has fallen
+ * due, for schedules with auto-create and a garage set.
+ *
+ * Scheduled only (service role key): every organization, or the one given as
+ * { organization_id }. Tasks are inserted against the unique (vehicle_id,
+ * pm_schedule_id, pm_due_key), so overlapping runs raise each due period once.
+ */
+const TASK_BATCH_SIZE = 1000;
+
+interface Summary {
+  due: number;
+  created: number;
+}
+
+const env = (key: string): string => (globalThis as any).Deno?.env?.get?.(key) ?? '';
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Maintenance history can run past the API row limit, so it is read in pages
+const loadTasks = async (supabase: any, organizationId: string): Promise<PMTask[]> => {
+  const tasks: PMTask[] = [];
+
+  for (let start = 0; ; start += TASK_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('maintenance_tasks')
+      .select('id, vehicle_id, status, title, parts_replaced, start_date, end_date, odometer_reading, maintenance_service_tasks(tasks)')
+      .eq('organization_id', organizationId)
+      .order('id')
+      .range(start, start + TASK_BATCH_SIZE - 1);
+    if (error) throw error;
+
+    tasks.push(...(data || []).map((task: any) => ({
+      ...task,
+      service_groups: task.maintenance_service_tasks || [],
+    })));
+    if (!data || data.length < TASK_BATCH_SIZE) return tasks;
+  }
+};
+
+const generateForOrganization = async (supabase: any, organizationId: string): Promise<Summary> => {
+  const { data: schedules, error: schedulesError } = await supabase
+    .from('maintenance_schedules')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+    .eq('auto_create_task', true)
+    .not('vendor_id', 'is', null);
+  if (schedulesError) throw schedulesError;
+  if (!schedules || schedules.length === 0) return { due: 0, created: 0 };
+
+  const [vehiclesResult, tasks] = await Promise.all([
+    supabase
+      .from('vehicles')
+      .select('id, registration_number, type, status, current_odometer, vehicle_tags(tag_id)')
+      .eq('organization_id', organizationId)
+      .neq('status', 'archived'),
+    loadTasks(supabase, organizationId),
+  ]);
+  if (vehiclesResult.error) throw vehiclesResult.error;
+
+  const vehicles = (vehiclesResult.data || []).map((vehicle: any) => ({
+    ...vehicle,
+    tags: (vehicle.vehicle_tags || []).map((tag: { tag_id: string }) => ({ id: tag.tag_id })),
+  }));
+  const items = getPMItemsNeedingTasks(computePMDueItems(schedules, vehicles, tasks));
+  if (items.length === 0) return { due: 0, created: 0 };
+
+  const drafts = items.map(item => ({
+    ...buildPMTaskDraft(item),
+    organization_id: organizationId,
+    created_by: item.schedule.created_by || null,
+  }));
+
+  // Periods already raised by an earlier or concurrent run are skipped
+  const { data: created, error } = await supabase
+    .from('maintenance_tasks')
+    .upsert(drafts, { onConflict: 'vehicle_id,pm_schedule_id,pm_due_key', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw error;
+
+  return { due: items.length, created: created?.length || 0 };
+};
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY');
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!token || token !== serviceKey) {
+      return jsonResponse({ success: false, message: 'Not authorized' }, 401);
+    }
+
+    const supabase = createClient(env('SUPABASE_URL'), serviceKey);
+    const body = await req.json().catch(() => ({}));
+
+    let organizationIds: string[];
+    if (body?.organization_id) {
+      organizationIds = [body.organization_id];
+    } else {
+      const { data, error } = await supabase.from('organizations').select('id');
+      if (error) throw error;
+      organizationIds = (data || []).map((org: { id: string }) => org.id);
+    }
+
+    const runs = [];
+    for (const organizationId of organizationIds) {
+      try {
+        runs.push({ organization_id: organizationId, summary: await generateForOrganization(supabase, organizationId) });
+      } catch (error) {
+        console.error(`❌ PM task generation failed for ${organizationId}:`, error);
+        runs.push({ organization_id: organizationId, error: error instanceof Error ? error.message : 'Generation failed' });
+      }
+    }
+
+    console.log(`✅ Generated PM tasks for ${organizationIds.length} organization(s)`);
+    return jsonResponse({ success: true, runs, timestamp: new Date().toISOString() }, 200);
+  } catch (error) {
+    console.error('❌ Error generating PM tasks:', error);
+    return jsonResponse({ success: false, message: error instanceof Error ? error.message : 'Generation failed' }, 500);
+  }
+});
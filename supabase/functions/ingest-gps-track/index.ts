@@ -0,0 +1,213 @@
+// @ts-expect-error Remote import for Deno Edge Function
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error Remote import for Deno Edge Function
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  compareTrackDistance,
+  normalizeTrackTimestamp,
+  parseTrack,
+  summarizeTrack,
+  TrackFormat,
+  TrackPoint,
+} from '../_shared/gpsTrack.ts';
+import { buildTripGeofences, summarizeGeofences } from '../_shared/geofence.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ingest-token',
+};
+
+/**
+ * Receives a GPS track for a trip from a tracker or telematics integration.
+ *
+ * Body:
+ *   trip_id, or registration_number to attach it to the trip the vehicle was
+ *   on when the track starts
+ *   points: [{ lat, lng, timestamp, speed_kmph? }], or format ('gpx' | 'kml' |
+ *   'csv') with the file content
+ *   overspeed_limit_kmph (optional)
+ *
+ * The track is checked against geofences around the trip's warehouse and
+ * destinations, and flagged where the entered trip dates disagree.
+ *
+ * Trackers and integrations send the token an admin issued for them in the
+ * x-ingest-token header (with the anon key as Authorization), limited to the
+ * token's organization and, if set, its vehicle. Users call with their own
+ * token, limited to their organizations' trips.
+ */
+const FORMATS: TrackFormat[] = ['gpx', 'kml', 'csv'];
+
+const env = (key: string): string => (globalThis as any).Deno?.env?.get?.(key) ?? '';
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Tokens are stored as hex SHA-256, matching create_gps_ingest_token()
+const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const readPoints = (body: Record<string, any>): TrackPoint[] => {
+  if (Array.isArray(body.points)) {
+    return body.points
+      .map((point: Record<string, unknown>) => ({
+        lat: Number(point.lat ?? point.latitude),
+        lng: Number(point.lng ?? point.lon ?? point.longitude),
+        timestamp: normalizeTrackTimestamp(point.timestamp ?? point.time),
+        speed_kmph: point.speed_kmph != null ? Number(point.speed_kmph) : null,
+      }))
+      .filter((point: TrackPoint) => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+  }
+  if (FORMATS.includes(body.format) && typeof body.content === 'string') {
+    return parseTrack(body.format, body.content);
+  }
+  return [];
+};
+
+const findTrip = async (supabase: any, body: Record<string, any>, organizationIds: string[], startedAt: string | null) => {
+  const columns = 'id, organization_id, vehicle_id, warehouse_id, start_km, end_km, destinations, trip_start_date, trip_end_date';
+
+  if (body.trip_id) {
+    const { data } = await supabase
+      .from('trips')
+      .select(columns)
+      .eq('id', body.trip_id)
+      .in('organization_id', organizationIds)
+      .maybeSingle();
+    return data;
+  }
+
+  if (!body.registration_number || !startedAt) return null;
+
+  const { data: vehicle } = await supabase
+    .from('vehicles')
+    .select('id')
+    .eq('registration_number', String(body.registration_number).toUpperCase().replace(/\s+/g, ''))
+    .in('organization_id', organizationIds)
+    .maybeSingle();
+  if (!vehicle) return null;
+
+  const { data } = await supabase
+    .from('trips')
+    .select(columns)
+    .eq('vehicle_id', vehicle.id)
+    .lte('trip_start_date', startedAt)
+    .gte('trip_end_date', startedAt.slice(0, 10))
+    .order('trip_start_date', { ascending: false })
+    .limit(1);
+  return data?.[0] ?? null;
+};
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY');
+    const supabase = createClient(env('SUPABASE_URL'), serviceKey);
+    const body = await req.json().catch(() => ({}));
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    const ingestToken = req.headers.get('x-ingest-token');
+
+    let organizationIds: string[];
+    let vehicleId: string | null = null;
+    let userId: string | null = null;
+
+    if (ingestToken) {
+      const { data: device, error: deviceError } = await supabase
+        .from('gps_ingest_tokens')
+        .select('id, organization_id, vehicle_id')
+        .eq('token_hash', await hashToken(ingestToken))
+        .is('revoked_at', null)
+        .maybeSingle();
+      if (deviceError) throw deviceError;
+      if (!device) {
+        return jsonResponse({ success: false, message: 'Invalid or revoked ingest token' }, 401);
+      }
+      organizationIds = [device.organization_id];
+      vehicleId = device.vehicle_id;
+
+      await supabase
+        .from('gps_ingest_tokens')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', device.id);
+    } else {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) {
+        return jsonResponse({ success: false, message: 'Not authenticated' }, 401);
+      }
+      const { data: memberships } = await supabase
+        .from('organization_users')
+        .select('organization_id')
+        .eq('user_id', user.id)
+        .eq('is_active', true);
+      organizationIds = (memberships || []).map((m: { organization_id: string }) => m.organization_id);
+      userId = user.id;
+    }
+
+    const parsed = readPoints(body);
+    if (parsed.length < 2) {
+      return jsonResponse({ success: false, message: 'At least two track points are required' }, 400);
+    }
+
+    const { analysis, points } = summarizeTrack(parsed, {
+      overspeedLimitKmph: body.overspeed_limit_kmph ? Number(body.overspeed_limit_kmph) : undefined,
+    });
+
+    const trip = await findTrip(supabase, body, organizationIds, analysis.started_at);
+    // A token issued for one vehicle cannot push tracks for another
+    if (!trip || (vehicleId && trip.vehicle_id !== vehicleId)) {
+      return jsonResponse({ success: false, message: 'No matching trip found' }, 404);
+    }
+
+    const [{ data: warehouse }, { data: destinations }] = await Promise.all([
+      supabase.from('warehouses').select('id, name, latitude, longitude').eq('id', trip.warehouse_id).maybeSingle(),
+      supabase.from('destinations').select('id, name, latitude, longitude, type, standard_distance').in('id', trip.destinations || []),
+    ]);
+    const geofences = buildTripGeofences(warehouse, destinations || []);
+    const geofenceSummary = summarizeGeofences(points, geofences, trip);
+
+    const { data: track, error } = await supabase
+      .from('trip_gps_tracks')
+      .insert({
+        organization_id: trip.organization_id,
+        trip_id: trip.id,
+        vehicle_id: trip.vehicle_id,
+        source: 'push',
+        file_name: body.file_name ?? null,
+        ...analysis,
+        ...geofenceSummary,
+        points,
+        created_by: userId,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    const standardKm = (destinations || []).reduce(
+      (sum: number, d: { standard_distance: number | null }) => sum + (Number(d.standard_distance) || 0),
+      0
+    );
+
+    console.log(`✅ Ingested ${analysis.point_count} GPS points for trip ${trip.id}`);
+    return jsonResponse({
+      success: true,
+      track_id: track.id,
+      trip_id: trip.id,
+      analysis,
+      geofences: geofenceSummary,
+      comparison: compareTrackDistance(analysis.distance_km, trip, standardKm),
+    }, 200);
+  } catch (error) {
+    console.error('❌ Error ingesting GPS track:', error);
+    return jsonResponse({ success: false, message: error instanceof Error ? error.message : 'Track ingestion failed' }, 500);
+  }
+});
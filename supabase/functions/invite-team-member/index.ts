@@ -0,0 +1,161 @@
+// @ts-expect-error Remote import for Deno Edge Function
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error Remote import for Deno Edge Function
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Invites a user to an organization.
+ *
+ * Body: organization_id, email, role, warehouse_ids (optional, null for all),
+ * redirect_to (optional, where the invitation link lands)
+ *
+ * New users get an invitation email from Supabase Auth and their membership
+ * is created now, so the role and warehouses can be adjusted before they
+ * sign in. Users who already have an account are not added: they get a
+ * pending invitation and join once they accept it in the app. Only active
+ * admins and owners may invite, and only owners may invite another owner.
+ */
+const ROLES = ['admin', 'manager', 'data_entry', 'owner'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const env = (key: string): string => (globalThis as any).Deno?.env?.get?.(key) ?? '';
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const getInviterRole = async (supabase: any, userId: string, organizationId: string): Promise<string | null> => {
+  const { data: membership } = await supabase
+    .from('organization_users')
+    .select('role, is_active')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  if (membership?.is_active && ['admin', 'owner'].includes(membership.role)) return membership.role;
+
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('id', organizationId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+  return organization ? 'owner' : null;
+};
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(env('SUPABASE_URL'), env('SUPABASE_SERVICE_ROLE_KEY'));
+    const body = await req.json().catch(() => ({}));
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ success: false, message: 'Not authenticated' }, 401);
+    }
+
+    const organizationId = body?.organization_id;
+    const email = String(body?.email || '').trim().toLowerCase();
+    const role = String(body?.role || '');
+    const warehouseIds = Array.isArray(body?.warehouse_ids) && body.warehouse_ids.length > 0 ? body.warehouse_ids : null;
+
+    if (!organizationId || !EMAIL_PATTERN.test(email) || !ROLES.includes(role)) {
+      return jsonResponse({ success: false, message: 'organization_id, a valid email and role are required' }, 400);
+    }
+
+    const inviterRole = await getInviterRole(supabase, user.id, organizationId);
+    if (!inviterRole) {
+      return jsonResponse({ success: false, message: 'Only admins and owners can invite team members' }, 403);
+    }
+    if (role === 'owner' && inviterRole !== 'owner') {
+      return jsonResponse({ success: false, message: 'Only an owner can invite another owner' }, 403);
+    }
+
+    const { data: existingUserId } = await supabase.rpc('find_user_id_by_email', { p_email: email });
+    let invitedUserId: string | null = existingUserId ?? null;
+    const existingUser = !!invitedUserId;
+
+    if (invitedUserId) {
+      const { data: membership } = await supabase
+        .from('organization_users')
+        .select('user_id')
+        .eq('user_id', invitedUserId)
+        .eq('organization_id', organizationId)
+        .maybeSingle();
+      if (membership) {
+        return jsonResponse({ success: false, message: `${email} is already a member` }, 409);
+      }
+    } else {
+      const { data: invited, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(email, {
+        redirectTo: body?.redirect_to || undefined,
+        data: { invited_to_organization: organizationId },
+      });
+      if (inviteError || !invited?.user) {
+        return jsonResponse({ success: false, message: inviteError?.message || 'Could not send the invitation' }, 502);
+      }
+      invitedUserId = invited.user.id;
+    }
+
+    if (!existingUser) {
+      const { error: memberError } = await supabase.from('organization_users').insert({
+        user_id: invitedUserId,
+        organization_id: organizationId,
+        role,
+        warehouse_ids: warehouseIds,
+        invited_by: user.id,
+      });
+      if (memberError) {
+        // Do not leave an account behind that cannot reach the organization
+        await supabase.auth.admin.deleteUser(invitedUserId);
+        throw memberError;
+      }
+    }
+
+    // Existing accounts join only through this invitation, so it must be saved
+    const { data: invitation, error: invitationError } = await supabase
+      .from('organization_invitations')
+      .insert({
+        organization_id: organizationId,
+        email,
+        role,
+        warehouse_ids: warehouseIds,
+        user_id: invitedUserId,
+        status: 'sent',
+        invited_by: user.id,
+      })
+      .select('*')
+      .single();
+    if (invitationError) {
+      if (existingUser) {
+        const duplicate = invitationError.code === '23505';
+        return jsonResponse({
+          success: false,
+          message: duplicate ? `${email} already has a pending invitation` : invitationError.message,
+        }, duplicate ? 409 : 500);
+      }
+      console.error('⚠️ Member added but invitation record failed:', invitationError);
+    }
+
+    console.log(`✅ Invited ${existingUser ? 'existing user ' : ''}${email} to ${organizationId} as ${role}`);
+    return jsonResponse({
+      success: true,
+      user_id: invitedUserId,
+      existing_user: existingUser,
+      invitation: invitation ?? null,
+    }, 200);
+  } catch (error) {
+    console.error('❌ Error inviting team member:', error);
+    return jsonResponse({ success: false, message: error instanceof Error ? error.message : 'Invitation failed' }, 500);
+  }
+});
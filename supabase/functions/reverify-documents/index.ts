@@ -0,0 +1,361 @@
+// @ts-expect-error Remote import for Deno Edge Function
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error Remote import for Deno Edge Function
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  compareDriverWithDl,
+  compareVehicleWithRc,
+  DocumentFieldDiff,
+} from '../_shared/documentDiff.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Re-verifies RC details of active vehicles and DL details of active drivers.
+ *
+ * Scheduled (service role key, no body): every organization.
+ * Manual (user token, { organization_id }): that organization, if the caller
+ * is an active admin or owner of it.
+ *
+ * Records least recently checked first and stops at MAX_RECORDS_PER_TYPE per
+ * organization so a run fits the function time limit; the rest are picked up
+ * by the next run. Every record taken is stamped as attempted, so ones whose
+ * lookup fails move to the back of the queue instead of blocking it.
+ */
+const MAX_RECORDS_PER_TYPE = 100;
+const BATCH_SIZE = 5;
+const BATCH_DELAY_MS = 500;
+
+type EntityType = 'vehicle' | 'driver';
+
+interface CheckResult {
+  result: 'matched' | 'mismatch' | 'failed';
+  diffs: DocumentFieldDiff[];
+  error?: string;
+}
+
+interface ReviewItemRow {
+  id: string;
+  entity_type: EntityType;
+  vehicle_id: string | null;
+  driver_id: string | null;
+  field: string;
+  government_value: unknown;
+  status: 'open' | 'dismissed';
+}
+
+const env = (key: string): string => (globalThis as any).Deno?.env?.get?.(key) ?? '';
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stored yyyy-MM-dd to the DD-MM-YYYY fetch-driver-details expects
+const toDlDob = (date: string) => date.slice(0, 10).split('-').reverse().join('-');
+
+const callLookup = async (name: string, body: Record<string, string>) => {
+  const response = await fetch(`${env('SUPABASE_URL')}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${env('SUPABASE_SERVICE_ROLE_KEY')}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `${name} returned ${response.status}`);
+  }
+  return result;
+};
+
+const checkVehicle = async (vehicle: Record<string, any>): Promise<CheckResult> => {
+  try {
+    const result = await callLookup('fetch-rc-details', { registration_number: vehicle.registration_number });
+    const diffs = compareVehicleWithRc(vehicle, result.data?.response || result.data || {});
+    return { result: diffs.length > 0 ? 'mismatch' : 'matched', diffs };
+  } catch (error) {
+    return { result: 'failed', diffs: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const checkDriver = async (driver: Record<string, any>): Promise<CheckResult> => {
+  try {
+    const result = await callLookup('fetch-driver-details', {
+      dl_no: driver.license_number,
+      dob: toDlDob(driver.date_of_birth),
+    });
+    const diffs = compareDriverWithDl(driver, result.data || {});
+    return { result: diffs.length > 0 ? 'mismatch' : 'matched', diffs };
+  } catch (error) {
+    return { result: 'failed', diffs: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Open a review item per disagreeing field, refresh ones already open and
+ * close those the latest check no longer disagrees on. A field dismissed for
+ * the same government value stays dismissed.
+ */
+const syncReviewItems = async (
+  supabase: any,
+  organizationId: string,
+  entity: { type: EntityType; id: string; reference: string },
+  verificationId: string,
+  diffs: DocumentFieldDiff[],
+  existing: ReviewItemRow[]
+) => {
+  const now = new Date().toISOString();
+  const idColumn = entity.type === 'vehicle' ? 'vehicle_id' : 'driver_id';
+  const mine = existing.filter(item => item.entity_type === entity.type && item[idColumn] === entity.id);
+  const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  for (const diff of diffs) {
+    const open = mine.find(item => item.status === 'open' && item.field === diff.field);
+    if (open) {
+      await supabase
+        .from('document_review_items')
+        .update({
+          verification_id: verificationId,
+          stored_value: diff.stored_value,
+          government_value: diff.government_value,
+          last_detected_at: now,
+        })
+        .eq('id', open.id);
+      continue;
+    }
+
+    const dismissed = mine.some(item =>
+      item.status === 'dismissed' && item.field === diff.field && sameValue(item.government_value, diff.government_value)
+    );
+    if (dismissed) continue;
+
+    await supabase.from('document_review_items').insert({
+      organization_id: organizationId,
+      verification_id: verificationId,
+      entity_type: entity.type,
+      [idColumn]: entity.id,
+      reference: entity.reference,
+      field: diff.field,
+      stored_value: diff.stored_value,
+      government_value: diff.government_value,
+      first_detected_at: now,
+      last_detected_at: now,
+    });
+  }
+
+  const settled = mine.filter(item => item.status === 'open' && !diffs.some(diff => diff.field === item.field));
+  if (settled.length > 0) {
+    await supabase
+      .from('document_review_items')
+      .update({ status: 'resolved', resolved_at: now, resolution_note: 'Matched on re-verification' })
+      .in('id', settled.map(item => item.id));
+  }
+};
+
+const verifyOrganization = async (
+  supabase: any,
+  organizationId: string,
+  trigger: 'scheduled' | 'manual',
+  userId: string | null
+) => {
+  const { data: run, error: runError } = await supabase
+    .from('document_verification_runs')
+    .insert({ organization_id: organizationId, trigger, created_by: userId })
+    .select()
+    .single();
+  if (runError) throw runError;
+
+  const counts = { vehicles_checked: 0, drivers_checked: 0, mismatches_found: 0, failures: 0, skipped: 0 };
+
+  try {
+    const [vehiclesResult, driversResult, itemsResult] = await Promise.all([
+      supabase
+        .from('vehicles')
+        .select('id, registration_number, insurance_expiry_date, puc_expiry_date, fitness_expiry_date, permit_expiry_date, tax_paid_upto, owner_name')
+        .eq('organization_id', organizationId)
+        .eq('status', 'active')
+        .order('document_verification_attempted_at', { ascending: true, nullsFirst: true })
+        .limit(MAX_RECORDS_PER_TYPE),
+      supabase
+        .from('drivers')
+        .select('id, name, license_number, date_of_birth, license_expiry, vehicle_class')
+        .eq('organization_id', organizationId)
+        .eq('status', 'active')
+        .order('document_verification_attempted_at', { ascending: true, nullsFirst: true })
+        .limit(MAX_RECORDS_PER_TYPE),
+      supabase
+        .from('document_review_items')
+        .select('id, entity_type, vehicle_id, driver_id, field, government_value, status')
+        .eq('organization_id', organizationId)
+        .in('status', ['open', 'dismissed']),
+    ]);
+    if (vehiclesResult.error) throw vehiclesResult.error;
+    if (driversResult.error) throw driversResult.error;
+    if (itemsResult.error) throw itemsResult.error;
+
+    const existingItems: ReviewItemRow[] = itemsResult.data || [];
+    const drivers = (driversResult.data || []).filter((driver: any) => driver.license_number && driver.date_of_birth);
+    counts.skipped = (driversResult.data || []).length - drivers.length;
+
+    const attemptedAt = new Date().toISOString();
+    const vehicleIds = (vehiclesResult.data || []).map((record: any) => record.id);
+    const driverIds = (driversResult.data || []).map((record: any) => record.id);
+    if (vehicleIds.length > 0) {
+      await supabase.from('vehicles').update({ document_verification_attempted_at: attemptedAt }).in('id', vehicleIds);
+    }
+    if (driverIds.length > 0) {
+      await supabase.from('drivers').update({ document_verification_attempted_at: attemptedAt }).in('id', driverIds);
+    }
+
+    const targets = [
+      ...(vehiclesResult.data || []).map((record: any) => ({
+        type: 'vehicle' as EntityType, record, reference: record.registration_number,
+      })),
+      ...drivers.map((record: any) => ({
+        type: 'driver' as EntityType, record, reference: record.license_number,
+      })),
+    ];
+
+    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
+      const batch = targets.slice(i, i + BATCH_SIZE);
+
+      await Promise.all(batch.map(async (target) => {
+        const check = target.type === 'vehicle' ? await checkVehicle(target.record) : await checkDriver(target.record);
+        const idColumn = target.type === 'vehicle' ? 'vehicle_id' : 'driver_id';
+
+        const { data: verification, error } = await supabase
+          .from('document_verifications')
+          .insert({
+            organization_id: organizationId,
+            run_id: run.id,
+            entity_type: target.type,
+            [idColumn]: target.record.id,
+            reference: target.reference,
+            result: check.result,
+            diffs: check.diffs,
+            error: check.error ?? null,
+          })
+          .select('id')
+          .single();
+        if (error) throw error;
+
+        if (target.type === 'vehicle') counts.vehicles_checked++;
+        else counts.drivers_checked++;
+
+        if (check.result === 'failed') {
+          counts.failures++;
+          return;
+        }
+
+        counts.mismatches_found += check.diffs.length;
+        await syncReviewItems(
+          supabase,
+          organizationId,
+          { type: target.type, id: target.record.id, reference: target.reference },
+          verification.id,
+          check.diffs,
+          existingItems
+        );
+        await supabase
+          .from(target.type === 'vehicle' ? 'vehicles' : 'drivers')
+          .update({ document_last_verified_at: new Date().toISOString() })
+          .eq('id', target.record.id);
+      }));
+
+      if (i + BATCH_SIZE < targets.length) {
+        await sleep(BATCH_DELAY_MS);
+      }
+    }
+
+    await supabase
+      .from('document_verification_runs')
+      .update({ ...counts, status: 'completed', finished_at: new Date().toISOString() })
+      .eq('id', run.id);
+
+    return { organization_id: organizationId, run_id: run.id, ...counts };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as any)?.message ?? error);
+    await supabase
+      .from('document_verification_runs')
+      .update({ ...counts, status: 'failed', error: message, finished_at: new Date().toISOString() })
+      .eq('id', run.id);
+    throw error;
+  }
+};
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY');
+    const supabase = createClient(env('SUPABASE_URL'), serviceKey);
+    const body = await req.json().catch(() => ({}));
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+
+    let organizationIds: string[];
+    let userId: string | null = null;
+
+    if (token && token === serviceKey) {
+      if (body?.organization_id) {
+        organizationIds = [body.organization_id];
+      } else {
+        const { data, error } = await supabase.from('organizations').select('id');
+        if (error) throw error;
+        organizationIds = (data || []).map((org: { id: string }) => org.id);
+      }
+    } else {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) {
+        return jsonResponse({ success: false, message: 'Not authenticated' }, 401);
+      }
+      if (!body?.organization_id) {
+        return jsonResponse({ success: false, message: 'organization_id is required' }, 400);
+      }
+
+      const { data: membership } = await supabase
+        .from('organization_users')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('organization_id', body.organization_id)
+        .eq('is_active', true)
+        .maybeSingle();
+      if (!membership) {
+        return jsonResponse({ success: false, message: 'Not a member of this organization' }, 403);
+      }
+      if (!['owner', 'admin'].includes(membership.role)) {
+        return jsonResponse({ success: false, message: 'Only admins can re-verify documents' }, 403);
+      }
+
+      organizationIds = [body.organization_id];
+      userId = user.id;
+    }
+
+    const trigger = userId ? 'manual' : 'scheduled';
+    const runs = [];
+    for (const organizationId of organizationIds) {
+      try {
+        runs.push(await verifyOrganization(supabase, organizationId, trigger, userId));
+      } catch (error) {
+        console.error(`❌ Re-verification failed for ${organizationId}:`, error);
+        runs.push({ organization_id: organizationId, error: error instanceof Error ? error.message : 'Run failed' });
+      }
+    }
+
+    console.log(`✅ Re-verified documents for ${organizationIds.length} organization(s)`);
+    return jsonResponse({ success: true, runs, timestamp: new Date().toISOString() }, 200);
+  } catch (error) {
+    console.error('❌ Error re-verifying documents:', error);
+    return jsonResponse({ success: false, message: error instanceof Error ? error.message : 'Re-verification failed' }, 500);
+  }
+});
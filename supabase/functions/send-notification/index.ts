@@ -0,0 +1,180 @@
+// @ts-expect-error Remote import for Deno Edge Function
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error Remote import for Deno Edge Function
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type Channel = 'email' | 'sms' | 'whatsapp';
+
+interface OutboundMessage {
+  channel: Channel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+interface NotificationProvider {
+  name: string;
+  isConfigured: () => boolean;
+  send: (message: OutboundMessage) => Promise<{ messageId?: string }>;
+}
+
+const env = (key: string): string | undefined => (globalThis as any).Deno?.env?.get?.(key);
+
+// Indian numbers are stored as 10 digits; gateways expect the country code
+const toInternationalNumber = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 10 ? `91${digits}` : digits;
+};
+
+/**
+ * SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM
+ */
+const smtpProvider: NotificationProvider = {
+  name: 'smtp',
+  isConfigured: () => !!(env('SMTP_HOST') && env('SMTP_USER') && env('SMTP_PASS')),
+  send: async (message) => {
+    const port = Number(env('SMTP_PORT') || 465);
+    const client = new SMTPClient({
+      connection: {
+        hostname: env('SMTP_HOST'),
+        port,
+        tls: port === 465,
+        auth: { username: env('SMTP_USER'), password: env('SMTP_PASS') },
+      },
+    });
+
+    try {
+      await client.send({
+        from: env('SMTP_FROM') || env('SMTP_USER'),
+        to: message.to,
+        subject: message.subject || 'Reminder',
+        content: message.body,
+      });
+    } finally {
+      await client.close();
+    }
+
+    return {};
+  },
+};
+
+/**
+ * Generic HTTP SMS gateway: SMS_GATEWAY_URL, SMS_GATEWAY_API_KEY, SMS_SENDER_ID.
+ * Posts { to, message, sender } as JSON with a bearer token.
+ */
+const httpSmsProvider: NotificationProvider = {
+  name: 'http_sms',
+  isConfigured: () => !!env('SMS_GATEWAY_URL'),
+  send: async (message) => {
+    const response = await fetch(env('SMS_GATEWAY_URL')!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(env('SMS_GATEWAY_API_KEY') && { Authorization: `Bearer ${env('SMS_GATEWAY_API_KEY')}` }),
+      },
+      body: JSON.stringify({
+        to: toInternationalNumber(message.to),
+        message: message.body,
+        sender: env('SMS_SENDER_ID'),
+      }),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`SMS gateway error: ${response.status} - ${text.substring(0, 200)}`);
+    }
+
+    let messageId: string | undefined;
+    try {
+      const data = JSON.parse(text);
+      messageId = data.message_id || data.id;
+    } catch {
+      // Some gateways answer with plain text
+    }
+
+    return { messageId };
+  },
+};
+
+/**
+ * WhatsApp Business Cloud API (or a compatible webhook):
+ * WHATSAPP_WEBHOOK_URL, WHATSAPP_TOKEN
+ */
+const whatsappProvider: NotificationProvider = {
+  name: 'whatsapp_webhook',
+  isConfigured: () => !!(env('WHATSAPP_WEBHOOK_URL') && env('WHATSAPP_TOKEN')),
+  send: async (message) => {
+    const response = await fetch(env('WHATSAPP_WEBHOOK_URL')!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${env('WHATSAPP_TOKEN')}`,
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: toInternationalNumber(message.to),
+        type: 'text',
+        text: { body: message.body },
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`WhatsApp error: ${response.status} - ${data?.error?.message || 'request failed'}`);
+    }
+
+    return { messageId: data?.messages?.[0]?.id };
+  },
+};
+
+const providers: Record<Channel, NotificationProvider> = {
+  email: smtpProvider,
+  sms: httpSmsProvider,
+  whatsapp: whatsappProvider,
+};
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Only the dispatch-reminders function sends; browsers never call this directly
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token || token !== env('SUPABASE_SERVICE_ROLE_KEY')) {
+    return jsonResponse({ success: false, message: 'Not authorized' }, 401);
+  }
+
+  try {
+    const message: OutboundMessage = await req.json();
+    const provider = providers[message.channel];
+
+    if (!provider || !message.to || !message.body) {
+      return jsonResponse({ success: false, message: 'channel, to and body are required' }, 400);
+    }
+
+    if (!provider.isConfigured()) {
+      console.error(`⚠️ ${provider.name} provider is not configured`);
+      return jsonResponse({ success: false, message: `${message.channel} delivery is not configured` }, 503);
+    }
+
+    const { messageId } = await provider.send(message);
+    console.log(`✅ Sent ${message.channel} via ${provider.name}`);
+
+    return jsonResponse({ success: true, provider: provider.name, message_id: messageId }, 200);
+  } catch (error) {
+    console.error('❌ Error sending notification:', error);
+    return jsonResponse({ success: false, message: error instanceof Error ? error.message : 'Send failed' }, 502);
+  }
+});
@@ -0,0 +1,135 @@
+/*
+  # Create contract_rates table
+
+  Contract rates were previously kept in browser localStorage by
+  ContractRatesManager, so they were lost between devices and could not be
+  shared within an organization. This table stores them per organization.
+
+  1. Schema Changes
+    - Create contract_rates table with validity window, route/vehicle-type
+      matching, minimum guarantee and fuel adjustment clause
+    - Add contract_rate_id to trips so the applied contract is recorded
+    - Add indexes for rate resolution lookups
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's contracts
+*/
+
+-- =====================================================
+-- STEP 1: Create contract_rates table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.contract_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  customer_id UUID,
+  customer_name VARCHAR(255) NOT NULL,
+  route VARCHAR(255),
+  warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE SET NULL,
+  destination_id UUID REFERENCES public.destinations(id) ON DELETE SET NULL,
+  vehicle_type VARCHAR(50),
+  rate_type VARCHAR(20) NOT NULL CHECK (rate_type IN ('per_km', 'per_ton', 'per_trip')),
+  rate NUMERIC(12,2) NOT NULL CHECK (rate >= 0),
+  valid_from DATE NOT NULL,
+  valid_to DATE,
+  min_guarantee NUMERIC(12,2),
+  fuel_adjustment BOOLEAN DEFAULT false,
+  base_fuel_price NUMERIC(10,2),
+  fuel_cost_share NUMERIC(5,2),
+  notes TEXT,
+  active BOOLEAN DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT contract_rates_valid_window CHECK (valid_to IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_rates_org_validity
+  ON public.contract_rates (organization_id, valid_from, valid_to)
+  WHERE active = true;
+
+CREATE INDEX IF NOT EXISTS idx_contract_rates_customer
+  ON public.contract_rates (customer_id);
+
+-- =====================================================
+-- STEP 2: Record the applied contract on trips
+-- =====================================================
+ALTER TABLE public.trips
+ADD COLUMN IF NOT EXISTS contract_rate_id UUID REFERENCES public.contract_rates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trips_contract_rate_id
+  ON public.trips (contract_rate_id);
+
+-- =====================================================
+-- STEP 3: Keep updated_at current
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_contract_rates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_contract_rates_updated_at ON public.contract_rates;
+CREATE TRIGGER trg_update_contract_rates_updated_at
+  BEFORE UPDATE ON public.contract_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_contract_rates_updated_at();
+
+-- =====================================================
+-- STEP 4: Enable RLS
+-- =====================================================
+ALTER TABLE public.contract_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view contract rates"
+ON public.contract_rates
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert contract rates"
+ON public.contract_rates
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update contract rates"
+ON public.contract_rates
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete contract rates"
+ON public.contract_rates
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 5: Documentation
+-- =====================================================
+COMMENT ON TABLE public.contract_rates IS
+  'Customer contract rates per organization, resolved against trips by validity date, route and vehicle type';
+
+COMMENT ON COLUMN public.contract_rates.fuel_cost_share IS
+  'Percentage of the rate linked to diesel price; adjusted proportionally to the difference from base_fuel_price';
+
+COMMENT ON COLUMN public.trips.contract_rate_id IS
+  'Contract rate used to compute income_amount for this trip';
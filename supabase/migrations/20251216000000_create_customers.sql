@@ -0,0 +1,139 @@
+/*
+  # Create customers table
+
+  Customer master for billing and P&L. Until now the P&L reports used the
+  first trip destination as a stand-in for the customer.
+
+  1. Schema Changes
+    - Create customers table (GSTIN, billing address, credit terms, contacts)
+    - Add customer_id to trips
+    - Link contract_rates.customer_id to customers
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's customers
+*/
+
+-- =====================================================
+-- STEP 1: Create customers table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.customers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  gstin VARCHAR(15),
+  pan VARCHAR(10),
+  billing_address TEXT,
+  city VARCHAR(100),
+  state VARCHAR(100),
+  pincode VARCHAR(10),
+  credit_days INTEGER DEFAULT 30 CHECK (credit_days >= 0),
+  credit_limit NUMERIC(14,2),
+  contacts JSONB DEFAULT '[]'::jsonb,
+  notes TEXT,
+  active BOOLEAN DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_organization
+  ON public.customers (organization_id, name);
+
+-- A GSTIN identifies one customer per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_org_gstin
+  ON public.customers (organization_id, gstin)
+  WHERE gstin IS NOT NULL;
+
+-- =====================================================
+-- STEP 2: Link trips and contract rates to customers
+-- =====================================================
+ALTER TABLE public.trips
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trips_customer_id
+  ON public.trips (customer_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'contract_rates' AND constraint_name = 'contract_rates_customer_id_fkey'
+  ) THEN
+    -- Contracts created before the customer master used free-text names only
+    UPDATE public.contract_rates
+    SET customer_id = NULL
+    WHERE customer_id IS NOT NULL
+      AND customer_id NOT IN (SELECT id FROM public.customers);
+
+    ALTER TABLE public.contract_rates
+    ADD CONSTRAINT contract_rates_customer_id_fkey
+    FOREIGN KEY (customer_id) REFERENCES public.customers(id) ON DELETE SET NULL;
+
+    RAISE NOTICE 'Linked contract_rates.customer_id to customers';
+  END IF;
+END $$;
+
+-- =====================================================
+-- STEP 3: Keep updated_at current
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_customers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_customers_updated_at ON public.customers;
+CREATE TRIGGER trg_update_customers_updated_at
+  BEFORE UPDATE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customers_updated_at();
+
+-- =====================================================
+-- STEP 4: Enable RLS
+-- =====================================================
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view customers"
+ON public.customers
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert customers"
+ON public.customers
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update customers"
+ON public.customers
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 5: Documentation
+-- =====================================================
+COMMENT ON TABLE public.customers IS
+  'Customer master per organization used for trip billing and customer-level P&L';
+
+COMMENT ON COLUMN public.customers.contacts IS
+  'Array of {name, role, phone, email, is_primary} contact persons';
+
+COMMENT ON COLUMN public.trips.customer_id IS
+  'Customer billed for this trip';
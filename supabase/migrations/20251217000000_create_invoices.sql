@@ -0,0 +1,222 @@
+/*
+  # Create freight invoices
+
+  GST tax invoices raised against completed trips. Invoices start as drafts
+  and only receive a number when issued, so the sequence has no gaps.
+
+  1. Schema Changes
+    - Create invoices table (GST split, SAC code, reverse charge, payment status)
+    - Create invoice_items table (one line per trip)
+    - Create invoice_sequences table and next_invoice_number() for gapless numbering
+    - Add invoice_id to trips
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's invoices
+*/
+
+-- =====================================================
+-- STEP 1: Create invoices table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  customer_id UUID NOT NULL REFERENCES public.customers(id),
+  invoice_number VARCHAR(30),
+  invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  financial_year VARCHAR(7) NOT NULL,
+  supplier_gstin VARCHAR(15),
+  customer_gstin VARCHAR(15),
+  place_of_supply VARCHAR(2),
+  sac_code VARCHAR(8) NOT NULL DEFAULT '9965',
+  gst_rate NUMERIC(5,2) NOT NULL DEFAULT 5 CHECK (gst_rate >= 0),
+  reverse_charge BOOLEAN NOT NULL DEFAULT true,
+  taxable_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  cgst_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  sgst_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  igst_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  amount_paid NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'issued', 'partially_paid', 'paid')),
+  issued_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_org_number
+  ON public.invoices (organization_id, invoice_number)
+  WHERE invoice_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_customer
+  ON public.invoices (organization_id, customer_id, invoice_date DESC);
+
+-- =====================================================
+-- STEP 2: Create invoice_items table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.invoice_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  sac_code VARCHAR(8) NOT NULL DEFAULT '9965',
+  quantity NUMERIC(12,2) NOT NULL DEFAULT 1,
+  unit VARCHAR(10) NOT NULL DEFAULT 'trip',
+  rate NUMERIC(14,2) NOT NULL DEFAULT 0,
+  amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice
+  ON public.invoice_items (invoice_id);
+
+-- =====================================================
+-- STEP 3: Link trips to invoices
+-- =====================================================
+ALTER TABLE public.trips
+ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trips_invoice_id
+  ON public.trips (invoice_id);
+
+-- =====================================================
+-- STEP 4: Gapless invoice numbering per financial year
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+  organization_id UUID NOT NULL,
+  financial_year VARCHAR(7) NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (organization_id, financial_year)
+);
+
+CREATE OR REPLACE FUNCTION public.next_invoice_number(
+  p_organization_id UUID,
+  p_financial_year VARCHAR
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE user_id = auth.uid() AND organization_id = p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  INSERT INTO public.invoice_sequences (organization_id, financial_year, last_number)
+  VALUES (p_organization_id, p_financial_year, 1)
+  ON CONFLICT (organization_id, financial_year)
+  DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  RETURN v_next;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.next_invoice_number(UUID, VARCHAR) TO authenticated;
+
+-- =====================================================
+-- STEP 5: Keep updated_at current
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_invoices_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_invoices_updated_at ON public.invoices;
+CREATE TRIGGER trg_update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_invoices_updated_at();
+
+-- =====================================================
+-- STEP 6: Enable RLS
+-- =====================================================
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view invoices"
+ON public.invoices
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert invoices"
+ON public.invoices
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update invoices"
+ON public.invoices
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- Only drafts can be deleted; issued invoices must stay in the sequence
+CREATE POLICY "Org members can delete draft invoices"
+ON public.invoices
+FOR DELETE
+USING (
+  status = 'draft'
+  AND organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can manage invoice items"
+ON public.invoice_items
+FOR ALL
+USING (
+  invoice_id IN (
+    SELECT id FROM public.invoices
+    WHERE organization_id IN (
+      SELECT organization_id FROM public.organization_users
+      WHERE user_id = auth.uid()
+    )
+  )
+);
+
+-- =====================================================
+-- STEP 7: Documentation
+-- =====================================================
+COMMENT ON TABLE public.invoices IS
+  'GST tax invoices for freight (GTA) services raised against trips';
+
+COMMENT ON COLUMN public.invoices.invoice_number IS
+  'Assigned when the invoice is issued; NULL while draft';
+
+COMMENT ON COLUMN public.invoices.place_of_supply IS
+  'Two-digit GST state code; decides CGST/SGST versus IGST';
+
+COMMENT ON COLUMN public.invoices.reverse_charge IS
+  'Tax payable by the recipient under reverse charge; excluded from total_amount';
+
+COMMENT ON COLUMN public.trips.invoice_id IS
+  'Invoice this trip has been billed on';
@@ -0,0 +1,83 @@
+/*
+  # Create driver ledger
+
+  Advances handed to drivers and settlements paid or recovered. Trip
+  advances and road expenses already live on trips; this table holds the
+  entries that are not tied to a single trip field so a running balance per
+  driver can be reconciled.
+
+  1. Schema Changes
+    - Create driver_ledger_entries table
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's ledger entries
+*/
+
+-- =====================================================
+-- STEP 1: Create driver_ledger_entries table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.driver_ledger_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  entry_type VARCHAR(30) NOT NULL
+    CHECK (entry_type IN ('advance', 'settlement_paid', 'settlement_received', 'adjustment')),
+  amount NUMERIC(12,2) NOT NULL,
+  entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  payment_mode VARCHAR(20),
+  reference VARCHAR(100),
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Only adjustments may be negative
+  CONSTRAINT driver_ledger_amount_sign CHECK (entry_type = 'adjustment' OR amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_ledger_driver
+  ON public.driver_ledger_entries (organization_id, driver_id, entry_date);
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.driver_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view driver ledger"
+ON public.driver_ledger_entries
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert driver ledger"
+ON public.driver_ledger_entries
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete driver ledger"
+ON public.driver_ledger_entries
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON TABLE public.driver_ledger_entries IS
+  'Driver advances and settlements; combined with trip advances and verified expenses for a running balance';
+
+COMMENT ON COLUMN public.driver_ledger_entries.amount IS
+  'Always positive except adjustments, where positive is owed to the driver';
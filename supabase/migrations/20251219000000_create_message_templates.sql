@@ -0,0 +1,85 @@
+/*
+  # Create message templates
+
+  Organization overrides for the built-in reminder, trip and WhatsApp share
+  messages. Built-in defaults ship with the app (per language); a row here
+  replaces the default for one template key and language.
+
+  1. Schema Changes
+    - Create message_templates table
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's templates
+*/
+
+-- =====================================================
+-- STEP 1: Create message_templates table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.message_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  template_key VARCHAR(50) NOT NULL,
+  language VARCHAR(5) NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'hi')),
+  subject TEXT,
+  body TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT message_templates_unique_key UNIQUE (organization_id, template_key, language)
+);
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view message templates"
+ON public.message_templates
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert message templates"
+ON public.message_templates
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update message templates"
+ON public.message_templates
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete message templates"
+ON public.message_templates
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON TABLE public.message_templates IS
+  'Per-organization overrides of built-in message templates; deleting a row restores the default';
+
+COMMENT ON COLUMN public.message_templates.body IS
+  'Message text with {{placeholder}} variables, e.g. {{vehicle_registration}}';
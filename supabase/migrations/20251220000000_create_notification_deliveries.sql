@@ -0,0 +1,98 @@
+/*
+  # Create notification delivery log
+
+  Every reminder sent to a reminder contact is logged here. The dedup key
+  (contact, reminder, channel) is unique per organization so the same expiry
+  is never sent twice to the same contact, and failed attempts keep their
+  row for retries.
+
+  1. Schema Changes
+    - Add 'WhatsApp' to reminder_contact_mode
+    - Create notification_deliveries table
+
+  2. Security
+    - Enable RLS
+    - Organization members can view and record their organization's deliveries
+*/
+
+-- =====================================================
+-- STEP 1: WhatsApp contact mode
+-- =====================================================
+ALTER TYPE public.reminder_contact_mode ADD VALUE IF NOT EXISTS 'WhatsApp';
+
+-- =====================================================
+-- STEP 2: Create notification_deliveries table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  contact_id UUID NOT NULL,
+  reminder_id TEXT NOT NULL,
+  reminder_type VARCHAR(30) NOT NULL,
+  channel VARCHAR(10) NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  recipient VARCHAR(255) NOT NULL,
+  subject TEXT,
+  body TEXT NOT NULL,
+  dedup_key TEXT NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  provider_message_id VARCHAR(255),
+  next_attempt_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT notification_deliveries_dedup UNIQUE (organization_id, dedup_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_retry
+  ON public.notification_deliveries (organization_id, status, next_attempt_at)
+  WHERE status = 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_created
+  ON public.notification_deliveries (organization_id, created_at DESC);
+
+-- =====================================================
+-- STEP 3: Enable RLS
+-- =====================================================
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert notification deliveries"
+ON public.notification_deliveries
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update notification deliveries"
+ON public.notification_deliveries
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.notification_deliveries IS
+  'Reminder notifications sent to reminder contacts, with retry state';
+
+COMMENT ON COLUMN public.notification_deliveries.dedup_key IS
+  'contact_id:reminder_id:channel – reminder ids include the due date, so renewals produce a new key';
@@ -0,0 +1,106 @@
+/*
+  # Create fuel card transactions
+
+  Lines imported from fuel card and pump statements. Each line is reconciled
+  against the refuelings recorded on trips; the match result is stored on the
+  line so exceptions can be reviewed later.
+
+  1. Schema Changes
+    - Create fuel_card_transactions table
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's statement lines
+*/
+
+-- =====================================================
+-- STEP 1: Create fuel_card_transactions table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.fuel_card_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  import_batch_id UUID NOT NULL,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  vehicle_registration VARCHAR(20) NOT NULL,
+  card_number VARCHAR(50),
+  transaction_date DATE NOT NULL,
+  location VARCHAR(255),
+  fuel_quantity NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  rate_per_liter NUMERIC(10, 2),
+  amount NUMERIC(12, 2) NOT NULL,
+  reference VARCHAR(100),
+  dedup_key TEXT NOT NULL,
+  match_status VARCHAR(15) NOT NULL DEFAULT 'unreconciled'
+    CHECK (match_status IN ('unreconciled', 'matched', 'mismatch', 'unmatched')),
+  matched_trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  matched_refueling_index INTEGER,
+  quantity_difference NUMERIC(10, 2),
+  amount_difference NUMERIC(12, 2),
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT fuel_card_transactions_dedup UNIQUE (organization_id, dedup_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_card_transactions_date
+  ON public.fuel_card_transactions (organization_id, transaction_date);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_card_transactions_vehicle
+  ON public.fuel_card_transactions (vehicle_id, transaction_date);
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.fuel_card_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view fuel card transactions"
+ON public.fuel_card_transactions
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert fuel card transactions"
+ON public.fuel_card_transactions
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update fuel card transactions"
+ON public.fuel_card_transactions
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete fuel card transactions"
+ON public.fuel_card_transactions
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON TABLE public.fuel_card_transactions IS
+  'Fuel card / pump statement lines reconciled against trip refuelings';
+
+COMMENT ON COLUMN public.fuel_card_transactions.matched_refueling_index IS
+  'Position in trips.refuelings; 0 for trips recorded with a single legacy fill';
+
+COMMENT ON COLUMN public.fuel_card_transactions.dedup_key IS
+  'registration|date|amount|reference – re-importing the same statement skips existing lines';
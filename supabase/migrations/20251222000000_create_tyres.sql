@@ -0,0 +1,150 @@
+/*
+  # Create tyre register and lifecycle events
+
+  Each tyre is tracked by serial number from purchase to scrap. Fitment,
+  removal, rotation, retreading and scrapping are logged as events with the
+  vehicle odometer, so kilometres and cost per km can be worked out per tyre.
+
+  1. Schema Changes
+    - Create tyres table
+    - Create tyre_events table
+
+  2. Security
+    - Enable RLS on both tables
+    - Organization members can manage their organization's tyres
+*/
+
+-- =====================================================
+-- STEP 1: Create tyres table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.tyres (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  serial_number VARCHAR(50) NOT NULL,
+  brand VARCHAR(50) NOT NULL,
+  model VARCHAR(100),
+  size VARCHAR(30),
+  purchase_date DATE,
+  purchase_cost NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  status VARCHAR(10) NOT NULL DEFAULT 'in_stock'
+    CHECK (status IN ('in_stock', 'fitted', 'scrapped')),
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  position VARCHAR(10),
+  retread_count INTEGER NOT NULL DEFAULT 0,
+  scrap_reason TEXT,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT tyres_serial_unique UNIQUE (organization_id, serial_number)
+);
+
+-- One tyre per wheel position
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tyres_vehicle_position
+  ON public.tyres (vehicle_id, position)
+  WHERE status = 'fitted';
+
+-- =====================================================
+-- STEP 2: Create tyre_events table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.tyre_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  tyre_id UUID NOT NULL REFERENCES public.tyres(id) ON DELETE CASCADE,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  event_type VARCHAR(10) NOT NULL
+    CHECK (event_type IN ('fitted', 'removed', 'rotated', 'retreaded', 'scrapped')),
+  event_date DATE NOT NULL,
+  odometer INTEGER,
+  from_position VARCHAR(10),
+  to_position VARCHAR(10),
+  cost NUMERIC(12, 2),
+  reason TEXT,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tyre_events_tyre
+  ON public.tyre_events (tyre_id, event_date);
+
+CREATE INDEX IF NOT EXISTS idx_tyre_events_vehicle
+  ON public.tyre_events (vehicle_id, event_date);
+
+-- =====================================================
+-- STEP 3: Enable RLS
+-- =====================================================
+ALTER TABLE public.tyres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tyre_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view tyres"
+ON public.tyres
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert tyres"
+ON public.tyres
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update tyres"
+ON public.tyres
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete tyres"
+ON public.tyres
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can view tyre events"
+ON public.tyre_events
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert tyre events"
+ON public.tyre_events
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.tyres IS
+  'Tyre register: one row per serial-numbered tyre with its current fitment';
+
+COMMENT ON COLUMN public.tyres.position IS
+  'Axle number, side (L/R) and I/O for inner/outer on dual axles, e.g. 2LO; SPARE for the stepney';
+
+COMMENT ON TABLE public.tyre_events IS
+  'Fitment, removal, rotation, retread and scrap history per tyre, with odometer readings';
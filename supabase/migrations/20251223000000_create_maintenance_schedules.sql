@@ -0,0 +1,100 @@
+/*
+  # Create preventive maintenance schedules
+
+  Schedule templates such as "engine oil every 20,000 km or 180 days". A
+  schedule covers the vehicles, vehicle types and tags it is assigned to, or
+  the whole fleet when it has no assignments. Due dates are worked out from
+  the last matching maintenance task and the vehicle odometer.
+
+  1. Schema Changes
+    - Create maintenance_schedules table
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's schedules
+*/
+
+-- =====================================================
+-- STEP 1: Create maintenance_schedules table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.maintenance_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  task_title VARCHAR(100) NOT NULL,
+  task_type VARCHAR(50) NOT NULL DEFAULT 'general_scheduled_service',
+  interval_km INTEGER CHECK (interval_km IS NULL OR interval_km > 0),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  warn_km INTEGER NOT NULL DEFAULT 1000,
+  warn_days INTEGER NOT NULL DEFAULT 7,
+  vehicle_types TEXT[] NOT NULL DEFAULT '{}',
+  vehicle_ids UUID[] NOT NULL DEFAULT '{}',
+  tag_ids UUID[] NOT NULL DEFAULT '{}',
+  vendor_id UUID,
+  auto_create_task BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT maintenance_schedules_interval CHECK (interval_km IS NOT NULL OR interval_days IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_org
+  ON public.maintenance_schedules (organization_id);
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.maintenance_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view maintenance schedules"
+ON public.maintenance_schedules
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert maintenance schedules"
+ON public.maintenance_schedules
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update maintenance schedules"
+ON public.maintenance_schedules
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete maintenance schedules"
+ON public.maintenance_schedules
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON TABLE public.maintenance_schedules IS
+  'Preventive maintenance plans with km and/or day intervals';
+
+COMMENT ON COLUMN public.maintenance_schedules.task_title IS
+  'Matched against maintenance task titles, service group tasks and replaced parts to find the last service';
+
+COMMENT ON COLUMN public.maintenance_schedules.vendor_id IS
+  'Garage assigned to tasks raised automatically when the service falls due';
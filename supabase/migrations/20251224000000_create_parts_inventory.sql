@@ -0,0 +1,137 @@
+/*
+  # Create spare parts inventory
+
+  A parts catalogue per organization, seeded from the standard fleet parts
+  list, and a movement ledger per stock location. Purchase receipts add
+  stock, parts recorded on maintenance tasks are issued out of it, and stock
+  on hand and valuation are worked out from the ledger.
+
+  1. Schema Changes
+    - Create part_stock_items table
+    - Create part_stock_movements table
+
+  2. Security
+    - Enable RLS on both tables
+    - Organization members can manage their organization's inventory
+    - Movements are append-only; corrections are recorded as adjustments
+*/
+
+-- =====================================================
+-- STEP 1: Create part_stock_items table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.part_stock_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  sku VARCHAR(50) NOT NULL,
+  fleet_part_id VARCHAR(50),
+  name VARCHAR(100) NOT NULL,
+  category VARCHAR(50) NOT NULL,
+  brand VARCHAR(50),
+  unit VARCHAR(20) NOT NULL DEFAULT 'pcs',
+  reorder_level NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (reorder_level >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT part_stock_items_sku_unique UNIQUE (organization_id, sku)
+);
+
+-- =====================================================
+-- STEP 2: Create part_stock_movements table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.part_stock_movements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  item_id UUID NOT NULL REFERENCES public.part_stock_items(id) ON DELETE CASCADE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  movement_type VARCHAR(20) NOT NULL
+    CHECK (movement_type IN ('receipt', 'issue', 'return', 'adjustment')),
+  quantity NUMERIC(10, 2) NOT NULL CHECK (quantity <> 0),
+  unit_cost NUMERIC(12, 2) CHECK (unit_cost IS NULL OR unit_cost >= 0),
+  movement_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reference VARCHAR(100),
+  vendor_id UUID,
+  maintenance_task_id UUID REFERENCES public.maintenance_tasks(id) ON DELETE SET NULL,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_part_stock_movements_item
+  ON public.part_stock_movements (item_id, warehouse_id, movement_date);
+
+CREATE INDEX IF NOT EXISTS idx_part_stock_movements_task
+  ON public.part_stock_movements (maintenance_task_id)
+  WHERE maintenance_task_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 3: Enable RLS
+-- =====================================================
+ALTER TABLE public.part_stock_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.part_stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view part stock items"
+ON public.part_stock_items
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert part stock items"
+ON public.part_stock_items
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update part stock items"
+ON public.part_stock_items
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can view part stock movements"
+ON public.part_stock_movements
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert part stock movements"
+ON public.part_stock_movements
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.part_stock_items IS
+  'Spare parts catalogue with reorder levels';
+
+COMMENT ON COLUMN public.part_stock_items.fleet_part_id IS
+  'Id from the standard fleet parts list when the item was created from it';
+
+COMMENT ON TABLE public.part_stock_movements IS
+  'Stock ledger per part and location: receipts, issues to maintenance tasks, returns and adjustments';
+
+COMMENT ON COLUMN public.part_stock_movements.quantity IS
+  'Signed quantity: positive into stock, negative out of it';
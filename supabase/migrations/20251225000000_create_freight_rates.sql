@@ -0,0 +1,117 @@
+/*
+  # Create freight rate tables
+
+  Organisation rate cards keyed by loading warehouse, destination lane,
+  material type and billing type, with effective dates. Trip creation and
+  updates price trips from these rows instead of rates hard-coded per
+  organisation, and historical trips can be re-priced from them.
+
+  1. Schema Changes
+    - Create freight_rates table
+    - Move the warehouse rates previously hard-coded for Shri Durga
+      Enterprises into it
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's rates
+*/
+
+-- =====================================================
+-- STEP 1: Create freight_rates table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.freight_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+  destination_id UUID REFERENCES public.destinations(id) ON DELETE CASCADE,
+  material_type_id UUID REFERENCES public.material_types(id) ON DELETE CASCADE,
+  billing_type VARCHAR(20) NOT NULL
+    CHECK (billing_type IN ('per_km', 'per_ton', 'per_trip', 'per_unit')),
+  rate NUMERIC(12, 2) NOT NULL CHECK (rate > 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  notes TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT freight_rates_effective_window CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_freight_rates_lookup
+  ON public.freight_rates (organization_id, warehouse_id, effective_from)
+  WHERE active = true;
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.freight_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view freight rates"
+ON public.freight_rates
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert freight rates"
+ON public.freight_rates
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update freight rates"
+ON public.freight_rates
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Move hard-coded warehouse rates into the table
+-- =====================================================
+INSERT INTO public.freight_rates (organization_id, warehouse_id, billing_type, rate, effective_from, notes)
+SELECT
+  w.organization_id,
+  w.id,
+  'per_ton',
+  CASE
+    WHEN LOWER(w.name) LIKE '%raipur%' THEN 2.15
+    WHEN LOWER(w.name) LIKE '%sambarkur%' OR LOWER(w.name) LIKE '%sambalpur%' THEN 2.21
+    WHEN LOWER(w.name) LIKE '%bilaspur%' THEN 2.75
+  END,
+  '2024-01-01',
+  'Migrated from the warehouse rates previously built into trip creation'
+FROM public.warehouses w
+WHERE w.organization_id = 'ab6c2178-32f9-4a03-b5ab-d535db827a58'
+  AND (
+    LOWER(w.name) LIKE '%raipur%'
+    OR LOWER(w.name) LIKE '%sambarkur%'
+    OR LOWER(w.name) LIKE '%sambalpur%'
+    OR LOWER(w.name) LIKE '%bilaspur%'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.freight_rates fr WHERE fr.warehouse_id = w.id
+  );
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.freight_rates IS
+  'Organisation freight rate cards per warehouse, lane and material, used to price trips';
+
+COMMENT ON COLUMN public.freight_rates.destination_id IS
+  'Destination lane; NULL applies to every destination from the warehouse';
+
+COMMENT ON COLUMN public.freight_rates.material_type_id IS
+  'Material carried; NULL applies to every material';
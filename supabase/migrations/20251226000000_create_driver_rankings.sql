@@ -0,0 +1,136 @@
+/*
+  # Create driver ranking tables
+
+  Per-organisation driver ranking configuration (metric weights, metric
+  definitions and ranking periods) and the leaderboards computed from it for
+  each period.
+
+  1. Schema Changes
+    - Create driver_ranking_settings table (one row per organisation)
+    - Create driver_leaderboards table (one row per organisation, period
+      type and period start)
+
+  2. Security
+    - Enable RLS on both tables
+    - Organization members can view and maintain their organization's rows
+*/
+
+-- =====================================================
+-- STEP 1: Create driver_ranking_settings table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.driver_ranking_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL UNIQUE,
+  weights JSONB NOT NULL DEFAULT '{
+    "mileage": 30,
+    "trip_completion": 20,
+    "breakdowns": 15,
+    "document_compliance": 15,
+    "expense_variance": 20
+  }'::jsonb,
+  mileage_baseline VARCHAR(20) NOT NULL DEFAULT 'vehicle_average'
+    CHECK (mileage_baseline IN ('vehicle_average', 'fixed')),
+  mileage_baseline_kmpl NUMERIC(6, 2) NOT NULL DEFAULT 4 CHECK (mileage_baseline_kmpl > 0),
+  mileage_band_pct NUMERIC(5, 2) NOT NULL DEFAULT 20 CHECK (mileage_band_pct > 0),
+  breakdown_penalty NUMERIC(5, 2) NOT NULL DEFAULT 25 CHECK (breakdown_penalty >= 0),
+  expense_band_pct NUMERIC(5, 2) NOT NULL DEFAULT 20 CHECK (expense_band_pct > 0),
+  min_trips INTEGER NOT NULL DEFAULT 5 CHECK (min_trips >= 0),
+  periods TEXT[] NOT NULL DEFAULT ARRAY['weekly', 'monthly', 'quarterly'],
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- STEP 2: Create driver_leaderboards table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.driver_leaderboards (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  period_type VARCHAR(20) NOT NULL CHECK (period_type IN ('weekly', 'monthly', 'quarterly')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT driver_leaderboards_period_unique UNIQUE (organization_id, period_type, period_start)
+);
+
+-- =====================================================
+-- STEP 3: Enable RLS
+-- =====================================================
+ALTER TABLE public.driver_ranking_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_leaderboards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view driver ranking settings"
+ON public.driver_ranking_settings
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert driver ranking settings"
+ON public.driver_ranking_settings
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update driver ranking settings"
+ON public.driver_ranking_settings
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can view driver leaderboards"
+ON public.driver_leaderboards
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert driver leaderboards"
+ON public.driver_leaderboards
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update driver leaderboards"
+ON public.driver_leaderboards
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.driver_ranking_settings IS
+  'Organisation driver ranking weights, metric definitions and ranking periods';
+
+COMMENT ON TABLE public.driver_leaderboards IS
+  'Driver rankings computed for a period; recomputed while the period is open';
+
+COMMENT ON COLUMN public.driver_leaderboards.entries IS
+  'Ranked drivers with weighted score and per-metric values';
@@ -0,0 +1,185 @@
+/*
+  # Create consignment notes and trip e-way bills
+
+  Lorry receipts (LR / bilty) issued for the goods carried on a trip, numbered
+  per organization and financial year, and the e-way bill generated for them.
+
+  1. Schema Changes
+    - Create consignment_notes table (consignor, consignee, invoice value, packages, material)
+    - Create consignment_sequences table and next_consignment_number() for gapless numbering
+    - Add eway_bill_number, eway_bill_date and eway_bill_valid_until to trips
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's consignment notes
+*/
+
+-- =====================================================
+-- STEP 1: Create consignment_notes table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.consignment_notes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  lr_number VARCHAR(30) NOT NULL,
+  lr_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  financial_year VARCHAR(7) NOT NULL,
+  consignor_name TEXT NOT NULL,
+  consignor_gstin VARCHAR(15),
+  consignor_address TEXT,
+  consignor_pincode VARCHAR(6),
+  consignor_state_code VARCHAR(2),
+  consignee_name TEXT NOT NULL,
+  consignee_gstin VARCHAR(15),
+  consignee_address TEXT,
+  consignee_pincode VARCHAR(6),
+  consignee_state_code VARCHAR(2),
+  invoice_number VARCHAR(30),
+  invoice_date DATE,
+  invoice_value NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (invoice_value >= 0),
+  package_count INTEGER NOT NULL DEFAULT 1 CHECK (package_count >= 0),
+  package_type VARCHAR(30) NOT NULL DEFAULT 'Loose',
+  material_description TEXT NOT NULL,
+  hsn_code VARCHAR(8),
+  actual_weight NUMERIC(12,2),
+  freight_amount NUMERIC(14,2),
+  freight_basis VARCHAR(20) NOT NULL DEFAULT 'to_be_billed'
+    CHECK (freight_basis IN ('paid', 'to_pay', 'to_be_billed')),
+  remarks TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'cancelled')),
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consignment_notes_org_number
+  ON public.consignment_notes (organization_id, lr_number);
+
+CREATE INDEX IF NOT EXISTS idx_consignment_notes_trip
+  ON public.consignment_notes (trip_id);
+
+-- =====================================================
+-- STEP 2: Gapless LR numbering per financial year
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.consignment_sequences (
+  organization_id UUID NOT NULL,
+  financial_year VARCHAR(7) NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (organization_id, financial_year)
+);
+
+CREATE OR REPLACE FUNCTION public.next_consignment_number(
+  p_organization_id UUID,
+  p_financial_year VARCHAR
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE user_id = auth.uid() AND organization_id = p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  INSERT INTO public.consignment_sequences (organization_id, financial_year, last_number)
+  VALUES (p_organization_id, p_financial_year, 1)
+  ON CONFLICT (organization_id, financial_year)
+  DO UPDATE SET last_number = public.consignment_sequences.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  RETURN v_next;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.next_consignment_number(UUID, VARCHAR) TO authenticated;
+
+-- =====================================================
+-- STEP 3: E-way bill details on trips
+-- =====================================================
+ALTER TABLE public.trips
+ADD COLUMN IF NOT EXISTS eway_bill_number VARCHAR(12),
+ADD COLUMN IF NOT EXISTS eway_bill_date TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS eway_bill_valid_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_trips_eway_bill_valid_until
+  ON public.trips (eway_bill_valid_until)
+  WHERE eway_bill_valid_until IS NOT NULL;
+
+-- =====================================================
+-- STEP 4: Keep updated_at current
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_consignment_notes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_consignment_notes_updated_at ON public.consignment_notes;
+CREATE TRIGGER trg_update_consignment_notes_updated_at
+  BEFORE UPDATE ON public.consignment_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_consignment_notes_updated_at();
+
+-- =====================================================
+-- STEP 5: Enable RLS
+-- =====================================================
+ALTER TABLE public.consignment_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.consignment_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view consignment notes"
+ON public.consignment_notes
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert consignment notes"
+ON public.consignment_notes
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- LRs are cancelled rather than deleted so the numbering stays continuous
+CREATE POLICY "Org members can update consignment notes"
+ON public.consignment_notes
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 6: Documentation
+-- =====================================================
+COMMENT ON TABLE public.consignment_notes IS
+  'Lorry receipts (LR / bilty) for goods carried on a trip';
+
+COMMENT ON COLUMN public.consignment_notes.lr_number IS
+  'LR/<financial year>/<sequence>, assigned from next_consignment_number()';
+
+COMMENT ON COLUMN public.consignment_notes.invoice_value IS
+  'Value of the goods on the consignor''s invoice; drives the e-way bill';
+
+COMMENT ON COLUMN public.trips.eway_bill_number IS
+  '12-digit e-way bill number generated on the GST e-way bill portal';
+
+COMMENT ON COLUMN public.trips.eway_bill_valid_until IS
+  'E-way bill expiry; the trip is flagged when this falls before trip_end_date';
@@ -0,0 +1,134 @@
+/*
+  # Create traffic challan history
+
+  Challans returned by the e-challan lookup are kept per organization so
+  unpaid fines and repeat offenders can be tracked over time. Each challan is
+  matched to the trip and driver active when it was issued.
+
+  1. Schema Changes
+    - Create traffic_challans table (one row per challan_no per organization)
+    - Payment tracking: payment_status, amount_paid, paid_at, payment_reference
+    - Driver attribution: trip_id, driver_id, attribution
+    - Add challan summary columns to vehicles if missing
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's challans
+*/
+
+-- =====================================================
+-- STEP 1: Create traffic_challans table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.traffic_challans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  registration_number VARCHAR(20) NOT NULL,
+  challan_no VARCHAR(50) NOT NULL,
+  challan_date TIMESTAMPTZ,
+  amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  source_status VARCHAR(30),
+  offence TEXT,
+  offences TEXT[] NOT NULL DEFAULT '{}',
+  state TEXT,
+  area TEXT,
+  accused_name TEXT,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL,
+  attribution VARCHAR(20) NOT NULL DEFAULT 'unmatched'
+    CHECK (attribution IN ('trip', 'primary_driver', 'unmatched')),
+  payment_status VARCHAR(20) NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid')),
+  amount_paid NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  paid_at TIMESTAMPTZ,
+  payment_reference TEXT,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (organization_id, challan_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_traffic_challans_vehicle
+  ON public.traffic_challans (vehicle_id, challan_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_traffic_challans_driver
+  ON public.traffic_challans (driver_id, challan_date DESC)
+  WHERE driver_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_traffic_challans_unpaid
+  ON public.traffic_challans (organization_id)
+  WHERE payment_status <> 'paid';
+
+-- =====================================================
+-- STEP 2: Vehicle challan summary (written by fetch-challan-info)
+-- =====================================================
+ALTER TABLE public.vehicles
+ADD COLUMN IF NOT EXISTS challan_last_checked TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS total_challans INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pending_challan_amount NUMERIC(10,2) DEFAULT 0;
+
+-- =====================================================
+-- STEP 3: Keep updated_at current
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_traffic_challans_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_traffic_challans_updated_at ON public.traffic_challans;
+CREATE TRIGGER trg_update_traffic_challans_updated_at
+  BEFORE UPDATE ON public.traffic_challans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_traffic_challans_updated_at();
+
+-- =====================================================
+-- STEP 4: Enable RLS
+-- =====================================================
+ALTER TABLE public.traffic_challans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view traffic challans"
+ON public.traffic_challans
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert traffic challans"
+ON public.traffic_challans
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update traffic challans"
+ON public.traffic_challans
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 5: Documentation
+-- =====================================================
+COMMENT ON TABLE public.traffic_challans IS
+  'Traffic challans from the e-challan lookup, de-duplicated by challan_no';
+
+COMMENT ON COLUMN public.traffic_challans.attribution IS
+  'trip: challan fell inside a trip; primary_driver: vehicle''s assigned driver; unmatched: no driver found';
+
+COMMENT ON COLUMN public.traffic_challans.source_status IS
+  'Status reported by the e-challan service; payment_status tracks our own payments';
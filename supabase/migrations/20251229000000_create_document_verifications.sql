@@ -0,0 +1,217 @@
+/*
+  # Create scheduled RC/DL re-verification history
+
+  The reverify-documents edge function re-fetches RC details for active
+  vehicles and DL details for active drivers, compares them with what we have
+  stored and keeps the result of every check. Fields where the government
+  record disagrees with ours become review items until someone accepts the
+  government value or keeps ours.
+
+  1. Schema Changes
+    - Create document_verification_runs (one row per organization per job run)
+    - Create document_verifications (one row per vehicle/driver checked, with diffs)
+    - Create document_review_items (one open item per record and field)
+    - Add document_last_verified_at to vehicles and drivers
+    - Schedule the job nightly when pg_cron and pg_net are available
+
+  2. Security
+    - Enable RLS
+    - Organization members can view history and resolve review items
+    - Runs and verifications are written by the edge function (service role)
+*/
+
+-- =====================================================
+-- STEP 1: Create document_verification_runs table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_verification_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+    CHECK (trigger IN ('scheduled', 'manual')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  vehicles_checked INTEGER NOT NULL DEFAULT 0,
+  drivers_checked INTEGER NOT NULL DEFAULT 0,
+  mismatches_found INTEGER NOT NULL DEFAULT 0,
+  failures INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_verification_runs_org
+  ON public.document_verification_runs (organization_id, started_at DESC);
+
+-- =====================================================
+-- STEP 2: Create document_verifications table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_verifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  run_id UUID NOT NULL REFERENCES public.document_verification_runs(id) ON DELETE CASCADE,
+  entity_type VARCHAR(10) NOT NULL CHECK (entity_type IN ('vehicle', 'driver')),
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE CASCADE,
+  reference VARCHAR(50) NOT NULL,
+  result VARCHAR(20) NOT NULL CHECK (result IN ('matched', 'mismatch', 'failed')),
+  diffs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((entity_type = 'vehicle' AND vehicle_id IS NOT NULL) OR (entity_type = 'driver' AND driver_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_verifications_run
+  ON public.document_verifications (run_id);
+
+CREATE INDEX IF NOT EXISTS idx_document_verifications_vehicle
+  ON public.document_verifications (vehicle_id, checked_at DESC)
+  WHERE vehicle_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_verifications_driver
+  ON public.document_verifications (driver_id, checked_at DESC)
+  WHERE driver_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 3: Create document_review_items table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.document_review_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  verification_id UUID REFERENCES public.document_verifications(id) ON DELETE SET NULL,
+  entity_type VARCHAR(10) NOT NULL CHECK (entity_type IN ('vehicle', 'driver')),
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE CASCADE,
+  reference VARCHAR(50) NOT NULL,
+  field VARCHAR(40) NOT NULL,
+  stored_value JSONB,
+  government_value JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'accepted', 'dismissed', 'resolved')),
+  first_detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+  resolution_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_review_items_open
+  ON public.document_review_items (organization_id, entity_type, COALESCE(vehicle_id, driver_id), field)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_document_review_items_status
+  ON public.document_review_items (organization_id, status, last_detected_at DESC);
+
+CREATE OR REPLACE FUNCTION update_document_review_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_document_review_items_updated_at ON public.document_review_items;
+CREATE TRIGGER trg_update_document_review_items_updated_at
+  BEFORE UPDATE ON public.document_review_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_document_review_items_updated_at();
+
+-- =====================================================
+-- STEP 4: Last verification time (oldest are checked first)
+-- =====================================================
+ALTER TABLE public.vehicles
+ADD COLUMN IF NOT EXISTS document_last_verified_at TIMESTAMPTZ;
+
+ALTER TABLE public.drivers
+ADD COLUMN IF NOT EXISTS document_last_verified_at TIMESTAMPTZ;
+
+-- =====================================================
+-- STEP 5: Enable RLS
+-- =====================================================
+ALTER TABLE public.document_verification_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_verifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view document verification runs"
+ON public.document_verification_runs
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can view document verifications"
+ON public.document_verifications
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can view document review items"
+ON public.document_review_items
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update document review items"
+ON public.document_review_items
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 6: Nightly schedule (02:00 IST)
+-- =====================================================
+-- Needs app.settings.supabase_url and app.settings.service_role_key; without
+-- pg_cron/pg_net, call the function from any external scheduler instead.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'reverify-documents-nightly',
+      '30 20 * * *',
+      $cron$
+      SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/reverify-documents',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{"trigger": "scheduled"}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
+
+-- =====================================================
+-- STEP 7: Documentation
+-- =====================================================
+COMMENT ON TABLE public.document_verification_runs IS
+  'Runs of the reverify-documents job, one per organization';
+
+COMMENT ON TABLE public.document_verifications IS
+  'Result of re-checking one vehicle RC or driver DL; diffs lists fields that disagreed';
+
+COMMENT ON TABLE public.document_review_items IS
+  'Fields where the government record disagrees with ours, awaiting review';
+
+COMMENT ON COLUMN public.document_review_items.status IS
+  'open: awaiting review; accepted: government value applied; dismissed: our value kept; resolved: later check matched';
@@ -0,0 +1,115 @@
+/*
+  # Create planned trips for the dispatch board
+
+  Trips are scheduled ahead with vehicle, driver, route and expected load,
+  dispatched once the vehicle and driver are cleared, and linked to the
+  actual trip recorded when they close.
+
+  1. Schema Changes
+    - Create planned_trips table
+    - status: planned -> dispatched -> completed, or cancelled
+    - trip_id links the recorded trip
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's planned trips
+*/
+
+-- =====================================================
+-- STEP 1: Create planned_trips table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.planned_trips (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  warehouse_id UUID NOT NULL REFERENCES public.warehouses(id),
+  destinations TEXT[] NOT NULL DEFAULT '{}',
+  material_type_ids TEXT[] NOT NULL DEFAULT '{}',
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  expected_load NUMERIC(10,2) CHECK (expected_load IS NULL OR expected_load >= 0),
+  planned_start_date DATE NOT NULL,
+  planned_end_date DATE NOT NULL,
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'planned'
+    CHECK (status IN ('planned', 'dispatched', 'completed', 'cancelled')),
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  dispatched_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (planned_end_date >= planned_start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_planned_trips_org_dates
+  ON public.planned_trips (organization_id, planned_start_date);
+
+CREATE INDEX IF NOT EXISTS idx_planned_trips_active
+  ON public.planned_trips (organization_id, vehicle_id, driver_id)
+  WHERE status IN ('planned', 'dispatched');
+
+-- =====================================================
+-- STEP 2: Keep updated_at current
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_planned_trips_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_planned_trips_updated_at ON public.planned_trips;
+CREATE TRIGGER trg_update_planned_trips_updated_at
+  BEFORE UPDATE ON public.planned_trips
+  FOR EACH ROW
+  EXECUTE FUNCTION update_planned_trips_updated_at();
+
+-- =====================================================
+-- STEP 3: Enable RLS
+-- =====================================================
+ALTER TABLE public.planned_trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view planned trips"
+ON public.planned_trips
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert planned trips"
+ON public.planned_trips
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update planned trips"
+ON public.planned_trips
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.planned_trips IS
+  'Trips scheduled on the dispatch board before they run';
+
+COMMENT ON COLUMN public.planned_trips.expected_load IS
+  'Expected load in kg; becomes the trip gross_weight';
+
+COMMENT ON COLUMN public.planned_trips.trip_id IS
+  'Trip recorded when the planned trip closed';
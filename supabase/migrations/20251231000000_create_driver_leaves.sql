@@ -0,0 +1,93 @@
+/*
+  # Create driver leave periods for the availability calendar
+
+  drivers.status only says whether a driver is on leave today. Leave,
+  sick days and training are recorded here with date ranges so drivers
+  can be scheduled around them.
+
+  1. Schema Changes
+    - Create driver_leaves table
+    - start_date and end_date are inclusive
+    - leave_type: leave, sick, training or other
+
+  2. Security
+    - Enable RLS
+    - Organization members can manage their organization's driver leaves
+*/
+
+-- =====================================================
+-- STEP 1: Create driver_leaves table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.driver_leaves (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  leave_type VARCHAR(20) NOT NULL DEFAULT 'leave'
+    CHECK (leave_type IN ('leave', 'sick', 'training', 'other')),
+  reason TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_leaves_org_dates
+  ON public.driver_leaves (organization_id, start_date, end_date);
+
+CREATE INDEX IF NOT EXISTS idx_driver_leaves_driver
+  ON public.driver_leaves (driver_id);
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.driver_leaves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view driver leaves"
+ON public.driver_leaves
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert driver leaves"
+ON public.driver_leaves
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can update driver leaves"
+ON public.driver_leaves
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete driver leaves"
+ON public.driver_leaves
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON TABLE public.driver_leaves IS
+  'Dated periods a driver is unavailable for trips';
+
+COMMENT ON COLUMN public.driver_leaves.end_date IS
+  'Last day of leave, inclusive';
@@ -0,0 +1,96 @@
+/*
+  # Create GPS tracks for trips
+
+  Route evidence so far is screenshots of tracker apps. Tracks exported from
+  trackers (GPX, KML, CSV) or pushed by telematics providers through the
+  ingest-gps-track function are stored against the trip with the distance,
+  idle time, stops and overspeed events worked out from them.
+
+  1. Schema Changes
+    - Create trip_gps_tracks table
+    - points holds the cleaned track, sampled to at most 5000 points
+    - stops and overspeed_events hold the analysis detail
+
+  2. Security
+    - Enable RLS
+    - Organization members can view, add and remove their organization's tracks
+*/
+
+-- =====================================================
+-- STEP 1: Create trip_gps_tracks table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.trip_gps_tracks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  source VARCHAR(10) NOT NULL CHECK (source IN ('gpx', 'kml', 'csv', 'push')),
+  file_name TEXT,
+  point_count INTEGER NOT NULL DEFAULT 0,
+  points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  distance_km NUMERIC(10,1) NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  duration_minutes INTEGER NOT NULL DEFAULT 0,
+  moving_minutes INTEGER NOT NULL DEFAULT 0,
+  idle_minutes INTEGER NOT NULL DEFAULT 0,
+  max_speed_kmph NUMERIC(6,1) NOT NULL DEFAULT 0,
+  overspeed_limit_kmph NUMERIC(6,1) NOT NULL DEFAULT 80,
+  stops JSONB NOT NULL DEFAULT '[]'::jsonb,
+  overspeed_events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_gps_tracks_trip
+  ON public.trip_gps_tracks (trip_id);
+
+CREATE INDEX IF NOT EXISTS idx_trip_gps_tracks_org
+  ON public.trip_gps_tracks (organization_id, created_at DESC);
+
+-- =====================================================
+-- STEP 2: Enable RLS
+-- =====================================================
+ALTER TABLE public.trip_gps_tracks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view trip GPS tracks"
+ON public.trip_gps_tracks
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can insert trip GPS tracks"
+ON public.trip_gps_tracks
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can delete trip GPS tracks"
+ON public.trip_gps_tracks
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON TABLE public.trip_gps_tracks IS
+  'GPS tracks attached to trips with distance, idle time, stops and overspeeding';
+
+COMMENT ON COLUMN public.trip_gps_tracks.source IS
+  'gpx, kml or csv for uploaded exports; push for tracks sent to ingest-gps-track';
+
+COMMENT ON COLUMN public.trip_gps_tracks.points IS
+  'Cleaned track points {lat, lng, timestamp, speed_kmph}, sampled to at most 5000';
@@ -0,0 +1,58 @@
+/*
+  # Add geofence results to trip GPS tracks
+
+  Tracks are checked against geofences around the trip's warehouse and
+  destinations. Arrivals, departures and dwell times are stored with the
+  track along with the start and end times they suggest, and flags where
+  the entered trip dates or destinations disagree.
+
+  1. Schema Changes
+    - geofence_visits: [{geofence_id, kind, name, arrived_at, departed_at, dwell_minutes}]
+    - proposed_start_at / proposed_end_at: trip times from the geofences
+    - geofence_flags: [{type, message}]
+
+  2. Security
+    - Organization members can update their organization's tracks, so the
+      geofence check can be re-run
+*/
+
+-- =====================================================
+-- STEP 1: Add geofence columns
+-- =====================================================
+ALTER TABLE public.trip_gps_tracks
+  ADD COLUMN IF NOT EXISTS geofence_visits JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS proposed_start_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS proposed_end_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS geofence_flags JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_trip_gps_tracks_flagged
+  ON public.trip_gps_tracks (organization_id, trip_id)
+  WHERE jsonb_array_length(geofence_flags) > 0;
+
+-- =====================================================
+-- STEP 2: Allow re-running the geofence check
+-- =====================================================
+CREATE POLICY "Org members can update trip GPS tracks"
+ON public.trip_gps_tracks
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON COLUMN public.trip_gps_tracks.geofence_visits IS
+  'Stays inside the warehouse and destination geofences, in time order';
+
+COMMENT ON COLUMN public.trip_gps_tracks.proposed_start_at IS
+  'Departure from the loading warehouse according to the geofences';
+
+COMMENT ON COLUMN public.trip_gps_tracks.proposed_end_at IS
+  'Return to the warehouse, or arrival at the last destination, according to the geofences';
+
+COMMENT ON COLUMN public.trip_gps_tracks.geofence_flags IS
+  'Disagreements between the entered trip and the geofence events';
@@ -0,0 +1,180 @@
+/*
+  # Team management: invitations, deactivation and warehouse access
+
+  Admins and owners manage who can use the organization from Admin → Team
+  instead of editing organization_users by hand. Invitations are sent by the
+  invite-team-member edge function, which creates the auth user and their
+  membership straight away; the invitation row records who invited whom and
+  when they first signed in.
+
+  1. Schema Changes
+    - Add is_active, warehouse_ids, invited_by and deactivation columns to organization_users
+    - Create organization_invitations
+    - Create get_organization_members (members with their email and last sign-in)
+    - Create find_user_id_by_email for the edge function
+
+  2. Security
+    - Enable RLS on organization_invitations
+    - Only admins and owners of the organization can change memberships
+    - Members cannot change their own membership
+*/
+
+-- =====================================================
+-- STEP 1: Membership status and warehouse access
+-- =====================================================
+ALTER TABLE public.organization_users
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- NULL means every warehouse of the organization
+ALTER TABLE public.organization_users
+ADD COLUMN IF NOT EXISTS warehouse_ids UUID[];
+
+ALTER TABLE public.organization_users
+ADD COLUMN IF NOT EXISTS invited_by UUID;
+
+ALTER TABLE public.organization_users
+ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+
+ALTER TABLE public.organization_users
+ADD COLUMN IF NOT EXISTS deactivated_by UUID;
+
+-- =====================================================
+-- STEP 2: Create organization_invitations table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.organization_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'manager', 'data_entry', 'owner')),
+  warehouse_ids UUID[],
+  user_id UUID,
+  status VARCHAR(20) NOT NULL DEFAULT 'sent'
+    CHECK (status IN ('sent', 'accepted', 'revoked')),
+  invited_by UUID NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_open
+  ON public.organization_invitations (organization_id, LOWER(email))
+  WHERE status = 'sent';
+
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_org
+  ON public.organization_invitations (organization_id, created_at DESC);
+
+-- =====================================================
+-- STEP 3: Helpers
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.is_organization_admin(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role IN ('admin', 'owner')
+      AND is_active
+  ) OR EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = auth.uid()
+  );
+$$;
+
+-- auth.users is not readable from the client, so admins list members here.
+-- Invitations are marked accepted on the invitee's first sign-in.
+CREATE OR REPLACE FUNCTION public.get_organization_members(p_organization_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  is_active BOOLEAN,
+  warehouse_ids UUID[],
+  invited_by UUID,
+  joined_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_organization_admin(p_organization_id) THEN
+    RAISE EXCEPTION 'Only admins can view team members';
+  END IF;
+
+  UPDATE public.organization_invitations i
+  SET status = 'accepted', accepted_at = u.last_sign_in_at
+  FROM auth.users u
+  WHERE i.organization_id = p_organization_id
+    AND i.status = 'sent'
+    AND u.id = i.user_id
+    AND u.last_sign_in_at IS NOT NULL;
+
+  RETURN QUERY
+  SELECT ou.user_id, u.email::TEXT, ou.role::TEXT, ou.is_active, ou.warehouse_ids,
+         ou.invited_by, ou.created_at, u.last_sign_in_at
+  FROM public.organization_users ou
+  JOIN auth.users u ON u.id = ou.user_id
+  WHERE ou.organization_id = p_organization_id
+  ORDER BY ou.is_active DESC, u.email;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_organization_admin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organization_members(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.find_user_id_by_email(p_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE LOWER(email) = LOWER(TRIM(p_email)) LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_user_id_by_email(TEXT) TO service_role;
+
+-- =====================================================
+-- STEP 4: RLS
+-- =====================================================
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org admins can view invitations"
+ON public.organization_invitations
+FOR SELECT
+USING (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Org admins can update invitations"
+ON public.organization_invitations
+FOR UPDATE
+USING (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Org admins can update other members"
+ON public.organization_users
+FOR UPDATE
+USING (public.is_organization_admin(organization_id) AND user_id <> auth.uid());
+
+CREATE POLICY "Org admins can remove invited members"
+ON public.organization_users
+FOR DELETE
+USING (public.is_organization_admin(organization_id) AND user_id <> auth.uid());
+
+-- =====================================================
+-- STEP 5: Documentation
+-- =====================================================
+COMMENT ON COLUMN public.organization_users.is_active IS
+  'Deactivated members keep their history but lose access to the organization';
+
+COMMENT ON COLUMN public.organization_users.warehouse_ids IS
+  'Warehouses the member can work with; NULL for all';
+
+COMMENT ON TABLE public.organization_invitations IS
+  'Team invitations sent from Admin → Team; sent until the invitee first signs in';
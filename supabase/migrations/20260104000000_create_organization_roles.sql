@@ -0,0 +1,208 @@
+/*
+  # Custom roles with an action-level permission matrix
+
+  Organizations can define their own roles on top of the fixed ones (owner,
+  admin, manager, data_entry): which actions (view, create, edit, delete,
+  export, verify) are allowed on each module (trips, vehicles, drivers,
+  maintenance, pnl, admin), and which sensitive fields (revenue, salary) are
+  hidden. Members without a custom role keep the defaults of their fixed role,
+  defined in src/utils/permissionMatrix.ts and mirrored in role_default_permissions
+  below.
+
+  The app checks the matrix in usePermissions/PermissionGuard and in the data
+  access layer. Deletes of trips, vehicles and drivers are also checked here,
+  as restrictive policies on top of the existing ones.
+
+  1. Schema Changes
+    - Create organization_roles
+    - Add custom_role_id to organization_users
+    - Create role_default_permissions and has_permission
+    - Recreate get_organization_members with custom_role_id
+
+  2. Security
+    - Enable RLS on organization_roles
+    - Members can read their organization's roles; admins and owners manage them
+    - Restrictive DELETE policies on trips, vehicles and drivers
+*/
+
+-- =====================================================
+-- STEP 1: Create organization_roles table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.organization_roles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name VARCHAR(60) NOT NULL,
+  description TEXT,
+  base_role VARCHAR(20) NOT NULL DEFAULT 'data_entry'
+    CHECK (base_role IN ('admin', 'manager', 'data_entry', 'owner')),
+  permissions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  hidden_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_roles_name
+  ON public.organization_roles (organization_id, LOWER(name));
+
+CREATE OR REPLACE FUNCTION update_organization_roles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_update_organization_roles_updated_at ON public.organization_roles;
+CREATE TRIGGER trg_update_organization_roles_updated_at
+  BEFORE UPDATE ON public.organization_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_organization_roles_updated_at();
+
+ALTER TABLE public.organization_users
+ADD COLUMN IF NOT EXISTS custom_role_id UUID REFERENCES public.organization_roles(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- STEP 2: Permission checks
+-- =====================================================
+-- Keep in step with DEFAULT_ROLE_PERMISSIONS in src/utils/permissionMatrix.ts
+CREATE OR REPLACE FUNCTION public.role_default_permissions(p_role TEXT)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_role IN ('owner', 'admin') THEN '{"trips":["view","create","edit","delete","export","verify"],"vehicles":["view","create","edit","delete","export","verify"],"drivers":["view","create","edit","delete","export","verify"],"maintenance":["view","create","edit","delete","export","verify"],"pnl":["view","create","edit","delete","export","verify"],"admin":["view","create","edit","delete","export","verify"]}'::jsonb
+    WHEN p_role = 'manager' THEN '{"trips":["view","create","edit","delete","export","verify"],"vehicles":["view","create","edit","delete","export","verify"],"drivers":["view","create","edit","delete","export","verify"],"maintenance":["view","create","edit","delete","export","verify"],"pnl":["view","export"]}'::jsonb
+    ELSE '{"trips":["view","create","edit"],"vehicles":["view"],"drivers":["view"],"maintenance":["view","create","edit"]}'::jsonb
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_organization_id UUID, p_module TEXT, p_action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.organization_users ou
+    LEFT JOIN public.organization_roles r ON r.id = ou.custom_role_id
+    WHERE ou.organization_id = p_organization_id
+      AND ou.user_id = auth.uid()
+      AND ou.is_active
+      AND COALESCE(r.permissions, public.role_default_permissions(ou.role)) -> p_module ? p_action
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- STEP 3: Members list with custom role
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_organization_members(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_organization_members(p_organization_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  custom_role_id UUID,
+  is_active BOOLEAN,
+  warehouse_ids UUID[],
+  invited_by UUID,
+  joined_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_organization_admin(p_organization_id) THEN
+    RAISE EXCEPTION 'Only admins can view team members';
+  END IF;
+
+  UPDATE public.organization_invitations i
+  SET status = 'accepted', accepted_at = u.last_sign_in_at
+  FROM auth.users u
+  WHERE i.organization_id = p_organization_id
+    AND i.status = 'sent'
+    AND u.id = i.user_id
+    AND u.last_sign_in_at IS NOT NULL;
+
+  RETURN QUERY
+  SELECT ou.user_id, u.email::TEXT, ou.role::TEXT, ou.custom_role_id, ou.is_active, ou.warehouse_ids,
+         ou.invited_by, ou.created_at, u.last_sign_in_at
+  FROM public.organization_users ou
+  JOIN auth.users u ON u.id = ou.user_id
+  WHERE ou.organization_id = p_organization_id
+  ORDER BY ou.is_active DESC, u.email;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_organization_members(UUID) TO authenticated;
+
+-- =====================================================
+-- STEP 4: RLS
+-- =====================================================
+ALTER TABLE public.organization_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view roles"
+ON public.organization_roles
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org admins can create roles"
+ON public.organization_roles
+FOR INSERT
+WITH CHECK (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Org admins can update roles"
+ON public.organization_roles
+FOR UPDATE
+USING (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Org admins can delete roles"
+ON public.organization_roles
+FOR DELETE
+USING (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Deleting trips needs the trips delete permission"
+ON public.trips
+AS RESTRICTIVE
+FOR DELETE
+USING (public.has_permission(organization_id, 'trips', 'delete'));
+
+CREATE POLICY "Deleting vehicles needs the vehicles delete permission"
+ON public.vehicles
+AS RESTRICTIVE
+FOR DELETE
+USING (public.has_permission(organization_id, 'vehicles', 'delete'));
+
+CREATE POLICY "Deleting drivers needs the drivers delete permission"
+ON public.drivers
+AS RESTRICTIVE
+FOR DELETE
+USING (public.has_permission(organization_id, 'drivers', 'delete'));
+
+-- =====================================================
+-- STEP 5: Documentation
+-- =====================================================
+COMMENT ON TABLE public.organization_roles IS
+  'Custom roles: allowed actions per module and hidden sensitive fields';
+
+COMMENT ON COLUMN public.organization_roles.permissions IS
+  'Module → allowed actions, e.g. {"trips": ["view", "create"], "pnl": ["view"]}';
+
+COMMENT ON COLUMN public.organization_users.custom_role_id IS
+  'Custom role replacing the defaults of the fixed role; NULL to use the fixed role';
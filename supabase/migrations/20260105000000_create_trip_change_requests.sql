@@ -0,0 +1,143 @@
+/*
+  # Maker-checker approval for trip changes
+
+  Members who cannot verify trips (data entry by default) no longer change
+  verified trips, cascade odometer corrections or delete trips directly. The
+  app records a change request with a field-level diff (and the cascade
+  preview for odometer corrections); an admin approves it, which applies the
+  change, or rejects it with a reason. Nothing is written to the trip before
+  approval.
+
+  1. Schema Changes
+    - Create trip_change_requests
+    - Trigger blocking changes to verified trips by members without the trips
+      verify permission
+
+  2. Security
+    - Enable RLS on trip_change_requests
+    - Members see their organization's requests and create their own
+    - Only admins and owners review requests
+*/
+
+-- =====================================================
+-- STEP 1: Create trip_change_requests table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.trip_change_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  trip_serial_number TEXT,
+  request_type VARCHAR(20) NOT NULL CHECK (request_type IN ('edit', 'cascade', 'delete')),
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  proposed_values JSONB,
+  new_end_km NUMERIC,
+  cascade_preview JSONB,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+  review_reason TEXT,
+  CONSTRAINT trip_change_requests_rejection_reason
+    CHECK (status <> 'rejected' OR COALESCE(TRIM(review_reason), '') <> '')
+);
+
+-- One open request of each kind per trip
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_change_requests_open
+  ON public.trip_change_requests (trip_id, request_type)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_trip_change_requests_org
+  ON public.trip_change_requests (organization_id, status, created_at DESC);
+
+-- =====================================================
+-- STEP 2: Protect verified trips
+-- =====================================================
+-- Only the fields a maker edits on the trip form are guarded; links written
+-- by other features (invoices, consignment notes, mileage) stay open.
+-- Server-side jobs without a user are not affected.
+CREATE OR REPLACE FUNCTION public.guard_verified_trip_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.expense_verified
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_permission(OLD.organization_id, 'trips', 'verify')
+     AND (
+       NEW.vehicle_id, NEW.driver_id, NEW.warehouse_id, NEW.destinations,
+       NEW.trip_start_date, NEW.trip_end_date, NEW.start_km, NEW.end_km,
+       NEW.gross_weight, NEW.fuel_quantity, NEW.total_fuel_cost,
+       NEW.unloading_expense, NEW.driver_expense, NEW.road_rto_expense,
+       NEW.toll_expense, NEW.breakdown_expense, NEW.miscellaneous_expense,
+       NEW.total_road_expenses, NEW.advance_amount, NEW.expense_verified
+     ) IS DISTINCT FROM (
+       OLD.vehicle_id, OLD.driver_id, OLD.warehouse_id, OLD.destinations,
+       OLD.trip_start_date, OLD.trip_end_date, OLD.start_km, OLD.end_km,
+       OLD.gross_weight, OLD.fuel_quantity, OLD.total_fuel_cost,
+       OLD.unloading_expense, OLD.driver_expense, OLD.road_rto_expense,
+       OLD.toll_expense, OLD.breakdown_expense, OLD.miscellaneous_expense,
+       OLD.total_road_expenses, OLD.advance_amount, OLD.expense_verified
+     )
+  THEN
+    RAISE EXCEPTION 'Trip % is verified; submit a change request for approval', OLD.trip_serial_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_verified_trip_update ON public.trips;
+CREATE TRIGGER trg_guard_verified_trip_update
+  BEFORE UPDATE ON public.trips
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_verified_trip_update();
+
+-- =====================================================
+-- STEP 3: RLS
+-- =====================================================
+ALTER TABLE public.trip_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view trip change requests"
+ON public.trip_change_requests
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org members can request trip changes"
+ON public.trip_change_requests
+FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND status = 'pending'
+  AND organization_id IN (
+    SELECT organization_id FROM public.organization_users
+    WHERE user_id = auth.uid() AND is_active
+  )
+);
+
+CREATE POLICY "Org admins can review trip change requests"
+ON public.trip_change_requests
+FOR UPDATE
+USING (public.is_organization_admin(organization_id));
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.trip_change_requests IS
+  'Trip edits, odometer cascades and deletions by makers, waiting for admin approval';
+
+COMMENT ON COLUMN public.trip_change_requests.changes IS
+  'Field-level diff shown to the reviewer: [{field, label, old_value, new_value}]';
+
+COMMENT ON COLUMN public.trip_change_requests.proposed_values IS
+  'Update applied to the trip when an edit request is approved';
+
+COMMENT ON COLUMN public.trip_change_requests.cascade_preview IS
+  'Later trips whose Start KM the cascade moves, as previewed when requested';
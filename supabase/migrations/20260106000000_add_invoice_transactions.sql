@@ -0,0 +1,192 @@
+/*
+  # Invoice writes in single transactions
+
+  Creating a draft, issuing an invoice and recording a payment each touched
+  several rows from the client in separate requests. A failure part-way left
+  drafts without their trips, burned invoice numbers that were never issued,
+  and payments were added to a stale amount read by the browser. Each write
+  now runs in one SQL function so it succeeds or fails as a whole.
+
+  1. Schema Changes
+    - create_draft_invoice(): inserts the invoice and its items and links the
+      trips, failing if any trip was invoiced in the meantime
+    - issue_invoice(): allocates the next number and issues the draft together
+    - record_invoice_payment(): adds to amount_paid on the server and rejects
+      payments above the outstanding balance
+
+  2. Security
+    - create_draft_invoice() and record_invoice_payment() run as the caller,
+      so the invoice and trip policies still apply
+    - issue_invoice() checks the caller's pnl edit permission itself, since
+      invoice_sequences is not writable by members
+    - next_invoice_number() is no longer callable from the client, so numbers
+      are only taken by invoices that are issued
+*/
+
+-- =====================================================
+-- STEP 1: Create a draft with its items and trips
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_draft_invoice(
+  p_invoice JSONB,
+  p_items JSONB
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_trip_ids UUID[];
+  v_linked INTEGER;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Select at least one trip to invoice';
+  END IF;
+
+  INSERT INTO public.invoices
+  SELECT * FROM jsonb_populate_record(NULL::public.invoices, p_invoice || jsonb_build_object(
+    'id', gen_random_uuid(),
+    'invoice_number', NULL,
+    'amount_paid', 0,
+    'status', 'draft',
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO public.invoice_items (invoice_id, trip_id, description, sac_code, quantity, unit, rate, amount)
+  SELECT v_invoice.id, item.trip_id, item.description, COALESCE(item.sac_code, '9965'),
+         COALESCE(item.quantity, 1), COALESCE(item.unit, 'trip'), COALESCE(item.rate, 0), COALESCE(item.amount, 0)
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, p_items) AS item;
+
+  SELECT ARRAY_AGG(DISTINCT item.trip_id) INTO v_trip_ids
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, p_items) AS item
+  WHERE item.trip_id IS NOT NULL;
+
+  UPDATE public.trips
+  SET invoice_id = v_invoice.id
+  WHERE id = ANY(COALESCE(v_trip_ids, '{}'))
+    AND organization_id = v_invoice.organization_id
+    AND invoice_id IS NULL;
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+  IF v_linked <> COALESCE(array_length(v_trip_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some of the selected trips have already been invoiced; reload and try again';
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_draft_invoice(JSONB, JSONB) TO authenticated;
+
+-- =====================================================
+-- STEP 2: Number and issue a draft together
+-- =====================================================
+-- The sequence row stays locked until the transaction ends and rolls back
+-- with it, so a failed issue does not leave a gap.
+CREATE OR REPLACE FUNCTION public.issue_invoice(p_invoice_id UUID)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_next INTEGER;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_permission(v_invoice.organization_id, 'pnl', 'edit') THEN
+    RAISE EXCEPTION 'Invoice not found or you do not have permission to issue it';
+  END IF;
+
+  IF v_invoice.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft invoices can be issued';
+  END IF;
+
+  INSERT INTO public.invoice_sequences (organization_id, financial_year, last_number)
+  VALUES (v_invoice.organization_id, v_invoice.financial_year, 1)
+  ON CONFLICT (organization_id, financial_year)
+  DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  UPDATE public.invoices
+  SET invoice_number = 'INV/' || v_invoice.financial_year || '/' ||
+        LPAD(v_next::TEXT, GREATEST(4, LENGTH(v_next::TEXT)), '0'),
+      status = 'issued',
+      issued_at = NOW()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_invoice(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.next_invoice_number(UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- STEP 3: Record payments against the stored balance
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(p_invoice_id UUID, p_amount NUMERIC)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Issue the invoice before recording payments';
+  END IF;
+
+  -- Half a paisa of tolerance, as when the status is worked out below
+  IF v_invoice.amount_paid + p_amount > v_invoice.total_amount + 0.005 THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %',
+      p_amount, v_invoice.total_amount - v_invoice.amount_paid;
+  END IF;
+
+  UPDATE public.invoices
+  SET amount_paid = ROUND(amount_paid + p_amount, 2),
+      status = CASE WHEN amount_paid + p_amount + 0.005 >= total_amount THEN 'paid' ELSE 'partially_paid' END,
+      paid_at = CASE WHEN amount_paid + p_amount + 0.005 >= total_amount THEN NOW() ELSE NULL END
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_invoice_payment(UUID, NUMERIC) TO authenticated;
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.create_draft_invoice(JSONB, JSONB) IS
+  'Creates a draft invoice with its items and links the billed trips in one transaction';
+
+COMMENT ON FUNCTION public.issue_invoice(UUID) IS
+  'Assigns the next gapless number for the financial year and issues the draft';
+
+COMMENT ON FUNCTION public.record_invoice_payment(UUID, NUMERIC) IS
+  'Adds a payment to the invoice, rejecting amounts above the outstanding balance';
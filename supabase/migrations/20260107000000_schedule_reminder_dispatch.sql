@@ -0,0 +1,55 @@
+/*
+  # Dispatch reminders from the server
+
+  Due reminders were sent from whichever browser had the app open, with a
+  localStorage lock between tabs. They are now sent by the dispatch-reminders
+  edge function on a schedule. Deliveries are claimed through the unique
+  (organization_id, dedup_key) constraint, so overlapping runs cannot send the
+  same reminder twice.
+
+  1. Schema Changes
+    - Schedule dispatch-reminders every 30 minutes when pg_cron and pg_net
+      are available
+
+  2. Security
+    - notification_deliveries is written only by the edge function (service
+      role); members keep read access to the delivery log
+*/
+
+-- =====================================================
+-- STEP 1: Deliveries are written by the server only
+-- =====================================================
+DROP POLICY IF EXISTS "Org members can insert notification deliveries" ON public.notification_deliveries;
+DROP POLICY IF EXISTS "Org members can update notification deliveries" ON public.notification_deliveries;
+
+-- =====================================================
+-- STEP 2: Schedule every 30 minutes
+-- =====================================================
+-- Needs app.settings.supabase_url and app.settings.service_role_key; without
+-- pg_cron/pg_net, call the function from any external scheduler instead.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'dispatch-reminders',
+      '*/30 * * * *',
+      $cron$
+      SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/dispatch-reminders',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{"trigger": "scheduled"}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON CONSTRAINT notification_deliveries_dedup ON public.notification_deliveries IS
+  'Claims a contact/reminder/channel for one dispatch run; later runs skip keys already logged';
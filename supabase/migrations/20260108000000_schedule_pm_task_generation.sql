@@ -0,0 +1,69 @@
+/*
+  # Raise preventive maintenance tasks from the server
+
+  Due PM tasks were raised from whichever browser had the app open, with a
+  localStorage lock between tabs, and went straight in as open tasks. They
+  are now raised as drafts by the generate-pm-tasks edge function on a
+  schedule, and a unique key per vehicle, schedule and due period keeps
+  overlapping runs from raising the same service twice.
+
+  1. Schema Changes
+    - maintenance_tasks.pm_schedule_id: the schedule a task was raised for
+    - maintenance_tasks.pm_due_key: the due period (next due date and
+      odometer) it was raised for
+    - Unique (vehicle_id, pm_schedule_id, pm_due_key)
+    - Schedule generate-pm-tasks every 6 hours when pg_cron and pg_net are
+      available
+
+  2. Security
+    - No policy changes; the edge function runs with the service role
+*/
+
+-- =====================================================
+-- STEP 1: Link tasks to the schedule and due period
+-- =====================================================
+ALTER TABLE public.maintenance_tasks
+  ADD COLUMN IF NOT EXISTS pm_schedule_id UUID REFERENCES public.maintenance_schedules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pm_due_key TEXT;
+
+-- Tasks not raised from a schedule have NULLs and never conflict
+ALTER TABLE public.maintenance_tasks
+  ADD CONSTRAINT maintenance_tasks_pm_due_unique UNIQUE (vehicle_id, pm_schedule_id, pm_due_key);
+
+-- =====================================================
+-- STEP 2: Schedule every 6 hours
+-- =====================================================
+-- Needs app.settings.supabase_url and app.settings.service_role_key; without
+-- pg_cron/pg_net, call the function from any external scheduler instead.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'generate-pm-tasks',
+      '0 */6 * * *',
+      $cron$
+      SELECT net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/generate-pm-tasks',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := '{"trigger": "scheduled"}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON COLUMN public.maintenance_tasks.pm_schedule_id IS
+  'Preventive maintenance schedule the task was raised for';
+
+COMMENT ON COLUMN public.maintenance_tasks.pm_due_key IS
+  'Due period the task was raised for, as next due date/odometer; one task per vehicle, schedule and period';
+
+COMMENT ON COLUMN public.maintenance_tasks.status IS
+  'draft (raised from a PM schedule, awaiting confirmation), open, in_progress, resolved or rework';
@@ -0,0 +1,156 @@
+/*
+  # Issue maintenance parts from stock on save
+
+  Parts were meant to be issued out of the inventory when they were added to
+  a maintenance task, but the only screen that did so was never shown, and
+  the parts recorded on service groups never touched stock. Parts picked from
+  stock on a service group are now issued when the task is saved, in one
+  call that also returns parts that were removed or reduced. Stock at a
+  location can no longer go below zero.
+
+  1. Schema Changes
+    - sync_maintenance_stock_issues(): brings the net quantity issued to a
+      task for each part and location in line with the task's parts, by
+      recording issues and returns for the difference
+    - Trigger on part_stock_movements rejecting outward movements that would
+      take a location below zero
+
+  2. Security
+    - sync_maintenance_stock_issues() runs as the caller, so the task and
+      movement policies still apply; it only accepts parts of the task's own
+      organization
+    - The stock check runs as definer so it sees the whole ledger for the
+      location
+*/
+
+-- =====================================================
+-- STEP 1: Never take a location below zero
+-- =====================================================
+-- Locking the item serializes concurrent issues of the same part, so two
+-- saves cannot both take the last one.
+CREATE OR REPLACE FUNCTION public.check_part_stock_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_on_hand NUMERIC;
+BEGIN
+  IF NEW.quantity >= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.part_stock_items WHERE id = NEW.item_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO v_on_hand
+  FROM public.part_stock_movements
+  WHERE item_id = NEW.item_id
+    AND warehouse_id = NEW.warehouse_id;
+
+  IF v_on_hand + NEW.quantity < 0 THEN
+    RAISE EXCEPTION 'Only % of this part in stock at this location', GREATEST(v_on_hand, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS part_stock_movements_check_available ON public.part_stock_movements;
+CREATE TRIGGER part_stock_movements_check_available
+  BEFORE INSERT ON public.part_stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_part_stock_available();
+
+-- =====================================================
+-- STEP 2: Issue a task's parts in one call
+-- =====================================================
+-- p_issues: [{ "item_id", "warehouse_id", "quantity" }] for every part on the
+-- task taken from stock. Saving the same parts again records nothing.
+CREATE OR REPLACE FUNCTION public.sync_maintenance_stock_issues(
+  p_task_id UUID,
+  p_issues JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_task RECORD;
+  v_change RECORD;
+  v_recorded INTEGER := 0;
+BEGIN
+  SELECT id, organization_id, vehicle_id INTO v_task
+  FROM public.maintenance_tasks
+  WHERE id = p_task_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance task not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_issues, '[]'::jsonb)) AS issue(item_id UUID, warehouse_id UUID, quantity NUMERIC)
+    LEFT JOIN public.part_stock_items item
+      ON item.id = issue.item_id AND item.organization_id = v_task.organization_id
+    WHERE item.id IS NULL OR issue.warehouse_id IS NULL OR COALESCE(issue.quantity, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Parts taken from stock need a stocked part, a location and a quantity';
+  END IF;
+
+  FOR v_change IN
+    WITH wanted AS (
+      SELECT issue.item_id, issue.warehouse_id, SUM(issue.quantity) AS quantity
+      FROM jsonb_to_recordset(COALESCE(p_issues, '[]'::jsonb)) AS issue(item_id UUID, warehouse_id UUID, quantity NUMERIC)
+      GROUP BY issue.item_id, issue.warehouse_id
+    ),
+    issued AS (
+      SELECT item_id, warehouse_id, -SUM(quantity) AS quantity
+      FROM public.part_stock_movements
+      WHERE maintenance_task_id = p_task_id
+        AND movement_type IN ('issue', 'return')
+      GROUP BY item_id, warehouse_id
+    )
+    SELECT COALESCE(wanted.item_id, issued.item_id) AS item_id,
+           COALESCE(wanted.warehouse_id, issued.warehouse_id) AS warehouse_id,
+           COALESCE(wanted.quantity, 0) - COALESCE(issued.quantity, 0) AS difference
+    FROM wanted
+    FULL JOIN issued
+      ON issued.item_id = wanted.item_id AND issued.warehouse_id = wanted.warehouse_id
+  LOOP
+    CONTINUE WHEN v_change.difference = 0;
+
+    INSERT INTO public.part_stock_movements (
+      organization_id, item_id, warehouse_id, movement_type, quantity, unit_cost,
+      movement_date, reference, maintenance_task_id, vehicle_id, created_by
+    )
+    SELECT v_task.organization_id, v_change.item_id, v_change.warehouse_id,
+           CASE WHEN v_change.difference > 0 THEN 'issue' ELSE 'return' END,
+           -v_change.difference,
+           -- Weighted average of costed receipts at the location
+           ROUND(SUM(quantity * unit_cost) / NULLIF(SUM(quantity), 0), 2),
+           CURRENT_DATE, 'Maintenance task', p_task_id, v_task.vehicle_id, auth.uid()
+    FROM public.part_stock_movements
+    WHERE item_id = v_change.item_id
+      AND warehouse_id = v_change.warehouse_id
+      AND quantity > 0
+      AND unit_cost IS NOT NULL;
+
+    v_recorded := v_recorded + 1;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sync_maintenance_stock_issues(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.check_part_stock_available() IS
+  'Rejects outward stock movements that would leave a location with less than zero on hand';
+
+COMMENT ON FUNCTION public.sync_maintenance_stock_issues(UUID, JSONB) IS
+  'Issues and returns stock so the net quantity issued to a task matches the parts it was saved with';
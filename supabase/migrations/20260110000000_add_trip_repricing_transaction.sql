@@ -0,0 +1,63 @@
+/*
+  # Re-price trips in one transaction
+
+  Re-pricing wrote each trip from the client in batches of separate
+  requests, so a failure part-way left a period half re-priced, and a trip
+  invoiced after the preview was loaded still had its freight changed. The
+  new prices are now written by one SQL function that leaves invoiced trips
+  alone.
+
+  1. Schema Changes
+    - reprice_trips(): writes freight rate, billing type and income to the
+      given trips and recalculates profit where expenses are totalled;
+      trips with an invoice are skipped
+
+  2. Security
+    - Runs as the caller, so the trip policies still apply
+*/
+
+-- =====================================================
+-- STEP 1: Re-price trips
+-- =====================================================
+-- p_changes: [{ "id", "freight_rate", "billing_type", "income_amount" }].
+-- Returns the number of trips updated; the rest were invoiced meanwhile.
+CREATE OR REPLACE FUNCTION public.reprice_trips(p_changes JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.trips AS trip
+  SET freight_rate = change.freight_rate,
+      billing_type = change.billing_type::public.billing_type,
+      income_amount = change.income_amount,
+      net_profit = CASE
+        WHEN trip.total_expense IS NULL THEN trip.net_profit
+        ELSE ROUND(COALESCE(change.income_amount, 0) - trip.total_expense, 2)
+      END,
+      profit_status = CASE
+        WHEN trip.total_expense IS NULL THEN trip.profit_status
+        WHEN COALESCE(change.income_amount, 0) > trip.total_expense THEN 'profit'
+        WHEN COALESCE(change.income_amount, 0) < trip.total_expense THEN 'loss'
+        ELSE 'neutral'
+      END
+  FROM jsonb_to_recordset(COALESCE(p_changes, '[]'::jsonb))
+    AS change(id UUID, freight_rate NUMERIC, billing_type TEXT, income_amount NUMERIC)
+  WHERE trip.id = change.id
+    AND trip.invoice_id IS NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reprice_trips(JSONB) TO authenticated;
+
+-- =====================================================
+-- STEP 2: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.reprice_trips(JSONB) IS
+  'Writes re-priced freight and income to uninvoiced trips in one transaction and returns how many were updated';
@@ -0,0 +1,89 @@
+/*
+  # Number and insert consignment notes together
+
+  The LR number was taken from next_consignment_number() in one request and
+  the note inserted in another, so a failed insert burned the number and left
+  a gap in the financial year's LR sequence. The number is now allocated and
+  the note inserted by one SQL function, so both succeed or neither does.
+
+  1. Schema Changes
+    - create_consignment_note(): takes the next LR number for the note's
+      organization and financial year and inserts the note with it
+
+  2. Security
+    - Runs as definer because consignment_sequences is not writable by
+      members; it checks the caller belongs to the note's organization
+    - next_consignment_number() is no longer callable from the client, so
+      numbers are only taken by notes that are saved
+*/
+
+-- =====================================================
+-- STEP 1: Allocate the LR number and insert the note
+-- =====================================================
+-- The sequence row stays locked until the transaction ends and rolls back
+-- with it, so a failed insert does not leave a gap.
+CREATE OR REPLACE FUNCTION public.create_consignment_note(p_note JSONB)
+RETURNS public.consignment_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_note public.consignment_notes;
+  v_next INTEGER;
+BEGIN
+  v_note := jsonb_populate_record(NULL::public.consignment_notes, p_note);
+
+  IF v_note.organization_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE user_id = auth.uid() AND organization_id = v_note.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.trips
+    WHERE id = v_note.trip_id AND organization_id = v_note.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF v_note.financial_year IS NULL THEN
+    RAISE EXCEPTION 'Financial year is required';
+  END IF;
+
+  INSERT INTO public.consignment_sequences (organization_id, financial_year, last_number)
+  VALUES (v_note.organization_id, v_note.financial_year, 1)
+  ON CONFLICT (organization_id, financial_year)
+  DO UPDATE SET last_number = public.consignment_sequences.last_number + 1
+  RETURNING last_number INTO v_next;
+
+  INSERT INTO public.consignment_notes
+  SELECT * FROM jsonb_populate_record(NULL::public.consignment_notes, p_note || jsonb_build_object(
+    'id', gen_random_uuid(),
+    'lr_number', 'LR/' || v_note.financial_year || '/' ||
+      LPAD(v_next::TEXT, GREATEST(4, LENGTH(v_next::TEXT)), '0'),
+    'lr_date', COALESCE(v_note.lr_date, CURRENT_DATE),
+    'status', 'active',
+    'created_by', auth.uid(),
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))
+  RETURNING * INTO v_note;
+
+  RETURN v_note;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_consignment_note(JSONB) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.next_consignment_number(UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- STEP 2: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.create_consignment_note(JSONB) IS
+  'Allocates the next LR number for the financial year and inserts the consignment note in one transaction';
+
+COMMENT ON COLUMN public.consignment_notes.lr_number IS
+  'LR/<financial year>/<sequence>, assigned by create_consignment_note()';
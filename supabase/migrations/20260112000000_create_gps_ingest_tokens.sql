@@ -0,0 +1,129 @@
+/*
+  # Per-device tokens for pushing GPS tracks
+
+  Trackers and telematics integrations could only push tracks to
+  ingest-gps-track with the service role key, which bypasses every policy in
+  every organization. Each device or integration now gets its own token,
+  issued by an organization admin, optionally limited to one vehicle. Only a
+  SHA-256 hash of the token is stored, and a token stops working as soon as
+  it is revoked.
+
+  1. Schema Changes
+    - Create gps_ingest_tokens table (name, optional vehicle, token hash,
+      last used and revoked times)
+    - create_gps_ingest_token(): generates a token, stores its hash and
+      returns the token once
+
+  2. Security
+    - Enable RLS
+    - Organization admins can view, issue and revoke their organization's
+      tokens; tokens are never deleted so past pushes stay attributable
+    - The edge function looks tokens up by hash with the service role
+*/
+
+-- =====================================================
+-- STEP 1: Create gps_ingest_tokens table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.gps_ingest_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix VARCHAR(12) NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gps_ingest_tokens_org
+  ON public.gps_ingest_tokens (organization_id, created_at DESC);
+
+-- =====================================================
+-- STEP 2: Issue a token
+-- =====================================================
+-- Two random UUIDs give 244 random bits without needing pgcrypto. The token
+-- itself is returned only here; it cannot be read back later.
+CREATE OR REPLACE FUNCTION public.create_gps_ingest_token(
+  p_organization_id UUID,
+  p_name TEXT,
+  p_vehicle_id UUID DEFAULT NULL
+)
+RETURNS TABLE (id UUID, token TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_token TEXT := 'gps_' || REPLACE(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+  v_id UUID;
+BEGIN
+  IF NOT public.is_organization_admin(p_organization_id) THEN
+    RAISE EXCEPTION 'Only organization admins can issue tracker tokens';
+  END IF;
+
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Name the device or integration the token is for';
+  END IF;
+
+  IF p_vehicle_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.vehicles
+    WHERE vehicles.id = p_vehicle_id AND organization_id = p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Vehicle not found';
+  END IF;
+
+  INSERT INTO public.gps_ingest_tokens (organization_id, name, vehicle_id, token_hash, token_prefix, created_by)
+  VALUES (
+    p_organization_id,
+    TRIM(p_name),
+    p_vehicle_id,
+    ENCODE(SHA256(CONVERT_TO(v_token, 'UTF8')), 'hex'),
+    LEFT(v_token, 12),
+    auth.uid()
+  )
+  RETURNING gps_ingest_tokens.id INTO v_id;
+
+  RETURN QUERY SELECT v_id, v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_gps_ingest_token(UUID, TEXT, UUID) TO authenticated;
+
+-- =====================================================
+-- STEP 3: Enable RLS
+-- =====================================================
+ALTER TABLE public.gps_ingest_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org admins can view GPS ingest tokens"
+ON public.gps_ingest_tokens
+FOR SELECT
+USING (public.is_organization_admin(organization_id));
+
+CREATE POLICY "Org admins can issue GPS ingest tokens"
+ON public.gps_ingest_tokens
+FOR INSERT
+WITH CHECK (public.is_organization_admin(organization_id));
+
+-- Revoking is the only change made from the app
+CREATE POLICY "Org admins can revoke GPS ingest tokens"
+ON public.gps_ingest_tokens
+FOR UPDATE
+USING (public.is_organization_admin(organization_id))
+WITH CHECK (public.is_organization_admin(organization_id));
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON TABLE public.gps_ingest_tokens IS
+  'Tokens trackers and telematics integrations use to push tracks to ingest-gps-track';
+
+COMMENT ON COLUMN public.gps_ingest_tokens.token_hash IS
+  'Hex SHA-256 of the token; the token itself is only shown when issued';
+
+COMMENT ON COLUMN public.gps_ingest_tokens.vehicle_id IS
+  'When set, the token can only push tracks for this vehicle''s trips';
+
+COMMENT ON COLUMN public.gps_ingest_tokens.revoked_at IS
+  'Set when an admin revokes the token; revoked tokens are rejected';
@@ -0,0 +1,318 @@
+/*
+  # Enforce deactivation, warehouse access and owner protection in RLS
+
+  Team management recorded whether a member was active and which warehouses
+  they could use, but the policies only checked that a membership existed,
+  so a deactivated member kept full access and warehouse limits were only
+  applied by the app. Admins could also make any member an owner or change
+  the owner's own membership, and someone who already had an account was
+  added to an organization without being asked.
+
+  1. Schema Changes
+    - get_user_organization_id() only returns active memberships
+    - is_active_member() and can_access_warehouse() helpers
+    - get_my_invitations() and accept_organization_invitation() for
+      invitations to people who already have an account
+    - get_organization_members() only marks invitations accepted once the
+      membership exists
+
+  2. Security
+    - Restrictive policy on every organization table with RLS: only active
+      members (or the owner) can read or write its rows
+    - Restrictive policies on trips, planned trips and stock movements
+      limiting members to their warehouses
+    - Admins can no longer make a member an owner, change an owner's
+      membership, or change or remove the organization owner's row
+*/
+
+-- =====================================================
+-- STEP 1: Membership helpers
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_user_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id
+  FROM public.organization_users
+  WHERE user_id = auth.uid()
+    AND is_active
+  ORDER BY created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_active_member(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND is_active
+  ) OR EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = auth.uid()
+  );
+$$;
+
+-- Rows without a warehouse stay visible to every member; NULL warehouse_ids
+-- on the membership means every warehouse
+CREATE OR REPLACE FUNCTION public.can_access_warehouse(p_organization_id UUID, p_warehouse_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_warehouse_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND is_active
+      AND (warehouse_ids IS NULL OR p_warehouse_id = ANY(warehouse_ids))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_organization_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_active_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_warehouse(UUID, UUID) TO authenticated;
+
+-- =====================================================
+-- STEP 2: Only active members reach organization data
+-- =====================================================
+-- Added to every table that has RLS and an organization_id today. The
+-- membership and invitation tables are left out so deactivated members can
+-- still see why they were locked out; tables created later need the same
+-- policy in their own migration.
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOR v_table IN
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attname = 'organization_id' AND NOT a.attisdropped
+    WHERE n.nspname = 'public'
+      AND c.relkind = 'r'
+      AND c.relrowsecurity
+      AND c.relname NOT IN ('organization_users', 'organization_invitations')
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Only active members can access organization data', v_table);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR ALL TO authenticated
+         USING (organization_id IS NULL OR public.is_active_member(organization_id))
+         WITH CHECK (organization_id IS NULL OR public.is_active_member(organization_id))',
+      'Only active members can access organization data',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- =====================================================
+-- STEP 3: Warehouse access
+-- =====================================================
+DROP POLICY IF EXISTS "Members only reach trips of their warehouses" ON public.trips;
+CREATE POLICY "Members only reach trips of their warehouses"
+ON public.trips
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.can_access_warehouse(organization_id, warehouse_id))
+WITH CHECK (public.can_access_warehouse(organization_id, warehouse_id));
+
+DROP POLICY IF EXISTS "Members only reach plans of their warehouses" ON public.planned_trips;
+CREATE POLICY "Members only reach plans of their warehouses"
+ON public.planned_trips
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.can_access_warehouse(organization_id, warehouse_id))
+WITH CHECK (public.can_access_warehouse(organization_id, warehouse_id));
+
+DROP POLICY IF EXISTS "Members only reach stock of their warehouses" ON public.part_stock_movements;
+CREATE POLICY "Members only reach stock of their warehouses"
+ON public.part_stock_movements
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.can_access_warehouse(organization_id, warehouse_id))
+WITH CHECK (public.can_access_warehouse(organization_id, warehouse_id));
+
+-- =====================================================
+-- STEP 4: Admins cannot hand out or change ownership
+-- =====================================================
+-- Owners are only added through invite-team-member, which checks that the
+-- inviter is an owner.
+DROP POLICY IF EXISTS "Org admins can update other members" ON public.organization_users;
+CREATE POLICY "Org admins can update other members"
+ON public.organization_users
+FOR UPDATE
+USING (
+  public.is_organization_admin(organization_id)
+  AND user_id <> auth.uid()
+  AND role <> 'owner'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.organizations o
+    WHERE o.id = organization_id AND o.owner_id = user_id
+  )
+)
+WITH CHECK (
+  public.is_organization_admin(organization_id)
+  AND user_id <> auth.uid()
+  AND role <> 'owner'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.organizations o
+    WHERE o.id = organization_id AND o.owner_id = user_id
+  )
+);
+
+-- Revoking an owner's pending invitation still removes its membership
+DROP POLICY IF EXISTS "Org admins can remove invited members" ON public.organization_users;
+CREATE POLICY "Org admins can remove invited members"
+ON public.organization_users
+FOR DELETE
+USING (
+  public.is_organization_admin(organization_id)
+  AND user_id <> auth.uid()
+  AND NOT EXISTS (
+    SELECT 1 FROM public.organizations o
+    WHERE o.id = organization_id AND o.owner_id = user_id
+  )
+);
+
+-- =====================================================
+-- STEP 5: Invitations to existing accounts are accepted by the invitee
+-- =====================================================
+-- Only invitations whose membership already exists (new accounts) are
+-- accepted by signing in; existing accounts accept them explicitly.
+CREATE OR REPLACE FUNCTION public.get_organization_members(p_organization_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  custom_role_id UUID,
+  is_active BOOLEAN,
+  warehouse_ids UUID[],
+  invited_by UUID,
+  joined_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_organization_admin(p_organization_id) THEN
+    RAISE EXCEPTION 'Only admins can view team members';
+  END IF;
+
+  UPDATE public.organization_invitations i
+  SET status = 'accepted', accepted_at = u.last_sign_in_at
+  FROM auth.users u
+  WHERE i.organization_id = p_organization_id
+    AND i.status = 'sent'
+    AND u.id = i.user_id
+    AND u.last_sign_in_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.organization_users m
+      WHERE m.organization_id = i.organization_id AND m.user_id = i.user_id
+    );
+
+  RETURN QUERY
+  SELECT ou.user_id, u.email::TEXT, ou.role::TEXT, ou.custom_role_id, ou.is_active, ou.warehouse_ids,
+         ou.invited_by, ou.created_at, u.last_sign_in_at
+  FROM public.organization_users ou
+  JOIN auth.users u ON u.id = ou.user_id
+  WHERE ou.organization_id = p_organization_id
+  ORDER BY ou.is_active DESC, u.email;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_invitations()
+RETURNS TABLE (
+  id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  role TEXT,
+  warehouse_ids UUID[],
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.organization_id, o.name::TEXT, i.role::TEXT, i.warehouse_ids, i.created_at
+  FROM public.organization_invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.user_id = auth.uid()
+    AND i.status = 'sent'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_users m
+      WHERE m.organization_id = i.organization_id AND m.user_id = i.user_id
+    )
+  ORDER BY i.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organization_invitations;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.organization_invitations
+  WHERE id = p_invitation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invitation.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.status <> 'sent' THEN
+    RAISE EXCEPTION 'This invitation has been %', v_invitation.status;
+  END IF;
+
+  INSERT INTO public.organization_users (user_id, organization_id, role, warehouse_ids, invited_by)
+  VALUES (auth.uid(), v_invitation.organization_id, v_invitation.role, v_invitation.warehouse_ids, v_invitation.invited_by)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.organization_invitations
+  SET status = 'accepted', accepted_at = NOW()
+  WHERE id = p_invitation_id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_organization_members(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) TO authenticated;
+
+-- =====================================================
+-- STEP 6: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.is_active_member(UUID) IS
+  'Whether the caller owns the organization or is an active member of it';
+
+COMMENT ON FUNCTION public.can_access_warehouse(UUID, UUID) IS
+  'Whether the caller''s membership covers the warehouse; rows without a warehouse are open to every member';
+
+COMMENT ON FUNCTION public.accept_organization_invitation(UUID) IS
+  'Adds the caller to the organization with the invited role and warehouses, and marks the invitation accepted';
+
+COMMENT ON TABLE public.organization_invitations IS
+  'Team invitations sent from Admin → Team; new accounts accept by signing in, existing accounts accept in the app';
@@ -0,0 +1,300 @@
+/*
+  # Enforce the permission matrix and hidden fields in the database
+
+  The permission matrix was only checked by the app, apart from deletes of
+  trips, vehicles and drivers, so a member could still read, create or edit
+  a module their role does not allow by calling the API directly. Revenue
+  and salary were hidden by removing them from responses in the browser,
+  after the database had already sent them.
+
+  Every policy check now happens here. Revenue columns of trips and the
+  salary column of drivers can no longer be read from the tables by any
+  client; the app reads trips_visible and drivers_visible, which return
+  them only to members whose role does not hide them.
+
+  1. Schema Changes
+    - role_default_hidden_fields() and can_view_field() helpers
+    - trips_visible and drivers_visible views with the sensitive columns
+      masked per member
+    - Triggers keeping hidden columns unchanged when a member who cannot
+      see them saves a trip or driver
+    - reprice_trips() no longer reads profit columns, so it still runs as
+      the caller
+
+  2. Security
+    - Restrictive policies requiring the view, create and edit permissions
+      on trips, vehicles, drivers and maintenance tasks, and delete on
+      maintenance tasks
+    - SELECT on the revenue columns of trips and the salary column of
+      drivers revoked from clients
+*/
+
+-- =====================================================
+-- STEP 1: Hidden field checks
+-- =====================================================
+-- Keep in step with DEFAULT_ROLE_PERMISSIONS in src/utils/permissionMatrix.ts
+CREATE OR REPLACE FUNCTION public.role_default_hidden_fields(p_role TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_role IN ('owner', 'admin', 'manager') THEN '{}'::TEXT[]
+    ELSE ARRAY['revenue', 'salary']
+  END;
+$$;
+
+-- A custom role replaces the fixed role's hidden fields, as in the app
+CREATE OR REPLACE FUNCTION public.can_view_field(p_organization_id UUID, p_field TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.organization_users ou
+    LEFT JOIN public.organization_roles r ON r.id = ou.custom_role_id
+    WHERE ou.organization_id = p_organization_id
+      AND ou.user_id = auth.uid()
+      AND ou.is_active
+      AND NOT p_field = ANY (
+        CASE WHEN r.id IS NULL THEN public.role_default_hidden_fields(ou.role) ELSE r.hidden_fields END
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_field(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- STEP 2: Permission matrix policies
+-- =====================================================
+-- On top of the existing policies, like the delete checks added with the
+-- matrix. Editing a row also needs the view permission, which every other
+-- action implies.
+DO $$
+DECLARE
+  v_target RECORD;
+BEGIN
+  FOR v_target IN
+    SELECT *
+    FROM (VALUES
+      ('trips', 'trips'),
+      ('vehicles', 'vehicles'),
+      ('drivers', 'drivers'),
+      ('maintenance_tasks', 'maintenance')
+    ) AS t(table_name, module)
+    WHERE EXISTS (
+      SELECT 1 FROM pg_attribute a
+      WHERE a.attrelid = format('public.%I', t.table_name)::regclass
+        AND a.attname = 'organization_id'
+        AND NOT a.attisdropped
+    )
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Viewing needs the ' || v_target.module || ' view permission', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR SELECT TO authenticated
+         USING (public.has_permission(organization_id, %L, ''view''))',
+      'Viewing needs the ' || v_target.module || ' view permission', v_target.table_name, v_target.module
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Creating needs the ' || v_target.module || ' create permission', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated
+         WITH CHECK (public.has_permission(organization_id, %L, ''create''))',
+      'Creating needs the ' || v_target.module || ' create permission', v_target.table_name, v_target.module
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Editing needs the ' || v_target.module || ' edit permission', v_target.table_name);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated
+         USING (public.has_permission(organization_id, %L, ''edit''))
+         WITH CHECK (public.has_permission(organization_id, %L, ''edit''))',
+      'Editing needs the ' || v_target.module || ' edit permission', v_target.table_name, v_target.module, v_target.module
+    );
+  END LOOP;
+END $$;
+
+-- Trips, vehicles and drivers already check deletes
+DROP POLICY IF EXISTS "Deleting maintenance tasks needs the maintenance delete permission" ON public.maintenance_tasks;
+CREATE POLICY "Deleting maintenance tasks needs the maintenance delete permission"
+ON public.maintenance_tasks
+AS RESTRICTIVE
+FOR DELETE
+USING (public.has_permission(organization_id, 'maintenance', 'delete'));
+
+-- =====================================================
+-- STEP 3: Sensitive columns
+-- =====================================================
+-- Clients keep SELECT on every other column, so filters, counts and joins
+-- on the tables still work. Columns added to these tables later need their
+-- own GRANT and a view refresh (re-run this block in that migration).
+--
+-- The views run as their owner, so they repeat the row checks of the table
+-- policies: view permission, and warehouse access for trips. Active
+-- membership is part of has_permission.
+DO $$
+DECLARE
+  v_target RECORD;
+  v_visible TEXT;
+  v_granted TEXT;
+BEGIN
+  FOR v_target IN
+    SELECT *
+    FROM (VALUES
+      ('trips', 'trips', 'revenue',
+        ARRAY['freight_rate', 'billing_type', 'income_amount', 'net_profit', 'profit_status', 'contract_rate_id'],
+        'public.can_access_warehouse(t.organization_id, t.warehouse_id)'),
+      ('drivers', 'drivers', 'salary', ARRAY['salary'], 'TRUE')
+    ) AS t(table_name, module, field, hidden_columns, row_check)
+  LOOP
+    SELECT
+      string_agg(
+        CASE WHEN a.attname = ANY (v_target.hidden_columns)
+          THEN format('CASE WHEN public.can_view_field(t.organization_id, %L) THEN t.%I END AS %I', v_target.field, a.attname, a.attname)
+          ELSE format('t.%I', a.attname)
+        END,
+        ', ' ORDER BY a.attnum
+      ),
+      string_agg(format('%I', a.attname), ', ' ORDER BY a.attnum) FILTER (WHERE NOT a.attname = ANY (v_target.hidden_columns))
+    INTO v_visible, v_granted
+    FROM pg_attribute a
+    WHERE a.attrelid = format('public.%I', v_target.table_name)::regclass
+      AND a.attnum > 0
+      AND NOT a.attisdropped;
+
+    EXECUTE format('DROP VIEW IF EXISTS public.%I', v_target.table_name || '_visible');
+    EXECUTE format(
+      'CREATE VIEW public.%I WITH (security_barrier = true) AS
+         SELECT %s
+         FROM public.%I t
+         WHERE public.has_permission(t.organization_id, %L, ''view'')
+           AND %s',
+      v_target.table_name || '_visible', v_visible, v_target.table_name, v_target.module, v_target.row_check
+    );
+    EXECUTE format('REVOKE ALL ON public.%I FROM PUBLIC, anon', v_target.table_name || '_visible');
+    EXECUTE format('GRANT SELECT ON public.%I TO authenticated', v_target.table_name || '_visible');
+
+    EXECUTE format('REVOKE SELECT ON public.%I FROM PUBLIC, anon, authenticated', v_target.table_name);
+    EXECUTE format('GRANT SELECT (%s) ON public.%I TO authenticated', v_granted, v_target.table_name);
+  END LOOP;
+END $$;
+
+-- =====================================================
+-- STEP 4: Hidden columns cannot be overwritten
+-- =====================================================
+-- New trips keep the income priced from the freight rate table when they
+-- are created; after that only members who can see revenue change it.
+-- Server-side jobs without a user are not affected.
+CREATE OR REPLACE FUNCTION public.keep_hidden_trip_revenue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.can_view_field(OLD.organization_id, 'revenue') THEN
+    NEW.freight_rate := OLD.freight_rate;
+    NEW.billing_type := OLD.billing_type;
+    NEW.income_amount := OLD.income_amount;
+    NEW.net_profit := OLD.net_profit;
+    NEW.profit_status := OLD.profit_status;
+    NEW.contract_rate_id := OLD.contract_rate_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_keep_hidden_trip_revenue ON public.trips;
+CREATE TRIGGER trg_keep_hidden_trip_revenue
+  BEFORE UPDATE ON public.trips
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_hidden_trip_revenue();
+
+CREATE OR REPLACE FUNCTION public.keep_hidden_driver_salary()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.can_view_field(NEW.organization_id, 'salary') THEN
+    NEW.salary := CASE WHEN TG_OP = 'UPDATE' THEN OLD.salary END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_keep_hidden_driver_salary ON public.drivers;
+CREATE TRIGGER trg_keep_hidden_driver_salary
+  BEFORE INSERT OR UPDATE ON public.drivers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_hidden_driver_salary();
+
+-- =====================================================
+-- STEP 5: Re-pricing without reading profit
+-- =====================================================
+-- Profit is only recalculated where expenses are totalled, so the two cases
+-- are separate updates instead of reading the current profit back.
+CREATE OR REPLACE FUNCTION public.reprice_trips(p_changes JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+  v_totalled INTEGER;
+BEGIN
+  UPDATE public.trips AS trip
+  SET freight_rate = change.freight_rate,
+      billing_type = change.billing_type::public.billing_type,
+      income_amount = change.income_amount
+  FROM jsonb_to_recordset(COALESCE(p_changes, '[]'::jsonb))
+    AS change(id UUID, freight_rate NUMERIC, billing_type TEXT, income_amount NUMERIC)
+  WHERE trip.id = change.id
+    AND trip.invoice_id IS NULL
+    AND trip.total_expense IS NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE public.trips AS trip
+  SET freight_rate = change.freight_rate,
+      billing_type = change.billing_type::public.billing_type,
+      income_amount = change.income_amount,
+      net_profit = ROUND(COALESCE(change.income_amount, 0) - trip.total_expense, 2),
+      profit_status = CASE
+        WHEN COALESCE(change.income_amount, 0) > trip.total_expense THEN 'profit'
+        WHEN COALESCE(change.income_amount, 0) < trip.total_expense THEN 'loss'
+        ELSE 'neutral'
+      END
+  FROM jsonb_to_recordset(COALESCE(p_changes, '[]'::jsonb))
+    AS change(id UUID, freight_rate NUMERIC, billing_type TEXT, income_amount NUMERIC)
+  WHERE trip.id = change.id
+    AND trip.invoice_id IS NULL
+    AND trip.total_expense IS NOT NULL;
+
+  GET DIAGNOSTICS v_totalled = ROW_COUNT;
+  RETURN v_updated + v_totalled;
+END;
+$$;
+
+-- =====================================================
+-- STEP 6: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.can_view_field(UUID, TEXT) IS
+  'Whether the caller''s role leaves the sensitive field (revenue, salary) visible in the organization';
+
+COMMENT ON VIEW public.trips_visible IS
+  'Trips the caller may view, with revenue and profit columns empty unless their role shows revenue';
+
+COMMENT ON VIEW public.drivers_visible IS
+  'Drivers the caller may view, with salary empty unless their role shows salary';
+
+COMMENT ON FUNCTION public.keep_hidden_trip_revenue() IS
+  'Keeps revenue and profit unchanged when a member whose role hides revenue edits a trip';
+
+COMMENT ON FUNCTION public.keep_hidden_driver_salary() IS
+  'Keeps salary unchanged (empty on new drivers) when a member whose role hides salary saves a driver';
@@ -0,0 +1,300 @@
+/*
+  # Approve trip change requests in one transaction
+
+  Approving a request marked it approved, then wrote the change with
+  separate requests from the browser and put the request back to pending if
+  that failed, so a failure part-way left a half-applied change or an
+  approved request that was never applied. The change was also written over
+  whatever the trip held by then, even if it had been edited after the
+  maker's request, and an odometer cascade moved later trips that had been
+  verified since the preview.
+
+  The request is now approved and applied by one SQL function. It checks
+  every field the request changes still holds the value the maker saw; if
+  not, the request is rejected as stale and nothing is written. A cascade
+  stops if any trip it would move has been verified. An edit only writes
+  the new values listed in its field-level diff, for fields on the trip
+  form, so a request cannot carry changes the reviewer was not shown.
+
+  1. Schema Changes
+    - trip_change_values_equal(): compares a trip value with the one the
+      maker saw, the way the app diffs them
+    - apply_trip_change_request(): approves a pending request and applies
+      its edit, odometer cascade or deletion
+
+  2. Security
+    - Runs as definer so cascades reach trips other members created and are
+      logged in trip_corrections; it checks the caller may review requests
+      (admin edit permission), may make the change on trips, and can reach
+      the trip's warehouse
+*/
+
+-- =====================================================
+-- STEP 1: Compare a trip value with the one the maker saw
+-- =====================================================
+-- Empty values are alike and numbers compare by value, so "5000" from a
+-- form equals 5000 (comparable() in src/utils/tripChangeRequests.ts).
+CREATE OR REPLACE FUNCTION public.trip_change_values_equal(p_current JSONB, p_expected JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_current TEXT := CASE WHEN jsonb_typeof(p_current) IN ('string', 'number') THEN TRIM(p_current #>> '{}') END;
+  v_expected TEXT := CASE WHEN jsonb_typeof(p_expected) IN ('string', 'number') THEN TRIM(p_expected #>> '{}') END;
+  v_number_pattern CONSTANT TEXT := '^-?[0-9]+(\.[0-9]+)?$';
+BEGIN
+  IF COALESCE(jsonb_typeof(p_current), 'null') = 'null' OR v_current = '' THEN
+    p_current := NULL;
+  END IF;
+  IF COALESCE(jsonb_typeof(p_expected), 'null') = 'null' OR v_expected = '' THEN
+    p_expected := NULL;
+  END IF;
+
+  IF p_current IS NULL OR p_expected IS NULL THEN
+    RETURN p_current IS NULL AND p_expected IS NULL;
+  END IF;
+
+  IF v_current ~ v_number_pattern AND v_expected ~ v_number_pattern THEN
+    RETURN v_current::NUMERIC = v_expected::NUMERIC;
+  END IF;
+
+  IF v_current IS NOT NULL AND v_expected IS NOT NULL THEN
+    RETURN v_current = v_expected;
+  END IF;
+
+  RETURN p_current = p_expected;
+END;
+$$;
+
+-- =====================================================
+-- STEP 2: Approve and apply a request
+-- =====================================================
+-- p_pricing holds freight_rate, billing_type and income_amount re-priced
+-- from the freight rate table by the app when an edit moves the trip's
+-- route; it is written with the edit and any other key is ignored.
+CREATE OR REPLACE FUNCTION public.apply_trip_change_request(
+  p_request_id UUID,
+  p_review_reason TEXT DEFAULT NULL,
+  p_pricing JSONB DEFAULT NULL
+)
+RETURNS public.trip_change_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.trip_change_requests;
+  v_trip public.trips;
+  v_current JSONB;
+  v_stale TEXT;
+  v_values JSONB;
+  v_set TEXT;
+  v_difference NUMERIC;
+  v_later RECORD;
+  -- Keep in step with TRIP_REQUEST_FIELDS in src/utils/tripChangeRequests.ts
+  v_editable_fields CONSTANT TEXT[] := ARRAY[
+    'vehicle_id', 'driver_id', 'warehouse_id', 'destinations', 'material_type_ids', 'customer_id',
+    'trip_start_date', 'trip_end_date', 'start_km', 'end_km', 'gross_weight', 'refueling_done',
+    'refuelings', 'fuel_quantity', 'fuel_cost', 'total_fuel_cost', 'unloading_expense',
+    'driver_expense', 'road_rto_expense', 'toll_expense', 'breakdown_expense',
+    'miscellaneous_expense', 'total_road_expenses', 'advance_amount', 'fuel_bill_url',
+    'is_return_trip', 'remarks'
+  ];
+BEGIN
+  SELECT * INTO v_request
+  FROM public.trip_change_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_permission(v_request.organization_id, 'admin', 'edit') THEN
+    RAISE EXCEPTION 'Trip change request not found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been reviewed';
+  END IF;
+
+  SELECT * INTO v_trip
+  FROM public.trips
+  WHERE id = v_request.trip_id
+    AND organization_id = v_request.organization_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The trip of this request no longer exists';
+  END IF;
+
+  IF NOT public.can_access_warehouse(v_trip.organization_id, v_trip.warehouse_id) THEN
+    RAISE EXCEPTION 'You do not have access to this trip''s warehouse';
+  END IF;
+
+  IF NOT public.has_permission(
+    v_trip.organization_id, 'trips',
+    CASE WHEN v_request.request_type = 'delete' THEN 'delete' ELSE 'edit' END
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to % trips',
+      CASE WHEN v_request.request_type = 'delete' THEN 'delete' ELSE 'edit' END;
+  END IF;
+
+  -- The maker's request is only valid for the trip as they saw it
+  v_current := to_jsonb(v_trip);
+
+  SELECT string_agg(COALESCE(change->>'label', change->>'field'), ', ')
+  INTO v_stale
+  FROM jsonb_array_elements(COALESCE(v_request.changes, '[]'::jsonb)) AS change
+  WHERE NOT public.trip_change_values_equal(v_current -> (change->>'field'), change->'old_value');
+
+  IF v_stale IS NOT NULL THEN
+    UPDATE public.trip_change_requests
+    SET status = 'rejected',
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW(),
+        review_reason = 'The trip changed after this request was made (' || v_stale || '); submit a new request'
+    WHERE id = p_request_id
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+  END IF;
+
+  IF v_request.request_type = 'edit' THEN
+    -- Only the fields the reviewer was shown are written, and only fields a
+    -- maker edits on the trip form
+    SELECT string_agg(DISTINCT field, ', ')
+    INTO v_stale
+    FROM (
+      SELECT change->>'field' AS field
+      FROM jsonb_array_elements(COALESCE(v_request.changes, '[]'::jsonb)) AS change
+      UNION ALL
+      SELECT key FROM jsonb_object_keys(COALESCE(v_request.proposed_values, '{}'::jsonb)) AS key
+    ) requested
+    WHERE NOT field = ANY (v_editable_fields)
+       OR NOT EXISTS (
+         SELECT 1 FROM jsonb_array_elements(COALESCE(v_request.changes, '[]'::jsonb)) AS change
+         WHERE change->>'field' = requested.field
+       );
+
+    IF v_stale IS NOT NULL THEN
+      RAISE EXCEPTION 'This request changes fields that cannot be changed by a request (%); reject it', v_stale;
+    END IF;
+
+    -- Blank form values clear the field, as on a direct update
+    SELECT jsonb_object_agg(key, CASE WHEN value = '""'::jsonb THEN 'null'::jsonb ELSE value END)
+    INTO v_values
+    FROM jsonb_each(
+      COALESCE((
+        SELECT jsonb_object_agg(change->>'field', COALESCE(change->'new_value', 'null'::jsonb))
+        FROM jsonb_array_elements(v_request.changes) AS change
+      ), '{}'::jsonb)
+      || COALESCE((
+        SELECT jsonb_object_agg(key, value)
+        FROM jsonb_each(COALESCE(p_pricing, '{}'::jsonb))
+        WHERE key IN ('freight_rate', 'billing_type', 'income_amount')
+      ), '{}'::jsonb)
+    );
+
+    SELECT string_agg(format('%I = ($1).%I', a.attname, a.attname), ', ')
+    INTO v_set
+    FROM pg_attribute a
+    WHERE a.attrelid = 'public.trips'::regclass
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+      AND v_values ? a.attname;
+
+    IF v_set IS NOT NULL THEN
+      EXECUTE format('UPDATE public.trips SET %s WHERE id = $2', v_set)
+      USING jsonb_populate_record(v_trip, v_values), v_trip.id;
+    END IF;
+
+  ELSIF v_request.request_type = 'cascade' THEN
+    IF v_request.new_end_km IS NULL THEN
+      RAISE EXCEPTION 'This request has no new End KM';
+    END IF;
+
+    v_difference := v_request.new_end_km - v_trip.end_km;
+
+    -- Same trips as preview_cascade_impact, across every member's trips
+    SELECT string_agg(trip_serial_number, ', ' ORDER BY trip_start_date)
+    INTO v_stale
+    FROM public.trips
+    WHERE vehicle_id = v_trip.vehicle_id
+      AND organization_id = v_trip.organization_id
+      AND trip_start_date > v_trip.trip_end_date
+      AND deleted_at IS NULL
+      AND expense_verified;
+
+    IF v_difference <> 0 AND v_stale IS NOT NULL THEN
+      RAISE EXCEPTION 'Later trips % have been verified since this request was made; reject it and correct the odometer by hand', v_stale;
+    END IF;
+
+    UPDATE public.trips
+    SET end_km = v_request.new_end_km
+    WHERE id = v_trip.id;
+
+    INSERT INTO public.trip_corrections (
+      trip_id, field_name, old_value, new_value,
+      correction_reason, affects_subsequent_trips, corrected_by
+    ) VALUES (
+      v_trip.id, 'end_km', v_trip.end_km::TEXT, v_request.new_end_km::TEXT,
+      COALESCE(v_request.reason, 'Odometer correction from approved change request'), true, auth.uid()
+    );
+
+    IF v_trip.refueling_done THEN
+      PERFORM public.recalculate_trip_mileage(v_trip.id);
+    END IF;
+
+    IF v_difference <> 0 THEN
+      FOR v_later IN
+        SELECT id, start_km, end_km, refueling_done
+        FROM public.trips
+        WHERE vehicle_id = v_trip.vehicle_id
+          AND organization_id = v_trip.organization_id
+          AND trip_start_date > v_trip.trip_end_date
+          AND deleted_at IS NULL
+        ORDER BY trip_start_date
+        FOR UPDATE
+      LOOP
+        UPDATE public.trips
+        SET start_km = start_km + v_difference,
+            end_km = end_km + v_difference
+        WHERE id = v_later.id;
+
+        IF v_later.refueling_done THEN
+          PERFORM public.recalculate_trip_mileage(v_later.id);
+        END IF;
+
+        INSERT INTO public.trip_corrections (
+          trip_id, field_name, old_value, new_value,
+          correction_reason, affects_subsequent_trips, corrected_by
+        ) VALUES (
+          v_later.id, 'odometer_cascade',
+          format('%s-%s', v_later.start_km, v_later.end_km),
+          format('%s-%s', v_later.start_km + v_difference, v_later.end_km + v_difference),
+          COALESCE(v_request.reason, 'Odometer correction from approved change request'), true, auth.uid()
+        );
+      END LOOP;
+    END IF;
+
+  ELSE
+    DELETE FROM public.trips WHERE id = v_trip.id;
+  END IF;
+
+  UPDATE public.trip_change_requests
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_reason = NULLIF(TRIM(p_review_reason), '')
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_trip_change_request(UUID, TEXT, JSONB) TO authenticated;
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.apply_trip_change_request(UUID, TEXT, JSONB) IS
+  'Approves a pending trip change request and applies it in one transaction; rejects it as stale when the trip changed since it was made';
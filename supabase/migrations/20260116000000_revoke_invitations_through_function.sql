@@ -0,0 +1,157 @@
+/*
+  # Revoke invitations through a function
+
+  Admins could update any column of their organization's invitations, so
+  they could turn a pending invitation into an owner invitation or point it
+  at another user, and accept_organization_invitation() then granted the
+  role as stored. Only owners may invite owners.
+
+  1. Schema Changes
+    - revoke_organization_invitation(): withdraws a pending invitation and
+      removes the membership it created for a new account
+    - accept_organization_invitation() checks the inviter can still grant
+      the invited role
+
+  2. Security
+    - Drop the UPDATE policy on organization_invitations; invitations are
+      only changed by the invite-team-member edge function and the
+      functions here
+    - Only owners revoke owner invitations
+*/
+
+-- =====================================================
+-- STEP 1: Invitations are no longer updated directly
+-- =====================================================
+DROP POLICY IF EXISTS "Org admins can update invitations" ON public.organization_invitations;
+
+-- =====================================================
+-- STEP 2: Who can grant a role
+-- =====================================================
+-- Same rule as invite-team-member: admins and owners invite, and only
+-- owners invite owners
+CREATE OR REPLACE FUNCTION public.can_grant_organization_role(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.organization_users
+    WHERE organization_id = p_organization_id
+      AND user_id = p_user_id
+      AND is_active
+      AND (role = 'owner' OR (role = 'admin' AND p_role <> 'owner'))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_grant_organization_role(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_grant_organization_role(UUID, UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- STEP 3: Revoke an invitation
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.revoke_organization_invitation(p_invitation_id UUID)
+RETURNS public.organization_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organization_invitations;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.organization_invitations
+  WHERE id = p_invitation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_permission(v_invitation.organization_id, 'admin', 'delete') THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.status <> 'sent' THEN
+    RAISE EXCEPTION 'Only pending invitations can be revoked; deactivate the member instead';
+  END IF;
+
+  IF NOT public.can_grant_organization_role(v_invitation.organization_id, auth.uid(), v_invitation.role) THEN
+    RAISE EXCEPTION 'Only an owner can revoke an owner invitation';
+  END IF;
+
+  -- New accounts got their membership with the invitation; the organization
+  -- owner's own row is never removed
+  DELETE FROM public.organization_users ou
+  WHERE ou.organization_id = v_invitation.organization_id
+    AND ou.user_id = v_invitation.user_id
+    AND ou.user_id <> auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organizations o
+      WHERE o.id = ou.organization_id AND o.owner_id = ou.user_id
+    );
+
+  UPDATE public.organization_invitations
+  SET status = 'revoked', revoked_at = NOW(), revoked_by = auth.uid()
+  WHERE id = p_invitation_id
+  RETURNING * INTO v_invitation;
+
+  RETURN v_invitation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revoke_organization_invitation(UUID) TO authenticated;
+
+-- =====================================================
+-- STEP 4: Accept only roles the inviter can grant
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organization_invitations;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.organization_invitations
+  WHERE id = p_invitation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invitation.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.status <> 'sent' THEN
+    RAISE EXCEPTION 'This invitation has been %', v_invitation.status;
+  END IF;
+
+  IF NOT public.can_grant_organization_role(v_invitation.organization_id, v_invitation.invited_by, v_invitation.role) THEN
+    RAISE EXCEPTION 'This invitation is no longer valid; ask for a new one';
+  END IF;
+
+  INSERT INTO public.organization_users (user_id, organization_id, role, warehouse_ids, invited_by)
+  VALUES (auth.uid(), v_invitation.organization_id, v_invitation.role, v_invitation.warehouse_ids, v_invitation.invited_by)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.organization_invitations
+  SET status = 'accepted', accepted_at = NOW()
+  WHERE id = p_invitation_id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$;
+
+-- =====================================================
+-- STEP 5: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.can_grant_organization_role(UUID, UUID, TEXT) IS
+  'Whether the user can invite to the role: active admins for admin, manager and data entry, owners for any role';
+
+COMMENT ON FUNCTION public.revoke_organization_invitation(UUID) IS
+  'Marks a pending invitation revoked and removes the membership it created for a new account';
@@ -0,0 +1,148 @@
+/*
+  # Record tyre events in one transaction
+
+  A tyre event was inserted and the tyre moved to its new state by two
+  separate requests, so when the second failed (for example fitting to a
+  position another tyre already holds) the history said the tyre was fitted
+  while the register did not, and km per tyre went wrong. Rotating onto an
+  occupied position cleared the tyre's position first and could leave it
+  fitted with no position.
+
+  1. Schema Changes
+    - record_tyre_event(): checks the event against the tyre's state and
+      the target position, logs it and updates the tyre; a rotation onto an
+      occupied position swaps the two tyres and logs both moves
+
+  2. Security
+    - Runs as the caller, so the tyre policies still apply
+*/
+
+-- =====================================================
+-- STEP 1: Record an event and move the tyre
+-- =====================================================
+-- Same checks as validateTyreEvent() and state changes as applyTyreEvent()
+-- in src/utils/tyreLifecycle.ts. Returns the tyres that changed.
+CREATE OR REPLACE FUNCTION public.record_tyre_event(p_tyre_id UUID, p_event JSONB)
+RETURNS SETOF public.tyres
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_tyre public.tyres;
+  v_event public.tyre_events;
+  v_occupant public.tyres;
+BEGIN
+  SELECT * INTO v_tyre
+  FROM public.tyres
+  WHERE id = p_tyre_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tyre not found';
+  END IF;
+
+  v_event := jsonb_populate_record(NULL::public.tyre_events, p_event);
+  v_event.vehicle_id := COALESCE(v_event.vehicle_id, v_tyre.vehicle_id);
+  v_event.from_position := COALESCE(v_event.from_position, v_tyre.position);
+
+  IF (v_event.event_type IN ('fitted', 'removed') OR (v_event.event_type = 'scrapped' AND v_tyre.status = 'fitted'))
+     AND COALESCE(v_event.odometer, -1) < 0 THEN
+    RAISE EXCEPTION 'Odometer reading is required';
+  END IF;
+
+  IF v_event.event_type = 'fitted' AND v_tyre.status <> 'in_stock' THEN
+    RAISE EXCEPTION 'Only tyres in stock can be fitted';
+  ELSIF v_event.event_type IN ('removed', 'rotated') AND v_tyre.status <> 'fitted' THEN
+    RAISE EXCEPTION 'Tyre is not fitted to a vehicle';
+  ELSIF v_event.event_type = 'retreaded' AND v_tyre.status <> 'in_stock' THEN
+    RAISE EXCEPTION 'Remove the tyre before sending it for retreading';
+  ELSIF v_event.event_type = 'scrapped' AND v_tyre.status = 'scrapped' THEN
+    RAISE EXCEPTION 'Tyre is already scrapped';
+  ELSIF v_event.event_type = 'scrapped' AND COALESCE(TRIM(v_event.reason), '') = '' THEN
+    RAISE EXCEPTION 'Scrap reason is required';
+  END IF;
+
+  IF v_event.event_type IN ('fitted', 'rotated') THEN
+    IF v_event.vehicle_id IS NULL OR v_event.to_position IS NULL THEN
+      RAISE EXCEPTION 'Select a vehicle and position';
+    END IF;
+    IF v_event.event_type = 'rotated' AND v_event.to_position = v_tyre.position THEN
+      RAISE EXCEPTION 'Select a different position';
+    END IF;
+
+    SELECT * INTO v_occupant
+    FROM public.tyres
+    WHERE vehicle_id = v_event.vehicle_id
+      AND position = v_event.to_position
+      AND status = 'fitted'
+      AND id <> v_tyre.id
+    FOR UPDATE;
+
+    IF v_occupant.id IS NOT NULL AND v_event.event_type = 'fitted' THEN
+      RAISE EXCEPTION 'Position % already has tyre %', v_event.to_position, v_occupant.serial_number;
+    END IF;
+  END IF;
+
+  -- Swap: free the position, then move the occupant into it
+  IF v_occupant.id IS NOT NULL THEN
+    UPDATE public.tyres SET position = NULL WHERE id = v_tyre.id;
+
+    INSERT INTO public.tyre_events (
+      organization_id, tyre_id, vehicle_id, event_type, event_date, odometer,
+      from_position, to_position, notes, created_by
+    ) VALUES (
+      v_occupant.organization_id, v_occupant.id, v_occupant.vehicle_id, 'rotated', v_event.event_date, v_event.odometer,
+      v_occupant.position, v_tyre.position, v_event.notes, auth.uid()
+    );
+
+    UPDATE public.tyres
+    SET position = v_tyre.position, updated_at = NOW()
+    WHERE id = v_occupant.id
+    RETURNING * INTO v_occupant;
+
+    RETURN NEXT v_occupant;
+  END IF;
+
+  INSERT INTO public.tyre_events (
+    organization_id, tyre_id, vehicle_id, event_type, event_date, odometer,
+    from_position, to_position, cost, reason, notes, created_by
+  ) VALUES (
+    v_tyre.organization_id, v_tyre.id, v_event.vehicle_id, v_event.event_type, v_event.event_date, v_event.odometer,
+    v_event.from_position, v_event.to_position, v_event.cost, v_event.reason, v_event.notes, auth.uid()
+  );
+
+  UPDATE public.tyres
+  SET status = CASE v_event.event_type
+        WHEN 'fitted' THEN 'fitted'
+        WHEN 'removed' THEN 'in_stock'
+        WHEN 'scrapped' THEN 'scrapped'
+        ELSE status
+      END,
+      vehicle_id = CASE
+        WHEN v_event.event_type = 'fitted' THEN v_event.vehicle_id
+        WHEN v_event.event_type IN ('removed', 'scrapped') THEN NULL
+        ELSE vehicle_id
+      END,
+      position = CASE
+        WHEN v_event.event_type IN ('fitted', 'rotated') THEN v_event.to_position
+        WHEN v_event.event_type IN ('removed', 'scrapped') THEN NULL
+        ELSE position
+      END,
+      retread_count = retread_count + CASE WHEN v_event.event_type = 'retreaded' THEN 1 ELSE 0 END,
+      scrap_reason = CASE WHEN v_event.event_type = 'scrapped' THEN v_event.reason ELSE scrap_reason END,
+      updated_at = NOW()
+  WHERE id = v_tyre.id
+  RETURNING * INTO v_tyre;
+
+  RETURN NEXT v_tyre;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_tyre_event(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- STEP 2: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.record_tyre_event(UUID, JSONB) IS
+  'Logs a tyre event and moves the tyre to its new state in one transaction; rotating onto an occupied position swaps the tyres';
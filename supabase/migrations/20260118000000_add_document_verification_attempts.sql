@@ -0,0 +1,45 @@
+/*
+  # Track document re-verification attempts
+
+  reverify-documents takes the records verified longest ago first and stops
+  at 100 per type, but only stamped document_last_verified_at when a lookup
+  succeeded. Records whose lookup kept failing, and drivers without a licence
+  number or date of birth, stayed at the front of the queue and blocked the
+  rest of the fleet from ever being re-checked.
+
+  1. Schema Changes
+    - Add document_verification_attempted_at to vehicles and drivers; the job
+      stamps it on every check, whatever the result, and orders by it
+    - Backfill it from document_last_verified_at
+
+  2. Security
+    - No change; the column is written by the edge function (service role)
+*/
+
+-- =====================================================
+-- STEP 1: Add the attempt timestamp
+-- =====================================================
+ALTER TABLE public.vehicles
+  ADD COLUMN IF NOT EXISTS document_verification_attempted_at TIMESTAMPTZ;
+
+ALTER TABLE public.drivers
+  ADD COLUMN IF NOT EXISTS document_verification_attempted_at TIMESTAMPTZ;
+
+UPDATE public.vehicles
+SET document_verification_attempted_at = document_last_verified_at
+WHERE document_verification_attempted_at IS NULL
+  AND document_last_verified_at IS NOT NULL;
+
+UPDATE public.drivers
+SET document_verification_attempted_at = document_last_verified_at
+WHERE document_verification_attempted_at IS NULL
+  AND document_last_verified_at IS NOT NULL;
+
+-- =====================================================
+-- STEP 2: Documentation
+-- =====================================================
+COMMENT ON COLUMN public.vehicles.document_verification_attempted_at IS
+  'When reverify-documents last checked this vehicle, including failed lookups; orders the re-verification queue';
+
+COMMENT ON COLUMN public.drivers.document_verification_attempted_at IS
+  'When reverify-documents last checked this driver, including failed lookups and skipped drivers; orders the re-verification queue';
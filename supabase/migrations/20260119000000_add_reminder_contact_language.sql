@@ -0,0 +1,27 @@
+/*
+  # Reminder contact language
+
+  The scheduled reminder dispatch had no language to go by and sent every
+  message in English, so the Hindi templates were only used when someone
+  sent reminders by hand from a Hindi session.
+
+  1. Schema Changes
+    - Add language to reminder_contacts ('en' or 'hi'); dispatch-reminders
+      renders each contact's messages in it
+
+  2. Security
+    - No change; existing reminder_contacts policies cover the column
+*/
+
+-- =====================================================
+-- STEP 1: Add the language
+-- =====================================================
+ALTER TABLE public.reminder_contacts
+  ADD COLUMN IF NOT EXISTS language VARCHAR(5) NOT NULL DEFAULT 'en'
+  CHECK (language IN ('en', 'hi'));
+
+-- =====================================================
+-- STEP 2: Documentation
+-- =====================================================
+COMMENT ON COLUMN public.reminder_contacts.language IS
+  'Language reminders are sent to this contact in; picks the message template';
@@ -0,0 +1,106 @@
+/*
+  # Reverse driver ledger entries instead of deleting them
+
+  Any organization member could hard-delete a driver's advances and
+  settlements, so cash handed out could disappear from the statement with no
+  trace. Entries recorded by mistake are now cancelled by a reversing
+  adjustment that stays on the statement next to the original.
+
+  1. Schema Changes
+    - Add reverses_entry_id to driver_ledger_entries; an entry can be
+      reversed once
+    - reverse_driver_ledger_entry(): records the reversing adjustment
+
+  2. Security
+    - Only admins and owners can delete ledger entries
+*/
+
+-- =====================================================
+-- STEP 1: Link reversals to the entry they cancel
+-- =====================================================
+ALTER TABLE public.driver_ledger_entries
+  ADD COLUMN IF NOT EXISTS reverses_entry_id UUID
+  REFERENCES public.driver_ledger_entries(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_ledger_reverses_entry
+  ON public.driver_ledger_entries (reverses_entry_id)
+  WHERE reverses_entry_id IS NOT NULL;
+
+-- =====================================================
+-- STEP 2: Deleting is for admins only
+-- =====================================================
+DROP POLICY IF EXISTS "Org members can delete driver ledger" ON public.driver_ledger_entries;
+
+CREATE POLICY "Org admins can delete driver ledger"
+ON public.driver_ledger_entries
+FOR DELETE
+USING (public.is_organization_admin(organization_id));
+
+-- =====================================================
+-- STEP 3: Reverse an entry
+-- =====================================================
+-- The adjustment has the opposite effect on the balance (what the company
+-- owes the driver, as in buildDriverLedger()): advances and settlements paid
+-- lower it, cash returned raises it, adjustments move it by their amount.
+CREATE OR REPLACE FUNCTION public.reverse_driver_ledger_entry(
+  p_entry_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.driver_ledger_entries
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry public.driver_ledger_entries;
+  v_reversal public.driver_ledger_entries;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.driver_ledger_entries
+  WHERE id = p_entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ledger entry not found';
+  END IF;
+
+  IF v_entry.reverses_entry_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This entry is a reversal; record a new entry instead';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.driver_ledger_entries WHERE reverses_entry_id = v_entry.id) THEN
+    RAISE EXCEPTION 'This entry has already been reversed';
+  END IF;
+
+  INSERT INTO public.driver_ledger_entries (
+    organization_id, driver_id, trip_id, entry_type, amount, entry_date,
+    reference, notes, reverses_entry_id, created_by
+  ) VALUES (
+    v_entry.organization_id, v_entry.driver_id, v_entry.trip_id, 'adjustment',
+    CASE v_entry.entry_type
+      WHEN 'settlement_received' THEN -v_entry.amount
+      WHEN 'adjustment' THEN -v_entry.amount
+      ELSE v_entry.amount
+    END,
+    CURRENT_DATE,
+    v_entry.reference,
+    COALESCE('Reversal: ' || NULLIF(TRIM(p_reason), ''), 'Reversal'),
+    v_entry.id,
+    auth.uid()
+  )
+  RETURNING * INTO v_reversal;
+
+  RETURN v_reversal;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reverse_driver_ledger_entry(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- STEP 4: Documentation
+-- =====================================================
+COMMENT ON COLUMN public.driver_ledger_entries.reverses_entry_id IS
+  'Entry this adjustment cancels; set by reverse_driver_ledger_entry()';
+
+COMMENT ON FUNCTION public.reverse_driver_ledger_entry(UUID, TEXT) IS
+  'Cancels a driver ledger entry with an adjustment of opposite effect, dated today';
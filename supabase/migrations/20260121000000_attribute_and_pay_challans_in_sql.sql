@@ -0,0 +1,145 @@
+/*
+  # Attribute challans and record challan payments in SQL
+
+  Challans were matched to trips in the browser from the vehicle's trips as
+  the member could see them: one request capped at 1000 rows and limited to
+  the member's warehouses, so older challans and challans on trips from
+  other warehouses fell back to the primary driver. Payments were added to
+  amount_paid in the browser, so two payments recorded at once kept only
+  one, and nothing stopped paying more than the fine.
+
+  1. Schema Changes
+    - attribute_traffic_challans(): matches a vehicle's challans that are not
+      yet tied to a trip to the trip active when they were issued, across all
+      of the organization's trips
+    - record_challan_payment(): adds a payment to amount_paid in one
+      statement and rejects payments above the outstanding amount
+
+  2. Security
+    - attribute_traffic_challans() runs as definer so it sees every trip of
+      the vehicle; it only writes trip_id, driver_id and attribution, and
+      checks the caller is an active member of the vehicle's organization
+    - record_challan_payment() runs as the caller, so the challan policies
+      still apply
+*/
+
+-- =====================================================
+-- STEP 1: Match challans to trips
+-- =====================================================
+-- Same rule as attributeChallan() in src/utils/challans.ts: the trip whose
+-- start..end covers the challan time, the most recently started one where
+-- trips overlap. An end at midnight is a date-only trip and covers that day.
+CREATE OR REPLACE FUNCTION public.attribute_traffic_challans(p_vehicle_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_count INTEGER;
+BEGIN
+  SELECT organization_id INTO v_organization_id
+  FROM public.vehicles
+  WHERE id = p_vehicle_id;
+
+  IF v_organization_id IS NULL OR NOT public.is_active_member(v_organization_id) THEN
+    RAISE EXCEPTION 'Vehicle not found';
+  END IF;
+
+  UPDATE public.traffic_challans c
+  SET trip_id = matched.trip_id,
+      driver_id = COALESCE(matched.driver_id, c.driver_id),
+      attribution = 'trip'
+  FROM (
+    SELECT challan.id AS challan_id, trip.id AS trip_id, trip.driver_id
+    FROM public.traffic_challans challan
+    CROSS JOIN LATERAL (
+      SELECT t.id, t.driver_id
+      FROM public.trips t
+      WHERE t.vehicle_id = challan.vehicle_id
+        AND t.organization_id = challan.organization_id
+        AND t.deleted_at IS NULL
+        AND t.trip_start_date <= challan.challan_date
+        AND challan.challan_date < CASE
+          WHEN COALESCE(t.trip_end_date, t.trip_start_date) = date_trunc('day', COALESCE(t.trip_end_date, t.trip_start_date))
+            THEN COALESCE(t.trip_end_date, t.trip_start_date) + INTERVAL '1 day'
+          ELSE COALESCE(t.trip_end_date, t.trip_start_date) + INTERVAL '1 second'
+        END
+      ORDER BY t.trip_start_date DESC
+      LIMIT 1
+    ) trip
+    WHERE challan.vehicle_id = p_vehicle_id
+      AND challan.organization_id = v_organization_id
+      AND challan.attribution <> 'trip'
+      AND challan.challan_date IS NOT NULL
+  ) matched
+  WHERE c.id = matched.challan_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attribute_traffic_challans(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.attribute_traffic_challans(UUID) TO authenticated;
+
+-- =====================================================
+-- STEP 2: Record a payment
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.record_challan_payment(
+  p_challan_id UUID,
+  p_amount NUMERIC,
+  p_reference TEXT DEFAULT NULL
+)
+RETURNS public.traffic_challans
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_challan public.traffic_challans;
+  v_amount_paid NUMERIC;
+BEGIN
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_challan
+  FROM public.traffic_challans
+  WHERE id = p_challan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challan not found';
+  END IF;
+
+  v_amount_paid := ROUND(v_challan.amount_paid + p_amount, 2);
+
+  IF v_challan.payment_status = 'paid' OR v_amount_paid > v_challan.amount THEN
+    RAISE EXCEPTION 'Payment is more than the % outstanding on challan %',
+      GREATEST(v_challan.amount - v_challan.amount_paid, 0), v_challan.challan_no;
+  END IF;
+
+  UPDATE public.traffic_challans
+  SET amount_paid = v_amount_paid,
+      payment_status = CASE WHEN v_amount_paid >= amount THEN 'paid' ELSE 'partially_paid' END,
+      paid_at = CASE WHEN v_amount_paid >= amount THEN NOW() ELSE NULL END,
+      payment_reference = COALESCE(NULLIF(TRIM(p_reference), ''), payment_reference)
+  WHERE id = p_challan_id
+  RETURNING * INTO v_challan;
+
+  RETURN v_challan;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_challan_payment(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- =====================================================
+-- STEP 3: Documentation
+-- =====================================================
+COMMENT ON FUNCTION public.attribute_traffic_challans(UUID) IS
+  'Ties a vehicle''s challans to the trip active when each was issued, across all of the organization''s trips';
+
+COMMENT ON FUNCTION public.record_challan_payment(UUID, NUMERIC, TEXT) IS
+  'Adds a payment to a challan atomically; rejects payments above the outstanding amount';